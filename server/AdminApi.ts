@@ -0,0 +1,351 @@
+/**
+ * Admin API — token-protected REST endpoints on the game server's HTTP port.
+ * Moderators use them through the admin page (GET /admin) or scripts, so
+ * they can act without joining a world. Every request carries
+ * `Authorization: Bearer <ADMIN_API_TOKEN>`; with no token configured the
+ * API answers 404 as if it were not there. Actions are written to the
+ * moderation audit log under the name sent in `X-Admin-Name`, marked (web).
+ *
+ *   GET    /admin/api/overview                 counts for the dashboard
+ *   GET    /admin/api/players                  connected players
+ *   POST   /admin/api/players/:id/kick         { reason? }
+ *   POST   /admin/api/players/:id/ban          { duration?, reason? }  duration: 30m | 12h | 7d | 2w | perm
+ *   POST   /admin/api/players/:id/mute         { duration?, reason? }
+ *   GET    /admin/api/history?name=            sanctions, reports and admin actions for a name
+ *   GET    /admin/api/bans, /admin/api/mutes   active sanctions
+ *   DELETE /admin/api/bans/:subjectOrName      lift a ban (same for mutes)
+ *   GET    /admin/api/bots                     bots per shard
+ *   PUT    /admin/api/bots/difficulty          { difficulty, shardId? }  all shards when no shardId
+ *   GET    /admin/api/matches                  PvP sessions, heists and MvM matches
+ *   POST   /admin/api/matches/pvp/:id/end
+ *   POST   /admin/api/announce                 { message }
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { BotDifficulty, isBotDifficulty } from '../shared/BotDifficulty';
+import { ModerationHistory, Sanction, SanctionKind, parseModerationDuration } from './Moderation';
+import { SpectatableMatch, Vector3 } from '../shared/types';
+import { ADMIN_PAGE_HTML } from './AdminPage';
+import { createLogger } from './Logger';
+
+const log = createLogger('AdminAPI');
+
+/** Shorter tokens are refused, leaving the API off */
+export const ADMIN_API_MIN_TOKEN_LENGTH = 16;
+const MAX_BODY_BYTES = 8 * 1024;
+const MAX_ADMIN_NAME_LENGTH = 32;
+
+export interface AdminShardSummary {
+  id: string;
+  name: string;
+  players: number;
+  capacity: number;
+  bots: number;
+  botDifficulty: BotDifficulty;
+}
+
+export interface AdminOverview {
+  uptimeSec: number;
+  shards: AdminShardSummary[];
+  players: number;
+  bots: number;
+  pvpSessions: number;
+  heistMatches: number;
+  mvmMatches: number;
+  bans: number;
+  mutes: number;
+  serverTime: number;
+}
+
+export interface AdminPlayerSummary {
+  id: string;
+  username: string;
+  shardId: string;
+  isAdmin: boolean;
+  muted: boolean;
+  frozen: boolean;
+  coins: number;
+  heat: number;
+  position: Vector3;
+}
+
+export interface AdminMatchSummary extends SpectatableMatch {
+  /** Private lobbies are left out of the public match list but not this one */
+  isPrivate: boolean;
+  players: string[];
+}
+
+export interface AdminBotSummary {
+  shardId: string;
+  difficulty: BotDifficulty;
+  bots: string[];
+}
+
+/** What the API needs from the game server; GameServer implements it */
+export interface AdminApiHost {
+  getOverview(): AdminOverview;
+  listPlayers(): AdminPlayerSummary[];
+  listBots(): AdminBotSummary[];
+  listMatches(): AdminMatchSummary[];
+  listSanctions(kind: SanctionKind): Sanction[];
+  getHistory(username: string): ModerationHistory;
+  /** False when the player is not connected */
+  kick(playerId: string, reason: string, by: string): boolean;
+  /** Null when the player is not connected; `durationMs` null is until lifted */
+  sanction(kind: SanctionKind, playerId: string, durationMs: number | null, reason: string, by: string): Sanction | null;
+  lift(kind: SanctionKind, subjectOrName: string, by: string): Sanction | null;
+  announce(message: string, by: string): void;
+  /** False when the shard does not exist */
+  setBotDifficulty(difficulty: BotDifficulty, shardId: string | null, by: string): boolean;
+  /** False when there is no such session */
+  endPvPSession(sessionId: string, by: string): boolean;
+}
+
+interface AdminApiResponse {
+  status: number;
+  body: unknown;
+}
+
+interface AdminApiRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  by: string;
+}
+
+interface AdminRoute {
+  method: string;
+  pattern: RegExp;
+  handle(request: AdminApiRequest): AdminApiResponse;
+}
+
+function ok(body: unknown): AdminApiResponse {
+  return { status: 200, body };
+}
+
+function fail(status: number, error: string): AdminApiResponse {
+  return { status, body: { error } };
+}
+
+function text(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+export class AdminApi {
+  private tokenDigest: Buffer | null;
+  private host: AdminApiHost;
+  private routes: AdminRoute[];
+  /** Sanction defaults, matching the /ban and /mute chat commands */
+  private defaultDurations: Record<SanctionKind, number | null>;
+
+  constructor(token: string | null, host: AdminApiHost, defaultMuteMs: number) {
+    const trimmed = (token || '').trim();
+    if (trimmed && trimmed.length < ADMIN_API_MIN_TOKEN_LENGTH) {
+      log.warn('ADMIN_API_TOKEN is too short; admin API disabled', { minLength: ADMIN_API_MIN_TOKEN_LENGTH });
+    }
+    this.tokenDigest = trimmed.length >= ADMIN_API_MIN_TOKEN_LENGTH ? digest(trimmed) : null;
+    this.host = host;
+    this.defaultDurations = { ban: null, mute: defaultMuteMs };
+    this.routes = this.buildRoutes();
+  }
+
+  get enabled(): boolean {
+    return this.tokenDigest !== null;
+  }
+
+  /** Whether a path belongs to the admin page or API */
+  handles(pathname: string): boolean {
+    return pathname === '/admin' || pathname.startsWith('/admin/');
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    if (!this.enabled) {
+      this.reply(res, fail(404, 'Not found'));
+      return;
+    }
+
+    // The page itself is public; it asks for the token and sends it with every call
+    if (url.pathname === '/admin' || url.pathname === '/admin/') {
+      res.writeHead(200, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'X-Frame-Options': 'DENY',
+      });
+      res.end(ADMIN_PAGE_HTML);
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      this.reply(res, fail(401, 'Missing or invalid admin token'));
+      return;
+    }
+
+    const method = req.method || 'GET';
+    let matchedPath = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(url.pathname);
+      if (!match) continue;
+      matchedPath = true;
+      if (route.method !== method) continue;
+
+      let body: Record<string, unknown> = {};
+      if (method !== 'GET') {
+        const parsed = await this.readBody(req);
+        if (parsed === null) {
+          this.reply(res, fail(400, 'Body must be a JSON object under 8KB'));
+          return;
+        }
+        body = parsed;
+      }
+
+      const by = text(req.headers['x-admin-name'], MAX_ADMIN_NAME_LENGTH) || 'Web admin';
+      let params: string[];
+      try {
+        params = match.slice(1).map((p) => decodeURIComponent(p));
+      } catch {
+        this.reply(res, fail(400, 'Malformed path'));
+        return;
+      }
+      try {
+        this.reply(res, route.handle({ params, query: url.searchParams, body, by: `${by} (web)` }));
+      } catch (err) {
+        log.error('Request failed', { method, path: url.pathname, err });
+        this.reply(res, fail(500, 'Internal error'));
+      }
+      return;
+    }
+
+    this.reply(res, matchedPath ? fail(405, 'Method not allowed') : fail(404, 'Not found'));
+  }
+
+  private buildRoutes(): AdminRoute[] {
+    const host = this.host;
+    const sanction = (kind: SanctionKind) => ({ params, body, by }: AdminApiRequest): AdminApiResponse => {
+      const rawDuration = text(body.duration, 16);
+      const parsed = rawDuration ? parseModerationDuration(rawDuration) : this.defaultDurations[kind];
+      if (parsed === undefined) return fail(400, 'duration must look like 30m, 12h, 7d, 2w or perm');
+      const result = host.sanction(kind, params[0], parsed, text(body.reason, 200), by);
+      return result ? ok(result) : fail(404, 'Player not connected');
+    };
+    const lift = (kind: SanctionKind) => ({ params, by }: AdminApiRequest): AdminApiResponse => {
+      const lifted = host.lift(kind, params[0], by);
+      return lifted ? ok(lifted) : fail(404, `No active ${kind} for ${params[0]}`);
+    };
+
+    return [
+      { method: 'GET', pattern: /^\/admin\/api\/overview$/, handle: () => ok(host.getOverview()) },
+      { method: 'GET', pattern: /^\/admin\/api\/players$/, handle: () => ok(host.listPlayers()) },
+      {
+        method: 'POST',
+        pattern: /^\/admin\/api\/players\/([^/]+)\/kick$/,
+        handle: ({ params, body, by }) => (host.kick(params[0], text(body.reason, 200), by)
+          ? ok({ kicked: params[0] })
+          : fail(404, 'Player not connected')),
+      },
+      { method: 'POST', pattern: /^\/admin\/api\/players\/([^/]+)\/ban$/, handle: sanction('ban') },
+      { method: 'POST', pattern: /^\/admin\/api\/players\/([^/]+)\/mute$/, handle: sanction('mute') },
+      {
+        method: 'GET',
+        pattern: /^\/admin\/api\/history$/,
+        handle: ({ query }) => {
+          const name = text(query.get('name'), 64);
+          return name ? ok(host.getHistory(name)) : fail(400, 'name is required');
+        },
+      },
+      { method: 'GET', pattern: /^\/admin\/api\/bans$/, handle: () => ok(host.listSanctions('ban')) },
+      { method: 'DELETE', pattern: /^\/admin\/api\/bans\/([^/]+)$/, handle: lift('ban') },
+      { method: 'GET', pattern: /^\/admin\/api\/mutes$/, handle: () => ok(host.listSanctions('mute')) },
+      { method: 'DELETE', pattern: /^\/admin\/api\/mutes\/([^/]+)$/, handle: lift('mute') },
+      { method: 'GET', pattern: /^\/admin\/api\/bots$/, handle: () => ok(host.listBots()) },
+      {
+        method: 'PUT',
+        pattern: /^\/admin\/api\/bots\/difficulty$/,
+        handle: ({ body, by }) => {
+          const difficulty = text(body.difficulty, 16).toLowerCase();
+          if (!isBotDifficulty(difficulty)) return fail(400, 'difficulty must be easy, normal, hard or expert');
+          const shardId = text(body.shardId, 64) || null;
+          return host.setBotDifficulty(difficulty, shardId, by)
+            ? ok({ difficulty, shardId })
+            : fail(404, `Unknown shard: ${shardId}`);
+        },
+      },
+      { method: 'GET', pattern: /^\/admin\/api\/matches$/, handle: () => ok(host.listMatches()) },
+      {
+        method: 'POST',
+        pattern: /^\/admin\/api\/matches\/pvp\/([^/]+)\/end$/,
+        handle: ({ params, by }) => (host.endPvPSession(params[0], by)
+          ? ok({ ended: params[0] })
+          : fail(404, 'No such PvP session')),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/admin\/api\/announce$/,
+        handle: ({ body, by }) => {
+          const message = text(body.message, 300);
+          if (!message) return fail(400, 'message is required');
+          host.announce(message, by);
+          return ok({ announced: message });
+        },
+      },
+    ];
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const header = req.headers.authorization || '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match || !this.tokenDigest) return false;
+    // Compare digests so neither the token's content nor its length leaks through timing
+    return timingSafeEqual(digest(match[1].trim()), this.tokenDigest);
+  }
+
+  /** The JSON object body, {} when empty, or null when it is too big or not an object */
+  private readBody(req: IncomingMessage): Promise<Record<string, unknown> | null> {
+    return new Promise((resolve) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let settled = false;
+      const settle = (value: Record<string, unknown> | null): void => {
+        if (settled) return;
+        settled = true;
+        resolve(value);
+      };
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          settle(null);
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        const raw = Buffer.concat(chunks).toString('utf8').trim();
+        if (!raw) {
+          settle({});
+          return;
+        }
+        try {
+          const parsed = JSON.parse(raw);
+          settle(parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null);
+        } catch {
+          settle(null);
+        }
+      });
+      req.on('error', () => settle(null));
+    });
+  }
+
+  private reply(res: ServerResponse, response: AdminApiResponse): void {
+    res.writeHead(response.status, {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    });
+    res.end(JSON.stringify(response.body));
+  }
+}
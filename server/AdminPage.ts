@@ -0,0 +1,283 @@
+/**
+ * Admin Page — the standalone dashboard served at GET /admin.
+ * One self-contained HTML file with no build step or outside assets, so it
+ * ships with the server image. It asks for the admin token, keeps it in
+ * sessionStorage for the tab, and polls the admin API for live counts.
+ */
+
+export const ADMIN_PAGE_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Bird Game 3 — Admin</title>
+<style>
+  body { margin: 0; font: 14px/1.4 system-ui, sans-serif; background: #12161c; color: #e3e8ef; }
+  header { display: flex; align-items: center; gap: 12px; padding: 10px 16px; background: #1b222b; border-bottom: 1px solid #2a3340; }
+  header h1 { margin: 0; font-size: 16px; flex: 1; }
+  main { padding: 16px; display: grid; gap: 16px; grid-template-columns: repeat(auto-fit, minmax(420px, 1fr)); }
+  section { background: #1b222b; border: 1px solid #2a3340; border-radius: 6px; padding: 12px; }
+  section h2 { margin: 0 0 8px; font-size: 14px; color: #9fb3c8; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #2a3340; }
+  th { color: #9fb3c8; font-weight: 600; }
+  button { background: #2d3a4a; color: inherit; border: 1px solid #3d4d61; border-radius: 4px; padding: 3px 8px; cursor: pointer; }
+  button:hover { background: #3a4a5e; }
+  button.danger { border-color: #8a3b3b; }
+  input, select { background: #12161c; color: inherit; border: 1px solid #3d4d61; border-radius: 4px; padding: 4px 6px; }
+  .stats { display: flex; flex-wrap: wrap; gap: 8px; }
+  .stat { min-width: 90px; padding: 6px 10px; background: #12161c; border-radius: 4px; }
+  .stat b { display: block; font-size: 20px; }
+  .muted { color: #7d8b9b; }
+  .tag { font-size: 11px; padding: 0 4px; border-radius: 3px; background: #2d3a4a; margin-left: 4px; }
+  #status { font-size: 12px; }
+  #status.error { color: #ff8a80; }
+  #login { max-width: 360px; margin: 80px auto; display: grid; gap: 8px; }
+  pre { white-space: pre-wrap; margin: 0; font-size: 12px; }
+</style>
+</head>
+<body>
+<form id="login" hidden>
+  <h1>Bird Game 3 admin</h1>
+  <input id="token" type="password" placeholder="Admin API token" autocomplete="off" required>
+  <input id="name" placeholder="Your name (for the audit log)" maxlength="32">
+  <button type="submit">Sign in</button>
+  <div id="loginError" class="muted"></div>
+</form>
+
+<div id="app" hidden>
+  <header>
+    <h1>Bird Game 3 admin</h1>
+    <span id="status" class="muted"></span>
+    <button id="signOut">Sign out</button>
+  </header>
+  <main>
+    <section><h2>Overview</h2><div id="overview" class="stats"></div></section>
+    <section>
+      <h2>Announce</h2>
+      <form id="announce"><input id="announceText" maxlength="300" placeholder="Message to every player" style="width: 75%"> <button type="submit">Send</button></form>
+    </section>
+    <section style="grid-column: 1 / -1"><h2>Players</h2><div id="players"></div></section>
+    <section><h2>Matches</h2><div id="matches"></div></section>
+    <section><h2>Bots</h2><div id="bots"></div></section>
+    <section><h2>Bans</h2><div id="bans"></div></section>
+    <section><h2>Mutes</h2><div id="mutes"></div></section>
+    <section style="grid-column: 1 / -1">
+      <h2>History</h2>
+      <form id="history"><input id="historyName" placeholder="Username or ID"> <button type="submit">Look up</button></form>
+      <pre id="historyResult" class="muted"></pre>
+    </section>
+  </main>
+</div>
+
+<script>
+(function () {
+  var TOKEN_KEY = 'birdgame_admin_token';
+  var NAME_KEY = 'birdgame_admin_name';
+  var POLL_MS = 5000;
+  var DIFFICULTIES = ['easy', 'normal', 'hard', 'expert'];
+  var pollTimer = null;
+
+  function $(id) { return document.getElementById(id); }
+  function esc(value) {
+    return String(value).replace(/[&<>"']/g, function (c) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+    });
+  }
+  function ago(at) {
+    var s = Math.max(0, Math.round((Date.now() - at) / 1000));
+    return s < 60 ? s + 's ago' : s < 3600 ? Math.round(s / 60) + 'm ago' : Math.round(s / 3600) + 'h ago';
+  }
+  function term(s) {
+    return s.expiresAt === null ? 'permanent' : 'ends ' + new Date(s.expiresAt).toLocaleString();
+  }
+
+  function api(method, path, body) {
+    var headers = { 'Authorization': 'Bearer ' + sessionStorage.getItem(TOKEN_KEY) };
+    var name = sessionStorage.getItem(NAME_KEY);
+    if (name) headers['X-Admin-Name'] = name;
+    if (body) headers['Content-Type'] = 'application/json';
+    return fetch('/admin/api/' + path, { method: method, headers: headers, body: body ? JSON.stringify(body) : undefined })
+      .then(function (res) {
+        return res.json().then(function (data) {
+          if (res.status === 401) { signOut('Token rejected'); throw new Error(data.error); }
+          if (!res.ok) throw new Error(data.error || res.statusText);
+          return data;
+        });
+      });
+  }
+
+  function setStatus(text, isError) {
+    $('status').textContent = text;
+    $('status').className = isError ? 'error' : 'muted';
+  }
+
+  /** Run an action, report how it went, then refresh everything */
+  function act(method, path, body, done) {
+    api(method, path, body)
+      .then(function () { setStatus(done); refresh(); })
+      .catch(function (err) { setStatus(err.message, true); });
+  }
+
+  function renderOverview(o) {
+    var stats = [
+      ['Players', o.players], ['Bots', o.bots], ['PvP', o.pvpSessions], ['Heists', o.heistMatches],
+      ['MvM', o.mvmMatches], ['Bans', o.bans], ['Mutes', o.mutes], ['Uptime', Math.floor(o.uptimeSec / 60) + 'm'],
+    ];
+    $('overview').innerHTML = stats.map(function (s) {
+      return '<div class="stat"><b>' + esc(s[1]) + '</b><span class="muted">' + s[0] + '</span></div>';
+    }).join('') + o.shards.map(function (s) {
+      return '<div class="stat"><b>' + s.players + '/' + s.capacity + '</b><span class="muted">' + esc(s.name) + '</span></div>';
+    }).join('');
+  }
+
+  function renderPlayers(players) {
+    if (players.length === 0) { $('players').innerHTML = '<span class="muted">Nobody online.</span>'; return; }
+    $('players').innerHTML = '<table><tr><th>Name</th><th>World</th><th>Coins</th><th>Heat</th><th></th></tr>' +
+      players.map(function (p) {
+        var tags = (p.isAdmin ? '<span class="tag">admin</span>' : '') +
+          (p.muted ? '<span class="tag">muted</span>' : '') + (p.frozen ? '<span class="tag">frozen</span>' : '');
+        return '<tr><td>' + esc(p.username) + tags + '</td><td>' + esc(p.shardId) + '</td><td>' + p.coins +
+          '</td><td>' + p.heat + '</td><td>' +
+          '<button data-act="kick" data-id="' + esc(p.id) + '" data-name="' + esc(p.username) + '">Kick</button> ' +
+          '<button data-act="mute" data-id="' + esc(p.id) + '" data-name="' + esc(p.username) + '">Mute</button> ' +
+          '<button class="danger" data-act="ban" data-id="' + esc(p.id) + '" data-name="' + esc(p.username) + '">Ban</button>' +
+          '</td></tr>';
+      }).join('') + '</table>';
+  }
+
+  function renderMatches(matches) {
+    if (matches.length === 0) { $('matches').innerHTML = '<span class="muted">No matches running.</span>'; return; }
+    $('matches').innerHTML = '<table><tr><th>Kind</th><th>Mode</th><th>Phase</th><th>Players</th><th></th></tr>' +
+      matches.map(function (m) {
+        return '<tr><td>' + m.kind + (m.isPrivate ? '<span class="tag">private</span>' : '') + '</td><td>' +
+          esc(m.mode) + '</td><td>' + esc(m.phase) + '</td><td>' + esc(m.players.join(', ')) + '</td><td>' +
+          (m.kind === 'pvp' ? '<button class="danger" data-act="end" data-id="' + esc(m.matchId) + '">End</button>' : '') +
+          '</td></tr>';
+      }).join('') + '</table>';
+  }
+
+  function renderBots(shards) {
+    $('bots').innerHTML = '<table><tr><th>World</th><th>Bots</th><th>Difficulty</th></tr>' +
+      shards.map(function (s) {
+        return '<tr><td>' + esc(s.shardId) + '</td><td>' + s.bots.length + '</td><td><select data-shard="' +
+          esc(s.shardId) + '">' + DIFFICULTIES.map(function (d) {
+            return '<option' + (d === s.difficulty ? ' selected' : '') + '>' + d + '</option>';
+          }).join('') + '</select></td></tr>';
+      }).join('') + '</table>';
+  }
+
+  function renderSanctions(el, kind, list) {
+    if (list.length === 0) { $(el).innerHTML = '<span class="muted">None.</span>'; return; }
+    $(el).innerHTML = '<table><tr><th>Name</th><th>By</th><th>Term</th><th></th></tr>' +
+      list.map(function (s) {
+        return '<tr><td title="' + esc(s.reason) + '">' + esc(s.username) + '</td><td>' + esc(s.issuedBy) +
+          '</td><td>' + term(s) + '</td><td><button data-act="lift" data-kind="' + kind + '" data-id="' +
+          esc(s.subjectId) + '" data-name="' + esc(s.username) + '">Lift</button></td></tr>';
+      }).join('') + '</table>';
+  }
+
+  function refresh() {
+    Promise.all([
+      api('GET', 'overview'), api('GET', 'players'), api('GET', 'matches'),
+      api('GET', 'bots'), api('GET', 'bans'), api('GET', 'mutes'),
+    ]).then(function (r) {
+      renderOverview(r[0]); renderPlayers(r[1]); renderMatches(r[2]);
+      renderBots(r[3]); renderSanctions('bans', 'bans', r[4]); renderSanctions('mutes', 'mutes', r[5]);
+      if (!/error/.test($('status').className)) setStatus('Updated ' + new Date().toLocaleTimeString());
+    }).catch(function (err) { setStatus(err.message, true); });
+  }
+
+  document.addEventListener('click', function (e) {
+    var b = e.target.closest('button[data-act]');
+    if (!b) return;
+    var id = encodeURIComponent(b.dataset.id);
+    var name = b.dataset.name;
+    switch (b.dataset.act) {
+      case 'kick': {
+        var reason = prompt('Kick ' + name + '? Reason (optional):');
+        if (reason !== null) act('POST', 'players/' + id + '/kick', { reason: reason }, 'Kicked ' + name);
+        break;
+      }
+      case 'mute':
+      case 'ban': {
+        var kind = b.dataset.act;
+        var duration = prompt(kind + ' ' + name + ' for how long? (30m, 12h, 7d, 2w, perm; blank for the default)');
+        if (duration === null) break;
+        var why = prompt('Reason (optional):');
+        if (why === null) break;
+        act('POST', 'players/' + id + '/' + kind, { duration: duration, reason: why }, (kind === 'ban' ? 'Banned ' : 'Muted ') + name);
+        break;
+      }
+      case 'lift':
+        if (confirm('Lift the ' + b.dataset.kind.replace(/s$/, '') + ' on ' + name + '?')) {
+          act('DELETE', b.dataset.kind + '/' + id, null, 'Lifted ' + name);
+        }
+        break;
+      case 'end':
+        if (confirm('End this PvP session for everyone in it?')) act('POST', 'matches/pvp/' + id + '/end', null, 'Session ended');
+        break;
+    }
+  });
+
+  document.addEventListener('change', function (e) {
+    var select = e.target.closest('select[data-shard]');
+    if (!select) return;
+    act('PUT', 'bots/difficulty', { difficulty: select.value, shardId: select.dataset.shard }, 'Bot difficulty set to ' + select.value);
+  });
+
+  $('announce').addEventListener('submit', function (e) {
+    e.preventDefault();
+    var message = $('announceText').value.trim();
+    if (!message) return;
+    act('POST', 'announce', { message: message }, 'Announced');
+    $('announceText').value = '';
+  });
+
+  $('history').addEventListener('submit', function (e) {
+    e.preventDefault();
+    var name = $('historyName').value.trim();
+    if (!name) return;
+    api('GET', 'history?name=' + encodeURIComponent(name)).then(function (h) {
+      var lines = []
+        .concat(h.sanctions.map(function (s) {
+          var status = s.liftedAt !== null ? 'lifted by ' + s.liftedBy : term(s);
+          return s.kind + ' by ' + s.issuedBy + ' ' + ago(s.issuedAt) + ': ' + (s.reason || 'no reason') + ' [' + status + ']';
+        }))
+        .concat(h.reports.map(function (r) { return 'report by ' + r.reporterName + ' ' + ago(r.at) + ': ' + r.reason; }))
+        .concat(h.actions.map(function (a) { return '/' + a.command + ' ' + a.args + ' by ' + a.adminName + ' ' + ago(a.at); }));
+      $('historyResult').textContent = lines.length ? lines.join('\\n') : 'No moderation history for ' + name;
+    }).catch(function (err) { $('historyResult').textContent = err.message; });
+  });
+
+  function signIn() {
+    $('login').hidden = true;
+    $('app').hidden = false;
+    refresh();
+    pollTimer = setInterval(refresh, POLL_MS);
+  }
+
+  function signOut(message) {
+    sessionStorage.removeItem(TOKEN_KEY);
+    clearInterval(pollTimer);
+    $('app').hidden = true;
+    $('login').hidden = false;
+    $('loginError').textContent = message || '';
+  }
+
+  $('login').addEventListener('submit', function (e) {
+    e.preventDefault();
+    sessionStorage.setItem(TOKEN_KEY, $('token').value.trim());
+    sessionStorage.setItem(NAME_KEY, $('name').value.trim());
+    $('token').value = '';
+    api('GET', 'overview').then(signIn).catch(function () {});
+  });
+  $('signOut').addEventListener('click', function () { signOut(''); });
+
+  if (sessionStorage.getItem(TOKEN_KEY)) signIn(); else signOut('');
+})();
+</script>
+</body>
+</html>
+`;
@@ -4,7 +4,9 @@
  * Uses Perlin-like noise for organic movement and weighted state transitions.
  */
 
-import { Vector3 } from './types';
+import { Vector3 } from '../shared/types';
+import { CityFootprints } from '../shared/CityLayout';
+import { BOT_DIFFICULTY_PROFILES, BotDifficulty, BotDifficultyProfile, DEFAULT_BOT_DIFFICULTY } from '../shared/BotDifficulty';
 
 // --- Behavior States ---
 
@@ -107,6 +109,8 @@ const MIN_ALTITUDE = 5;
 const MAX_ALTITUDE = 150;
 const CRUISE_ALTITUDE_MIN = 15;
 const CRUISE_ALTITUDE_MAX = 80;
+/** Waypoints keep this far from building walls */
+const WAYPOINT_CLEARANCE = 8;
 
 // --- Flight parameters ---
 const BASE_SPEED = 30;
@@ -117,6 +121,19 @@ const PITCH_RATE = 1.2;
 const POOP_COOLDOWN = 1.5; // Bots poop less frequently than allowed (more human)
 const REACTION_DELAY_MIN = 0.2;
 const REACTION_DELAY_MAX = 0.8;
+const TARGET_REFRESH_CHANCE = 0.01; // Per tick, before the difficulty's reaction scale
+const MAX_AIM_LEAD_SECONDS = 1.5;
+// Just inside WorldState's lasso reach, so casts the server would reject aren't tried
+const LASSO_REACH = 16;
+const LASSO_VERTICAL_WINDOW = 3.5;
+const LASSO_RETRY_SECONDS = 4;
+
+/** A real player near a bot, as BotManager sees them this tick */
+export interface BotTarget {
+  id: string;
+  position: Vector3;
+  velocity: Vector3;
+}
 
 export interface BotMovementOutput {
   position: Vector3;
@@ -165,6 +182,13 @@ export class BotBehavior {
 
   // PvP
   private pvpTargetPos: Vector3 | null = null;
+  private pvpTarget: BotTarget | null = null;
+  /** Player to lasso this tick, if any; BotManager casts it */
+  lassoIntent: string | null = null;
+  private lassoCooldown = 0;
+
+  // Skill tier, set by BotManager
+  private difficulty: BotDifficultyProfile = BOT_DIFFICULTY_PROFILES[DEFAULT_BOT_DIFFICULTY];
 
   // Tricks
   private trickTimer = 0;
@@ -199,7 +223,11 @@ export class BotBehavior {
   // Session maturity: 0 = just joined, 1 = veteran (set by BotPlayer)
   sessionMaturity = 0;
 
-  constructor(spawnPos: Vector3, archetype?: BotArchetype) {
+  // Seeded building footprints — waypoints avoid the inside of buildings
+  private city: CityFootprints | null;
+
+  constructor(spawnPos: Vector3, archetype?: BotArchetype, city: CityFootprints | null = null) {
+    this.city = city;
     this.posX = spawnPos.x;
     this.posY = spawnPos.y;
     this.posZ = spawnPos.z;
@@ -220,9 +248,17 @@ export class BotBehavior {
     this.pickNewState();
   }
 
+  setDifficulty(difficulty: BotDifficulty): void {
+    this.difficulty = BOT_DIFFICULTY_PROFILES[difficulty];
+  }
+
+  getDifficulty(): BotDifficultyProfile {
+    return this.difficulty;
+  }
+
   // --- Main Update ---
 
-  update(dt: number, nearbyPlayerPositions: Vector3[]): BotMovementOutput {
+  update(dt: number, nearbyPlayers: BotTarget[]): BotMovementOutput {
     // Update noise phases
     this.noisePhaseX += dt * this.noiseSpeed;
     this.noisePhaseZ += dt * this.noiseSpeed * 0.7;
@@ -247,6 +283,8 @@ export class BotBehavior {
     // Poop cooldown
     this.poopCooldown = Math.max(0, this.poopCooldown - dt);
     this.poopIntent = false;
+    this.lassoCooldown = Math.max(0, this.lassoCooldown - dt);
+    this.lassoIntent = null;
 
     // Trick cooldown
     this.trickCooldown = Math.max(0, this.trickCooldown - dt);
@@ -277,7 +315,7 @@ export class BotBehavior {
         this.updateTricks(dt);
         break;
       case 'pvp_chase':
-        this.updatePvPChase(dt, nearbyPlayerPositions);
+        this.updatePvPChase(dt, nearbyPlayers);
         break;
       case 'perch':
         this.updatePerch(dt);
@@ -494,7 +532,7 @@ export class BotBehavior {
       // Simulate a trick: sudden pitch and speed change
       this.targetPitch = (Math.random() - 0.5) * 1.5;
       this.targetSpeed = BASE_SPEED + Math.random() * 20;
-      this.trickCooldown = 1.5 + Math.random() * 2;
+      this.trickCooldown = (1.5 + Math.random() * 2) / Math.max(0.1, this.difficulty.flipRate);
     }
 
     // Auto-level after trick
@@ -506,24 +544,25 @@ export class BotBehavior {
     this.targetYaw += Math.sin(this.noisePhaseX * 2) * TURN_RATE * 0.3 * dt;
   }
 
-  private updatePvPChase(dt: number, nearbyPlayers: Vector3[]): void {
+  private updatePvPChase(dt: number, nearbyPlayers: BotTarget[]): void {
     if (nearbyPlayers.length === 0) {
       // No players to chase, cruise instead
       this.updateCruise(dt);
       return;
     }
 
-    // Pick closest player as target
-    if (!this.pvpTargetPos || Math.random() < 0.01) {
+    // Pick closest player as target; quicker bots re-check more often
+    if (!this.pvpTargetPos || Math.random() < TARGET_REFRESH_CHANCE / this.difficulty.reactionScale) {
       let closestDist = Infinity;
       for (const p of nearbyPlayers) {
-        const dx = p.x - this.posX;
-        const dy = p.y - this.posY;
-        const dz = p.z - this.posZ;
+        const dx = p.position.x - this.posX;
+        const dy = p.position.y - this.posY;
+        const dz = p.position.z - this.posZ;
         const dist = dx * dx + dy * dy + dz * dz;
         if (dist < closestDist) {
           closestDist = dist;
-          this.pvpTargetPos = { ...p };
+          this.pvpTarget = p;
+          this.pvpTargetPos = this.leadTarget(p);
         }
       }
     }
@@ -533,6 +572,7 @@ export class BotBehavior {
       const dz = this.pvpTargetPos.z - this.posZ;
       const dy = this.pvpTargetPos.y - this.posY;
       const dist = Math.sqrt(dx * dx + dz * dz);
+      this.tryLasso(dt, nearbyPlayers);
 
       this.targetYaw = Math.atan2(-dx, -dz);
       this.targetSpeed = Math.min(MAX_SPEED, BASE_SPEED + dist * 0.3);
@@ -550,6 +590,39 @@ export class BotBehavior {
     }
   }
 
+  /** Where to steer for a target: where it is, plus as much of its lead as the tier sees */
+  private leadTarget(target: BotTarget): Vector3 {
+    const { position, velocity } = target;
+    const lead = this.difficulty.aimPrediction;
+    if (lead <= 0) return { ...position };
+    const dx = position.x - this.posX;
+    const dy = position.y - this.posY;
+    const dz = position.z - this.posZ;
+    const seconds = Math.min(MAX_AIM_LEAD_SECONDS, Math.sqrt(dx * dx + dy * dy + dz * dz) / Math.max(this.speed, BASE_SPEED));
+    return {
+      x: position.x + velocity.x * seconds * lead,
+      y: position.y + velocity.y * seconds * lead,
+      z: position.z + velocity.z * seconds * lead,
+    };
+  }
+
+  /** Roll for a lasso cast at the chased player while they are within reach */
+  private tryLasso(dt: number, nearbyPlayers: BotTarget[]): void {
+    if (this.difficulty.lassoRate <= 0 || this.lassoCooldown > 0 || !this.pvpTarget) return;
+    const targetId = this.pvpTarget.id;
+    const target = nearbyPlayers.find((p) => p.id === targetId);
+    if (!target) return;
+
+    const dx = target.position.x - this.posX;
+    const dz = target.position.z - this.posZ;
+    if (dx * dx + dz * dz > LASSO_REACH * LASSO_REACH) return;
+    if (Math.abs(target.position.y - this.posY) > LASSO_VERTICAL_WINDOW) return;
+    if (Math.random() >= this.difficulty.lassoRate * dt) return;
+
+    this.lassoIntent = target.id;
+    this.lassoCooldown = LASSO_RETRY_SECONDS;
+  }
+
   private updatePerch(dt: number): void {
     // Descend to a rooftop-like altitude and slow down
     const targetAlt = 12 + Math.sin(this.noisePhaseX) * 5;
@@ -575,13 +648,15 @@ export class BotBehavior {
 
   private scheduleStateChange(): void {
     const nextState = this.pickNextState();
-    this.reactionTimer = REACTION_DELAY_MIN + Math.random() * (REACTION_DELAY_MAX - REACTION_DELAY_MIN);
+    const delay = REACTION_DELAY_MIN + Math.random() * (REACTION_DELAY_MAX - REACTION_DELAY_MIN);
+    this.reactionTimer = delay * this.difficulty.reactionScale;
     this.pendingStateChange = nextState;
   }
 
   private pickNextState(): BotState {
     // Start with archetype-specific weights instead of defaults
     const weights: Record<BotState, number> = { ...this.archetypeProfile.stateWeights };
+    weights.tricks *= this.difficulty.flipRate;
 
     // Session maturity adjustments
     if (this.sessionMaturity < 0.2) {
@@ -639,6 +714,7 @@ export class BotBehavior {
         break;
       case 'pvp_chase':
         this.pvpTargetPos = null;
+        this.pvpTarget = null;
         break;
     }
   }
@@ -651,6 +727,7 @@ export class BotBehavior {
     if (reaction === 'chase' && attackerPos) {
       // Aggressive: chase the attacker
       this.pvpTargetPos = { ...attackerPos };
+      this.pvpTarget = null;
       this.state = 'pvp_chase';
       this.stateTimer = 0;
       this.stateDuration = 5 + Math.random() * 5;
@@ -742,11 +819,12 @@ export class BotBehavior {
   // --- Helpers ---
 
   private randomWaypoint(minAlt: number, maxAlt: number): Vector3 {
-    return {
+    const sample = (): Vector3 => ({
       x: (Math.random() - 0.5) * WORLD_BOUND * 1.8,
       y: minAlt + Math.random() * (maxAlt - minAlt),
       z: (Math.random() - 0.5) * WORLD_BOUND * 1.8,
-    };
+    });
+    return this.city ? this.city.sampleClear(sample, WAYPOINT_CLEARANCE) : sample();
   }
 
   private clampPosition(): void {
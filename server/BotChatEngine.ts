@@ -13,8 +13,15 @@
  * - Global chat pacing: mostly quiet, occasional bursts of 3-4 messages,
  *   then silence for 30-90 seconds
  * - Bots respond to each other and to real players with realistic delay
+ * - Bots only hear channels they can see: global, and proximity lines from
+ *   birds close by. They answer on the channel they heard
  */
 
+import { ChatChannelId } from '../shared/ChatChannels';
+
+/** The channels a bot can hear and speak on */
+export type BotChatChannel = Extract<ChatChannelId, 'global' | 'proximity'>;
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -52,12 +59,14 @@ interface QueuedMessage {
   username: string;
   text: string;
   sendAt: number; // ms timestamp
+  channel: BotChatChannel;
 }
 
 export interface OutgoingChat {
   botId: string;
   username: string;
   message: string;
+  channel: BotChatChannel;
 }
 
 // ============================================================================
@@ -578,7 +587,7 @@ export class BotChatEngine {
     this.recordSent(msg);
     state.messagesSent++;
     // Queue with 0 delay so it goes out this tick
-    this.queue.push({ botId, username: state.username, text: msg, sendAt: Date.now() });
+    this.queue.push({ botId, username: state.username, text: msg, sendAt: Date.now(), channel: 'global' });
   }
 
   onBotGotHit(botId: string): void {
@@ -613,9 +622,18 @@ export class BotChatEngine {
 
   /**
    * Called when ANY chat message is received (from real player or another bot).
-   * May trigger a bot to respond.
+   * May trigger a bot to respond. `listenerIds` limits who heard it (a
+   * proximity line); every bot hears global chat.
    */
-  onChatReceived(senderId: string, username: string, message: string): void {
+  onChatReceived(
+    senderId: string,
+    username: string,
+    message: string,
+    channel: BotChatChannel = 'global',
+    listenerIds?: string[],
+  ): void {
+    if (listenerIds && !listenerIds.some((id) => id !== senderId && this.bots.has(id))) return;
+
     this.lastChatSenderId = senderId;
     this.lastChatMessage = message;
     this.lastChatTime = Date.now();
@@ -630,7 +648,8 @@ export class BotChatEngine {
 
     // Pick a random bot to potentially respond
     const candidates = Array.from(this.bots.entries()).filter(
-      ([id, s]) => id !== senderId && this.canBotChat(s) && Math.random() < s.personality.respondToChat,
+      ([id, s]) => id !== senderId && (!listenerIds || listenerIds.includes(id))
+        && this.canBotChat(s) && Math.random() < s.personality.respondToChat,
     );
 
     if (candidates.length === 0) return;
@@ -640,7 +659,7 @@ export class BotChatEngine {
     const category = categorizeMessage(message);
     const delay = 2000 + Math.random() * 6000; // 2-8s response delay
 
-    this.tryQueue(responderId, responderState, category, delay);
+    this.tryQueue(responderId, responderState, category, delay, channel);
   }
 
   /**
@@ -705,7 +724,7 @@ export class BotChatEngine {
       this.recordSent(msg.text);
       state.messagesSent++;
       state.perBotCooldownEnd = now + 15000 + Math.random() * 30000; // 15-45s per-bot cooldown
-      outgoing.push({ botId: msg.botId, username: msg.username, message: msg.text });
+      outgoing.push({ botId: msg.botId, username: msg.username, message: msg.text, channel: msg.channel });
 
       // Update global pacing
       this.burstCount++;
@@ -733,7 +752,13 @@ export class BotChatEngine {
     return true;
   }
 
-  private tryQueue(botId: string, state: BotChatState, category: string, delayMs: number): void {
+  private tryQueue(
+    botId: string,
+    state: BotChatState,
+    category: string,
+    delayMs: number,
+    channel: BotChatChannel = 'global',
+  ): void {
     const template = T[category];
     if (!template) return;
 
@@ -746,6 +771,7 @@ export class BotChatEngine {
           username: state.username,
           text: msg,
           sendAt: Date.now() + delayMs,
+          channel,
         });
         return;
       }
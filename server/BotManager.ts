@@ -9,11 +9,17 @@
  */
 
 import { BotPlayer } from './BotPlayer';
-import { BotChatEngine } from './BotChatEngine';
+import { BotTarget } from './BotBehavior';
+import { BotChatChannel, BotChatEngine } from './BotChatEngine';
+import { PROXIMITY_CHAT_RADIUS } from '../shared/ChatChannels';
+import { BotDifficulty, DEFAULT_BOT_DIFFICULTY } from '../shared/BotDifficulty';
 import { WorldState } from './WorldState';
-import { Vector3 } from './types';
+import { Vector3 } from '../shared/types';
+import { createLogger } from './Logger';
 
-interface BotManagerConfig {
+const log = createLogger('Bots');
+
+export interface BotManagerConfig {
   /** Minimum bots always present */
   minBots: number;
   /** Target player count (bots + real players) */
@@ -24,6 +30,8 @@ interface BotManagerConfig {
   evaluationInterval: number;
   /** Minimum seconds between bot joins (stagger) */
   joinStagger: number;
+  /** Skill tier for every bot in the shard; admins can change it live */
+  difficulty: BotDifficulty;
 }
 
 const DEFAULT_CONFIG: BotManagerConfig = {
@@ -32,6 +40,7 @@ const DEFAULT_CONFIG: BotManagerConfig = {
   maxBots: 15,
   evaluationInterval: 5,
   joinStagger: 3,
+  difficulty: DEFAULT_BOT_DIFFICULTY,
 };
 
 export class BotManager {
@@ -51,7 +60,7 @@ export class BotManager {
   onBotPoop: ((bot: BotPlayer, velocity: Vector3) => void) | null = null;
   onBotBank: ((bot: BotPlayer) => void) | null = null;
   onBotBankComplete: ((bot: BotPlayer) => void) | null = null;
-  onBotChat: ((botId: string, username: string, message: string) => void) | null = null;
+  onBotChat: ((botId: string, username: string, message: string, channel: BotChatChannel) => void) | null = null;
 
   constructor(world: WorldState, config?: Partial<BotManagerConfig>) {
     this.world = world;
@@ -69,7 +78,7 @@ export class BotManager {
     for (let i = 0; i < initialCount; i++) {
       setTimeout(() => this.spawnBot(), i * 2000); // 2s stagger
     }
-    console.log(`BotManager initialized. Target population: ${this.config.targetPopulation}`);
+    log.info('Bot manager initialized', { targetPopulation: this.config.targetPopulation });
   }
 
   /**
@@ -85,20 +94,30 @@ export class BotManager {
       this.evaluatePopulation(realPlayerCount);
     }
 
-    // Gather all real player positions for PvP awareness
-    const realPlayerPositions: Vector3[] = [];
+    // Gather all real players for PvP awareness, with the velocity their
+    // heading implies so sharper bots can lead them
+    const realPlayers: BotTarget[] = [];
     for (const player of this.world.getAllPlayers()) {
       // Only include real players (not bots)
       if (!this.bots.has(player.id)) {
-        realPlayerPositions.push({ ...player.position });
+        const cosP = Math.cos(player.pitch);
+        realPlayers.push({
+          id: player.id,
+          position: { ...player.position },
+          velocity: {
+            x: -Math.sin(player.yaw) * cosP * player.speed,
+            y: Math.sin(player.pitch) * player.speed,
+            z: -Math.cos(player.yaw) * cosP * player.speed,
+          },
+        });
       }
     }
 
     // Update each bot
     const toRemove: string[] = [];
     for (const [botId, bot] of this.bots) {
-      // Get nearby player positions for this bot's PvP awareness
-      const nearbyPlayers = this.getNearbyPositions(bot, realPlayerPositions);
+      // Get nearby players for this bot's PvP awareness
+      const nearbyPlayers = this.getNearbyPlayers(bot, realPlayers);
 
       const alive = bot.update(dt, nearbyPlayers);
       if (!alive) {
@@ -112,6 +131,11 @@ export class BotManager {
         this.onBotPoop?.(bot, bot.getPoopVelocity());
       }
 
+      // Lasso casts go through the same checks as a player's
+      if (bot.behavior.lassoIntent && !bot.player.isStunned()) {
+        this.world.requestPlayerLasso(botId, bot.behavior.lassoIntent);
+      }
+
       // Check banking
       if (bot.wantsToBank()) {
         const started = bot.player.startBanking();
@@ -157,9 +181,13 @@ export class BotManager {
     // Process chat engine queue — flush ready messages
     const outgoing = this.chatEngine.update(dt);
     for (const msg of outgoing) {
-      this.onBotChat?.(msg.botId, msg.username, msg.message);
+      this.onBotChat?.(msg.botId, msg.username, msg.message, msg.channel);
       // Feed bot's own message back into chat engine so other bots can respond
-      this.chatEngine.onChatReceived(msg.botId, msg.username, msg.message);
+      const position = this.world.getPlayer(msg.botId)?.position;
+      const listenerIds = msg.channel === 'proximity' && position
+        ? this.world.getPlayerIdsNear(position, PROXIMITY_CHAT_RADIUS)
+        : undefined;
+      this.chatEngine.onChatReceived(msg.botId, msg.username, msg.message, msg.channel, listenerIds);
     }
   }
 
@@ -201,7 +229,7 @@ export class BotManager {
 
   private spawnBot(): void {
     const spawnPos = this.world.getSpawnPosition();
-    const bot = new BotPlayer(spawnPos);
+    const bot = new BotPlayer(spawnPos, this.world.city, this.config.difficulty);
 
     this.bots.set(bot.botId, bot);
     this.world.addPlayer(bot.player);
@@ -211,7 +239,7 @@ export class BotManager {
     this.chatEngine.onBotJoined(bot.botId);
 
     this.onBotJoined?.(bot);
-    console.log(`Bot joined: ${bot.player.username} (${bot.botId}) [${bot.getArchetype()}] [${this.bots.size} bots]`);
+    log.debug('Bot joined', { botId: bot.botId, username: bot.player.username, archetype: bot.getArchetype(), bots: this.bots.size });
   }
 
   private removeBot(botId: string): void {
@@ -224,22 +252,22 @@ export class BotManager {
     this.bots.delete(botId);
 
     this.onBotLeft?.(botId);
-    console.log(`Bot left: ${bot.player.username} (${botId}) [${this.bots.size} bots]`);
+    log.debug('Bot left', { botId, username: bot.player.username, bots: this.bots.size });
   }
 
-  private getNearbyPositions(bot: BotPlayer, allPositions: Vector3[]): Vector3[] {
-    const result: Vector3[] = [];
+  private getNearbyPlayers(bot: BotPlayer, allPlayers: BotTarget[]): BotTarget[] {
+    const result: BotTarget[] = [];
     const bx = bot.player.position.x;
     const by = bot.player.position.y;
     const bz = bot.player.position.z;
     const rangeSq = 200 * 200;
 
-    for (const pos of allPositions) {
-      const dx = pos.x - bx;
-      const dy = pos.y - by;
-      const dz = pos.z - bz;
+    for (const target of allPlayers) {
+      const dx = target.position.x - bx;
+      const dy = target.position.y - by;
+      const dz = target.position.z - bz;
       if (dx * dx + dy * dy + dz * dz < rangeSq) {
-        result.push(pos);
+        result.push(target);
       }
     }
     return result;
@@ -265,16 +293,33 @@ export class BotManager {
 
   /**
    * Called by GameServer when a real player (or any non-bot) sends a chat message.
-   * Gives bots a chance to respond.
+   * Gives bots a chance to respond; proximity lines come with the IDs of
+   * everyone in earshot, so only bots among them can answer.
    */
-  onExternalChat(senderId: string, username: string, message: string): void {
-    this.chatEngine.onChatReceived(senderId, username, message);
+  onExternalChat(
+    senderId: string,
+    username: string,
+    message: string,
+    channel: BotChatChannel = 'global',
+    listenerIds?: string[],
+  ): void {
+    this.chatEngine.onChatReceived(senderId, username, message, channel, listenerIds);
   }
 
   getBotCount(): number {
     return this.bots.size;
   }
 
+  getDifficulty(): BotDifficulty {
+    return this.config.difficulty;
+  }
+
+  /** Change the tier for bots already flying and any that join later */
+  setDifficulty(difficulty: BotDifficulty): void {
+    this.config.difficulty = difficulty;
+    for (const bot of this.bots.values()) bot.behavior.setDifficulty(difficulty);
+  }
+
   isBot(playerId: string): boolean {
     return this.bots.has(playerId);
   }
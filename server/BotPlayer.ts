@@ -6,8 +6,10 @@
  */
 
 import { Player } from './Player';
-import { BotBehavior, BotArchetype } from './BotBehavior';
-import { Vector3 } from './types';
+import { BotBehavior, BotArchetype, BotTarget } from './BotBehavior';
+import { BotDifficulty, DEFAULT_BOT_DIFFICULTY } from '../shared/BotDifficulty';
+import { CityFootprints } from '../shared/CityLayout';
+import { Vector3 } from '../shared/types';
 
 // Realistic-looking usernames — diverse styles that real players actually use.
 // Deliberately NOT themed around birds/pooping so bots blend in with humans.
@@ -134,11 +136,12 @@ export class BotPlayer {
   prevStunned = false;
   prevCoins = 0;
 
-  constructor(spawnPos: Vector3) {
+  constructor(spawnPos: Vector3, city: CityFootprints | null = null, difficulty: BotDifficulty = DEFAULT_BOT_DIFFICULTY) {
     this.botId = `bot_${nextBotId++}`;
     const username = pickBotName();
     this.player = new Player(this.botId, username, spawnPos);
-    this.behavior = new BotBehavior(spawnPos);
+    this.behavior = new BotBehavior(spawnPos, undefined, city);
+    this.behavior.setDifficulty(difficulty);
 
     // Bots stay for 3-15 minutes then "leave" (mimics real player sessions)
     this.sessionDuration = 180 + Math.random() * 720;
@@ -148,7 +151,7 @@ export class BotPlayer {
    * Update the bot's behavior and apply movement to its Player.
    * Returns false if the bot's session has expired (should be removed).
    */
-  update(dt: number, nearbyPlayerPositions: Vector3[]): boolean {
+  update(dt: number, nearbyPlayers: BotTarget[]): boolean {
     this.sessionTimer += dt;
     if (this.sessionTimer >= this.sessionDuration) {
       releaseBotName(this.player.username);
@@ -159,7 +162,7 @@ export class BotPlayer {
     this.behavior.sessionMaturity = Math.min(1, this.sessionTimer / 300);
 
     // Run behavior AI
-    const output = this.behavior.update(dt, nearbyPlayerPositions);
+    const output = this.behavior.update(dt, nearbyPlayers);
 
     // Apply movement to the Player entity (bypassing input validation
     // since we trust our own AI output)
@@ -185,7 +188,7 @@ export class BotPlayer {
 
   /** Get a poop velocity (slightly randomized like a human) */
   getPoopVelocity(): Vector3 {
-    const spread = 0.5; // Imperfect aim
+    const spread = 0.5 * this.behavior.getDifficulty().aimError; // Imperfect aim
     return {
       x: (Math.random() - 0.5) * spread,
       y: -2,
@@ -0,0 +1,302 @@
+/**
+ * Chat Filter — the checks every player chat line passes before anyone sees it.
+ * One chain serves every chat channel and murmuration chat, so a flood
+ * spread across them still counts as one flood and a word masked in one is
+ * masked in all. Filters run in order; each may rewrite the line, drop it, or ask
+ * for the sender to be muted (the server decides how, via moderation).
+ *
+ * Configuration comes from the environment:
+ *   CHAT_BLOCKED_WORDS=word,prefix*      extra masked words; `*` matches any ending
+ *   CHAT_WORDLIST_FILE=./chat-words.txt  one word per line, `#` comments
+ *   CHAT_ALLOWED_LINKS=birdgame3.com     hosts whose links are left alone
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { ChatChannelId } from '../shared/ChatChannels';
+import { createLogger } from './Logger';
+
+const log = createLogger('Chat');
+
+export type ChatChannel = ChatChannelId | 'murmuration';
+
+export interface ChatFilterInput {
+  /** Who strikes are counted against: the sender's moderation subject */
+  senderKey: string;
+  channel: ChatChannel;
+  message: string;
+  now: number;
+}
+
+export type ChatFilterVerdict =
+  | { action: 'allow'; message: string }
+  /** Not sent; `notice` is shown to the sender alone */
+  | { action: 'drop'; notice: string | null }
+  /** Not sent, and the sender is muted for `durationMs` */
+  | { action: 'mute'; durationMs: number; reason: string };
+
+export interface ChatFilter {
+  readonly name: string;
+  apply(input: ChatFilterInput): ChatFilterVerdict;
+  /** Drop any per-sender state that is no longer needed */
+  prune?(now: number): void;
+}
+
+// Kept short on purpose; servers add their own with CHAT_BLOCKED_WORDS or CHAT_WORDLIST_FILE
+const DEFAULT_BLOCKED_WORDS = ['fuck*', 'shit*', 'bitch*', 'cunt*', 'asshole*', 'bastard*', 'dickhead*', 'wank*'];
+
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '!': 'i', '|': 'i', '3': 'e', '4': 'a', '@': 'a',
+  '5': 's', '$': 's', '7': 't', '+': 't', '8': 'b', '9': 'g',
+};
+
+/** Lower-case letters only, with look-alike digits and symbols read as the letter they stand for */
+export function normalizeLeetspeak(text: string): string {
+  let out = '';
+  for (const char of text.toLowerCase()) {
+    const mapped = LEET_MAP[char] ?? char;
+    if (mapped >= 'a' && mapped <= 'z') out += mapped;
+  }
+  return out;
+}
+
+// ── Word list ───────────────────────────────────────────────────────────────
+
+interface Token {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Masks listed words with asterisks. Whole words only (so "class" is not
+ * caught by "ass"), after leetspeak is undone; stretched letters
+ * ("fuuuck") and words spelt out with spaces or dots ("f u c k") still match.
+ */
+export class WordListFilter implements ChatFilter {
+  readonly name = 'words';
+  private patterns: RegExp[];
+
+  constructor(words: string[]) {
+    this.patterns = [];
+    for (const raw of words) {
+      const prefix = raw.trim().endsWith('*');
+      const letters = normalizeLeetspeak(raw);
+      if (letters.length < 2) continue;
+      const body = [...letters].map((c) => `${c}+`).join('');
+      this.patterns.push(new RegExp(`^${body}${prefix ? '' : '$'}`));
+    }
+  }
+
+  apply(input: ChatFilterInput): ChatFilterVerdict {
+    return { action: 'allow', message: this.mask(input.message) };
+  }
+
+  /** The line with every listed word starred out */
+  mask(message: string): string {
+    const tokens = Array.from(message.matchAll(/\S+/g), (m): Token => ({
+      start: m.index ?? 0,
+      end: (m.index ?? 0) + m[0].length,
+      text: m[0],
+    }));
+    const masked: Token[] = tokens.filter((t) => this.isBlocked(t.text));
+
+    // Letters spelt out one at a time: "f u c k", "s.h.i.t" is already one token
+    let run: Token[] = [];
+    const flush = (): void => {
+      if (run.length >= 3 && this.isBlocked(run.map((t) => t.text).join(''))) masked.push(...run);
+      run = [];
+    };
+    for (const token of tokens) {
+      if (normalizeLeetspeak(token.text).length === 1) run.push(token);
+      else flush();
+    }
+    flush();
+
+    if (masked.length === 0) return message;
+    const chars = [...message];
+    for (const token of masked) {
+      for (let i = token.start; i < token.end; i++) {
+        if (!/\s/.test(chars[i])) chars[i] = '*';
+      }
+    }
+    return chars.join('');
+  }
+
+  private isBlocked(word: string): boolean {
+    // Read with and without surrounding punctuation: "shit!" must not become "shiti"
+    const bare = word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+    return [word, bare].some((w) => {
+      const letters = normalizeLeetspeak(w);
+      return letters.length > 0 && this.patterns.some((p) => p.test(letters));
+    });
+  }
+}
+
+// ── Links ───────────────────────────────────────────────────────────────────
+
+const LINK_REPLACEMENT = '[link removed]';
+const LINK_PATTERNS = [
+  // Invites written to dodge the URL check: "discord . gg / abc", "discord dot gg/abc"
+  /\bdiscord(?:app)?\s*(?:\.|dot)\s*(?:gg|com\s*\/\s*invite)\s*\/\s*\S+/gi,
+  /\b(?:https?:\/\/|www\.)\S+/gi,
+  /\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|gg|io|xyz|ru|ly|me|tv|co|app|dev|info|link|shop|site)\b(?:\/\S*)?/gi,
+];
+
+/** Replaces links and invites with a placeholder unless they point at an allowed host */
+export class LinkFilter implements ChatFilter {
+  readonly name = 'links';
+  private allowedHosts: string[];
+
+  constructor(allowedHosts: string[] = []) {
+    this.allowedHosts = allowedHosts.map((h) => h.trim().toLowerCase()).filter(Boolean);
+  }
+
+  apply(input: ChatFilterInput): ChatFilterVerdict {
+    let message = input.message;
+    for (const pattern of LINK_PATTERNS) {
+      message = message.replace(pattern, (link) => (this.isAllowed(link) ? link : LINK_REPLACEMENT));
+    }
+    return { action: 'allow', message };
+  }
+
+  private isAllowed(link: string): boolean {
+    const host = link.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split(/[/?#]/)[0];
+    return this.allowedHosts.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+  }
+}
+
+// ── Spam ────────────────────────────────────────────────────────────────────
+
+export const CHAT_SPAM_LIMITS = {
+  /** More lines than this inside FLOOD_WINDOW_MS is a flood */
+  FLOOD_MAX_MESSAGES: 5,
+  FLOOD_WINDOW_MS: 10_000,
+  /** The same line this many times inside REPEAT_WINDOW_MS is spam */
+  REPEAT_MAX: 3,
+  REPEAT_WINDOW_MS: 30_000,
+  /** Strikes are forgotten after this long without a new one */
+  STRIKE_RESET_MS: 24 * 60 * 60_000,
+  /** Auto-mute per strike after the first (a warning); the last step repeats */
+  MUTE_STEPS_MS: [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000],
+};
+
+interface SenderActivity {
+  sentAt: number[];
+  /** Normalized text of recent lines, parallel to `sentAt` */
+  texts: string[];
+  strikes: number;
+  lastStrikeAt: number;
+}
+
+/**
+ * Catches floods (too many lines too fast) and repeats (the same line over
+ * and over, however it is spaced or cased). The first strike is a warning;
+ * each one after that mutes for longer.
+ */
+export class SpamFilter implements ChatFilter {
+  readonly name = 'spam';
+  private senders = new Map<string, SenderActivity>();
+
+  apply(input: ChatFilterInput): ChatFilterVerdict {
+    const { now } = input;
+    let activity = this.senders.get(input.senderKey);
+    if (!activity) {
+      activity = { sentAt: [], texts: [], strikes: 0, lastStrikeAt: 0 };
+      this.senders.set(input.senderKey, activity);
+    }
+    if (activity.strikes > 0 && now - activity.lastStrikeAt > CHAT_SPAM_LIMITS.STRIKE_RESET_MS) activity.strikes = 0;
+
+    // Keep only what either window still needs
+    const horizon = now - Math.max(CHAT_SPAM_LIMITS.FLOOD_WINDOW_MS, CHAT_SPAM_LIMITS.REPEAT_WINDOW_MS);
+    while (activity.sentAt.length > 0 && activity.sentAt[0] < horizon) {
+      activity.sentAt.shift();
+      activity.texts.shift();
+    }
+
+    const text = input.message.toLowerCase().replace(/\s+/g, ' ');
+    activity.sentAt.push(now);
+    activity.texts.push(text);
+
+    const recent = activity.sentAt.filter((t) => now - t <= CHAT_SPAM_LIMITS.FLOOD_WINDOW_MS).length;
+    const repeats = activity.texts.filter(
+      (t, i) => t === text && now - activity!.sentAt[i] <= CHAT_SPAM_LIMITS.REPEAT_WINDOW_MS,
+    ).length;
+
+    let reason: string | null = null;
+    if (recent > CHAT_SPAM_LIMITS.FLOOD_MAX_MESSAGES) reason = 'flooding chat';
+    else if (repeats >= CHAT_SPAM_LIMITS.REPEAT_MAX) reason = 'repeating the same message';
+    if (!reason) return { action: 'allow', message: input.message };
+
+    // A strike wipes the slate, so one burst is punished once
+    activity.sentAt = [];
+    activity.texts = [];
+    activity.strikes++;
+    activity.lastStrikeAt = now;
+    if (activity.strikes === 1) {
+      return { action: 'drop', notice: `Slow down: ${reason} will get you muted.` };
+    }
+    const steps = CHAT_SPAM_LIMITS.MUTE_STEPS_MS;
+    return { action: 'mute', durationMs: steps[Math.min(activity.strikes - 2, steps.length - 1)], reason };
+  }
+
+  prune(now: number): void {
+    for (const [key, activity] of this.senders) {
+      const lastSent = activity.sentAt[activity.sentAt.length - 1] ?? 0;
+      const idle = now - Math.max(lastSent, activity.lastStrikeAt);
+      if (idle > (activity.strikes > 0 ? CHAT_SPAM_LIMITS.STRIKE_RESET_MS : CHAT_SPAM_LIMITS.REPEAT_WINDOW_MS)) {
+        this.senders.delete(key);
+      }
+    }
+  }
+}
+
+// ── Chain ───────────────────────────────────────────────────────────────────
+
+export class ChatFilterChain {
+  private filters: ChatFilter[];
+
+  constructor(filters: ChatFilter[]) {
+    this.filters = filters;
+  }
+
+  /** Run every filter in order; the first that drops or mutes ends the chain */
+  run(input: ChatFilterInput): ChatFilterVerdict {
+    let message = input.message;
+    for (const filter of this.filters) {
+      const verdict = filter.apply({ ...input, message });
+      if (verdict.action !== 'allow') return verdict;
+      message = verdict.message.trim();
+      if (!message) return { action: 'drop', notice: null };
+    }
+    return { action: 'allow', message };
+  }
+
+  prune(now: number): void {
+    for (const filter of this.filters) filter.prune?.(now);
+  }
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+/** The default chain (spam, then links, then words) configured from environment */
+export function createChatFilterChainFromEnv(): ChatFilterChain {
+  const words = [...DEFAULT_BLOCKED_WORDS, ...splitList(process.env.CHAT_BLOCKED_WORDS)];
+  const wordFile = (process.env.CHAT_WORDLIST_FILE || '').trim();
+  if (wordFile) {
+    if (existsSync(wordFile)) {
+      const lines = readFileSync(wordFile, 'utf8').split('\n').map((l) => l.trim());
+      words.push(...lines.filter((l) => l && !l.startsWith('#')));
+      log.info('Loaded word list', { file: wordFile });
+    } else {
+      log.warn('Word list not found', { file: wordFile });
+    }
+  }
+
+  return new ChatFilterChain([
+    new SpamFilter(),
+    new LinkFilter(splitList(process.env.CHAT_ALLOWED_LINKS)),
+    new WordListFilter(words),
+  ]);
+}
@@ -0,0 +1,105 @@
+/**
+ * Chat Parties — ad-hoc groups for party chat.
+ * A party forms when someone accepts an invite and breaks up when fewer
+ * than two members are left. Parties live only as long as the server
+ * process and are not tied to a shard, so friends in different worlds can
+ * still talk.
+ */
+
+import { CHAT_PARTY_LIMITS } from '../shared/ChatChannels';
+
+export interface ChatParty {
+  id: string;
+  leaderId: string;
+  memberIds: Set<string>;
+}
+
+interface PartyInvite {
+  fromId: string;
+  expiresAt: number;
+}
+
+export type PartyInviteResult = 'sent' | 'self' | 'already_member' | 'full';
+
+let nextPartyId = 1;
+
+export class ChatPartyBook {
+  private parties = new Map<string, ChatParty>();
+  private partyOf = new Map<string, string>();     // playerId → partyId
+  private invites = new Map<string, PartyInvite>(); // invitee → latest invite
+
+  getParty(playerId: string): ChatParty | null {
+    const partyId = this.partyOf.get(playerId);
+    return partyId ? this.parties.get(partyId) ?? null : null;
+  }
+
+  /** Everyone in the player's party, themselves included; empty when not in one */
+  getMemberIds(playerId: string): string[] {
+    return Array.from(this.getParty(playerId)?.memberIds ?? []);
+  }
+
+  /** Invite `toId` to `fromId`'s party, or to a new one; a newer invite replaces an older one */
+  invite(fromId: string, toId: string, now = Date.now()): PartyInviteResult {
+    if (fromId === toId) return 'self';
+    const party = this.getParty(fromId);
+    if (party?.memberIds.has(toId)) return 'already_member';
+    if (party && party.memberIds.size >= CHAT_PARTY_LIMITS.MAX_MEMBERS) return 'full';
+    this.invites.set(toId, { fromId, expiresAt: now + CHAT_PARTY_LIMITS.INVITE_TTL_MS });
+    return 'sent';
+  }
+
+  /** Who invited the player, if the invite is still open */
+  getInviterId(playerId: string, now = Date.now()): string | null {
+    const invite = this.invites.get(playerId);
+    if (!invite) return null;
+    if (invite.expiresAt <= now) {
+      this.invites.delete(playerId);
+      return null;
+    }
+    return invite.fromId;
+  }
+
+  /**
+   * Join the inviter's party, leaving any current one first. Null when
+   * there is no open invite or the party filled up meanwhile.
+   */
+  accept(playerId: string, now = Date.now()): ChatParty | null {
+    const inviterId = this.getInviterId(playerId, now);
+    if (!inviterId) return null;
+    this.invites.delete(playerId);
+
+    let party = this.getParty(inviterId);
+    if (party && party.memberIds.size >= CHAT_PARTY_LIMITS.MAX_MEMBERS) return null;
+    if (this.partyOf.has(playerId)) this.leave(playerId);
+    if (!party) {
+      party = { id: `party_${nextPartyId++}`, leaderId: inviterId, memberIds: new Set([inviterId]) };
+      this.parties.set(party.id, party);
+      this.partyOf.set(inviterId, party.id);
+    }
+    party.memberIds.add(playerId);
+    this.partyOf.set(playerId, party.id);
+    return party;
+  }
+
+  /**
+   * Leave the current party. Returns the members left behind (null if not
+   * in one); when only one would remain the party breaks up, so check
+   * `getParty` before telling them they are still in it.
+   */
+  leave(playerId: string): string[] | null {
+    const party = this.getParty(playerId);
+    this.invites.delete(playerId);
+    if (!party) return null;
+
+    party.memberIds.delete(playerId);
+    this.partyOf.delete(playerId);
+    const others = Array.from(party.memberIds);
+    if (party.memberIds.size < 2) {
+      for (const id of others) this.partyOf.delete(id);
+      this.parties.delete(party.id);
+    } else if (party.leaderId === playerId) {
+      party.leaderId = others[0];
+    }
+    return others;
+  }
+}
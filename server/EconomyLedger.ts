@@ -0,0 +1,416 @@
+/**
+ * Economy Ledger
+ * Server-side record of every banked balance change (coins, XP, feathers).
+ * The browser never writes balances — GameServer, WorldState, HeistManager and
+ * MvMManager credit accounts here, shop purchases are charged here against the
+ * shared cosmetic catalog, and clients only read the result.
+ *
+ * Storage is pluggable: in-memory for local play, an append-only JSON lines
+ * file as a SQLite stand-in, and Supabase (service key) in production.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createLogger } from './Logger';
+import { levelForXp } from '../shared/Progression';
+import { CosmeticCatalogItem } from '../shared/CosmeticCatalog';
+
+const log = createLogger('Ledger');
+
+export type LedgerReason =
+  | 'bank'
+  | 'pvp_steal'
+  | 'pvp_stolen'
+  | 'heist_reward'
+  | 'mvm_reward'
+  | 'shop'
+  | 'admin';
+
+export interface LedgerBalance {
+  coins: number;
+  xp: number;
+  feathers: number;
+}
+
+export interface LedgerDelta {
+  coins?: number;
+  xp?: number;
+  feathers?: number;
+  /** Unbanked (carried) coins moved — audit only, never touches the balance */
+  carried?: number;
+}
+
+export interface LedgerEntry {
+  id: string;
+  accountId: string;
+  reason: LedgerReason;
+  coins: number;
+  xp: number;
+  feathers: number;
+  carried: number;
+  /** Related entity: match ID, opposing player ID, etc. */
+  ref: string | null;
+  createdAt: number;
+}
+
+export interface LedgerStore {
+  /** Load the current balance for an account, or null if it has none yet. */
+  load(accountId: string): Promise<LedgerBalance | null>;
+  /** Persist an entry together with the balance it produced. */
+  append(entry: LedgerEntry, balance: LedgerBalance): Promise<void>;
+  /**
+   * Persist a 'shop' entry (its ref is the item ID) and grant the item.
+   * Resolves false, changing nothing, if the account already owns it.
+   */
+  purchase(entry: LedgerEntry, balance: LedgerBalance, itemType: string): Promise<boolean>;
+}
+
+/** Why a shop purchase was refused */
+export type PurchaseError = 'unknown_item' | 'not_for_sale' | 'guest' | 'level' | 'owned' | 'funds';
+
+export type PurchaseResult = { ok: true; balance: LedgerBalance } | { ok: false; error: PurchaseError };
+
+/** Currencies the ledger holds; worms and golden eggs stay on the profile */
+const LEDGER_CURRENCIES = ['coins', 'feathers'] as const;
+
+const EMPTY_BALANCE: LedgerBalance = { coins: 0, xp: 0, feathers: 0 };
+
+// Level-up rewards (match client ECONOMY.FEATHERS_PER_LEVEL_UP / FEATHERS_PER_MILESTONE)
+const FEATHERS_PER_LEVEL_UP = 2;
+const FEATHERS_PER_MILESTONE = 5;
+const LEVEL_MILESTONES = [10, 25, 50];
+
+/** Feathers earned for the levels crossed going from one XP total to another */
+function levelUpFeathers(fromXp: number, toXp: number): number {
+  let feathers = 0;
+  for (let level = levelForXp(fromXp) + 1; level <= levelForXp(toXp); level++) {
+    feathers += FEATHERS_PER_LEVEL_UP;
+    if (LEVEL_MILESTONES.includes(level)) feathers += FEATHERS_PER_MILESTONE;
+  }
+  return feathers;
+}
+
+/**
+ * Map a connection-level player ID to a persistent account ID.
+ * Authenticated IDs are `${supabaseUuid}_${tabSession}`; guests keep their full ID.
+ */
+export function getAccountId(playerId: string): string {
+  if (playerId.startsWith('guest_') || playerId.startsWith('bot_')) return playerId;
+  return playerId.substring(0, 36);
+}
+
+// ── Stores ──────────────────────────────────────────────────────────────────
+
+export class InMemoryLedgerStore implements LedgerStore {
+  private balances = new Map<string, LedgerBalance>();
+  /** `${accountId}|${itemId}` */
+  private owned = new Set<string>();
+  readonly entries: LedgerEntry[] = [];
+
+  async load(accountId: string): Promise<LedgerBalance | null> {
+    const balance = this.balances.get(accountId);
+    return balance ? { ...balance } : null;
+  }
+
+  async append(entry: LedgerEntry, balance: LedgerBalance): Promise<void> {
+    this.entries.push(entry);
+    this.balances.set(entry.accountId, { ...balance });
+  }
+
+  async purchase(entry: LedgerEntry, balance: LedgerBalance): Promise<boolean> {
+    const key = `${entry.accountId}|${entry.ref}`;
+    if (this.owned.has(key)) return false;
+    this.owned.add(key);
+    await this.append(entry, balance);
+    return true;
+  }
+}
+
+/**
+ * Append-only JSON lines file. Balances are rebuilt by replaying the file on
+ * startup, so the file alone is the source of truth (like a SQLite table).
+ */
+export class JsonFileLedgerStore implements LedgerStore {
+  private balances = new Map<string, LedgerBalance>();
+  /** `${accountId}|${itemId}`, rebuilt from the file's 'shop' entries */
+  private owned = new Set<string>();
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.replay();
+  }
+
+  private replay(): void {
+    if (!existsSync(this.filePath)) return;
+    const lines = readFileSync(this.filePath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as LedgerEntry;
+        const prev = this.balances.get(entry.accountId) ?? EMPTY_BALANCE;
+        this.balances.set(entry.accountId, applyEntry(prev, entry));
+        if (entry.reason === 'shop') this.owned.add(`${entry.accountId}|${entry.ref}`);
+      } catch {
+        log.warn('Skipping corrupt line', { file: this.filePath });
+      }
+    }
+  }
+
+  async load(accountId: string): Promise<LedgerBalance | null> {
+    const balance = this.balances.get(accountId);
+    return balance ? { ...balance } : null;
+  }
+
+  async append(entry: LedgerEntry, balance: LedgerBalance): Promise<void> {
+    appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    this.balances.set(entry.accountId, { ...balance });
+  }
+
+  async purchase(entry: LedgerEntry, balance: LedgerBalance): Promise<boolean> {
+    const key = `${entry.accountId}|${entry.ref}`;
+    if (this.owned.has(key)) return false;
+    await this.append(entry, balance);
+    this.owned.add(key);
+    return true;
+  }
+}
+
+/**
+ * Production store. Writes with the service key so the anon key used by the
+ * browser no longer needs (or has) write access to balances.
+ * Guest and bot accounts are kept in memory only.
+ */
+export class SupabaseLedgerStore implements LedgerStore {
+  private client: SupabaseClient;
+  private ephemeral = new InMemoryLedgerStore();
+
+  constructor(url: string, serviceKey: string) {
+    this.client = createClient(url, serviceKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+
+  private isPersistent(accountId: string): boolean {
+    return !accountId.startsWith('guest_') && !accountId.startsWith('bot_');
+  }
+
+  async load(accountId: string): Promise<LedgerBalance | null> {
+    if (!this.isPersistent(accountId)) return this.ephemeral.load(accountId);
+
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('coins, xp, feathers')
+      .eq('id', accountId)
+      .single();
+    if (error || !data) return null;
+    return { coins: data.coins ?? 0, xp: data.xp ?? 0, feathers: data.feathers ?? 0 };
+  }
+
+  async append(entry: LedgerEntry, balance: LedgerBalance): Promise<void> {
+    if (!this.isPersistent(entry.accountId)) {
+      return this.ephemeral.append(entry, balance);
+    }
+
+    const { error } = await this.client.rpc('apply_ledger_entry', {
+      p_user_id: entry.accountId,
+      p_reason: entry.reason,
+      p_coins: entry.coins,
+      p_xp: entry.xp,
+      p_feathers: entry.feathers,
+      p_carried: entry.carried,
+      p_ref: entry.ref,
+    });
+    if (error) {
+      throw new Error(`apply_ledger_entry failed: ${error.message}`);
+    }
+  }
+
+  async purchase(entry: LedgerEntry, balance: LedgerBalance, itemType: string): Promise<boolean> {
+    if (!this.isPersistent(entry.accountId)) {
+      return this.ephemeral.purchase(entry, balance);
+    }
+
+    // Checks ownership and funds again under a row lock, then writes the
+    // ledger entry, the purchase record and the inventory row together
+    const { data, error } = await this.client.rpc('purchase_cosmetic', {
+      p_user_id: entry.accountId,
+      p_item_id: entry.ref,
+      p_item_type: itemType,
+      p_coins: -entry.coins,
+      p_feathers: -entry.feathers,
+    });
+    if (error) {
+      throw new Error(`purchase_cosmetic failed: ${error.message}`);
+    }
+    if (data === 'owned') return false;
+    if (data !== 'ok') {
+      throw new Error(`purchase_cosmetic refused: ${data}`);
+    }
+    return true;
+  }
+}
+
+/**
+ * Pick a store from environment:
+ *   LEDGER_STORE=memory (default) | file | supabase
+ *   LEDGER_FILE=./economy-ledger.jsonl
+ */
+export function createLedgerStoreFromEnv(): LedgerStore {
+  const kind = (process.env.LEDGER_STORE || 'memory').trim().toLowerCase();
+
+  if (kind === 'file') {
+    const filePath = (process.env.LEDGER_FILE || './economy-ledger.jsonl').trim();
+    log.info('Using file store', { file: filePath });
+    return new JsonFileLedgerStore(filePath);
+  }
+
+  if (kind === 'supabase') {
+    const url = (process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '').trim();
+    const key = (process.env.SUPABASE_SERVICE_KEY || '').trim();
+    if (url && key) {
+      log.info('Using Supabase store');
+      return new SupabaseLedgerStore(url, key);
+    }
+    log.warn('LEDGER_STORE=supabase but SUPABASE_URL/SUPABASE_SERVICE_KEY missing — falling back to memory');
+  }
+
+  return new InMemoryLedgerStore();
+}
+
+function applyEntry(balance: LedgerBalance, entry: LedgerEntry): LedgerBalance {
+  return {
+    coins: Math.max(0, balance.coins + entry.coins),
+    xp: Math.max(0, balance.xp + entry.xp),
+    feathers: Math.max(0, balance.feathers + entry.feathers),
+  };
+}
+
+// ── Ledger ──────────────────────────────────────────────────────────────────
+
+let nextEntryId = 0;
+
+export class EconomyLedger {
+  private store: LedgerStore;
+  private balances = new Map<string, LedgerBalance>();
+  /** Per-account write chain so concurrent credits apply in order */
+  private pending = new Map<string, Promise<unknown>>();
+
+  /** Called after every entry is persisted (used to push balances to clients) */
+  onEntry: ((playerId: string, entry: LedgerEntry, balance: LedgerBalance) => void) | null = null;
+
+  constructor(store: LedgerStore = new InMemoryLedgerStore()) {
+    this.store = store;
+  }
+
+  /** Current banked balance for a player (loaded from the store on first use). */
+  getBalance(playerId: string): Promise<LedgerBalance> {
+    const accountId = getAccountId(playerId);
+    return this.enqueue(accountId, () => this.loadBalance(accountId));
+  }
+
+  /** Apply a banked balance change. Resolves with the new balance. */
+  credit(playerId: string, delta: LedgerDelta, reason: LedgerReason, ref: string | null = null): Promise<LedgerBalance> {
+    const accountId = getAccountId(playerId);
+    return this.enqueue(accountId, async () => {
+      const prev = await this.loadBalance(accountId);
+      // Level-ups from banked XP pay their feathers in the same entry
+      const xp = Math.floor(delta.xp ?? 0);
+      const feathers = Math.floor(delta.feathers ?? 0) + (xp > 0 ? levelUpFeathers(prev.xp, prev.xp + xp) : 0);
+      const entry: LedgerEntry = {
+        id: `le_${Date.now().toString(36)}_${nextEntryId++}`,
+        accountId,
+        reason,
+        coins: Math.floor(delta.coins ?? 0),
+        xp,
+        feathers,
+        carried: Math.floor(delta.carried ?? 0),
+        ref,
+        createdAt: Date.now(),
+      };
+      const next = applyEntry(prev, entry);
+      await this.store.append(entry, next);
+      this.balances.set(accountId, next);
+      this.onEntry?.(playerId, entry, next);
+      return { ...next };
+    });
+  }
+
+  /**
+   * Buy a catalog item with banked coins or feathers. The price and unlock
+   * level come from the catalog; the store refuses items already owned.
+   */
+  purchase(playerId: string, item: CosmeticCatalogItem): Promise<PurchaseResult> {
+    const accountId = getAccountId(playerId);
+    const currency = LEDGER_CURRENCIES.find((c) => c === item.currency);
+    if (!currency || item.cost <= 0) return Promise.resolve({ ok: false, error: 'not_for_sale' });
+    // Purchases are kept on the profile, which guests and bots do not have
+    if (accountId === playerId && (playerId.startsWith('guest_') || playerId.startsWith('bot_'))) {
+      return Promise.resolve({ ok: false, error: 'guest' });
+    }
+
+    return this.enqueue(accountId, async (): Promise<PurchaseResult> => {
+      const prev = await this.loadBalance(accountId);
+      if (levelForXp(prev.xp) < item.unlockLevel) return { ok: false, error: 'level' };
+      if (prev[currency] < item.cost) return { ok: false, error: 'funds' };
+
+      const entry: LedgerEntry = {
+        id: `le_${Date.now().toString(36)}_${nextEntryId++}`,
+        accountId,
+        reason: 'shop',
+        coins: currency === 'coins' ? -item.cost : 0,
+        xp: 0,
+        feathers: currency === 'feathers' ? -item.cost : 0,
+        carried: 0,
+        ref: item.id,
+        createdAt: Date.now(),
+      };
+      const next = applyEntry(prev, entry);
+      if (!(await this.store.purchase(entry, next, item.category))) return { ok: false, error: 'owned' };
+      this.balances.set(accountId, next);
+      this.onEntry?.(playerId, entry, next);
+      return { ok: true, balance: { ...next } };
+    });
+  }
+
+  /**
+   * Record unbanked coins changing hands (PvP theft). Balances are untouched —
+   * the coins only become real when the receiver banks them — but the trail
+   * lets us audit where banked coins came from.
+   */
+  recordTransfer(fromPlayerId: string, toPlayerId: string, coins: number, reason: 'pvp_steal'): void {
+    if (coins <= 0) return;
+    this.credit(toPlayerId, { carried: coins }, reason, fromPlayerId).catch((err) => {
+      log.error('Failed to record transfer', { playerId: toPlayerId, from: fromPlayerId, coins, err });
+    });
+    this.credit(fromPlayerId, { carried: -coins }, 'pvp_stolen', toPlayerId).catch((err) => {
+      log.error('Failed to record transfer', { playerId: fromPlayerId, to: toPlayerId, coins: -coins, err });
+    });
+  }
+
+  /** Drop cached balances for a player who left (the store keeps the truth). */
+  evict(playerId: string): void {
+    const accountId = getAccountId(playerId);
+    if (!this.pending.has(accountId)) {
+      this.balances.delete(accountId);
+    }
+  }
+
+  private async loadBalance(accountId: string): Promise<LedgerBalance> {
+    const cached = this.balances.get(accountId);
+    if (cached) return { ...cached };
+    const stored = (await this.store.load(accountId)) ?? { ...EMPTY_BALANCE };
+    this.balances.set(accountId, stored);
+    return { ...stored };
+  }
+
+  private enqueue<T>(accountId: string, task: () => Promise<T>): Promise<T> {
+    const prev = this.pending.get(accountId) ?? Promise.resolve();
+    const next = prev.catch(() => undefined).then(task);
+    this.pending.set(accountId, next);
+    next.finally(() => {
+      if (this.pending.get(accountId) === next) this.pending.delete(accountId);
+    }).catch(() => undefined);
+    return next;
+  }
+}
@@ -5,19 +5,78 @@
  */
 
 import WebSocket, { WebSocketServer } from 'ws';
-import { createServer, IncomingMessage } from 'http';
-import { WorldState } from './WorldState';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { SnapshotRelevance } from './WorldState';
 import { Player } from './Player';
-import { BotManager } from './BotManager';
-import { ClientMessage, ServerMessage, PlayerInput, ChatMessage } from './types';
+import {
+  ClientMessage, ServerMessage, PlayerInput, ChatMessage, PvPResultsData,
+  SpectateKind, SpectateTarget, SpectatableMatch, SpectatedMatchState,
+} from '../shared/types';
 import { MvMManager } from './MvMManager';
-import { MurmurationState } from './MurmurationState';
+import { MembershipDirectory, MurmurationState, createMembershipDirectoryFromEnv } from './MurmurationState';
 import { HeistManager } from './HeistManager';
+import { EconomyLedger, LedgerStore, createLedgerStoreFromEnv } from './EconomyLedger';
+import { CityFootprints } from '../shared/CityLayout';
+import { getCosmeticItem } from '../shared/CosmeticCatalog';
+import { parseWorldSeed } from '../shared/WorldSeed';
+import { StateEncoder, negotiateStateCodec, STATE_CODEC_BINARY } from '../shared/StateCodec';
+import { WorldShard, ShardConfig, chooseShard, parseShardConfigs } from './WorldShard';
+import { BotManagerConfig } from './BotManager';
+import { BOT_DIFFICULTIES, BOT_DIFFICULTY_NAMES, BotDifficulty, isBotDifficulty, parseBotDifficulty } from '../shared/BotDifficulty';
+import {
+  ModerationBook,
+  ModerationStore,
+  Sanction,
+  SanctionKind,
+  createModerationStoreFromEnv,
+  describeSanctionTerm,
+  formatModerationDuration,
+  getModerationSubject,
+  getModerationSubjects,
+  normalizeDeviceId,
+  parseSanctionArgs,
+} from './Moderation';
+import { PvPModeRules, createPvPModeRules } from './PvPModeRules';
+import { RatingBook, RatingStore, createRatingStoreFromEnv, summarizeRating } from './Ratings';
+import { RATED_MODES, RatingUpdateData } from '../shared/RatingBands';
+import { HEIST_FORMATS, getHeistFormatByMode, isHeistFormatId, isHeistModeId } from '../shared/HeistFormats';
+import { RaceRouteData } from '../shared/PvPCourses';
+import { decodeRaceRouteCode, validateRaceRoute } from '../shared/RaceRouteFormat';
+import { RaceLeaderboard } from '../shared/RaceLeaderboard';
+import { TournamentManager } from './TournamentManager';
+import { ChatChannel, ChatFilterChain, createChatFilterChainFromEnv } from './ChatFilter';
+import { CHAT_PARTY_LIMITS, ChatChannelId, PROXIMITY_CHAT_RADIUS, isChatChannelId } from '../shared/ChatChannels';
+import { ChatPartyBook } from './ChatParties';
+import { AdminApi, AdminApiHost, AdminMatchSummary } from './AdminApi';
+import { createLogger } from './Logger';
+import { METRICS_CONTENT_TYPE, createGameServerMetrics } from './Metrics';
+import {
+  PVP_LOBBY_LIMITS, PVP_ROUND_SECONDS, PvPLobbySettings, PvPLobbyView,
+  applyPvPLobbySettings, defaultPvPLobbySettings, generatePvPLobbyCode, getPvPLobbyPlayerRange, normalizePvPLobbyCode,
+} from '../shared/PvPLobbySettings';
+import {
+  TournamentGame, TOURNAMENT_FORMAT_NAMES, TOURNAMENT_GAME_NAMES, isTournamentFormatId, isTournamentGame,
+} from '../shared/TournamentBracket';
+
+const log = createLogger('Server');
+const adminLog = createLogger('Admin');
+const chatLog = createLogger('Chat');
 
 interface AuthenticatedSocket extends WebSocket {
   playerId?: string;
   isAlive?: boolean;
   isAdmin?: boolean;
+  /** World shard this player was placed in at join */
+  shard?: WorldShard;
+  /** Set when the client negotiated binary state frames; JSON snapshots otherwise */
+  stateEncoder?: StateEncoder;
+  /** Match this connection watches instead of playing; spectators never get a playerId */
+  spectating?: SpectateTarget;
+  /** Participant the spectator's camera follows; snapshots centre on them */
+  spectatorFocus?: string;
+  /** Per-browser ID the client sent at join; guests are banned and muted by it */
+  deviceId?: string | null;
 }
 
 /** Supabase UUIDs of admin users (player IDs start with these) */
@@ -26,8 +85,11 @@ const ADMIN_USER_IDS: string[] = (process.env.ADMIN_USER_IDS || '')
   .map((id) => id.trim())
   .filter(Boolean);
 
-/** Maximum concurrent players */
-const MAX_PLAYERS = 500;
+/** Bearer token for the /admin API and page; both are off when unset */
+const ADMIN_API_TOKEN = (process.env.ADMIN_API_TOKEN || '').trim();
+
+/** Maximum concurrent players per shard (SHARD_CAPACITY overrides) */
+const MAX_PLAYERS_PER_SHARD = Number(process.env.SHARD_CAPACITY) || 500;
 
 /** Maximum WebSocket buffer before skipping sends (backpressure) */
 const MAX_BUFFER_SIZE = 64 * 1024; // 64KB
@@ -35,75 +97,214 @@ const MAX_BUFFER_SIZE = 64 * 1024; // 64KB
 /** Maximum incoming message size — protects against DoS via giant JSON payloads */
 const MAX_MESSAGE_SIZE = 8 * 1024; // 8KB
 
+/** /healthz reports the game loop stalled after this long without a tick */
+const HEALTH_TICK_STALL_MS = 5000;
+
 /** How often to log server stats (ticks) */
 const STATS_LOG_INTERVAL_TICKS = 1200; // every 60s at 20 ticks/s
 
 /** Chat rate limit: 1 message per second per player */
 const CHAT_RATE_LIMIT_MS = 1000;
 const CHAT_MAX_LENGTH = 150;
+/** Murmuration chat allows longer lines, matching the client's MURMURATION.CHAT_MAX_LENGTH */
+const MURMURATION_CHAT_MAX_LENGTH = 200;
+/** MvM team sizes the queue accepts (the client offers 2, 3 and 5) */
+const MVM_DEFAULT_TEAM_SIZE = 2;
+const MVM_MAX_TEAM_SIZE = 5;
+/** /mute without a duration lasts this long */
+const DEFAULT_MUTE_MS = 60 * 60_000;
+/** One /report per player per this long */
+const REPORT_COOLDOWN_MS = 30_000;
+/** Who automatic chat mutes are issued by in /mutelist and /history */
+const AUTO_MODERATOR = 'AutoMod';
 const WORLD_ID = (process.env.WORLD_ID || 'global-1').trim();
-
-type PvPModeId = 'poop-tag' | 'race' | 'poop-cover' | 'heist';
+/** Shards hosted by this process, e.g. WORLD_SHARDS=global-1:Downtown,global-2:Harbor */
+const WORLD_SHARD_CONFIGS = parseShardConfigs(process.env.WORLD_SHARDS, WORLD_ID, MAX_PLAYERS_PER_SHARD);
+/** World ID clients send to let the server pick a shard */
+const AUTO_WORLD_ID = 'auto';
+/** Most friend IDs considered for auto-placement */
+const MAX_JOIN_FRIEND_IDS = 100;
+/** Seed for the procedural city — sent to clients in `welcome` so layouts match */
+const WORLD_SEED = parseWorldSeed(process.env.WORLD_SEED);
+/** Directory for session replays; recording is off when unset */
+const REPLAY_DIR = (process.env.REPLAY_DIR || '').trim();
+/** Starting skill tier for world bots (easy, normal, hard, expert); /botdifficulty changes it live */
+const BOT_DIFFICULTY = parseBotDifficulty(process.env.BOT_DIFFICULTY);
+
+type PvPModeId = 'poop-tag' | 'race' | 'poop-cover' | 'heist' | 'heist-2v2' | 'heist-3v3' | 'heist-ffa';
 type PvPSessionPhase = 'lobby' | 'countdown' | 'active' | 'results';
 
 interface PvPSession {
   id: string;        // unique session ID — stable across phase transitions
+  shardId: string;   // sessions never span shards — opponents must share a world
   modeId: PvPModeId;
   phase: PvPSessionPhase;
   participants: Set<string>;
   phaseEndsAt: number;
   lastStateBroadcastAt: number;
+  /** Scoring for the running round; null outside the active phase and for Heist */
+  rules: PvPModeRules | null;
+  /** Started by a tournament: its roster is fixed and the result goes back to the bracket */
+  tournament?: boolean;
+  /** Private lobby: joined by code, run by a host, started by a ready-check */
+  lobby?: PrivatePvPLobby;
+}
+
+/** A player waiting for a public round; paired by rating within one shard and mode */
+interface PvPQueueEntry {
+  playerId: string;
+  shardId: string;
+  modeId: PvPModeId;
+  queuedAt: number;
+}
+
+interface PrivatePvPLobby {
+  code: string;
+  hostId: string;
+  settings: PvPLobbySettings;
+  ready: Set<string>;
+  /** Decoded and validated settings.routeCode */
+  customRoute: RaceRouteData | null;
+  /** Heist lobbies play their round as a HeistManager match */
+  heistMatchId: string | null;
 }
 
 const PVP_LOBBY_DURATION_MS = 2000;
+const PVP_QUEUE_TIMEOUT_MS = 10_000; // Longest wait before a public round starts with whoever is queued
 const PVP_COUNTDOWN_DURATION_MS = 3000;
 const PVP_RESULTS_DURATION_MS = 10000;
+/** How long a private heist may run past its clock (overtime) before its session gives up on it */
+const PVP_PRIVATE_HEIST_GRACE_MS = 60_000;
 const PVP_STATE_BROADCAST_INTERVAL_MS = 200;
+const SPECTATE_STATE_INTERVAL_TICKS = 5; // 4 times a second at 20 ticks/s
+const SPECTATE_KINDS: SpectateKind[] = ['pvp', 'heist', 'mvm'];
+const TOURNAMENT_DEFAULT_REGISTRATION_MIN = 5;
+const TOURNAMENT_MAX_REGISTRATION_MIN = 60;
+
+/** Overrides for embedding the server (e.g. the test harness); unset fields come from the environment */
+export interface GameServerOptions {
+  /** Shards to host instead of WORLD_SHARDS */
+  shards?: ShardConfig[];
+  /** Admin user UUIDs instead of ADMIN_USER_IDS */
+  adminUserIds?: string[];
+  /** Ledger store instead of LEDGER_STORE */
+  ledgerStore?: LedgerStore;
+  /** Rating store instead of RATING_STORE */
+  ratingStore?: RatingStore;
+  /** Moderation store instead of MODERATION_STORE */
+  moderationStore?: ModerationStore;
+  /** Chat filters instead of the CHAT_* word list and link settings */
+  chatFilter?: ChatFilterChain;
+  /** Per-shard bot population, e.g. { minBots: 0, targetPopulation: 0 } for a world without bots */
+  bots?: Partial<BotManagerConfig>;
+  /** Admin API token instead of ADMIN_API_TOKEN */
+  adminApiToken?: string;
+  /** Murmuration membership checks instead of the Supabase table (or trust, without a service key) */
+  membershipDirectory?: MembershipDirectory;
+}
 
 export class GameServer {
+  private httpServer: Server;
   private wss: WebSocketServer;
-  private world: WorldState;
+  private shards: Map<string, WorldShard> = new Map();
   private clients: Map<string, AuthenticatedSocket>;
+  /** Connections watching a match; not in `clients`, not in any world */
+  private spectators = new Set<AuthenticatedSocket>();
   private tickInterval: NodeJS.Timeout | null;
   private heartbeatInterval: NodeJS.Timeout | null;
   private tickCount = 0;
-  private botManager: BotManager;
   private mvmManager: MvMManager;
   private murmurationState: MurmurationState;
+  private membershipDirectory: MembershipDirectory;
   private heistManager: HeistManager;
+  private tournaments: TournamentManager;
+  private ledger: EconomyLedger;
+  private ratings: RatingBook;
+  private raceLeaderboard = new RaceLeaderboard();
   private chatRateLimit: Map<string, number> = new Map();
-  private mutedPlayers: Set<string> = new Set();       // playerId
+  private lastReportAt: Map<string, number> = new Map(); // playerId → last /report
   private frozenPlayers: Set<string> = new Set();      // playerId
-  private bannedPlayerIds: Map<string, string> = new Map(); // supabase UUID → username
+  private moderation: ModerationBook;
+  private chatFilter: ChatFilterChain;
+  private parties = new ChatPartyBook();
+  private lastWhisperPeer: Map<string, string> = new Map(); // playerId → who /r answers
   private serverStartTime: number = Date.now();
   private pvpSessions: Map<string, PvPSession> = new Map();         // sessionId → session
   private playerPvPSession: Map<string, string> = new Map();         // playerId → sessionId
-  private pvpActiveByMode: Map<PvPModeId, string> = new Map();       // modeId → current joinable sessionId
-
-  constructor(port: number = 3001) {
-    const httpServer = createServer();
+  private pvpQueue: PvPQueueEntry[] = [];                            // public rounds, in arrival order
+  private pvpLobbyCodes: Map<string, string> = new Map();            // private lobby code → sessionId
+  private adminUserIds: string[];
+  private adminApi: AdminApi;
+  /** Series served at /metrics */
+  private metrics = createGameServerMetrics();
+  /** Bytes sent since the last tick finished, for birdgame_tick_sent_bytes */
+  private bytesSinceTick = 0;
+  /** Wall-clock time the last tick finished; /healthz fails when the loop stalls */
+  private lastTickAt = 0;
+  /** Set once the moderation store has loaded; cleared again by stop() so load balancers drain */
+  private acceptingPlayers = false;
+  /** Resolves with the bound port once listening (port 0 picks a free one) */
+  readonly ready: Promise<number>;
+
+  constructor(port: number = 3001, options: GameServerOptions = {}) {
+    const httpServer = createServer((req, res) => this.handleHttpRequest(req, res));
+    this.httpServer = httpServer;
     this.wss = new WebSocketServer({ server: httpServer });
-    this.world = new WorldState();
+    this.adminUserIds = options.adminUserIds ?? ADMIN_USER_IDS;
+
+    // Economy ledger — the only writer of banked coins/XP/feathers
+    this.ledger = new EconomyLedger(options.ledgerStore ?? createLedgerStoreFromEnv());
+    this.ledger.onEntry = (playerId, entry, balance) => {
+      if (entry.coins === 0 && entry.xp === 0 && entry.feathers === 0) return; // audit-only entry
+      const client = this.clients.get(playerId);
+      if (client) {
+        this.send(client, { type: 'ledger_balance', data: { balance, reason: entry.reason } });
+      }
+    };
+
+    // Bans, mutes, reports and the admin audit log; replayed before the server reports ready
+    this.moderation = new ModerationBook(options.moderationStore ?? createModerationStoreFromEnv());
+    // Word list, link stripping and spam auto-mutes, shared by global and murmuration chat
+    this.chatFilter = options.chatFilter ?? createChatFilterChainFromEnv();
+
+    // Skill ratings — updated after rated rounds, read by the Heist and MvM queues
+    this.ratings = new RatingBook(options.ratingStore ?? createRatingStoreFromEnv());
+    this.ratings.onUpdate = (playerId, mode, rating, delta) => {
+      const client = this.clients.get(playerId);
+      if (client) {
+        const update: RatingUpdateData = { ...summarizeRating(mode, rating), delta: Math.round(delta) };
+        this.send(client, { type: 'rating_update', data: update });
+      }
+    };
+
+    // Every shard shares the same seeded city; only the birds in it differ
+    const city = new CityFootprints(WORLD_SEED);
+    log.info('World seed loaded', { seed: WORLD_SEED, buildings: city.buildings.length });
+    for (const config of options.shards ?? WORLD_SHARD_CONFIGS) {
+      const shard = new WorldShard(config, this.ledger, city, { difficulty: BOT_DIFFICULTY, ...options.bots });
+      if (REPLAY_DIR) shard.startReplay(REPLAY_DIR, WORLD_SEED);
+      this.shards.set(shard.id, shard);
+      this.setupBotCallbacks(shard);
+      this.setupPvPHitCallbacks(shard);
+      this.setupRaceCallbacks(shard);
+    }
+    log.info('Hosting shards', { shards: Array.from(this.shards.keys()) });
     this.clients = new Map();
     this.tickInterval = null;
     this.heartbeatInterval = null;
 
-    // Initialize bot manager
-    this.botManager = new BotManager(this.world);
-    this.setupBotCallbacks();
-    this.setupPvPBotCallbacks();
-
     // Initialize Murmuration systems
     this.mvmManager = new MvMManager((playerId, msg) => {
       const client = this.clients.get(playerId);
       if (client && client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(msg));
+        this.sendRaw(client, JSON.stringify(msg));
       }
-    });
+    }, this.ledger, (id) => this.getPlayer(id), this.ratings);
+    this.membershipDirectory = options.membershipDirectory ?? createMembershipDirectoryFromEnv();
     this.murmurationState = new MurmurationState((playerId, msg) => {
       const client = this.clients.get(playerId);
       if (client && client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(msg));
+        this.sendRaw(client, JSON.stringify(msg));
       }
     });
 
@@ -112,35 +313,74 @@ export class GameServer {
       (playerId, msg) => {
         const client = this.clients.get(playerId);
         if (client && client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify(msg));
+          this.sendRaw(client, JSON.stringify(msg));
         }
       },
       (matchId, msg) => {
-        // Broadcast to all players in the match
+        // Broadcast to all players in the match and its spectators, and log it in their shards' replays
+        const shards = new Set<WorldShard>();
         for (const [pid, client] of this.clients) {
-          if (client.readyState === WebSocket.OPEN && this.heistManager.isInMatch(pid)) {
-            client.send(JSON.stringify(msg));
+          if (client.readyState === WebSocket.OPEN && this.heistManager.getMatchForPlayer(pid)?.id === matchId) {
+            this.sendRaw(client, JSON.stringify(msg));
+            if (client.shard) shards.add(client.shard);
           }
         }
+        for (const spectator of this.getSpectators('heist', matchId)) this.send(spectator, msg);
+        for (const shard of shards) shard.replay?.recordMessage(msg);
+      },
+      this.ledger,
+      this.ratings,
+      (id) => this.getPlayer(id),
+    );
+    this.heistManager.onMatchEnd = (matchId, winnerId) => {
+      this.tournaments.reportResult(matchId, winnerId);
+      this.finishPrivateHeist(matchId);
+    };
+
+    // Tournaments play their matches through PvP sessions and the heist manager
+    this.tournaments = new TournamentManager(
+      (playerId, msg) => {
+        const client = this.clients.get(playerId);
+        if (client) this.send(client, msg);
+      },
+      (shardId, msg) => {
+        const shard = this.shards.get(shardId);
+        if (shard) this.broadcastToShard(shard, msg);
       },
+      {
+        launch: (game, shardId, playerIds) => this.launchTournamentMatch(game, shardId, playerIds),
+        abort: (game, handle, loserId) => this.abortTournamentMatch(game, handle, loserId),
+      },
+      this.ratings,
+      this.ledger,
     );
 
     this.setupWebSocketHandlers();
+    this.adminApi = new AdminApi(options.adminApiToken ?? ADMIN_API_TOKEN, this.createAdminApiHost(), DEFAULT_MUTE_MS);
 
     httpServer.on('error', (err: NodeJS.ErrnoException) => {
       if (err.code === 'EADDRINUSE') {
-        console.error(`Port ${port} is already in use! Another server is running on this port.`);
-        console.error(`   Kill the other process or change WS_PORT in .env`);
+        log.error('Port is already in use; stop the other server or change WS_PORT in .env', { port });
         process.exit(1);
       }
       throw err;
     });
 
-    httpServer.listen(port, '0.0.0.0', () => {
-      console.log(`Bird Game 3D Server running on 0.0.0.0:${port}`);
-      console.log(`   Tick Rate: ${this.world.TICK_RATE} ticks/sec`);
-      console.log(`   Max Players: ${MAX_PLAYERS}`);
-      console.log(`   Waiting for players...`);
+    const listening = new Promise<number>((resolve) => {
+      httpServer.listen(port, '0.0.0.0', () => {
+        const boundPort = (httpServer.address() as AddressInfo).port;
+        log.info('Bird Game 3D server listening', {
+          address: `0.0.0.0:${boundPort}`,
+          tickRate: this.firstShard().world.TICK_RATE,
+          capacityPerShard: this.firstShard().capacity,
+          shards: this.shards.size,
+        });
+        resolve(boundPort);
+      });
+    });
+    this.ready = this.moderation.loaded.then(() => {
+      this.acceptingPlayers = true;
+      return listening;
     });
   }
 
@@ -163,7 +403,7 @@ export class GameServer {
           const message: ClientMessage = JSON.parse(data.toString());
           this.handleClientMessage(ws, message);
         } catch (error) {
-          console.error('Error parsing client message:', error);
+          log.warn('Could not parse client message', { playerId: ws.playerId, err: error });
           this.sendError(ws, 'Invalid message format');
         }
       });
@@ -172,14 +412,87 @@ export class GameServer {
         if (ws.playerId) {
           this.handlePlayerDisconnect(ws.playerId);
         }
+        this.spectators.delete(ws);
       });
 
       ws.on('error', (error) => {
-        console.error('WebSocket error:', error);
+        log.error('WebSocket error', { playerId: ws.playerId, err: error });
       });
     });
   }
 
+  // --- Lobby ---
+
+  /** Plain HTTP requests share the WebSocket port: the lobby listing (worlds and watchable matches), the admin API and the health and metrics endpoints. */
+  private handleHttpRequest(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (this.adminApi.handles(url.pathname)) {
+      void this.adminApi.handle(req, res, url);
+      return;
+    }
+    if (req.method === 'GET' && this.handleOpsRequest(url.pathname, res)) return;
+    if (req.method !== 'GET' || url.pathname !== '/lobby') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found');
+      return;
+    }
+
+    // Clients time this request to show ping, so keep it cheap and uncached
+    const murmurationId = (url.searchParams.get('murmurationId') || '').trim();
+    const members = murmurationId ? this.murmurationState.getOnlineMembers(murmurationId) : [];
+    const shards = Array.from(this.shards.values()).map((shard) => shard.toSummary(shard.countPresent(members)));
+
+    res.writeHead(200, {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      'Access-Control-Allow-Origin': '*',
+    });
+    res.end(JSON.stringify({ shards, matches: this.getSpectatableMatches(), serverTime: Date.now() }));
+  }
+
+  /** `/healthz`, `/readyz` and `/metrics` for orchestrators and Prometheus; false for any other path */
+  private handleOpsRequest(pathname: string, res: ServerResponse): boolean {
+    const reply = (status: number, body: unknown): void => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+      res.end(JSON.stringify(body));
+    };
+
+    switch (pathname) {
+      case '/healthz': {
+        // Alive while the game loop keeps ticking; before start() there is no loop to watch
+        const stalled = this.tickInterval !== null && Date.now() - this.lastTickAt > HEALTH_TICK_STALL_MS;
+        reply(stalled ? 503 : 200, { status: stalled ? 'stalled' : 'ok', tick: this.tickCount });
+        return true;
+      }
+      case '/readyz':
+        reply(this.acceptingPlayers ? 200 : 503, { status: this.acceptingPlayers ? 'ready' : 'starting' });
+        return true;
+      case '/metrics':
+        res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE, 'Cache-Control': 'no-store' });
+        res.end(this.renderMetrics());
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /** Gauges are read fresh for each scrape; counters and summaries are kept up as things happen */
+  private renderMetrics(): string {
+    const { players, bots, spectators, activeMatches, uptime, registry } = this.metrics;
+    players.reset();
+    bots.reset();
+    for (const shard of this.shards.values()) {
+      players.set(shard.population, { shard: shard.id });
+      bots.set(shard.botManager.getBotCount(), { shard: shard.id });
+    }
+    spectators.set(this.spectators.size);
+    activeMatches.set(this.pvpSessions.size, { kind: 'pvp' });
+    activeMatches.set(this.heistManager.getLiveMatchIds().length, { kind: 'heist' });
+    activeMatches.set(this.mvmManager.getLiveMatchIds().length, { kind: 'mvm' });
+    uptime.set(Math.floor((Date.now() - this.serverStartTime) / 1000));
+    return registry.render();
+  }
+
   private handleClientMessage(ws: AuthenticatedSocket, message: ClientMessage): void {
     switch (message.type) {
       case 'join':
@@ -194,6 +507,10 @@ export class GameServer {
         this.handlePoopDrop(ws, message.data);
         break;
 
+      case 'coins_earned':
+        this.handleCoinsEarned(ws, message.data);
+        break;
+
       case 'bank':
         this.handleBanking(ws);
         break;
@@ -206,6 +523,10 @@ export class GameServer {
         this.handleBankCancel(ws);
         break;
 
+      case 'shop_purchase':
+        this.handleShopPurchase(ws, message.data);
+        break;
+
       case 'race_create':
         this.handleRaceCreate(ws, message.data);
         break;
@@ -218,6 +539,14 @@ export class GameServer {
         this.handleRaceReady(ws, message.data);
         break;
 
+      case 'race_leaderboard':
+        this.handleRaceLeaderboard(ws, message.data);
+        break;
+
+      case 'race_ghost':
+        this.handleRaceGhost(ws, message.data);
+        break;
+
       case 'chat':
         this.handleChat(ws, message.data);
         break;
@@ -258,10 +587,28 @@ export class GameServer {
       case 'pvp-hit':
         this.handlePvPStatueHit(ws, message.data);
         break;
+      case 'pvp-lobby-create':
+        this.handlePvPLobbyCreate(ws, message.data);
+        break;
+      case 'pvp-lobby-join':
+        this.handlePvPLobbyJoin(ws, message.data);
+        break;
+      case 'pvp-lobby-settings':
+        this.handlePvPLobbySettings(ws, message.data);
+        break;
+      case 'pvp-lobby-ready':
+        this.handlePvPLobbyReady(ws, message.data);
+        break;
+      case 'pvp-lobby-kick':
+        this.handlePvPLobbyKick(ws, message.data);
+        break;
 
       // Heist messages — server-authoritative
       case 'heist-join':
-        this.handleHeistJoin(ws);
+        this.handleHeistJoin(ws, message.data);
+        break;
+      case 'heist-leave':
+        this.handleHeistLeave(ws);
         break;
       case 'heist-grab':
         this.handleHeistGrab(ws, message.data);
@@ -272,6 +619,28 @@ export class GameServer {
       case 'heist-score':
         this.handleHeistScore(ws, message.data);
         break;
+      case 'heist-pass':
+        this.handleHeistPass(ws, message.data);
+        break;
+
+      // Spectating (no player, no world presence)
+      case 'spectate':
+        this.handleSpectate(ws, message.data);
+        break;
+      case 'spectate_focus':
+        this.handleSpectateFocus(ws, message.data);
+        break;
+      case 'spectate_stop':
+        this.stopSpectating(ws);
+        break;
+
+      // Tournaments
+      case 'tournament-register':
+        this.handleTournamentRegister(ws);
+        break;
+      case 'tournament-withdraw':
+        this.handleTournamentWithdraw(ws);
+        break;
 
       // Horse lasso (server-authoritative player wrangle)
       case 'lasso-cast':
@@ -285,7 +654,7 @@ export class GameServer {
         break;
 
       default:
-        console.warn('Unknown message type:', message.type);
+        log.warn('Unknown message type', { playerId: ws.playerId, type: message.type });
     }
   }
 
@@ -298,7 +667,7 @@ export class GameServer {
       this.sendError(ws, 'Missing playerId');
       return;
     }
-    if (!rawWorldId || rawWorldId !== WORLD_ID) {
+    if (rawWorldId && rawWorldId !== AUTO_WORLD_ID && !this.shards.has(rawWorldId)) {
       this.sendError(ws, 'World mismatch');
       return;
     }
@@ -306,19 +675,12 @@ export class GameServer {
     let playerId = rawPlayerId;
     const username = rawUsername || (playerId.startsWith('guest_') ? `Bird_${playerId.slice(-4)}` : 'Player');
 
-    // Check ban list (authenticated players only — first 36 chars are the Supabase UUID)
-    if (!playerId.startsWith('guest_')) {
-      const uuid = playerId.substring(0, 36);
-      if (this.bannedPlayerIds.has(uuid)) {
-        this.sendError(ws, 'You are banned from this server');
-        ws.close();
-        return;
-      }
-    }
-
-    // Check player limit
-    if (this.clients.size >= MAX_PLAYERS) {
-      this.sendError(ws, 'Server full');
+    // Check bans: by account, and for guests also by device
+    const deviceId = normalizeDeviceId(data?.deviceId);
+    const ban = this.moderation.getActive('ban', getModerationSubjects(playerId, deviceId));
+    if (ban) {
+      const term = ban.expiresAt === null ? '' : ` (${describeSanctionTerm(ban, Date.now())})`;
+      this.sendError(ws, `You are banned from this server${term}`);
       ws.close();
       return;
     }
@@ -334,58 +696,174 @@ export class GameServer {
       }
     }
 
+    // Murmuration membership comes from the client; used for auto-placement and relevance
+    const murmurationId = typeof data?.murmurationId === 'string' ? data.murmurationId.trim() : '';
+
+    // Pick a shard: the requested one, or the one with the player's friends and flock
+    let shard: WorldShard | null;
+    if (rawWorldId && rawWorldId !== AUTO_WORLD_ID) {
+      shard = this.shards.get(rawWorldId)!;
+      if (shard.isFull()) {
+        this.sendError(ws, 'World full');
+        ws.close();
+        return;
+      }
+    } else {
+      shard = chooseShard(this.shards.values(), this.getJoinCompanionFilter(data, murmurationId));
+      if (!shard) {
+        this.sendError(ws, 'Server full');
+        ws.close();
+        return;
+      }
+    }
+
+    // A spectator who decides to play stops watching
+    this.stopSpectating(ws);
+
     // Create new player
-    const spawnPos = this.world.getSpawnPosition();
+    const world = shard.world;
+    const spawnPos = world.getSpawnPosition();
     const player = new Player(playerId, username, spawnPos);
-    this.world.addPlayer(player);
+    world.addPlayer(player);
 
     // Register client
     ws.playerId = playerId;
-    ws.isAdmin = ADMIN_USER_IDS.filter((id) => id.length >= 36).some(
+    ws.shard = shard;
+    ws.deviceId = deviceId;
+    shard.playerIds.add(playerId);
+    ws.isAdmin = this.adminUserIds.filter((id) => id.length >= 36).some(
       (adminId) => playerId === adminId || playerId.startsWith(adminId + '_'),
     );
     this.clients.set(playerId, ws);
 
+    if (murmurationId) {
+      const tag = typeof data?.murmurationTag === 'string' ? data.murmurationTag.slice(0, 8) : '';
+      const role = typeof data?.murmurationRole === 'string' ? data.murmurationRole : 'fledgling';
+      this.registerMurmurationClaim(ws, playerId, murmurationId, tag, role);
+    }
+
+    // Older clients don't offer a codec and keep receiving JSON state
+    const stateCodec = negotiateStateCodec(data?.stateCodecs);
+    ws.stateEncoder = stateCodec === STATE_CODEC_BINARY ? new StateEncoder() : undefined;
+
     // Send welcome message (full snapshot for initial load)
     this.send(ws, {
       type: 'welcome',
       data: {
         playerId,
         spawnPosition: spawnPos,
-        worldState: this.world.getSnapshot(),
+        worldId: shard.id,
+        worldName: shard.name,
+        worldSeed: world.city.seed,
+        stateCodec,
+        worldState: world.getSnapshot(),
         isAdmin: ws.isAdmin,
       },
     });
 
-    // Broadcast to others
-    this.broadcastExcept(playerId, {
+    // Send the banked balance once the ledger has it loaded
+    const joinedId = playerId;
+    this.ledger.getBalance(joinedId).then((balance) => {
+      const client = this.clients.get(joinedId);
+      if (client) this.send(client, { type: 'ledger_balance', data: { balance, reason: null } });
+    }).catch((err) => log.error('Failed to load ledger balance', { playerId: joinedId, err }));
+
+    this.ratings.getSummaries(joinedId, Object.keys(RATED_MODES)).then((ratings) => {
+      const client = this.clients.get(joinedId);
+      if (client) this.send(client, { type: 'ratings', data: { ratings } });
+    }).catch((err) => log.error('Failed to load ratings', { playerId: joinedId, err }));
+
+    const tournament = this.tournaments.getViewForShard(shard.id);
+    if (tournament) this.send(ws, { type: 'tournament_update', data: tournament });
+
+    // Broadcast to others in the shard
+    this.broadcastToShard(shard, {
       type: 'player_joined',
       data: { player: player.toState() },
+    }, playerId);
+
+    log.info(ws.isAdmin ? 'Admin joined' : 'Player joined', {
+      playerId,
+      username,
+      shard: shard.id,
+      population: shard.population,
+      capacity: shard.capacity,
     });
+  }
 
-    if (ws.isAdmin) {
-      console.log(`[ADMIN] Admin joined: ${username} (${playerId}) [${this.clients.size}/${MAX_PLAYERS}]`);
-    } else {
-      console.log(`Player joined: ${username} (${playerId}) [${this.clients.size}/${MAX_PLAYERS}]`);
-    }
+  /**
+   * Who counts as company for auto-placement: friends from the join message
+   * (user IDs, matched against the per-tab player ID prefix) and online mates
+   * from the same murmuration.
+   */
+  /**
+   * Register a player's claimed murmuration once the directory confirms it.
+   * MvM teams and murmuration ratings come from registered members, so an
+   * unconfirmed claim leaves the player flockless.
+   */
+  private registerMurmurationClaim(
+    ws: AuthenticatedSocket, playerId: string, murmurationId: string, tag: string, role: string,
+  ): void {
+    this.membershipDirectory.isMember(playerId, murmurationId).then((member) => {
+      if (this.clients.get(playerId) !== ws) return; // left while we checked
+      if (!member) {
+        log.warn('Ignored murmuration claim from a non-member', { playerId, murmurationId });
+        return;
+      }
+      this.murmurationState.registerPlayer(playerId, murmurationId, tag, role);
+    }).catch((err) => {
+      log.error('Failed to verify murmuration membership', { playerId, murmurationId, err });
+    });
+  }
+
+  private getJoinCompanionFilter(data: any, murmurationId: string): (playerId: string) => boolean {
+    const friendIds: string[] = Array.isArray(data?.friendIds)
+      ? data.friendIds.filter((id: unknown): id is string => typeof id === 'string' && id.length >= 36).slice(0, MAX_JOIN_FRIEND_IDS)
+      : [];
+    const mates = new Set(murmurationId ? this.murmurationState.getOnlineMembers(murmurationId) : []);
+    return (playerId) =>
+      mates.has(playerId) || friendIds.some((friendId) => playerId === friendId || playerId.startsWith(friendId + '_'));
   }
 
   private handlePlayerUpdate(ws: AuthenticatedSocket, data: PlayerInput): void {
-    if (!ws.playerId) return;
+    if (!ws.playerId || !ws.shard) return;
+
+    // Acknowledge the last state frame the client decoded (delta baseline)
+    if (ws.stateEncoder && typeof data?.ackTick === 'number') {
+      ws.stateEncoder.ack(data.ackTick);
+    }
+
+    const player = ws.shard.world.getPlayer(ws.playerId);
+    if (!player) return;
+
+    // Echoed in the next snapshot so the client can reconcile, even if the move is rejected
+    const seq = data?.seq;
+    if (typeof seq === 'number' && Number.isInteger(seq) && seq > player.lastInputSeq) {
+      player.lastInputSeq = seq;
+    }
 
     // Frozen players cannot move
     if (this.frozenPlayers.has(ws.playerId)) return;
 
-    const player = this.world.getPlayer(ws.playerId);
-    if (!player) return;
+    const verdict = player.updateFromInput(data, ws.shard.world.city);
+    if (verdict === 'teleport' || verdict === 'wall' || verdict === 'invalid') {
+      this.metrics.moveRejections.inc({ reason: verdict });
+    }
 
-    player.updateFromInput(data);
+    // Rubber-band clients whose move was rejected back to the last valid position
+    const reason = verdict === 'wall' ? 'building' : verdict === 'teleport' ? 'speed' : verdict === 'invalid' ? 'invalid' : null;
+    if (reason && player.shouldSendCorrection()) {
+      this.send(ws, {
+        type: 'correction',
+        data: { position: { ...player.position }, yaw: player.yaw, pitch: player.pitch, reason },
+      });
+    }
   }
 
   private handlePoopDrop(ws: AuthenticatedSocket, data: any): void {
-    if (!ws.playerId) return;
+    if (!ws.playerId || !ws.shard) return;
 
-    const player = this.world.getPlayer(ws.playerId);
+    const player = ws.shard.world.getPlayer(ws.playerId);
     if (!player) return;
 
     if (!player.canPoop()) {
@@ -396,24 +874,38 @@ export class GameServer {
 
     const velocity = data.velocity || { x: 0, y: -2, z: 0 };
 
-    // Register poop for PvP collision tracking on server
-    this.world.addActivePoop(ws.playerId, player.position, velocity);
+    // Register poop for PvP collision tracking on server, rewound to the shooter's view
+    const viewTime = typeof data?.viewTime === 'number' ? data.viewTime : undefined;
+    ws.shard.world.addActivePoop(ws.playerId, player.position, velocity, viewTime);
 
-    // Broadcast poop drop to other clients
-    this.broadcastExcept(ws.playerId, {
+    // Broadcast poop drop to other clients in the shard
+    this.broadcastToShard(ws.shard, {
       type: 'poop',
       data: {
         playerId: ws.playerId,
         position: player.position,
         velocity,
       },
-    });
+    }, ws.playerId);
+  }
+
+  private handleCoinsEarned(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.playerId) return;
+
+    const player = this.getPlayer(ws.playerId);
+    if (!player) return;
+
+    const reported = data?.coins;
+    const accepted = player.recordEarnedCoins(reported);
+    if (typeof reported === 'number' && accepted < Math.floor(reported)) {
+      log.debug('Capped reported NPC coins', { playerId: ws.playerId, reported, accepted });
+    }
   }
 
   private handleBanking(ws: AuthenticatedSocket): void {
     if (!ws.playerId) return;
 
-    const player = this.world.getPlayer(ws.playerId);
+    const player = this.getPlayer(ws.playerId);
     if (!player) return;
 
     if (!player.startBanking()) {
@@ -421,13 +913,13 @@ export class GameServer {
       return;
     }
 
-    console.log(`Player ${player.username} started banking (${player.coins} coins)`);
+    log.debug('Player started banking', { playerId: ws.playerId, username: player.username, coins: player.coins });
   }
 
   private handleBankComplete(ws: AuthenticatedSocket): void {
-    if (!ws.playerId) return;
+    if (!ws.playerId || !ws.shard) return;
 
-    const player = this.world.getPlayer(ws.playerId);
+    const player = ws.shard.world.getPlayer(ws.playerId);
     if (!player) return;
 
     const result = player.completeBanking();
@@ -436,91 +928,199 @@ export class GameServer {
       return;
     }
 
-    this.broadcast({
+    // Persist through the ledger; the client receives the new balance via 'ledger_balance'
+    this.ledger.credit(ws.playerId, { coins: result.coins, xp: result.xp, feathers: result.feathers }, 'bank').catch((err) => {
+      log.error('Failed to bank coins', { playerId: ws.playerId, coins: result.coins, err });
+    });
+
+    this.broadcastToShard(ws.shard, {
       type: 'player_banked',
       data: {
         playerId: ws.playerId,
         coins: result.coins,
         xp: result.xp,
+        feathers: result.feathers,
       },
     });
 
-    console.log(`Player ${player.username} banked ${result.coins} coins (+${result.xp} XP)`);
+    log.info('Player banked', { playerId: ws.playerId, username: player.username, coins: result.coins, xp: result.xp });
   }
 
   private handleBankCancel(ws: AuthenticatedSocket): void {
     if (!ws.playerId) return;
 
-    const player = this.world.getPlayer(ws.playerId);
+    const player = this.getPlayer(ws.playerId);
     if (!player) return;
 
     player.cancelBanking();
   }
 
+  /**
+   * Buy a coin or feather cosmetic at its catalogue price. The ledger checks
+   * level, funds and ownership; the new balance follows via 'ledger_balance'.
+   */
+  private handleShopPurchase(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.playerId) return;
+    const playerId = ws.playerId;
+
+    const itemId = typeof data?.itemId === 'string' ? data.itemId : '';
+    const item = getCosmeticItem(itemId);
+    if (!item) {
+      this.send(ws, { type: 'shop_purchase_result', data: { itemId, ok: false, error: 'unknown_item' } });
+      return;
+    }
+
+    this.ledger.purchase(playerId, item).then((result) => {
+      this.send(ws, {
+        type: 'shop_purchase_result',
+        data: result.ok ? { itemId, ok: true } : { itemId, ok: false, error: result.error },
+      });
+    }).catch((err) => {
+      log.error('Failed to charge shop purchase', { playerId, itemId, err });
+      this.send(ws, { type: 'shop_purchase_result', data: { itemId, ok: false, error: 'failed' } });
+    });
+  }
+
   // --- Racing ---
 
   private handleRaceCreate(ws: AuthenticatedSocket, data: any): void {
-    if (!ws.playerId) return;
+    if (!ws.playerId || !ws.shard) return;
 
-    const player = this.world.getPlayer(ws.playerId);
+    const player = ws.shard.world.getPlayer(ws.playerId);
     if (!player) return;
 
     const type = data?.type || 'short';
     if (!['short', 'medium', 'long'].includes(type)) return;
 
-    const race = this.world.raceManager.createRace(ws.playerId, player.username, type, player.position);
+    let route: RaceRouteData | null = null;
+    if (data?.routeCode !== undefined) {
+      const checked = this.checkRaceRouteCode(data.routeCode, ws.shard);
+      if (typeof checked === 'string') {
+        this.sendError(ws, checked);
+        return;
+      }
+      route = checked;
+    }
+
+    const race = ws.shard.world.raceManager.createRace(ws.playerId, player.username, type, player.position, route);
     if (!race) {
       this.sendError(ws, 'Cannot create race (already in one?)');
       return;
     }
 
     // Notify the creator via an event in their next state update
-    console.log(`Race created: ${race.id} (${type}) by ${player.username}`);
+    log.info('Race created', { raceId: race.id, route: race.routeName ?? type, playerId: ws.playerId });
+  }
+
+  /** A player-made route arrives as a share code; it has to pass the same checks as in the editor */
+  private checkRaceRouteCode(code: unknown, shard: WorldShard): RaceRouteData | string {
+    const route = typeof code === 'string' ? decodeRaceRouteCode(code) : null;
+    if (!route) return 'Invalid race route code';
+    const problems = validateRaceRoute(route, shard.world.city);
+    if (problems.length > 0) return `Invalid race route: ${problems[0].reason}`;
+    return route;
   }
 
   private handleRaceJoin(ws: AuthenticatedSocket, data: any): void {
-    if (!ws.playerId) return;
+    if (!ws.playerId || !ws.shard) return;
 
-    const player = this.world.getPlayer(ws.playerId);
+    const player = ws.shard.world.getPlayer(ws.playerId);
     if (!player) return;
 
     const raceId = data?.raceId;
     if (!raceId) return;
 
-    const joined = this.world.raceManager.joinRace(raceId, ws.playerId, player.username);
+    const joined = ws.shard.world.raceManager.joinRace(raceId, ws.playerId, player.username);
     if (!joined) {
       this.sendError(ws, 'Cannot join race');
     }
   }
 
   private handleRaceReady(ws: AuthenticatedSocket, data: any): void {
-    if (!ws.playerId) return;
+    if (!ws.playerId || !ws.shard) return;
 
     const raceId = data?.raceId;
     if (!raceId) return;
 
-    this.world.raceManager.startRace(raceId, ws.playerId);
+    ws.shard.world.raceManager.startRace(raceId, ws.playerId);
+  }
+
+  private handleRaceLeaderboard(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.playerId) return;
+
+    const routeId = data?.routeId;
+    if (typeof routeId !== 'string') return;
+
+    this.send(ws, { type: 'race_leaderboard', data: { routeId, entries: this.raceLeaderboard.getEntries(routeId) } });
+  }
+
+  private handleRaceGhost(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.playerId) return;
+
+    const routeId = data?.routeId;
+    const rank = Number(data?.rank);
+    if (typeof routeId !== 'string' || !Number.isInteger(rank)) return;
+
+    const ghost = this.raceLeaderboard.getGhost(routeId, rank);
+    if (!ghost) {
+      this.sendError(ws, 'No ghost at that rank');
+      return;
+    }
+    this.send(ws, { type: 'race_ghost', data: { routeId, rank, ghost } });
   }
 
   // --- Chat ---
 
   private handleChat(ws: AuthenticatedSocket, data: any): void {
-    if (!ws.playerId) return;
+    if (!ws.playerId || !ws.shard) return;
 
-    const player = this.world.getPlayer(ws.playerId);
+    const player = ws.shard.world.getPlayer(ws.playerId);
     if (!player) return;
 
     const message = typeof data?.message === 'string' ? data.message.trim() : '';
     if (!message || message.length > CHAT_MAX_LENGTH) return;
 
-    // Admin commands (bypass rate limit and mute)
-    if (ws.isAdmin && message.startsWith('/')) {
+    // Reports go to the moderators, never to chat; muted players can still send them
+    if (/^\/report(\s|$)/i.test(message)) {
+      this.handleReport(ws, player, message.split(/\s+/).slice(1));
+      return;
+    }
+
+    // Forming and leaving parties is not chat either
+    if (/^\/party(\s|$)/i.test(message)) {
+      this.handlePartyCommand(ws, player, message.split(/\s+/).slice(1));
+      return;
+    }
+
+    // `/w <name> <text>` and `/r <text>` whisper whatever tab the client sent from
+    let channel: ChatChannelId = isChatChannelId(data?.channel) ? data.channel : 'global';
+    let text = message;
+    let whisperName: string | null = null;
+    const whisper = /^\/(?:w|whisper)\s+(\S+)\s+(.+)$/i.exec(message);
+    const reply = /^\/r\s+(.+)$/i.exec(message);
+    if (whisper) {
+      channel = 'whisper';
+      whisperName = whisper[1];
+      text = whisper[2].trim();
+    } else if (reply) {
+      channel = 'whisper';
+      text = reply[1].trim();
+    } else if (/^\/(w|whisper|r)(\s|$)/i.test(message)) {
+      this.serverNotice(ws, 'Usage: /w <player> <message>, or /r <message> to answer the last whisper');
+      return;
+    } else if (ws.isAdmin && message.startsWith('/')) {
+      // Admin commands (bypass rate limit and mute)
       this.handleAdminCommand(ws, player.username, message);
       return;
     }
 
-    // Block muted players
-    if (this.mutedPlayers.has(ws.playerId)) return;
+    if (this.isChatMuted(ws)) return;
+
+    const audience = this.getChatAudience(ws, player, channel, whisperName);
+    if (typeof audience === 'string') {
+      this.serverNotice(ws, audience);
+      return;
+    }
 
     // Rate limit
     const now = Date.now();
@@ -528,21 +1128,251 @@ export class GameServer {
     if (now - lastChat < CHAT_RATE_LIMIT_MS) return;
     this.chatRateLimit.set(ws.playerId, now);
 
-    // Broadcast to all clients
+    const filtered = this.filterChat(ws, player, channel, text);
+    if (filtered === null) return;
+
     const chatMsg: ChatMessage = {
       playerId: ws.playerId,
       username: player.username,
-      message,
+      message: filtered,
       timestamp: now,
+      channel,
+      ...(audience.to && { toId: audience.to.id, toName: audience.to.username }),
     };
 
-    this.broadcast({
-      type: 'chat',
-      data: chatMsg,
+    if (channel === 'global') {
+      // Broadcast to everyone in the shard
+      this.broadcastToShard(ws.shard, { type: 'chat', data: chatMsg });
+    } else {
+      for (const id of audience.recipientIds) this.sendToPlayer(id, { type: 'chat', data: chatMsg });
+    }
+
+    if (audience.to) {
+      this.lastWhisperPeer.set(ws.playerId, audience.to.id);
+      this.lastWhisperPeer.set(audience.to.id, ws.playerId);
+    }
+
+    // Public lines go in the replay, and bots within earshot may answer
+    if (channel === 'global' || channel === 'proximity') {
+      ws.shard.replay?.recordChat(chatMsg);
+      const listenerIds = channel === 'proximity' ? audience.recipientIds : undefined;
+      ws.shard.botManager.onExternalChat(ws.playerId, player.username, filtered, channel, listenerIds);
+    }
+  }
+
+  /**
+   * Who a line on `channel` reaches, the sender included. Returns a notice
+   * for the sender instead when there is nobody to send it to.
+   */
+  private getChatAudience(
+    ws: AuthenticatedSocket,
+    player: Player,
+    channel: ChatChannelId,
+    whisperName: string | null,
+  ): { recipientIds: string[]; to?: Player } | string {
+    const playerId = ws.playerId!;
+    switch (channel) {
+      case 'global':
+        return { recipientIds: Array.from(ws.shard?.playerIds ?? []) };
+
+      case 'proximity': {
+        const nearby = ws.shard?.world.getPlayerIdsNear(player.position, PROXIMITY_CHAT_RADIUS) ?? [];
+        return { recipientIds: nearby.includes(playerId) ? nearby : [playerId, ...nearby] };
+      }
+
+      case 'whisper': {
+        const targetId = whisperName ? this.findPlayerIdByUsername(whisperName) : this.lastWhisperPeer.get(playerId);
+        const target = targetId ? this.getPlayer(targetId) : undefined;
+        if (!targetId || !target) {
+          return whisperName
+            ? `Player not found: ${whisperName}`
+            : 'Nobody to answer. Whisper with /w <player> <message>';
+        }
+        if (targetId === playerId) return 'You cannot whisper to yourself';
+        return { recipientIds: [playerId, targetId], to: target };
+      }
+
+      case 'session': {
+        const pvp = this.getPvPSessionForPlayer(playerId);
+        if (pvp) return { recipientIds: Array.from(pvp.participants) };
+        const heist = this.heistManager.getMatchForPlayer(playerId);
+        if (heist) return { recipientIds: Array.from(heist.players.keys()) };
+        return 'You are not in a match';
+      }
+
+      case 'party': {
+        const members = this.parties.getMemberIds(playerId);
+        if (members.length === 0) return 'You are not in a party. Invite someone with /party invite <player>';
+        return { recipientIds: members };
+      }
+    }
+  }
+
+  /** `/party invite <player>`, `/party accept`, `/party leave`, or `/party` to list members */
+  private handlePartyCommand(ws: AuthenticatedSocket, player: Player, args: string[]): void {
+    if (!ws.playerId) return;
+    const [sub = '', targetName] = args;
+    const nameOf = (id: string): string => this.getPlayer(id)?.username ?? 'someone';
+
+    switch (sub.toLowerCase()) {
+      case 'invite': {
+        const targetId = targetName ? this.findPlayerIdByUsername(targetName) : null;
+        if (!targetName || !targetId) {
+          this.serverNotice(ws, targetName ? `Player not found: ${targetName}` : 'Usage: /party invite <player>');
+          return;
+        }
+        const result = this.parties.invite(ws.playerId, targetId);
+        if (result === 'self') this.serverNotice(ws, 'You cannot invite yourself');
+        else if (result === 'already_member') this.serverNotice(ws, `${nameOf(targetId)} is already in your party`);
+        else if (result === 'full') this.serverNotice(ws, `Parties hold at most ${CHAT_PARTY_LIMITS.MAX_MEMBERS} players`);
+        else {
+          this.serverNotice(ws, `Invited ${nameOf(targetId)} to your party`);
+          this.sendToPlayer(targetId, {
+            type: 'chat',
+            data: {
+              playerId: 'server', username: '[Server]', timestamp: Date.now(),
+              message: `${player.username} invited you to a party. Type /party accept to join.`,
+            },
+          });
+        }
+        return;
+      }
+
+      case 'accept': {
+        const party = this.parties.accept(ws.playerId);
+        if (!party) {
+          this.serverNotice(ws, 'No open party invite');
+          return;
+        }
+        for (const id of party.memberIds) {
+          const member = this.clients.get(id);
+          if (!member) continue;
+          if (id === ws.playerId) {
+            this.serverNotice(member, `You joined the party: ${Array.from(party.memberIds, nameOf).join(', ')}`);
+          } else {
+            this.serverNotice(member, `${player.username} joined the party`);
+          }
+        }
+        return;
+      }
+
+      case 'leave': {
+        if (!this.parties.getParty(ws.playerId)) {
+          this.serverNotice(ws, 'You are not in a party');
+          return;
+        }
+        this.leaveParty(ws.playerId, player.username);
+        this.serverNotice(ws, 'You left the party');
+        return;
+      }
+
+      case '': {
+        const members = this.parties.getMemberIds(ws.playerId);
+        this.serverNotice(ws, members.length > 0
+          ? `Party (${members.length}): ${members.map(nameOf).join(', ')}`
+          : 'You are not in a party. Invite someone with /party invite <player>');
+        return;
+      }
+
+      default:
+        this.serverNotice(ws, 'Usage: /party [invite <player> | accept | leave]');
+    }
+  }
+
+  /** Take a player out of their party and tell whoever is left */
+  private leaveParty(playerId: string, username: string): void {
+    for (const id of this.parties.leave(playerId) ?? []) {
+      const member = this.clients.get(id);
+      if (!member) continue;
+      this.serverNotice(member, this.parties.getParty(id)
+        ? `${username} left the party`
+        : `${username} left, so the party broke up`);
+    }
+  }
+
+  /** Tell a muted player so and report true; the only chat they can still send is /report */
+  private isChatMuted(ws: AuthenticatedSocket): boolean {
+    if (!ws.playerId) return true;
+    const mute = this.moderation.getActive('mute', getModerationSubjects(ws.playerId, ws.deviceId ?? null));
+    if (!mute) return false;
+    this.serverNotice(ws, `You are muted (${describeSanctionTerm(mute, Date.now())})`);
+    return true;
+  }
+
+  /**
+   * Run a line through the chat filters. Returns the text to send, or null
+   * when it was dropped; spam strikes past the first mute the sender here.
+   */
+  private filterChat(ws: AuthenticatedSocket, player: Player, channel: ChatChannel, message: string): string | null {
+    if (!ws.playerId) return null;
+    const now = Date.now();
+    const senderKey = getModerationSubject(ws.playerId, ws.deviceId ?? null);
+    const verdict = this.chatFilter.run({ senderKey, channel, message, now });
+
+    switch (verdict.action) {
+      case 'allow':
+        return verdict.message;
+      case 'drop':
+        if (verdict.notice) this.serverNotice(ws, verdict.notice);
+        return null;
+      case 'mute': {
+        const sanction = this.moderation.impose(
+          'mute', senderKey, player.username, verdict.reason, AUTO_MODERATOR, verdict.durationMs, now,
+        );
+        const term = describeSanctionTerm(sanction, now);
+        chatLog.info('Auto-muted', { playerId: ws.playerId, username: player.username, term, reason: verdict.reason });
+        this.serverNotice(ws, `You have been muted (${term}): ${verdict.reason}`);
+        return null;
+      }
+    }
+  }
+
+  /** `/report <player> <reason>`: filed for the moderators and shown to any admin online */
+  private handleReport(ws: AuthenticatedSocket, reporter: Player, args: string[]): void {
+    if (!ws.playerId || !ws.shard) return;
+    const [targetName, ...reasonWords] = args;
+    const reason = reasonWords.join(' ').trim();
+    if (!targetName || !reason) {
+      this.serverNotice(ws, 'Usage: /report <player> <reason>');
+      return;
+    }
+
+    const now = Date.now();
+    if (now - (this.lastReportAt.get(ws.playerId) ?? 0) < REPORT_COOLDOWN_MS) {
+      this.serverNotice(ws, 'Please wait a little before sending another report.');
+      return;
+    }
+    const targetId = this.findPlayerIdByUsername(targetName);
+    const target = targetId ? this.getPlayer(targetId) : undefined;
+    if (!targetId || !target || targetId === ws.playerId) {
+      this.serverNotice(ws, `Player not found: ${targetName}`);
+      return;
+    }
+
+    this.lastReportAt.set(ws.playerId, now);
+    this.moderation.report({
+      reporterId: ws.playerId,
+      reporterName: reporter.username,
+      subjectId: getModerationSubject(targetId, this.clients.get(targetId)?.deviceId ?? null),
+      username: target.username,
+      reason,
+      shardId: ws.shard.id,
+      at: now,
     });
+    chatLog.info('Player reported', { playerId: ws.playerId, reporter: reporter.username, targetId, target: target.username, reason });
+    this.serverNotice(ws, `Thanks, your report on ${target.username} was sent to the moderators.`);
+
+    for (const client of this.clients.values()) {
+      if (client.isAdmin) this.adminReply(client, `[Report] ${reporter.username} reported ${target.username}: ${reason}`);
+    }
+  }
 
-    // Let bots see the message so they can respond
-    this.botManager.onExternalChat(ws.playerId!, player.username, message);
+  /** A private line from the server in the player's own chat */
+  private serverNotice(ws: AuthenticatedSocket, msg: string): void {
+    this.send(ws, {
+      type: 'chat',
+      data: { playerId: 'server', username: '[Server]', message: msg, timestamp: Date.now() },
+    });
   }
 
   // --- Admin Commands ---
@@ -559,6 +1389,19 @@ export class GameServer {
     const parts = message.slice(1).split(' ');
     const cmd = parts[0].toLowerCase();
     const args = parts.slice(1);
+    // Bot and projectile commands act on the admin's own shard
+    const shard = ws.shard;
+    if (!shard) return;
+
+    // Every command is on the record, whatever it turns out to do
+    this.moderation.audit({
+      at: Date.now(),
+      adminId: ws.playerId ?? '',
+      adminName,
+      command: cmd,
+      args: args.join(' '),
+      shardId: shard.id,
+    });
 
     switch (cmd) {
 
@@ -566,7 +1409,7 @@ export class GameServer {
       case 'announce': {
         const text = args.join(' ');
         if (!text) { this.adminReply(ws, 'Usage: /announce <message>'); break; }
-        console.log(`[ADMIN] ${adminName} announced: ${text}`);
+        adminLog.info('Announced', { admin: adminName, message: text });
         this.broadcast({ type: 'admin_announce', data: { message: text, timestamp: Date.now() } });
         break;
       }
@@ -577,82 +1420,59 @@ export class GameServer {
         if (!targetName) { this.adminReply(ws, 'Usage: /kick <username>'); break; }
         const targetId = this.findPlayerIdByUsername(targetName);
         if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        const targetWs = this.clients.get(targetId);
-        if (targetWs) {
-          this.send(targetWs, { type: 'admin_kicked', data: { reason: 'Kicked by admin' } });
-          targetWs.close();
-        }
-        console.log(`[ADMIN] ${adminName} kicked ${targetName}`);
+        this.kickPlayer(targetId, 'Kicked by admin');
+        adminLog.info('Kicked', { admin: adminName, playerId: targetId, username: targetName });
         this.adminReply(ws, `Kicked ${targetName}`);
         break;
       }
 
-      // ── Ban (kick + block rejoin this session) ─────────────────────────────
+      // ── Ban (kick + block rejoin; guests by device) ────────────────────────
       case 'ban': {
         const targetName = args[0];
-        if (!targetName) { this.adminReply(ws, 'Usage: /ban <username>'); break; }
+        if (!targetName) { this.adminReply(ws, 'Usage: /ban <username> [30m|12h|7d|perm] [reason]'); break; }
         const targetId = this.findPlayerIdByUsername(targetName);
         if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        const uuid = targetId.startsWith('guest_') ? null : targetId.substring(0, 36);
-        if (!uuid) { this.adminReply(ws, `Cannot ban guest players (no persistent ID)`); break; }
-        this.bannedPlayerIds.set(uuid, targetName);
-        const targetWs = this.clients.get(targetId);
-        if (targetWs) {
-          this.send(targetWs, { type: 'admin_kicked', data: { reason: 'Banned by admin' } });
-          targetWs.close();
-        }
-        console.log(`[ADMIN] ${adminName} banned ${targetName} (${uuid})`);
-        this.adminReply(ws, `Banned ${targetName} (UUID: ${uuid})`);
+        const { durationMs, reason } = parseSanctionArgs(args.slice(1), null);
+        const sanction = this.sanctionPlayer('ban', targetId, targetName, durationMs, reason, adminName);
+        this.adminReply(ws, `Banned ${this.describeSanction(sanction)}`);
         break;
       }
 
       // ── Unban ──────────────────────────────────────────────────────────────
       case 'unban': {
         const input = args[0];
-        if (!input) { this.adminReply(ws, 'Usage: /unban <username_or_uuid>'); break; }
-        // Try by UUID first, then by stored username
-        if (this.bannedPlayerIds.has(input)) {
-          const username = this.bannedPlayerIds.get(input) ?? input;
-          this.bannedPlayerIds.delete(input);
-          console.log(`[ADMIN] ${adminName} unbanned ${username} (${input})`);
-          this.adminReply(ws, `Unbanned ${username}`);
+        if (!input) { this.adminReply(ws, 'Usage: /unban <username_or_id>'); break; }
+        // By subject ID first, then by the name it was banned under
+        const lifted = this.moderation.lift('ban', input, adminName);
+        if (lifted) {
+          adminLog.info('Unbanned', { admin: adminName, username: lifted.username, subjectId: lifted.subjectId });
+          this.adminReply(ws, `Unbanned ${lifted.username}`);
         } else {
-          const entry = Array.from(this.bannedPlayerIds.entries()).find(
-            ([, name]) => name.toLowerCase() === input.toLowerCase(),
-          );
-          if (entry) {
-            this.bannedPlayerIds.delete(entry[0]);
-            console.log(`[ADMIN] ${adminName} unbanned ${entry[1]} (${entry[0]})`);
-            this.adminReply(ws, `Unbanned ${entry[1]}`);
-          } else {
-            this.adminReply(ws, `No ban found for: ${input}`);
-          }
+          this.adminReply(ws, `No ban found for: ${input}`);
         }
         break;
       }
 
       // ── Ban list ───────────────────────────────────────────────────────────
       case 'banlist': {
-        if (this.bannedPlayerIds.size === 0) {
+        const bans = this.moderation.listActive('ban');
+        if (bans.length === 0) {
           this.adminReply(ws, 'No players are banned.');
           break;
         }
-        const list = Array.from(this.bannedPlayerIds.entries())
-          .map(([uuid, name]) => `${name} (${uuid})`)
-          .join(', ');
-        this.adminReply(ws, `Banned (${this.bannedPlayerIds.size}): ${list}`);
+        this.adminReply(ws, `Banned (${bans.length}): ${bans.map((s) => this.describeSanction(s)).join(', ')}`);
         break;
       }
 
       // ── Mute ───────────────────────────────────────────────────────────────
       case 'mute': {
         const targetName = args[0];
-        if (!targetName) { this.adminReply(ws, 'Usage: /mute <username>'); break; }
+        if (!targetName) { this.adminReply(ws, 'Usage: /mute <username> [30m|12h|7d|perm] [reason]'); break; }
         const targetId = this.findPlayerIdByUsername(targetName);
         if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        this.mutedPlayers.add(targetId);
-        console.log(`[ADMIN] ${adminName} muted ${targetName}`);
-        this.adminReply(ws, `Muted ${targetName}`);
+        const { durationMs, reason } = parseSanctionArgs(args.slice(1), DEFAULT_MUTE_MS);
+        const sanction = this.sanctionPlayer('mute', targetId, targetName, durationMs, reason, adminName);
+        this.adminReply(ws, `Muted ${sanction.username} (${describeSanctionTerm(sanction, Date.now())})`);
         break;
       }
 
@@ -660,24 +1480,59 @@ export class GameServer {
       case 'unmute': {
         const targetName = args[0];
         if (!targetName) { this.adminReply(ws, 'Usage: /unmute <username>'); break; }
+        // An online player by their current subject, anyone else by the name they were muted under
         const targetId = this.findPlayerIdByUsername(targetName);
-        if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        this.mutedPlayers.delete(targetId);
-        console.log(`[ADMIN] ${adminName} unmuted ${targetName}`);
-        this.adminReply(ws, `Unmuted ${targetName}`);
+        const subjectOrName = targetId
+          ? getModerationSubject(targetId, this.clients.get(targetId)?.deviceId ?? null)
+          : targetName;
+        const lifted = this.moderation.lift('mute', subjectOrName, adminName);
+        if (!lifted) { this.adminReply(ws, `${targetName} is not muted`); break; }
+        adminLog.info('Unmuted', { admin: adminName, username: lifted.username, subjectId: lifted.subjectId });
+        this.adminReply(ws, `Unmuted ${lifted.username}`);
         break;
       }
 
       // ── Mute list ──────────────────────────────────────────────────────────
       case 'mutelist': {
-        if (this.mutedPlayers.size === 0) {
+        const mutes = this.moderation.listActive('mute');
+        if (mutes.length === 0) {
           this.adminReply(ws, 'No players are muted.');
           break;
         }
-        const list = Array.from(this.mutedPlayers)
-          .map((id) => this.world.getPlayer(id)?.username ?? id)
-          .join(', ');
-        this.adminReply(ws, `Muted (${this.mutedPlayers.size}): ${list}`);
+        this.adminReply(ws, `Muted (${mutes.length}): ${mutes.map((s) => this.describeSanction(s)).join(', ')}`);
+        break;
+      }
+
+      // ── Moderation history ─────────────────────────────────────────────────
+      case 'history': {
+        const targetName = args[0];
+        if (!targetName) { this.adminReply(ws, 'Usage: /history <username_or_id>'); break; }
+        const targetId = this.findPlayerIdByUsername(targetName);
+        const username = (targetId && this.getPlayer(targetId)?.username) || targetName;
+        const subjects = targetId
+          ? getModerationSubjects(targetId, this.clients.get(targetId)?.deviceId ?? null)
+          : [targetName];
+        const { sanctions, reports, actions } = this.moderation.getHistory(subjects, username);
+        if (sanctions.length + reports.length + actions.length === 0) {
+          this.adminReply(ws, `No moderation history for ${username}`);
+          break;
+        }
+
+        const now = Date.now();
+        const ago = (at: number): string => `${formatModerationDuration(now - at)} ago`;
+        this.adminReply(ws, `History for ${username}: ${sanctions.length} sanction(s), ${reports.length} report(s), ${actions.length} admin action(s)`);
+        for (const s of sanctions) {
+          const status = s.liftedAt !== null ? `lifted by ${s.liftedBy}`
+            : s.expiresAt !== null && s.expiresAt <= now ? 'expired'
+            : `active, ${describeSanctionTerm(s, now)}`;
+          this.adminReply(ws, `  ${s.kind} by ${s.issuedBy} ${ago(s.issuedAt)}: ${s.reason || 'no reason'} [${status}]`);
+        }
+        for (const r of reports) {
+          this.adminReply(ws, `  report by ${r.reporterName} ${ago(r.at)}: ${r.reason}`);
+        }
+        for (const a of actions) {
+          this.adminReply(ws, `  /${a.command} ${a.args} by ${a.adminName} ${ago(a.at)}`);
+        }
         break;
       }
 
@@ -695,7 +1550,7 @@ export class GameServer {
             data: { message: warnText, timestamp: Date.now() },
           });
         }
-        console.log(`[ADMIN] ${adminName} warned ${targetName}: ${warnText}`);
+        adminLog.info('Warned', { admin: adminName, playerId: targetId, username: targetName, message: warnText });
         this.adminReply(ws, `Warning sent to ${targetName}`);
         break;
       }
@@ -706,11 +1561,11 @@ export class GameServer {
         if (!targetName) { this.adminReply(ws, 'Usage: /freeze <username>'); break; }
         const targetId = this.findPlayerIdByUsername(targetName);
         if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        const target = this.world.getPlayer(targetId);
+        const target = this.getPlayer(targetId);
         if (!target) break;
         this.frozenPlayers.add(targetId);
         target.applyStun(99999); // ~28 hours — effectively permanent
-        console.log(`[ADMIN] ${adminName} froze ${targetName}`);
+        adminLog.info('Froze', { admin: adminName, playerId: targetId, username: targetName });
         this.adminReply(ws, `Froze ${targetName}`);
         break;
       }
@@ -721,11 +1576,11 @@ export class GameServer {
         if (!targetName) { this.adminReply(ws, 'Usage: /unfreeze <username>'); break; }
         const targetId = this.findPlayerIdByUsername(targetName);
         if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        const target = this.world.getPlayer(targetId);
+        const target = this.getPlayer(targetId);
         if (!target) break;
         this.frozenPlayers.delete(targetId);
         target.stunnedUntil = 0; // expire stun immediately — WorldState.updateStun() will restore state next tick
-        console.log(`[ADMIN] ${adminName} unfroze ${targetName}`);
+        adminLog.info('Unfroze', { admin: adminName, playerId: targetId, username: targetName });
         this.adminReply(ws, `Unfroze ${targetName}`);
         break;
       }
@@ -736,9 +1591,11 @@ export class GameServer {
         if (!targetName) { this.adminReply(ws, 'Usage: /bring <username>'); break; }
         const targetId = this.findPlayerIdByUsername(targetName);
         if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        const adminPlayer = ws.playerId ? this.world.getPlayer(ws.playerId) : null;
-        const targetPlayer = this.world.getPlayer(targetId);
+        const adminPlayer = ws.playerId ? this.getPlayer(ws.playerId) : null;
+        const targetPlayer = this.getPlayer(targetId);
         if (!adminPlayer || !targetPlayer) break;
+        const targetShard = this.clients.get(targetId)?.shard;
+        if (targetShard !== shard) { this.adminReply(ws, `${targetName} is in world ${targetShard?.id ?? '?'}`); break; }
         targetPlayer.position = { ...adminPlayer.position };
         const targetWs = this.clients.get(targetId);
         if (targetWs) {
@@ -747,7 +1604,7 @@ export class GameServer {
             data: { x: adminPlayer.position.x, y: adminPlayer.position.y, z: adminPlayer.position.z },
           });
         }
-        console.log(`[ADMIN] ${adminName} brought ${targetName} to admin position`);
+        adminLog.info('Brought player to admin', { admin: adminName, playerId: targetId, username: targetName });
         this.adminReply(ws, `Teleported ${targetName} to your location`);
         break;
       }
@@ -758,15 +1615,17 @@ export class GameServer {
         if (!targetName) { this.adminReply(ws, 'Usage: /tp <username>'); break; }
         const targetId = this.findPlayerIdByUsername(targetName);
         if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        const targetPlayer = this.world.getPlayer(targetId);
-        const adminPlayer = ws.playerId ? this.world.getPlayer(ws.playerId) : null;
+        const targetPlayer = this.getPlayer(targetId);
+        const adminPlayer = ws.playerId ? this.getPlayer(ws.playerId) : null;
         if (!targetPlayer || !adminPlayer) break;
+        const targetShard = this.clients.get(targetId)?.shard;
+        if (targetShard !== shard) { this.adminReply(ws, `${targetName} is in world ${targetShard?.id ?? '?'}`); break; }
         adminPlayer.position = { ...targetPlayer.position };
         this.send(ws, {
           type: 'admin_teleport',
           data: { x: targetPlayer.position.x, y: targetPlayer.position.y, z: targetPlayer.position.z },
         });
-        console.log(`[ADMIN] ${adminName} teleported to ${targetName}`);
+        adminLog.info('Teleported to player', { admin: adminName, playerId: targetId, username: targetName });
         this.adminReply(ws, `Teleported to ${targetName}`);
         break;
       }
@@ -778,10 +1637,10 @@ export class GameServer {
         if (!targetName || isNaN(amount)) { this.adminReply(ws, 'Usage: /coins <username> <amount>'); break; }
         const targetId = this.findPlayerIdByUsername(targetName);
         if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        const target = this.world.getPlayer(targetId);
+        const target = this.getPlayer(targetId);
         if (!target) break;
         target.coins = Math.max(0, target.coins + amount);
-        console.log(`[ADMIN] ${adminName} gave ${amount} coins to ${targetName} (now: ${target.coins})`);
+        adminLog.info('Adjusted coins', { admin: adminName, playerId: targetId, username: targetName, amount, coins: target.coins });
         this.adminReply(ws, `${amount >= 0 ? 'Gave' : 'Took'} ${Math.abs(amount)} coins ${amount >= 0 ? 'to' : 'from'} ${targetName} (now: ${target.coins})`);
         break;
       }
@@ -792,10 +1651,10 @@ export class GameServer {
         if (!targetName) { this.adminReply(ws, 'Usage: /clearheat <username>'); break; }
         const targetId = this.findPlayerIdByUsername(targetName);
         if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        const target = this.world.getPlayer(targetId);
+        const target = this.getPlayer(targetId);
         if (!target) break;
         target.updateHeat(-50); // bring to 0
-        console.log(`[ADMIN] ${adminName} cleared heat for ${targetName}`);
+        adminLog.info('Cleared heat', { admin: adminName, playerId: targetId, username: targetName });
         this.adminReply(ws, `Cleared heat for ${targetName}`);
         break;
       }
@@ -807,7 +1666,7 @@ export class GameServer {
         if (!targetName || isNaN(level)) { this.adminReply(ws, 'Usage: /setheat <username> <0-50>'); break; }
         const targetId = this.findPlayerIdByUsername(targetName);
         if (!targetId) { this.adminReply(ws, `Player not found: ${targetName}`); break; }
-        const target = this.world.getPlayer(targetId);
+        const target = this.getPlayer(targetId);
         if (!target) break;
         const clamped = Math.max(0, Math.min(50, level));
         target.heat = clamped;
@@ -815,7 +1674,7 @@ export class GameServer {
         if (!target.isStunned()) {
           target.state = clamped >= 15 ? 'WANTED' : 'NORMAL';
         }
-        console.log(`[ADMIN] ${adminName} set ${targetName} heat to ${clamped}`);
+        adminLog.info('Set heat', { admin: adminName, playerId: targetId, username: targetName, heat: clamped });
         this.adminReply(ws, `Set ${targetName}'s heat to ${clamped}`);
         break;
       }
@@ -823,12 +1682,15 @@ export class GameServer {
       // ── Players list ───────────────────────────────────────────────────────
       case 'players': {
         const realCount = this.clients.size;
-        const botCount = this.botManager.getBotCount();
+        const botCount = this.getTotalBotCount();
         const list = Array.from(this.clients.entries())
-          .map(([id]) => {
-            const p = this.world.getPlayer(id);
+          .map(([id, client]) => {
+            const p = this.getPlayer(id);
+            p?.decaySuspicion();
             const flags = [
-              this.mutedPlayers.has(id) ? 'muted' : '',
+              this.shards.size > 1 ? client.shard?.id ?? '' : '',
+              p?.suspicionFlagged ? `suspect:${Math.round(p.suspicion)}` : '',
+              this.moderation.getActive('mute', getModerationSubjects(id, client.deviceId ?? null)) ? 'muted' : '',
               this.frozenPlayers.has(id) ? 'frozen' : '',
               (id as AuthenticatedSocket['playerId']) && (this.clients.get(id) as AuthenticatedSocket)?.isAdmin ? 'admin' : '',
             ].filter(Boolean).join(',');
@@ -841,7 +1703,7 @@ export class GameServer {
 
       // ── Bot list ───────────────────────────────────────────────────────────
       case 'bots': {
-        const summaries = this.botManager.getBotSummaries();
+        const summaries = shard.botManager.getBotSummaries();
         if (summaries.length === 0) { this.adminReply(ws, 'No bots active.'); break; }
         const list = summaries.map((b) => b.username).join(', ');
         this.adminReply(ws, `Bots (${summaries.length}): ${list}`);
@@ -850,29 +1712,46 @@ export class GameServer {
 
       // ── Spawn one bot ──────────────────────────────────────────────────────
       case 'spawnbot': {
-        this.botManager.spawnOneBot();
-        console.log(`[ADMIN] ${adminName} force-spawned a bot`);
-        this.adminReply(ws, `Spawned a bot (total bots: ${this.botManager.getBotCount()})`);
+        shard.botManager.spawnOneBot();
+        adminLog.info('Spawned a bot', { admin: adminName, shard: shard.id });
+        this.adminReply(ws, `Spawned a bot (total bots: ${shard.botManager.getBotCount()})`);
         break;
       }
 
       // ── Clear all bots ─────────────────────────────────────────────────────
       case 'clearbots': {
-        const count = this.botManager.getBotCount();
-        const botIds = this.botManager.getBotIds();
+        const count = shard.botManager.getBotCount();
+        const botIds = shard.botManager.getBotIds();
         for (const botId of botIds) {
-          this.botManager.removeOneBot(botId);
-          this.broadcast({ type: 'player_left', data: { playerId: botId } });
+          shard.botManager.removeOneBot(botId);
+          this.broadcastToShard(shard, { type: 'player_left', data: { playerId: botId } });
         }
-        console.log(`[ADMIN] ${adminName} cleared ${count} bots`);
+        adminLog.info('Cleared bots', { admin: adminName, shard: shard.id, count });
         this.adminReply(ws, `Removed ${count} bots`);
         break;
       }
 
+      // ── Bot difficulty ─────────────────────────────────────────────────────
+      case 'botdifficulty': {
+        const tier = (args[0] || '').toLowerCase();
+        if (!tier) {
+          this.adminReply(ws, `Bot difficulty: ${BOT_DIFFICULTY_NAMES[shard.botManager.getDifficulty()]} (${BOT_DIFFICULTIES.join(' | ')})`);
+          break;
+        }
+        if (!isBotDifficulty(tier)) {
+          this.adminReply(ws, `Usage: /botdifficulty [${BOT_DIFFICULTIES.join('|')}]`);
+          break;
+        }
+        shard.botManager.setDifficulty(tier);
+        adminLog.info('Set bot difficulty', { admin: adminName, shard: shard.id, difficulty: tier });
+        this.adminReply(ws, `Bot difficulty set to ${BOT_DIFFICULTY_NAMES[tier]}`);
+        break;
+      }
+
       // ── Clear poop projectiles ─────────────────────────────────────────────
       case 'clearpoops': {
-        this.world.clearActivePoops();
-        console.log(`[ADMIN] ${adminName} cleared active poops`);
+        shard.world.clearActivePoops();
+        adminLog.info('Cleared poops', { admin: adminName, shard: shard.id });
         this.adminReply(ws, 'Cleared all active poop projectiles');
         break;
       }
@@ -881,27 +1760,23 @@ export class GameServer {
       case 'endpvp': {
         const modeArg = args[0]?.toLowerCase() as PvPModeId | undefined;
         let ended = 0;
-        for (const [sessionId, session] of this.pvpSessions) {
+        for (const session of this.pvpSessions.values()) {
           if (!modeArg || session.modeId === modeArg) {
-            this.broadcastToPvPSession(session, {
-              type: 'pvp-mode-end',
-              data: { mode: session.modeId, results: { reason: 'admin-ended' } },
-            });
-            for (const participantId of session.participants) {
-              this.playerPvPSession.delete(participantId);
-            }
-            this.pvpSessions.delete(sessionId);
-            if (this.pvpActiveByMode.get(session.modeId) === sessionId) {
-              this.pvpActiveByMode.delete(session.modeId);
-            }
+            this.endPvPSessionByAdmin(session);
             ended++;
           }
         }
-        console.log(`[ADMIN] ${adminName} force-ended ${ended} PvP session(s)`);
+        adminLog.info('Ended PvP sessions', { admin: adminName, mode: modeArg, count: ended });
         this.adminReply(ws, ended > 0 ? `Ended ${ended} PvP session(s)` : 'No active PvP sessions found');
         break;
       }
 
+      // ── Tournaments ────────────────────────────────────────────────────────
+      case 'tournament': {
+        this.handleTournamentCommand(ws, adminName, shard, args);
+        break;
+      }
+
       // ── Server info ────────────────────────────────────────────────────────
       case 'info': {
         const uptimeSec = Math.floor((Date.now() - this.serverStartTime) / 1000);
@@ -910,14 +1785,15 @@ export class GameServer {
         const secs = uptimeSec % 60;
         const uptime = `${hours}h ${mins}m ${secs}s`;
         const realPlayers = this.clients.size;
-        const bots = this.botManager.getBotCount();
-        const poops = this.world.getActivePoopCount();
+        const bots = this.getTotalBotCount();
+        let poops = 0;
+        for (const each of this.shards.values()) poops += each.world.getActivePoopCount();
         const activePvP = this.pvpSessions.size;
-        const muted = this.mutedPlayers.size;
+        const muted = this.moderation.listActive('mute').length;
         const frozen = this.frozenPlayers.size;
-        const banned = this.bannedPlayerIds.size;
+        const banned = this.moderation.listActive('ban').length;
         this.adminReply(ws,
-          `Server info — Uptime: ${uptime} | Players: ${realPlayers} real + ${bots} bots | ` +
+          `Server info — Uptime: ${uptime} | Shards: ${this.shards.size} | Players: ${realPlayers} real + ${bots} bots | ` +
           `Active poops: ${poops} | PvP sessions: ${activePvP} | ` +
           `Muted: ${muted} | Frozen: ${frozen} | Banned: ${banned}`,
         );
@@ -927,12 +1803,12 @@ export class GameServer {
       // ── Help ───────────────────────────────────────────────────────────────
       case 'help': {
         const cmds = [
-          '/announce <msg>', '/kick <name>', '/ban <name>', '/unban <name>', '/banlist',
-          '/mute <name>', '/unmute <name>', '/mutelist', '/warn <name> <msg>',
+          '/announce <msg>', '/kick <name>', '/ban <name> [time] [reason]', '/unban <name>', '/banlist',
+          '/mute <name> [time] [reason]', '/unmute <name>', '/mutelist', '/history <name>', '/warn <name> <msg>',
           '/freeze <name>', '/unfreeze <name>', '/bring <name>', '/tp <name>',
           '/coins <name> <±amt>', '/clearheat <name>', '/setheat <name> <0-50>',
-          '/players', '/bots', '/spawnbot', '/clearbots',
-          '/clearpoops', '/endpvp [mode]', '/info',
+          '/players', '/bots', '/spawnbot', '/clearbots', '/botdifficulty [tier]',
+          '/clearpoops', '/endpvp [mode]', '/tournament <open|start|cancel|status|forfeit>', '/info',
         ];
         this.adminReply(ws, `Commands: ${cmds.join(' | ')}`);
         break;
@@ -943,34 +1819,286 @@ export class GameServer {
     }
   }
 
+  /** A connected player's state in whichever shard they are in. */
+  getPlayer(playerId: string): Player | undefined {
+    return this.clients.get(playerId)?.shard?.world.getPlayer(playerId);
+  }
+
+  private firstShard(): WorldShard {
+    return this.shards.values().next().value as WorldShard;
+  }
+
+  private getTotalBotCount(): number {
+    let count = 0;
+    for (const shard of this.shards.values()) count += shard.botManager.getBotCount();
+    return count;
+  }
+
+  /** `name (subject, term)` for the ban and mute lists */
+  private describeSanction(sanction: Sanction): string {
+    return `${sanction.username} (${sanction.subjectId}, ${describeSanctionTerm(sanction, Date.now())})`;
+  }
+
   /** Find a connected player's ID by their username (case-insensitive). */
   private findPlayerIdByUsername(username: string): string | null {
     const lower = username.toLowerCase();
     for (const [id] of this.clients) {
-      const p = this.world.getPlayer(id);
+      const p = this.getPlayer(id);
       if (p && p.username.toLowerCase() === lower) return id;
     }
     return null;
   }
 
+  /** Tell a connected player why and close their connection; false when they are not connected */
+  private kickPlayer(playerId: string, reason: string): boolean {
+    const targetWs = this.clients.get(playerId);
+    if (!targetWs) return false;
+    this.send(targetWs, { type: 'admin_kicked', data: { reason } });
+    targetWs.close();
+    return true;
+  }
+
+  /** Ban (and kick) or mute a connected player, for the chat commands and the admin API */
+  private sanctionPlayer(
+    kind: SanctionKind,
+    targetId: string,
+    fallbackName: string,
+    durationMs: number | null,
+    reason: string,
+    by: string,
+  ): Sanction {
+    const targetWs = this.clients.get(targetId);
+    const sanction = this.moderation.impose(
+      kind,
+      getModerationSubject(targetId, targetWs?.deviceId ?? null),
+      this.getPlayer(targetId)?.username ?? fallbackName,
+      reason,
+      by,
+      durationMs,
+    );
+    const term = describeSanctionTerm(sanction, Date.now());
+    if (kind === 'ban') {
+      const length = durationMs === null ? '' : ` for ${formatModerationDuration(durationMs)}`;
+      this.kickPlayer(targetId, `Banned by admin${length}${reason ? `: ${reason}` : ''}`);
+      adminLog.info('Banned', { admin: by, playerId: targetId, username: sanction.username, subjectId: sanction.subjectId, term });
+    } else {
+      if (targetWs) this.serverNotice(targetWs, `You have been muted (${term})${reason ? `: ${reason}` : ''}`);
+      adminLog.info('Muted', { admin: by, playerId: targetId, username: sanction.username, subjectId: sanction.subjectId, term });
+    }
+    return sanction;
+  }
+
+  private endPvPSessionByAdmin(session: PvPSession): void {
+    this.broadcastToPvPSession(session, {
+      type: 'pvp-mode-end',
+      data: { mode: session.modeId, results: { reason: 'admin-ended' } },
+    });
+    this.deletePvPSession(session);
+  }
+
+  // --- Admin API ---
+
+  /**
+   * What the /admin API sees of this server. Actions go through the same
+   * helpers as the chat commands and are audited the same way, with the
+   * web admin's name and the command they match.
+   */
+  private createAdminApiHost(): AdminApiHost {
+    const audit = (by: string, command: string, args: string[], shardId = ''): void => {
+      this.moderation.audit({ at: Date.now(), adminId: '', adminName: by, command, args: args.filter(Boolean).join(' '), shardId });
+    };
+
+    return {
+      getOverview: () => {
+        const shards = Array.from(this.shards.values()).map((shard) => ({
+          id: shard.id,
+          name: shard.name,
+          players: shard.population,
+          capacity: shard.capacity,
+          bots: shard.botManager.getBotCount(),
+          botDifficulty: shard.botManager.getDifficulty(),
+        }));
+        return {
+          uptimeSec: Math.floor((Date.now() - this.serverStartTime) / 1000),
+          shards,
+          players: this.clients.size,
+          bots: this.getTotalBotCount(),
+          pvpSessions: this.pvpSessions.size,
+          heistMatches: this.heistManager.getLiveMatchIds().length,
+          mvmMatches: this.mvmManager.getLiveMatchIds().length,
+          bans: this.moderation.listActive('ban').length,
+          mutes: this.moderation.listActive('mute').length,
+          serverTime: Date.now(),
+        };
+      },
+
+      listPlayers: () => Array.from(this.clients.entries()).flatMap(([id, client]) => {
+        const player = this.getPlayer(id);
+        if (!player) return [];
+        return [{
+          id,
+          username: player.username,
+          shardId: client.shard?.id ?? '',
+          isAdmin: client.isAdmin === true,
+          muted: this.moderation.getActive('mute', getModerationSubjects(id, client.deviceId ?? null)) !== null,
+          frozen: this.frozenPlayers.has(id),
+          coins: player.coins,
+          heat: player.heat,
+          position: { ...player.position },
+        }];
+      }),
+
+      listBots: () => Array.from(this.shards.values()).map((shard) => ({
+        shardId: shard.id,
+        difficulty: shard.botManager.getDifficulty(),
+        bots: shard.botManager.getBotIds().map((id) => shard.world.getPlayer(id)?.username ?? id),
+      })),
+
+      listMatches: () => {
+        const targets: Array<{ target: SpectateTarget; isPrivate: boolean }> = [
+          ...Array.from(this.pvpSessions.values()).map((session) => ({
+            target: { kind: 'pvp' as const, matchId: session.id },
+            isPrivate: session.lobby !== undefined,
+          })),
+          ...this.heistManager.getLiveMatchIds().map((matchId) => ({
+            target: { kind: 'heist' as const, matchId },
+            isPrivate: this.getPrivateHeistSession(matchId) !== null,
+          })),
+          ...this.mvmManager.getLiveMatchIds().map((matchId) => ({
+            target: { kind: 'mvm' as const, matchId },
+            isPrivate: false,
+          })),
+        ];
+        const matches: AdminMatchSummary[] = [];
+        for (const { target, isPrivate } of targets) {
+          const match = this.getSpectatedMatch(target, true);
+          if (!match) continue;
+          matches.push({
+            ...target,
+            worldId: match.shard.id,
+            mode: match.state.mode,
+            phase: match.state.phase,
+            participants: match.state.participants.length,
+            isPrivate,
+            players: match.state.participants.map((p) => p.username),
+          });
+        }
+        return matches;
+      },
+
+      listSanctions: (kind) => this.moderation.listActive(kind),
+
+      getHistory: (name) => {
+        const targetId = this.findPlayerIdByUsername(name);
+        const username = (targetId && this.getPlayer(targetId)?.username) || name;
+        const subjects = targetId
+          ? getModerationSubjects(targetId, this.clients.get(targetId)?.deviceId ?? null)
+          : [name];
+        return this.moderation.getHistory(subjects, username);
+      },
+
+      kick: (playerId, reason, by) => {
+        const player = this.getPlayer(playerId);
+        if (!player) return false;
+        audit(by, 'kick', [player.username, reason], this.clients.get(playerId)?.shard?.id);
+        this.kickPlayer(playerId, reason ? `Kicked by admin: ${reason}` : 'Kicked by admin');
+        adminLog.info('Kicked', { admin: by, playerId, username: player.username });
+        return true;
+      },
+
+      sanction: (kind, playerId, durationMs, reason, by) => {
+        const player = this.getPlayer(playerId);
+        if (!player) return null;
+        const term = durationMs === null ? 'perm' : formatModerationDuration(durationMs);
+        audit(by, kind, [player.username, term, reason], this.clients.get(playerId)?.shard?.id);
+        return this.sanctionPlayer(kind, playerId, player.username, durationMs, reason, by);
+      },
+
+      lift: (kind, subjectOrName, by) => {
+        audit(by, kind === 'ban' ? 'unban' : 'unmute', [subjectOrName]);
+        const lifted = this.moderation.lift(kind, subjectOrName, by);
+        if (lifted) adminLog.info(kind === 'ban' ? 'Unbanned' : 'Unmuted', { admin: by, username: lifted.username, subjectId: lifted.subjectId });
+        return lifted;
+      },
+
+      announce: (message, by) => {
+        audit(by, 'announce', [message]);
+        adminLog.info('Announced', { admin: by, message });
+        this.broadcast({ type: 'admin_announce', data: { message, timestamp: Date.now() } });
+      },
+
+      setBotDifficulty: (difficulty: BotDifficulty, shardId, by) => {
+        const shards = shardId ? [this.shards.get(shardId)] : Array.from(this.shards.values());
+        if (shards.some((shard) => !shard)) return false;
+        audit(by, 'botdifficulty', [difficulty], shardId ?? '');
+        for (const shard of shards) shard?.botManager.setDifficulty(difficulty);
+        adminLog.info('Set bot difficulty', { admin: by, shard: shardId ?? 'all', difficulty });
+        return true;
+      },
+
+      endPvPSession: (sessionId, by) => {
+        const session = this.pvpSessions.get(sessionId);
+        if (!session) return false;
+        audit(by, 'endpvp', [session.modeId, sessionId], session.shardId);
+        this.endPvPSessionByAdmin(session);
+        adminLog.info('Ended PvP session', { admin: by, sessionId, mode: session.modeId });
+        return true;
+      },
+    };
+  }
+
   // --- MvM Queue ---
 
   private handleMvMQueueJoin(ws: AuthenticatedSocket, data: any): void {
-    if (!ws.playerId) return;
+    if (!ws.playerId || !ws.shard) return;
 
-    const player = this.world.getPlayer(ws.playerId);
+    const player = this.getPlayer(ws.playerId);
     if (!player) return;
 
-    this.mvmManager.addToQueue({
-      murmurationId: data?.murmurationId || '',
-      murmurationName: data?.murmurationName || '',
-      murmurationTag: data?.murmurationTag || '',
-      formationLevel: data?.formationLevel || 1,
+    // The team is the queuer's own murmuration, as registered at join, never what the client names
+    const membership = this.murmurationState.getPlayerMurmuration(ws.playerId);
+    if (!membership) {
+      this.sendError(ws, 'Join a murmuration to queue for MvM');
+      return;
+    }
+
+    const teamSize = data?.teamSize ?? MVM_DEFAULT_TEAM_SIZE;
+    if (!Number.isInteger(teamSize) || teamSize < 1 || teamSize > MVM_MAX_TEAM_SIZE) {
+      this.sendError(ws, 'Invalid MvM team size');
+      return;
+    }
+
+    // Teammates must be connected members of the same murmuration in the same shard, each listed once
+    const requested: unknown = data?.playerIds ?? [ws.playerId];
+    if (!Array.isArray(requested) || requested.length > teamSize || !requested.includes(ws.playerId)) {
+      this.sendError(ws, 'Invalid MvM team');
+      return;
+    }
+    const playerIds = new Set<string>();
+    for (const id of requested) {
+      const valid = typeof id === 'string' && !playerIds.has(id) && this.clients.get(id)?.shard === ws.shard
+        && this.murmurationState.getPlayerMurmuration(id)?.murmurationId === membership.murmurationId;
+      if (!valid) {
+        this.sendError(ws, 'MvM teammates must be online members of your murmuration');
+        return;
+      }
+      playerIds.add(id);
+    }
+
+    const queued = this.mvmManager.addToQueue({
+      murmurationId: membership.murmurationId,
+      murmurationName: typeof data?.murmurationName === 'string' ? data.murmurationName.slice(0, 32) : '',
+      murmurationTag: membership.murmurationTag,
+      formationLevel: Number.isInteger(data?.formationLevel) ? data.formationLevel : 1,
       mode: data?.mode || 'team_poop_tag',
-      teamSize: data?.teamSize || 2,
-      playerIds: data?.playerIds || [ws.playerId],
+      teamSize,
+      playerIds: Array.from(playerIds),
+      shardId: ws.shard.id,
       queuedAt: Date.now(),
     });
+    if (!queued) {
+      this.sendError(ws, 'A teammate is already in an MvM match or queue');
+    }
   }
 
   private handleMvMQueueLeave(ws: AuthenticatedSocket): void {
@@ -986,22 +2114,35 @@ export class GameServer {
     const murmurationId = data?.murmurationId;
     if (!murmurationId) return;
 
-    const player = this.world.getPlayer(ws.playerId);
+    const player = this.getPlayer(ws.playerId);
     if (!player) return;
 
     const message = typeof data?.message === 'string' ? data.message.trim() : '';
-    if (!message) return;
+    if (!message || message.length > MURMURATION_CHAT_MAX_LENGTH) return;
+    if (this.isChatMuted(ws)) return;
 
-    this.murmurationState.relayChatMessage(ws.playerId, message, player.username);
+    const filtered = this.filterChat(ws, player, 'murmuration', message);
+    if (filtered === null) return;
+    this.murmurationState.relayChatMessage(ws.playerId, filtered, player.username);
   }
 
   // --- Heist ---
 
-  private handleHeistJoin(ws: AuthenticatedSocket): void {
+  private handleHeistJoin(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.playerId || !ws.shard) return;
+    const format = typeof data?.format === 'string' ? data.format : '1v1';
+    if (!isHeistFormatId(format)) {
+      this.sendError(ws, 'Unknown heist format');
+      return;
+    }
+    this.heistManager.addToQueue(ws.playerId, ws.shard.id, format);
+  }
+
+  /** Leave the queue, or the match being played: a bot takes the seat */
+  private handleHeistLeave(ws: AuthenticatedSocket): void {
     if (!ws.playerId) return;
-    // For now, heist matchmaking is handled client-side via PvPManager.
-    // This endpoint is reserved for future server-authoritative matchmaking.
-    // The client creates the match locally and uses heist-grab/slam/score for validation.
+    this.heistManager.removeFromQueue(ws.playerId);
+    this.heistManager.leaveMatch(ws.playerId);
   }
 
   private handleHeistGrab(ws: AuthenticatedSocket, data: any): void {
@@ -1026,42 +2167,59 @@ export class GameServer {
     this.heistManager.handleScoreRequest(ws.playerId, position);
   }
 
-  private handleLassoCast(ws: AuthenticatedSocket, data: any): void {
+  private handleHeistPass(ws: AuthenticatedSocket, data: any): void {
     if (!ws.playerId) return;
+    const targetId = typeof data?.targetId === 'string' ? data.targetId : '';
+    if (!targetId) return;
+    this.heistManager.handlePassRequest(ws.playerId, targetId);
+  }
+
+  private handleLassoCast(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.playerId || !ws.shard) return;
 
     const targetId = typeof data?.targetId === 'string' ? data.targetId : '';
     if (!targetId) return;
 
-    this.world.requestPlayerLasso(ws.playerId, targetId);
+    ws.shard.world.requestPlayerLasso(ws.playerId, targetId);
   }
 
   private handleLassoRelease(ws: AuthenticatedSocket): void {
-    if (!ws.playerId) return;
-    this.world.releaseLassoByAttacker(ws.playerId, 'released');
+    if (!ws.playerId || !ws.shard) return;
+    ws.shard.world.releaseLassoByAttacker(ws.playerId, 'released');
   }
 
   private handleLassoBreakout(ws: AuthenticatedSocket, data: any): void {
-    if (!ws.playerId) return;
+    if (!ws.playerId || !ws.shard) return;
     const pulse = typeof data?.pulse === 'number' ? data.pulse : 1;
-    this.world.registerLassoBreakoutPulse(ws.playerId, pulse);
+    ws.shard.world.registerLassoBreakoutPulse(ws.playerId, pulse);
   }
 
   // --- PvP Sessions (Server-authoritative round lifecycle) ---
 
   private isPvPModeId(modeId: string): modeId is PvPModeId {
-    return modeId === 'poop-tag' || modeId === 'race' || modeId === 'poop-cover' || modeId === 'heist';
+    return modeId === 'poop-tag' || modeId === 'race' || modeId === 'poop-cover' || isHeistModeId(modeId);
   }
 
-  private getPvPRoundDurationMs(modeId: PvPModeId): number {
-    switch (modeId) {
-      case 'poop-tag': return 120_000;
-      case 'race': return 90_000;
-      case 'poop-cover': return 75_000;
-      case 'heist': return 180_000;
-      default: return 90_000;
+  /** Private lobbies play the host's round length; public sessions the mode's */
+  private getPvPRoundDurationMs(session: PvPSession): number {
+    return (session.lobby?.settings.roundSeconds ?? PVP_ROUND_SECONDS[session.modeId]) * 1000;
+  }
+
+  /** Players this client sees regardless of distance: PvP opponents and murmuration mates */
+  private getSnapshotRelevance(playerId: string): SnapshotRelevance {
+    const relevance: SnapshotRelevance = {};
+    const session = this.getPvPSessionForPlayer(playerId);
+    const heist = this.heistManager.getMatchForPlayer(playerId);
+    if (heist) relevance.full = new Set(heist.players.keys());
+    else if (session) relevance.full = session.participants;
+    const membership = this.murmurationState.getPlayerMurmuration(playerId);
+    if (membership) {
+      relevance.mid = new Set(this.murmurationState.getOnlineMembers(membership.murmurationId));
     }
+    return relevance;
   }
 
+  /** Joinable lobbies are per shard and mode */
   private getPvPSessionForPlayer(playerId: string): PvPSession | null {
     const sessionId = this.playerPvPSession.get(playerId);
     if (!sessionId) return null;
@@ -1070,7 +2228,7 @@ export class GameServer {
 
   private buildPvPState(session: PvPSession, now: number): any {
     const players = Array.from(session.participants).map((playerId) => {
-      const p = this.world.getPlayer(playerId);
+      const p = this.getPlayer(playerId);
       return {
         id: playerId,
         username: p?.username || playerId,
@@ -1082,6 +2240,7 @@ export class GameServer {
       phase: session.phase,
       timeRemaining: Math.max(0, (session.phaseEndsAt - now) / 1000),
       players,
+      modeData: session.rules?.getModeData() ?? null,
       serverTimestamp: now,
     };
   }
@@ -1091,11 +2250,12 @@ export class GameServer {
     const state = this.buildPvPState(session, now);
     const payload = JSON.stringify({ type: 'pvp-state-update', data: state });
 
-    for (const playerId of session.participants) {
-      const client = this.clients.get(playerId);
-      if (client && client.readyState === WebSocket.OPEN && (client.bufferedAmount || 0) < MAX_BUFFER_SIZE) {
-        client.send(payload);
+    for (const client of this.getPvPSessionSockets(session)) {
+      if ((client.bufferedAmount || 0) >= MAX_BUFFER_SIZE) {
+        this.metrics.backpressureSkips.inc({ stream: 'pvp' });
+        continue;
       }
+      this.sendRaw(client, payload);
     }
 
     session.lastStateBroadcastAt = now;
@@ -1106,17 +2266,30 @@ export class GameServer {
     message: ServerMessage,
     excludePlayerId?: string,
   ): void {
+    this.shards.get(session.shardId)?.replay?.recordMessage(message);
     const payload = JSON.stringify(message);
+    for (const client of this.getPvPSessionSockets(session)) {
+      if (excludePlayerId && client.playerId === excludePlayerId) continue;
+      if ((client.bufferedAmount || 0) >= MAX_BUFFER_SIZE) {
+        this.metrics.backpressureSkips.inc({ stream: 'pvp' });
+        continue;
+      }
+      this.sendRaw(client, payload);
+    }
+  }
+
+  /** Participants' sockets, then the session's spectators */
+  private getPvPSessionSockets(session: PvPSession): AuthenticatedSocket[] {
+    const sockets: AuthenticatedSocket[] = [];
     for (const playerId of session.participants) {
-      if (excludePlayerId && playerId === excludePlayerId) continue;
       const client = this.clients.get(playerId);
-      if (client && client.readyState === WebSocket.OPEN && (client.bufferedAmount || 0) < MAX_BUFFER_SIZE) {
-        client.send(payload);
-      }
+      if (client) sockets.push(client);
     }
+    return sockets.concat(this.getSpectators('pvp', session.id));
   }
 
   private removePlayerFromPvPSession(playerId: string): void {
+    this.pvpQueue = this.pvpQueue.filter((entry) => entry.playerId !== playerId);
     const sessionId = this.playerPvPSession.get(playerId);
     if (!sessionId) return;
 
@@ -1125,22 +2298,35 @@ export class GameServer {
     if (!session) return;
 
     session.participants.delete(playerId);
+    this.removePvPRulesParticipant(session, playerId);
+    if (session.lobby) {
+      if (session.lobby.heistMatchId) this.heistManager.leaveMatch(playerId);
+      this.sendToPlayer(playerId, { type: 'pvp-lobby', data: null });
+    }
 
     if (session.participants.size === 0) {
-      this.pvpSessions.delete(sessionId);
-      // Also remove from mode index if this was the active session.
-      if (this.pvpActiveByMode.get(session.modeId) === sessionId) {
-        this.pvpActiveByMode.delete(session.modeId);
-      }
+      this.deletePvPSession(session);
       return;
     }
 
     // Keep session alive with remaining players.
+    if (session.lobby) this.updatePvPLobbyRoster(session);
     this.broadcastPvPState(session);
   }
 
+  /** Forget a session and its lobby/code indexes; remaining participants are let go */
+  private deletePvPSession(session: PvPSession): void {
+    for (const participantId of session.participants) {
+      this.playerPvPSession.delete(participantId);
+      if (session.lobby) this.sendToPlayer(participantId, { type: 'pvp-lobby', data: null });
+    }
+    this.pvpSessions.delete(session.id);
+    if (session.lobby) this.pvpLobbyCodes.delete(session.lobby.code);
+  }
+
+  /** Queue for a public round; the matchmaker seats the player once a lobby fills or the queue times out */
   private handlePvPJoin(ws: AuthenticatedSocket, data: any): void {
-    if (!ws.playerId) return;
+    if (!ws.playerId || !ws.shard) return;
 
     const modeIdRaw = typeof data?.modeId === 'string' ? data.modeId.trim() : '';
     if (!this.isPvPModeId(modeIdRaw)) {
@@ -1148,43 +2334,82 @@ export class GameServer {
       return;
     }
     const modeId = modeIdRaw;
-    const now = Date.now();
+    const playerId = ws.playerId;
 
-    // Leave previous session first if switching modes.
-    const existingSessionId = this.playerPvPSession.get(ws.playerId);
-    if (existingSessionId) {
-      const existingSession = this.pvpSessions.get(existingSessionId);
-      if (!existingSession || existingSession.modeId !== modeId) {
-        this.removePlayerFromPvPSession(ws.playerId);
-      } else {
-        // Already in a lobby/countdown for this mode — no-op.
-        if (existingSession.phase === 'lobby' || existingSession.phase === 'countdown') {
-          return;
-        }
-      }
+    // Public heists are played as heist manager matches, never as PvP sessions
+    const heistFormat = getHeistFormatByMode(modeId);
+    if (heistFormat) {
+      this.removePlayerFromPvPSession(playerId);
+      this.heistManager.addToQueue(playerId, ws.shard.id, heistFormat.id);
+      return;
+    }
+
+    // Already queued or seated for this mode — no-op.
+    if (this.pvpQueue.some((entry) => entry.playerId === playerId && entry.modeId === modeId)) return;
+    const existingSession = this.getPvPSessionForPlayer(playerId);
+    if (existingSession && existingSession.modeId === modeId && !existingSession.lobby
+      && (existingSession.phase === 'lobby' || existingSession.phase === 'countdown')) {
+      return;
     }
 
-    // Find the current joinable session for this mode (lobby or countdown only).
-    const activeSessionId = this.pvpActiveByMode.get(modeId);
-    let session = activeSessionId ? this.pvpSessions.get(activeSessionId) : undefined;
+    // Leave any previous session or queue first if switching modes.
+    this.removePlayerFromPvPSession(playerId);
+    this.pvpQueue.push({ playerId, shardId: ws.shard.id, modeId, queuedAt: Date.now() });
 
-    // If the active session is already running or finishing, create a new lobby.
-    if (!session || session.phase === 'active' || session.phase === 'results') {
-      const sessionId = `${modeId}_${now}`;
-      session = {
-        id: sessionId,
-        modeId,
-        phase: 'lobby',
-        participants: new Set<string>(),
-        phaseEndsAt: now + PVP_LOBBY_DURATION_MS,
-        lastStateBroadcastAt: 0,
-      };
-      this.pvpSessions.set(sessionId, session);
-      this.pvpActiveByMode.set(modeId, sessionId);
+    this.ratings.load(playerId, modeId)
+      .then(() => this.matchPvPQueue())
+      .catch((err) => log.error('PvP matchmaking failed', { err }));
+  }
+
+  /**
+   * Seat queued players in public rounds. Each shard and mode's queue is sorted
+   * by rating and cut into lobbies of the mode's capacity as soon as they fill;
+   * once the longest wait passes PVP_QUEUE_TIMEOUT_MS, whoever is left starts
+   * anyway, a lone player included.
+   */
+  private matchPvPQueue(): void {
+    const now = Date.now();
+    // Entries go stale when a player drops or moves worlds before being seated
+    this.pvpQueue = this.pvpQueue.filter((entry) => this.clients.get(entry.playerId)?.shard?.id === entry.shardId);
+
+    const groups = new Map<string, PvPQueueEntry[]>();
+    for (const entry of this.pvpQueue) {
+      const key = `${entry.shardId}/${entry.modeId}`;
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
     }
 
-    session.participants.add(ws.playerId);
-    this.playerPvPSession.set(ws.playerId, session.id);
+    for (const entries of groups.values()) {
+      const { shardId, modeId } = entries[0];
+      const capacity = getPvPLobbyPlayerRange(modeId).max;
+      // Queue order is arrival order, so the first entry has waited longest
+      const timedOut = now - entries[0].queuedAt >= PVP_QUEUE_TIMEOUT_MS;
+      const ranked = entries
+        .map((entry) => ({ id: entry.playerId, rating: this.ratings.peek(entry.playerId, modeId).rating }))
+        .sort((a, b) => a.rating - b.rating)
+        .map((candidate) => candidate.id);
+
+      for (let start = 0; start < ranked.length; start += capacity) {
+        const lobby = ranked.slice(start, start + capacity);
+        if (lobby.length < capacity && !timedOut) break;
+        this.pvpQueue = this.pvpQueue.filter((entry) => !lobby.includes(entry.playerId));
+        this.startPublicPvPSession(shardId, modeId, lobby, now);
+      }
+    }
+  }
+
+  private startPublicPvPSession(shardId: string, modeId: PvPModeId, playerIds: string[], now: number): void {
+    const session: PvPSession = {
+      id: `${shardId}_${modeId}_${now}_${playerIds[0]}`,
+      shardId,
+      modeId,
+      phase: 'lobby',
+      participants: new Set(playerIds),
+      phaseEndsAt: now + PVP_LOBBY_DURATION_MS,
+      lastStateBroadcastAt: 0,
+      rules: null,
+    };
+    this.pvpSessions.set(session.id, session);
+    for (const id of playerIds) this.playerPvPSession.set(id, session.id);
     this.broadcastPvPState(session);
   }
 
@@ -1196,124 +2421,733 @@ export class GameServer {
   private handlePvPTagTransfer(ws: AuthenticatedSocket, data: any): void {
     if (!ws.playerId) return;
     const session = this.getPvPSessionForPlayer(ws.playerId);
-    if (!session || session.phase !== 'active') return;
+    if (!session || session.phase !== 'active' || !session.rules) return;
 
     const targetId = typeof data?.to === 'string' ? data.to : typeof data?.targetId === 'string' ? data.targetId : '';
-    if (!targetId || !session.participants.has(targetId)) return;
+    if (!targetId) return;
 
-    this.broadcastToPvPSession(session, {
-      type: 'pvp-tag-transfer',
-      data: { from: ws.playerId, to: targetId },
-    });
+    const message = session.rules.claimTagTransfer(ws.playerId, targetId, Date.now());
+    if (message) this.broadcastToPvPSession(session, message);
   }
 
   private handlePvPCheckpoint(ws: AuthenticatedSocket, data: any): void {
     if (!ws.playerId) return;
-    const session = this.getPvPSessionForPlayer(ws.playerId);
-    if (!session || session.phase !== 'active') return;
-
     const checkpoint = Number(data?.checkpoint);
-    if (!Number.isFinite(checkpoint)) return;
+    if (!Number.isInteger(checkpoint)) return;
 
-    this.broadcastToPvPSession(session, {
-      type: 'pvp-checkpoint',
-      data: { playerId: ws.playerId, checkpoint },
-    });
+    const session = this.getPvPSessionForPlayer(ws.playerId);
+    if (!session) {
+      // Outside PvP sessions, checkpoints can still score for an MvM team race
+      this.mvmManager.handleCheckpoint(ws.playerId, checkpoint, Date.now());
+      return;
+    }
+    if (session.phase !== 'active' || !session.rules) return;
+
+    const message = session.rules.claimCheckpoint(ws.playerId, checkpoint, Date.now());
+    if (message) this.broadcastToPvPSession(session, message);
   }
 
   private handlePvPStatueHit(ws: AuthenticatedSocket, data: any): void {
     if (!ws.playerId) return;
     const session = this.getPvPSessionForPlayer(ws.playerId);
-    if (!session || session.phase !== 'active') return;
+    if (!session) {
+      this.mvmManager.handleStatueHit(ws.playerId, data?.hitPosition, Date.now());
+      return;
+    }
+    if (session.phase !== 'active' || !session.rules) return;
 
-    this.broadcastToPvPSession(session, {
-      type: 'pvp-hit',
-      data: {
-        playerId: ws.playerId,
-        points: Number(data?.points) || 0,
-        accuracy: Number(data?.accuracy) || 0,
-        hitPosition: data?.hitPosition || null,
-      },
+    // Points are the server's call; only the hit position is taken from the client
+    const message = session.rules.claimStatueHit(ws.playerId, data?.hitPosition, Date.now());
+    if (message) this.broadcastToPvPSession(session, message);
+  }
+
+  /** Rate a finished round by its standings; everyone is rated against everyone else */
+  private ratePvPRound(results: PvPResultsData): void {
+    const sides = results.standings.map((standing) => ({ ids: [standing.playerId], rank: standing.rank }));
+    this.ratings.recordResult(results.modeId, sides).catch((err) => {
+      log.error('Failed to rate PvP round', { mode: results.modeId, err });
     });
   }
 
+  /** Keep the round's rules in step with the roster (e.g. hand off the tag when "it" leaves) */
+  private removePvPRulesParticipant(session: PvPSession, playerId: string): void {
+    if (session.phase !== 'active' || !session.rules) return;
+    const message = session.rules.removeParticipant(playerId);
+    if (message && session.participants.size > 0) this.broadcastToPvPSession(session, message);
+  }
+
   private updatePvPSessions(): void {
     const now = Date.now();
 
     for (const [sessionId, session] of this.pvpSessions) {
       // Prune disconnected players.
+      let pruned = false;
       for (const participantId of Array.from(session.participants)) {
         if (!this.clients.has(participantId)) {
           session.participants.delete(participantId);
           this.playerPvPSession.delete(participantId);
+          this.removePvPRulesParticipant(session, participantId);
+          pruned = true;
         }
       }
 
       if (session.participants.size === 0) {
-        this.pvpSessions.delete(sessionId);
-        if (this.pvpActiveByMode.get(session.modeId) === sessionId) {
-          this.pvpActiveByMode.delete(session.modeId);
-        }
+        this.deletePvPSession(session);
         continue;
       }
+      if (pruned && session.lobby) this.updatePvPLobbyRoster(session);
+
+      if (session.phase === 'active') {
+        session.rules?.update(now);
+      }
 
       let phaseChanged = false;
-      if (session.phase === 'lobby' && now >= session.phaseEndsAt) {
+      if (session.phase === 'lobby' && (session.lobby ? this.isPvPLobbyReady(session) : now >= session.phaseEndsAt)) {
         session.phase = 'countdown';
         session.phaseEndsAt = now + PVP_COUNTDOWN_DURATION_MS;
         phaseChanged = true;
-      } else if (session.phase === 'countdown' && now >= session.phaseEndsAt) {
-        session.phase = 'active';
-        session.phaseEndsAt = now + this.getPvPRoundDurationMs(session.modeId);
+      } else if (session.phase === 'countdown' && session.lobby && !this.isPvPLobbyReady(session)) {
+        // Someone un-readied, joined or left mid-countdown: back to the ready-check
+        session.phase = 'lobby';
+        session.phaseEndsAt = now;
         phaseChanged = true;
+      } else if (session.phase === 'countdown' && now >= session.phaseEndsAt) {
+        if (session.lobby && isHeistModeId(session.modeId)) {
+          phaseChanged = this.startPrivateHeist(session, now);
+        } else {
+          session.phase = 'active';
+          session.phaseEndsAt = now + this.getPvPRoundDurationMs(session);
+          phaseChanged = true;
+          session.rules = createPvPModeRules(session.modeId, (id) => this.getPlayer(id), {
+            routeIndex: session.lobby?.settings.routeIndex,
+            customRoute: session.lobby?.customRoute && session.lobby.settings.routeCode
+              ? { route: session.lobby.customRoute, code: session.lobby.settings.routeCode }
+              : null,
+          });
+          session.rules?.start(Array.from(session.participants), now);
 
-        this.broadcastToPvPSession(session, {
-          type: 'pvp-mode-start',
-          data: this.buildPvPState(session, now),
-        });
-      } else if (session.phase === 'active' && now >= session.phaseEndsAt) {
+          this.broadcastToPvPSession(session, {
+            type: 'pvp-mode-start',
+            data: this.buildPvPState(session, now),
+          });
+        }
+      } else if (session.phase === 'active' && (now >= session.phaseEndsAt || session.rules?.isComplete())) {
         session.phase = 'results';
         session.phaseEndsAt = now + PVP_RESULTS_DURATION_MS;
         phaseChanged = true;
 
-        // Open a new lobby so late joiners can queue for the next round.
-        if (this.pvpActiveByMode.get(session.modeId) === sessionId) {
-          this.pvpActiveByMode.delete(session.modeId);
-        }
-
+        const results = session.rules?.getResults(now) ?? null;
         this.broadcastToPvPSession(session, {
           type: 'pvp-mode-end',
           data: {
             mode: session.modeId,
-            results: { reason: 'time-up' },
+            results: results ?? { reason: 'time-up' },
           },
         });
+        // Private lobbies pick their own rules, so their rounds are never rated
+        if (results && !session.lobby) this.ratePvPRound(results);
+        if (session.tournament) this.tournaments.reportResult(sessionId, results?.standings[0]?.playerId ?? null);
+        session.rules = null;
       } else if (session.phase === 'results' && now >= session.phaseEndsAt) {
-        for (const participantId of session.participants) {
-          this.playerPvPSession.delete(participantId);
-        }
-        this.pvpSessions.delete(sessionId);
-        if (this.pvpActiveByMode.get(session.modeId) === sessionId) {
-          this.pvpActiveByMode.delete(session.modeId);
+        if (!session.lobby) {
+          this.deletePvPSession(session);
+          continue;
         }
-        continue;
+        // Private lobbies stay open under the same code for another round
+        session.phase = 'lobby';
+        session.phaseEndsAt = now;
+        session.lobby.ready.clear();
+        session.lobby.heistMatchId = null;
+        phaseChanged = true;
       }
 
+      if (phaseChanged && session.lobby) this.broadcastPvPLobby(session);
       if (phaseChanged || now - session.lastStateBroadcastAt >= PVP_STATE_BROADCAST_INTERVAL_MS) {
         this.broadcastPvPState(session);
       }
     }
   }
 
+  // --- Private PvP Lobbies ---
+
+  private buildPvPLobbyView(session: PvPSession, lobby: PrivatePvPLobby): PvPLobbyView {
+    return {
+      code: lobby.code,
+      worldId: session.shardId,
+      hostId: lobby.hostId,
+      phase: session.phase,
+      settings: lobby.settings,
+      members: Array.from(session.participants).map((id) => ({
+        id,
+        username: this.getPlayer(id)?.username || id,
+        ready: lobby.ready.has(id),
+      })),
+    };
+  }
+
+  private broadcastPvPLobby(session: PvPSession): void {
+    if (!session.lobby) return;
+    const message: ServerMessage = { type: 'pvp-lobby', data: this.buildPvPLobbyView(session, session.lobby) };
+    for (const playerId of session.participants) this.sendToPlayer(playerId, message);
+  }
+
+  /** After someone leaves: drop their ready flag and hand the lobby on if they were hosting */
+  private updatePvPLobbyRoster(session: PvPSession): void {
+    const lobby = session.lobby;
+    if (!lobby) return;
+    for (const id of lobby.ready) {
+      if (!session.participants.has(id)) lobby.ready.delete(id);
+    }
+    if (!session.participants.has(lobby.hostId)) {
+      lobby.hostId = session.participants.values().next().value ?? lobby.hostId;
+    }
+    this.broadcastPvPLobby(session);
+  }
+
+  /** Everyone is ready and there are enough players (or bots) to play the mode */
+  private isPvPLobbyReady(session: PvPSession): boolean {
+    const lobby = session.lobby;
+    if (!lobby || session.participants.size === 0) return false;
+    for (const id of session.participants) {
+      if (!lobby.ready.has(id)) return false;
+    }
+    const format = getHeistFormatByMode(session.modeId);
+    if (format) return lobby.settings.botFill || session.participants.size >= format.minPlayers;
+    return session.participants.size >= PVP_LOBBY_LIMITS.MIN_PLAYERS;
+  }
+
+  /**
+   * Hand a ready heist lobby to the heist manager with the host's rules. The
+   * session stays active until the match ends (finishPrivateHeist); returns
+   * false, with the lobby back at its ready-check, when the match cannot start.
+   */
+  private startPrivateHeist(session: PvPSession, now: number): boolean {
+    const lobby = session.lobby!;
+    const format = getHeistFormatByMode(session.modeId)!;
+    const playerIds = Array.from(session.participants);
+    const seats = lobby.settings.botFill ? Math.max(format.minPlayers, lobby.settings.maxPlayers) : playerIds.length;
+
+    for (const id of playerIds) this.heistManager.removeFromQueue(id);
+    const matchId = this.heistManager.startMatch(format, playerIds, Math.max(0, seats - playerIds.length), {
+      timeLimit: lobby.settings.roundSeconds,
+      slams: lobby.settings.abilities.slams,
+      passing: lobby.settings.abilities.passing,
+      // Private lobbies pick their own opponents and round length, so they pay nothing
+      rated: false,
+      rewarded: false,
+    });
+    if (!matchId) {
+      session.phase = 'lobby';
+      session.phaseEndsAt = now;
+      lobby.ready.clear();
+      this.sendToPlayer(lobby.hostId, { type: 'error', data: { message: 'Could not start the heist: someone is still in another match' } });
+      return true;
+    }
+
+    lobby.heistMatchId = matchId;
+    session.phase = 'active';
+    // Overtime can run past the clock; the match ending is what closes the round
+    session.phaseEndsAt = now + this.getPvPRoundDurationMs(session) + PVP_PRIVATE_HEIST_GRACE_MS;
+    return true;
+  }
+
+  private getPrivateHeistSession(matchId: string): PvPSession | null {
+    for (const session of this.pvpSessions.values()) {
+      if (session.lobby?.heistMatchId === matchId) return session;
+    }
+    return null;
+  }
+
+  /** A private lobby's heist is over: its session moves to results on the next tick */
+  private finishPrivateHeist(matchId: string): void {
+    const session = this.getPrivateHeistSession(matchId);
+    if (session?.phase === 'active') session.phaseEndsAt = Date.now();
+  }
+
+  /** Checks a host's settings against the shard and, for a custom race route, decodes it */
+  private resolvePvPLobbyRoute(ws: AuthenticatedSocket, settings: PvPLobbySettings): RaceRouteData | null | false {
+    if (!settings.routeCode) return null;
+    const checked = this.checkRaceRouteCode(settings.routeCode, ws.shard!);
+    if (typeof checked === 'string') {
+      this.sendError(ws, checked);
+      return false;
+    }
+    return checked;
+  }
+
+  private handlePvPLobbyCreate(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.playerId || !ws.shard) return;
+
+    const settings = applyPvPLobbySettings(defaultPvPLobbySettings(), data?.settings);
+    const customRoute = this.resolvePvPLobbyRoute(ws, settings);
+    if (customRoute === false) return;
+
+    let code = generatePvPLobbyCode();
+    while (this.pvpLobbyCodes.has(code)) code = generatePvPLobbyCode();
+
+    this.removePlayerFromPvPSession(ws.playerId);
+    const now = Date.now();
+    const session: PvPSession = {
+      id: `${ws.shard.id}_lobby_${code}_${now}`,
+      shardId: ws.shard.id,
+      modeId: settings.modeId,
+      phase: 'lobby',
+      participants: new Set([ws.playerId]),
+      phaseEndsAt: now,
+      lastStateBroadcastAt: 0,
+      rules: null,
+      lobby: { code, hostId: ws.playerId, settings, ready: new Set(), customRoute, heistMatchId: null },
+    };
+    this.pvpSessions.set(session.id, session);
+    this.pvpLobbyCodes.set(code, session.id);
+    this.playerPvPSession.set(ws.playerId, session.id);
+
+    this.broadcastPvPLobby(session);
+    this.broadcastPvPState(session);
+  }
+
+  private handlePvPLobbyJoin(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.playerId || !ws.shard) return;
+
+    const code = normalizePvPLobbyCode(data?.code);
+    const sessionId = code ? this.pvpLobbyCodes.get(code) : undefined;
+    const session = sessionId ? this.pvpSessions.get(sessionId) : undefined;
+    if (!session?.lobby) {
+      this.sendError(ws, 'No lobby with that code');
+      return;
+    }
+    if (session.participants.has(ws.playerId)) {
+      this.broadcastPvPLobby(session);
+      return;
+    }
+    // Opponents must share a world, so the invite names the one to switch to
+    if (session.shardId !== ws.shard.id) {
+      const world = this.shards.get(session.shardId)?.name ?? session.shardId;
+      this.sendError(ws, `Lobby ${session.lobby.code} is in ${world}; switch worlds to join`);
+      return;
+    }
+    if (session.phase === 'active') {
+      this.sendError(ws, 'That lobby is mid-round; try again when it ends');
+      return;
+    }
+    if (session.participants.size >= session.lobby.settings.maxPlayers) {
+      this.sendError(ws, 'That lobby is full');
+      return;
+    }
+
+    this.removePlayerFromPvPSession(ws.playerId);
+    session.participants.add(ws.playerId);
+    this.playerPvPSession.set(ws.playerId, session.id);
+    this.broadcastPvPLobby(session);
+    this.broadcastPvPState(session);
+  }
+
+  /** The lobby this socket hosts, or null after telling it why not */
+  private getHostedPvPLobby(ws: AuthenticatedSocket): PvPSession | null {
+    if (!ws.playerId) return null;
+    const session = this.getPvPSessionForPlayer(ws.playerId);
+    if (!session?.lobby) {
+      this.sendError(ws, 'You are not in a private lobby');
+      return null;
+    }
+    if (session.lobby.hostId !== ws.playerId) {
+      this.sendError(ws, 'Only the host can do that');
+      return null;
+    }
+    return session;
+  }
+
+  private handlePvPLobbySettings(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.shard) return;
+    const session = this.getHostedPvPLobby(ws);
+    if (!session?.lobby) return;
+    if (session.phase === 'active') {
+      this.sendError(ws, 'Settings can be changed between rounds');
+      return;
+    }
+
+    const settings = applyPvPLobbySettings(session.lobby.settings, data?.settings);
+    if (settings.maxPlayers < session.participants.size) {
+      this.sendError(ws, `The lobby already has ${session.participants.size} players`);
+      return;
+    }
+    const customRoute = this.resolvePvPLobbyRoute(ws, settings);
+    if (customRoute === false) return;
+
+    session.lobby.settings = settings;
+    session.lobby.customRoute = customRoute;
+    session.modeId = settings.modeId;
+    // Everyone agrees to the new rules again
+    session.lobby.ready.clear();
+    if (session.phase === 'countdown') {
+      session.phase = 'lobby';
+      session.phaseEndsAt = Date.now();
+    }
+    this.broadcastPvPLobby(session);
+    this.broadcastPvPState(session);
+  }
+
+  private handlePvPLobbyReady(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.playerId) return;
+    const session = this.getPvPSessionForPlayer(ws.playerId);
+    if (!session?.lobby || (session.phase !== 'lobby' && session.phase !== 'countdown')) return;
+
+    if (data?.ready === false) session.lobby.ready.delete(ws.playerId);
+    else session.lobby.ready.add(ws.playerId);
+    this.broadcastPvPLobby(session);
+  }
+
+  private handlePvPLobbyKick(ws: AuthenticatedSocket, data: any): void {
+    const session = this.getHostedPvPLobby(ws);
+    const targetId = typeof data?.playerId === 'string' ? data.playerId : '';
+    if (!session || targetId === ws.playerId || !session.participants.has(targetId)) return;
+
+    this.removePlayerFromPvPSession(targetId);
+    this.sendToPlayer(targetId, { type: 'pvp-mode-end', data: { mode: session.modeId, results: { reason: 'kicked' } } });
+  }
+
+  // --- Tournaments ---
+
+  private handleTournamentRegister(ws: AuthenticatedSocket): void {
+    if (!ws.playerId || !ws.shard) return;
+    const player = ws.shard.world.getPlayer(ws.playerId);
+    if (!player) return;
+    const error = this.tournaments.register(ws.shard.id, ws.playerId, player.username);
+    if (error) this.sendError(ws, error);
+  }
+
+  /** Leave a tournament: before it starts this just unregisters, afterwards it forfeits */
+  private handleTournamentWithdraw(ws: AuthenticatedSocket): void {
+    if (!ws.playerId) return;
+    this.tournaments.withdraw(ws.playerId);
+  }
+
+  /**
+   * /tournament open <single|swiss> <poop-tag|race|poop-cover|heist> [rating|level] [minutes] [name…]
+   * /tournament start | cancel | status | forfeit <username>
+   * All act on the tournament in the admin's own world.
+   */
+  private handleTournamentCommand(ws: AuthenticatedSocket, adminName: string, shard: WorldShard, args: string[]): void {
+    const sub = (args[0] ?? '').toLowerCase();
+    const current = this.tournaments.getForShard(shard.id);
+
+    switch (sub) {
+      case 'open': {
+        const formatArg = (args[1] ?? '').toLowerCase();
+        const format = formatArg === 'single' ? 'single-elim' : formatArg;
+        const game = (args[2] ?? '').toLowerCase();
+        if (!isTournamentFormatId(format) || !isTournamentGame(game)) {
+          this.adminReply(ws, 'Usage: /tournament open <single|swiss> <poop-tag|race|poop-cover|heist> [rating|level] [minutes] [name]');
+          break;
+        }
+        if (current) { this.adminReply(ws, `${current.name} is already ${current.phase === 'running' ? 'running' : 'open'} in this world`); break; }
+
+        let rest = args.slice(3);
+        const seeding = rest[0]?.toLowerCase() === 'level' ? 'level' : 'rating';
+        if (rest[0]?.toLowerCase() === 'level' || rest[0]?.toLowerCase() === 'rating') rest = rest.slice(1);
+        let minutes = TOURNAMENT_DEFAULT_REGISTRATION_MIN;
+        if (rest.length > 0 && /^\d+$/.test(rest[0])) {
+          minutes = Math.max(1, Math.min(TOURNAMENT_MAX_REGISTRATION_MIN, parseInt(rest[0], 10)));
+          rest = rest.slice(1);
+        }
+        const name = rest.join(' ').slice(0, 40) || `${TOURNAMENT_GAME_NAMES[game]} ${TOURNAMENT_FORMAT_NAMES[format]}`;
+
+        this.tournaments.open(shard.id, { name, format, game, seeding, registrationMs: minutes * 60_000 });
+        adminLog.info('Opened tournament', { admin: adminName, shard: shard.id, name, format, game });
+        this.adminReply(ws, `Opened ${name}: registration closes in ${minutes} min, seeded by ${seeding}`);
+        break;
+      }
+
+      case 'start': {
+        if (!current || current.phase !== 'registration') { this.adminReply(ws, 'No tournament is taking registrations here'); break; }
+        if (this.tournaments.start(current.id)) {
+          adminLog.info('Started tournament', { admin: adminName, tournamentId: current.id, name: current.name });
+          this.adminReply(ws, `Started ${current.name} with ${current.entrants.length} entrants`);
+        } else {
+          this.adminReply(ws, `${current.name} was cancelled: it needs at least 2 entrants`);
+        }
+        break;
+      }
+
+      case 'cancel': {
+        if (!current) { this.adminReply(ws, 'No tournament to cancel here'); break; }
+        this.tournaments.cancel(current.id);
+        adminLog.info('Cancelled tournament', { admin: adminName, tournamentId: current.id, name: current.name });
+        this.adminReply(ws, `Cancelled ${current.name}`);
+        break;
+      }
+
+      case 'status': {
+        const view = current ?? this.tournaments.getViewForShard(shard.id);
+        if (!view) { this.adminReply(ws, 'No tournament in this world'); break; }
+        const nameOf = (id: string | null) => view.entrants.find((e) => e.id === id)?.username ?? 'TBD';
+        const live = view.matches
+          .filter((m) => m.round === view.round && m.status !== 'done')
+          .map((m) => `${nameOf(m.playerIds[0])} v ${nameOf(m.playerIds[1])}${m.status === 'live' ? ' (live)' : ''}`);
+        this.adminReply(ws,
+          `${view.name} — ${view.phase} | Round ${view.round}/${view.totalRounds} | ` +
+          `Entrants: ${view.entrants.length} | ${view.winnerId ? `Winner: ${nameOf(view.winnerId)}` : `Playing: ${live.join(', ') || 'none'}`}`,
+        );
+        break;
+      }
+
+      case 'forfeit': {
+        const targetName = args[1];
+        if (!targetName) { this.adminReply(ws, 'Usage: /tournament forfeit <username>'); break; }
+        const targetId = this.findPlayerIdByUsername(targetName);
+        if (!targetId || !this.tournaments.withdraw(targetId)) { this.adminReply(ws, `${targetName} is not playing a tournament`); break; }
+        adminLog.info('Removed player from tournament', { admin: adminName, playerId: targetId, username: targetName });
+        this.adminReply(ws, `${targetName} forfeits and is out of the tournament`);
+        break;
+      }
+
+      default:
+        this.adminReply(ws, 'Usage: /tournament <open|start|cancel|status|forfeit>');
+    }
+  }
+
+  /**
+   * Start a bracket match: 1v1 Heist goes through the heist manager, other
+   * modes get a private PvP session that skips the shared lobby. Returns
+   * null while either player is away or still finishing another match.
+   */
+  private launchTournamentMatch(game: TournamentGame, shardId: string, playerIds: [string, string]): string | null {
+    if (playerIds.some((id) => this.clients.get(id)?.shard?.id !== shardId)) return null;
+
+    if (game === 'heist') {
+      for (const id of playerIds) {
+        this.heistManager.removeFromQueue(id);
+        this.removePlayerFromPvPSession(id);
+      }
+      return this.heistManager.startMatch(HEIST_FORMATS['1v1'], playerIds, 0);
+    }
+
+    for (const id of playerIds) this.removePlayerFromPvPSession(id);
+    const now = Date.now();
+    const session: PvPSession = {
+      id: `${shardId}_${game}_${now}_${playerIds[0]}`,
+      shardId,
+      modeId: game,
+      phase: 'lobby',
+      participants: new Set(playerIds),
+      phaseEndsAt: now + PVP_LOBBY_DURATION_MS,
+      lastStateBroadcastAt: 0,
+      rules: null,
+      tournament: true,
+    };
+    this.pvpSessions.set(session.id, session);
+    for (const id of playerIds) this.playerPvPSession.set(id, session.id);
+    this.broadcastPvPState(session);
+    return session.id;
+  }
+
+  /** End a bracket match early; the opponent has already been given the win */
+  private abortTournamentMatch(game: TournamentGame, handle: string, loserId: string): void {
+    if (game === 'heist') {
+      this.heistManager.leaveMatch(loserId);
+      return;
+    }
+
+    const session = this.pvpSessions.get(handle);
+    if (!session) return;
+    this.broadcastToPvPSession(session, {
+      type: 'pvp-mode-end',
+      data: { mode: session.modeId, results: { reason: 'forfeit' } },
+    });
+    this.deletePvPSession(session);
+  }
+
+  // --- Spectators ---
+
+  /**
+   * Watch a PvP round, heist or MvM match without joining: the connection gets
+   * the world and the match's messages but no Player, so it never counts
+   * towards shard capacity or bot fill. Works mid-round, and a spectator can
+   * switch matches by sending `spectate` again.
+   */
+  private handleSpectate(ws: AuthenticatedSocket, data: any): void {
+    if (ws.playerId) {
+      this.sendError(ws, 'Leave the world before spectating');
+      return;
+    }
+
+    const kind = data?.kind as SpectateKind;
+    const matchId = typeof data?.matchId === 'string' ? data.matchId : '';
+    const target: SpectateTarget = { kind, matchId };
+    const match = SPECTATE_KINDS.includes(kind) ? this.getSpectatedMatch(target) : null;
+    if (!match) {
+      this.sendError(ws, 'Match not found');
+      return;
+    }
+
+    ws.spectating = target;
+    ws.spectatorFocus = undefined;
+    ws.shard = match.shard;
+    // Spectators never send updates to ack binary deltas against, so they get JSON state
+    ws.stateEncoder = undefined;
+    this.spectators.add(ws);
+
+    // Everything needed to pick the match up mid-round: the world as it is now and the scoreboard
+    const world = match.shard.world;
+    this.send(ws, {
+      type: 'spectate_welcome',
+      data: {
+        worldId: match.shard.id,
+        worldName: match.shard.name,
+        worldSeed: world.city.seed,
+        worldState: world.getSnapshot(),
+        match: match.state,
+      },
+    });
+  }
+
+  /** Centre the spectator's snapshots on the participant their camera follows */
+  private handleSpectateFocus(ws: AuthenticatedSocket, data: any): void {
+    if (!ws.spectating) return;
+    ws.spectatorFocus = typeof data?.playerId === 'string' ? data.playerId : undefined;
+  }
+
+  private stopSpectating(ws: AuthenticatedSocket): void {
+    if (!ws.spectating) return;
+    this.spectators.delete(ws);
+    ws.spectating = undefined;
+    ws.spectatorFocus = undefined;
+    ws.shard = undefined;
+  }
+
+  private getSpectators(kind: SpectateKind, matchId: string): AuthenticatedSocket[] {
+    return Array.from(this.spectators).filter(
+      (ws) => ws.spectating?.kind === kind && ws.spectating.matchId === matchId,
+    );
+  }
+
+  /**
+   * A watchable match's scoreboard and the shard it is played in; null once it
+   * is over. Private lobbies and their heists are only visible to admins.
+   */
+  private getSpectatedMatch(
+    target: SpectateTarget,
+    includePrivate = false,
+  ): { state: SpectatedMatchState; shard: WorldShard } | null {
+    if (target.kind === 'pvp') {
+      const session = this.pvpSessions.get(target.matchId);
+      if (session?.lobby && !includePrivate) return null;
+      const shard = session && this.shards.get(session.shardId);
+      return session && shard ? { state: this.buildPvPSpectatorState(session, Date.now()), shard } : null;
+    }
+
+    if (target.kind === 'heist' && !includePrivate && this.getPrivateHeistSession(target.matchId)) return null;
+    const state = target.kind === 'heist'
+      ? this.heistManager.getSpectatorState(target.matchId)
+      : this.mvmManager.getSpectatorState(target.matchId);
+    // Spectators watch the world of the first player still connected
+    const shard = state?.participants
+      .map((p) => this.clients.get(p.id)?.shard)
+      .find((s): s is WorldShard => s !== undefined);
+    return state && shard ? { state, shard } : null;
+  }
+
+  private buildPvPSpectatorState(session: PvPSession, now: number): SpectatedMatchState {
+    const scores = new Map((session.rules?.getResults(now).standings ?? []).map((s) => [s.playerId, s.score]));
+    return {
+      kind: 'pvp',
+      matchId: session.id,
+      mode: session.modeId,
+      phase: session.phase,
+      timeRemaining: Math.max(0, (session.phaseEndsAt - now) / 1000),
+      participants: Array.from(session.participants).map((id) => ({
+        id,
+        username: this.getPlayer(id)?.username || id,
+        team: null,
+        score: scores.get(id) ?? 0,
+        isBot: false,
+      })),
+      teamScores: null,
+    };
+  }
+
+  /** Matches in progress, for the lobby listing */
+  private getSpectatableMatches(): SpectatableMatch[] {
+    const targets: SpectateTarget[] = [
+      ...Array.from(this.pvpSessions.values())
+        .filter((session) => session.phase !== 'results')
+        .map((session): SpectateTarget => ({ kind: 'pvp', matchId: session.id })),
+      ...this.heistManager.getLiveMatchIds().map((matchId): SpectateTarget => ({ kind: 'heist', matchId })),
+      ...this.mvmManager.getLiveMatchIds().map((matchId): SpectateTarget => ({ kind: 'mvm', matchId })),
+    ];
+
+    const matches: SpectatableMatch[] = [];
+    for (const target of targets) {
+      const match = this.getSpectatedMatch(target);
+      if (!match) continue;
+      matches.push({
+        ...target,
+        worldId: match.shard.id,
+        mode: match.state.mode,
+        phase: match.state.phase,
+        participants: match.state.participants.length,
+      });
+    }
+    return matches;
+  }
+
+  /**
+   * Per-tick spectator sends: world state around whoever the camera follows,
+   * with every participant always included, and the scoreboard a few times a
+   * second. Spectators of a match that has ended are told and released.
+   */
+  private sendSpectatorStates(): void {
+    const sendScoreboard = this.tickCount % SPECTATE_STATE_INTERVAL_TICKS === 0;
+
+    for (const spectator of this.spectators) {
+      if (spectator.readyState !== WebSocket.OPEN || !spectator.spectating) continue;
+
+      const match = this.getSpectatedMatch(spectator.spectating);
+      if (!match) {
+        this.send(spectator, { type: 'spectate_ended', data: { ...spectator.spectating } });
+        this.stopSpectating(spectator);
+        continue;
+      }
+
+      if (spectator.bufferedAmount > MAX_BUFFER_SIZE) {
+        this.metrics.backpressureSkips.inc({ stream: 'spectate' });
+        continue;
+      }
+
+      const world = match.shard.world;
+      const watched = new Set(match.state.participants.map((p) => p.id));
+      const focusId = spectator.spectatorFocus && watched.has(spectator.spectatorFocus)
+        ? spectator.spectatorFocus
+        : match.state.participants[0]?.id;
+      const center = focusId
+        ? world.getPlayer(focusId)?.position ?? match.state.botPositions?.[focusId]
+        : undefined;
+
+      this.send(spectator, { type: 'state', data: world.getSpectatorSnapshot(center ?? { x: 0, y: 0, z: 0 }, watched) });
+      if (sendScoreboard) {
+        this.send(spectator, { type: 'spectate_state', data: match.state });
+      }
+    }
+  }
+
   // --- Disconnect ---
 
   private handlePlayerDisconnect(playerId: string): void {
+    const shard = this.clients.get(playerId)?.shard;
+    const username = shard?.world.getPlayer(playerId)?.username ?? 'A player';
+    // Forfeit any tournament match first, while the game it is played in still has both players
+    this.tournaments.handlePlayerDisconnect(playerId);
     this.removePlayerFromPvPSession(playerId);
-    this.world.removePlayer(playerId);
+    shard?.world.removePlayer(playerId);
+    shard?.playerIds.delete(playerId);
     this.clients.delete(playerId);
     this.chatRateLimit.delete(playerId);
-    this.mutedPlayers.delete(playerId);
+    this.lastReportAt.delete(playerId);
+    this.lastWhisperPeer.delete(playerId);
+    this.leaveParty(playerId, username);
     this.frozenPlayers.delete(playerId);
+    this.ledger.evict(playerId);
+    this.ratings.evict(playerId);
 
     // Clean up MvM match/queue for disconnected player
     this.mvmManager.handlePlayerDisconnect(playerId);
@@ -1324,36 +3158,38 @@ export class GameServer {
     // Unregister from Murmuration tracking
     this.murmurationState.unregisterPlayer(playerId);
 
-    this.broadcast({
-      type: 'player_left',
-      data: { playerId },
-    });
+    if (shard) {
+      this.broadcastToShard(shard, {
+        type: 'player_left',
+        data: { playerId },
+      });
+    }
   }
 
   // --- Bot Callbacks ---
 
-  private setupBotCallbacks(): void {
-    this.botManager.onBotJoined = (bot) => {
-      // Broadcast bot join to all real clients (looks like a real player joining)
-      this.broadcast({
+  private setupBotCallbacks(shard: WorldShard): void {
+    shard.botManager.onBotJoined = (bot) => {
+      // Broadcast bot join to the shard's real clients (looks like a real player joining)
+      this.broadcastToShard(shard, {
         type: 'player_joined',
         data: { player: bot.player.toState() },
       });
     };
 
-    this.botManager.onBotLeft = (botId) => {
-      this.broadcast({
+    shard.botManager.onBotLeft = (botId) => {
+      this.broadcastToShard(shard, {
         type: 'player_left',
         data: { playerId: botId },
       });
     };
 
-    this.botManager.onBotPoop = (bot, velocity) => {
+    shard.botManager.onBotPoop = (bot, velocity) => {
       // Register poop for PvP collision tracking
-      this.world.addActivePoop(bot.botId, bot.player.position, velocity);
+      shard.world.addActivePoop(bot.botId, bot.player.position, velocity);
 
-      // Broadcast poop drop to all real clients
-      this.broadcast({
+      // Broadcast poop drop to the shard's real clients
+      this.broadcastToShard(shard, {
         type: 'poop',
         data: {
           playerId: bot.botId,
@@ -1363,12 +3199,12 @@ export class GameServer {
       });
     };
 
-    this.botManager.onBotBank = (bot) => {
-      console.log(`Bot ${bot.player.username} started banking (${bot.player.coins} coins)`);
+    shard.botManager.onBotBank = (bot) => {
+      log.debug('Bot started banking', { botId: bot.botId, username: bot.player.username, coins: bot.player.coins });
     };
 
-    this.botManager.onBotBankComplete = (bot) => {
-      this.broadcast({
+    shard.botManager.onBotBankComplete = (bot) => {
+      this.broadcastToShard(shard, {
         type: 'player_banked',
         data: {
           playerId: bot.botId,
@@ -1376,61 +3212,96 @@ export class GameServer {
           xp: 0,
         },
       });
-      console.log(`Bot ${bot.player.username} banked coins`);
+      log.debug('Bot banked', { botId: bot.botId, username: bot.player.username });
     };
 
-    this.botManager.onBotChat = (botId, username, message) => {
+    shard.botManager.onBotChat = (botId, username, message, channel) => {
       const chatMsg: ChatMessage = {
         playerId: botId,
         username,
         message,
         timestamp: Date.now(),
+        channel,
       };
-      this.broadcast({
-        type: 'chat',
-        data: chatMsg,
-      });
+      // A bot answering a proximity line answers only those close by
+      const position = channel === 'proximity' ? shard.world.getPlayer(botId)?.position : undefined;
+      if (position) {
+        for (const id of shard.world.getPlayerIdsNear(position, PROXIMITY_CHAT_RADIUS)) {
+          this.sendToPlayer(id, { type: 'chat', data: chatMsg });
+        }
+      } else {
+        this.broadcastToShard(shard, {
+          type: 'chat',
+          data: chatMsg,
+        });
+      }
+      shard.replay?.recordChat(chatMsg);
     };
   }
 
-  // --- PvP Bot Notifications ---
+  // --- PvP Hit Notifications ---
+
+  private setupPvPHitCallbacks(shard: WorldShard): void {
+    shard.world.onPvPHit = (result) => {
+      // Team Poop Tag scores from ordinary PvP hits
+      this.mvmManager.handlePvPHit(result.attackerId, result.victimId);
 
-  private setupPvPBotCallbacks(): void {
-    this.world.onPvPHit = (result) => {
       // Notify victim bot (reactive behavior: chase or flee)
-      if (this.botManager.isBot(result.victimId)) {
-        const attacker = this.world.getPlayer(result.attackerId);
-        this.botManager.notifyBotHit(
+      if (shard.botManager.isBot(result.victimId)) {
+        const attacker = shard.world.getPlayer(result.attackerId);
+        shard.botManager.notifyBotHit(
           result.victimId,
           attacker ? { ...attacker.position } : null,
         );
       }
 
       // Notify attacker bot (contextual chat: "gotcha!")
-      if (this.botManager.isBot(result.attackerId)) {
-        this.botManager.notifyBotPoopHit(result.attackerId);
+      if (shard.botManager.isBot(result.attackerId)) {
+        shard.botManager.notifyBotPoopHit(result.attackerId);
+      }
+    };
+  }
+
+  // --- Race Ghosts ---
+
+  private setupRaceCallbacks(shard: WorldShard): void {
+    shard.world.raceManager.onRunFinished = (race, playerId, ghost) => {
+      // Only shared routes are ranked; a generated course is never raced twice
+      const rank = race.routeId ? this.raceLeaderboard.submit(playerId, ghost) : null;
+
+      // The racer keeps their own run either way, as a personal best or a file to share
+      const client = this.clients.get(playerId);
+      if (client) {
+        this.send(client, { type: 'race_run_recorded', data: { rank, ghost } });
       }
     };
   }
 
   // --- Game Loop ---
 
+  /** Milliseconds per server tick */
+  get tickIntervalMs(): number {
+    return this.firstShard().world.TICK_INTERVAL;
+  }
+
   start(): void {
-    const tickDt = this.world.TICK_INTERVAL / 1000;
+    const tickInterval = this.tickIntervalMs;
+    this.lastTickAt = Date.now();
+    const tickDt = tickInterval / 1000;
     this.tickInterval = setInterval(() => {
       try {
         this.tick(tickDt);
       } catch (error) {
-        console.error('Error in server tick:', error);
+        log.error('Error in server tick', { tick: this.tickCount, err: error });
       }
-    }, this.world.TICK_INTERVAL);
+    }, tickInterval);
 
     // Heartbeat ping every 30 seconds
     this.heartbeatInterval = setInterval(() => {
       this.wss.clients.forEach((ws: WebSocket) => {
         const socket = ws as AuthenticatedSocket;
         if (socket.isAlive === false) {
-          console.log('Terminating dead connection');
+          log.info('Terminating dead connection', { playerId: socket.playerId });
           return socket.terminate();
         }
         socket.isAlive = false;
@@ -1438,20 +3309,29 @@ export class GameServer {
       });
     }, 30000);
 
-    // Start bot manager (spawns initial bots after short delay)
-    this.botManager.initialize();
+    // Start bot managers (spawn initial bots after short delay)
+    for (const shard of this.shards.values()) {
+      shard.botManager.initialize();
+    }
+
+    log.info('Game loop started');
+  }
 
-    console.log('Game loop started');
+  /** Run one tick now, for callers that drive the clock themselves instead of start() */
+  step(): void {
+    this.tick(this.tickIntervalMs / 1000);
   }
 
   private tick(dt: number): void {
+    const startedAt = performance.now();
     this.tickCount++;
 
-    // Update world state (poop physics, race progress, heat decay, etc.)
-    this.world.update(dt);
-
-    // Update bots
-    this.botManager.update(dt, this.clients.size);
+    // Update each shard's world (poop physics, race progress, heat decay, etc.) and bots, then record the tick
+    for (const shard of this.shards.values()) {
+      shard.world.update(dt);
+      shard.botManager.update(dt, shard.population);
+      shard.replay?.recordFrame(shard.world.getReplaySnapshot());
+    }
 
     // Update MvM matches (countdown timers, round state, scoring)
     this.mvmManager.update(dt);
@@ -1459,54 +3339,94 @@ export class GameServer {
     // Update Heist matches (trophy physics, timers)
     this.heistManager.update(dt);
 
-    // Update PvP session lifecycle (lobby/countdown/active/results).
+    // Pair queued public PvP players, then update session lifecycle (lobby/countdown/active/results).
+    this.matchPvPQueue();
     this.updatePvPSessions();
 
-    // Per-client global state sends (all players every tick)
+    // Tournament registration windows, round breaks and match launches
+    this.tournaments.update(Date.now());
+
+    // Per-client interest-managed state sends
     for (const [playerId, client] of this.clients) {
       if (client.readyState !== WebSocket.OPEN) continue;
 
       // Backpressure: skip if client's send buffer is too full
-      if (client.bufferedAmount > MAX_BUFFER_SIZE) continue;
+      if (client.bufferedAmount > MAX_BUFFER_SIZE) {
+        this.metrics.backpressureSkips.inc({ stream: 'state' });
+        continue;
+      }
 
-      const player = this.world.getPlayer(playerId);
-      if (!player) continue;
+      const world = client.shard?.world;
+      const player = world?.getPlayer(playerId);
+      if (!world || !player) continue;
 
-      const filtered = this.world.getFilteredSnapshot(player);
-      this.send(client, { type: 'state', data: filtered });
+      const filtered = world.getFilteredSnapshot(player, this.getSnapshotRelevance(playerId));
+      if (client.stateEncoder) {
+        this.sendBinary(client, client.stateEncoder.encode(filtered));
+      } else {
+        this.send(client, { type: 'state', data: filtered });
+      }
     }
 
+    this.sendSpectatorStates();
+
     // Periodic stats logging
     if (this.tickCount % STATS_LOG_INTERVAL_TICKS === 0) {
-      const botCount = this.botManager.getBotCount();
-      console.log(`[Stats] Players: ${this.clients.size} real + ${botCount} bots = ${this.world.getPlayerCount()} total | Tick: ${this.tickCount}`);
+      this.chatFilter.prune(Date.now());
+      for (const shard of this.shards.values()) {
+        const botCount = shard.botManager.getBotCount();
+        log.info('Stats', { shard: shard.id, players: shard.population, bots: botCount, total: shard.world.getPlayerCount(), tick: this.tickCount });
+      }
     }
+
+    this.metrics.tickDuration.observe((performance.now() - startedAt) / 1000);
+    this.metrics.tickSentBytes.observe(this.bytesSinceTick);
+    this.bytesSinceTick = 0;
+    this.lastTickAt = Date.now();
   }
 
   // --- Send Helpers ---
 
-  private send(ws: WebSocket, message: ServerMessage): void {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(message));
+  /** Every send goes through here, so the byte counters see all of it */
+  private sendRaw(ws: WebSocket, data: string | Uint8Array): void {
+    if (ws.readyState !== WebSocket.OPEN) return;
+    if (typeof data === 'string') {
+      ws.send(data);
+      const bytes = Buffer.byteLength(data);
+      this.bytesSinceTick += bytes;
+      this.metrics.sentBytes.inc({}, bytes);
+    } else {
+      ws.send(data, { binary: true });
+      this.bytesSinceTick += data.byteLength;
+      this.metrics.sentBytes.inc({}, data.byteLength);
     }
   }
 
+  private send(ws: WebSocket, message: ServerMessage): void {
+    this.sendRaw(ws, JSON.stringify(message));
+  }
+
+  private sendBinary(ws: WebSocket, frame: Uint8Array): void {
+    this.sendRaw(ws, frame);
+  }
+
   private broadcast(message: ServerMessage): void {
     const data = JSON.stringify(message);
-    this.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(data);
-      }
-    });
+    this.clients.forEach((client) => this.sendRaw(client, data));
   }
 
-  private broadcastExcept(excludePlayerId: string, message: ServerMessage): void {
+  private broadcastToShard(shard: WorldShard, message: ServerMessage, excludePlayerId?: string): void {
     const data = JSON.stringify(message);
-    this.clients.forEach((client, playerId) => {
-      if (playerId !== excludePlayerId && client.readyState === WebSocket.OPEN) {
-        client.send(data);
-      }
-    });
+    for (const playerId of shard.playerIds) {
+      if (playerId === excludePlayerId) continue;
+      const client = this.clients.get(playerId);
+      if (client) this.sendRaw(client, data);
+    }
+  }
+
+  private sendToPlayer(playerId: string, message: ServerMessage): void {
+    const client = this.clients.get(playerId);
+    if (client) this.send(client, message);
   }
 
   private sendError(ws: WebSocket, error: string): void {
@@ -1516,15 +3436,24 @@ export class GameServer {
     });
   }
 
-  stop(): void {
+  /** Stop ticking and close the listener; resolves once the HTTP server has shut down */
+  stop(): Promise<void> {
+    this.acceptingPlayers = false;
     if (this.tickInterval) {
       clearInterval(this.tickInterval);
     }
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
     }
-    this.botManager.destroyAll();
+    for (const shard of this.shards.values()) {
+      shard.botManager.destroyAll();
+      shard.replay?.close();
+    }
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
     this.wss.close();
-    console.log('Server stopped');
+    log.info('Server stopped');
+    return new Promise((resolve) => this.httpServer.close(() => resolve()));
   }
 }
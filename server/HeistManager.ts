@@ -1,15 +1,35 @@
 /**
  * HeistManager - Server-side authoritative match logic for Heist mode.
- * Manages trophy state, slam validation, score tracking, and match lifecycle.
+ * Manages the rated queues (1v1, 2v2, 3v3 and free-for-all), trophy state,
+ * passes, slam validation, team score tracking, and match lifecycle.
  * Follows the pattern of RaceManager.ts.
  */
 
-import { Vector3 } from './types';
+import { SpectatedMatchState, SpectatedParticipant, Vector3 } from '../shared/types';
+import { EconomyLedger } from './EconomyLedger';
+import { RatingBook } from './Ratings';
+import { Matchmaker } from './Matchmaker';
+import { PvPPlayerLookup } from './PvPModeRules';
+import {
+  HeistFormat,
+  HeistFormatId,
+  HEIST_FORMATS,
+  assignHeistTeams,
+  getHeistPedestalPosition,
+  getHeistSpawnPosition,
+  getHeistTeamCount,
+  getHeistTrophyCount,
+  getHeistTrophySpawn,
+} from '../shared/HeistFormats';
+import { createLogger } from './Logger';
+
+const log = createLogger('Heist');
 
 // Heist constants (server-side mirror of client Constants.ts HEIST section)
 const HEIST = {
   POINTS_TO_WIN: 3,
   MATCH_TIME_LIMIT: 180,
+  OVERTIME_LIMIT: 60, // Seconds of sudden death before the tiebreak decides it
   COUNTDOWN_DURATION: 3,
   SCORE_PAUSE_DURATION: 2,
   TROPHY_HOVER_HEIGHT: 40,
@@ -17,16 +37,27 @@ const HEIST = {
   TROPHY_DROP_INHERIT_VELOCITY: 0.4,
   TROPHY_DROP_MAX_FALL_TIME: 3,
   TROPHY_GRAB_IMMUNITY: 0.75,
+  TROPHY_GRAB_RADIUS: 8, // Generous for lag compensation
   PEDESTAL_TRIGGER_RADIUS: 12,
   PEDESTAL_HEIGHT: 35,
   PEDESTAL_DISTANCE_FROM_CENTER: 200,
+  PASS_RANGE: 40,
   SLAM_SPEED_THRESHOLD: 0.7,
+  ASSISTED_SLAM_SPEED_THRESHOLD: 0.5,
+  SLAM_ASSIST_RADIUS: 20,
   SLAM_COLLISION_RADIUS: 8, // Slightly larger than client for lag compensation
   SLAM_KNOCKBACK_FORCE: 40,
   SLAM_COOLDOWN: 1.5,
   PLAYER_SPAWN_DISTANCE: 200,
   PLAYER_SPAWN_HEIGHT: 50,
   MAX_FLIGHT_SPEED: 50, // From FLIGHT.MAX_SPEED
+  BOT_SPEED: 40, // FLIGHT.BASE_SPEED * BOT_SPEED_UTILIZATION
+  LOBBY_TIMEOUT_MS: 45_000,
+  STATE_INTERVAL: 0.25, // Seconds between heist-state snapshots to the match's players
+  REWARD_WIN_COINS: 150,
+  REWARD_LOSS_COINS: 40,
+  REWARD_WIN_FEATHERS: 5,
+  REWARD_XP_PER_POINT: 20,
 };
 
 export type HeistMatchState = 'waiting' | 'countdown' | 'active' | 'overtime' | 'score_pause' | 'complete';
@@ -35,170 +66,412 @@ export type TrophyState = 'idle' | 'carried' | 'falling';
 
 interface HeistPlayer {
   id: string;
-  score: number;
+  team: number;
+  /** Seat filled by a bot when the lobby timed out */
+  isBot: boolean;
+  /** Human who disconnected mid-match; a bot flies their seat from then on */
+  left: boolean;
   slamCooldown: number;
+  delivered: number;
+  slams: number;
+  assists: number;
+  passes: number;
+  /** Server-steered position for bot seats; humans report theirs through the world state */
+  position: Vector3 | null;
+}
+
+interface HeistTeam {
+  index: number;
+  playerIds: string[];
+  score: number;
   pedestalPosition: Vector3;
 }
 
+interface HeistTrophy {
+  id: number;
+  state: TrophyState;
+  position: Vector3;
+  velocity: Vector3;
+  spawnPosition: Vector3;
+  carrierId: string | null;
+  /** Teammate who passed it to the carrier; credited with an assist if it is delivered */
+  passedBy: string | null;
+  grabImmunity: number;
+  fallTimer: number;
+}
+
 interface HeistMatch {
   id: string;
+  format: HeistFormat;
+  rules: HeistMatchRules;
   state: HeistMatchState;
   players: Map<string, HeistPlayer>;
-  trophyState: TrophyState;
-  trophyPosition: Vector3;
-  trophyVelocity: Vector3;
-  trophyCarrierId: string | null;
-  trophyGrabImmunity: number;
-  trophyFallTimer: number;
+  teams: HeistTeam[];
+  trophies: HeistTrophy[];
+  /** Trophy waiting to respawn once the score pause ends */
+  pendingResetTrophy: number | null;
   matchTimer: number;
   countdownTimer: number;
   scorePauseTimer: number;
+  /** Sudden death left once overtime starts; null before then */
+  overtimeTimer: number | null;
+  /** Seconds until the next heist-state snapshot */
+  stateTimer: number;
   createdAt: number;
 }
 
+/** Per-match overrides, e.g. from a private lobby; queued matches use the defaults */
+export interface HeistMatchRules {
+  /** Seconds before overtime */
+  timeLimit: number;
+  slams: boolean;
+  passing: boolean;
+  /** Whether the result counts towards ratings */
+  rated: boolean;
+  /** Whether players bank coins, feathers and XP for the match */
+  rewarded: boolean;
+}
+
+const DEFAULT_MATCH_RULES: HeistMatchRules = {
+  timeLimit: HEIST.MATCH_TIME_LIMIT,
+  slams: true,
+  passing: true,
+  rated: true,
+  rewarded: true,
+};
+
+interface HeistQueueEntry {
+  playerId: string;
+  format: HeistFormatId;
+  /** Matches never span shards: opponents must share a world */
+  shardId: string;
+  queuedAt: number;
+}
+
 type SendFn = (playerId: string, message: any) => void;
 type BroadcastFn = (matchId: string, message: any) => void;
 
+/** Formats filled from a lobby rather than paired by the matchmaker */
+const LOBBY_FORMATS: HeistFormatId[] = ['2v2', '3v3', 'ffa'];
+
 export class HeistManager {
   private matches = new Map<string, HeistMatch>();
   private playerToMatch = new Map<string, string>(); // playerId -> matchId
+  private queue: HeistQueueEntry[] = [];
+  private matchmaker = new Matchmaker();
   private nextMatchId = 0;
 
   private sendToPlayer: SendFn;
   private broadcastToMatch: BroadcastFn;
-
-  constructor(sendToPlayer: SendFn, broadcastToMatch: BroadcastFn) {
+  private ledger: EconomyLedger | null;
+  private ratings: RatingBook | null;
+  private getPlayer: PvPPlayerLookup;
+  /** Called once per finished match with the winning team's top human (bots only if no human won) */
+  onMatchEnd: ((matchId: string, winnerId: string | null) => void) | null = null;
+
+  constructor(
+    sendToPlayer: SendFn,
+    broadcastToMatch: BroadcastFn,
+    ledger: EconomyLedger | null = null,
+    ratings: RatingBook | null = null,
+    getPlayer: PvPPlayerLookup = () => undefined,
+  ) {
     this.sendToPlayer = sendToPlayer;
     this.broadcastToMatch = broadcastToMatch;
+    this.ledger = ledger;
+    this.ratings = ratings;
+    this.getPlayer = getPlayer;
   }
 
-  /** Create a new Heist match between two players */
-  createMatch(player1Id: string, player2Id: string): string | null {
-    // Check neither player is already in a match
-    if (this.playerToMatch.has(player1Id) || this.playerToMatch.has(player2Id)) {
-      return null;
+  /**
+   * Queue a player for a rated heist against others in the same shard. 1v1s
+   * are paired once an opponent is within their search window; team and
+   * free-for-all lobbies start when full, or with bots in the empty seats once
+   * the oldest entry has waited out the lobby.
+   */
+  addToQueue(playerId: string, shardId: string, format: HeistFormatId = '1v1'): void {
+    if (this.playerToMatch.has(playerId) || this.queue.some(e => e.playerId === playerId)) return;
+    this.queue.push({ playerId, format, shardId, queuedAt: Date.now() });
+
+    const loaded = this.ratings?.load(playerId, HEIST_FORMATS[format].ratingMode) ?? Promise.resolve();
+    loaded.then(() => this.tryMatchmaking()).catch((err) => log.error('Matchmaking failed', { err }));
+  }
+
+  removeFromQueue(playerId: string): void {
+    this.queue = this.queue.filter(e => e.playerId !== playerId);
+  }
+
+  isQueued(playerId: string): boolean {
+    return this.queue.some(e => e.playerId === playerId);
+  }
+
+  private tryMatchmaking(): void {
+    const now = Date.now();
+    for (const shardId of new Set(this.queue.map(e => e.shardId))) {
+      this.tryPairing(shardId, now);
+      for (const formatId of LOBBY_FORMATS) {
+        this.tryLobby(HEIST_FORMATS[formatId], shardId, now);
+      }
     }
+  }
+
+  private peekRating(playerId: string, format: HeistFormat): number {
+    return this.ratings?.peek(playerId, format.ratingMode).rating ?? 0;
+  }
+
+  private tryPairing(shardId: string, now: number): void {
+    const ratingMode = HEIST_FORMATS['1v1'].ratingMode;
+    for (;;) {
+      const candidates = this.queue.filter(e => e.format === '1v1' && e.shardId === shardId).map(e => ({
+        id: e.playerId,
+        rating: this.ratings?.peek(e.playerId, ratingMode) ?? { rating: 0, rd: 0 },
+        queuedAt: e.queuedAt,
+      }));
+      const pair = this.matchmaker.findPair(candidates, now);
+      if (!pair) return;
+
+      const [a, b] = pair;
+      this.removeFromQueue(a.id);
+      this.removeFromQueue(b.id);
+      this.matchmaker.recordMatch(a.id, b.id, now);
+      this.createMatch(a.id, b.id);
+    }
+  }
+
+  private tryLobby(format: HeistFormat, shardId: string, now: number): void {
+    for (;;) {
+      // Queue order is arrival order, so the first entry has waited longest
+      const entries = this.queue.filter(e => e.format === format.id && e.shardId === shardId);
+      if (entries.length === 0) return;
+
+      const full = entries.length >= format.maxPlayers;
+      const timedOut = now - entries[0].queuedAt >= HEIST.LOBBY_TIMEOUT_MS;
+      if (!full && !timedOut) return;
+
+      const taken = entries.slice(0, format.maxPlayers).map(e => e.playerId);
+      for (const id of taken) this.removeFromQueue(id);
+
+      // Strongest first so the snake draft evens out the teams
+      taken.sort((a, b) => this.peekRating(b, format) - this.peekRating(a, format));
+      // Team games fill every seat; a free-for-all plays fine from its minimum
+      const seats = format.teamSize > 1 ? format.maxPlayers : Math.max(format.minPlayers, taken.length);
+      this.startMatch(format, taken, seats - taken.length);
+    }
+  }
+
+  /** Create a new 1v1 Heist match between two players */
+  createMatch(player1Id: string, player2Id: string): string | null {
+    return this.startMatch(HEIST_FORMATS['1v1'], [player1Id, player2Id], 0);
+  }
+
+  /** Create a match of any format; humans are dealt into teams first, then bots take the emptiest teams */
+  startMatch(
+    format: HeistFormat,
+    playerIds: string[],
+    botCount: number,
+    rules: Partial<HeistMatchRules> = {},
+  ): string | null {
+    // Check no player is still playing a match; a finished one only lingers until cleanup
+    if (playerIds.some(id => this.isPlayingMatch(id))) return null;
 
     const matchId = `heist_${++this.nextMatchId}_${Date.now()}`;
+    const botIds = Array.from({ length: botCount }, (_, i) => `heist_bot_${this.nextMatchId}_${i + 1}`);
+    const seatCount = playerIds.length + botIds.length;
+    const teamCount = getHeistTeamCount(format, seatCount);
+
+    const rosters = assignHeistTeams(playerIds, teamCount);
+    for (const botId of botIds) {
+      const emptiest = rosters.reduce((min, roster) => roster.length < min.length ? roster : min);
+      emptiest.push(botId);
+    }
 
+    const matchRules = { ...DEFAULT_MATCH_RULES, ...rules };
     const match: HeistMatch = {
       id: matchId,
+      format,
+      rules: matchRules,
       state: 'countdown',
       players: new Map(),
-      trophyState: 'idle',
-      trophyPosition: { x: 0, y: HEIST.TROPHY_HOVER_HEIGHT, z: 0 },
-      trophyVelocity: { x: 0, y: 0, z: 0 },
-      trophyCarrierId: null,
-      trophyGrabImmunity: 0,
-      trophyFallTimer: 0,
-      matchTimer: HEIST.MATCH_TIME_LIMIT,
+      teams: [],
+      trophies: [],
+      pendingResetTrophy: null,
+      matchTimer: matchRules.timeLimit,
       countdownTimer: HEIST.COUNTDOWN_DURATION,
       scorePauseTimer: 0,
+      overtimeTimer: null,
+      stateTimer: HEIST.STATE_INTERVAL,
       createdAt: Date.now(),
     };
 
-    // Player 1 pedestal (negative X)
-    match.players.set(player1Id, {
-      id: player1Id,
-      score: 0,
-      slamCooldown: 0,
-      pedestalPosition: {
-        x: -HEIST.PEDESTAL_DISTANCE_FROM_CENTER,
-        y: HEIST.PEDESTAL_HEIGHT,
-        z: 0,
-      },
+    rosters.forEach((roster, index) => {
+      match.teams.push({
+        index,
+        playerIds: roster,
+        score: 0,
+        pedestalPosition: getHeistPedestalPosition(
+          index, teamCount, HEIST.PEDESTAL_DISTANCE_FROM_CENTER, HEIST.PEDESTAL_HEIGHT,
+        ),
+      });
+      roster.forEach((id, slot) => {
+        const isBot = botIds.includes(id);
+        match.players.set(id, {
+          id,
+          team: index,
+          isBot,
+          left: false,
+          slamCooldown: 0,
+          delivered: 0,
+          slams: 0,
+          assists: 0,
+          passes: 0,
+          position: isBot
+            ? getHeistSpawnPosition(
+              index, teamCount, slot, format.teamSize, HEIST.PLAYER_SPAWN_DISTANCE, HEIST.PLAYER_SPAWN_HEIGHT,
+            )
+            : null,
+        });
+      });
     });
 
-    // Player 2 pedestal (positive X)
-    match.players.set(player2Id, {
-      id: player2Id,
-      score: 0,
-      slamCooldown: 0,
-      pedestalPosition: {
-        x: HEIST.PEDESTAL_DISTANCE_FROM_CENTER,
-        y: HEIST.PEDESTAL_HEIGHT,
-        z: 0,
-      },
-    });
+    const trophyCount = getHeistTrophyCount(format, seatCount);
+    for (let i = 0; i < trophyCount; i++) {
+      const spawn = getHeistTrophySpawn(i, trophyCount, HEIST.TROPHY_HOVER_HEIGHT);
+      match.trophies.push({
+        id: i,
+        state: 'idle',
+        position: { ...spawn },
+        velocity: { x: 0, y: 0, z: 0 },
+        spawnPosition: spawn,
+        carrierId: null,
+        passedBy: null,
+        grabImmunity: 0,
+        fallTimer: 0,
+      });
+    }
 
     this.matches.set(matchId, match);
-    this.playerToMatch.set(player1Id, matchId);
-    this.playerToMatch.set(player2Id, matchId);
+    for (const id of match.players.keys()) {
+      this.playerToMatch.set(id, matchId);
+    }
 
-    // Send match start to both players
+    // Send match start to every player
     this.broadcastToMatch(matchId, {
       type: 'heist-match-start',
       data: {
         matchId,
-        players: [player1Id, player2Id],
-        trophyPosition: match.trophyPosition,
+        format: format.id,
+        players: Array.from(match.players.keys()),
+        participants: this.describeParticipants(match),
+        bots: botIds,
+        teams: match.teams.map(t => ({ index: t.index, playerIds: t.playerIds, pedestalPosition: t.pedestalPosition })),
+        trophies: match.trophies.map(t => ({ id: t.id, position: t.position })),
+        trophyPosition: match.trophies[0].position,
         countdown: HEIST.COUNTDOWN_DURATION,
+        rules: matchRules,
       },
     });
 
     return matchId;
   }
 
-  /** Handle a player requesting to grab the trophy */
+  /** Handle a player requesting to grab a trophy */
   handleGrabRequest(playerId: string, playerPosition: Vector3): void {
     const match = this.getMatchForPlayer(playerId);
-    if (!match || match.state !== 'active' && match.state !== 'overtime') return;
-    if (match.trophyCarrierId) return; // Already carried
-    if (match.trophyGrabImmunity > 0) return; // Grab immunity active
-    if (match.trophyState === 'falling') return; // Still falling
+    if (match) this.grab(match, playerId, playerPosition);
+  }
+
+  /** Handle a player claiming a slam on a carrier */
+  handleSlamRequest(
+    attackerId: string,
+    attackerPosition: Vector3,
+    attackerSpeed: number,
+  ): void {
+    const match = this.getMatchForPlayer(attackerId);
+    if (match) this.slam(match, attackerId, attackerPosition, attackerSpeed);
+  }
+
+  /** Handle a carrier handing their trophy to a teammate */
+  handlePassRequest(playerId: string, targetId: string): void {
+    const match = this.getMatchForPlayer(playerId);
+    if (match) this.pass(match, playerId, targetId);
+  }
+
+  /** Handle a player delivering a trophy to their team's pedestal */
+  handleScoreRequest(playerId: string, playerPosition: Vector3): void {
+    const match = this.getMatchForPlayer(playerId);
+    if (match) this.score(match, playerId, playerPosition);
+  }
 
-    // Validate proximity
-    const dx = playerPosition.x - match.trophyPosition.x;
-    const dy = playerPosition.y - match.trophyPosition.y;
-    const dz = playerPosition.z - match.trophyPosition.z;
-    const distSq = dx * dx + dy * dy + dz * dz;
+  private isLive(match: HeistMatch): boolean {
+    return match.state === 'active' || match.state === 'overtime';
+  }
+
+  private carriedBy(match: HeistMatch, playerId: string): HeistTrophy | undefined {
+    return match.trophies.find(t => t.carrierId === playerId);
+  }
 
-    // Generous grab radius (8 units for lag compensation)
-    if (distSq > 64) return;
+  private grab(match: HeistMatch, playerId: string, playerPosition: Vector3): void {
+    if (!this.isLive(match)) return;
+    if (this.carriedBy(match, playerId)) return; // One trophy at a time
+
+    // Nearest trophy that is resting, off immunity and within reach
+    let best: HeistTrophy | null = null;
+    let bestDistSq = HEIST.TROPHY_GRAB_RADIUS * HEIST.TROPHY_GRAB_RADIUS;
+    for (const trophy of match.trophies) {
+      if (trophy.state !== 'idle' || trophy.grabImmunity > 0) continue;
+      const distSq = distanceSq(playerPosition, trophy.position);
+      if (distSq <= bestDistSq) {
+        best = trophy;
+        bestDistSq = distSq;
+      }
+    }
+    if (!best) return;
 
     // Grant the grab
-    match.trophyCarrierId = playerId;
-    match.trophyState = 'carried';
+    best.carrierId = playerId;
+    best.passedBy = null;
+    best.state = 'carried';
 
     this.broadcastToMatch(match.id, {
       type: 'heist-trophy-grabbed',
-      data: { playerId, matchId: match.id },
+      data: { playerId, matchId: match.id, trophyId: best.id },
     });
   }
 
-  /** Handle a player claiming a slam on the carrier */
-  handleSlamRequest(
-    attackerId: string,
-    attackerPosition: Vector3,
-    attackerSpeed: number,
-  ): void {
-    const match = this.getMatchForPlayer(attackerId);
-    if (!match || (match.state !== 'active' && match.state !== 'overtime')) return;
-    if (!match.trophyCarrierId) return; // No one carrying
-    if (match.trophyCarrierId === attackerId) return; // Can't slam yourself
+  private slam(match: HeistMatch, attackerId: string, attackerPosition: Vector3, attackerSpeed: number): void {
+    if (!this.isLive(match) || !match.rules.slams) return;
 
     const player = match.players.get(attackerId);
     if (!player || player.slamCooldown > 0) return; // On cooldown
 
-    // Validate speed threshold
-    if (attackerSpeed < HEIST.MAX_FLIGHT_SPEED * HEIST.SLAM_SPEED_THRESHOLD) return;
-
-    // Validate proximity (use server's generous collision radius)
-    const carrierId = match.trophyCarrierId;
-    // We trust the attacker's claimed position for now (client-authoritative movement)
-    // but validate against the trophy position as a proxy for carrier position
-    const dx = attackerPosition.x - match.trophyPosition.x;
-    const dy = attackerPosition.y - match.trophyPosition.y;
-    const dz = attackerPosition.z - match.trophyPosition.z;
-    const distSq = dx * dx + dy * dy + dz * dz;
+    // Nearest trophy carried by another team. Movement is client-authoritative,
+    // so a carried trophy stands in for its carrier's position.
+    let target: HeistTrophy | null = null;
+    let targetDistSq = HEIST.SLAM_COLLISION_RADIUS * HEIST.SLAM_COLLISION_RADIUS;
+    for (const trophy of match.trophies) {
+      if (!trophy.carrierId) continue;
+      if (match.players.get(trophy.carrierId)?.team === player.team) continue; // Can't slam yourself or a teammate
+      const distSq = distanceSq(attackerPosition, trophy.position);
+      if (distSq <= targetDistSq) {
+        target = trophy;
+        targetDistSq = distSq;
+      }
+    }
+    if (!target) return;
 
-    if (distSq > HEIST.SLAM_COLLISION_RADIUS * HEIST.SLAM_COLLISION_RADIUS) return;
+    // A teammate closing in on the carrier makes the slam easier to land
+    const assistId = this.findSlamAssist(match, player, target.position);
+    const threshold = assistId ? HEIST.ASSISTED_SLAM_SPEED_THRESHOLD : HEIST.SLAM_SPEED_THRESHOLD;
+    if (attackerSpeed < HEIST.MAX_FLIGHT_SPEED * threshold) return;
 
     // Valid slam!
+    const carrierId = target.carrierId!;
     player.slamCooldown = HEIST.SLAM_COOLDOWN;
+    player.slams++;
+    if (assistId) match.players.get(assistId)!.assists++;
 
     // Drop the trophy with physics
-    this.dropTrophy(match, attackerPosition);
+    this.dropTrophy(target, attackerPosition);
 
     this.broadcastToMatch(match.id, {
       type: 'heist-slam',
@@ -206,59 +479,107 @@ export class HeistManager {
         matchId: match.id,
         attackerId,
         carrierId,
-        trophyPosition: match.trophyPosition,
-        trophyVelocity: match.trophyVelocity,
+        assistId,
+        trophyId: target.id,
+        trophyPosition: target.position,
+        trophyVelocity: target.velocity,
       },
     });
   }
 
-  /** Handle a player delivering the trophy to their pedestal */
-  handleScoreRequest(playerId: string, playerPosition: Vector3): void {
-    const match = this.getMatchForPlayer(playerId);
-    if (!match || (match.state !== 'active' && match.state !== 'overtime')) return;
-    if (match.trophyCarrierId !== playerId) return; // Not carrying
+  private findSlamAssist(match: HeistMatch, attacker: HeistPlayer, carrierPosition: Vector3): string | null {
+    const radiusSq = HEIST.SLAM_ASSIST_RADIUS * HEIST.SLAM_ASSIST_RADIUS;
+    for (const mateId of match.teams[attacker.team].playerIds) {
+      if (mateId === attacker.id) continue;
+      const position = this.getSeatPosition(match, mateId);
+      if (position && distanceSq(position, carrierPosition) <= radiusSq) return mateId;
+    }
+    return null;
+  }
 
-    const player = match.players.get(playerId);
-    if (!player) return;
+  private pass(match: HeistMatch, playerId: string, targetId: string): void {
+    if (!this.isLive(match) || !match.rules.passing) return;
+
+    const trophy = this.carriedBy(match, playerId);
+    const passer = match.players.get(playerId);
+    const receiver = match.players.get(targetId);
+    if (!trophy || !passer || !receiver || receiver.id === passer.id) return;
+    if (receiver.team !== passer.team) return;
+    if (this.carriedBy(match, targetId)) return;
+
+    const receiverPosition = this.getSeatPosition(match, targetId);
+    if (!receiverPosition) return;
+    if (distanceSq(receiverPosition, trophy.position) > HEIST.PASS_RANGE * HEIST.PASS_RANGE) return;
 
-    // Validate proximity to their own pedestal
-    const ped = player.pedestalPosition;
-    const dx = playerPosition.x - ped.x;
-    const dy = playerPosition.y - ped.y;
-    const dz = playerPosition.z - ped.z;
-    const distSq = dx * dx + dy * dy + dz * dz;
+    trophy.carrierId = targetId;
+    trophy.passedBy = playerId;
+    trophy.position = { ...receiverPosition };
+    passer.passes++;
 
-    if (distSq > HEIST.PEDESTAL_TRIGGER_RADIUS * HEIST.PEDESTAL_TRIGGER_RADIUS) return;
+    this.broadcastToMatch(match.id, {
+      type: 'heist-pass',
+      data: { matchId: match.id, trophyId: trophy.id, fromId: playerId, toId: targetId },
+    });
+  }
+
+  private score(match: HeistMatch, playerId: string, playerPosition: Vector3): void {
+    if (!this.isLive(match)) return;
+
+    const trophy = this.carriedBy(match, playerId);
+    const player = match.players.get(playerId);
+    if (!trophy || !player) return; // Not carrying
+
+    // Validate proximity to their team's pedestal
+    const team = match.teams[player.team];
+    const triggerSq = HEIST.PEDESTAL_TRIGGER_RADIUS * HEIST.PEDESTAL_TRIGGER_RADIUS;
+    if (distanceSq(playerPosition, team.pedestalPosition) > triggerSq) return;
 
     // Score!
-    player.score++;
-    match.trophyCarrierId = null;
-    match.trophyState = 'idle';
+    team.score++;
+    player.delivered++;
+    const assistId = trophy.passedBy;
+    if (assistId) match.players.get(assistId)!.assists++;
+
+    trophy.carrierId = null;
+    trophy.passedBy = null;
+    trophy.state = 'idle';
+    trophy.position = { ...trophy.spawnPosition };
+    trophy.velocity = { x: 0, y: 0, z: 0 };
+
+    this.broadcastToMatch(match.id, {
+      type: 'heist-score',
+      data: {
+        matchId: match.id,
+        playerId,
+        assistId,
+        team: team.index,
+        trophyId: trophy.id,
+        score: team.score,
+        scores: match.teams.map(t => t.score),
+      },
+    });
 
     // Check win condition
-    if (player.score >= HEIST.POINTS_TO_WIN) {
+    if (team.score >= HEIST.POINTS_TO_WIN) {
       match.state = 'complete';
-      this.broadcastToMatch(match.id, {
-        type: 'heist-score',
-        data: { matchId: match.id, playerId, score: player.score },
-      });
-      this.broadcastMatchEnd(match, playerId);
+      this.broadcastMatchEnd(match, team.index);
       return;
     }
 
-    // Score pause then respawn trophy
+    // Score pause then respawn the trophy
     match.state = 'score_pause';
     match.scorePauseTimer = HEIST.SCORE_PAUSE_DURATION;
-
-    this.broadcastToMatch(match.id, {
-      type: 'heist-score',
-      data: { matchId: match.id, playerId, score: player.score },
-    });
+    match.pendingResetTrophy = trophy.id;
   }
 
   /** Server tick update for all active matches */
   update(dt: number): void {
+    // Re-check the queues as search windows widen and lobbies time out
+    if (this.queue.length > 0) this.tryMatchmaking();
+
     for (const [matchId, match] of this.matches) {
+      if (match.state !== 'complete') this.updateStateSnapshot(match, dt);
+
       switch (match.state) {
         case 'countdown':
           match.countdownTimer -= dt;
@@ -275,6 +596,7 @@ export class HeistManager {
           match.matchTimer -= dt;
           this.updateTrophyPhysics(match, dt);
           this.updatePlayerCooldowns(match, dt);
+          this.updateBots(match, dt);
 
           if (match.matchTimer <= 0) {
             this.handleTimeExpired(match);
@@ -284,31 +606,39 @@ export class HeistManager {
         case 'overtime':
           this.updateTrophyPhysics(match, dt);
           this.updatePlayerCooldowns(match, dt);
+          this.updateBots(match, dt);
+
+          match.overtimeTimer = (match.overtimeTimer ?? 0) - dt;
+          if (match.overtimeTimer <= 0) {
+            this.breakTie(match);
+          }
           break;
 
         case 'score_pause':
           match.scorePauseTimer -= dt;
           if (match.scorePauseTimer <= 0) {
-            // Respawn trophy at center
-            match.trophyPosition = { x: 0, y: HEIST.TROPHY_HOVER_HEIGHT, z: 0 };
-            match.trophyVelocity = { x: 0, y: 0, z: 0 };
-            match.trophyState = 'idle';
-            match.trophyGrabImmunity = 0;
+            const trophy = match.trophies.find(t => t.id === match.pendingResetTrophy);
+            match.pendingResetTrophy = null;
             match.state = 'active';
 
-            this.broadcastToMatch(matchId, {
-              type: 'heist-trophy-reset',
-              data: {
-                matchId,
-                position: match.trophyPosition,
-              },
-            });
+            if (trophy) {
+              // Respawn the scored trophy at its spawn point
+              trophy.grabImmunity = 0;
+              this.broadcastToMatch(matchId, {
+                type: 'heist-trophy-reset',
+                data: {
+                  matchId,
+                  trophyId: trophy.id,
+                  position: trophy.position,
+                },
+              });
+            }
           }
           break;
 
         case 'complete':
           // Clean up after a delay
-          if (Date.now() - match.createdAt > (HEIST.MATCH_TIME_LIMIT + 30) * 1000) {
+          if (Date.now() - match.createdAt > (match.rules.timeLimit + HEIST.OVERTIME_LIMIT + 30) * 1000) {
             this.cleanupMatch(matchId);
           }
           break;
@@ -316,44 +646,63 @@ export class HeistManager {
     }
   }
 
-  private updateTrophyPhysics(match: HeistMatch, dt: number): void {
-    // Grab immunity countdown
-    if (match.trophyGrabImmunity > 0) {
-      match.trophyGrabImmunity -= dt;
+  /**
+   * Players get the clock, scores, trophies and bot seats a few times a second;
+   * grabs, slams, passes and deliveries still arrive as their own events.
+   */
+  private updateStateSnapshot(match: HeistMatch, dt: number): void {
+    match.stateTimer -= dt;
+    if (match.stateTimer > 0) return;
+    match.stateTimer = HEIST.STATE_INTERVAL;
+
+    const message = { type: 'heist-state', data: this.getSpectatorState(match.id) };
+    for (const player of match.players.values()) {
+      if (!player.isBot && !player.left) this.sendToPlayer(player.id, message);
     }
+  }
 
-    if (match.trophyState === 'falling') {
-      match.trophyFallTimer += dt;
-
-      // Apply gravity
-      match.trophyVelocity.y -= HEIST.TROPHY_DROP_GRAVITY * dt;
-
-      // Move trophy
-      match.trophyPosition.x += match.trophyVelocity.x * dt;
-      match.trophyPosition.y += match.trophyVelocity.y * dt;
-      match.trophyPosition.z += match.trophyVelocity.z * dt;
-
-      // Settle if hit ground or max fall time
-      if (match.trophyPosition.y <= 5 || match.trophyFallTimer >= HEIST.TROPHY_DROP_MAX_FALL_TIME) {
-        match.trophyPosition.y = Math.max(match.trophyPosition.y, 5);
-        match.trophyState = 'idle';
-        match.trophyVelocity = { x: 0, y: 0, z: 0 };
-        match.trophyGrabImmunity = HEIST.TROPHY_GRAB_IMMUNITY;
-        match.trophyFallTimer = 0;
-
-        // Broadcast settled position
-        this.broadcastToMatch(match.id, {
-          type: 'heist-trophy-settled',
-          data: {
-            matchId: match.id,
-            position: { ...match.trophyPosition },
-          },
-        });
+  private updateTrophyPhysics(match: HeistMatch, dt: number): void {
+    for (const trophy of match.trophies) {
+      // Grab immunity countdown
+      if (trophy.grabImmunity > 0) {
+        trophy.grabImmunity -= dt;
       }
-    }
 
-    // Update trophy position if carried (use carrier's last known position)
-    // Note: clients handle visual carry position; server just tracks state
+      if (trophy.state === 'falling') {
+        trophy.fallTimer += dt;
+
+        // Apply gravity
+        trophy.velocity.y -= HEIST.TROPHY_DROP_GRAVITY * dt;
+
+        // Move trophy
+        trophy.position.x += trophy.velocity.x * dt;
+        trophy.position.y += trophy.velocity.y * dt;
+        trophy.position.z += trophy.velocity.z * dt;
+
+        // Settle if hit ground or max fall time
+        if (trophy.position.y <= 5 || trophy.fallTimer >= HEIST.TROPHY_DROP_MAX_FALL_TIME) {
+          trophy.position.y = Math.max(trophy.position.y, 5);
+          trophy.state = 'idle';
+          trophy.velocity = { x: 0, y: 0, z: 0 };
+          trophy.grabImmunity = HEIST.TROPHY_GRAB_IMMUNITY;
+          trophy.fallTimer = 0;
+
+          // Broadcast settled position
+          this.broadcastToMatch(match.id, {
+            type: 'heist-trophy-settled',
+            data: {
+              matchId: match.id,
+              trophyId: trophy.id,
+              position: { ...trophy.position },
+            },
+          });
+        }
+      } else if (trophy.carrierId) {
+        // Follow the carrier so slams and passes are checked against where they are now
+        const position = this.getSeatPosition(match, trophy.carrierId);
+        if (position) trophy.position = { ...position };
+      }
+    }
   }
 
   private updatePlayerCooldowns(match: HeistMatch, dt: number): void {
@@ -364,17 +713,75 @@ export class HeistManager {
     }
   }
 
-  private dropTrophy(match: HeistMatch, attackerPosition: Vector3): void {
-    match.trophyCarrierId = null;
-    match.trophyState = 'falling';
-    match.trophyFallTimer = 0;
+  /** Where a seat is: bots are steered here, humans come from the world state */
+  private getSeatPosition(match: HeistMatch, playerId: string): Vector3 | null {
+    const player = match.players.get(playerId);
+    if (!player) return null;
+    if (player.position) return player.position;
+    return this.getPlayer(playerId)?.position ?? null;
+  }
+
+  /**
+   * Fly the bot seats: deliver a carried trophy, otherwise go for whichever is
+   * nearer of a loose trophy and an opposing carrier. Bots act through the same
+   * grab/slam/score checks as players.
+   */
+  private updateBots(match: HeistMatch, dt: number): void {
+    for (const player of match.players.values()) {
+      if ((!player.isBot && !player.left) || !player.position) continue;
+      if (!this.isLive(match)) return; // A bot's score can end the match or start a pause
+
+      const carried = this.carriedBy(match, player.id);
+      let target: Vector3 | null = null;
+      if (carried) {
+        target = match.teams[player.team].pedestalPosition;
+      } else {
+        let bestDistSq = Infinity;
+        for (const trophy of match.trophies) {
+          const loose = trophy.state === 'idle';
+          const opposing = trophy.carrierId !== null && match.players.get(trophy.carrierId)?.team !== player.team;
+          if (!loose && !opposing) continue;
+          const distSq = distanceSq(player.position, trophy.position);
+          if (distSq < bestDistSq) {
+            target = trophy.position;
+            bestDistSq = distSq;
+          }
+        }
+      }
+      if (!target) continue;
+
+      const dx = target.x - player.position.x;
+      const dy = target.y - player.position.y;
+      const dz = target.z - player.position.z;
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      const step = Math.min(dist, HEIST.BOT_SPEED * dt);
+      if (dist > 0) {
+        player.position.x += (dx / dist) * step;
+        player.position.y += (dy / dist) * step;
+        player.position.z += (dz / dist) * step;
+      }
+
+      if (carried) {
+        this.score(match, player.id, player.position);
+      } else {
+        this.grab(match, player.id, player.position);
+        this.slam(match, player.id, player.position, HEIST.MAX_FLIGHT_SPEED);
+      }
+    }
+  }
+
+  private dropTrophy(trophy: HeistTrophy, attackerPosition: Vector3): void {
+    trophy.carrierId = null;
+    trophy.passedBy = null;
+    trophy.state = 'falling';
+    trophy.fallTimer = 0;
 
     // Give trophy some velocity based on direction from attacker
-    const dx = match.trophyPosition.x - attackerPosition.x;
-    const dz = match.trophyPosition.z - attackerPosition.z;
+    const dx = trophy.position.x - attackerPosition.x;
+    const dz = trophy.position.z - attackerPosition.z;
     const len = Math.sqrt(dx * dx + dz * dz) || 1;
 
-    match.trophyVelocity = {
+    trophy.velocity = {
       x: (dx / len) * 10 + (Math.random() - 0.5) * 8,
       y: 5,
       z: (dz / len) * 10 + (Math.random() - 0.5) * 8,
@@ -382,17 +789,20 @@ export class HeistManager {
   }
 
   private handleTimeExpired(match: HeistMatch): void {
-    const players = Array.from(match.players.values());
-    const scores = players.map(p => ({ id: p.id, score: p.score }));
-    scores.sort((a, b) => b.score - a.score);
+    const standings = [...match.teams].sort((a, b) => b.score - a.score);
 
-    if (scores.length >= 2 && scores[0].score === scores[1].score) {
-      // Tied — enter overtime
+    if (standings.length >= 2 && standings[0].score === standings[1].score) {
+      // Tied — enter overtime, next delivery wins. The clock keeps running
+      // across deliveries that leave it tied, so overtime always ends.
       match.state = 'overtime';
-      match.trophyCarrierId = null;
-      match.trophyState = 'idle';
-      match.trophyPosition = { x: 0, y: HEIST.TROPHY_HOVER_HEIGHT, z: 0 };
-      match.trophyVelocity = { x: 0, y: 0, z: 0 };
+      match.overtimeTimer ??= HEIST.OVERTIME_LIMIT;
+      for (const trophy of match.trophies) {
+        trophy.carrierId = null;
+        trophy.passedBy = null;
+        trophy.state = 'idle';
+        trophy.position = { ...trophy.spawnPosition };
+        trophy.velocity = { x: 0, y: 0, z: 0 };
+      }
 
       this.broadcastToMatch(match.id, {
         type: 'heist-overtime',
@@ -401,24 +811,95 @@ export class HeistManager {
     } else {
       // Higher score wins
       match.state = 'complete';
-      this.broadcastMatchEnd(match, scores[0].id);
+      this.broadcastMatchEnd(match, standings[0].index);
     }
   }
 
-  private broadcastMatchEnd(match: HeistMatch, winnerId: string): void {
-    const stats: Record<string, { score: number }> = {};
+  /** Overtime ran out still tied: most slams among the tied teams wins, then a coin flip */
+  private breakTie(match: HeistMatch): void {
+    const slamsOf = (team: HeistTeam) =>
+      team.playerIds.reduce((sum, id) => sum + (match.players.get(id)?.slams ?? 0), 0);
+    const topScore = Math.max(...match.teams.map(t => t.score));
+    const tied = match.teams.filter(t => t.score === topScore);
+    const mostSlams = Math.max(...tied.map(slamsOf));
+    const contenders = tied.filter(t => slamsOf(t) === mostSlams);
+
+    match.state = 'complete';
+    this.broadcastMatchEnd(match, contenders[Math.floor(Math.random() * contenders.length)].index);
+  }
+
+  private broadcastMatchEnd(match: HeistMatch, winningTeam: number): void {
+    const stats: Record<string, { team: number; score: number; slams: number; assists: number; passes: number }> = {};
+    const rewards: Record<string, { coins: number; xp: number; feathers: number }> = {};
     for (const [id, p] of match.players) {
-      stats[id] = { score: p.score };
+      stats[id] = { team: p.team, score: p.delivered, slams: p.slams, assists: p.assists, passes: p.passes };
+      if (p.isBot || !match.rules.rewarded) continue;
+      const won = p.team === winningTeam;
+      const share = this.humanOpponentShare(match, p.team);
+      rewards[id] = {
+        coins: Math.floor((won ? HEIST.REWARD_WIN_COINS : HEIST.REWARD_LOSS_COINS) * share),
+        xp: Math.floor((p.delivered + p.assists) * HEIST.REWARD_XP_PER_POINT * share),
+        feathers: Math.floor((won ? HEIST.REWARD_WIN_FEATHERS : 0) * share),
+      };
     }
 
+    // The winning team's top deliverer, preferring humans
+    const winners = match.teams[winningTeam].playerIds
+      .map(id => match.players.get(id)!)
+      .sort((a, b) => Number(a.isBot) - Number(b.isBot) || b.delivered - a.delivered);
+
     this.broadcastToMatch(match.id, {
       type: 'heist-match-end',
       data: {
         matchId: match.id,
-        winnerId,
+        format: match.format.id,
+        winnerId: winners[0]?.id ?? null,
+        winningTeam,
+        scores: match.teams.map(t => t.score),
         stats,
+        rewards,
       },
     });
+
+    // Rewards are banked straight into the ledger — clients only display them
+    for (const [id, reward] of Object.entries(rewards)) {
+      if (reward.coins === 0 && reward.xp === 0 && reward.feathers === 0) continue;
+      this.ledger?.credit(id, reward, 'heist_reward', match.id).catch((err) => {
+        log.error('Failed to credit reward', { playerId: id, matchId: match.id, err });
+      });
+    }
+
+    this.rateMatch(match, winningTeam);
+    this.onMatchEnd?.(match.id, winners[0]?.id ?? null);
+  }
+
+  /**
+   * Fraction of a team's opponents who are human. Rewards are paid per human
+   * opponent, so beating bots in a bot-filled match earns nothing.
+   */
+  private humanOpponentShare(match: HeistMatch, team: number): number {
+    const opponents = Array.from(match.players.values()).filter(o => o.team !== team);
+    if (opponents.length === 0) return 0;
+    return opponents.filter(o => !o.isBot).length / opponents.length;
+  }
+
+  /** Rate each team with humans on it; bots have no rating and are left out */
+  private rateMatch(match: HeistMatch, winningTeam: number): void {
+    if (!match.rules.rated) return;
+    const sides = match.teams
+      .map((team) => {
+        // The winner ranks first even on a forfeit; the rest rank by score behind it
+        const ahead = match.teams.filter(t => t.index !== winningTeam && t.score > team.score).length;
+        return {
+          ids: team.playerIds.filter(id => !match.players.get(id)!.isBot),
+          rank: team.index === winningTeam ? 1 : 2 + ahead,
+        };
+      })
+      .filter(side => side.ids.length > 0);
+    if (sides.length < 2) return;
+
+    this.ratings?.recordResult(match.format.ratingMode, sides)
+      .catch((err) => log.error('Failed to rate match', { matchId: match.id, err }));
   }
 
   private cleanupMatch(matchId: string): void {
@@ -426,30 +907,48 @@ export class HeistManager {
     if (!match) return;
 
     for (const playerId of match.players.keys()) {
-      this.playerToMatch.delete(playerId);
+      if (this.playerToMatch.get(playerId) === matchId) this.playerToMatch.delete(playerId);
     }
     this.matches.delete(matchId);
   }
 
   /** Handle a player disconnecting */
   handlePlayerDisconnect(playerId: string): void {
+    this.removeFromQueue(playerId);
+    this.leaveMatch(playerId);
+  }
+
+  /** Take a player out of their match: a bot flies their seat, and a side left without humans forfeits */
+  leaveMatch(playerId: string): void {
     const matchId = this.playerToMatch.get(playerId);
     if (!matchId) return;
 
     const match = this.matches.get(matchId);
-    if (!match) return;
-
-    // End the match — disconnecting player forfeits
+    const player = match?.players.get(playerId);
+    if (!match || !player) return;
+
+    // A bot takes over the seat from where the player was
+    const lastPosition = this.getSeatPosition(match, playerId);
+    player.left = true;
+    player.position = lastPosition ? { ...lastPosition } : getHeistSpawnPosition(
+      player.team, match.teams.length, 0, 1, HEIST.PLAYER_SPAWN_DISTANCE, HEIST.PLAYER_SPAWN_HEIGHT,
+    );
+    this.playerToMatch.delete(playerId);
+
+    if (match.state === 'complete') return;
+
+    // The match only goes on while humans on at least two teams are still playing
+    const teamsWithHumans = new Set(
+      Array.from(match.players.values()).filter(p => !p.isBot && !p.left).map(p => p.team),
+    );
+    if (teamsWithHumans.size >= 2) return;
+
+    // Everyone else left — the remaining team wins by forfeit
     match.state = 'complete';
-
-    // Find the other player as winner
-    for (const pid of match.players.keys()) {
-      if (pid !== playerId) {
-        this.broadcastMatchEnd(match, pid);
-        break;
-      }
+    const [remaining] = teamsWithHumans;
+    if (remaining !== undefined) {
+      this.broadcastMatchEnd(match, remaining);
     }
-
     this.cleanupMatch(matchId);
   }
 
@@ -464,14 +963,71 @@ export class HeistManager {
     return this.playerToMatch.has(playerId);
   }
 
-  /** Get trophy state for world state sync */
-  getTrophyState(matchId: string): { position: Vector3; state: TrophyState; carrierId: string | null } | null {
+  private isPlayingMatch(playerId: string): boolean {
+    const match = this.getMatchForPlayer(playerId);
+    return match !== null && match.state !== 'complete';
+  }
+
+  /** Matches still being played, for the spectator listing */
+  getLiveMatchIds(): string[] {
+    return Array.from(this.matches.values()).filter(m => m.state !== 'complete').map(m => m.id);
+  }
+
+  /** Scoreboard, trophies and bot seats of a match, as spectators (and heist-state snapshots) see it */
+  getSpectatorState(matchId: string): SpectatedMatchState | null {
     const match = this.matches.get(matchId);
     if (!match) return null;
+
+    const botPositions: Record<string, Vector3> = {};
+    for (const p of match.players.values()) {
+      if (!p.isBot && !p.left) continue;
+      const position = this.getSeatPosition(match, p.id);
+      if (position) botPositions[p.id] = { ...position };
+    }
+    const participants = this.describeParticipants(match);
+
     return {
-      position: { ...match.trophyPosition },
-      state: match.trophyState,
-      carrierId: match.trophyCarrierId,
+      kind: 'heist',
+      matchId,
+      mode: match.format.id,
+      phase: match.state,
+      timeRemaining: Math.max(0, match.state === 'countdown' ? match.countdownTimer
+        : match.state === 'overtime' ? match.overtimeTimer ?? 0 : match.matchTimer),
+      participants,
+      teamScores: match.teams.map(t => t.score),
+      trophies: this.getTrophyStates(matchId) ?? [],
+      botPositions,
     };
   }
+
+  /** Every seat with its display name, team (null in a free-for-all) and deliveries */
+  private describeParticipants(match: HeistMatch): SpectatedParticipant[] {
+    let botNumber = 0;
+    return Array.from(match.players.values()).map((p) => ({
+      id: p.id,
+      username: p.isBot ? `Bot ${++botNumber}` : this.getPlayer(p.id)?.username ?? p.id,
+      team: match.format.id === 'ffa' ? null : p.team,
+      score: p.delivered,
+      isBot: p.isBot,
+    }));
+  }
+
+  /** Get trophy states for world state sync */
+  getTrophyStates(matchId: string): Array<{ id: number; position: Vector3; state: TrophyState; carrierId: string | null }> | null {
+    const match = this.matches.get(matchId);
+    if (!match) return null;
+    return match.trophies.map(t => ({
+      id: t.id,
+      position: { ...t.position },
+      state: t.state,
+      carrierId: t.carrierId,
+    }));
+  }
+}
+
+function distanceSq(a: Vector3, b: Vector3): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return dx * dx + dy * dy + dz * dz;
 }
@@ -0,0 +1,101 @@
+/**
+ * Logger — leveled, structured server logs.
+ * Each module takes a logger named for its component and logs a short
+ * message plus fields (playerId, sessionId, matchId, shard, ...). In
+ * production every line is one JSON object that log pipelines can index;
+ * elsewhere lines stay readable: `[Component] message key=value`.
+ *
+ *   LOG_LEVEL=debug|info|warn|error   lines below this level are dropped (default info)
+ *   LOG_FORMAT=json|pretty            default json when NODE_ENV=production, pretty otherwise
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every line, e.g. one per session */
+  child(fields: LogFields): Logger;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function isLogLevel(value: string): value is LogLevel {
+  return Object.prototype.hasOwnProperty.call(LEVEL_ORDER, value);
+}
+
+function parseLogLevel(value: string | undefined): LogLevel {
+  const lower = (value || '').trim().toLowerCase();
+  return isLogLevel(lower) ? lower : 'info';
+}
+
+interface LogConfig {
+  minLevel: LogLevel;
+  json: boolean;
+}
+
+let config: LogConfig | null = null;
+
+/** Read on first use rather than at import, so settings loaded from .env by the entry point apply */
+function getConfig(): LogConfig {
+  if (!config) {
+    const format = (process.env.LOG_FORMAT || '').trim().toLowerCase()
+      || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty');
+    config = { minLevel: parseLogLevel(process.env.LOG_LEVEL), json: format === 'json' };
+  }
+  return config;
+}
+
+/** Errors become { message, stack } so they survive JSON.stringify */
+function serializeField(value: unknown): unknown {
+  if (value instanceof Error) return { message: value.message, stack: value.stack };
+  return value;
+}
+
+function formatPretty(component: string, msg: string, fields: LogFields): string {
+  const parts = [`[${component}] ${msg}`];
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    if (value instanceof Error) {
+      parts.push(`${key}=${value.stack ?? value.message}`);
+    } else {
+      parts.push(`${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    }
+  }
+  return parts.join(' ');
+}
+
+function write(level: LogLevel, component: string, msg: string, fields: LogFields): void {
+  const { minLevel, json } = getConfig();
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) return;
+
+  let line: string;
+  if (json) {
+    const record: LogFields = { time: new Date().toISOString(), level, component, msg };
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) record[key] = serializeField(value);
+    }
+    line = JSON.stringify(record);
+  } else {
+    line = formatPretty(component, msg, fields);
+  }
+
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+export function createLogger(component: string, baseFields: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (msg: string, fields: LogFields = {}): void =>
+    write(level, component, msg, { ...baseFields, ...fields });
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (fields) => createLogger(component, { ...baseFields, ...fields }),
+  };
+}
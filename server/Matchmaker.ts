@@ -0,0 +1,101 @@
+/**
+ * Matchmaker — pairs queued entries by skill rating.
+ * Shared by the Heist and MvM queues. A candidate starts out only accepting
+ * opponents close to its rating and widens that window the longer it waits;
+ * recent opponents are skipped until both sides have waited a while.
+ */
+
+import { Rating } from './Ratings';
+
+export interface MatchCandidate {
+  /** Player ID for solo queues, murmuration ID for team queues */
+  id: string;
+  rating: Pick<Rating, 'rating' | 'rd'>;
+  queuedAt: number;
+}
+
+export interface MatchmakerConfig {
+  /** Rating gap accepted straight away */
+  baseWindow: number;
+  /** Extra rating gap accepted per second of waiting */
+  widenPerSecond: number;
+  maxWindow: number;
+  /** How long a pairing counts as recent */
+  rematchCooldownMs: number;
+  /** After waiting this long, a recent opponent is better than no opponent */
+  rematchGraceMs: number;
+}
+
+const DEFAULT_CONFIG: MatchmakerConfig = {
+  baseWindow: 100,
+  widenPerSecond: 10,
+  maxWindow: 800,
+  rematchCooldownMs: 10 * 60_000,
+  rematchGraceMs: 60_000,
+};
+
+export class Matchmaker {
+  private config: MatchmakerConfig;
+  /** id → opponent id → when they were last matched */
+  private recentOpponents = new Map<string, Map<string, number>>();
+
+  constructor(config: Partial<MatchmakerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /** Rating gap a candidate accepts after waiting until `now` */
+  searchWindow(candidate: MatchCandidate, now: number): number {
+    const waitedSeconds = Math.max(0, now - candidate.queuedAt) / 1000;
+    return Math.min(this.config.maxWindow, this.config.baseWindow + waitedSeconds * this.config.widenPerSecond);
+  }
+
+  canMatch(a: MatchCandidate, b: MatchCandidate, now: number): boolean {
+    const gap = Math.abs(a.rating.rating - b.rating.rating);
+    // Whoever has waited longer decides, so a long wait is never stuck behind a fresh entry
+    if (gap > Math.max(this.searchWindow(a, now), this.searchWindow(b, now))) return false;
+
+    const lastMet = this.recentOpponents.get(a.id)?.get(b.id);
+    if (lastMet !== undefined && now - lastMet < this.config.rematchCooldownMs) {
+      const bothWaited = now - a.queuedAt >= this.config.rematchGraceMs && now - b.queuedAt >= this.config.rematchGraceMs;
+      if (!bothWaited) return false;
+    }
+    return true;
+  }
+
+  /** The closest-rated acceptable pair among `candidates`, or null */
+  findPair<T extends MatchCandidate>(candidates: T[], now: number): [T, T] | null {
+    let best: [T, T] | null = null;
+    let bestGap = Infinity;
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        const a = candidates[i];
+        const b = candidates[j];
+        if (!this.canMatch(a, b, now)) continue;
+        const gap = Math.abs(a.rating.rating - b.rating.rating);
+        if (gap < bestGap) {
+          best = [a, b];
+          bestGap = gap;
+        }
+      }
+    }
+    return best;
+  }
+
+  /** Remember a pairing so the two are not immediately matched again */
+  recordMatch(aId: string, bId: string, now: number): void {
+    this.remember(aId, bId, now);
+    this.remember(bId, aId, now);
+  }
+
+  private remember(id: string, opponentId: string, now: number): void {
+    let opponents = this.recentOpponents.get(id);
+    if (!opponents) {
+      opponents = new Map();
+      this.recentOpponents.set(id, opponents);
+    }
+    for (const [otherId, at] of opponents) {
+      if (now - at >= this.config.rematchCooldownMs) opponents.delete(otherId);
+    }
+    opponents.set(opponentId, now);
+  }
+}
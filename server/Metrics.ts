@@ -0,0 +1,179 @@
+/**
+ * Metrics — counters, gauges and summaries rendered in the Prometheus text
+ * format for GET /metrics. Kept dependency-free: the server only needs a
+ * handful of series, and gauges are filled in just before each scrape.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+/** Quantiles reported by every summary */
+const SUMMARY_QUANTILES = [0.5, 0.9, 0.99];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+}
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'summary';
+  /** Sample lines without the HELP/TYPE header */
+  samples(): string[];
+}
+
+/** One value per distinct label set, keyed by the rendered labels */
+abstract class LabeledMetric implements Metric {
+  abstract readonly type: 'counter' | 'gauge';
+  protected values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(formatLabels(labels)) ?? 0;
+  }
+
+  samples(): string[] {
+    return Array.from(this.values, ([labels, value]) => `${this.name}${labels} ${formatValue(value)}`);
+  }
+}
+
+/** Only ever goes up; resets when the process restarts */
+export class Counter extends LabeledMetric {
+  readonly type = 'counter';
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+}
+
+export class Gauge extends LabeledMetric {
+  readonly type = 'gauge';
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.values.set(formatLabels(labels), value);
+  }
+
+  /** Forget every label set, so shards or kinds that are gone stop being reported */
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Quantiles over the last `windowSize` observations, plus a running sum and
+ * count. A sliding window keeps the percentiles about the recent past
+ * rather than everything since startup.
+ */
+export class Summary implements Metric {
+  readonly type = 'summary';
+  private window: Float64Array;
+  private next = 0;
+  private filled = 0;
+  private sum = 0;
+  private count = 0;
+
+  constructor(readonly name: string, readonly help: string, windowSize: number) {
+    this.window = new Float64Array(windowSize);
+  }
+
+  observe(value: number): void {
+    this.window[this.next] = value;
+    this.next = (this.next + 1) % this.window.length;
+    this.filled = Math.min(this.filled + 1, this.window.length);
+    this.sum += value;
+    this.count++;
+  }
+
+  /** The q-quantile of the current window (nearest rank), NaN before anything is observed */
+  quantile(q: number): number {
+    if (this.filled === 0) return NaN;
+    const sorted = this.window.slice(0, this.filled).sort();
+    return sorted[Math.min(this.filled - 1, Math.max(0, Math.ceil(q * this.filled) - 1))];
+  }
+
+  samples(): string[] {
+    return [
+      ...SUMMARY_QUANTILES.map((q) => `${this.name}{quantile="${q}"} ${formatValue(this.quantile(q))}`),
+      `${this.name}_sum ${formatValue(this.sum)}`,
+      `${this.name}_count ${this.count}`,
+    ];
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  summary(name: string, help: string, windowSize: number): Summary {
+    return this.register(new Summary(name, help, windowSize));
+  }
+
+  /** The Prometheus text exposition (version 0.0.4) of every metric */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.samples());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((m) => m.name === metric.name)) {
+      throw new Error(`Metric registered twice: ${metric.name}`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// ── Game server series ──────────────────────────────────────────────────────
+
+/** Observations kept for tick percentiles: one minute at 20 ticks/s */
+const TICK_WINDOW = 1200;
+
+export function createGameServerMetrics() {
+  const registry = new MetricsRegistry();
+  return {
+    registry,
+    tickDuration: registry.summary('birdgame_tick_duration_seconds', 'Time spent running one server tick', TICK_WINDOW),
+    tickSentBytes: registry.summary(
+      'birdgame_tick_sent_bytes', 'Bytes sent to clients per tick, including messages sent since the previous tick', TICK_WINDOW,
+    ),
+    sentBytes: registry.counter('birdgame_sent_bytes_total', 'Bytes sent to clients'),
+    backpressureSkips: registry.counter(
+      'birdgame_backpressure_skips_total', 'Sends skipped because a client buffer was over MAX_BUFFER_SIZE, by stream',
+    ),
+    moveRejections: registry.counter('birdgame_anticheat_rejections_total', 'Movement updates rejected by anti-cheat, by reason'),
+    players: registry.gauge('birdgame_players', 'Connected players, by shard'),
+    bots: registry.gauge('birdgame_bots', 'Bots flying, by shard'),
+    spectators: registry.gauge('birdgame_spectators', 'Connections watching a match'),
+    activeMatches: registry.gauge('birdgame_active_matches', 'PvP sessions, heists and MvM matches in progress, by kind'),
+    uptime: registry.gauge('birdgame_uptime_seconds', 'Seconds since the server started'),
+  };
+}
+
+export type GameServerMetrics = ReturnType<typeof createGameServerMetrics>;
@@ -0,0 +1,346 @@
+/**
+ * Moderation
+ * Bans, mutes, player reports and the admin audit log. Sanctions are keyed
+ * by account for signed-in players and by device for guests (a guest who
+ * clears their name still brings the same device), and may run out on
+ * their own. Every admin command is recorded so `/history` can show what
+ * happened to a player and who did it.
+ *
+ * Storage is pluggable like ratings: in-memory for local play and an
+ * append-only JSON lines file as a SQLite stand-in. The book replays its
+ * store on startup, so bans and mutes survive a restart.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { getAccountId } from './EconomyLedger';
+import { createLogger } from './Logger';
+
+const log = createLogger('Moderation');
+
+export type SanctionKind = 'ban' | 'mute';
+
+export interface Sanction {
+  id: string;
+  kind: SanctionKind;
+  /** Account ID, `device:<id>` for a guest, or the guest ID when the client sent no device */
+  subjectId: string;
+  username: string;
+  reason: string;
+  issuedBy: string;
+  issuedAt: number;
+  /** Null until lifted by hand */
+  expiresAt: number | null;
+  liftedAt: number | null;
+  liftedBy: string | null;
+}
+
+export interface PlayerReport {
+  id: string;
+  reporterId: string;
+  reporterName: string;
+  subjectId: string;
+  username: string;
+  reason: string;
+  shardId: string;
+  at: number;
+}
+
+export interface AuditEntry {
+  at: number;
+  adminId: string;
+  adminName: string;
+  command: string;
+  /** Everything after the command, as typed */
+  args: string;
+  shardId: string;
+}
+
+/** One line of the store; the book is rebuilt by applying them in order */
+export type ModerationRecord =
+  | { type: 'sanction'; sanction: Sanction }
+  | { type: 'lift'; sanctionId: string; by: string; at: number }
+  | { type: 'report'; report: PlayerReport }
+  | { type: 'audit'; entry: AuditEntry };
+
+export interface ModerationStore {
+  load(): Promise<ModerationRecord[]>;
+  append(record: ModerationRecord): Promise<void>;
+}
+
+export interface ModerationHistory {
+  sanctions: Sanction[];
+  reports: PlayerReport[];
+  /** Admin commands naming the player */
+  actions: AuditEntry[];
+}
+
+const DEVICE_PREFIX = 'device:';
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const DURATION_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** The device ID a client sent with `join`, or null if it is missing or malformed */
+export function normalizeDeviceId(raw: unknown): string | null {
+  return typeof raw === 'string' && DEVICE_ID_PATTERN.test(raw) ? raw : null;
+}
+
+/** Who a new sanction on this player applies to: their account, or their device when a guest */
+export function getModerationSubject(playerId: string, deviceId: string | null): string {
+  if (playerId.startsWith('guest_') && deviceId) return DEVICE_PREFIX + deviceId;
+  return getAccountId(playerId);
+}
+
+/** Every subject a sanction on this player could have been filed under */
+export function getModerationSubjects(playerId: string, deviceId: string | null): string[] {
+  const subjects = [getAccountId(playerId)];
+  if (playerId.startsWith('guest_') && deviceId) subjects.push(DEVICE_PREFIX + deviceId);
+  return subjects;
+}
+
+/**
+ * A duration argument such as `30m`, `12h`, `7d` or `2w`; `perm` means until
+ * lifted (null). Anything else is not a duration (undefined), so the caller
+ * can treat it as the start of the reason.
+ */
+export function parseModerationDuration(token: string | undefined): number | null | undefined {
+  if (!token) return undefined;
+  const lower = token.toLowerCase();
+  if (lower === 'perm' || lower === 'permanent') return null;
+  const match = /^(\d{1,4})([mhdw])$/.exec(lower);
+  if (!match) return undefined;
+  const ms = Number(match[1]) * DURATION_UNITS[match[2]];
+  return ms > 0 ? ms : undefined;
+}
+
+/** `[duration] [reason...]` after a player name; the duration may be left out */
+export function parseSanctionArgs(args: string[], defaultMs: number | null): { durationMs: number | null; reason: string } {
+  const duration = parseModerationDuration(args[0]);
+  const reasonWords = duration === undefined ? args : args.slice(1);
+  return {
+    durationMs: duration === undefined ? defaultMs : duration,
+    reason: reasonWords.join(' ').trim(),
+  };
+}
+
+/** Shortest readable form of a duration, e.g. `90m` → `1h30m` */
+export function formatModerationDuration(ms: number): string {
+  let rest = Math.max(0, Math.round(ms / 60_000));
+  const parts: string[] = [];
+  for (const [unit, minutes] of [['d', 1440], ['h', 60], ['m', 1]] as const) {
+    const count = Math.floor(rest / minutes);
+    if (count > 0) parts.push(`${count}${unit}`);
+    rest -= count * minutes;
+  }
+  return parts.slice(0, 2).join('') || '1m';
+}
+
+/** "permanent" or the time left, for replies and the banned player's error */
+export function describeSanctionTerm(sanction: Sanction, now: number): string {
+  return sanction.expiresAt === null ? 'permanent' : `${formatModerationDuration(sanction.expiresAt - now)} left`;
+}
+
+function isActive(sanction: Sanction, now: number): boolean {
+  return sanction.liftedAt === null && (sanction.expiresAt === null || sanction.expiresAt > now);
+}
+
+function newRecordId(prefix: string, now: number): string {
+  return `${prefix}_${now.toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// ── Stores ──────────────────────────────────────────────────────────────────
+
+export class InMemoryModerationStore implements ModerationStore {
+  private records: ModerationRecord[] = [];
+
+  async load(): Promise<ModerationRecord[]> {
+    return [...this.records];
+  }
+
+  async append(record: ModerationRecord): Promise<void> {
+    this.records.push(record);
+  }
+}
+
+/** Append-only JSON lines file, replayed in order on startup */
+export class JsonFileModerationStore implements ModerationStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<ModerationRecord[]> {
+    if (!existsSync(this.filePath)) return [];
+    const records: ModerationRecord[] = [];
+    for (const line of readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as ModerationRecord);
+      } catch {
+        log.warn('Skipping corrupt line', { file: this.filePath });
+      }
+    }
+    return records;
+  }
+
+  async append(record: ModerationRecord): Promise<void> {
+    appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+  }
+}
+
+/**
+ * Pick a store from environment:
+ *   MODERATION_STORE=memory (default) | file
+ *   MODERATION_FILE=./moderation.jsonl
+ */
+export function createModerationStoreFromEnv(): ModerationStore {
+  const kind = (process.env.MODERATION_STORE || 'memory').trim().toLowerCase();
+
+  if (kind === 'file') {
+    const filePath = (process.env.MODERATION_FILE || './moderation.jsonl').trim();
+    log.info('Using file store', { file: filePath });
+    return new JsonFileModerationStore(filePath);
+  }
+
+  return new InMemoryModerationStore();
+}
+
+// ── Moderation book ─────────────────────────────────────────────────────────
+
+export class ModerationBook {
+  private store: ModerationStore;
+  private sanctions = new Map<string, Sanction>();
+  private reports: PlayerReport[] = [];
+  private auditLog: AuditEntry[] = [];
+
+  /** Resolves once the store has been replayed; joins should wait for it */
+  readonly loaded: Promise<void>;
+
+  constructor(store: ModerationStore = new InMemoryModerationStore()) {
+    this.store = store;
+    this.loaded = store.load().then(
+      (records) => records.forEach((record) => this.apply(record)),
+      (err) => log.error('Failed to load store', { err }),
+    );
+  }
+
+  private apply(record: ModerationRecord): void {
+    switch (record.type) {
+      case 'sanction':
+        this.sanctions.set(record.sanction.id, { ...record.sanction });
+        break;
+      case 'lift': {
+        const sanction = this.sanctions.get(record.sanctionId);
+        if (sanction && sanction.liftedAt === null) {
+          sanction.liftedAt = record.at;
+          sanction.liftedBy = record.by;
+        }
+        break;
+      }
+      case 'report':
+        this.reports.push(record.report);
+        break;
+      case 'audit':
+        this.auditLog.push(record.entry);
+        break;
+    }
+  }
+
+  /** Apply now and persist in the background; a failed write is logged, not thrown */
+  private record(record: ModerationRecord): void {
+    this.apply(record);
+    this.store.append(record).catch((err) => log.error('Failed to persist record', { type: record.type, err }));
+  }
+
+  /** The first active sanction of this kind on any of the subjects */
+  getActive(kind: SanctionKind, subjectIds: string[], now = Date.now()): Sanction | null {
+    for (const sanction of this.sanctions.values()) {
+      if (sanction.kind === kind && subjectIds.includes(sanction.subjectId) && isActive(sanction, now)) {
+        return sanction;
+      }
+    }
+    return null;
+  }
+
+  listActive(kind: SanctionKind, now = Date.now()): Sanction[] {
+    return Array.from(this.sanctions.values()).filter((s) => s.kind === kind && isActive(s, now));
+  }
+
+  /**
+   * Ban or mute a subject for `durationMs` (null: until lifted). Replaces
+   * any active sanction of the same kind, so a second /mute changes the term.
+   */
+  impose(
+    kind: SanctionKind,
+    subjectId: string,
+    username: string,
+    reason: string,
+    issuedBy: string,
+    durationMs: number | null,
+    now = Date.now(),
+  ): Sanction {
+    const existing = this.getActive(kind, [subjectId], now);
+    if (existing) this.record({ type: 'lift', sanctionId: existing.id, by: issuedBy, at: now });
+
+    const sanction: Sanction = {
+      id: newRecordId(kind, now),
+      kind,
+      subjectId,
+      username,
+      reason,
+      issuedBy,
+      issuedAt: now,
+      expiresAt: durationMs === null ? null : now + durationMs,
+      liftedAt: null,
+      liftedBy: null,
+    };
+    this.record({ type: 'sanction', sanction });
+    return sanction;
+  }
+
+  /** Lift the active sanction matching a subject ID or username; null if there is none */
+  lift(kind: SanctionKind, subjectOrName: string, by: string, now = Date.now()): Sanction | null {
+    const lower = subjectOrName.toLowerCase();
+    const sanction = this.listActive(kind, now).find(
+      (s) => s.subjectId === subjectOrName || s.username.toLowerCase() === lower,
+    );
+    if (!sanction) return null;
+    this.record({ type: 'lift', sanctionId: sanction.id, by, at: now });
+    return sanction;
+  }
+
+  report(report: Omit<PlayerReport, 'id'>): PlayerReport {
+    const entry: PlayerReport = { id: newRecordId('report', report.at), ...report };
+    this.record({ type: 'report', report: entry });
+    return entry;
+  }
+
+  audit(entry: AuditEntry): void {
+    this.record({ type: 'audit', entry });
+  }
+
+  /** Everything on file about a player, newest first, matched by subject or by name */
+  getHistory(subjectIds: string[], username: string, limit = 10): ModerationHistory {
+    const lower = username.toLowerCase();
+    const matches = (subjectId: string, name: string): boolean =>
+      subjectIds.includes(subjectId) || name.toLowerCase() === lower;
+    const newestFirst = <T>(items: T[], at: (item: T) => number): T[] =>
+      items.sort((a, b) => at(b) - at(a)).slice(0, limit);
+
+    return {
+      sanctions: newestFirst(
+        Array.from(this.sanctions.values()).filter((s) => matches(s.subjectId, s.username)),
+        (s) => s.issuedAt,
+      ),
+      reports: newestFirst(this.reports.filter((r) => matches(r.subjectId, r.username)), (r) => r.at),
+      actions: newestFirst(
+        this.auditLog.filter((e) => (e.args.split(' ')[0] || '').toLowerCase() === lower),
+        (e) => e.at,
+      ),
+    };
+  }
+}
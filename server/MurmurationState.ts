@@ -2,8 +2,18 @@
  * Server-side Murmuration member tracking for real-time features.
  * Tracks which Murmuration each connected player belongs to,
  * routes chat messages, and manages Roost proximity.
+ *
+ * Players claim their murmuration when they join. Claims are checked against
+ * a MembershipDirectory first, because MvM teams and murmuration ratings are
+ * built from the registered members.
  */
 
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getAccountId } from './EconomyLedger';
+import { createLogger } from './Logger';
+
+const log = createLogger('Murmurations');
+
 interface MurmurationMemberInfo {
   playerId: string;
   murmurationId: string;
@@ -19,6 +29,65 @@ interface RoostZone {
 }
 
 type SendFn = (playerId: string, msg: any) => void;
+
+// ── Membership directory ────────────────────────────────────────────────────
+
+export interface MembershipDirectory {
+  /** Whether the player's account is a member of the murmuration */
+  isMember(playerId: string, murmurationId: string): Promise<boolean>;
+}
+
+/** Local play without a database: every claim is taken at its word */
+export class TrustingMembershipDirectory implements MembershipDirectory {
+  async isMember(): Promise<boolean> {
+    return true;
+  }
+}
+
+/** The murmuration_members table, read with the service key */
+export class SupabaseMembershipDirectory implements MembershipDirectory {
+  private client: SupabaseClient;
+
+  constructor(url: string, serviceKey: string) {
+    this.client = createClient(url, serviceKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+
+  async isMember(playerId: string, murmurationId: string): Promise<boolean> {
+    // Guests and bots have no account to be a member with
+    if (playerId.startsWith('guest_') || playerId.startsWith('bot_')) return false;
+
+    const { data, error } = await this.client
+      .from('murmuration_members')
+      .select('user_id')
+      .eq('user_id', getAccountId(playerId))
+      .eq('murmuration_id', murmurationId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data !== null;
+  }
+}
+
+/**
+ * Check claims against Supabase when the server has its service key,
+ * otherwise trust them (local play).
+ *
+ *   SUPABASE_URL=...  SUPABASE_SERVICE_KEY=...
+ */
+export function createMembershipDirectoryFromEnv(): MembershipDirectory {
+  const url = (process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '').trim();
+  const key = (process.env.SUPABASE_SERVICE_KEY || '').trim();
+  if (url && key) {
+    log.info('Verifying memberships with Supabase');
+    return new SupabaseMembershipDirectory(url, key);
+  }
+  log.info('No SUPABASE_SERVICE_KEY — trusting murmuration claims');
+  return new TrustingMembershipDirectory();
+}
+
+// ── Online members ──────────────────────────────────────────────────────────
+
 type BroadcastFn = (murmurationId: string, msg: any, excludePlayerId?: string) => void;
 
 export class MurmurationState {
@@ -1,13 +1,31 @@
 /**
  * Server-side MvM matchmaking, round management, and scoring.
- * Handles the MvM PvP queue, matches Murmurations, runs rounds, and distributes rewards.
+ * Handles the MvM PvP queue, matches Murmurations by team rating, runs rounds,
+ * distributes rewards, and rates the result (each player and each murmuration).
+ *
+ * Scoring per mode:
+ *   team_poop_tag      — poop hits on the other team (the world's PvP hit flow)
+ *   team_race          — validated checkpoints plus finish bonuses (pvp-checkpoint)
+ *   team_splat_attack  — validated statue hits (pvp-hit)
+ *   territory_war      — seconds of zone control; zones flip when only one team is inside
+ * Every point is also credited to the player who earned it, and the top
+ * contributor is the match MVP.
  */
 
-import WebSocket from 'ws';
+import { EconomyLedger } from './EconomyLedger';
+import { SpectatedMatchState, Vector3 } from '../shared/types';
+import { PvPModeRules, PvPPlayerLookup, RaceRules, PoopCoverRules } from './PvPModeRules';
+import { RatingBook, murmurationSubject } from './Ratings';
+import { Matchmaker } from './Matchmaker';
+import { createLogger } from './Logger';
+
+const log = createLogger('MvM');
 
 interface MvMMode {
   id: string;
   duration: number; // seconds
+  /** Rules that validate this mode's checkpoint or statue claims */
+  createRules?: (getPlayer: PvPPlayerLookup) => PvPModeRules;
 }
 
 interface QueueEntry {
@@ -18,6 +36,8 @@ interface QueueEntry {
   mode: string;
   teamSize: number;
   playerIds: string[];
+  /** Teams only meet teams in the same shard */
+  shardId: string;
   queuedAt: number;
 }
 
@@ -32,94 +52,145 @@ interface ActiveMatch {
   timeRemaining: number;
   startedAt: number;
   zones?: TerritoryZone[];
+  rules: PvPModeRules | null;
+  /** Points each player earned for their team */
+  contributions: Map<string, number>;
+  racersFinished: number;
 }
 
 interface TerritoryZone {
   id: number;
-  position: { x: number; y: number; z: number };
+  position: Vector3;
   controlledBy: 'a' | 'b' | 'none';
   captureProgress: number;
   capturingTeam: 'a' | 'b' | 'none';
 }
 
+interface MvMRewards {
+  coins: number;
+  feathers: number;
+  formation_xp: number;
+  is_mvp: boolean;
+}
+
+interface MvMMvp {
+  playerId: string;
+  username: string;
+  team: 'a' | 'b';
+  points: number;
+}
+
 type SendFn = (playerId: string, msg: any) => void;
 
 const COUNTDOWN_SECONDS = 5;
 const RESULTS_DISPLAY_SECONDS = 10;
 
-// Match durations per mode
-const MODE_DURATIONS: Record<string, number> = {
-  team_poop_tag: 180,
-  team_race: 90,
-  team_splat_attack: 90,
-  territory_war: 300,
+const MVM_MODES: Record<string, MvMMode> = {
+  team_poop_tag: { id: 'team_poop_tag', duration: 180 },
+  team_race: { id: 'team_race', duration: 90, createRules: (getPlayer) => new RaceRules(getPlayer) },
+  team_splat_attack: { id: 'team_splat_attack', duration: 90, createRules: (getPlayer) => new PoopCoverRules(getPlayer) },
+  territory_war: { id: 'territory_war', duration: 300 },
 };
 
-const FORMATION_RANGE = 2;
-const MATCHMAKING_TIMEOUT_MS = 60_000;
-
 // Territory War constants
 const TERRITORY_ZONE_COUNT = 3;
 const TERRITORY_POINTS_TO_WIN = 300;
 const TERRITORY_CAPTURE_TIME = 5;
 const TERRITORY_POINTS_PER_SECOND = 1;
+const TERRITORY_ZONE_RADIUS = 30;
+
+// Team mode scoring
+const TEAM_TAG_HIT_POINTS = 1;
+const TEAM_RACE_CHECKPOINT_POINTS = 1;
+const TEAM_RACE_FINISH_BONUS = [10, 6, 4, 2];
+
+// Rewards (mirror of client Constants.ts MVM section)
+const REWARDS: Record<'win' | 'loss' | 'draw', Omit<MvMRewards, 'is_mvp'>> = {
+  win: { coins: 200, feathers: 50, formation_xp: 500 },
+  loss: { coins: 50, feathers: 10, formation_xp: 200 },
+  draw: { coins: 100, feathers: 25, formation_xp: 200 },
+};
+const MVP_BONUS_COINS = 100;
+const MVP_BONUS_FORMATION_XP = 100;
 
 export class MvMManager {
   private queue: QueueEntry[] = [];
   private activeMatches: Map<string, ActiveMatch> = new Map();
   private playerMatchMap: Map<string, string> = new Map(); // playerId -> matchId
   private sendToPlayer: SendFn;
+  private ledger: EconomyLedger | null;
+  private getPlayer: PvPPlayerLookup;
+  private ratings: RatingBook | null;
+  private matchmaker = new Matchmaker();
   private matchCounter = 0;
 
-  constructor(sendFn: SendFn) {
+  constructor(
+    sendFn: SendFn,
+    ledger: EconomyLedger | null = null,
+    getPlayer: PvPPlayerLookup = () => undefined,
+    ratings: RatingBook | null = null,
+  ) {
     this.sendToPlayer = sendFn;
+    this.ledger = ledger;
+    this.getPlayer = getPlayer;
+    this.ratings = ratings;
   }
 
-  addToQueue(entry: QueueEntry): void {
-    // Remove any existing entry for this murmuration
-    this.queue = this.queue.filter(e => e.murmurationId !== entry.murmurationId);
-    this.queue.push(entry);
-    this.tryMatchmaking();
+  /**
+   * Queue a murmuration's team, replacing its earlier entry. False when a
+   * player is already playing or queued for another team, so no bird can
+   * end up on both sides of a match.
+   */
+  addToQueue(entry: QueueEntry): boolean {
+    if (entry.playerIds.some((id) => this.playerMatchMap.has(id))) return false;
+    const others = this.queue.filter(e => e.murmurationId !== entry.murmurationId);
+    if (others.some((e) => e.playerIds.some((id) => entry.playerIds.includes(id)))) return false;
+
+    this.queue = [...others, entry];
+
+    // Matchmaking needs the team rating cached first
+    const loaded = this.ratings?.load(murmurationSubject(entry.murmurationId), entry.mode) ?? Promise.resolve();
+    loaded.then(() => this.tryMatchmaking()).catch((err) => log.error('Matchmaking failed', { err }));
+    return true;
   }
 
-  removeFromQueue(murmurationId: string): void {
-    this.queue = this.queue.filter(e => e.murmurationId !== murmurationId);
+  /** Leave the queue by murmuration ID, or by the ID of any queued member */
+  removeFromQueue(id: string): void {
+    this.queue = this.queue.filter(e => e.murmurationId !== id && !e.playerIds.includes(id));
   }
 
+  /** Pair the closest-rated teams queued in the same shard for the same mode and size; windows widen as they wait */
   private tryMatchmaking(): void {
     const now = Date.now();
+    const buckets = new Map<string, QueueEntry[]>();
+    for (const entry of this.queue) {
+      const key = `${entry.shardId}/${entry.mode}/${entry.teamSize}`;
+      const bucket = buckets.get(key) ?? [];
+      bucket.push(entry);
+      buckets.set(key, bucket);
+    }
 
-    for (let i = 0; i < this.queue.length; i++) {
-      const a = this.queue[i];
-
-      for (let j = i + 1; j < this.queue.length; j++) {
-        const b = this.queue[j];
-
-        // Must be same mode and team size
-        if (a.mode !== b.mode || a.teamSize !== b.teamSize) continue;
-
-        // Formation level range check
-        if (Math.abs(a.formationLevel - b.formationLevel) > FORMATION_RANGE) {
-          // Allow wider range after timeout
-          const aWaiting = now - a.queuedAt > MATCHMAKING_TIMEOUT_MS;
-          const bWaiting = now - b.queuedAt > MATCHMAKING_TIMEOUT_MS;
-          if (!aWaiting && !bWaiting) continue;
-        }
-
-        // Match found! Remove from queue and start
-        this.queue.splice(j, 1);
-        this.queue.splice(i, 1);
-        this.createMatch(a, b);
-        return;
-      }
+    for (const bucket of buckets.values()) {
+      if (bucket.length < 2) continue;
+      const candidates = bucket.map((entry) => ({
+        id: entry.murmurationId,
+        rating: this.ratings?.peek(murmurationSubject(entry.murmurationId), entry.mode) ?? { rating: 0, rd: 0 },
+        queuedAt: entry.queuedAt,
+        entry,
+      }));
+
+      const pair = this.matchmaker.findPair(candidates, now);
+      if (!pair) continue;
+      const [a, b] = pair;
+      this.queue = this.queue.filter(e => e !== a.entry && e !== b.entry);
+      this.matchmaker.recordMatch(a.id, b.id, now);
+      this.createMatch(a.entry, b.entry);
     }
   }
 
   private createMatch(teamA: QueueEntry, teamB: QueueEntry): void {
     this.matchCounter++;
     const matchId = `mvm_${this.matchCounter}_${Date.now()}`;
-    const duration = MODE_DURATIONS[teamA.mode] || 180;
-
     const match: ActiveMatch = {
       id: matchId,
       mode: teamA.mode,
@@ -130,6 +201,9 @@ export class MvMManager {
       state: 'countdown',
       timeRemaining: COUNTDOWN_SECONDS,
       startedAt: Date.now(),
+      rules: null,
+      contributions: new Map(),
+      racersFinished: 0,
     };
 
     // Initialize territory zones if Territory War
@@ -145,26 +219,29 @@ export class MvMManager {
     }
 
     // Notify all players
-    const matchFoundMsg = (team: QueueEntry, opponent: QueueEntry) => ({
+    const describe = (team: QueueEntry, color: number) => ({
+      murmuration_id: team.murmurationId,
+      murmuration_name: team.murmurationName,
+      murmuration_tag: team.murmurationTag,
+      player_ids: team.playerIds,
+      color,
+    });
+    const matchFoundMsg = (side: 'a' | 'b', team: QueueEntry, opponent: QueueEntry) => ({
       type: 'mvm_match_found',
       data: {
         matchId,
         mode: teamA.mode,
-        opponent: {
-          murmuration_id: opponent.murmurationId,
-          murmuration_name: opponent.murmurationName,
-          murmuration_tag: opponent.murmurationTag,
-          player_ids: opponent.playerIds,
-          color: 0xff4444,
-        },
+        teamSide: side,
+        localTeam: describe(team, 0x4488ff),
+        opponent: describe(opponent, 0xff4444),
       },
     });
 
     for (const pid of teamA.playerIds) {
-      this.sendToPlayer(pid, matchFoundMsg(teamA, teamB));
+      this.sendToPlayer(pid, matchFoundMsg('a', teamA, teamB));
     }
     for (const pid of teamB.playerIds) {
-      this.sendToPlayer(pid, matchFoundMsg(teamB, teamA));
+      this.sendToPlayer(pid, matchFoundMsg('b', teamB, teamA));
     }
   }
 
@@ -189,6 +266,9 @@ export class MvMManager {
   }
 
   update(dt: number): void {
+    // Re-check the queue as search windows widen
+    if (this.queue.length >= 2) this.tryMatchmaking();
+
     for (const [matchId, match] of this.activeMatches) {
       match.timeRemaining -= dt;
 
@@ -196,13 +276,16 @@ export class MvMManager {
         case 'countdown':
           if (match.timeRemaining <= 0) {
             match.state = 'active';
-            match.timeRemaining = MODE_DURATIONS[match.mode] || 180;
+            match.timeRemaining = MVM_MODES[match.mode]?.duration || 180;
+            match.rules = MVM_MODES[match.mode]?.createRules?.(this.getPlayer) ?? null;
+            match.rules?.start(this.getMatchPlayerIds(match), Date.now());
           }
           break;
 
         case 'active':
-          // Territory War: accumulate points
+          // Territory War: members inside zones capture them, held zones accumulate points
           if (match.mode === 'territory_war' && match.zones) {
+            this.updateTerritory(match, dt);
             for (const zone of match.zones) {
               if (zone.controlledBy === 'a') match.scores.a += TERRITORY_POINTS_PER_SECOND * dt;
               else if (zone.controlledBy === 'b') match.scores.b += TERRITORY_POINTS_PER_SECOND * dt;
@@ -215,8 +298,8 @@ export class MvMManager {
             }
           }
 
-          // Time expired
-          if (match.timeRemaining <= 0) {
+          // Time expired, or every racer is home
+          if (match.timeRemaining <= 0 || match.rules?.isComplete()) {
             this.endMatch(matchId);
             continue;
           }
@@ -244,24 +327,70 @@ export class MvMManager {
     const winner: 'a' | 'b' | 'draw' =
       match.scores.a > match.scores.b ? 'a' :
       match.scores.b > match.scores.a ? 'b' : 'draw';
+    const mvp = this.pickMvp(match, winner);
+    const contributions = Object.fromEntries(
+      [...match.contributions].map(([pid, points]) => [pid, Math.floor(points)]),
+    );
+
+    // One member per murmuration reports the win/loss to the murmuration record
+    const reporters = new Set([match.teamA.playerIds[0], match.teamB.playerIds[0]]);
+
+    for (const [side, team] of [['a', match.teamA], ['b', match.teamB]] as const) {
+      const outcome = winner === 'draw' ? 'draw' : winner === side ? 'win' : 'loss';
+      for (const pid of team.playerIds) {
+        const isMvp = mvp?.playerId === pid;
+        const rewards: MvMRewards = {
+          coins: REWARDS[outcome].coins + (isMvp ? MVP_BONUS_COINS : 0),
+          feathers: REWARDS[outcome].feathers,
+          formation_xp: REWARDS[outcome].formation_xp + (isMvp ? MVP_BONUS_FORMATION_XP : 0),
+          is_mvp: isMvp,
+        };
+
+        this.sendToPlayer(pid, {
+          type: 'mvm_match_end',
+          data: {
+            winner,
+            stats: { a: Math.floor(match.scores.a), b: Math.floor(match.scores.b) },
+            rewards,
+            mvp,
+            contributions,
+            reportResult: reporters.has(pid),
+          },
+        });
+        this.ledger?.credit(pid, { coins: rewards.coins, feathers: rewards.feathers }, 'mvm_reward', matchId)
+          .catch((err) => log.error('Failed to credit reward', { playerId: pid, matchId, err }));
+      }
+    }
 
-    const endMsg = {
-      type: 'mvm_match_end',
-      data: {
-        winner,
-        stats: { a: Math.floor(match.scores.a), b: Math.floor(match.scores.b) },
-        rewards: {
-          coins: winner !== 'draw' ? 200 : 100,
-          feathers: winner !== 'draw' ? 50 : 25,
-          formation_xp: winner !== 'draw' ? 500 : 200,
-          is_mvp: false,
-        },
-      },
+    // Rate every member and both murmurations; a draw ranks the teams equal
+    const rankA = winner === 'b' ? 2 : 1;
+    const rankB = winner === 'a' ? 2 : 1;
+    const rate = (sides: Array<{ ids: string[]; rank: number }>): void => {
+      this.ratings?.recordResult(match.mode, sides)
+        .catch((err) => log.error('Failed to rate match', { matchId, err }));
     };
+    rate([{ ids: match.teamA.playerIds, rank: rankA }, { ids: match.teamB.playerIds, rank: rankB }]);
+    rate([
+      { ids: [murmurationSubject(match.teamA.murmurationId)], rank: rankA },
+      { ids: [murmurationSubject(match.teamB.murmurationId)], rank: rankB },
+    ]);
 
-    for (const pid of [...match.teamA.playerIds, ...match.teamB.playerIds]) {
-      this.sendToPlayer(pid, endMsg);
+    match.rules = null;
+  }
+
+  /** Top contributor, ties going to the winning side; nobody if no one scored */
+  private pickMvp(match: ActiveMatch, winner: 'a' | 'b' | 'draw'): MvMMvp | null {
+    let best: MvMMvp | null = null;
+    for (const [pid, contribution] of match.contributions) {
+      const team = this.teamOf(match, pid);
+      const points = Math.floor(contribution);
+      if (!team || points <= 0) continue;
+      const beats = !best || points > best.points || (points === best.points && team === winner && best.team !== winner);
+      if (beats) {
+        best = { playerId: pid, username: this.getPlayer(pid)?.username || pid, team, points };
+      }
     }
+    return best;
   }
 
   private broadcastMatchUpdate(match: ActiveMatch): void {
@@ -270,15 +399,124 @@ export class MvMManager {
       data: {
         scores: { a: Math.floor(match.scores.a), b: Math.floor(match.scores.b) },
         time: Math.max(0, Math.floor(match.timeRemaining)),
-        zones: match.zones,
+        zones: match.zones?.map((zone) => ({
+          id: zone.id,
+          position: zone.position,
+          controlled_by: zone.controlledBy,
+          capture_progress: zone.captureProgress,
+          capturing_team: zone.capturingTeam,
+        })),
+        modeData: match.rules?.getModeData(),
       },
     };
 
-    for (const pid of [...match.teamA.playerIds, ...match.teamB.playerIds]) {
+    this.sendToMatch(match, msg);
+  }
+
+  private sendToMatch(match: ActiveMatch, msg: any): void {
+    for (const pid of this.getMatchPlayerIds(match)) {
       this.sendToPlayer(pid, msg);
     }
   }
 
+  private getMatchPlayerIds(match: ActiveMatch): string[] {
+    return [...match.teamA.playerIds, ...match.teamB.playerIds];
+  }
+
+  private teamOf(match: ActiveMatch, playerId: string): 'a' | 'b' | null {
+    if (match.teamA.playerIds.includes(playerId)) return 'a';
+    if (match.teamB.playerIds.includes(playerId)) return 'b';
+    return null;
+  }
+
+  /** The active match a player is scoring in, if its mode is `mode` */
+  private getActiveMatch(playerId: string, mode: string): ActiveMatch | null {
+    const matchId = this.playerMatchMap.get(playerId);
+    const match = matchId ? this.activeMatches.get(matchId) : undefined;
+    if (!match || match.state !== 'active' || match.mode !== mode) return null;
+    return match;
+  }
+
+  private award(match: ActiveMatch, playerId: string, points: number): void {
+    const team = this.teamOf(match, playerId);
+    if (!team || points <= 0) return;
+    match.scores[team] += points;
+    match.contributions.set(playerId, (match.contributions.get(playerId) || 0) + points);
+  }
+
+  // --- Mode scoring ---
+
+  /** Team Poop Tag: a PvP poop hit on the other team scores for the attacker's side */
+  handlePvPHit(attackerId: string, victimId: string): void {
+    const match = this.getActiveMatch(attackerId, 'team_poop_tag');
+    if (!match) return;
+    const attackerTeam = this.teamOf(match, attackerId);
+    const victimTeam = this.teamOf(match, victimId);
+    if (!victimTeam || victimTeam === attackerTeam) return;
+    this.award(match, attackerId, TEAM_TAG_HIT_POINTS);
+  }
+
+  /** Team Race: validated checkpoints score, and finishing adds a bonus by finish order */
+  handleCheckpoint(playerId: string, checkpoint: number, now: number): boolean {
+    const match = this.getActiveMatch(playerId, 'team_race');
+    if (!match || !match.rules) return false;
+    const message = match.rules.claimCheckpoint(playerId, checkpoint, now);
+    if (!message) return false;
+
+    let points = TEAM_RACE_CHECKPOINT_POINTS;
+    if (match.rules instanceof RaceRules && match.rules.hasFinished(playerId)) {
+      points += TEAM_RACE_FINISH_BONUS[match.racersFinished] ?? 1;
+      match.racersFinished++;
+    }
+    this.award(match, playerId, points);
+    this.sendToMatch(match, message);
+    return true;
+  }
+
+  /** Team Splat Attack: validated statue hits score their points */
+  handleStatueHit(playerId: string, hitPosition: unknown, now: number): boolean {
+    const match = this.getActiveMatch(playerId, 'team_splat_attack');
+    if (!match || !match.rules) return false;
+    const message = match.rules.claimStatueHit(playerId, hitPosition, now);
+    if (!message) return false;
+
+    this.award(match, playerId, Number(message.data.points) || 0);
+    this.sendToMatch(match, message);
+    return true;
+  }
+
+  /** Territory War: a zone with only one team's members inside is captured (or held) by that team */
+  private updateTerritory(match: ActiveMatch, dt: number): void {
+    if (!match.zones) return;
+
+    for (const zone of match.zones) {
+      const inside = { a: [] as string[], b: [] as string[] };
+      for (const pid of this.getMatchPlayerIds(match)) {
+        const player = this.getPlayer(pid);
+        const team = this.teamOf(match, pid);
+        if (!player || !team) continue;
+        const dx = player.position.x - zone.position.x;
+        const dy = player.position.y - zone.position.y;
+        const dz = player.position.z - zone.position.z;
+        if (dx * dx + dy * dy + dz * dz <= TERRITORY_ZONE_RADIUS * TERRITORY_ZONE_RADIUS) {
+          inside[team].push(pid);
+        }
+      }
+
+      // Contested or empty zones hold their state
+      const team = inside.a.length > 0 && inside.b.length === 0 ? 'a'
+        : inside.b.length > 0 && inside.a.length === 0 ? 'b'
+        : null;
+      if (!team) continue;
+
+      this.updateZoneCapture(match.id, team, zone.id, dt);
+      // Time spent taking or holding a zone is each member's contribution
+      for (const pid of inside[team]) {
+        match.contributions.set(pid, (match.contributions.get(pid) || 0) + dt);
+      }
+    }
+  }
+
   private cleanupMatch(matchId: string): void {
     const match = this.activeMatches.get(matchId);
     if (!match) return;
@@ -296,6 +534,7 @@ export class MvMManager {
       if (match) {
         match.teamA.playerIds = match.teamA.playerIds.filter(id => id !== playerId);
         match.teamB.playerIds = match.teamB.playerIds.filter(id => id !== playerId);
+        match.rules?.removeParticipant(playerId);
 
         // If entire team disconnected, void the match
         if (match.teamA.playerIds.length === 0 || match.teamB.playerIds.length === 0) {
@@ -332,6 +571,35 @@ export class MvMManager {
     }
   }
 
+  /** Matches not yet in their results screen, for the spectator listing */
+  getLiveMatchIds(): string[] {
+    return Array.from(this.activeMatches.values()).filter(m => m.state !== 'ending').map(m => m.id);
+  }
+
+  /** Team scores and each member's contribution, as spectators see them */
+  getSpectatorState(matchId: string): SpectatedMatchState | null {
+    const match = this.activeMatches.get(matchId);
+    if (!match) return null;
+
+    const describe = (team: QueueEntry, index: number) => team.playerIds.map((id) => ({
+      id,
+      username: this.getPlayer(id)?.username ?? id,
+      team: index,
+      score: Math.floor(match.contributions.get(id) ?? 0),
+      isBot: false,
+    }));
+
+    return {
+      kind: 'mvm',
+      matchId,
+      mode: match.mode,
+      phase: match.state,
+      timeRemaining: Math.max(0, match.timeRemaining),
+      participants: [...describe(match.teamA, 0), ...describe(match.teamB, 1)],
+      teamScores: [Math.floor(match.scores.a), Math.floor(match.scores.b)],
+    };
+  }
+
   getQueueSize(): number {
     return this.queue.length;
   }
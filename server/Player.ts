@@ -2,7 +2,11 @@
  * Server-side player representation
  */
 
-import { PlayerState, MidPlayerState, Vector3, PlayerInput } from './types';
+import { PlayerState, MidPlayerState, Vector3, PlayerInput, InputAck } from '../shared/types';
+import { CityFootprints } from '../shared/CityLayout';
+import { createLogger } from './Logger';
+
+const log = createLogger('AntiCheat');
 
 /** Poop cooldown in milliseconds (matches client POOP.COOLDOWN * 1000) */
 const POOP_COOLDOWN_MS = 400;
@@ -10,6 +14,26 @@ const POOP_COOLDOWN_MS = 400;
 /** Banking channel time in milliseconds (matches client SCORE.BANK_CHANNEL_TIME * 1000) */
 const BANK_CHANNEL_MS = 2500;
 
+/** Slack for network jitter between the client's bank channel timer and ours */
+const BANK_CHANNEL_TOLERANCE_MS = 250;
+
+/** Feathers for big banks (matches client ECONOMY.BIG_BANK_THRESHOLD / MEGA_BANK_THRESHOLD) */
+const BIG_BANK_THRESHOLD = 500;
+const FEATHERS_PER_BIG_BANK = 1;
+const MEGA_BANK_THRESHOLD = 1000;
+const FEATHERS_PER_MEGA_BANK = 2;
+
+/**
+ * NPCs are simulated by each client and the server never sees a hit, so
+ * carried coins from NPC hits are the client's word. This is a deliberate
+ * trust budget: a modified client can claim up to this rate (a max-multiplier
+ * hit on the richest NPC every poop, with room to spare) plus a burst for
+ * scatter strikes and height drops, and no more. The coins still have to
+ * survive grounding and the bank channel before the ledger records them.
+ */
+const EARN_RATE_PER_SEC = 200;
+const EARN_BURST = 1000;
+
 /** Grounding coin loss fraction (matches client SCORE.GROUNDING_LOSS_FRACTION) */
 const GROUNDING_LOSS_FRACTION = 0.4;
 
@@ -20,6 +44,22 @@ const PVP_HIT_IMMUNITY_MS = 3000;
 const ANTI_CHEAT_MAX_SPEED = 120;
 /** Anti-cheat: margin multiplier to absorb network jitter / burst frames */
 const ANTI_CHEAT_MARGIN = 2.5;
+/**
+ * Anti-cheat: building boxes are shrunk by this much before the wall check.
+ * The client keeps a 1.5 unit collision radius, but 20 Hz samples of a curved
+ * path can clip a corner — only flag moves that go well inside a building.
+ */
+const ANTI_CHEAT_WALL_INSET = 2;
+/** Suspicion added per violation, decayed per second, and the flag threshold */
+const SUSPICION_TELEPORT = 5;
+const SUSPICION_WALL = 10;
+const SUSPICION_DECAY_PER_SEC = 1;
+const SUSPICION_FLAG_THRESHOLD = 50;
+/** Minimum gap between rubber-band corrections sent to one player */
+const CORRECTION_INTERVAL_MS = 250;
+
+/** Outcome of validating one movement update */
+export type MoveVerdict = 'accepted' | 'stunned' | 'invalid' | 'teleport' | 'wall';
 
 export class Player {
   id: string;
@@ -33,12 +73,19 @@ export class Player {
   state: 'NORMAL' | 'WANTED' | 'GROUNDED' | 'BANKING' | 'SANCTUARY' | 'SPAWN_SHIELD' | 'STUNNED';
   lastUpdate: number;
 
+  // Client prediction: last input sequence processed, -1 before the first sequenced update
+  lastInputSeq: number;
+
   // Economy
   coins: number;
 
   // Poop cooldown
   lastPoopTime: number;
 
+  // Reported NPC earnings allowance (see EARN_RATE_PER_SEC)
+  private earnAllowance: number;
+  private lastEarnAt: number;
+
   // Banking timing
   bankingStartTime: number;
 
@@ -48,6 +95,13 @@ export class Player {
   // PvP stun
   stunnedUntil: number;
   lastPvPHitTime: number;
+
+  // Anti-cheat
+  suspicion: number;
+  suspicionFlagged: boolean;
+  private lastSuspicionDecay: number;
+  private lastCorrectionAt: number;
+
   private preStunState: 'NORMAL' | 'WANTED' | 'GROUNDED' | 'BANKING' | 'SANCTUARY' | 'SPAWN_SHIELD' | 'STUNNED';
 
   constructor(id: string, username: string, spawnPosition: Vector3) {
@@ -64,20 +118,32 @@ export class Player {
     this.spawnShieldUntil = Date.now() + 3000; // 3 second spawn shield
     this.coins = 0;
     this.lastPoopTime = 0;
+    this.earnAllowance = 0;
+    this.lastEarnAt = Date.now();
     this.bankingStartTime = 0;
     this.stunnedUntil = 0;
     this.lastPvPHitTime = 0;
+    this.suspicion = 0;
+    this.suspicionFlagged = false;
+    this.lastSuspicionDecay = Date.now();
+    this.lastCorrectionAt = 0;
+    this.lastInputSeq = -1;
     this.preStunState = 'NORMAL';
   }
 
-  updateFromInput(input: PlayerInput): void {
+  /**
+   * Validate and apply a movement update. Moves that pass through (or end
+   * inside) a building are rejected with 'wall' so the caller can rubber-band
+   * the client back to `position`.
+   */
+  updateFromInput(input: PlayerInput, city: CityFootprints | null = null): MoveVerdict {
     // Can't move while stunned
-    if (this.isStunned()) return;
+    if (this.isStunned()) return 'stunned';
 
     // Basic validation
     if (!this.isValidPosition(input.position)) {
-      console.warn(`Invalid position for player ${this.id}`);
-      return;
+      log.warn('Invalid position', { playerId: this.id });
+      return 'invalid';
     }
 
     // Anti-cheat: reject teleport moves
@@ -90,11 +156,32 @@ export class Player {
       const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
       const maxAllowed = ANTI_CHEAT_MAX_SPEED * dt * ANTI_CHEAT_MARGIN;
       if (dist > maxAllowed) {
-        console.warn(
-          `[Anti-cheat] ${this.username} teleport rejected: ` +
-          `${dist.toFixed(1)} units in ${dt.toFixed(3)}s (max ${maxAllowed.toFixed(1)})`,
-        );
-        return;
+        log.warn('Teleport rejected', {
+          playerId: this.id,
+          username: this.username,
+          distance: Number(dist.toFixed(1)),
+          seconds: Number(dt.toFixed(3)),
+          maxAllowed: Number(maxAllowed.toFixed(1)),
+        });
+        this.addSuspicion(SUSPICION_TELEPORT);
+        return 'teleport';
+      }
+    }
+
+    // Anti-cheat: no flying through walls or hovering inside buildings.
+    // After a long silence (respawn, tab switch) only the destination is checked.
+    if (city) {
+      const from = dt <= 5 ? this.position : input.position;
+      const hit = city.segmentHit(from, input.position, ANTI_CHEAT_WALL_INSET);
+      if (hit) {
+        log.warn('Wall clip rejected', {
+          playerId: this.id,
+          username: this.username,
+          district: hit.district,
+          building: { x: Math.round(hit.x), z: Math.round(hit.z) },
+        });
+        this.addSuspicion(SUSPICION_WALL);
+        return 'wall';
       }
     }
 
@@ -103,6 +190,36 @@ export class Player {
     this.pitch = input.pitch;
     this.speed = Math.max(0, Math.min(80, input.speed)); // Clamp speed
     this.lastUpdate = Date.now();
+    return 'accepted';
+  }
+
+  // --- Anti-cheat ---
+
+  private addSuspicion(amount: number): void {
+    this.decaySuspicion();
+    this.suspicion += amount;
+    if (!this.suspicionFlagged && this.suspicion >= SUSPICION_FLAG_THRESHOLD) {
+      this.suspicionFlagged = true;
+      log.warn('Player flagged', { playerId: this.id, username: this.username, suspicion: Math.round(this.suspicion) });
+    }
+  }
+
+  decaySuspicion(): void {
+    const now = Date.now();
+    const dt = (now - this.lastSuspicionDecay) / 1000;
+    this.lastSuspicionDecay = now;
+    this.suspicion = Math.max(0, this.suspicion - SUSPICION_DECAY_PER_SEC * dt);
+    if (this.suspicionFlagged && this.suspicion < SUSPICION_FLAG_THRESHOLD / 2) {
+      this.suspicionFlagged = false;
+    }
+  }
+
+  /** Rate-limits rubber-band corrections so a stuck client is not flooded */
+  shouldSendCorrection(): boolean {
+    const now = Date.now();
+    if (now - this.lastCorrectionAt < CORRECTION_INTERVAL_MS) return false;
+    this.lastCorrectionAt = now;
+    return true;
   }
 
   // --- Poop Validation ---
@@ -129,20 +246,22 @@ export class Player {
     return true;
   }
 
-  completeBanking(): { coins: number; xp: number } | null {
+  completeBanking(): { coins: number; xp: number; feathers: number } | null {
     if (this.state !== 'BANKING') return null;
 
     const elapsed = Date.now() - this.bankingStartTime;
-    if (elapsed < BANK_CHANNEL_MS) return null; // Channel time not met
+    if (elapsed < BANK_CHANNEL_MS - BANK_CHANNEL_TOLERANCE_MS) return null; // Channel time not met
 
     const bankedCoins = this.coins;
     const xp = Math.floor(bankedCoins / 5);
+    const feathers = bankedCoins >= MEGA_BANK_THRESHOLD ? FEATHERS_PER_MEGA_BANK
+      : bankedCoins >= BIG_BANK_THRESHOLD ? FEATHERS_PER_BIG_BANK : 0;
     this.coins = 0;
     this.heat = 0;
     this.wantedFlag = false;
     this.state = 'NORMAL';
     this.bankingStartTime = 0;
-    return { coins: bankedCoins, xp };
+    return { coins: bankedCoins, xp, feathers };
   }
 
   cancelBanking(): void {
@@ -158,6 +277,25 @@ export class Player {
     this.coins += amount;
   }
 
+  /**
+   * Carry coins the client reports from NPC hits, up to the earning
+   * allowance. Returns how many were accepted.
+   */
+  recordEarnedCoins(amount: number): number {
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) return 0;
+    if (this.state === 'BANKING') return 0;
+
+    const now = Date.now();
+    this.earnAllowance = Math.min(EARN_BURST, this.earnAllowance + ((now - this.lastEarnAt) / 1000) * EARN_RATE_PER_SEC);
+    this.lastEarnAt = now;
+
+    const accepted = Math.min(Math.floor(amount), Math.floor(this.earnAllowance));
+    if (accepted <= 0) return 0;
+    this.earnAllowance -= accepted;
+    this.coins += accepted;
+    return accepted;
+  }
+
   onGrounded(): number {
     const lost = Math.floor(this.coins * GROUNDING_LOSS_FRACTION);
     this.coins -= lost;
@@ -259,6 +397,16 @@ export class Player {
     };
   }
 
+  toInputAck(): InputAck {
+    return {
+      seq: this.lastInputSeq,
+      position: { ...this.position },
+      yaw: this.yaw,
+      pitch: this.pitch,
+      locked: this.isStunned(),
+    };
+  }
+
   toMidState(): MidPlayerState {
     return {
       id: this.id,
@@ -0,0 +1,431 @@
+/**
+ * PvP Mode Rules — server-side scoring for Poop Tag, Race and Poop Cover.
+ * Clients still run the modes for visuals, but tag transfers, checkpoints
+ * and statue hits only count once these rules accept them: each claim is
+ * checked against the server's own player positions (and, for poop hits, a
+ * poop the server actually saw), and the round ends with one set of
+ * standings that every client shows.
+ */
+
+import { Vector3, ServerMessage, PvPResultsData, PvPStandingData } from '../shared/types';
+import { Player } from './Player';
+import { RACE_ROUTE_DATA, RaceRouteData, STATUE_PREFAB_HEIGHTS, STATUE_SITES, getStatueCenter } from '../shared/PvPCourses';
+
+// PvP constants (server-side mirror of client Constants.ts PVP section)
+const PVP = {
+  TAG_WINNER_BONUS: 50,
+  TAG_TRANSFER_RANGE: 60,      // Shooter must be this close to the player they tag
+  RACE_REWARDS: [100, 60, 30],
+  RACE_PARTICIPATION_REWARD: 10,
+  COVER_HIT_RADIUS: 8,
+  COVER_CENTER_BONUS: 3,
+  COVER_EDGE_POINTS: 1,
+  COVER_SHOOTER_RANGE: 80,     // Poops fall, so the shooter is never far from the splat
+  COVER_WINNER_BONUS: 80,
+  COVER_PARTICIPATION_REWARD: 15,
+  POSITION_TOLERANCE: 12,      // Slack for update latency on top of checkpoint radii
+  POOP_HIT_WINDOW_MS: 4000,    // A hit claim must follow a poop within this window
+};
+
+export type PvPPlayerLookup = (playerId: string) => Player | undefined;
+
+/** Choices a private lobby host can make for a round; public rounds leave them unset */
+export interface PvPRoundOptions {
+  /** Race: index into RACE_ROUTE_DATA; random when unset */
+  routeIndex?: number | null;
+  /** Race: a player-made route (already validated) and its share code; wins over routeIndex */
+  customRoute?: { route: RaceRouteData; code: string } | null;
+}
+
+function distance(a: Vector3, b: Vector3): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+function parseVector(value: any): Vector3 | null {
+  const x = Number(value?.x);
+  const y = Number(value?.y);
+  const z = Number(value?.z);
+  if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) return null;
+  return { x, y, z };
+}
+
+function pickIndex(length: number): number {
+  return Math.floor(Math.random() * length);
+}
+
+export abstract class PvPModeRules {
+  abstract readonly modeId: string;
+  abstract readonly modeName: string;
+
+  protected participants: string[] = [];
+  protected startedAt = 0;
+  private lastUpdateAt = 0;
+  private getPlayer: PvPPlayerLookup;
+  /** Poop time each player last scored with, so one poop counts once */
+  private spentPoops = new Map<string, number>();
+
+  constructor(getPlayer: PvPPlayerLookup) {
+    this.getPlayer = getPlayer;
+  }
+
+  start(participants: string[], now: number): void {
+    this.participants = [...participants];
+    this.startedAt = now;
+    this.lastUpdateAt = now;
+    this.onStart();
+  }
+
+  update(now: number): void {
+    const dt = Math.max(0, now - this.lastUpdateAt) / 1000;
+    this.lastUpdateAt = now;
+    this.onUpdate(dt);
+  }
+
+  /** Drop a participant; returns a message to broadcast if the round state moved because of it */
+  removeParticipant(playerId: string): ServerMessage | null {
+    if (!this.participants.includes(playerId)) return null;
+    this.participants = this.participants.filter((id) => id !== playerId);
+    return this.onParticipantLeft(playerId);
+  }
+
+  // Claims return the validated message to broadcast, or null when rejected
+
+  claimTagTransfer(_shooterId: string, _targetId: string, _now: number): ServerMessage | null {
+    return null;
+  }
+
+  claimCheckpoint(_playerId: string, _checkpoint: number, _now: number): ServerMessage | null {
+    return null;
+  }
+
+  claimStatueHit(_playerId: string, _hitPosition: unknown, _now: number): ServerMessage | null {
+    return null;
+  }
+
+  /** Whether the round can end before its timer (e.g. every racer finished) */
+  isComplete(): boolean {
+    return false;
+  }
+
+  /** Round setup and live scores, sent with every PvP state update */
+  abstract getModeData(): Record<string, unknown>;
+
+  getResults(now: number): PvPResultsData {
+    return {
+      modeId: this.modeId,
+      modeName: this.modeName,
+      standings: this.buildStandings(),
+      duration: Math.max(0, now - this.startedAt) / 1000,
+    };
+  }
+
+  protected abstract onStart(): void;
+  protected abstract onUpdate(dt: number): void;
+  protected abstract buildStandings(): PvPStandingData[];
+
+  protected onParticipantLeft(_playerId: string): ServerMessage | null {
+    return null;
+  }
+
+  protected isParticipant(playerId: string): boolean {
+    return this.participants.includes(playerId);
+  }
+
+  protected player(playerId: string): Player | undefined {
+    return this.getPlayer(playerId);
+  }
+
+  protected username(playerId: string): string {
+    return this.getPlayer(playerId)?.username || playerId;
+  }
+
+  /** Poop hits must come from a poop the server accepted recently, and each poop scores once */
+  protected spendRecentPoop(player: Player, now: number): boolean {
+    const poopTime = player.lastPoopTime;
+    if (poopTime <= 0 || now - poopTime > PVP.POOP_HIT_WINDOW_MS) return false;
+    if (this.spentPoops.get(player.id) === poopTime) return false;
+    this.spentPoops.set(player.id, poopTime);
+    return true;
+  }
+}
+
+// --- Poop Tag ---
+
+export class PoopTagRules extends PvPModeRules {
+  readonly modeId = 'poop-tag';
+  readonly modeName = 'Poop Tag';
+
+  private taggedPlayerId = '';
+  private holdTimes = new Map<string, number>();
+  private elapsed = 0;
+
+  protected onStart(): void {
+    this.elapsed = 0;
+    this.holdTimes.clear();
+    for (const id of this.participants) this.holdTimes.set(id, 0);
+    this.taggedPlayerId = this.participants[pickIndex(this.participants.length)] || '';
+  }
+
+  protected onUpdate(dt: number): void {
+    this.elapsed += dt;
+    if (this.taggedPlayerId) {
+      this.holdTimes.set(this.taggedPlayerId, (this.holdTimes.get(this.taggedPlayerId) || 0) + dt);
+    }
+  }
+
+  claimTagTransfer(shooterId: string, targetId: string, now: number): ServerMessage | null {
+    // Only "it" can pass the tag, and only to another participant within poop range
+    if (shooterId !== this.taggedPlayerId || shooterId === targetId) return null;
+    if (!this.isParticipant(targetId)) return null;
+    const shooter = this.player(shooterId);
+    const target = this.player(targetId);
+    if (!shooter || !target) return null;
+    if (distance(shooter.position, target.position) > PVP.TAG_TRANSFER_RANGE) return null;
+    if (!this.spendRecentPoop(shooter, now)) return null;
+
+    this.taggedPlayerId = targetId;
+    return { type: 'pvp-tag-transfer', data: { from: shooterId, to: targetId } };
+  }
+
+  protected onParticipantLeft(playerId: string): ServerMessage | null {
+    this.holdTimes.delete(playerId);
+    if (playerId !== this.taggedPlayerId || this.participants.length === 0) return null;
+
+    // "It" walked out — the curse jumps to someone still playing
+    this.taggedPlayerId = this.participants[pickIndex(this.participants.length)];
+    return { type: 'pvp-tag-transfer', data: { from: playerId, to: this.taggedPlayerId } };
+  }
+
+  getModeData(): Record<string, unknown> {
+    return {
+      taggedPlayerId: this.taggedPlayerId,
+      tagHoldTimes: Object.fromEntries(this.holdTimes),
+    };
+  }
+
+  protected buildStandings(): PvPStandingData[] {
+    const totalTime = this.elapsed;
+    const sorted = [...this.participants].sort(
+      (a, b) => (this.holdTimes.get(a) || 0) - (this.holdTimes.get(b) || 0),
+    );
+
+    return sorted.map((playerId, i) => {
+      const holdTime = this.holdTimes.get(playerId) || 0;
+      const isLastTagged = playerId === this.taggedPlayerId;
+      const holdPct = totalTime > 0 ? ((holdTime / totalTime) * 100).toFixed(0) : '0';
+      // Less time tagged = bigger reward; whoever ends as "it" gets nothing
+      const reward = isLastTagged
+        ? 0
+        : Math.floor(PVP.TAG_WINNER_BONUS * (1 - holdTime / Math.max(totalTime, 1)));
+
+      return {
+        playerId,
+        username: this.username(playerId),
+        rank: i + 1,
+        score: Math.round(holdTime),
+        reward,
+        label: isLastTagged ? `Tagged at end! (${holdPct}% tagged)` : `${holdPct}% time tagged`,
+      };
+    });
+  }
+}
+
+// --- Race ---
+
+interface RaceProgress {
+  nextCheckpoint: number;
+  finishedAt: number; // seconds into the round, -1 while racing
+}
+
+export class RaceRules extends PvPModeRules {
+  readonly modeId = 'race';
+  readonly modeName = 'Race';
+
+  private routeIndex = 0;
+  private route: RaceRouteData = RACE_ROUTE_DATA[0];
+  private progress = new Map<string, RaceProgress>();
+  private options: PvPRoundOptions;
+
+  constructor(getPlayer: PvPPlayerLookup, options: PvPRoundOptions = {}) {
+    super(getPlayer);
+    this.options = options;
+  }
+
+  protected onStart(): void {
+    // A custom route has no index; clients rebuild it from its share code
+    const { routeIndex, customRoute } = this.options;
+    this.routeIndex = customRoute ? -1 : routeIndex ?? pickIndex(RACE_ROUTE_DATA.length);
+    this.route = customRoute?.route ?? RACE_ROUTE_DATA[this.routeIndex];
+    this.progress.clear();
+    for (const id of this.participants) {
+      this.progress.set(id, { nextCheckpoint: 0, finishedAt: -1 });
+    }
+  }
+
+  protected onUpdate(_dt: number): void {
+    // Progress only moves on validated checkpoint claims
+  }
+
+  claimCheckpoint(playerId: string, checkpoint: number, now: number): ServerMessage | null {
+    const state = this.progress.get(playerId);
+    const player = this.player(playerId);
+    if (!state || !player || state.finishedAt >= 0) return null;
+
+    // Checkpoints count strictly in order, and only from inside the ring
+    const checkpoints = this.route.checkpoints;
+    if (checkpoint !== state.nextCheckpoint) return null;
+    const target = checkpoints[checkpoint];
+    if (distance(player.position, target.position) > target.radius + PVP.POSITION_TOLERANCE) return null;
+
+    state.nextCheckpoint++;
+    if (state.nextCheckpoint >= checkpoints.length) {
+      state.finishedAt = (now - this.startedAt) / 1000;
+    }
+    return { type: 'pvp-checkpoint', data: { playerId, checkpoint } };
+  }
+
+  hasFinished(playerId: string): boolean {
+    return (this.progress.get(playerId)?.finishedAt ?? -1) >= 0;
+  }
+
+  isComplete(): boolean {
+    return this.participants.length > 0 && this.participants.every((id) => this.hasFinished(id));
+  }
+
+  protected onParticipantLeft(playerId: string): ServerMessage | null {
+    this.progress.delete(playerId);
+    return null;
+  }
+
+  getModeData(): Record<string, unknown> {
+    const progress: Record<string, number> = {};
+    for (const [id, state] of this.progress) progress[id] = state.nextCheckpoint;
+    return {
+      routeIndex: this.routeIndex,
+      routeName: this.route.name,
+      routeCode: this.options.customRoute?.code ?? null,
+      progress,
+    };
+  }
+
+  protected buildStandings(): PvPStandingData[] {
+    const total = this.route.checkpoints.length;
+    const stateOf = (id: string): RaceProgress => this.progress.get(id) || { nextCheckpoint: 0, finishedAt: -1 };
+
+    // Finishers by time, then everyone else by checkpoints passed
+    const sorted = [...this.participants].sort((a, b) => {
+      const sa = stateOf(a);
+      const sb = stateOf(b);
+      if (sa.finishedAt >= 0 && sb.finishedAt >= 0) return sa.finishedAt - sb.finishedAt;
+      if (sa.finishedAt >= 0) return -1;
+      if (sb.finishedAt >= 0) return 1;
+      return sb.nextCheckpoint - sa.nextCheckpoint;
+    });
+
+    return sorted.map((playerId, i) => {
+      const state = stateOf(playerId);
+      return {
+        playerId,
+        username: this.username(playerId),
+        rank: i + 1,
+        score: state.nextCheckpoint,
+        reward: PVP.RACE_REWARDS[i] ?? PVP.RACE_PARTICIPATION_REWARD,
+        label: state.finishedAt >= 0
+          ? `Finished in ${state.finishedAt.toFixed(1)}s`
+          : `${state.nextCheckpoint}/${total} checkpoints`,
+      };
+    });
+  }
+}
+
+// --- Poop Cover ---
+
+export class PoopCoverRules extends PvPModeRules {
+  readonly modeId = 'poop-cover';
+  readonly modeName = 'Splat Attack';
+
+  private prefabIndex = 0;
+  private siteIndex = 0;
+  private statueCenter: Vector3 = { x: 0, y: 0, z: 0 };
+  private hitCounts = new Map<string, number>();
+
+  protected onStart(): void {
+    this.prefabIndex = pickIndex(STATUE_PREFAB_HEIGHTS.length);
+    this.siteIndex = pickIndex(STATUE_SITES.length);
+    this.statueCenter = getStatueCenter(this.prefabIndex, this.siteIndex);
+    this.hitCounts.clear();
+    for (const id of this.participants) this.hitCounts.set(id, 0);
+  }
+
+  protected onUpdate(_dt: number): void {
+    // Score only moves on validated statue hits
+  }
+
+  claimStatueHit(playerId: string, hitPosition: unknown, now: number): ServerMessage | null {
+    const player = this.player(playerId);
+    const hit = parseVector(hitPosition);
+    if (!player || !hit || !this.hitCounts.has(playerId)) return null;
+
+    const fromCenter = distance(hit, this.statueCenter);
+    if (fromCenter >= PVP.COVER_HIT_RADIUS) return null;
+    if (distance(player.position, hit) > PVP.COVER_SHOOTER_RANGE) return null;
+    if (!this.spendRecentPoop(player, now)) return null;
+
+    // Accuracy bonus: closer to center = more points (the client's claimed points are ignored)
+    const points = fromCenter < PVP.COVER_HIT_RADIUS * 0.3 ? PVP.COVER_CENTER_BONUS : PVP.COVER_EDGE_POINTS;
+    this.hitCounts.set(playerId, (this.hitCounts.get(playerId) || 0) + points);
+    return {
+      type: 'pvp-hit',
+      data: { playerId, points, accuracy: 1 - fromCenter / PVP.COVER_HIT_RADIUS, hitPosition: hit },
+    };
+  }
+
+  protected onParticipantLeft(playerId: string): ServerMessage | null {
+    this.hitCounts.delete(playerId);
+    return null;
+  }
+
+  getModeData(): Record<string, unknown> {
+    return {
+      statuePrefab: this.prefabIndex,
+      statueSite: this.siteIndex,
+      statuePosition: this.statueCenter,
+      hitCounts: Object.fromEntries(this.hitCounts),
+    };
+  }
+
+  protected buildStandings(): PvPStandingData[] {
+    const sorted = [...this.participants].sort(
+      (a, b) => (this.hitCounts.get(b) || 0) - (this.hitCounts.get(a) || 0),
+    );
+
+    return sorted.map((playerId, i) => {
+      const hits = this.hitCounts.get(playerId) || 0;
+      return {
+        playerId,
+        username: this.username(playerId),
+        rank: i + 1,
+        score: hits,
+        reward: i === 0 ? PVP.COVER_WINNER_BONUS : PVP.COVER_PARTICIPATION_REWARD,
+        label: `${hits} splat${hits !== 1 ? 's' : ''}`,
+      };
+    });
+  }
+}
+
+/** Rules for a PvP mode, or null for modes scored elsewhere (Heist) */
+export function createPvPModeRules(
+  modeId: string,
+  getPlayer: PvPPlayerLookup,
+  options: PvPRoundOptions = {},
+): PvPModeRules | null {
+  switch (modeId) {
+    case 'poop-tag': return new PoopTagRules(getPlayer);
+    case 'race': return new RaceRules(getPlayer, options);
+    case 'poop-cover': return new PoopCoverRules(getPlayer);
+    default: return null;
+  }
+}
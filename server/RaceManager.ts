@@ -2,14 +2,23 @@
  * Race Manager — handles checkpoint race creation, joining, and progress tracking.
  */
 
-import { Vector3, RaceState, RaceCheckpoint, RaceParticipant, GameEvent } from './types';
+import { Vector3, RaceState, RaceCheckpoint, RaceParticipant, GameEvent } from '../shared/types';
 import { Player } from './Player';
+import { CityFootprints } from '../shared/CityLayout';
+import { RaceRouteData } from '../shared/PvPCourses';
+import { getRaceRouteId } from '../shared/RaceRouteFormat';
+import { GhostRecorder, GhostTrack } from '../shared/GhostTrack';
+import { createLogger } from './Logger';
+
+const log = createLogger('Race');
 
 const RACE_MAX_PARTICIPANTS = 8;
 const RACE_WAIT_TIMEOUT_MS = 30000; // 30s max waiting
 const RACE_COUNTDOWN_MS = 3000; // 3-2-1 countdown
 const RACE_TIMEOUT_MS = 180000; // 3 minute max race duration
 const CHECKPOINT_RADIUS = 15;
+/** Checkpoint rings must clear building walls by their full radius */
+const CHECKPOINT_CLEARANCE = CHECKPOINT_RADIUS;
 
 // Rewards by placement
 const RACE_REWARDS = [500, 250, 100, 50, 25];
@@ -26,13 +35,37 @@ let nextRaceId = 0;
 export class RaceManager {
   private races: Map<string, RaceState> = new Map();
   private playerRaces: Map<string, string> = new Map(); // playerId -> raceId
+  /** Events raised outside update() (create, manual start), flushed on the next tick */
+  private queuedEvents: GameEvent[] = [];
+  private city: CityFootprints | null;
+  /** raceId → playerId → ghost being recorded from the server's own positions */
+  private recorders: Map<string, Map<string, GhostRecorder>> = new Map();
+
+  /** A racer finished; the ghost of their run is ready for the leaderboard */
+  onRunFinished: ((race: RaceState, playerId: string, ghost: GhostTrack) => void) | null = null;
+
+  constructor(city: CityFootprints | null = null) {
+    this.city = city;
+  }
 
-  createRace(creatorId: string, creatorName: string, type: 'short' | 'medium' | 'long', creatorPosition: Vector3): RaceState | null {
+  /**
+   * Open a race. With `route` (already validated by the caller) the race
+   * follows that player-made route; otherwise checkpoints are generated
+   * around the map, `type` deciding how many.
+   */
+  createRace(
+    creatorId: string,
+    creatorName: string,
+    type: 'short' | 'medium' | 'long',
+    creatorPosition: Vector3,
+    route: RaceRouteData | null = null,
+  ): RaceState | null {
     // Can't create if already in a race
     if (this.playerRaces.has(creatorId)) return null;
 
-    const checkpointCount = CHECKPOINT_COUNTS[type] || 5;
-    const checkpoints = this.generateCheckpoints(creatorPosition, checkpointCount);
+    const checkpoints: RaceCheckpoint[] = route
+      ? route.checkpoints.map(({ position, radius }) => ({ position: { ...position }, radius }))
+      : this.generateCheckpoints(creatorPosition, CHECKPOINT_COUNTS[type] || 5);
 
     const race: RaceState = {
       id: `race_${nextRaceId++}`,
@@ -45,6 +78,8 @@ export class RaceManager {
         finishTime: null,
       }],
       checkpoints,
+      routeName: route?.name,
+      routeId: route ? getRaceRouteId(route) : undefined,
       state: 'waiting',
       createdAt: Date.now(),
       startTime: 0,
@@ -53,6 +88,10 @@ export class RaceManager {
 
     this.races.set(race.id, race);
     this.playerRaces.set(creatorId, race.id);
+    this.queuedEvents.push({
+      type: 'race_created',
+      data: { raceId: race.id, type, checkpoints, routeName: race.routeName, routeId: race.routeId },
+    });
     return race;
   }
 
@@ -83,6 +122,10 @@ export class RaceManager {
 
     race.state = 'countdown';
     race.startTime = Date.now() + RACE_COUNTDOWN_MS;
+    this.queuedEvents.push({
+      type: 'race_countdown',
+      data: { raceId, startTime: race.startTime, participants: race.participants },
+    });
     return true;
   }
 
@@ -98,10 +141,12 @@ export class RaceManager {
 
     race.participants = race.participants.filter(p => p.playerId !== playerId);
     this.playerRaces.delete(playerId);
+    this.recorders.get(raceId)?.delete(playerId);
 
     // If no participants left, remove race
     if (race.participants.length === 0) {
       this.races.delete(raceId);
+      this.recorders.delete(raceId);
     }
   }
 
@@ -109,7 +154,7 @@ export class RaceManager {
    * Called each server tick. Returns events to emit.
    */
   update(players: Map<string, Player>): GameEvent[] {
-    const events: GameEvent[] = [];
+    const events: GameEvent[] = this.queuedEvents.splice(0);
     const now = Date.now();
     const toRemove: string[] = [];
 
@@ -136,6 +181,7 @@ export class RaceManager {
         case 'countdown': {
           if (now >= race.startTime) {
             race.state = 'racing';
+            this.recorders.set(raceId, new Map(race.participants.map(p => [p.playerId, new GhostRecorder()])));
             events.push({
               type: 'race_started',
               data: {
@@ -162,6 +208,10 @@ export class RaceManager {
             const player = players.get(participant.playerId);
             if (!player) continue;
 
+            const seconds = (now - race.startTime) / 1000;
+            const recorder = this.recorders.get(raceId)?.get(participant.playerId);
+            recorder?.record(seconds, player.position, player.yaw);
+
             const nextCp = race.checkpoints[participant.currentCheckpoint];
             if (!nextCp) continue;
 
@@ -173,6 +223,7 @@ export class RaceManager {
 
             if (dist <= nextCp.radius) {
               participant.currentCheckpoint++;
+              recorder?.split(seconds);
 
               events.push({
                 type: 'race_checkpoint',
@@ -199,7 +250,16 @@ export class RaceManager {
                 const reward = RACE_REWARDS[place - 1] || 10;
                 player.addCoins(reward);
 
-                console.log(`🏁 ${participant.username} finished race in place #${place} (${(participant.finishTime / 1000).toFixed(1)}s) +${reward} coins`);
+                log.info('Racer finished', { raceId: race.id, playerId: participant.playerId, place, timeMs: participant.finishTime, reward });
+
+                if (recorder) {
+                  this.onRunFinished?.(race, participant.playerId, recorder.finish({
+                    routeId: race.routeId ?? getRaceRouteId({ name: race.type, checkpoints: race.checkpoints }),
+                    routeName: race.routeName ?? `${race.type} race`,
+                    playerName: participant.username,
+                    time: participant.finishTime / 1000,
+                  }));
+                }
               }
             }
           }
@@ -230,6 +290,7 @@ export class RaceManager {
           this.playerRaces.delete(p.playerId);
         }
         this.races.delete(raceId);
+        this.recorders.delete(raceId);
       }
     }
 
@@ -238,10 +299,12 @@ export class RaceManager {
 
   private finishRace(race: RaceState, events: GameEvent[]): void {
     race.state = 'finished';
+    this.recorders.delete(race.id);
     events.push({
       type: 'race_finished',
       data: {
         raceId: race.id,
+        routeId: race.routeId,
         results: race.results,
         participants: race.participants,
       },
@@ -252,7 +315,7 @@ export class RaceManager {
       this.playerRaces.delete(p.playerId);
     }
 
-    console.log(`🏁 Race ${race.id} finished! Results: ${race.results.map(r => `${r.place}. ${r.username}`).join(', ')}`);
+    log.info('Race finished', { raceId: race.id, results: race.results.map(r => `${r.place}. ${r.username}`) });
   }
 
   getRaceForEvent(event: GameEvent): RaceState | null {
@@ -275,14 +338,17 @@ export class RaceManager {
     const centerZ = 0;
 
     for (let i = 0; i < count; i++) {
-      const angle = (i / count) * Math.PI * 2 + (Math.random() - 0.5) * 0.5;
-      const distance = 40 + Math.random() * (mapRadius - 40);
-      checkpoints.push({
-        position: {
+      const sample = (): Vector3 => {
+        const angle = (i / count) * Math.PI * 2 + (Math.random() - 0.5) * 0.5;
+        const distance = 40 + Math.random() * (mapRadius - 40);
+        return {
           x: centerX + Math.cos(angle) * distance,
           y: 15 + Math.random() * 40, // varied altitude (15-55)
           z: centerZ + Math.sin(angle) * distance,
-        },
+        };
+      };
+      checkpoints.push({
+        position: this.city ? this.city.sampleClear(sample, CHECKPOINT_CLEARANCE) : sample(),
         radius: CHECKPOINT_RADIUS,
       });
     }
@@ -0,0 +1,395 @@
+/**
+ * Ratings
+ * Glicko-2 skill ratings per player per mode, plus a team rating per
+ * murmuration for the MvM modes. Matchmaking reads them to pair even
+ * opponents; rated results (PvP rounds, heists, MvM matches) update them.
+ *
+ * Storage is pluggable like the economy ledger: in-memory for local play, an
+ * append-only JSON lines file as a SQLite stand-in, and Supabase (service key)
+ * in production.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getAccountId } from './EconomyLedger';
+import {
+  DEFAULT_RATING,
+  DEFAULT_RD,
+  DEFAULT_VOLATILITY,
+  RatingSummary,
+  getRankBand,
+} from '../shared/RatingBands';
+import { createLogger } from './Logger';
+
+const log = createLogger('Ratings');
+
+export interface Rating {
+  rating: number;
+  rd: number;
+  volatility: number;
+  games: number;
+  updatedAt: number;
+}
+
+export interface RatingStore {
+  /** Load a subject's rating in a mode, or null if it has never played it. */
+  load(subjectId: string, mode: string): Promise<Rating | null>;
+  save(subjectId: string, mode: string, rating: Rating): Promise<void>;
+}
+
+/** One side of a rated result: its players (or murmuration subjects) and finishing rank, 1 = best */
+export interface RatedSide {
+  ids: string[];
+  rank: number;
+}
+
+const MURMURATION_PREFIX = 'mur:';
+
+/** Rating subject for a murmuration's team rating */
+export function murmurationSubject(murmurationId: string): string {
+  return MURMURATION_PREFIX + murmurationId;
+}
+
+/** Players are rated per account, so every tab of the same user shares a rating */
+function getSubjectId(id: string): string {
+  return id.startsWith(MURMURATION_PREFIX) ? id : getAccountId(id);
+}
+
+function newRating(): Rating {
+  return { rating: DEFAULT_RATING, rd: DEFAULT_RD, volatility: DEFAULT_VOLATILITY, games: 0, updatedAt: 0 };
+}
+
+export function summarizeRating(mode: string, rating: Rating): RatingSummary {
+  return {
+    mode,
+    rating: Math.round(rating.rating),
+    rd: Math.round(rating.rd),
+    games: rating.games,
+    band: getRankBand(rating.rating, rating.rd).id,
+  };
+}
+
+// ── Glicko-2 ────────────────────────────────────────────────────────────────
+
+/** Converts between the Glicko and Glicko-2 scales */
+const GLICKO_SCALE = 173.7178;
+/** Constrains volatility change; 0.3–1.2 per Glickman, lower is steadier */
+const TAU = 0.5;
+const CONVERGENCE_EPSILON = 0.000001;
+const MIN_RD = 30;
+
+export interface GlickoResult {
+  opponent: Pick<Rating, 'rating' | 'rd'>;
+  /** 1 win, 0.5 draw, 0 loss */
+  score: number;
+}
+
+/** Rate one rating period (here: one match) following Glickman's Glicko-2 paper */
+export function rateGlicko2(player: Rating, results: GlickoResult[], now: number): Rating {
+  const mu = (player.rating - DEFAULT_RATING) / GLICKO_SCALE;
+  const phi = player.rd / GLICKO_SCALE;
+  const sigma = player.volatility;
+
+  if (results.length === 0) {
+    const rd = Math.min(DEFAULT_RD, Math.sqrt(phi * phi + sigma * sigma) * GLICKO_SCALE);
+    return { ...player, rd, updatedAt: now };
+  }
+
+  const g = (phiJ: number): number => 1 / Math.sqrt(1 + (3 * phiJ * phiJ) / (Math.PI * Math.PI));
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const muJ = (opponent.rating - DEFAULT_RATING) / GLICKO_SCALE;
+    const gJ = g(opponent.rd / GLICKO_SCALE);
+    const expected = 1 / (1 + Math.exp(-gJ * (mu - muJ)));
+    vInverse += gJ * gJ * expected * (1 - expected);
+    improvement += gJ * (score - expected);
+  }
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+
+  // New volatility (Illinois iteration on f(x) = 0)
+  const a = Math.log(sigma * sigma);
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - a) / (TAU * TAU);
+  };
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  const volatility = Math.exp(A / 2);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * GLICKO_SCALE + DEFAULT_RATING,
+    rd: Math.max(MIN_RD, Math.min(DEFAULT_RD, newPhi * GLICKO_SCALE)),
+    volatility,
+    games: player.games + 1,
+    updatedAt: now,
+  };
+}
+
+// ── Stores ──────────────────────────────────────────────────────────────────
+
+export class InMemoryRatingStore implements RatingStore {
+  private ratings = new Map<string, Rating>();
+
+  async load(subjectId: string, mode: string): Promise<Rating | null> {
+    const rating = this.ratings.get(`${subjectId}|${mode}`);
+    return rating ? { ...rating } : null;
+  }
+
+  async save(subjectId: string, mode: string, rating: Rating): Promise<void> {
+    this.ratings.set(`${subjectId}|${mode}`, { ...rating });
+  }
+}
+
+/**
+ * Append-only JSON lines file; the last line for a subject and mode wins.
+ * Ratings are rebuilt by replaying the file on startup.
+ */
+export class JsonFileRatingStore implements RatingStore {
+  private memory = new InMemoryRatingStore();
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.replay();
+  }
+
+  private replay(): void {
+    if (!existsSync(this.filePath)) return;
+    const lines = readFileSync(this.filePath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const { subjectId, mode, ...rating } = JSON.parse(line) as Rating & { subjectId: string; mode: string };
+        void this.memory.save(subjectId, mode, rating);
+      } catch {
+        log.warn('Skipping corrupt line', { file: this.filePath });
+      }
+    }
+  }
+
+  load(subjectId: string, mode: string): Promise<Rating | null> {
+    return this.memory.load(subjectId, mode);
+  }
+
+  async save(subjectId: string, mode: string, rating: Rating): Promise<void> {
+    appendFileSync(this.filePath, JSON.stringify({ subjectId, mode, ...rating }) + '\n');
+    await this.memory.save(subjectId, mode, rating);
+  }
+}
+
+/**
+ * Production store (skill_ratings table, written with the service key).
+ * Guest and bot ratings are kept in memory only.
+ */
+export class SupabaseRatingStore implements RatingStore {
+  private client: SupabaseClient;
+  private ephemeral = new InMemoryRatingStore();
+
+  constructor(url: string, serviceKey: string) {
+    this.client = createClient(url, serviceKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+
+  private isPersistent(subjectId: string): boolean {
+    return !subjectId.startsWith('guest_') && !subjectId.startsWith('bot_');
+  }
+
+  async load(subjectId: string, mode: string): Promise<Rating | null> {
+    if (!this.isPersistent(subjectId)) return this.ephemeral.load(subjectId, mode);
+
+    const { data, error } = await this.client
+      .from('skill_ratings')
+      .select('rating, rd, volatility, games, updated_at')
+      .eq('subject_id', subjectId)
+      .eq('mode', mode)
+      .maybeSingle();
+    if (error || !data) return null;
+    return {
+      rating: data.rating,
+      rd: data.rd,
+      volatility: data.volatility,
+      games: data.games,
+      updatedAt: Date.parse(data.updated_at) || 0,
+    };
+  }
+
+  async save(subjectId: string, mode: string, rating: Rating): Promise<void> {
+    if (!this.isPersistent(subjectId)) return this.ephemeral.save(subjectId, mode, rating);
+
+    const { error } = await this.client.from('skill_ratings').upsert({
+      subject_id: subjectId,
+      mode,
+      rating: rating.rating,
+      rd: rating.rd,
+      volatility: rating.volatility,
+      games: rating.games,
+      updated_at: new Date(rating.updatedAt).toISOString(),
+    });
+    if (error) {
+      throw new Error(`skill_ratings upsert failed: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Pick a store from environment:
+ *   RATING_STORE=memory (default) | file | supabase
+ *   RATING_FILE=./skill-ratings.jsonl
+ */
+export function createRatingStoreFromEnv(): RatingStore {
+  const kind = (process.env.RATING_STORE || 'memory').trim().toLowerCase();
+
+  if (kind === 'file') {
+    const filePath = (process.env.RATING_FILE || './skill-ratings.jsonl').trim();
+    log.info('Using file store', { file: filePath });
+    return new JsonFileRatingStore(filePath);
+  }
+
+  if (kind === 'supabase') {
+    const url = (process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '').trim();
+    const key = (process.env.SUPABASE_SERVICE_KEY || '').trim();
+    if (url && key) {
+      log.info('Using Supabase store');
+      return new SupabaseRatingStore(url, key);
+    }
+    log.warn('RATING_STORE=supabase but SUPABASE_URL/SUPABASE_SERVICE_KEY missing — falling back to memory');
+  }
+
+  return new InMemoryRatingStore();
+}
+
+// ── Rating book ─────────────────────────────────────────────────────────────
+
+export class RatingBook {
+  private store: RatingStore;
+  private ratings = new Map<string, Rating>();
+  private loading = new Map<string, Promise<Rating>>();
+
+  /** Called with the new rating of every player or murmuration in a rated result */
+  onUpdate: ((id: string, mode: string, rating: Rating, delta: number) => void) | null = null;
+
+  constructor(store: RatingStore = new InMemoryRatingStore()) {
+    this.store = store;
+  }
+
+  /** The cached rating (a fresh one if it has not been loaded yet) */
+  peek(id: string, mode: string): Rating {
+    return { ...(this.ratings.get(this.key(id, mode)) ?? newRating()) };
+  }
+
+  /** Load a rating into the cache, so matchmaking can peek it */
+  load(id: string, mode: string): Promise<Rating> {
+    const key = this.key(id, mode);
+    const cached = this.ratings.get(key);
+    if (cached) return Promise.resolve({ ...cached });
+
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = this.store.load(getSubjectId(id), mode)
+        .catch((err) => {
+          log.error('Failed to load rating', { playerId: id, mode, err });
+          return null;
+        })
+        .then((stored) => {
+          this.loading.delete(key);
+          const rating = this.ratings.get(key) ?? stored ?? newRating();
+          this.ratings.set(key, rating);
+          return rating;
+        });
+      this.loading.set(key, pending);
+    }
+    return pending.then((rating) => ({ ...rating }));
+  }
+
+  async getSummaries(id: string, modes: string[]): Promise<RatingSummary[]> {
+    const ratings = await Promise.all(modes.map((mode) => this.load(id, mode)));
+    return ratings
+      .map((rating, i) => ({ rating, mode: modes[i] }))
+      .filter(({ rating }) => rating.games > 0)
+      .map(({ rating, mode }) => summarizeRating(mode, rating));
+  }
+
+  /**
+   * Rate a finished match. Each member is rated against every other side,
+   * with a side standing in as one opponent of its members' average rating.
+   */
+  async recordResult(mode: string, sides: RatedSide[]): Promise<void> {
+    const rated = sides.filter((side) => side.ids.length > 0);
+    if (rated.length < 2) return;
+
+    await Promise.all(rated.flatMap((side) => side.ids.map((id) => this.load(id, mode))));
+
+    const now = Date.now();
+    const composites = rated.map((side) => {
+      const members = side.ids.map((id) => this.peek(id, mode));
+      return {
+        rating: members.reduce((sum, r) => sum + r.rating, 0) / members.length,
+        rd: Math.sqrt(members.reduce((sum, r) => sum + r.rd * r.rd, 0) / members.length),
+      };
+    });
+
+    const updates: Array<{ id: string; before: Rating; after: Rating }> = [];
+    rated.forEach((side, i) => {
+      const results: GlickoResult[] = [];
+      rated.forEach((other, j) => {
+        if (i === j) return;
+        const score = side.rank < other.rank ? 1 : side.rank > other.rank ? 0 : 0.5;
+        results.push({ opponent: composites[j], score });
+      });
+      for (const id of side.ids) {
+        const before = this.peek(id, mode);
+        updates.push({ id, before, after: rateGlicko2(before, results, now) });
+      }
+    });
+
+    for (const { id, before, after } of updates) {
+      this.ratings.set(this.key(id, mode), after);
+      this.onUpdate?.(id, mode, after, after.rating - before.rating);
+      this.store.save(getSubjectId(id), mode, after).catch((err) => {
+        log.error('Failed to save rating', { playerId: id, mode, err });
+      });
+    }
+  }
+
+  /** Drop cached ratings for a player who left (the store keeps the truth). */
+  evict(id: string): void {
+    const prefix = `${getSubjectId(id)}|`;
+    for (const key of this.ratings.keys()) {
+      if (key.startsWith(prefix) && !this.loading.has(key)) this.ratings.delete(key);
+    }
+  }
+
+  private key(id: string, mode: string): string {
+    return `${getSubjectId(id)}|${mode}`;
+  }
+}
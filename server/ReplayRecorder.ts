@@ -0,0 +1,133 @@
+/**
+ * Replay Recorder
+ * Writes one shard's session to disk so PvP hits and heist scoring can be
+ * checked after the fact. Each tick the whole shard is encoded with the
+ * binary state codec as a delta against the previous tick, with periodic
+ * keyframes for seeking (see ReplayFormat for the file layout).
+ *
+ * Enabled by REPLAY_DIR. Files roll over every REPLAY_FILE_TICKS so a long
+ * running server never produces one unbounded file. A slow disk costs frames
+ * (skipped until the stream drains), never memory; a failed one stops
+ * recording for the rest of the session.
+ */
+
+import { createWriteStream, mkdirSync, WriteStream } from 'fs';
+import { join } from 'path';
+import { StateEncoder, STATE_CODEC_BINARY } from '../shared/StateCodec';
+import { ChatMessage, FilteredWorldState, ServerMessage } from '../shared/types';
+import {
+  REPLAY_FILE_EXTENSION,
+  REPLAY_KEYFRAME_INTERVAL,
+  REPLAY_RECORD_CHAT,
+  REPLAY_RECORD_FRAME,
+  REPLAY_RECORD_HEADER,
+  REPLAY_RECORD_MESSAGE,
+  REPLAY_VERSION,
+  ReplayHeader,
+  encodeReplayJson,
+  encodeReplayMagic,
+  encodeReplayRecord,
+} from '../shared/ReplayFormat';
+import { createLogger } from './Logger';
+
+const log = createLogger('Replay');
+
+/** Ticks per file (30 minutes at 20 ticks/sec) */
+const REPLAY_FILE_TICKS = 20 * 60 * 30;
+
+export class ReplayRecorder {
+  private stream: WriteStream | null = null;
+  private encoder = new StateEncoder();
+  private framesInFile = 0;
+  private lastTick = 0;
+  /** Set by a stream error; nothing is written (or reopened) after that */
+  private failed = false;
+  /** The stream's buffer is full; frames are dropped until it drains */
+  private draining = false;
+
+  constructor(
+    private dir: string,
+    private shardId: string,
+    private worldSeed: number,
+    private tickRate: number,
+  ) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  /** Record the shard's full state for one tick (call once per tick, after world.update). */
+  recordFrame(state: FilteredWorldState): void {
+    if (this.failed) return;
+    // The encoder's baseline stays the last frame written, so a skipped tick never breaks the deltas
+    if (this.draining) return;
+    if (!this.stream || this.framesInFile >= REPLAY_FILE_TICKS) {
+      this.openFile();
+    }
+
+    // Dropping the baseline makes the next frame a keyframe
+    if (this.framesInFile % REPLAY_KEYFRAME_INTERVAL === 0) {
+      this.encoder.ack(-1);
+    }
+    const frame = this.encoder.encode(state);
+    this.encoder.ack(state.tick);
+    this.lastTick = state.tick;
+    this.framesInFile++;
+    this.write(encodeReplayRecord(REPLAY_RECORD_FRAME, frame));
+  }
+
+  recordChat(chat: ChatMessage): void {
+    if (!this.stream) return;
+    this.write(encodeReplayJson(REPLAY_RECORD_CHAT, { tick: this.lastTick, chat }));
+  }
+
+  /** Server messages that never appear in world state (PvP rounds, heist scoring) */
+  recordMessage(message: ServerMessage): void {
+    if (!this.stream) return;
+    this.write(encodeReplayJson(REPLAY_RECORD_MESSAGE, { tick: this.lastTick, message }));
+  }
+
+  close(): void {
+    this.stream?.end();
+    this.stream = null;
+  }
+
+  private openFile(): void {
+    this.close();
+    const startedAt = Date.now();
+    const stamp = new Date(startedAt).toISOString().replace(/[:.]/g, '-');
+    const path = join(this.dir, `${this.shardId}-${stamp}${REPLAY_FILE_EXTENSION}`);
+
+    const stream = createWriteStream(path);
+    stream.on('error', (err) => {
+      if (this.failed) return;
+      log.error('Write failed, recording stopped', { shard: this.shardId, file: path, err });
+      this.failed = true;
+      if (this.stream === stream) this.stream = null;
+    });
+    this.stream = stream;
+    this.encoder = new StateEncoder();
+    this.framesInFile = 0;
+    this.draining = false;
+
+    const header: ReplayHeader = {
+      version: REPLAY_VERSION,
+      shardId: this.shardId,
+      worldSeed: this.worldSeed,
+      tickRate: this.tickRate,
+      startedAt,
+      stateCodec: STATE_CODEC_BINARY,
+    };
+    this.write(encodeReplayMagic());
+    this.write(encodeReplayJson(REPLAY_RECORD_HEADER, header));
+    log.info('Recording', { shard: this.shardId, file: path });
+  }
+
+  private write(bytes: Uint8Array): void {
+    const stream = this.stream;
+    if (!stream || stream.write(bytes)) return;
+    if (this.draining) return;
+    this.draining = true;
+    stream.once('drain', () => {
+      if (this.stream === stream) this.draining = false;
+    });
+  }
+}
@@ -0,0 +1,442 @@
+/**
+ * TournamentManager - Server-side community tournaments.
+ * Runs single-elimination and Swiss events over the PvP modes and 1v1 Heist:
+ * a registration window, seeding by rating or level, one round at a time with
+ * matches started through the PvP session and heist managers, and forfeits
+ * when a player disconnects or is removed. A tournament belongs to the world
+ * shard it was opened in. Follows the pattern of HeistManager.ts.
+ */
+
+import { EconomyLedger } from './EconomyLedger';
+import { RatingBook } from './Ratings';
+import {
+  TournamentEntrant,
+  TournamentFormatId,
+  TournamentGame,
+  TournamentMatch,
+  TournamentMatchNotice,
+  TournamentPhase,
+  TournamentSeeding,
+  TournamentView,
+  TOURNAMENT_MAX_ENTRANTS,
+  TOURNAMENT_MIN_ENTRANTS,
+  advanceWinner,
+  buildSingleElimination,
+  pairSwissRound,
+  singleEliminationRounds,
+  swissRounds,
+  swissStandings,
+} from '../shared/TournamentBracket';
+import { levelForXp } from '../shared/Progression';
+import { createLogger } from './Logger';
+
+const log = createLogger('Tournament');
+
+/** Gap between rounds, long enough for the last round's results screen to close */
+const ROUND_BREAK_MS = 15_000;
+/** Finished and cancelled tournaments stay viewable this long */
+const KEEP_FINISHED_MS = 10 * 60_000;
+
+export interface TournamentOptions {
+  name: string;
+  format: TournamentFormatId;
+  game: TournamentGame;
+  seeding: TournamentSeeding;
+  registrationMs: number;
+}
+
+/** Starts and stops the actual games; implemented by GameServer over its PvP sessions and the HeistManager */
+export interface TournamentMatchLauncher {
+  /** Start a match between two players; returns a handle for reportResult, or null to try again next tick */
+  launch(game: TournamentGame, shardId: string, playerIds: [string, string]): string | null;
+  /** End a running match early because `loserId` forfeited */
+  abort(game: TournamentGame, handle: string, loserId: string): void;
+}
+
+interface Tournament extends TournamentView {
+  shardId: string;
+  /** Seeds are being loaded; registration is closed but round one is not out yet */
+  seedsLoading: boolean;
+  /** Launcher handle → bracket match ID, for the matches being played */
+  handles: Map<string, string>;
+  nextRoundAt: number | null;
+  finishedAt: number | null;
+}
+
+type SendFn = (playerId: string, message: any) => void;
+type BroadcastFn = (shardId: string, message: any) => void;
+
+export class TournamentManager {
+  private tournaments = new Map<string, Tournament>();
+  private nextTournamentId = 0;
+
+  private sendToPlayer: SendFn;
+  private broadcastToShard: BroadcastFn;
+  private launcher: TournamentMatchLauncher;
+  private ratings: RatingBook | null;
+  private ledger: EconomyLedger | null;
+
+  constructor(
+    sendToPlayer: SendFn,
+    broadcastToShard: BroadcastFn,
+    launcher: TournamentMatchLauncher,
+    ratings: RatingBook | null = null,
+    ledger: EconomyLedger | null = null,
+  ) {
+    this.sendToPlayer = sendToPlayer;
+    this.broadcastToShard = broadcastToShard;
+    this.launcher = launcher;
+    this.ratings = ratings;
+    this.ledger = ledger;
+  }
+
+  /** Open registration for a new tournament in a shard; null if one is already under way there */
+  open(shardId: string, options: TournamentOptions): TournamentView | null {
+    if (this.findActive(shardId)) return null;
+
+    const tournament: Tournament = {
+      id: `tournament_${++this.nextTournamentId}_${Date.now()}`,
+      name: options.name,
+      format: options.format,
+      game: options.game,
+      seeding: options.seeding,
+      phase: 'registration',
+      registrationEndsAt: Date.now() + options.registrationMs,
+      round: 0,
+      totalRounds: 0,
+      entrants: [],
+      matches: [],
+      winnerId: null,
+      shardId,
+      seedsLoading: false,
+      handles: new Map(),
+      nextRoundAt: null,
+      finishedAt: null,
+    };
+    this.tournaments.set(tournament.id, tournament);
+    this.publish(tournament);
+    return this.toView(tournament);
+  }
+
+  /** Sign a player up; returns why they could not be, or null on success */
+  register(shardId: string, playerId: string, username: string): string | null {
+    const tournament = this.findActive(shardId);
+    if (!tournament) return 'No tournament is open in this world';
+    if (tournament.phase !== 'registration' || tournament.seedsLoading) return 'Registration has closed';
+    if (tournament.entrants.some((e) => e.id === playerId)) return null;
+    if (tournament.entrants.length >= TOURNAMENT_MAX_ENTRANTS) return 'The tournament is full';
+
+    tournament.entrants.push({ id: playerId, username, seed: tournament.entrants.length + 1, points: 0, withdrawn: false });
+    this.publish(tournament);
+    return null;
+  }
+
+  unregister(playerId: string): void {
+    const tournament = this.getForPlayer(playerId);
+    if (!tournament || tournament.phase !== 'registration' || tournament.seedsLoading) return;
+    tournament.entrants = tournament.entrants.filter((e) => e.id !== playerId);
+    this.publish(tournament);
+  }
+
+  /**
+   * Close registration and seed the bracket. Seeds load asynchronously
+   * (ratings and ledger balances), so round one goes out a moment later.
+   * Returns false when there are too few entrants, which cancels it.
+   */
+  start(tournamentId: string): boolean {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament || tournament.phase !== 'registration' || tournament.seedsLoading) return false;
+    if (tournament.entrants.length < TOURNAMENT_MIN_ENTRANTS) {
+      this.cancel(tournamentId);
+      return false;
+    }
+
+    tournament.seedsLoading = true;
+    Promise.all(tournament.entrants.map((e) => this.loadSeedValue(tournament, e.id)))
+      .then((values) => this.seed(tournament, values))
+      .catch((err) => {
+        log.error('Seeding failed, seeding by sign-up order', { tournamentId: tournament.id, err });
+        this.seed(tournament, tournament.entrants.map(() => 0));
+      });
+    return true;
+  }
+
+  /** Games already being played are left to finish on their own; their results no longer count */
+  cancel(tournamentId: string): void {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament || tournament.phase === 'complete' || tournament.phase === 'cancelled') return;
+    tournament.handles.clear();
+    this.finish(tournament, 'cancelled');
+  }
+
+  /** Remove a player: they lose their current and any later match by forfeit */
+  withdraw(playerId: string): boolean {
+    const tournament = this.getForPlayer(playerId);
+    if (!tournament) return false;
+    if (tournament.phase === 'registration') {
+      if (tournament.seedsLoading) {
+        // Still seeding: play on without them once the bracket exists
+        const entrant = tournament.entrants.find((e) => e.id === playerId);
+        if (entrant) entrant.withdrawn = true;
+      } else {
+        this.unregister(playerId);
+      }
+      return true;
+    }
+
+    const entrant = tournament.entrants.find((e) => e.id === playerId);
+    if (!entrant || entrant.withdrawn) return false;
+    entrant.withdrawn = true;
+
+    for (const [handle, matchId] of tournament.handles) {
+      const match = tournament.matches.find((m) => m.id === matchId);
+      if (match?.playerIds.includes(playerId)) {
+        tournament.handles.delete(handle);
+        this.launcher.abort(tournament.game, handle, playerId);
+      }
+    }
+    this.resolveForfeits(tournament);
+    this.publish(tournament);
+    return true;
+  }
+
+  handlePlayerDisconnect(playerId: string): void {
+    this.withdraw(playerId);
+  }
+
+  /** A launched match finished; `winnerId` is null when the game produced no winner */
+  reportResult(handle: string, winnerId: string | null): void {
+    for (const tournament of this.tournaments.values()) {
+      const matchId = tournament.handles.get(handle);
+      if (!matchId) continue;
+      tournament.handles.delete(handle);
+
+      const match = tournament.matches.find((m) => m.id === matchId);
+      if (!match || match.status === 'done') return;
+      const [a, b] = match.playerIds as [string, string];
+      // No winner (an empty round, a draw): the higher seed goes through
+      const winner = winnerId === a || winnerId === b ? winnerId : this.higherSeed(tournament, a, b);
+      this.decide(tournament, match, winner, false);
+      this.resolveForfeits(tournament);
+      this.publish(tournament);
+      return;
+    }
+  }
+
+  update(now: number): void {
+    for (const [id, tournament] of this.tournaments) {
+      switch (tournament.phase) {
+        case 'registration':
+          if (!tournament.seedsLoading && now >= tournament.registrationEndsAt) this.start(id);
+          break;
+
+        case 'running':
+          if (tournament.nextRoundAt !== null && now >= tournament.nextRoundAt) {
+            tournament.nextRoundAt = null;
+            this.beginRound(tournament, tournament.round + 1);
+          }
+          this.launchPending(tournament);
+          break;
+
+        case 'complete':
+        case 'cancelled':
+          if (tournament.finishedAt !== null && now - tournament.finishedAt > KEEP_FINISHED_MS) {
+            this.tournaments.delete(id);
+          }
+          break;
+      }
+    }
+  }
+
+  /** The shard's tournament: open, running, or recently finished */
+  getViewForShard(shardId: string): TournamentView | null {
+    const latest = Array.from(this.tournaments.values()).filter((t) => t.shardId === shardId).pop();
+    return latest ? this.toView(latest) : null;
+  }
+
+  /** The shard's tournament that is still open or running */
+  getForShard(shardId: string): TournamentView | null {
+    const tournament = this.findActive(shardId);
+    return tournament ? this.toView(tournament) : null;
+  }
+
+  private findActive(shardId: string): Tournament | null {
+    for (const tournament of this.tournaments.values()) {
+      if (tournament.shardId !== shardId) continue;
+      if (tournament.phase === 'registration' || tournament.phase === 'running') return tournament;
+    }
+    return null;
+  }
+
+  private getForPlayer(playerId: string): Tournament | null {
+    for (const tournament of this.tournaments.values()) {
+      if (tournament.phase !== 'registration' && tournament.phase !== 'running') continue;
+      if (tournament.entrants.some((e) => e.id === playerId)) return tournament;
+    }
+    return null;
+  }
+
+  // --- Seeding and rounds ---
+
+  private loadSeedValue(tournament: Tournament, playerId: string): Promise<number> {
+    if (tournament.seeding === 'level') {
+      return this.ledger?.getBalance(playerId).then((balance) => levelForXp(balance.xp)) ?? Promise.resolve(0);
+    }
+    return this.ratings?.load(playerId, tournament.game).then((rating) => rating.rating) ?? Promise.resolve(0);
+  }
+
+  /** Seed strongest first (sign-up order breaks ties) and start round one */
+  private seed(tournament: Tournament, values: number[]): void {
+    if (tournament.phase !== 'registration') return; // cancelled while loading
+    tournament.seedsLoading = false;
+
+    const ranked = tournament.entrants
+      .map((entrant, index) => ({ entrant, value: values[index] ?? 0, index }))
+      .sort((a, b) => b.value - a.value || a.index - b.index)
+      .map(({ entrant }, index) => ({ ...entrant, seed: index + 1 }));
+    tournament.entrants = ranked;
+    tournament.phase = 'running';
+
+    if (tournament.format === 'single-elim') {
+      tournament.totalRounds = singleEliminationRounds(ranked.length);
+      tournament.matches = buildSingleElimination(ranked.map((e) => e.id));
+    } else {
+      tournament.totalRounds = swissRounds(ranked.length);
+    }
+    log.info('Tournament started', { tournamentId: tournament.id, name: tournament.name, entrants: ranked.length, rounds: tournament.totalRounds });
+    this.beginRound(tournament, 1);
+  }
+
+  private beginRound(tournament: Tournament, round: number): void {
+    tournament.round = round;
+    if (tournament.format === 'swiss') {
+      const pairings = pairSwissRound(tournament.entrants, tournament.matches, round);
+      for (const match of pairings) {
+        if (match.status === 'done' && match.winnerId) this.entrant(tournament, match.winnerId).points++;
+      }
+      tournament.matches.push(...pairings);
+    }
+
+    for (const match of this.roundMatches(tournament, round)) {
+      const [a, b] = match.playerIds;
+      if (match.status !== 'pending' || !a || !b) continue;
+      this.sendToPlayer(a, this.matchNotice(tournament, match, b));
+      this.sendToPlayer(b, this.matchNotice(tournament, match, a));
+    }
+
+    this.resolveForfeits(tournament);
+    this.checkRoundOver(tournament);
+    this.publish(tournament);
+  }
+
+  private launchPending(tournament: Tournament): void {
+    if (tournament.phase !== 'running') return;
+    for (const match of this.roundMatches(tournament, tournament.round)) {
+      const [a, b] = match.playerIds;
+      if (match.status !== 'pending' || !a || !b) continue;
+
+      const handle = this.launcher.launch(tournament.game, tournament.shardId, [a, b]);
+      if (!handle) continue; // A player is still busy; try again next tick
+      match.status = 'live';
+      tournament.handles.set(handle, match.id);
+      this.publish(tournament);
+    }
+  }
+
+  /** Walk-overs: a match with a withdrawn player goes to the other one without being played */
+  private resolveForfeits(tournament: Tournament): void {
+    if (tournament.phase !== 'running') return;
+    for (const match of this.roundMatches(tournament, tournament.round)) {
+      const [a, b] = match.playerIds;
+      if (match.status === 'done' || !a || !b) continue;
+      const aOut = this.entrant(tournament, a).withdrawn;
+      const bOut = this.entrant(tournament, b).withdrawn;
+      if (!aOut && !bOut) continue;
+      const winner = aOut && bOut ? this.higherSeed(tournament, a, b) : aOut ? b : a;
+      this.decide(tournament, match, winner, true);
+    }
+  }
+
+  private decide(tournament: Tournament, match: TournamentMatch, winnerId: string, forfeit: boolean): void {
+    match.status = 'done';
+    match.winnerId = winnerId;
+    match.forfeit = forfeit;
+
+    if (tournament.format === 'single-elim') {
+      advanceWinner(tournament.matches, match);
+    } else {
+      this.entrant(tournament, winnerId).points++;
+    }
+    this.checkRoundOver(tournament);
+  }
+
+  /** Once every match of the round is decided, schedule the next round or crown the winner */
+  private checkRoundOver(tournament: Tournament): void {
+    if (tournament.phase !== 'running' || tournament.nextRoundAt !== null) return;
+    const matches = this.roundMatches(tournament, tournament.round);
+    if (!matches.every((m) => m.status === 'done')) return;
+
+    if (tournament.round < tournament.totalRounds) {
+      tournament.nextRoundAt = Date.now() + ROUND_BREAK_MS;
+      return;
+    }
+    tournament.winnerId = tournament.format === 'single-elim'
+      ? matches[0]?.winnerId ?? null
+      : swissStandings(tournament.entrants, tournament.matches)[0]?.id ?? null;
+    this.finish(tournament, 'complete');
+  }
+
+  private finish(tournament: Tournament, phase: TournamentPhase): void {
+    tournament.phase = phase;
+    tournament.seedsLoading = false;
+    tournament.nextRoundAt = null;
+    tournament.finishedAt = Date.now();
+    const winner = tournament.winnerId ? this.entrant(tournament, tournament.winnerId).username : null;
+    log.info('Tournament ended', { tournamentId: tournament.id, name: tournament.name, phase, winner });
+    this.publish(tournament);
+  }
+
+  private roundMatches(tournament: Tournament, round: number): TournamentMatch[] {
+    return tournament.matches.filter((m) => m.round === round);
+  }
+
+  private entrant(tournament: Tournament, playerId: string): TournamentEntrant {
+    return tournament.entrants.find((e) => e.id === playerId)!;
+  }
+
+  private higherSeed(tournament: Tournament, a: string, b: string): string {
+    return this.entrant(tournament, a).seed <= this.entrant(tournament, b).seed ? a : b;
+  }
+
+  private matchNotice(tournament: Tournament, match: TournamentMatch, opponentId: string): any {
+    const data: TournamentMatchNotice = {
+      tournamentId: tournament.id,
+      matchId: match.id,
+      round: match.round,
+      opponent: this.entrant(tournament, opponentId).username,
+      game: tournament.game,
+    };
+    return { type: 'tournament_match', data };
+  }
+
+  private toView(tournament: Tournament): TournamentView {
+    return {
+      id: tournament.id,
+      name: tournament.name,
+      format: tournament.format,
+      game: tournament.game,
+      seeding: tournament.seeding,
+      phase: tournament.phase,
+      registrationEndsAt: tournament.registrationEndsAt,
+      round: tournament.round,
+      totalRounds: tournament.totalRounds,
+      entrants: tournament.entrants.map((e) => ({ ...e })),
+      matches: tournament.matches.map((m) => ({ ...m, playerIds: [...m.playerIds] as TournamentMatch['playerIds'] })),
+      winnerId: tournament.winnerId,
+    };
+  }
+
+  private publish(tournament: Tournament): void {
+    this.broadcastToShard(tournament.shardId, { type: 'tournament_update', data: this.toView(tournament) });
+  }
+}
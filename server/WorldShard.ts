@@ -0,0 +1,131 @@
+/**
+ * World Shard
+ * One copy of the city hosted by the game server. Each shard owns its own
+ * WorldState (players, poops, races, lassos) and BotManager, so players only
+ * see and hit birds in the same shard. The economy ledger, murmurations and
+ * MvM/Heist matchmaking stay process-wide: a player keeps their balance and
+ * clan whichever shard they land in.
+ */
+
+import { WorldState } from './WorldState';
+import { BotManager, BotManagerConfig } from './BotManager';
+import { EconomyLedger } from './EconomyLedger';
+import { CityFootprints } from '../shared/CityLayout';
+import { ReplayRecorder } from './ReplayRecorder';
+
+export interface ShardConfig {
+  id: string;
+  name: string;
+  capacity: number;
+}
+
+/** One row of the lobby world list (GET /lobby) */
+export interface ShardSummary {
+  id: string;
+  name: string;
+  population: number;
+  capacity: number;
+  full: boolean;
+  bots: number;
+  /** Online members of the murmuration the lobby was asked about */
+  murmurationMembers: number;
+}
+
+export class WorldShard {
+  readonly id: string;
+  readonly name: string;
+  readonly capacity: number;
+  readonly world: WorldState;
+  readonly botManager: BotManager;
+  /** Real (socket-backed) players in this shard; bots are not counted */
+  readonly playerIds: Set<string> = new Set();
+  /** Session recorder, when REPLAY_DIR is configured */
+  replay: ReplayRecorder | null = null;
+
+  constructor(config: ShardConfig, ledger: EconomyLedger, city: CityFootprints, botConfig?: Partial<BotManagerConfig>) {
+    this.id = config.id;
+    this.name = config.name;
+    this.capacity = config.capacity;
+    this.world = new WorldState(ledger, city);
+    this.botManager = new BotManager(this.world, botConfig);
+  }
+
+  startReplay(dir: string, worldSeed: number): void {
+    this.world.enableReplayCapture();
+    this.replay = new ReplayRecorder(dir, this.id, worldSeed, this.world.TICK_RATE);
+  }
+
+  get population(): number {
+    return this.playerIds.size;
+  }
+
+  isFull(): boolean {
+    return this.playerIds.size >= this.capacity;
+  }
+
+  /** How many of the given player IDs are in this shard */
+  countPresent(playerIds: Iterable<string>): number {
+    let count = 0;
+    for (const id of playerIds) {
+      if (this.playerIds.has(id)) count++;
+    }
+    return count;
+  }
+
+  toSummary(murmurationMembers = 0): ShardSummary {
+    return {
+      id: this.id,
+      name: this.name,
+      population: this.population,
+      capacity: this.capacity,
+      full: this.isFull(),
+      bots: this.botManager.getBotCount(),
+      murmurationMembers,
+    };
+  }
+}
+
+/**
+ * Parse WORLD_SHARDS, e.g. "global-1,global-2" or "global-1:Downtown,global-2:Harbor".
+ * Falls back to a single shard named after `fallbackId` so WORLD_ID-only setups keep working.
+ */
+export function parseShardConfigs(value: string | undefined, fallbackId: string, capacity: number): ShardConfig[] {
+  const configs: ShardConfig[] = [];
+  const seen = new Set<string>();
+  for (const entry of (value || '').split(',')) {
+    const [rawId, ...rawName] = entry.split(':');
+    const id = rawId.trim();
+    if (!id || id === 'auto' || seen.has(id)) continue;
+    seen.add(id);
+    configs.push({ id, name: rawName.join(':').trim() || id, capacity });
+  }
+  if (configs.length === 0) {
+    configs.push({ id: fallbackId, name: fallbackId, capacity });
+  }
+  return configs;
+}
+
+/**
+ * Auto-placement: the shard with room holding the most of the player's
+ * companions (friends, murmuration mates), then the busiest shard with room
+ * so newcomers land somewhere lively. Null when every shard is full.
+ */
+export function chooseShard(shards: Iterable<WorldShard>, isCompanion: (playerId: string) => boolean): WorldShard | null {
+  let best: WorldShard | null = null;
+  let bestCompanions = -1;
+  for (const shard of shards) {
+    if (shard.isFull()) continue;
+    let companions = 0;
+    for (const id of shard.playerIds) {
+      if (isCompanion(id)) companions++;
+    }
+    if (
+      companions > bestCompanions ||
+      (companions === bestCompanions && best !== null && shard.population > best.population)
+    ) {
+      best = shard;
+      bestCompanions = companions;
+    }
+  }
+  return best;
+}
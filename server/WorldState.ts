@@ -6,21 +6,46 @@
 import { Player } from './Player';
 import { ServerSpatialGrid } from './SpatialGrid';
 import { RaceManager } from './RaceManager';
+import { EconomyLedger } from './EconomyLedger';
+import { CityFootprints } from '../shared/CityLayout';
+import { DEFAULT_WORLD_SEED } from '../shared/WorldSeed';
 import {
-  WorldStateSnapshot, FilteredWorldState, Vector3, NPCState,
+  WorldStateSnapshot, FilteredWorldState, Vector3, NPCState, PlayerState, MidPlayerState,
   HotspotState, ActivePoop, GameEvent, PvPHitResult,
-} from './types';
+} from '../shared/types';
+import { createLogger } from './Logger';
+
+const log = createLogger('World');
+
+/** Keep hotspot centers and spawns this far from building walls */
+const BUILDING_CLEARANCE = 10;
 
 /** Event fanout radius (units) */
 const EVENT_BROADCAST_RADIUS = 500;
 
-/** Area-of-Interest radius: only players within this range are included in per-tick state */
+/**
+ * Interest management tiers. Players within NEAR_RADIUS are sent in full every
+ * tick, players out to AOI_RADIUS as MidPlayerState every MID_TIER_INTERVAL_TICKS,
+ * and nobody beyond that unless they are always relevant (see SnapshotRelevance).
+ */
+const NEAR_RADIUS = 250;
 const AOI_RADIUS = 600;
+const MID_TIER_INTERVAL_TICKS = 4;
+
+/** Players a client must see regardless of distance */
+export interface SnapshotRelevance {
+  /** Sent in full every tick (PvP session opponents) */
+  full?: ReadonlySet<string>;
+  /** Sent at the mid tier (murmuration mates) */
+  mid?: ReadonlySet<string>;
+}
 
 /** Lag-compensation: how many ms of position history to keep per player */
 const LAG_COMP_HISTORY_MS = 500;
-/** Max lag-compensation rewind window for poop hits */
-const LAG_COMP_WINDOW_MS = 200;
+/** Max rewind for poop hits, however old the shooter's view time claims to be */
+const LAG_COMP_MAX_REWIND_MS = 250;
+/** Fastest a bird moves (units/sec) — widens the grid query for rewound victims */
+const LAG_COMP_MAX_SPEED = 120;
 
 /** PvP poop settings */
 const POOP_HIT_RADIUS = 3;
@@ -94,6 +119,7 @@ export class WorldState {
   private spatialGrid: ServerSpatialGrid;
   private activePoops: ActivePoop[];
   private pendingEvents: Map<string, GameEvent[]>; // playerId -> events for that player
+  private replayEvents: Set<GameEvent> | null = null; // events since the last replay frame (recording only)
   private activeLassos: Map<string, ActiveLassoLink>; // attackerId -> link
   private lassoCooldownUntil: Map<string, number>; // attackerId -> timestamp
   private pendingLassoCasts: Map<string, PendingLassoCast>; // attackerId -> pending cast
@@ -101,6 +127,9 @@ export class WorldState {
   private lassoRepeatByPair: Map<string, LassoRepeatState>; // attacker|victim -> repeat state
   private positionHistory: Map<string, { pos: Vector3; ts: number }[]>; // playerId -> ring buffer
   readonly raceManager: RaceManager;
+  /** Seeded building footprints (same layout the clients render) */
+  readonly city: CityFootprints;
+  private ledger: EconomyLedger | null;
 
   // PvP hit callback (used by BotManager to notify bots)
   onPvPHit: ((result: PvPHitResult) => void) | null = null;
@@ -109,7 +138,9 @@ export class WorldState {
   readonly TICK_RATE = 20;
   readonly TICK_INTERVAL = 1000 / this.TICK_RATE; // 50ms
 
-  constructor() {
+  constructor(ledger: EconomyLedger | null = null, city: CityFootprints = new CityFootprints(DEFAULT_WORLD_SEED)) {
+    this.ledger = ledger;
+    this.city = city;
     this.players = new Map();
     this.npcs = new Map();
     this.hotspots = [];
@@ -123,7 +154,7 @@ export class WorldState {
     this.lassoVictimImmunityUntil = new Map();
     this.lassoRepeatByPair = new Map();
     this.positionHistory = new Map();
-    this.raceManager = new RaceManager();
+    this.raceManager = new RaceManager(city);
 
     this.initializeHotspots();
   }
@@ -140,18 +171,20 @@ export class WorldState {
   }
 
   private randomHotspotPosition(): Vector3 {
-    const angle = Math.random() * Math.PI * 2;
-    const distance = 50 + Math.random() * 50;
-    return {
-      x: Math.cos(angle) * distance,
-      y: 0,
-      z: Math.sin(angle) * distance,
-    };
+    return this.city.sampleClear(() => {
+      const angle = Math.random() * Math.PI * 2;
+      const distance = 50 + Math.random() * 50;
+      return {
+        x: Math.cos(angle) * distance,
+        y: 0,
+        z: Math.sin(angle) * distance,
+      };
+    }, BUILDING_CLEARANCE);
   }
 
   addPlayer(player: Player): void {
     this.players.set(player.id, player);
-    console.log(`Player ${player.username} joined. Total players: ${this.players.size}`);
+    log.debug('Player added to world', { playerId: player.id, username: player.username, total: this.players.size });
   }
 
   removePlayer(playerId: string): void {
@@ -169,7 +202,7 @@ export class WorldState {
       this.pendingEvents.delete(playerId);
       this.positionHistory.delete(playerId);
       this.raceManager.removePlayer(playerId);
-      console.log(`Player ${player.username} left. Total players: ${this.players.size}`);
+      log.info('Player left', { playerId, username: player.username, total: this.players.size });
     }
   }
 
@@ -185,16 +218,31 @@ export class WorldState {
     return this.players.size;
   }
 
+  /** IDs of players and bots within `radius` of a position, as of the last tick */
+  getPlayerIdsNear(position: Vector3, radius: number): string[] {
+    return this.spatialGrid.queryRadius(position, radius);
+  }
+
   // --- Active Poop Tracking (PvP) ---
 
-  addActivePoop(ownerId: string, position: Vector3, velocity: Vector3): void {
+  /**
+   * Track a poop for PvP hits. `viewTime` is the server time the shooter was
+   * seeing when it dropped (client estimate); hits are tested against victims
+   * rewound to that moment, clamped to LAG_COMP_MAX_REWIND_MS.
+   */
+  addActivePoop(ownerId: string, position: Vector3, velocity: Vector3, viewTime?: number): void {
+    const now = Date.now();
+    const rewindMs = typeof viewTime === 'number' && Number.isFinite(viewTime)
+      ? Math.max(0, Math.min(LAG_COMP_MAX_REWIND_MS, now - viewTime))
+      : 0;
     this.activePoops.push({
       id: `poop_${nextPoopId++}`,
       ownerId,
       position: { ...position },
       velocity: { ...velocity },
       spawnAltitude: position.y,
-      spawnTime: Date.now(),
+      spawnTime: now,
+      rewindMs,
     });
   }
 
@@ -211,6 +259,7 @@ export class WorldState {
   // --- Events ---
 
   private emitEventToPlayer(playerId: string, event: GameEvent): void {
+    this.replayEvents?.add(event);
     let events = this.pendingEvents.get(playerId);
     if (!events) {
       events = [];
@@ -302,8 +351,10 @@ export class WorldState {
         continue;
       }
 
-      // Check collision with players (current position, then lag-compensated history)
-      const nearbyIds = this.spatialGrid.queryRadius(poop.position, POOP_HIT_RADIUS * 2);
+      // Check collision with players as the shooter saw them (lag-compensated)
+      const rewindTs = now - poop.rewindMs;
+      const queryRadius = POOP_HIT_RADIUS + LAG_COMP_MAX_SPEED * (poop.rewindMs / 1000);
+      const nearbyIds = this.spatialGrid.queryRadius(poop.position, queryRadius);
       for (const playerId of nearbyIds) {
         if (playerId === poop.ownerId) continue; // can't hit yourself
 
@@ -316,32 +367,11 @@ export class WorldState {
         if (victim.isStunned()) continue;
         if (!victim.canBeHitByPvP()) continue;
 
-        // Current-position check (precise)
-        let hit = false;
-        {
-          const dx = victim.position.x - poop.position.x;
-          const dy = victim.position.y - poop.position.y;
-          const dz = victim.position.z - poop.position.z;
-          if (dx * dx + dy * dy + dz * dz <= POOP_HIT_RADIUS * POOP_HIT_RADIUS) hit = true;
-        }
-
-        // Lag-compensation: check historical positions up to LAG_COMP_WINDOW_MS ago
-        if (!hit) {
-          const history = this.positionHistory.get(playerId);
-          if (history) {
-            const cutoff = now - LAG_COMP_WINDOW_MS;
-            for (let h = history.length - 1; h >= 0 && history[h].ts >= cutoff; h--) {
-              const hp = history[h].pos;
-              const dx = hp.x - poop.position.x;
-              const dy = hp.y - poop.position.y;
-              const dz = hp.z - poop.position.z;
-              if (dx * dx + dy * dy + dz * dz <= POOP_HIT_RADIUS * POOP_HIT_RADIUS) {
-                hit = true;
-                break;
-              }
-            }
-          }
-        }
+        const victimPos = poop.rewindMs > 0 ? this.getRewoundPosition(victim, rewindTs) : victim.position;
+        const dx = victimPos.x - poop.position.x;
+        const dy = victimPos.y - poop.position.y;
+        const dz = victimPos.z - poop.position.z;
+        const hit = dx * dx + dy * dy + dz * dz <= POOP_HIT_RADIUS * POOP_HIT_RADIUS;
 
         if (!hit) continue;
 
@@ -349,7 +379,7 @@ export class WorldState {
         const attacker = this.players.get(poop.ownerId);
         if (!attacker) continue;
 
-        const result = this.processPvPHit(attacker, victim, poop.spawnAltitude);
+        this.processPvPHit(attacker, victim, poop.spawnAltitude, poop.rewindMs);
         toRemove.push(i);
         break; // poop consumed
       }
@@ -361,6 +391,30 @@ export class WorldState {
     }
   }
 
+  /**
+   * A player's position at server time `ts`, interpolated from positionHistory.
+   * Falls back to the oldest sample beyond the history, the live position after it.
+   */
+  private getRewoundPosition(player: Player, ts: number): Vector3 {
+    const history = this.positionHistory.get(player.id);
+    if (!history || history.length === 0) return player.position;
+    if (ts >= history[history.length - 1].ts) return player.position;
+    if (ts <= history[0].ts) return history[0].pos;
+
+    for (let h = history.length - 1; h > 0; h--) {
+      const a = history[h - 1];
+      const b = history[h];
+      if (a.ts > ts) continue;
+      const t = b.ts > a.ts ? (ts - a.ts) / (b.ts - a.ts) : 1;
+      return {
+        x: a.pos.x + (b.pos.x - a.pos.x) * t,
+        y: a.pos.y + (b.pos.y - a.pos.y) * t,
+        z: a.pos.z + (b.pos.z - a.pos.z) * t,
+      };
+    }
+    return history[0].pos;
+  }
+
   private getAltitudeDamageMultiplier(spawnAltitude: number): number {
     const t = (spawnAltitude - PVP_DAMAGE_ALTITUDE_MIN)
       / (PVP_DAMAGE_ALTITUDE_MAX - PVP_DAMAGE_ALTITUDE_MIN);
@@ -369,7 +423,7 @@ export class WorldState {
       + (PVP_DAMAGE_MULTIPLIER_MAX - PVP_DAMAGE_MULTIPLIER_MIN) * clamped;
   }
 
-  private processPvPHit(attacker: Player, victim: Player, spawnAltitude: number): PvPHitResult {
+  private processPvPHit(attacker: Player, victim: Player, spawnAltitude: number, rewindMs = 0): PvPHitResult {
     const damageMultiplier = this.getAltitudeDamageMultiplier(spawnAltitude);
 
     // Calculate stolen coins (scaled by drop altitude)
@@ -384,6 +438,9 @@ export class WorldState {
     attacker.addCoins(stolenCoins);
     attacker.updateHeat(PVP_HIT_HEAT);
 
+    // Audit trail: stolen coins are unbanked, but the ledger traces them into banks
+    this.ledger?.recordTransfer(victim.id, attacker.id, stolenCoins, 'pvp_steal');
+
     const result: PvPHitResult = {
       attackerId: attacker.id,
       attackerName: attacker.username,
@@ -391,6 +448,7 @@ export class WorldState {
       victimName: victim.username,
       stolenCoins,
       victimStunDuration: PVP_STUN_DURATION,
+      rewindMs,
     };
 
     // Emit event to nearby players
@@ -400,7 +458,7 @@ export class WorldState {
     // Notify external systems (e.g. BotManager for reactive behavior)
     this.onPvPHit?.(result);
 
-    console.log(`💩 PvP HIT! ${attacker.username} splatted ${victim.username} (stole ${stolenCoins} coins @ ${spawnAltitude.toFixed(1)}y, x${damageMultiplier.toFixed(2)})`);
+    log.debug('PvP hit', { attackerId: attacker.id, victimId: victim.id, stolenCoins, altitude: Number(spawnAltitude.toFixed(1)), multiplier: Number(damageMultiplier.toFixed(2)), rewindMs });
     return result;
   }
 
@@ -791,7 +849,7 @@ export class WorldState {
     for (const hotspot of this.hotspots) {
       hotspot.position = this.randomHotspotPosition();
     }
-    console.log('Hotspots rotated');
+    log.debug('Hotspots rotated');
   }
 
   // --- Snapshots ---
@@ -810,19 +868,48 @@ export class WorldState {
   }
 
   /**
-   * AOI-filtered snapshot for a specific player.
-   * Only includes players within AOI_RADIUS — eliminates O(N²) bandwidth growth.
+   * Tiered interest-managed snapshot for a specific player.
+   * Full state for nearby birds, mid-tier state at reduced rate out to AOI_RADIUS,
+   * and nothing beyond unless the player is always relevant to this client.
    */
-  getFilteredSnapshot(forPlayer: Player): FilteredWorldState {
-    const nearbyIds = this.spatialGrid.queryRadius(forPlayer.position, AOI_RADIUS);
-    const nearbySet = new Set(nearbyIds);
-
-    const players = [];
-    for (const other of this.players.values()) {
-      if (other.id === forPlayer.id) continue;
-      if (!nearbySet.has(other.id)) continue; // outside AOI — skip
+  getFilteredSnapshot(forPlayer: Player, relevance: SnapshotRelevance = {}): FilteredWorldState {
+    const includeMid = this.currentTick % MID_TIER_INTERVAL_TICKS === 0;
+    const nearRadiusSq = NEAR_RADIUS * NEAR_RADIUS;
+
+    const players: PlayerState[] = [];
+    const midPlayers: MidPlayerState[] = [];
+    const included = new Set<string>();
+
+    for (const id of this.spatialGrid.queryRadius(forPlayer.position, AOI_RADIUS)) {
+      if (id === forPlayer.id) continue;
+      const other = this.players.get(id);
+      if (!other) continue;
+      included.add(id);
+      const dx = other.position.x - forPlayer.position.x;
+      const dy = other.position.y - forPlayer.position.y;
+      const dz = other.position.z - forPlayer.position.z;
+      if (relevance.full?.has(id) || dx * dx + dy * dy + dz * dz <= nearRadiusSq) {
+        players.push(other.toState());
+      } else if (includeMid) {
+        midPlayers.push(other.toMidState());
+      }
+    }
+
+    // Always-relevant players outside the AOI
+    for (const id of relevance.full ?? []) {
+      if (id === forPlayer.id || included.has(id)) continue;
+      const other = this.players.get(id);
+      if (!other) continue;
+      included.add(id);
       players.push(other.toState());
     }
+    if (includeMid) {
+      for (const id of relevance.mid ?? []) {
+        if (id === forPlayer.id || included.has(id)) continue;
+        const other = this.players.get(id);
+        if (other) midPlayers.push(other.toMidState());
+      }
+    }
 
     // Gather pending events for this player
     const events = this.pendingEvents.get(forPlayer.id) || [];
@@ -832,6 +919,70 @@ export class WorldState {
       tick: this.currentTick,
       timestamp: Date.now(),
       players,
+      ...(includeMid ? { midPlayers } : {}),
+      hotspots: this.hotspots.map(h => ({ ...h })),
+      events,
+      ...(forPlayer.lastInputSeq >= 0 ? { ack: forPlayer.toInputAck() } : {}),
+    };
+  }
+
+  /**
+   * Interest-managed snapshot for a spectator, who has no Player of their own:
+   * the watched players in full every tick, and everyone else tiered by
+   * distance from the point the spectator's camera follows.
+   */
+  getSpectatorSnapshot(center: Vector3, watched: ReadonlySet<string>): FilteredWorldState {
+    const includeMid = this.currentTick % MID_TIER_INTERVAL_TICKS === 0;
+    const nearRadiusSq = NEAR_RADIUS * NEAR_RADIUS;
+
+    const players: PlayerState[] = [];
+    const midPlayers: MidPlayerState[] = [];
+
+    for (const id of watched) {
+      const player = this.players.get(id);
+      if (player) players.push(player.toState());
+    }
+    for (const id of this.spatialGrid.queryRadius(center, AOI_RADIUS)) {
+      if (watched.has(id)) continue;
+      const other = this.players.get(id);
+      if (!other) continue;
+      const dx = other.position.x - center.x;
+      const dy = other.position.y - center.y;
+      const dz = other.position.z - center.z;
+      if (dx * dx + dy * dy + dz * dz <= nearRadiusSq) {
+        players.push(other.toState());
+      } else if (includeMid) {
+        midPlayers.push(other.toMidState());
+      }
+    }
+
+    return {
+      tick: this.currentTick,
+      timestamp: Date.now(),
+      players,
+      ...(includeMid ? { midPlayers } : {}),
+      hotspots: this.hotspots.map(h => ({ ...h })),
+      events: [],
+    };
+  }
+
+  /** Start collecting events for getReplaySnapshot (called when a replay recorder is attached). */
+  enableReplayCapture(): void {
+    this.replayEvents ??= new Set();
+  }
+
+  /**
+   * Whole-world snapshot for the replay recorder: every player at full detail,
+   * and each event emitted since the previous call exactly once.
+   */
+  getReplaySnapshot(): FilteredWorldState {
+    const events = this.replayEvents ? Array.from(this.replayEvents) : [];
+    this.replayEvents?.clear();
+
+    return {
+      tick: this.currentTick,
+      timestamp: Date.now(),
+      players: this.getAllPlayers().map(p => p.toState()),
       hotspots: this.hotspots.map(h => ({ ...h })),
       events,
     };
@@ -860,12 +1011,14 @@ export class WorldState {
   // --- Spawn ---
 
   getSpawnPosition(): Vector3 {
-    const angle = Math.random() * Math.PI * 2;
-    const distance = 80 + Math.random() * 20;
-    return {
-      x: Math.cos(angle) * distance,
-      y: 20 + Math.random() * 10,
-      z: Math.sin(angle) * distance,
-    };
+    return this.city.sampleClear(() => {
+      const angle = Math.random() * Math.PI * 2;
+      const distance = 80 + Math.random() * 20;
+      return {
+        x: Math.cos(angle) * distance,
+        y: 20 + Math.random() * 10,
+        z: Math.sin(angle) * distance,
+      };
+    }, BUILDING_CLEARANCE);
   }
 }
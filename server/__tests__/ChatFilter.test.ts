@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { CHAT_SPAM_LIMITS, ChatFilterChain, LinkFilter, SpamFilter, WordListFilter } from '../ChatFilter';
+
+describe('ChatFilter', () => {
+  const line = (message: string, now = 0) => ({ senderKey: 'acct-1', channel: 'global' as const, message, now });
+
+  it('should mask listed words through leetspeak, stretching and spacing but not inside other words', () => {
+    const words = new WordListFilter(['shit*', 'ass']);
+    expect(words.mask('oh sh1t!')).toBe('oh *****');
+    expect(words.mask('SHIIIIT happens')).toBe('******* happens');
+    expect(words.mask('s h i t and a $ $')).toBe('* * * * and * * *');
+    expect(words.mask('first class assets')).toBe('first class assets');
+  });
+
+  it('should strip links and invites except on allowed hosts', () => {
+    const links = new LinkFilter(['birdgame3.com']);
+    const strip = (message: string) => {
+      const verdict = links.apply(line(message));
+      return verdict.action === 'allow' ? verdict.message : null;
+    };
+    expect(strip('free coins at https://scam.example/x')).toBe('free coins at [link removed]');
+    expect(strip('join discord . gg / abc123 now')).toBe('join [link removed] now');
+    expect(strip('patch notes on www.birdgame3.com/news')).toBe('patch notes on www.birdgame3.com/news');
+  });
+
+  it('should warn on the first spam strike and mute for longer on each one after', () => {
+    const chain = new ChatFilterChain([new SpamFilter()]);
+    const verdicts = [];
+    let now = 0;
+    for (let strike = 0; strike < 3; strike++) {
+      for (let i = 0; i < CHAT_SPAM_LIMITS.REPEAT_MAX; i++) {
+        now += 1000;
+        verdicts.push(chain.run(line('BUY  gold', now)).action);
+      }
+    }
+    expect(verdicts).toEqual(['allow', 'allow', 'drop', 'allow', 'allow', 'mute', 'allow', 'allow', 'mute']);
+
+    const flood = new SpamFilter();
+    const results = Array.from({ length: CHAT_SPAM_LIMITS.FLOOD_MAX_MESSAGES + 1 }, (_, i) => flood.apply(line(`line ${i}`, i * 100)));
+    expect(results.at(-1)).toMatchObject({ action: 'drop' });
+
+    // A clean day wipes the strikes, so the next offence is a warning again
+    now += CHAT_SPAM_LIMITS.STRIKE_RESET_MS + 1;
+    const later = [1, 2, 3].map((i) => chain.run(line('again', now + i * 1000)));
+    expect(later.at(-1)).toMatchObject({ action: 'drop' });
+  });
+
+  it('should escalate the mute length with each strike', () => {
+    const spam = new SpamFilter();
+    const durations: number[] = [];
+    for (let i = 0, now = 0; i < 6 * CHAT_SPAM_LIMITS.REPEAT_MAX; i++) {
+      now += 1000;
+      const verdict = spam.apply(line('same', now));
+      if (verdict.action === 'mute') durations.push(verdict.durationMs);
+    }
+    expect(durations).toEqual([...CHAT_SPAM_LIMITS.MUTE_STEPS_MS, CHAT_SPAM_LIMITS.MUTE_STEPS_MS.at(-1)]);
+  });
+});
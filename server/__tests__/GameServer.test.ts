@@ -0,0 +1,1023 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ServerHarness, FakeClient, testPlayerId } from './ServerHarness';
+import { RACE_ROUTE_DATA } from '../../shared/PvPCourses';
+import { CityFootprints } from '../../shared/CityLayout';
+import { DEFAULT_WORLD_SEED } from '../../shared/WorldSeed';
+import { InMemoryRatingStore } from '../Ratings';
+import { InMemoryLedgerStore } from '../EconomyLedger';
+import { encodeRaceRouteCode, getRaceRouteId } from '../../shared/RaceRouteFormat';
+
+/** Spawn shield plus a tick, so players can poop and be hit */
+const SPAWN_SHIELD_MS = 3100;
+/** Longer than the anti-cheat window, so the next move is checked only for walls */
+const TELEPORT_GAP_MS = 5100;
+
+describe('GameServer', () => {
+  let harness: ServerHarness;
+
+  afterEach(async () => {
+    await harness.stop();
+  });
+
+  describe('joining', () => {
+    beforeEach(async () => {
+      harness = await ServerHarness.start({
+        shards: [{ id: 'test-1', name: 'Test', capacity: 2 }],
+      });
+    });
+
+    it('should welcome players into the shard and stream each other\'s state', async () => {
+      const alice = await harness.connect('Alice');
+      const welcome = await alice.take('welcome');
+      expect(welcome.data).toMatchObject({ playerId: alice.playerId, worldId: 'test-1', worldName: 'Test' });
+
+      const bob = await harness.join('Bob');
+      expect((await alice.take('player_joined')).data.player.id).toBe(bob.playerId);
+
+      await harness.tick();
+      const state = await alice.take('state');
+      expect(state.data.players.map((p: { id: string }) => p.id)).toEqual([bob.playerId]);
+    });
+
+    it('should reject players once every shard is full', async () => {
+      await harness.join('Alice');
+      await harness.join('Bob');
+
+      const auto = await harness.connect('Carol');
+      expect(await auto.takeError()).toBe('Server full');
+      await auto.waitForClose();
+
+      const explicit = await harness.connect('Dave', { worldId: 'test-1' });
+      expect(await explicit.takeError()).toBe('World full');
+    });
+
+    it('should reject unknown worlds', async () => {
+      const client = await harness.connect('Alice', { worldId: 'nowhere' });
+      expect(await client.takeError()).toBe('World mismatch');
+    });
+  });
+
+  describe('health and metrics', () => {
+    beforeEach(async () => {
+      harness = await ServerHarness.start();
+    });
+
+    it('should report healthy and ready once started', async () => {
+      expect(await harness.get('/healthz')).toMatchObject({ status: 200 });
+      const ready = await harness.get('/readyz');
+      expect(ready.status).toBe(200);
+      expect(JSON.parse(ready.body).status).toBe('ready');
+    });
+
+    it('should export players, ticks, bytes sent and anti-cheat rejections', async () => {
+      const alice = await harness.join('Alice');
+      await harness.tick();
+      alice.move({ x: 900, y: 150, z: 0 }); // far further than one tick of flight allows
+      await harness.tick(2);
+      expect((await alice.take('correction')).data).toMatchObject({ reason: 'speed', position: harness.player(alice).position });
+
+      const metrics = await harness.get('/metrics');
+      expect(metrics.status).toBe(200);
+      expect(metrics.body).toContain('birdgame_players{shard="test-1"} 1');
+      expect(metrics.body).toContain('birdgame_tick_duration_seconds_count 3');
+      expect(metrics.body).toContain('birdgame_anticheat_rejections_total{reason="teleport"} 1');
+      expect(metrics.body).toContain('birdgame_active_matches{kind="pvp"} 0');
+      const sent = /^birdgame_sent_bytes_total (\d+)$/m.exec(metrics.body);
+      expect(Number(sent?.[1])).toBeGreaterThan(0);
+    });
+  });
+
+  describe('moderation', () => {
+    const adminId = testPlayerId(999);
+
+    beforeEach(async () => {
+      harness = await ServerHarness.start({ adminUserIds: [adminId] });
+    });
+
+    it('should kick a banned player and refuse them on rejoin', async () => {
+      const admin = await harness.join('Admin', { playerId: adminId });
+      const bob = await harness.join('Bob');
+
+      admin.chat('/ban Bob');
+      await harness.flush();
+
+      expect((await bob.take('admin_kicked')).data.reason).toBe('Banned by admin');
+      await bob.waitForClose();
+
+      const again = await harness.connect('Bob', { playerId: bob.playerId });
+      expect(await again.takeError()).toBe('You are banned from this server');
+    });
+
+    it('should ignore admin commands from regular players', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+
+      alice.chat('/ban Bob');
+      await harness.tick();
+
+      expect(bob.isOpen).toBe(true);
+      expect(bob.received('admin_kicked')).toHaveLength(0);
+    });
+
+    it('should keep a banned guest\'s device out under a fresh guest ID', async () => {
+      const admin = await harness.join('Admin', { playerId: adminId });
+      const griefer = await harness.join('Griefer', { playerId: 'guest_griefer1', deviceId: 'device-test-0001' });
+
+      admin.chat('/ban Griefer 1d griefing');
+      await harness.flush();
+      expect((await griefer.take('admin_kicked')).data.reason).toBe('Banned by admin for 1d: griefing');
+      await griefer.waitForClose();
+
+      const again = await harness.connect('Griefer2', { playerId: 'guest_fresh123', deviceId: 'device-test-0001' });
+      expect(await again.takeError()).toBe('You are banned from this server (1d left)');
+      await harness.join('Other', { playerId: 'guest_other123', deviceId: 'device-test-0002' });
+    });
+
+    it('should silence a muted player, pass reports to admins and show both in /history', async () => {
+      const admin = await harness.join('Admin', { playerId: adminId });
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+      const notice = (client: FakeClient, text: string) =>
+        client.take('chat', (data) => data?.playerId === 'server' && data.message.startsWith(text));
+
+      admin.chat('/mute Bob 30m spam');
+      await notice(bob, 'You have been muted (30m left): spam');
+      bob.chat('buy coins at my site');
+      await notice(bob, 'You are muted');
+      await harness.flush();
+      expect(alice.received('chat').filter((msg) => msg.data.playerId === bob.playerId)).toHaveLength(0);
+
+      alice.chat('/report Bob spamming links');
+      await notice(alice, 'Thanks, your report on Bob');
+      await notice(admin, '[Report] Alice reported Bob: spamming links');
+      alice.chat('/report Bob again');
+      await notice(alice, 'Please wait');
+
+      admin.chat('/history Bob');
+      await notice(admin, 'History for Bob: 1 sanction(s), 1 report(s), 2 admin action(s)');
+      await notice(admin, '  mute by Admin');
+      await notice(admin, '  report by Alice');
+      await notice(admin, '  /mute Bob 30m spam by Admin');
+    });
+
+    it('should clean up chat lines and auto-mute a player who keeps repeating one', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+      const notice = (text: string) =>
+        bob.take('chat', (data) => data?.playerId === 'server' && data.message.startsWith(text));
+      const say = async (message: string) => {
+        bob.chat(message);
+        await harness.advance(1100);
+      };
+
+      await say('check www.free-feathers.xyz you sh1t');
+      const masked = await alice.take('chat', (data) => data?.playerId === bob.playerId);
+      expect(masked.data.message).toBe('check [link removed] you ****');
+
+      for (let i = 0; i < 3; i++) await say('buy gold');
+      await notice('Slow down');
+      for (let i = 0; i < 3; i++) await say('buy gold');
+      await notice('You have been muted (1m left): repeating the same message');
+      expect(alice.received('chat').filter((msg) => msg.data.message === 'buy gold')).toHaveLength(4);
+
+      await say('sorry');
+      await notice('You are muted');
+    });
+
+    it('should change the shard\'s bot difficulty and refuse unknown tiers', async () => {
+      const admin = await harness.join('Admin', { playerId: adminId });
+      const reply = (text: string) => admin.take('chat', (data) => data?.message?.startsWith(text));
+
+      admin.chat('/botdifficulty');
+      expect((await reply('Bot difficulty:')).data.message).toContain('Normal');
+
+      admin.chat('/botdifficulty godlike');
+      await reply('Usage: /botdifficulty');
+
+      admin.chat('/botdifficulty Expert');
+      await reply('Bot difficulty set to Expert');
+      admin.chat('/botdifficulty');
+      expect((await reply('Bot difficulty:')).data.message).toContain('Expert');
+    });
+  });
+
+  describe('admin API', () => {
+    const token = 'test-admin-token-0123456789';
+
+    beforeEach(async () => {
+      harness = await ServerHarness.start({ adminApiToken: token });
+    });
+
+    it('should refuse requests without the token', async () => {
+      expect((await harness.adminApi('GET', 'players', null)).status).toBe(401);
+      expect((await harness.adminApi('GET', 'players', 'wrong-token-0123456789')).status).toBe(401);
+      expect((await harness.adminApi('GET', 'nothing-here', token)).status).toBe(404);
+    });
+
+    it('should list players and kick, mute and ban them', async () => {
+      const bob = await harness.join('Bob');
+      const carol = await harness.join('Carol');
+
+      const overview = await harness.adminApi('GET', 'overview', token);
+      expect(overview.data.players).toBe(2);
+      const players = await harness.adminApi('GET', 'players', token);
+      expect(players.data.map((p: any) => p.username).sort()).toEqual(['Bob', 'Carol']);
+
+      const mute = await harness.adminApi('POST', `players/${carol.playerId}/mute`, token, { duration: '30m', reason: 'spam' });
+      expect(mute.data.issuedBy).toBe('Tester (web)');
+      await carol.take('chat', (data) => data?.playerId === 'server' && data.message === 'You have been muted (30m left): spam');
+      expect((await harness.adminApi('POST', `players/${carol.playerId}/mute`, token, { duration: 'soon' })).status).toBe(400);
+
+      await harness.adminApi('POST', `players/${bob.playerId}/ban`, token, { duration: '1d' });
+      expect((await bob.take('admin_kicked')).data.reason).toBe('Banned by admin for 1d');
+      await bob.waitForClose();
+
+      const bans = await harness.adminApi('GET', 'bans', token);
+      expect(bans.data.map((s: any) => s.username)).toEqual(['Bob']);
+      expect((await harness.adminApi('DELETE', 'bans/Bob', token)).status).toBe(200);
+      expect((await harness.adminApi('GET', 'bans', token)).data).toEqual([]);
+
+      const history = await harness.adminApi('GET', 'history?name=Bob', token);
+      expect(history.data.actions.map((a: any) => `${a.command} by ${a.adminName}`).sort())
+        .toEqual(['ban by Tester (web)', 'unban by Tester (web)']);
+    });
+  });
+
+  describe('chat channels', () => {
+    beforeEach(async () => {
+      harness = await ServerHarness.start();
+    });
+
+    const fromPlayer = (client: FakeClient) => (data: any) => data?.playerId === client.playerId;
+    const notice = (client: FakeClient, text: string) =>
+      client.take('chat', (data) => data?.playerId === 'server' && data.message.startsWith(text));
+
+    it('should keep proximity lines among nearby birds and whispers between two players', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+      const carol = await harness.join('Carol');
+      await harness.advance(TELEPORT_GAP_MS);
+      alice.move({ x: 0, y: 150, z: 0 });
+      bob.move({ x: 40, y: 150, z: 0 });
+      carol.move({ x: 900, y: 150, z: 0 });
+      await harness.tick(2);
+
+      alice.chat('anyone around?', 'proximity');
+      expect((await bob.take('chat', fromPlayer(alice))).data).toMatchObject({ channel: 'proximity', message: 'anyone around?' });
+      await harness.flush();
+      expect(carol.received('chat').filter((msg) => msg.data.playerId === alice.playerId)).toHaveLength(0);
+
+      carol.chat('/w alice hi there');
+      expect((await alice.take('chat', fromPlayer(carol))).data).toMatchObject({ channel: 'whisper', message: 'hi there' });
+      expect((await carol.take('chat', fromPlayer(carol))).data).toMatchObject({ toId: alice.playerId, toName: 'Alice' });
+
+      // Typing in the whisper tab answers the last whisper
+      await harness.advance(1100);
+      alice.chat('hello back', 'whisper');
+      expect((await carol.take('chat', fromPlayer(alice))).data).toMatchObject({ channel: 'whisper', toName: 'Carol' });
+      await harness.flush();
+      expect(bob.received('chat').filter((msg) => msg.data.channel === 'whisper')).toHaveLength(0);
+    });
+
+    it('should form a party by invite, chat in it and break it up when one is left', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+      const carol = await harness.join('Carol');
+
+      bob.chat('hey team', 'party');
+      await notice(bob, 'You are not in a party');
+      bob.chat('gg', 'session');
+      await notice(bob, 'You are not in a match');
+
+      alice.chat('/party invite Bob');
+      await notice(bob, 'Alice invited you to a party');
+      bob.chat('/party accept');
+      await notice(alice, 'Bob joined the party');
+      await notice(bob, 'You joined the party: Alice, Bob');
+
+      bob.chat('party line', 'party');
+      expect((await alice.take('chat', fromPlayer(bob))).data).toMatchObject({ channel: 'party', message: 'party line' });
+      await harness.flush();
+      expect(carol.received('chat').filter((msg) => msg.data.playerId === bob.playerId)).toHaveLength(0);
+
+      bob.chat('/party leave');
+      await notice(alice, 'Bob left, so the party broke up');
+      alice.chat('/party');
+      await notice(alice, 'You are not in a party');
+    });
+  });
+
+  describe('tournaments', () => {
+    const adminId = testPlayerId(999);
+
+    beforeEach(async () => {
+      harness = await ServerHarness.start({ adminUserIds: [adminId] });
+    });
+
+    it('should run a single-elimination bracket with a bye and forfeits', async () => {
+      const admin = await harness.join('Admin', { playerId: adminId });
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+      const carol = await harness.join('Carol');
+
+      admin.chat('/tournament open single poop-tag 10 Friday Cup');
+      await harness.flush();
+      expect((await alice.take('tournament_update')).data).toMatchObject({ name: 'Friday Cup', phase: 'registration' });
+      for (const player of [alice, bob, carol]) player.send('tournament-register');
+      admin.chat('/tournament start');
+      await harness.tick(2);
+
+      // Equal ratings seed in sign-up order: Alice gets the bye, Bob and Carol play
+      const running = (await alice.take('tournament_update', (data) => data.phase === 'running' && data.matches.some(
+        (m: { status: string }) => m.status === 'live'))).data;
+      expect(running.entrants.map((e: { username: string }) => e.username)).toEqual(['Alice', 'Bob', 'Carol']);
+      const [bye, semi] = running.matches;
+      expect(bye).toMatchObject({ round: 1, status: 'done', winnerId: alice.playerId });
+      expect(semi).toMatchObject({ round: 1, status: 'live', playerIds: [bob.playerId, carol.playerId] });
+      expect((await bob.take('tournament_match')).data.opponent).toBe('Carol');
+      expect((await bob.take('pvp-state-update')).data).toMatchObject({ mode: 'poop-tag', phase: 'lobby' });
+
+      // Carol leaving hands Bob the match and, after the break, the final starts
+      await carol.close();
+      await harness.tick();
+      const forfeited = (await alice.take('tournament_update', (data) => data.matches[1]?.status === 'done')).data;
+      expect(forfeited.matches[1]).toMatchObject({ winnerId: bob.playerId, forfeit: true });
+      expect(forfeited.matches[2].playerIds).toEqual([alice.playerId, bob.playerId]);
+      await harness.advance(15_000);
+      expect((await alice.take('tournament_match')).data).toMatchObject({ round: 2, opponent: 'Bob' });
+
+      // An admin can take a player out mid-match
+      admin.chat('/tournament forfeit Alice');
+      await harness.tick();
+      expect((await bob.take('pvp-mode-end', (data) => data.results?.reason === 'forfeit')).data.mode).toBe('poop-tag');
+      const done = (await bob.take('tournament_update', (data) => data.phase === 'complete')).data;
+      expect(done.winnerId).toBe(bob.playerId);
+      expect(done.matches[2]).toMatchObject({ status: 'done', forfeit: true });
+    });
+
+    it('should settle a drawn tournament heist once overtime runs out', async () => {
+      const admin = await harness.join('Admin', { playerId: adminId });
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+
+      admin.chat('/tournament open single heist 10 Trophy Cup');
+      await harness.flush();
+      for (const player of [alice, bob]) player.send('tournament-register');
+      admin.chat('/tournament start');
+      await harness.tick(2);
+      const start = (await alice.take('heist-match-start')).data;
+      expect(start.players.sort()).toEqual([alice.playerId, bob.playerId].sort());
+
+      // Nobody scores: regulation ends level, then sudden death runs out too
+      await harness.advance((start.countdown + start.rules.timeLimit) * 1000 + 500);
+      await bob.take('heist-overtime');
+      await harness.advance(60_000);
+      const end = (await alice.take('heist-match-end')).data;
+      expect([alice.playerId, bob.playerId]).toContain(end.winnerId);
+      const done = (await bob.take('tournament_update', (data) => data.phase === 'complete')).data;
+      expect(done.winnerId).toBe(end.winnerId);
+    });
+  });
+
+  describe('private lobbies', () => {
+    beforeEach(async () => {
+      harness = await ServerHarness.start();
+    });
+
+    it('should start a hosted lobby on a ready-check and reopen it after the round', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+
+      alice.send('pvp-lobby-create', { settings: { modeId: 'poop-tag', roundSeconds: 45 } });
+      const created = (await alice.take('pvp-lobby')).data;
+      expect(created).toMatchObject({ hostId: alice.playerId, phase: 'lobby', settings: { roundSeconds: 45 } });
+
+      bob.send('pvp-lobby-join', { code: 'nope!' });
+      expect(await bob.takeError()).toBe('No lobby with that code');
+      bob.send('pvp-lobby-join', { code: created.code.toLowerCase() });
+      await bob.take('pvp-lobby', (data) => data?.members.length === 2);
+      bob.send('pvp-lobby-settings', { settings: { roundSeconds: 300 } });
+      expect(await bob.takeError()).toBe('Only the host can do that');
+
+      // No lobby timer: nothing starts until everyone is ready, and un-readying stops the countdown
+      await harness.advance(5000);
+      expect(alice.received('pvp-state-update').every((msg) => msg.data.phase === 'lobby')).toBe(true);
+      alice.send('pvp-lobby-ready', { ready: true });
+      bob.send('pvp-lobby-ready', { ready: true });
+      await harness.tick();
+      await alice.take('pvp-state-update', (data) => data.phase === 'countdown');
+      bob.send('pvp-lobby-ready', { ready: false });
+      await harness.tick();
+      await alice.take('pvp-state-update', (data) => data.phase === 'lobby');
+      bob.send('pvp-lobby-ready', { ready: true });
+      await harness.advance(3100);
+
+      const start = (await alice.take('pvp-mode-start')).data;
+      expect(start.mode).toBe('poop-tag');
+      expect(start.timeRemaining).toBeGreaterThan(40);
+      expect(start.timeRemaining).toBeLessThanOrEqual(45);
+
+      await harness.advance(45_000);
+      await alice.take('pvp-mode-end');
+      await harness.advance(10_000);
+      const reopened = (await bob.take('pvp-lobby', (data) => data?.phase === 'lobby' && data.members.every(
+        (m: { ready: boolean }) => !m.ready))).data;
+      expect(reopened.code).toBe(created.code);
+      expect(alice.received('rating_update')).toHaveLength(0);
+
+      // The host leaving hands the lobby over
+      alice.send('pvp-leave');
+      expect((await bob.take('pvp-lobby', (data) => data?.members.length === 1)).data.hostId).toBe(bob.playerId);
+    });
+
+    it('should keep a private heist and its lobby out of spectators\' reach', async () => {
+      await harness.stop();
+      const token = 'test-admin-token-0123456789';
+      harness = await ServerHarness.start({ adminApiToken: token });
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+
+      alice.send('pvp-lobby-create', { settings: { modeId: 'heist' } });
+      const { code } = (await alice.take('pvp-lobby')).data;
+      bob.send('pvp-lobby-join', { code });
+      await bob.take('pvp-lobby', (data) => data?.members.length === 2);
+      for (const player of [alice, bob]) player.send('pvp-lobby-ready', { ready: true });
+      await harness.advance(3100);
+      await alice.take('heist-match-start');
+
+      // Admins still see both, marked private; the lobby listing and spectators do not
+      const listed = (await harness.adminApi('GET', 'matches', token)).data;
+      const privateMatches = listed.filter((match: { isPrivate: boolean }) => match.isPrivate);
+      expect(privateMatches.map((match: { kind: string }) => match.kind).sort()).toEqual(['heist', 'pvp']);
+      expect((await harness.lobby()).matches).toHaveLength(0);
+      for (const { kind, matchId } of privateMatches) {
+        const eve = await harness.spectate('Eve', { kind, matchId });
+        expect(await eve.takeError()).toBe('Match not found');
+      }
+    });
+
+    it('should start a private heist with the lobby\'s rules and pay no rewards', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+
+      alice.send('pvp-lobby-create', { settings: { modeId: 'heist', roundSeconds: 60, abilities: { slams: false, passing: true } } });
+      const { code } = (await alice.take('pvp-lobby')).data;
+      bob.send('pvp-lobby-join', { code });
+      await bob.take('pvp-lobby', (data) => data?.members.length === 2);
+      for (const player of [alice, bob]) player.send('pvp-lobby-ready', { ready: true });
+      await harness.advance(3100);
+      const start = (await alice.take('heist-match-start')).data;
+      expect(start.rules).toMatchObject({ timeLimit: 60, slams: false, passing: true, rated: false, rewarded: false });
+
+      await bob.close();
+      await harness.tick();
+      const end = (await alice.take('heist-match-end')).data;
+      expect(end.winnerId).toBe(alice.playerId);
+      expect(end.rewards).toEqual({});
+      await harness.flush();
+      expect(alice.received('ledger_balance').filter((m) => m.data.reason === 'heist_reward')).toHaveLength(0);
+    });
+  });
+
+  describe('gameplay', () => {
+    beforeEach(async () => {
+      harness = await ServerHarness.start();
+    });
+
+    it('should bank carried coins after the channel time', async () => {
+      const alice = await harness.join('Alice');
+      await harness.advance(SPAWN_SHIELD_MS);
+
+      alice.send('bank');
+      expect(await alice.takeError()).toBe('Cannot start banking');
+
+      harness.player(alice).addCoins(40);
+      alice.send('bank');
+      alice.send('bank_complete');
+      expect(await alice.takeError()).toBe('Banking not complete yet');
+
+      await harness.advance(2500);
+      alice.send('bank_complete');
+
+      const banked = await alice.take('player_banked');
+      expect(banked.data).toMatchObject({ playerId: alice.playerId, coins: 40, xp: 8 });
+      const balance = await alice.take('ledger_balance', (data) => data.reason === 'bank');
+      expect(balance.data.balance.coins).toBe(40);
+      expect(harness.player(alice).coins).toBe(0);
+    });
+
+    it('should carry reported NPC coins only up to the earning allowance', async () => {
+      const alice = await harness.join('Alice');
+      await harness.advance(10_000);
+
+      alice.send('coins_earned', { coins: 5000 });
+      await alice.flush();
+      expect(harness.player(alice).coins).toBe(1000);
+
+      alice.send('coins_earned', { coins: 100 });
+      alice.send('coins_earned', { coins: 'lots' });
+      await alice.flush();
+      expect(harness.player(alice).coins).toBe(1000);
+
+      alice.send('bank');
+      await harness.advance(2500);
+      alice.send('bank_complete');
+
+      const balance = await alice.take('ledger_balance', (data) => data.reason === 'bank');
+      // Two for the mega bank, two for reaching level 2
+      expect(balance.data.balance).toEqual({ coins: 1000, xp: 200, feathers: 4 });
+    });
+
+    it('should charge shop purchases at the catalogue price through the ledger', async () => {
+      const store = new InMemoryLedgerStore();
+      await harness.stop();
+      harness = await ServerHarness.start({ ledgerStore: store });
+      const seed = async (playerId: string, coins: number, xp: number) => {
+        const entry = { id: playerId, accountId: playerId, reason: 'admin' as const, coins, xp, feathers: 0, carried: 0, ref: null, createdAt: 0 };
+        await store.append(entry, { coins, xp, feathers: 0 });
+      };
+      await seed(testPlayerId(70), 600, 0);
+      await seed(testPlayerId(71), 1200, 3000);
+      const alice = await harness.join('Alice', { playerId: testPlayerId(70) });
+      const bob = await harness.join('Bob', { playerId: testPlayerId(71) });
+
+      const buy = async (client: FakeClient, itemId: string) => {
+        client.send('shop_purchase', { itemId, cost: 1 });
+        return (await client.take('shop_purchase_result', (data) => data.itemId === itemId)).data;
+      };
+      expect(await buy(alice, 'skin_unicorn')).toEqual({ itemId: 'skin_unicorn', ok: false, error: 'unknown_item' });
+      expect(await buy(alice, 'skin_flamingo')).toMatchObject({ ok: false, error: 'not_for_sale' });
+      expect(await buy(alice, 'skin_pigeon')).toMatchObject({ ok: false, error: 'level' });
+      expect(await buy(bob, 'skin_parrot')).toMatchObject({ ok: false, error: 'funds' });
+
+      expect(await buy(bob, 'skin_pigeon')).toEqual({ itemId: 'skin_pigeon', ok: true });
+      const balance = await bob.take('ledger_balance', (data) => data.reason === 'shop');
+      expect(balance.data.balance).toEqual({ coins: 700, xp: 3000, feathers: 0 });
+      expect(await buy(bob, 'skin_pigeon')).toMatchObject({ ok: false, error: 'owned' });
+      expect(store.entries.filter((entry) => entry.reason === 'shop')).toHaveLength(1);
+    });
+
+    it('should register a poop dropped onto another player as a PvP hit', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+      await harness.advance(TELEPORT_GAP_MS);
+
+      const target = harness.player(bob).position;
+      alice.move({ x: target.x, y: target.y + 6, z: target.z });
+      alice.send('poop', { velocity: { x: 0, y: -2, z: 0 } });
+      await harness.tick(20);
+
+      const hits = bob.events('pvp_hit');
+      expect(hits).toHaveLength(1);
+      expect(hits[0].data).toMatchObject({ attackerId: alice.playerId, victimId: bob.playerId });
+      expect(harness.player(bob).isStunned()).toBe(true);
+    });
+
+    it('should run a race from creation through checkpoints to results', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+
+      alice.send('race_create', { type: 'short' });
+      await harness.tick();
+      const created = alice.events('race_created');
+      expect(created).toHaveLength(1);
+      const { raceId, checkpoints } = created[0].data;
+
+      bob.send('race_join', { raceId });
+      alice.send('race_ready', { raceId });
+      await harness.tick();
+      expect(bob.events('race_countdown')).toHaveLength(1);
+
+      await harness.advance(3000);
+      expect(alice.events('race_started')).toHaveLength(1);
+      expect(bob.events('race_started')).toHaveLength(1);
+
+      for (const checkpoint of checkpoints) {
+        await harness.advance(TELEPORT_GAP_MS);
+        alice.move(checkpoint.position);
+        await harness.tick();
+      }
+      expect(alice.events('race_checkpoint').filter((e) => e.data.playerId === alice.playerId)).toHaveLength(checkpoints.length);
+      expect(harness.player(alice).coins).toBe(500);
+
+      // The race closes once the only other racer leaves
+      await bob.close();
+      await harness.tick();
+      const finished = alice.events('race_finished');
+      expect(finished).toHaveLength(1);
+      expect(finished[0].data.results).toMatchObject([{ playerId: alice.playerId, place: 1 }]);
+    });
+
+    it('should race a shared route and reject one that runs through a building', async () => {
+      const alice = await harness.join('Alice');
+      const skyRoute = {
+        name: 'Sky Lap',
+        checkpoints: [0, 1, 2].map((i) => ({ position: { x: i * 60, y: 180, z: 0 }, radius: 10 })),
+      };
+
+      const building = new CityFootprints(DEFAULT_WORLD_SEED).buildings[0];
+      const blocked = {
+        ...skyRoute,
+        checkpoints: [...skyRoute.checkpoints, { position: { x: building.x, y: building.height / 2, z: building.z }, radius: 10 }],
+      };
+      alice.send('race_create', { type: 'short', routeCode: encodeRaceRouteCode(blocked) });
+      expect(await alice.takeError()).toBe('Invalid race route: Checkpoint 4 is inside or too close to a building');
+
+      alice.send('race_create', { type: 'short', routeCode: 'not-a-route' });
+      expect(await alice.takeError()).toBe('Invalid race route code');
+
+      alice.send('race_create', { type: 'short', routeCode: encodeRaceRouteCode(skyRoute) });
+      await harness.tick();
+      const created = alice.events('race_created');
+      expect(created).toHaveLength(1);
+      expect(created[0].data).toMatchObject({
+        routeName: 'Sky Lap',
+        routeId: getRaceRouteId(skyRoute),
+        checkpoints: skyRoute.checkpoints,
+      });
+    });
+
+    it('should record a ghost of a shared route run and serve it from the leaderboard', async () => {
+      const alice = await harness.join('Alice');
+      const route = {
+        name: 'Sky Lap',
+        checkpoints: [0, 1, 2].map((i) => ({ position: { x: i * 60, y: 180, z: 0 }, radius: 10 })),
+      };
+      const routeId = getRaceRouteId(route);
+
+      alice.send('race_create', { type: 'short', routeCode: encodeRaceRouteCode(route) });
+      await harness.tick();
+      const { raceId } = alice.events('race_created')[0].data;
+      alice.send('race_ready', { raceId });
+      await harness.tick();
+      await harness.advance(3000);
+
+      for (const checkpoint of route.checkpoints) {
+        await harness.advance(TELEPORT_GAP_MS);
+        alice.move(checkpoint.position);
+        await harness.tick();
+      }
+
+      const recorded = await alice.take('race_run_recorded');
+      expect(recorded.data.rank).toBe(1);
+      expect(recorded.data.ghost).toMatchObject({ routeId, routeName: 'Sky Lap', playerName: 'Alice' });
+      expect(recorded.data.ghost.splits).toHaveLength(3);
+      expect(recorded.data.ghost.samples.length).toBeGreaterThan(0);
+
+      alice.send('race_leaderboard', { routeId });
+      const board = await alice.take('race_leaderboard');
+      expect(board.data.entries).toMatchObject([{ rank: 1, username: 'Alice', time: recorded.data.ghost.time }]);
+
+      alice.send('race_ghost', { routeId, rank: 1 });
+      expect((await alice.take('race_ghost')).data.ghost).toEqual(recorded.data.ghost);
+
+      alice.send('race_ghost', { routeId, rank: 2 });
+      expect(await alice.takeError()).toBe('No ghost at that rank');
+    });
+
+    it('should seat a pvp-join for a heist mode in a server heist match and stream its state', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+
+      alice.send('pvp-join', { modeId: 'heist' });
+      bob.send('pvp-join', { modeId: 'heist' });
+      await harness.flush();
+      const start = (await alice.take('heist-match-start')).data;
+      expect(start.format).toBe('1v1');
+      expect(start.participants.map((p: { id: string }) => p.id).sort()).toEqual([alice.playerId, bob.playerId].sort());
+      expect(alice.received('pvp-state-update').filter((m) => m.data.mode === 'heist')).toHaveLength(0);
+
+      // Players get the match snapshot that spectators see, countdown included
+      await harness.advance(500);
+      const state = (await bob.take('heist-state', (data) => data.matchId === start.matchId)).data;
+      expect(state).toMatchObject({ kind: 'heist', phase: 'countdown', teamScores: [0, 0] });
+
+      await harness.advance(start.countdown * 1000);
+      await alice.take('heist-round-start');
+      await bob.take('heist-state', (data) => data.phase === 'active');
+    });
+
+    it('should pair queued heist players and rate the result', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+
+      alice.send('heist-join');
+      bob.send('heist-join');
+      await harness.flush();
+      const start = await alice.take('heist-match-start');
+      expect(start.data.players.sort()).toEqual([alice.playerId, bob.playerId].sort());
+
+      // Leaving forfeits the heist to the opponent
+      await bob.close();
+      await harness.tick();
+      const end = (await alice.take('heist-match-end')).data;
+      expect(end.winnerId).toBe(alice.playerId);
+      expect(end.rewards[alice.playerId]).toEqual({ coins: 150, xp: 0, feathers: 5 });
+      const update = await alice.take('rating_update');
+      expect(update.data).toMatchObject({ mode: 'heist', games: 1, band: 'unranked' });
+      expect(update.data.delta).toBeGreaterThan(0);
+    });
+
+    it('should only pair heist players who share a shard', async () => {
+      await harness.stop();
+      harness = await ServerHarness.start({
+        shards: [{ id: 'test-1', name: 'North', capacity: 8 }, { id: 'test-2', name: 'South', capacity: 8 }],
+      });
+      const alice = await harness.join('Alice', { worldId: 'test-1' });
+      const bob = await harness.join('Bob', { worldId: 'test-2' });
+
+      alice.send('heist-join');
+      bob.send('heist-join');
+      await harness.advance(1000);
+      expect(alice.received('heist-match-start')).toHaveLength(0);
+
+      const carol = await harness.join('Carol', { worldId: 'test-1' });
+      carol.send('heist-join');
+      await harness.flush();
+      const start = (await alice.take('heist-match-start')).data;
+      expect(start.players.sort()).toEqual([alice.playerId, carol.playerId].sort());
+      expect(bob.received('heist-match-start')).toHaveLength(0);
+    });
+
+    it('should fill a timed-out 2v2 heist lobby with a bot and credit a pass as an assist', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+      const carol = await harness.join('Carol');
+      for (const player of [alice, bob, carol]) player.send('heist-join', { format: '2v2' });
+      await harness.advance(TELEPORT_GAP_MS);
+      bob.move({ x: 0, y: 40, z: 2 });
+      carol.move({ x: 0, y: 40, z: 30 });
+
+      // Nobody else turns up: the lobby times out and a bot takes the empty seat
+      await harness.advance(45_000);
+      const start = (await bob.take('heist-match-start')).data;
+      expect(start.format).toBe('2v2');
+      expect(start.bots).toHaveLength(1);
+      const team = start.teams.find((t: { playerIds: string[] }) => t.playerIds.includes(bob.playerId));
+      expect(team.playerIds.sort()).toEqual([bob.playerId, carol.playerId].sort());
+
+      bob.send('heist-grab', { position: { x: 0, y: 40, z: 2 } });
+      await harness.tick();
+      await bob.take('heist-trophy-grabbed');
+      bob.send('heist-pass', { targetId: carol.playerId });
+      await harness.tick();
+      expect((await carol.take('heist-pass')).data).toMatchObject({ fromId: bob.playerId, toId: carol.playerId });
+
+      await harness.advance(1000);
+      carol.move({ ...team.pedestalPosition, y: team.pedestalPosition.y + 5 });
+      await harness.tick();
+      carol.send('heist-score', { position: { ...team.pedestalPosition, y: team.pedestalPosition.y + 5 } });
+      await harness.tick();
+      const score = (await alice.take('heist-score')).data;
+      expect(score).toMatchObject({ playerId: carol.playerId, assistId: bob.playerId, team: team.index, score: 1 });
+    });
+
+    it('should let a spectator pick up a heist mid-round without joining the world', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+      alice.send('heist-join');
+      bob.send('heist-join');
+      await harness.flush();
+      const start = (await alice.take('heist-match-start')).data;
+      await harness.advance(TELEPORT_GAP_MS);
+      alice.move({ x: 0, y: 40, z: 2 });
+      alice.send('heist-grab', { position: { x: 0, y: 40, z: 2 } });
+      await harness.tick();
+      await alice.take('heist-trophy-grabbed');
+
+      // The lobby lists the match, and watching it takes no seat in the world
+      const listed = (await harness.lobby()).matches;
+      expect(listed).toContainEqual(expect.objectContaining({ kind: 'heist', matchId: start.matchId, participants: 2 }));
+      const carol = await harness.spectate('Carol', { kind: 'heist', matchId: start.matchId });
+      const welcome = (await carol.take('spectate_welcome')).data;
+      expect(welcome.match).toMatchObject({ kind: 'heist', matchId: start.matchId, phase: 'active', teamScores: [0, 0] });
+      expect(welcome.match.trophies[0].carrierId).toBe(alice.playerId);
+      expect(welcome.worldState.players).toHaveLength(2);
+      expect((await harness.lobby()).shards[0].population).toBe(2);
+
+      await harness.tick();
+      const state = await carol.take('state');
+      expect(state.data.players.map((p: { id: string }) => p.id).sort()).toEqual([alice.playerId, bob.playerId].sort());
+
+      // Match messages and the scoreboard reach the spectator
+      const pedestal = start.teams.find((t: { playerIds: string[] }) => t.playerIds.includes(alice.playerId)).pedestalPosition;
+      await harness.advance(TELEPORT_GAP_MS);
+      alice.move({ ...pedestal, y: pedestal.y + 5 });
+      await harness.tick();
+      alice.send('heist-score', { position: { ...pedestal, y: pedestal.y + 5 } });
+      await harness.tick(5);
+      expect((await carol.take('heist-score')).data.playerId).toBe(alice.playerId);
+      const scoreboard = await carol.take('spectate_state', (data) => data.teamScores.includes(1));
+      expect(scoreboard.data.participants.find((p: { id: string }) => p.id === alice.playerId).score).toBe(1);
+
+      // A player can't spectate from inside the world
+      alice.send('spectate', { kind: 'heist', matchId: start.matchId });
+      expect(await alice.takeError()).toBe('Leave the world before spectating');
+
+      // Once the match is over the spectator is released
+      await bob.close();
+      await harness.tick();
+      await carol.take('heist-match-end');
+      expect((await carol.take('spectate_ended')).data.matchId).toBe(start.matchId);
+    });
+
+    /** Queue the players for a PvP mode, wait out the queue, lobby and countdown; returns the mode-start data */
+    const startPvPRound = async (modeId: string, players: FakeClient[]) => {
+      for (const player of players) player.send('pvp-join', { modeId });
+      await harness.advance(15_000);
+      const start = await players[0].take('pvp-mode-start');
+      return start.data;
+    };
+
+    it('should only pass the poop tag within range and report the server\'s standings', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+      const start = await startPvPRound('poop-tag', [alice, bob]);
+      const [it, other] = start.modeData.taggedPlayerId === alice.playerId ? [alice, bob] : [bob, alice];
+
+      // Out of range: the claim is dropped
+      await harness.advance(TELEPORT_GAP_MS);
+      it.move({ x: 0, y: 60, z: 0 });
+      other.move({ x: 200, y: 60, z: 0 });
+      await harness.tick();
+      it.send('poop', { velocity: { x: 0, y: -2, z: 0 } });
+      it.send('pvp-tag-transfer', { to: other.playerId });
+      await harness.tick();
+      expect(other.received('pvp-tag-transfer')).toHaveLength(0);
+
+      await harness.advance(TELEPORT_GAP_MS);
+      it.move({ x: 190, y: 70, z: 0 });
+      await harness.tick();
+      it.send('poop', { velocity: { x: 0, y: -2, z: 0 } });
+      it.send('pvp-tag-transfer', { to: other.playerId });
+      await harness.flush();
+      expect((await other.take('pvp-tag-transfer')).data).toEqual({ from: it.playerId, to: other.playerId });
+
+      await harness.advance(120_000);
+      const end = await alice.take('pvp-mode-end');
+      const { standings } = end.data.results;
+      expect(standings.map((s: { playerId: string }) => s.playerId)).toEqual([it.playerId, other.playerId]);
+      expect(standings[1]).toMatchObject({ reward: 0 });
+      expect(standings[1].label).toMatch(/^Tagged at end!/);
+    });
+
+    it('should count race checkpoints only in order and from inside the ring', async () => {
+      const alice = await harness.join('Alice');
+      const bob = await harness.join('Bob');
+      const start = await startPvPRound('race', [alice, bob]);
+      const route = RACE_ROUTE_DATA[start.modeData.routeIndex];
+
+      await harness.advance(TELEPORT_GAP_MS);
+      alice.move(route.checkpoints[1].position);
+      await harness.tick();
+      alice.send('pvp-checkpoint', { checkpoint: 1 });
+      alice.send('pvp-checkpoint', { checkpoint: 0 });
+      await harness.tick();
+      expect(bob.received('pvp-checkpoint')).toHaveLength(0);
+
+      await harness.advance(TELEPORT_GAP_MS);
+      alice.move(route.checkpoints[0].position);
+      await harness.tick();
+      alice.send('pvp-checkpoint', { checkpoint: 0 });
+      await harness.flush();
+      expect((await bob.take('pvp-checkpoint')).data).toEqual({ playerId: alice.playerId, checkpoint: 0 });
+    });
+
+    it('should fill public PvP lobbies in rating order and start a lone player after the queue timeout', async () => {
+      await harness.stop();
+      const ratingStore = new InMemoryRatingStore();
+      const seeded = { rd: 50, volatility: 0.06, games: 20, updatedAt: Date.now() };
+      // The first to queue rates lowest, the last highest; the rest sit in between
+      for (let n = 1; n <= 17; n++) {
+        const rating = n === 1 ? 900 : n === 17 ? 2300 : 1500 + n;
+        await ratingStore.save(testPlayerId(n), 'poop-tag', { rating, ...seeded });
+      }
+      harness = await ServerHarness.start({ ratingStore, shards: [{ id: 'test-1', name: 'Test', capacity: 20 }] });
+      const players: FakeClient[] = [];
+      for (let n = 1; n <= 17; n++) players.push(await harness.join(`Bird${n}`, { playerId: testPlayerId(n) }));
+      const [lowest, ...rest] = players;
+      const highest = rest[rest.length - 1];
+
+      // Sixteen fill a lobby straight away; the highest rated waits for the next one
+      for (const player of players) player.send('pvp-join', { modeId: 'poop-tag' });
+      await harness.tick();
+      const lobby = (await lowest.take('pvp-state-update')).data;
+      expect(lobby.players).toHaveLength(16);
+      expect(lobby.players.map((p: { id: string }) => p.id)).not.toContain(highest.playerId);
+      expect(highest.received('pvp-state-update')).toHaveLength(0);
+
+      // Nobody else turns up, so after the queue timeout they play alone
+      await harness.advance(5000);
+      expect(highest.received('pvp-state-update')).toHaveLength(0);
+      await harness.advance(5000);
+      const solo = (await highest.take('pvp-state-update')).data;
+      expect(solo.players.map((p: { id: string }) => p.id)).toEqual([highest.playerId]);
+    });
+
+    /** Join as a member of a murmuration */
+    const joinFlock = (username: string, murmurationId: string) =>
+      harness.join(username, { murmurationId, murmurationTag: murmurationId.toUpperCase() });
+
+    /** Queue each player as a one-bird team for an MvM mode */
+    const queueMvM = (mode: string, players: FakeClient[]) => {
+      for (const player of players) {
+        player.send('mvm_queue_join', { murmurationName: 'Flock', formationLevel: 1, mode, teamSize: 1 });
+      }
+    };
+
+    it('should match two murmurations and play an MvM match to the end', async () => {
+      const alice = await joinFlock('Alice', 'reds');
+      const bob = await joinFlock('Bob', 'blues');
+
+      queueMvM('team_race', [alice, bob]);
+      await harness.flush();
+
+      const found = await alice.take('mvm_match_found');
+      expect(found.data.opponent.murmuration_id).toBe('blues');
+      expect((await bob.take('mvm_match_found')).data.opponent.murmuration_id).toBe('reds');
+
+      await harness.advance(5100);
+      await alice.take('mvm_round_update');
+
+      await harness.advance(90_000);
+      const end = await alice.take('mvm_match_end');
+      expect(end.data.winner).toBe('draw');
+      const reward = await bob.take('ledger_balance', (data) => data.reason === 'mvm_reward');
+      expect(reward.data.balance.coins).toBe(end.data.rewards.coins);
+    });
+
+    it('should build MvM teams only from online members of the queuer\'s murmuration', async () => {
+      const alice = await joinFlock('Alice', 'reds');
+      const bob = await joinFlock('Bob', 'blues');
+      const carol = await joinFlock('Carol', 'reds');
+      const loner = await harness.join('Loner');
+
+      loner.send('mvm_queue_join', { mode: 'team_race', teamSize: 1 });
+      expect(await loner.takeError()).toBe('Join a murmuration to queue for MvM');
+
+      const tryTeam = async (playerIds: unknown[]) => {
+        alice.send('mvm_queue_join', { mode: 'team_race', teamSize: 3, playerIds });
+        return alice.takeError();
+      };
+      expect(await tryTeam([alice.playerId, bob.playerId])).toBe('MvM teammates must be online members of your murmuration');
+      expect(await tryTeam([alice.playerId, carol.playerId, carol.playerId])).toBe('MvM teammates must be online members of your murmuration');
+      expect(await tryTeam([alice.playerId, testPlayerId(404)])).toBe('MvM teammates must be online members of your murmuration');
+      expect(await tryTeam([carol.playerId])).toBe('Invalid MvM team');
+
+      // A claimed murmuration ID is ignored: Bob still queues as blues, against Alice's reds
+      bob.send('mvm_queue_join', { murmurationId: 'reds', mode: 'team_race', teamSize: 2 });
+      alice.send('mvm_queue_join', { mode: 'team_race', teamSize: 2, playerIds: [alice.playerId, carol.playerId] });
+      const found = await bob.take('mvm_match_found');
+      expect(found.data.localTeam).toMatchObject({ murmuration_id: 'blues', player_ids: [bob.playerId] });
+      expect(found.data.opponent).toMatchObject({ murmuration_id: 'reds', player_ids: [alice.playerId, carol.playerId] });
+
+      // Nobody already playing can be queued onto another team
+      carol.send('mvm_queue_join', { mode: 'team_race', teamSize: 1 });
+      expect(await carol.takeError()).toBe('A teammate is already in an MvM match or queue');
+    });
+
+    it('should not count a murmuration claim the directory does not confirm', async () => {
+      await harness.stop();
+      const alice = testPlayerId(1);
+      harness = await ServerHarness.start({
+        membershipDirectory: { isMember: async (playerId, murmurationId) => playerId === alice && murmurationId === 'reds' },
+      });
+
+      const member = await harness.join('Alice', { playerId: alice, murmurationId: 'reds' });
+      const impostor = await harness.join('Mallory', { playerId: testPlayerId(66), murmurationId: 'reds' });
+
+      impostor.send('mvm_queue_join', { mode: 'team_race', teamSize: 1 });
+      expect(await impostor.takeError()).toBe('Join a murmuration to queue for MvM');
+      member.send('mvm_queue_join', { mode: 'team_race', teamSize: 2, playerIds: [alice, impostor.playerId] });
+      expect(await member.takeError()).toBe('MvM teammates must be online members of your murmuration');
+    });
+
+    it('should score team poop tag hits and name the hitter MVP', async () => {
+      const alice = await joinFlock('Alice', 'reds');
+      const bob = await joinFlock('Bob', 'blues');
+
+      queueMvM('team_poop_tag', [alice, bob]);
+      await harness.flush();
+      const found = await alice.take('mvm_match_found');
+      expect(found.data).toMatchObject({ teamSide: 'a', localTeam: { murmuration_id: 'reds' } });
+
+      await harness.advance(TELEPORT_GAP_MS);
+      const target = harness.player(bob).position;
+      alice.move({ x: target.x, y: target.y + 6, z: target.z });
+      alice.send('poop', { velocity: { x: 0, y: -2, z: 0 } });
+      await harness.tick(20);
+      await alice.take('mvm_round_update', (data) => data.scores.a === 1);
+
+      await harness.advance(180_000);
+      const end = await alice.take('mvm_match_end');
+      expect(end.data).toMatchObject({
+        winner: 'a',
+        stats: { a: 1, b: 0 },
+        mvp: { playerId: alice.playerId, team: 'a', points: 1 },
+        rewards: { is_mvp: true },
+        reportResult: true,
+      });
+      expect((await bob.take('mvm_match_end')).data.rewards.is_mvp).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from '../Metrics';
+
+describe('Metrics', () => {
+  it('should render counters and gauges in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const skips = registry.counter('test_skips_total', 'Skipped sends');
+    const players = registry.gauge('test_players', 'Players by shard');
+
+    skips.inc({ stream: 'state' });
+    skips.inc({ stream: 'state' }, 2);
+    skips.inc({ stream: 'pvp' });
+    players.set(3, { shard: 'say "hi"\\now' });
+
+    expect(registry.render()).toBe([
+      '# HELP test_skips_total Skipped sends',
+      '# TYPE test_skips_total counter',
+      'test_skips_total{stream="state"} 3',
+      'test_skips_total{stream="pvp"} 1',
+      '# HELP test_players Players by shard',
+      '# TYPE test_players gauge',
+      'test_players{shard="say \\"hi\\"\\\\now"} 3',
+      '',
+    ].join('\n'));
+
+    players.reset();
+    expect(registry.render()).not.toContain('test_players{');
+  });
+
+  it('should report quantiles over the recent window only', () => {
+    const registry = new MetricsRegistry();
+    const ticks = registry.summary('test_tick_seconds', 'Tick time', 10);
+    expect(Number.isNaN(ticks.quantile(0.5))).toBe(true);
+
+    for (let i = 1; i <= 10; i++) ticks.observe(i);
+    expect(ticks.quantile(0.5)).toBe(5);
+    expect(ticks.quantile(0.9)).toBe(9);
+    expect(ticks.quantile(0.99)).toBe(10);
+
+    // Ten slow ticks push the fast ones out of the window, but not out of the sum
+    for (let i = 0; i < 10; i++) ticks.observe(100);
+    expect(ticks.quantile(0.5)).toBe(100);
+    const text = registry.render();
+    expect(text).toContain('test_tick_seconds{quantile="0.5"} 100');
+    expect(text).toContain('test_tick_seconds_sum 1055');
+    expect(text).toContain('test_tick_seconds_count 20');
+  });
+
+  it('should refuse to register a name twice', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('test_total', 'First');
+    expect(() => registry.gauge('test_total', 'Second')).toThrow('Metric registered twice: test_total');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  JsonFileModerationStore,
+  ModerationBook,
+  getModerationSubjects,
+  parseModerationDuration,
+  parseSanctionArgs,
+} from '../Moderation';
+
+const HOUR = 3_600_000;
+
+describe('Moderation', () => {
+  const filePath = join(tmpdir(), `moderation-test-${process.pid}.jsonl`);
+
+  afterEach(() => {
+    if (existsSync(filePath)) unlinkSync(filePath);
+  });
+
+  it('should read a duration only where one was typed', () => {
+    expect(parseModerationDuration('30m')).toBe(30 * 60_000);
+    expect(parseModerationDuration('2w')).toBe(14 * 24 * HOUR);
+    expect(parseModerationDuration('perm')).toBeNull();
+    expect(parseModerationDuration('0h')).toBeUndefined();
+    expect(parseSanctionArgs(['spamming', 'links'], HOUR)).toEqual({ durationMs: HOUR, reason: 'spamming links' });
+    expect(parseSanctionArgs(['12h', 'griefing'], null)).toEqual({ durationMs: 12 * HOUR, reason: 'griefing' });
+  });
+
+  it('should let timed sanctions run out and replace a sanction on a second call', async () => {
+    const book = new ModerationBook();
+    await book.loaded;
+
+    book.impose('mute', 'acct-1', 'Bob', 'spam', 'Admin', HOUR, 0);
+    book.impose('mute', 'acct-1', 'Bob', 'more spam', 'Admin', 2 * HOUR, 10);
+    expect(book.listActive('mute', 20)).toHaveLength(1);
+    expect(book.getActive('mute', ['acct-1'], HOUR + 20)?.reason).toBe('more spam');
+    expect(book.getActive('mute', ['acct-1'], 2 * HOUR + 20)).toBeNull();
+
+    book.impose('ban', 'acct-1', 'Bob', '', 'Admin', null, 0);
+    expect(book.lift('ban', 'bob', 'Admin', 5)?.subjectId).toBe('acct-1');
+    expect(book.getActive('ban', ['acct-1'], 6)).toBeNull();
+  });
+
+  it('should ban guests by device and keep everything across a restart', async () => {
+    const book = new ModerationBook(new JsonFileModerationStore(filePath));
+    await book.loaded;
+    const [subject] = getModerationSubjects('guest_abc123', 'device-0001').slice(-1);
+    book.impose('ban', subject, 'Griefer', 'griefing', 'Admin', null, 0);
+    book.report({ reporterId: 'acct-2', reporterName: 'Alice', subjectId: subject, username: 'Griefer', reason: 'griefing', shardId: 'test-1', at: 1 });
+    book.audit({ at: 2, adminId: 'acct-9', adminName: 'Admin', command: 'ban', args: 'Griefer griefing', shardId: 'test-1' });
+
+    const restarted = new ModerationBook(new JsonFileModerationStore(filePath));
+    await restarted.loaded;
+    expect(restarted.getActive('ban', getModerationSubjects('guest_fresh99', 'device-0001'), 10)?.username).toBe('Griefer');
+    expect(restarted.getActive('ban', getModerationSubjects('guest_fresh99', 'device-0002'), 10)).toBeNull();
+
+    const history = restarted.getHistory([subject], 'griefer');
+    expect(history.sanctions).toHaveLength(1);
+    expect(history.reports.map((r) => r.reporterName)).toEqual(['Alice']);
+    expect(history.actions.map((a) => a.command)).toEqual(['ban']);
+  });
+});
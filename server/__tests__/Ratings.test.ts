@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { RatingBook, InMemoryRatingStore, rateGlicko2, murmurationSubject } from '../Ratings';
+import { Matchmaker } from '../Matchmaker';
+
+describe('Ratings', () => {
+  it('should match the worked example from the Glicko-2 paper', () => {
+    const player = { rating: 1500, rd: 200, volatility: 0.06, games: 0, updatedAt: 0 };
+    const rated = rateGlicko2(player, [
+      { opponent: { rating: 1400, rd: 30 }, score: 1 },
+      { opponent: { rating: 1550, rd: 100 }, score: 0 },
+      { opponent: { rating: 1700, rd: 300 }, score: 0 },
+    ], 1);
+
+    expect(rated.rating).toBeCloseTo(1464.06, 1);
+    expect(rated.rd).toBeCloseTo(151.52, 1);
+    expect(rated.volatility).toBeCloseTo(0.05999, 4);
+    expect(rated.games).toBe(1);
+  });
+
+  it('should rate each player and murmuration per account and persist the result', async () => {
+    const store = new InMemoryRatingStore();
+    const book = new RatingBook(store);
+    const updates: Array<{ id: string; delta: number }> = [];
+    book.onUpdate = (id, _mode, _rating, delta) => updates.push({ id, delta });
+
+    // Two tabs of the same account share one rating
+    const alice = '00000000-0000-4000-8000-000000000001_tab1';
+    await book.recordResult('heist', [{ ids: [alice], rank: 1 }, { ids: ['guest_bob'], rank: 2 }]);
+    expect(book.peek('00000000-0000-4000-8000-000000000001_tab2', 'heist').rating).toBeGreaterThan(1500);
+    expect(updates.map((u) => Math.sign(u.delta))).toEqual([1, -1]);
+
+    const reds = murmurationSubject('reds');
+    await book.recordResult('team_race', [{ ids: [reds], rank: 1 }, { ids: [murmurationSubject('blues')], rank: 1 }]);
+    const stored = await store.load(reds, 'team_race');
+    expect(stored?.rating).toBeCloseTo(1500, 5);
+    expect(stored?.games).toBe(1);
+  });
+});
+
+describe('Matchmaker', () => {
+  const entry = (id: string, rating: number, queuedAt = 0) => ({ id, rating: { rating, rd: 100 }, queuedAt });
+
+  it('should widen the search window the longer a candidate waits', () => {
+    const matchmaker = new Matchmaker();
+    const queued = [entry('a', 1500), entry('b', 1800)];
+
+    expect(matchmaker.findPair(queued, 0)).toBeNull();
+    expect(matchmaker.findPair(queued, 30_000)).not.toBeNull();
+  });
+
+  it('should prefer the closest rating and avoid a fresh rematch', () => {
+    const matchmaker = new Matchmaker();
+    const queued = [entry('a', 1500), entry('b', 1560), entry('c', 1520)];
+
+    const pair = matchmaker.findPair(queued, 0);
+    expect(pair?.map((c) => c.id)).toEqual(['a', 'c']);
+
+    matchmaker.recordMatch('a', 'c', 0);
+    expect(matchmaker.findPair(queued, 1000)?.map((c) => c.id)).toEqual(['b', 'c']);
+    expect(matchmaker.findPair([entry('a', 1500, 1000), entry('c', 1520, 1000)], 2000)).toBeNull();
+    expect(matchmaker.findPair([entry('a', 1500, 1000), entry('c', 1520, 1000)], 61_000)).not.toBeNull();
+  });
+});
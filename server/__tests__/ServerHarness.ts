@@ -0,0 +1,265 @@
+/**
+ * Server Harness
+ * Runs a GameServer in-process on an ephemeral port and connects scripted
+ * WebSocket clients to it. The server's own tick loop is never started:
+ * tests call tick()/advance(), which move the faked Date clock forward one
+ * tick interval and run exactly one server tick, so cooldowns, countdowns
+ * and phase changes land on predictable ticks.
+ */
+
+import { vi } from 'vitest';
+import WebSocket from 'ws';
+import { GameServer, GameServerOptions } from '../GameServer';
+import { InMemoryLedgerStore } from '../EconomyLedger';
+import { Player } from '../Player';
+import { GameEvent, ServerMessage, Vector3 } from '../../shared/types';
+
+/** Real-time wait for an expected message before a test fails */
+const TAKE_TIMEOUT_MS = 2000;
+/** Ticks run between socket flushes during long advances */
+const TICKS_PER_FLUSH = 20;
+
+/** Authenticated-style player IDs (a 36-char UUID), which admin and ban checks key on */
+export function testPlayerId(n: number): string {
+  return `00000000-0000-4000-8000-${n.toString().padStart(12, '0')}`;
+}
+
+export class FakeClient {
+  readonly username: string;
+  playerId: string;
+  /** Every message received and not yet taken, in arrival order */
+  readonly inbox: ServerMessage[] = [];
+  private waiters: Array<() => void> = [];
+  private socket: WebSocket;
+  private closedPromise: Promise<void>;
+
+  constructor(socket: WebSocket, playerId: string, username: string) {
+    this.socket = socket;
+    this.playerId = playerId;
+    this.username = username;
+    this.closedPromise = new Promise((resolve) => socket.once('close', () => resolve()));
+    socket.on('message', (data: Buffer, isBinary: boolean) => {
+      if (isBinary) return; // harness clients never negotiate binary state
+      this.inbox.push(JSON.parse(data.toString()));
+      for (const wake of this.waiters.splice(0)) wake();
+    });
+  }
+
+  get isOpen(): boolean {
+    return this.socket.readyState === WebSocket.OPEN;
+  }
+
+  send(type: string, data: unknown = {}): void {
+    this.socket.send(JSON.stringify({ type, data }));
+  }
+
+  /** Report a position; other PlayerInput fields get plausible defaults */
+  move(position: Vector3): void {
+    this.send('update', { position, yaw: 0, pitch: 0, speed: 30, timestamp: Date.now() });
+  }
+
+  chat(message: string, channel?: string): void {
+    this.send('chat', { message, channel });
+  }
+
+  /** Messages of `type` received so far (not removed from the inbox) */
+  received(type: ServerMessage['type']): ServerMessage[] {
+    return this.inbox.filter((msg) => msg.type === type);
+  }
+
+  /** Game events carried by the state snapshots received so far */
+  events(type: GameEvent['type']): GameEvent[] {
+    const events: GameEvent[] = [];
+    for (const msg of this.received('state')) {
+      for (const event of msg.data.events as GameEvent[]) {
+        if (event.type === type) events.push(event);
+      }
+    }
+    return events;
+  }
+
+  /** Remove and return the first message of `type` (matching `where`), waiting for it if needed */
+  async take(type: ServerMessage['type'], where: (data: any) => boolean = () => true): Promise<ServerMessage> {
+    // Date is faked, so time out on the real clock
+    const deadline = performance.now() + TAKE_TIMEOUT_MS;
+    for (;;) {
+      const index = this.inbox.findIndex((msg) => msg.type === type && where(msg.data));
+      if (index >= 0) return this.inbox.splice(index, 1)[0];
+      if (performance.now() >= deadline) {
+        const seen = Array.from(new Set(this.inbox.map((msg) => msg.type))).join(', ');
+        throw new Error(`${this.username} never received '${type}' (inbox: ${seen || 'empty'})`);
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, Math.max(1, deadline - performance.now()));
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  /** The error message the server sent, waiting for it if needed */
+  async takeError(): Promise<string> {
+    const msg = await this.take('error');
+    return msg.data.message;
+  }
+
+  /**
+   * Round-trip a ping. The server handles frames in order and its replies are
+   * ordered too, so once the pong arrives every earlier send has been
+   * processed and every earlier server message has been received.
+   */
+  flush(): Promise<void> {
+    if (!this.isOpen) return Promise.resolve();
+    return new Promise((resolve) => {
+      // The server may close us instead (bans, full worlds)
+      const done = (): void => {
+        this.socket.off('pong', done);
+        this.socket.off('close', done);
+        resolve();
+      };
+      this.socket.on('pong', done);
+      this.socket.on('close', done);
+      this.socket.ping();
+    });
+  }
+
+  clearInbox(): void {
+    this.inbox.length = 0;
+  }
+
+  waitForClose(): Promise<void> {
+    return this.closedPromise;
+  }
+
+  close(): Promise<void> {
+    this.socket.close();
+    return this.closedPromise;
+  }
+}
+
+export class ServerHarness {
+  readonly server: GameServer;
+  readonly url: string;
+  private clients: FakeClient[] = [];
+  private nextPlayer = 1;
+
+  private constructor(server: GameServer, port: number) {
+    this.server = server;
+    this.url = `ws://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Start a server with one small shard, no bots and an in-memory ledger
+   * (override any of them through `options`). Fakes Date until stop().
+   */
+  static async start(options: GameServerOptions = {}): Promise<ServerHarness> {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const server = new GameServer(0, {
+      shards: [{ id: 'test-1', name: 'Test', capacity: 8 }],
+      ledgerStore: new InMemoryLedgerStore(),
+      bots: { minBots: 0, targetPopulation: 0, maxBots: 0 },
+      ...options,
+    });
+    return new ServerHarness(server, await server.ready);
+  }
+
+  /** Open a socket and send `join`; the reply (welcome or error) is left in the inbox */
+  async connect(username: string, join: Record<string, unknown> = {}): Promise<FakeClient> {
+    const playerId = typeof join.playerId === 'string' ? join.playerId : testPlayerId(this.nextPlayer++);
+    const client = await this.open(playerId, username);
+    client.send('join', { playerId, username, ...join });
+    await client.flush();
+    return client;
+  }
+
+  /** Open a socket that watches a match instead of joining; the reply (spectate_welcome or error) is left in the inbox */
+  async spectate(username: string, target: { kind: string; matchId: string }): Promise<FakeClient> {
+    const client = await this.open('', username);
+    client.send('spectate', target);
+    await client.flush();
+    return client;
+  }
+
+  /** GET /lobby, the world and match listing served next to the WebSocket */
+  async lobby(): Promise<any> {
+    const response = await fetch(`${this.url.replace(/^ws:/, 'http:')}/lobby`);
+    return response.json();
+  }
+
+  /** GET a plain HTTP path on the server's port, e.g. /healthz or /metrics */
+  async get(path: string): Promise<{ status: number; body: string }> {
+    const response = await fetch(`${this.url.replace(/^ws:/, 'http:')}${path}`);
+    return { status: response.status, body: await response.text() };
+  }
+
+  /** A call to the /admin API; `token` goes in the Authorization header */
+  async adminApi(method: string, path: string, token: string | null, body?: unknown): Promise<{ status: number; data: any }> {
+    const headers: Record<string, string> = { 'X-Admin-Name': 'Tester' };
+    if (token) headers.Authorization = `Bearer ${token}`;
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    const response = await fetch(`${this.url.replace(/^ws:/, 'http:')}/admin/api/${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, data: await response.json() };
+  }
+
+  private async open(playerId: string, username: string): Promise<FakeClient> {
+    const socket = new WebSocket(this.url);
+    await new Promise<void>((resolve, reject) => {
+      socket.once('open', () => resolve());
+      socket.once('error', reject);
+    });
+    const client = new FakeClient(socket, playerId, username);
+    this.clients.push(client);
+    return client;
+  }
+
+  /** connect() and wait for the welcome; the client's playerId is the one the server assigned */
+  async join(username: string, join: Record<string, unknown> = {}): Promise<FakeClient> {
+    const client = await this.connect(username, join);
+    const welcome = await client.take('welcome');
+    client.playerId = welcome.data.playerId;
+    return client;
+  }
+
+  /** The server's state for a connected player (for seeding coins, checking stuns, ...) */
+  player(client: FakeClient): Player {
+    const player = this.server.getPlayer(client.playerId);
+    if (!player) throw new Error(`${client.username} is not in a world`);
+    return player;
+  }
+
+  /**
+   * Advance the clock by `count` ticks, running the server once per tick.
+   * Anything clients sent beforehand is handled before the first tick.
+   */
+  async tick(count = 1): Promise<void> {
+    await this.flush();
+    for (let i = 1; i <= count; i++) {
+      vi.setSystemTime(Date.now() + this.server.tickIntervalMs);
+      this.server.step();
+      if (i % TICKS_PER_FLUSH === 0) await this.flush();
+    }
+    await this.flush();
+  }
+
+  /** Advance by at least `ms` of game time, tick by tick */
+  advance(ms: number): Promise<void> {
+    return this.tick(Math.ceil(ms / this.server.tickIntervalMs));
+  }
+
+  /** Wait until every open client has received everything sent so far */
+  async flush(): Promise<void> {
+    await Promise.all(this.clients.map((client) => client.flush()));
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(this.clients.filter((client) => client.isOpen).map((client) => client.close()));
+    await this.server.stop();
+    vi.useRealTimers();
+  }
+}
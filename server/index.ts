@@ -4,10 +4,12 @@
 
 import dotenv from 'dotenv';
 import { GameServer } from './GameServer';
+import { createLogger } from './Logger';
 
 // Load environment variables
 dotenv.config();
 
+const log = createLogger('Server');
 const PORT = parseInt(process.env.PORT || process.env.WS_PORT || '3001', 10);
 
 // Create and start game server
@@ -16,13 +18,13 @@ server.start();
 
 // Graceful shutdown
 process.on('SIGINT', () => {
-  console.log('\nShutting down server...');
+  log.info('Shutting down', { signal: 'SIGINT' });
   server.stop();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
-  console.log('\nShutting down server...');
+  log.info('Shutting down', { signal: 'SIGTERM' });
   server.stop();
   process.exit(0);
 });
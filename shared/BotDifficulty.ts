@@ -0,0 +1,51 @@
+/**
+ * Bot Difficulty — skill tiers for every kind of bot.
+ * Shared by the server's world bots (BotBehavior, set per shard) and the
+ * client's offline practice bots (PvPBot, HeistBot), so "hard" means the
+ * same reflexes online and off. Archetypes decide what a bot likes doing;
+ * the tier decides how well it does it.
+ */
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard' | 'expert';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'normal', 'hard', 'expert'];
+
+export const BOT_DIFFICULTY_NAMES: Record<BotDifficulty, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard',
+  expert: 'Expert',
+};
+
+export const DEFAULT_BOT_DIFFICULTY: BotDifficulty = 'normal';
+
+export interface BotDifficultyProfile {
+  /** How much of a moving target's lead bots steer for: 0 chases where it is, 1 where it will be */
+  aimPrediction: number;
+  /** Scales aim error: drop spread online, miss chance offline. 1 is the untuned bot */
+  aimError: number;
+  /** Scales every reaction delay (state changes, retargeting) */
+  reactionScale: number;
+  /** Scales how often bots pick tricks and dodge with a flip when threatened; 0 never flips */
+  flipRate: number;
+  /** Chance per second of casting the horse lasso at a target in range; 0 never lassos */
+  lassoRate: number;
+}
+
+// Normal is the bot as it was before tiers existed
+export const BOT_DIFFICULTY_PROFILES: Record<BotDifficulty, BotDifficultyProfile> = {
+  easy:   { aimPrediction: 0,   aimError: 2,    reactionScale: 1.8,  flipRate: 0.3, lassoRate: 0 },
+  normal: { aimPrediction: 0,   aimError: 1,    reactionScale: 1,    flipRate: 1,   lassoRate: 0 },
+  hard:   { aimPrediction: 0.6, aimError: 0.6,  reactionScale: 0.6,  flipRate: 1.4, lassoRate: 0.25 },
+  expert: { aimPrediction: 1,   aimError: 0.25, reactionScale: 0.35, flipRate: 1.8, lassoRate: 0.6 },
+};
+
+export function isBotDifficulty(id: unknown): id is BotDifficulty {
+  return typeof id === 'string' && id in BOT_DIFFICULTY_NAMES;
+}
+
+/** A tier from config or a command; anything unrecognised is normal */
+export function parseBotDifficulty(value: string | undefined): BotDifficulty {
+  const id = (value || '').trim().toLowerCase();
+  return isBotDifficulty(id) ? id : DEFAULT_BOT_DIFFICULTY;
+}
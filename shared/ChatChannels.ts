@@ -0,0 +1,37 @@
+/**
+ * Chat Channels — where a `chat` line goes.
+ * Shared by the server (which routes each line to its channel's audience)
+ * and the client chat (which shows a tab per channel), so both agree on the
+ * channel IDs, names and the proximity radius.
+ *
+ *   global     everyone in the shard
+ *   proximity  birds within PROXIMITY_CHAT_RADIUS of the sender
+ *   whisper    one player, by `/w <name>`; `/r` answers the last whisper
+ *   session    everyone in the sender's PvP round or heist
+ *   party      an ad-hoc group made with `/party invite <name>`
+ */
+
+export type ChatChannelId = 'global' | 'proximity' | 'whisper' | 'session' | 'party';
+
+export const CHAT_CHANNELS: ChatChannelId[] = ['global', 'proximity', 'whisper', 'session', 'party'];
+
+export const CHAT_CHANNEL_NAMES: Record<ChatChannelId, string> = {
+  global: 'Global',
+  proximity: 'Nearby',
+  whisper: 'Whisper',
+  session: 'Match',
+  party: 'Party',
+};
+
+/** World units; roughly what is on screen around you */
+export const PROXIMITY_CHAT_RADIUS = 150;
+
+export const CHAT_PARTY_LIMITS = {
+  MAX_MEMBERS: 8,
+  /** An unanswered invite lapses after this long */
+  INVITE_TTL_MS: 60_000,
+};
+
+export function isChatChannelId(id: unknown): id is ChatChannelId {
+  return typeof id === 'string' && id in CHAT_CHANNEL_NAMES;
+}
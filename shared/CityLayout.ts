@@ -0,0 +1,335 @@
+/**
+ * City Layout — headless building footprints
+ * The single source of truth for where buildings stand. The client's City
+ * turns these footprints into meshes; the server loads the same footprints
+ * (no Three.js, no scene) so hotspots, race checkpoints and bots stay out of
+ * buildings. Same seed in, same city out.
+ */
+
+import type { Vector3 } from './types';
+import { createSeededRandom, deriveSeed } from './WorldSeed';
+
+/** Color palette key — the client maps these to actual colors */
+export type BuildingPalette =
+  | 'downtown' | 'financial' | 'parkFacility' | 'campus' | 'suburb'
+  | 'marketStall' | 'marketBackground' | 'mall' | 'stadium' | 'boardwalk'
+  | 'harbor' | 'industrial' | 'warehouse' | 'mausoleum' | 'terminal'
+  | 'hangar' | 'neon';
+
+/** Axis-aligned building box: centered on x/z, standing on the ground (y = 0..height) */
+export interface BuildingFootprint {
+  x: number;
+  z: number;
+  width: number;
+  height: number;
+  depth: number;
+  district: string;
+  palette: BuildingPalette;
+}
+
+/**
+ * Generate every building footprint for a world seed.
+ * District order and random draws must stay stable — changing them moves
+ * buildings for every client and server on that seed.
+ */
+export function generateBuildingFootprints(seed: number): BuildingFootprint[] {
+  const rng = createSeededRandom(deriveSeed(seed, 'city'));
+  const out: BuildingFootprint[] = [];
+  const add = (
+    x: number, z: number, width: number, height: number, depth: number,
+    district: string, palette: BuildingPalette,
+  ): void => {
+    out.push({ x, z, width, height, depth, district, palette });
+  };
+
+  // Downtown Core — dense grid of skyscrapers
+  for (let x = -220; x <= 120; x += 50) {
+    for (let z = 230; z <= 470; z += 55) {
+      if (rng() < 0.25) continue;
+      const h = 40 + rng() * 80;
+      const w = 15 + rng() * 12;
+      const d = 15 + rng() * 12;
+      add(x, z, w, h, d, 'Downtown Core', 'downtown');
+    }
+  }
+
+  // Financial District — glass towers
+  for (let x = -280; x <= -20; x += 60) {
+    for (let z = -80; z <= 180; z += 65) {
+      if (rng() < 0.3) continue;
+      const h = 50 + rng() * 90;
+      const w = 18 + rng() * 10;
+      const d = 18 + rng() * 10;
+      add(x, z, w, h, d, 'Financial District', 'financial');
+    }
+  }
+
+  // Park & Pond — cafes and pavilions ringing the pond
+  for (let i = 0; i < 12; i++) {
+    const angle = rng() * Math.PI * 2;
+    const dist = 110 + rng() * 25;
+    add(300 + Math.cos(angle) * dist, 350 + Math.sin(angle) * dist, 8, 4 + rng() * 4, 8, 'Park & Pond', 'parkFacility');
+  }
+
+  // University Campus — fixed academic buildings [x, z, height, width]
+  const campus: [number, number, number, number][] = [
+    [500, 250, 40, 25],  // Library
+    [580, 250, 35, 20],  // Science Hall
+    [650, 250, 30, 18],  // Arts Building
+    [500, 350, 32, 22],  // Student Center
+    [580, 350, 28, 16],  // Admin Building
+    [650, 350, 35, 24],  // Engineering
+    [500, 450, 30, 20],  // Dorms
+    [580, 450, 30, 20],  // Dorms
+    [650, 450, 25, 15],  // Gym
+  ];
+  for (const [x, z, h, w] of campus) {
+    add(x, z, w, h, w, 'University Campus', 'campus');
+  }
+
+  // Suburbs — small houses with yards
+  for (let x = -720; x <= -280; x += 40) {
+    for (let z = 220; z <= 480; z += 40) {
+      if (rng() < 0.4) continue;
+      const h = 5 + rng() * 4;
+      const w = 8 + rng() * 4;
+      const d = 8 + rng() * 4;
+      add(x, z, w, h, d, 'Suburbs West', 'suburb');
+    }
+  }
+
+  // Market Street — stalls in rows, taller buildings on both edges
+  for (let x = -720; x <= -340; x += 25) {
+    for (let z = -80; z <= 180; z += 35) {
+      if (rng() < 0.3) continue;
+      add(x, z, 6, 3 + rng() * 3, 6, 'Market Street', 'marketStall');
+    }
+  }
+  for (let z = -70; z <= 170; z += 40) {
+    add(-730, z, 12, 12 + rng() * 8, 12, 'Market Street', 'marketBackground');
+    add(-320, z, 12, 10 + rng() * 8, 12, 'Market Street', 'marketBackground');
+  }
+
+  // Shopping Plaza — two malls and a strip of stores
+  add(100, 50, 80, 15, 120, 'Shopping Plaza', 'mall');
+  add(220, 50, 70, 12, 100, 'Shopping Plaza', 'mall');
+  for (let x = 20; x <= 320; x += 50) {
+    for (let z = -80; z <= -20; z += 45) {
+      if (rng() < 0.2) continue;
+      add(x, z, 20, 8 + rng() * 5, 20, 'Shopping Plaza', 'mall');
+    }
+  }
+
+  // Stadium District — leave the middle open for the stadium itself
+  for (let x = 370; x <= 720; x += 70) {
+    for (let z = -80; z <= 180; z += 70) {
+      if (x > 450 && x < 650 && z > -20 && z < 120) continue;
+      add(x, z, 25, 15 + rng() * 12, 25, 'Stadium District', 'stadium');
+    }
+  }
+
+  // Boardwalk & Beach — paired shops along the boardwalk
+  for (let x = -700; x <= -50; x += 60) {
+    if (rng() < 0.3) continue;
+    add(x, 590, 12, 8 + rng() * 6, 15, 'Boardwalk & Beach', 'boardwalk');
+    add(x, 650, 10, 6 + rng() * 5, 12, 'Boardwalk & Beach', 'boardwalk');
+  }
+
+  // Harbor — warehouses along the docks
+  for (let x = 50; x <= 700; x += 120) {
+    for (let z = 520; z <= 680; z += 100) {
+      if (rng() < 0.2) continue;
+      add(x, z, 30, 15 + rng() * 10, 40, 'Harbor', 'harbor');
+    }
+  }
+
+  // Industrial Zone — large factories
+  for (let x = -720; x <= -240; x += 80) {
+    for (let z = -380; z <= -120; z += 80) {
+      if (rng() < 0.2) continue;
+      const h = 20 + rng() * 25;
+      const w = 35 + rng() * 15;
+      const d = 35 + rng() * 15;
+      add(x, z, w, h, d, 'Industrial Zone', 'industrial');
+    }
+  }
+
+  // Warehouse District
+  for (let x = -180; x <= 280; x += 75) {
+    for (let z = -380; z <= -120; z += 70) {
+      if (rng() < 0.2) continue;
+      const h = 12 + rng() * 12;
+      const w = 30 + rng() * 15;
+      const d = 30 + rng() * 15;
+      add(x, z, w, h, d, 'Warehouse District', 'warehouse');
+    }
+  }
+
+  // Cemetery — scattered mausoleums
+  for (let i = 0; i < 8; i++) {
+    const x = 350 + rng() * 350;
+    const z = -360 + rng() * 220;
+    add(x, z, 8, 6, 8, 'Cemetery', 'mausoleum');
+  }
+
+  // Airport — terminal and hangars
+  add(0, -550, 120, 18, 80, 'Airport', 'terminal');
+  for (let x = -600; x <= -300; x += 80) {
+    add(x, -650, 40, 15, 50, 'Airport', 'hangar');
+  }
+
+  // Entertainment — theaters and clubs
+  for (let x = 330; x <= 720; x += 70) {
+    for (let z = -680; z <= -420; z += 70) {
+      if (rng() < 0.25) continue;
+      const h = 15 + rng() * 20;
+      const w = 20 + rng() * 12;
+      const d = 20 + rng() * 12;
+      add(x, z, w, h, d, 'Entertainment', 'neon');
+    }
+  }
+
+  return out;
+}
+
+const CELL_SIZE = 50;
+
+/**
+ * Spatial lookup over a seed's footprints for server-side placement and movement checks.
+ */
+export class CityFootprints {
+  readonly seed: number;
+  readonly buildings: readonly BuildingFootprint[];
+  private cells = new Map<string, BuildingFootprint[]>();
+
+  constructor(seed: number) {
+    this.seed = seed;
+    this.buildings = generateBuildingFootprints(seed);
+
+    for (const b of this.buildings) {
+      const minCX = Math.floor((b.x - b.width / 2) / CELL_SIZE);
+      const maxCX = Math.floor((b.x + b.width / 2) / CELL_SIZE);
+      const minCZ = Math.floor((b.z - b.depth / 2) / CELL_SIZE);
+      const maxCZ = Math.floor((b.z + b.depth / 2) / CELL_SIZE);
+      for (let cx = minCX; cx <= maxCX; cx++) {
+        for (let cz = minCZ; cz <= maxCZ; cz++) {
+          const key = `${cx},${cz}`;
+          let list = this.cells.get(key);
+          if (!list) {
+            list = [];
+            this.cells.set(key, list);
+          }
+          list.push(b);
+        }
+      }
+    }
+  }
+
+  /** The building containing this point (expanded by margin on every side), if any. */
+  buildingAt(pos: Vector3, margin = 0): BuildingFootprint | null {
+    const minCX = Math.floor((pos.x - margin) / CELL_SIZE);
+    const maxCX = Math.floor((pos.x + margin) / CELL_SIZE);
+    const minCZ = Math.floor((pos.z - margin) / CELL_SIZE);
+    const maxCZ = Math.floor((pos.z + margin) / CELL_SIZE);
+
+    for (let cx = minCX; cx <= maxCX; cx++) {
+      for (let cz = minCZ; cz <= maxCZ; cz++) {
+        const list = this.cells.get(`${cx},${cz}`);
+        if (!list) continue;
+        for (const b of list) {
+          if (
+            Math.abs(pos.x - b.x) <= b.width / 2 + margin &&
+            Math.abs(pos.z - b.z) <= b.depth / 2 + margin &&
+            pos.y <= b.height + margin
+          ) {
+            return b;
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  isBlocked(pos: Vector3, margin = 0): boolean {
+    return this.buildingAt(pos, margin) !== null;
+  }
+
+  /**
+   * First building the segment from → to passes through, if any.
+   * `inset` shrinks every box (sides and roof) so legitimate wall-hugging and
+   * corner-cutting between network samples is not flagged.
+   */
+  segmentHit(from: Vector3, to: Vector3, inset = 0): BuildingFootprint | null {
+    const minCX = Math.floor(Math.min(from.x, to.x) / CELL_SIZE);
+    const maxCX = Math.floor(Math.max(from.x, to.x) / CELL_SIZE);
+    const minCZ = Math.floor(Math.min(from.z, to.z) / CELL_SIZE);
+    const maxCZ = Math.floor(Math.max(from.z, to.z) / CELL_SIZE);
+
+    let closest: BuildingFootprint | null = null;
+    let closestT = Infinity;
+    const seen = new Set<BuildingFootprint>();
+
+    for (let cx = minCX; cx <= maxCX; cx++) {
+      for (let cz = minCZ; cz <= maxCZ; cz++) {
+        const list = this.cells.get(`${cx},${cz}`);
+        if (!list) continue;
+        for (const b of list) {
+          if (seen.has(b)) continue;
+          seen.add(b);
+          const t = segmentBoxEntry(from, to, b, inset);
+          if (t !== null && t < closestT) {
+            closestT = t;
+            closest = b;
+          }
+        }
+      }
+    }
+    return closest;
+  }
+
+  /**
+   * Draw positions from `sample` until one is clear of buildings.
+   * If every attempt is blocked, the last sample is lifted above the roof.
+   */
+  sampleClear(sample: () => Vector3, margin = 0, attempts = 12): Vector3 {
+    let pos = sample();
+    for (let i = 1; i < attempts && this.isBlocked(pos, margin); i++) {
+      pos = sample();
+    }
+    let blocker = this.buildingAt(pos, margin);
+    while (blocker) {
+      pos = { ...pos, y: blocker.height + margin + 1 };
+      blocker = this.buildingAt(pos, margin);
+    }
+    return pos;
+  }
+}
+
+/** Slab test: parametric entry point (0..1) of a segment into an inset building box, or null. */
+function segmentBoxEntry(from: Vector3, to: Vector3, b: BuildingFootprint, inset: number): number | null {
+  const halfW = b.width / 2 - inset;
+  const halfD = b.depth / 2 - inset;
+  const top = b.height - inset;
+  if (halfW <= 0 || halfD <= 0 || top <= 0) return null;
+
+  const min = [b.x - halfW, -Infinity, b.z - halfD];
+  const max = [b.x + halfW, top, b.z + halfD];
+  const start = [from.x, from.y, from.z];
+  const delta = [to.x - from.x, to.y - from.y, to.z - from.z];
+
+  let tMin = 0;
+  let tMax = 1;
+  for (let axis = 0; axis < 3; axis++) {
+    if (Math.abs(delta[axis]) < 1e-9) {
+      if (start[axis] < min[axis] || start[axis] > max[axis]) return null;
+      continue;
+    }
+    let t1 = (min[axis] - start[axis]) / delta[axis];
+    let t2 = (max[axis] - start[axis]) / delta[axis];
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin > tMax) return null;
+  }
+  return tMin;
+}
@@ -0,0 +1,60 @@
+/**
+ * Cosmetic Catalog — every shop item with its price and unlock level.
+ * The client draws the shop from it; the game server charges purchases
+ * against it, so a price the browser sends is never trusted.
+ */
+
+export type CosmeticCurrency = 'coins' | 'feathers' | 'worms' | 'golden_eggs';
+export type CosmeticCategory = 'skin' | 'trail' | 'splat' | 'title';
+
+export interface CosmeticCatalogItem {
+  id: string;
+  name: string;
+  category: CosmeticCategory;
+  cost: number;
+  currency: CosmeticCurrency;
+  unlockLevel: number;
+}
+
+export const COSMETIC_CATALOG: readonly CosmeticCatalogItem[] = [
+  // === Skins ===
+  // Coins (common)
+  { id: 'skin_default', name: 'Seagull', category: 'skin', cost: 0, currency: 'coins', unlockLevel: 1 },
+  { id: 'skin_pigeon', name: 'Pigeon', category: 'skin', cost: 500, currency: 'coins', unlockLevel: 5 },
+  { id: 'skin_parrot', name: 'Parrot', category: 'skin', cost: 1500, currency: 'coins', unlockLevel: 10 },
+  { id: 'skin_crow', name: 'Crow', category: 'skin', cost: 3000, currency: 'coins', unlockLevel: 20 },
+  // Worms (uncommon)
+  { id: 'skin_flamingo', name: 'Flamingo', category: 'skin', cost: 150, currency: 'worms', unlockLevel: 12 },
+  // Feathers (rare)
+  { id: 'skin_golden', name: 'Golden Eagle', category: 'skin', cost: 50, currency: 'feathers', unlockLevel: 30 },
+  // Golden Eggs (legendary)
+  { id: 'skin_phoenix', name: 'Phoenix', category: 'skin', cost: 5, currency: 'golden_eggs', unlockLevel: 35 },
+
+  // === Trails ===
+  // Coins (common)
+  { id: 'trail_none', name: 'None', category: 'trail', cost: 0, currency: 'coins', unlockLevel: 1 },
+  { id: 'trail_sparkle', name: 'Sparkle', category: 'trail', cost: 800, currency: 'coins', unlockLevel: 8 },
+  { id: 'trail_smoke', name: 'Smoke', category: 'trail', cost: 1200, currency: 'coins', unlockLevel: 15 },
+  // Worms (uncommon)
+  { id: 'trail_fire', name: 'Fire', category: 'trail', cost: 100, currency: 'worms', unlockLevel: 10 },
+  // Feathers (rare)
+  { id: 'trail_rainbow', name: 'Rainbow', category: 'trail', cost: 30, currency: 'feathers', unlockLevel: 25 },
+  // Golden Eggs (legendary)
+  { id: 'trail_lightning', name: 'Lightning', category: 'trail', cost: 3, currency: 'golden_eggs', unlockLevel: 30 },
+
+  // === Splats ===
+  // Coins (common)
+  { id: 'splat_default', name: 'Standard', category: 'splat', cost: 0, currency: 'coins', unlockLevel: 1 },
+  { id: 'splat_star', name: 'Star Burst', category: 'splat', cost: 600, currency: 'coins', unlockLevel: 7 },
+  { id: 'splat_splatter', name: 'Big Splat', category: 'splat', cost: 1000, currency: 'coins', unlockLevel: 12 },
+  // Worms (uncommon)
+  { id: 'splat_paint', name: 'Paint Splash', category: 'splat', cost: 80, currency: 'worms', unlockLevel: 9 },
+  // Feathers (rare)
+  { id: 'splat_confetti', name: 'Confetti', category: 'splat', cost: 25, currency: 'feathers', unlockLevel: 18 },
+  // Golden Eggs (legendary)
+  { id: 'splat_explosion', name: 'Explosion', category: 'splat', cost: 2, currency: 'golden_eggs', unlockLevel: 25 },
+];
+
+export function getCosmeticItem(id: string): CosmeticCatalogItem | null {
+  return COSMETIC_CATALOG.find((item) => item.id === id) ?? null;
+}
@@ -0,0 +1,149 @@
+/**
+ * Ghost Track — a compact recording of one race run, for racing against later.
+ * Shared by the client RaceMode (which records local runs and plays ghosts
+ * back) and the server RaceManager (which records every racer from its own
+ * positions, so leaderboard ghosts are what the server actually saw).
+ *
+ * Samples are taken at a fixed interval and stored as flat integers:
+ * position in tenths of a unit and yaw in thousandths of a radian.
+ */
+
+import type { Vector3 } from './types';
+
+export const GHOST_TRACK_VERSION = 1;
+export const GHOST_SAMPLE_INTERVAL_MS = 100;
+/** Ten minutes at the default interval; longer runs stop recording */
+const MAX_SAMPLES = 6000;
+const VALUES_PER_SAMPLE = 4;
+const POSITION_SCALE = 10;
+const YAW_SCALE = 1000;
+
+export interface GhostTrack {
+  version: number;
+  routeId: string;
+  routeName: string;
+  playerName: string;
+  /** Finish time in seconds */
+  time: number;
+  /** Seconds from the start at which each checkpoint was passed */
+  splits: number[];
+  intervalMs: number;
+  /** x, y, z, yaw per sample, scaled to integers */
+  samples: number[];
+  recordedAt: number;
+}
+
+export interface GhostPose {
+  position: Vector3;
+  yaw: number;
+}
+
+export class GhostRecorder {
+  private samples: number[] = [];
+  private splits: number[] = [];
+  private nextSampleAt = 0;
+  private readonly intervalMs: number;
+
+  constructor(intervalMs = GHOST_SAMPLE_INTERVAL_MS) {
+    this.intervalMs = intervalMs;
+  }
+
+  /** Record the pose at `seconds` into the run; call as often as you like */
+  record(seconds: number, position: Vector3, yaw: number): void {
+    // Every interval boundary passed since the last call gets this pose
+    while (this.nextSampleAt <= seconds * 1000 && this.samples.length < MAX_SAMPLES * VALUES_PER_SAMPLE) {
+      this.samples.push(
+        Math.round(position.x * POSITION_SCALE),
+        Math.round(position.y * POSITION_SCALE),
+        Math.round(position.z * POSITION_SCALE),
+        Math.round(wrapAngle(yaw) * YAW_SCALE),
+      );
+      this.nextSampleAt += this.intervalMs;
+    }
+  }
+
+  split(seconds: number): void {
+    this.splits.push(round(seconds));
+  }
+
+  finish(run: { routeId: string; routeName: string; playerName: string; time: number }): GhostTrack {
+    return {
+      version: GHOST_TRACK_VERSION,
+      ...run,
+      time: round(run.time),
+      splits: [...this.splits],
+      intervalMs: this.intervalMs,
+      samples: [...this.samples],
+      recordedAt: Date.now(),
+    };
+  }
+}
+
+/** Where the ghost was `seconds` into its run; it waits at its last pose once finished */
+export function sampleGhost(track: GhostTrack, seconds: number): GhostPose | null {
+  const count = Math.floor(track.samples.length / VALUES_PER_SAMPLE);
+  if (count === 0) return null;
+
+  const at = Math.max(0, (seconds * 1000) / track.intervalMs);
+  const i = Math.min(Math.floor(at), count - 1);
+  const j = Math.min(i + 1, count - 1);
+  const t = Math.min(1, at - i);
+
+  const value = (sample: number, offset: number): number => track.samples[sample * VALUES_PER_SAMPLE + offset];
+  const lerp = (offset: number): number => (value(i, offset) + (value(j, offset) - value(i, offset)) * t) / POSITION_SCALE;
+
+  const yawA = value(i, 3) / YAW_SCALE;
+  const yawB = value(j, 3) / YAW_SCALE;
+  return {
+    position: { x: lerp(0), y: lerp(1), z: lerp(2) },
+    yaw: yawA + wrapAngle(yawB - yawA) * t,
+  };
+}
+
+/**
+ * Time gained (negative) or lost (positive) against the ghost at a checkpoint,
+ * or null if the ghost never reached it.
+ */
+export function getGhostSplitDelta(track: GhostTrack, checkpointIndex: number, seconds: number): number | null {
+  const ghostSplit = track.splits[checkpointIndex];
+  return ghostSplit === undefined ? null : round(seconds - ghostSplit);
+}
+
+export function serializeGhostTrack(track: GhostTrack): string {
+  return JSON.stringify(track);
+}
+
+/** Read a ghost file (already JSON-parsed); null if it is not a ghost this build can play */
+export function parseGhostTrack(value: unknown): GhostTrack | null {
+  const track = value as Partial<GhostTrack> | null;
+  if (!track || typeof track !== 'object') return null;
+  if (track.version !== GHOST_TRACK_VERSION) return null;
+  if (typeof track.routeId !== 'string' || typeof track.routeName !== 'string' || typeof track.playerName !== 'string') return null;
+  if (!Number.isFinite(track.time) || !Number.isFinite(track.intervalMs) || (track.intervalMs as number) <= 0) return null;
+  if (!isNumberArray(track.splits) || !isNumberArray(track.samples)) return null;
+  if (track.samples.length % VALUES_PER_SAMPLE !== 0 || track.samples.length > MAX_SAMPLES * VALUES_PER_SAMPLE) return null;
+
+  return {
+    version: GHOST_TRACK_VERSION,
+    routeId: track.routeId,
+    routeName: track.routeName,
+    playerName: track.playerName,
+    time: track.time as number,
+    splits: track.splits,
+    intervalMs: track.intervalMs as number,
+    samples: track.samples,
+    recordedAt: Number.isFinite(track.recordedAt) ? (track.recordedAt as number) : 0,
+  };
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(Number.isFinite);
+}
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
@@ -0,0 +1,111 @@
+/**
+ * Heist Formats — team sizes, trophy counts and arena layout for Heist.
+ * Shared by the client mode (which builds pedestals and spawns from it) and
+ * the server HeistManager (which validates scores against it), so both agree
+ * where each team's pedestal is and how many trophies are in play.
+ */
+
+import type { Vector3 } from './types';
+
+export type HeistFormatId = '1v1' | '2v2' | '3v3' | 'ffa';
+
+export interface HeistFormat {
+  id: HeistFormatId;
+  /** PvP mode id the format is played under */
+  modeId: string;
+  name: string;
+  /** Birds per team; a free-for-all plays every bird as its own team */
+  teamSize: number;
+  minPlayers: number;
+  maxPlayers: number;
+  /** Rating ladder the format counts towards */
+  ratingMode: string;
+}
+
+export const HEIST_FORMATS: Record<HeistFormatId, HeistFormat> = {
+  '1v1': { id: '1v1', modeId: 'heist', name: 'Heist', teamSize: 1, minPlayers: 2, maxPlayers: 2, ratingMode: 'heist' },
+  '2v2': { id: '2v2', modeId: 'heist-2v2', name: 'Heist 2v2', teamSize: 2, minPlayers: 4, maxPlayers: 4, ratingMode: 'heist-team' },
+  '3v3': { id: '3v3', modeId: 'heist-3v3', name: 'Heist 3v3', teamSize: 3, minPlayers: 6, maxPlayers: 6, ratingMode: 'heist-team' },
+  'ffa': { id: 'ffa', modeId: 'heist-ffa', name: 'Heist Free-for-All', teamSize: 1, minPlayers: 4, maxPlayers: 8, ratingMode: 'heist-ffa' },
+};
+
+export function isHeistFormatId(id: string): id is HeistFormatId {
+  return id in HEIST_FORMATS;
+}
+
+export function getHeistFormatByMode(modeId: string): HeistFormat | null {
+  return Object.values(HEIST_FORMATS).find(f => f.modeId === modeId) ?? null;
+}
+
+export function isHeistModeId(modeId: string): boolean {
+  return getHeistFormatByMode(modeId) !== null;
+}
+
+export function isFreeForAll(format: HeistFormat): boolean {
+  return format.id === 'ffa';
+}
+
+export function getHeistTeamCount(format: HeistFormat, playerCount: number): number {
+  return isFreeForAll(format) ? playerCount : 2;
+}
+
+/** One trophy for team games; a free-for-all gets one per three birds, at least two */
+export function getHeistTrophyCount(format: HeistFormat, playerCount: number): number {
+  return isFreeForAll(format) ? Math.max(2, Math.ceil(playerCount / 3)) : 1;
+}
+
+/**
+ * Deal players into teams in snake order (A B B A A B …). Pass players
+ * strongest first and the teams come out roughly even.
+ */
+export function assignHeistTeams(playerIds: string[], teamCount: number): string[][] {
+  const teams: string[][] = Array.from({ length: teamCount }, () => []);
+  playerIds.forEach((id, i) => {
+    const lap = Math.floor(i / teamCount);
+    const slot = i % teamCount;
+    teams[lap % 2 === 0 ? slot : teamCount - 1 - slot].push(id);
+  });
+  return teams;
+}
+
+/** Pedestals sit evenly on a circle; with two teams, team 0 is at -X and team 1 at +X */
+function teamAngle(teamIndex: number, teamCount: number): number {
+  return Math.PI + (teamIndex / teamCount) * Math.PI * 2;
+}
+
+export function getHeistPedestalPosition(teamIndex: number, teamCount: number, distance: number, height: number): Vector3 {
+  const angle = teamAngle(teamIndex, teamCount);
+  return { x: round(Math.cos(angle) * distance), y: height, z: round(Math.sin(angle) * distance) };
+}
+
+/** Teammates spawn side by side in front of their pedestal */
+export function getHeistSpawnPosition(
+  teamIndex: number,
+  teamCount: number,
+  slot: number,
+  teamSize: number,
+  distance: number,
+  height: number,
+): Vector3 {
+  const angle = teamAngle(teamIndex, teamCount);
+  const spacing = 15;
+  const offset = (slot - (teamSize - 1) / 2) * spacing;
+  return {
+    x: round(Math.cos(angle) * distance - Math.sin(angle) * offset),
+    y: height,
+    z: round(Math.sin(angle) * distance + Math.cos(angle) * offset),
+  };
+}
+
+/** A single trophy hovers at the center; several are spread on a small ring around it */
+export function getHeistTrophySpawn(index: number, trophyCount: number, hoverHeight: number): Vector3 {
+  if (trophyCount <= 1) return { x: 0, y: hoverHeight, z: 0 };
+  const spread = 40;
+  const angle = (index / trophyCount) * Math.PI * 2;
+  return { x: round(Math.cos(angle) * spread), y: hoverHeight, z: round(Math.sin(angle) * spread) };
+}
+
+/** Keeps layouts free of float noise like -200.00000000000003 */
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
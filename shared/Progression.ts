@@ -0,0 +1,22 @@
+/**
+ * Progression — the level curve for banked XP.
+ * Mirrors client Constants.ts PROGRESSION so the server's economy ledger,
+ * tournament seeding and shop unlocks level a player exactly as
+ * ProgressionSystem does.
+ */
+
+const BASE_XP_REQUIREMENT = 100;
+const LEVEL_EXPONENT = 1.15;
+const MAX_LEVEL = 50;
+
+/** Player level for a banked XP total, as ProgressionSystem levels up */
+export function levelForXp(xp: number): number {
+  let level = 1;
+  let needed = 0;
+  while (level < MAX_LEVEL) {
+    needed += Math.round(BASE_XP_REQUIREMENT * Math.pow(LEVEL_EXPONENT, level - 1));
+    if (xp < needed) break;
+    level++;
+  }
+  return level;
+}
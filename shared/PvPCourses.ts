@@ -0,0 +1,136 @@
+/**
+ * PvP Courses — race routes and statue sites for the PvP modes.
+ * Plain data shared by the client modes (which build rings and statues from
+ * it) and the server rules (which validate checkpoints and statue hits
+ * against it). The server sends indices into these lists, so the order of
+ * entries must stay stable.
+ */
+
+import type { Vector3 } from './types';
+
+export interface RaceCheckpointData {
+  position: Vector3;
+  radius: number;
+}
+
+export interface RaceRouteData {
+  name: string;
+  checkpoints: RaceCheckpointData[];
+}
+
+const cp = (x: number, y: number, z: number, radius: number): RaceCheckpointData => ({
+  position: { x, y, z },
+  radius,
+});
+
+/**
+ * 5 race routes winding through the city.
+ * City is 1500x1500 centered at origin, buildings up to ~100 tall.
+ * Routes go through interesting areas: between buildings, around landmarks, varied altitudes.
+ */
+export const RACE_ROUTE_DATA: RaceRouteData[] = [
+  {
+    name: 'Downtown Sprint',
+    checkpoints: [
+      cp(0, 40, 0, 6),
+      cp(60, 35, -40, 6),
+      cp(120, 50, -20, 6),
+      cp(150, 30, 40, 6),
+      cp(100, 60, 100, 6),
+      cp(40, 45, 120, 6),
+      cp(-30, 35, 80, 6),
+      cp(-80, 50, 30, 6),
+      cp(-100, 40, -40, 6),
+      cp(-60, 55, -100, 6),
+      cp(0, 45, -80, 6),
+      cp(0, 40, 0, 6),
+    ],
+  },
+  {
+    name: 'Skyline Loop',
+    checkpoints: [
+      cp(0, 80, 0, 7),
+      cp(80, 90, -60, 7),
+      cp(160, 70, 0, 7),
+      cp(200, 100, 80, 7),
+      cp(140, 60, 160, 7),
+      cp(60, 80, 200, 7),
+      cp(-40, 110, 160, 7),
+      cp(-120, 75, 80, 7),
+      cp(-160, 90, -20, 7),
+      cp(-100, 70, -100, 7),
+      cp(-20, 85, -60, 7),
+      cp(0, 80, 0, 7),
+    ],
+  },
+  {
+    name: 'Low Rider',
+    checkpoints: [
+      cp(0, 20, 0, 6),
+      cp(50, 15, -30, 6),
+      cp(100, 25, -60, 6),
+      cp(140, 18, -20, 6),
+      cp(120, 22, 60, 6),
+      cp(70, 15, 100, 6),
+      cp(20, 28, 80, 6),
+      cp(-40, 18, 50, 6),
+      cp(-80, 22, -10, 6),
+      cp(-50, 16, -60, 6),
+      cp(0, 20, -30, 6),
+      cp(0, 20, 0, 6),
+    ],
+  },
+  {
+    name: 'Rollercoaster',
+    checkpoints: [
+      cp(0, 50, 0, 6),
+      cp(70, 20, -50, 6),
+      cp(130, 90, -30, 6),
+      cp(160, 25, 30, 6),
+      cp(120, 100, 100, 6),
+      cp(50, 15, 130, 6),
+      cp(-20, 80, 90, 6),
+      cp(-80, 20, 40, 6),
+      cp(-120, 95, -30, 6),
+      cp(-70, 25, -80, 6),
+      cp(-10, 70, -50, 6),
+      cp(0, 50, 0, 6),
+    ],
+  },
+  {
+    name: 'Grand Tour',
+    checkpoints: [
+      cp(0, 50, 0, 7),
+      cp(100, 45, -80, 7),
+      cp(200, 60, -150, 7),
+      cp(280, 50, -50, 7),
+      cp(250, 70, 80, 7),
+      cp(150, 40, 180, 7),
+      cp(50, 60, 250, 7),
+      cp(-80, 45, 180, 7),
+      cp(-180, 65, 80, 7),
+      cp(-220, 50, -40, 7),
+      cp(-140, 55, -130, 7),
+      cp(-50, 50, -80, 7),
+      cp(0, 50, 0, 7),
+    ],
+  },
+];
+
+/** Statue heights by prefab (Obelisk, Hero Statue, Horse & Rider) */
+export const STATUE_PREFAB_HEIGHTS = [15, 9, 8];
+
+/** Spawn locations for statues (prominent intersections / open areas), at ground level */
+export const STATUE_SITES: Vector3[] = [
+  { x: 0, y: 0, z: 0 },        // City center
+  { x: 100, y: 0, z: 50 },     // East district
+  { x: -80, y: 0, z: -60 },    // West district
+  { x: 50, y: 0, z: -120 },    // South intersection
+  { x: -60, y: 0, z: 100 },    // North park area
+];
+
+/** Where statue hits are measured from: the site, raised to the statue's mid-height */
+export function getStatueCenter(prefabIndex: number, siteIndex: number): Vector3 {
+  const site = STATUE_SITES[siteIndex];
+  return { x: site.x, y: STATUE_PREFAB_HEIGHTS[prefabIndex] / 2, z: site.z };
+}
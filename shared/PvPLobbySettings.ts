@@ -0,0 +1,160 @@
+/**
+ * PvP Lobby Settings — invite codes and host-chosen rules for private lobbies.
+ * Shared by the server (which re-checks whatever a host sends before a round
+ * uses it) and the client lobby panel (which offers the same choices), so
+ * both clamp round lengths and player counts the same way.
+ */
+
+import { RACE_ROUTE_DATA } from './PvPCourses';
+import { getHeistFormatByMode } from './HeistFormats';
+
+export type PvPLobbyModeId = 'poop-tag' | 'race' | 'poop-cover' | 'heist' | 'heist-2v2' | 'heist-3v3' | 'heist-ffa';
+export type PvPLobbyPhase = 'lobby' | 'countdown' | 'active' | 'results';
+
+export const PVP_LOBBY_MODE_NAMES: Record<PvPLobbyModeId, string> = {
+  'poop-tag': 'Poop Tag',
+  'race': 'Race',
+  'poop-cover': 'Splat Attack',
+  'heist': 'Heist',
+  'heist-2v2': 'Heist 2v2',
+  'heist-3v3': 'Heist 3v3',
+  'heist-ffa': 'Heist Free-for-All',
+};
+
+/** Round lengths in seconds; public sessions always play these */
+export const PVP_ROUND_SECONDS: Record<PvPLobbyModeId, number> = {
+  'poop-tag': 120,
+  'race': 90,
+  'poop-cover': 75,
+  'heist': 180,
+  'heist-2v2': 180,
+  'heist-3v3': 180,
+  'heist-ffa': 180,
+};
+
+export const PVP_LOBBY_LIMITS = {
+  MIN_ROUND_SECONDS: 30,
+  MAX_ROUND_SECONDS: 600,
+  MIN_PLAYERS: 2,
+  MAX_PLAYERS: 16,
+  CODE_LENGTH: 5,
+};
+
+// No 0/O or 1/I/L, so a code read out loud or off a screenshot still works
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/** Which moves are allowed. Heist rules, enforced by HeistManager */
+export interface PvPAbilityRules {
+  /** Slam a carrier to knock their trophy loose */
+  slams: boolean;
+  /** Hand a carried trophy to a teammate */
+  passing: boolean;
+}
+
+export interface PvPLobbySettings {
+  modeId: PvPLobbyModeId;
+  roundSeconds: number;
+  maxPlayers: number;
+  /** Heist only: bots take the empty seats when the round starts */
+  botFill: boolean;
+  /** Race only: index into RACE_ROUTE_DATA, or null for a random route each round */
+  routeIndex: number | null;
+  /** Race only: a shared route code (see RaceRouteFormat); takes precedence over routeIndex */
+  routeCode: string | null;
+  abilities: PvPAbilityRules;
+}
+
+export interface PvPLobbyMember {
+  id: string;
+  username: string;
+  ready: boolean;
+}
+
+/** Sent to everyone in a private lobby whenever it changes */
+export interface PvPLobbyView {
+  code: string;
+  worldId: string;
+  hostId: string;
+  phase: PvPLobbyPhase;
+  settings: PvPLobbySettings;
+  members: PvPLobbyMember[];
+}
+
+export function isPvPLobbyModeId(id: string): id is PvPLobbyModeId {
+  return id in PVP_LOBBY_MODE_NAMES;
+}
+
+/** Player counts a mode can be set to; heist formats are bounded by their seats */
+export function getPvPLobbyPlayerRange(modeId: PvPLobbyModeId): { min: number; max: number } {
+  const format = getHeistFormatByMode(modeId);
+  if (format) return { min: format.minPlayers, max: format.maxPlayers };
+  return { min: PVP_LOBBY_LIMITS.MIN_PLAYERS, max: PVP_LOBBY_LIMITS.MAX_PLAYERS };
+}
+
+export function defaultPvPLobbySettings(modeId: PvPLobbyModeId = 'poop-tag'): PvPLobbySettings {
+  return {
+    modeId,
+    roundSeconds: PVP_ROUND_SECONDS[modeId],
+    maxPlayers: getPvPLobbyPlayerRange(modeId).max,
+    botFill: false,
+    routeIndex: null,
+    routeCode: null,
+    abilities: { slams: true, passing: true },
+  };
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
+/**
+ * Apply a (possibly partial, possibly hostile) settings update on top of
+ * `base`. Unknown modes and fields are ignored and numbers are clamped;
+ * switching mode starts from that mode's defaults. Whether a route code is
+ * raceable in the lobby's city is left to the server.
+ */
+export function applyPvPLobbySettings(base: PvPLobbySettings, update: unknown): PvPLobbySettings {
+  const raw = (update && typeof update === 'object' ? update : {}) as Record<string, any>;
+  const modeId = typeof raw.modeId === 'string' && isPvPLobbyModeId(raw.modeId) ? raw.modeId : base.modeId;
+  const from = modeId === base.modeId ? base : defaultPvPLobbySettings(modeId);
+  const players = getPvPLobbyPlayerRange(modeId);
+
+  let routeIndex = from.routeIndex;
+  if (raw.routeIndex === null) routeIndex = null;
+  else if (raw.routeIndex !== undefined) routeIndex = clampInt(raw.routeIndex, 0, RACE_ROUTE_DATA.length - 1, 0);
+
+  let routeCode = from.routeCode;
+  if (raw.routeCode === null || raw.routeCode === '') routeCode = null;
+  else if (typeof raw.routeCode === 'string') routeCode = raw.routeCode.trim().slice(0, 2048);
+
+  const abilities = raw.abilities && typeof raw.abilities === 'object' ? raw.abilities : {};
+  return {
+    modeId,
+    roundSeconds: clampInt(raw.roundSeconds ?? from.roundSeconds, PVP_LOBBY_LIMITS.MIN_ROUND_SECONDS, PVP_LOBBY_LIMITS.MAX_ROUND_SECONDS, from.roundSeconds),
+    maxPlayers: clampInt(raw.maxPlayers ?? from.maxPlayers, players.min, players.max, from.maxPlayers),
+    botFill: typeof raw.botFill === 'boolean' ? raw.botFill : from.botFill,
+    routeIndex: modeId === 'race' ? routeIndex : null,
+    routeCode: modeId === 'race' ? routeCode : null,
+    abilities: {
+      slams: typeof abilities.slams === 'boolean' ? abilities.slams : from.abilities.slams,
+      passing: typeof abilities.passing === 'boolean' ? abilities.passing : from.abilities.passing,
+    },
+  };
+}
+
+export function generatePvPLobbyCode(random: () => number = Math.random): string {
+  let code = '';
+  for (let i = 0; i < PVP_LOBBY_LIMITS.CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/** Upper-cased code with spaces and dashes dropped, or null if it cannot be one */
+export function normalizePvPLobbyCode(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const code = raw.toUpperCase().replace(/[\s-]/g, '');
+  if (code.length !== PVP_LOBBY_LIMITS.CODE_LENGTH) return null;
+  return [...code].every((c) => CODE_ALPHABET.includes(c)) ? code : null;
+}
@@ -0,0 +1,82 @@
+/**
+ * Race Leaderboard — fastest runs per race route, each with its ghost.
+ * Fed by RaceManager when a racer finishes a shared route; players can list
+ * a route's board and download any entry's ghost to race against.
+ * Kept in memory: boards reset with the server, and custom routes are
+ * unbounded, so only the most recently used routes keep a board.
+ */
+
+import { GhostTrack } from './GhostTrack';
+
+const DEFAULT_MAX_ENTRIES = 10;
+/** Routes with a board; the least recently used one is dropped past this */
+const DEFAULT_MAX_ROUTES = 500;
+
+export interface RaceLeaderboardEntry {
+  rank: number;
+  playerId: string;
+  username: string;
+  time: number;
+  recordedAt: number;
+}
+
+interface LeaderboardRun {
+  playerId: string;
+  ghost: GhostTrack;
+}
+
+export class RaceLeaderboard {
+  /** routeId → runs, fastest first, one per player; iteration order is least recently used first */
+  private boards = new Map<string, LeaderboardRun[]>();
+  private maxEntries: number;
+  private maxRoutes: number;
+
+  constructor(maxEntries = DEFAULT_MAX_ENTRIES, maxRoutes = DEFAULT_MAX_ROUTES) {
+    this.maxEntries = maxEntries;
+    this.maxRoutes = maxRoutes;
+  }
+
+  /** Add a finished run; returns its rank if it made the board */
+  submit(playerId: string, ghost: GhostTrack): number | null {
+    const board = this.touch(ghost.routeId) ?? [];
+    const previous = board.find(r => r.playerId === playerId);
+    if (previous && previous.ghost.time <= ghost.time) return null;
+
+    const runs = board.filter(r => r.playerId !== playerId);
+    runs.push({ playerId, ghost });
+    runs.sort((a, b) => a.ghost.time - b.ghost.time);
+    runs.length = Math.min(runs.length, this.maxEntries);
+    this.boards.set(ghost.routeId, runs);
+    for (const routeId of this.boards.keys()) {
+      if (this.boards.size <= this.maxRoutes) break;
+      this.boards.delete(routeId);
+    }
+
+    const index = runs.findIndex(r => r.ghost === ghost);
+    return index >= 0 ? index + 1 : null;
+  }
+
+  getEntries(routeId: string): RaceLeaderboardEntry[] {
+    return (this.touch(routeId) ?? []).map((run, i) => ({
+      rank: i + 1,
+      playerId: run.playerId,
+      username: run.ghost.playerName,
+      time: run.ghost.time,
+      recordedAt: run.ghost.recordedAt,
+    }));
+  }
+
+  getGhost(routeId: string, rank: number): GhostTrack | null {
+    return this.touch(routeId)?.[rank - 1]?.ghost ?? null;
+  }
+
+  /** A route's board, moved to the most recently used end */
+  private touch(routeId: string): LeaderboardRun[] | undefined {
+    const board = this.boards.get(routeId);
+    if (board) {
+      this.boards.delete(routeId);
+      this.boards.set(routeId, board);
+    }
+    return board;
+  }
+}
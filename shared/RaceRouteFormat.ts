@@ -0,0 +1,176 @@
+/**
+ * Race Route Format — user-made race routes as versioned JSON and share codes.
+ * Shared by the client route editor (which saves, exports and validates
+ * routes while you build them) and the server (which re-validates any route
+ * a player asks to race, since a share code can say anything).
+ */
+
+import type { RaceCheckpointData, RaceRouteData } from './PvPCourses';
+import type { CityFootprints } from './CityLayout';
+
+export const RACE_ROUTE_VERSION = 1;
+
+export const RACE_ROUTE_LIMITS = {
+  MIN_CHECKPOINTS: 3,
+  MAX_CHECKPOINTS: 24,
+  MIN_RADIUS: 4,
+  MAX_RADIUS: 20,
+  MIN_ALTITUDE: 5,
+  MAX_ALTITUDE: 200,        // Bird flight ceiling
+  WORLD_EXTENT: 750,        // City is 1500x1500 centered at origin
+  MAX_NAME_LENGTH: 32,
+};
+
+/** On-disk shape of a route: flat checkpoints, rounded to whole units */
+export interface RaceRouteFile {
+  version: number;
+  name: string;
+  checkpoints: { x: number; y: number; z: number; radius: number }[];
+}
+
+export interface RaceRouteProblem {
+  /** Checkpoint the problem is at, or -1 for the route as a whole */
+  checkpoint: number;
+  reason: string;
+}
+
+const SHARE_CODE_PREFIX = 'R1-';
+
+export function toRaceRouteFile(route: RaceRouteData): RaceRouteFile {
+  return {
+    version: RACE_ROUTE_VERSION,
+    name: route.name,
+    checkpoints: route.checkpoints.map(({ position, radius }) => ({
+      x: Math.round(position.x),
+      y: Math.round(position.y),
+      z: Math.round(position.z),
+      radius: Math.round(radius),
+    })),
+  };
+}
+
+export function serializeRaceRoute(route: RaceRouteData): string {
+  return JSON.stringify(toRaceRouteFile(route), null, 2);
+}
+
+/**
+ * Read a route file (already JSON-parsed). Returns null for anything that is
+ * not a well-formed route of a version this build understands; whether the
+ * route is actually raceable is validateRaceRoute's job.
+ */
+export function parseRaceRoute(value: unknown): RaceRouteData | null {
+  const file = value as Partial<RaceRouteFile> | null;
+  if (!file || typeof file !== 'object') return null;
+  if (file.version !== RACE_ROUTE_VERSION) return null;
+  if (typeof file.name !== 'string' || !Array.isArray(file.checkpoints)) return null;
+  if (file.checkpoints.length > RACE_ROUTE_LIMITS.MAX_CHECKPOINTS) return null;
+
+  const checkpoints: RaceCheckpointData[] = [];
+  for (const cp of file.checkpoints) {
+    const x = Number(cp?.x);
+    const y = Number(cp?.y);
+    const z = Number(cp?.z);
+    const radius = Number(cp?.radius);
+    if (![x, y, z, radius].every(Number.isFinite)) return null;
+    checkpoints.push({ position: { x, y, z }, radius });
+  }
+
+  return { name: file.name.trim().slice(0, RACE_ROUTE_LIMITS.MAX_NAME_LENGTH), checkpoints };
+}
+
+/**
+ * Everything that keeps a route from being raced: too few or too many
+ * checkpoints, rings out of bounds, too small or too big, overlapping the
+ * previous ring, or not clearing a building by their full radius.
+ */
+export function validateRaceRoute(route: RaceRouteData, city: CityFootprints | null): RaceRouteProblem[] {
+  const L = RACE_ROUTE_LIMITS;
+  const problems: RaceRouteProblem[] = [];
+  const count = route.checkpoints.length;
+
+  if (!route.name.trim()) {
+    problems.push({ checkpoint: -1, reason: 'Route needs a name' });
+  }
+  if (count < L.MIN_CHECKPOINTS || count > L.MAX_CHECKPOINTS) {
+    problems.push({ checkpoint: -1, reason: `Routes need ${L.MIN_CHECKPOINTS}-${L.MAX_CHECKPOINTS} checkpoints` });
+  }
+
+  route.checkpoints.forEach(({ position, radius }, i) => {
+    const label = `Checkpoint ${i + 1}`;
+    if (radius < L.MIN_RADIUS || radius > L.MAX_RADIUS) {
+      problems.push({ checkpoint: i, reason: `${label} radius must be ${L.MIN_RADIUS}-${L.MAX_RADIUS}` });
+    }
+    if (position.y < L.MIN_ALTITUDE || position.y > L.MAX_ALTITUDE) {
+      problems.push({ checkpoint: i, reason: `${label} altitude must be ${L.MIN_ALTITUDE}-${L.MAX_ALTITUDE}` });
+    }
+    if (Math.abs(position.x) > L.WORLD_EXTENT || Math.abs(position.z) > L.WORLD_EXTENT) {
+      problems.push({ checkpoint: i, reason: `${label} is outside the city` });
+    }
+    if (city?.isBlocked(position, radius)) {
+      problems.push({ checkpoint: i, reason: `${label} is inside or too close to a building` });
+    }
+    if (i > 0) {
+      const prev = route.checkpoints[i - 1];
+      const dx = position.x - prev.position.x;
+      const dy = position.y - prev.position.y;
+      const dz = position.z - prev.position.z;
+      // Overlapping rings would let one fly-through count twice
+      if (Math.sqrt(dx * dx + dy * dy + dz * dz) < radius + prev.radius) {
+        problems.push({ checkpoint: i, reason: `${label} overlaps checkpoint ${i}` });
+      }
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Stable id for a route's course, used to key best times. Only the rings
+ * count: renaming a route keeps its times, moving a ring starts fresh.
+ */
+export function getRaceRouteId(route: RaceRouteData): string {
+  const course = toRaceRouteFile(route).checkpoints
+    .map(({ x, y, z, radius }) => `${x},${y},${z},${radius}`)
+    .join(';');
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < course.length; i++) {
+    hash ^= course.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `route-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+/** Compact, copy-pasteable code for a route: flat numbers, base64url encoded */
+export function encodeRaceRouteCode(route: RaceRouteData): string {
+  const file = toRaceRouteFile(route);
+  const flat = file.checkpoints.flatMap(({ x, y, z, radius }) => [x, y, z, radius]);
+  return SHARE_CODE_PREFIX + toBase64Url(JSON.stringify([file.name, flat]));
+}
+
+export function decodeRaceRouteCode(code: string): RaceRouteData | null {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith(SHARE_CODE_PREFIX)) return null;
+  try {
+    const [name, flat] = JSON.parse(fromBase64Url(trimmed.slice(SHARE_CODE_PREFIX.length)));
+    if (!Array.isArray(flat) || flat.length % 4 !== 0) return null;
+    const checkpoints: RaceRouteFile['checkpoints'] = [];
+    for (let i = 0; i < flat.length; i += 4) {
+      checkpoints.push({ x: flat[i], y: flat[i + 1], z: flat[i + 2], radius: flat[i + 3] });
+    }
+    return parseRaceRoute({ version: RACE_ROUTE_VERSION, name, checkpoints });
+  } catch {
+    return null;
+  }
+}
+
+function toBase64Url(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): string {
+  const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
@@ -0,0 +1,68 @@
+/**
+ * Rating Bands — defaults and rank tiers for skill ratings.
+ * Shared by the server (which rates matches and reports ratings) and the
+ * client (profile page and results panel), so both name a rating the same way.
+ */
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_RD = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+/** Above this deviation a rating is still provisional and shown as unranked */
+export const PROVISIONAL_RD = 150;
+
+/** Modes with their own rating, and how to label them */
+export const RATED_MODES: Record<string, string> = {
+  'poop-tag': 'Poop Tag',
+  'race': 'Race',
+  'poop-cover': 'Poop Cover',
+  'heist': 'Heist',
+  'heist-team': 'Team Heist',
+  'heist-ffa': 'Heist Free-for-All',
+  'team_poop_tag': 'Team Poop Tag',
+  'team_race': 'Team Race',
+  'team_splat_attack': 'Splat Attack',
+  'territory_war': 'Territory War',
+};
+
+export interface RankBand {
+  id: string;
+  name: string;
+  minRating: number;
+  color: string;
+}
+
+export const UNRANKED_BAND: RankBand = { id: 'unranked', name: 'Unranked', minRating: 0, color: '#888888' };
+
+/** Ascending by minRating */
+export const RANK_BANDS: RankBand[] = [
+  { id: 'bronze', name: 'Bronze', minRating: 0, color: '#cd7f32' },
+  { id: 'silver', name: 'Silver', minRating: 1350, color: '#c0c0c0' },
+  { id: 'gold', name: 'Gold', minRating: 1500, color: '#ffd700' },
+  { id: 'platinum', name: 'Platinum', minRating: 1650, color: '#44ddcc' },
+  { id: 'diamond', name: 'Diamond', minRating: 1800, color: '#66aaff' },
+  { id: 'champion', name: 'Champion', minRating: 2000, color: '#ff66cc' },
+];
+
+export function getRankBand(rating: number, rd: number = 0): RankBand {
+  if (rd > PROVISIONAL_RD) return UNRANKED_BAND;
+  let band = RANK_BANDS[0];
+  for (const candidate of RANK_BANDS) {
+    if (rating >= candidate.minRating) band = candidate;
+  }
+  return band;
+}
+
+/** A player's rating in one mode, as sent to clients */
+export interface RatingSummary {
+  mode: string;
+  rating: number;
+  rd: number;
+  games: number;
+  /** RankBand id */
+  band: string;
+}
+
+/** Sent after a rated match: the new rating and how much it moved */
+export interface RatingUpdateData extends RatingSummary {
+  delta: number;
+}
@@ -0,0 +1,103 @@
+/**
+ * Replay Format
+ * On-disk layout of recorded sessions, shared by the server's ReplayRecorder
+ * and the client's replay viewer.
+ *
+ *   "BGR1" magic, then records:  u8 kind | u32 length | payload
+ *     HEADER   JSON ReplayHeader, always first
+ *     FRAME    StateCodec frame of the whole shard; a keyframe every
+ *              REPLAY_KEYFRAME_INTERVAL ticks so viewers can seek
+ *     CHAT     JSON { tick, chat }
+ *     MESSAGE  JSON { tick, message } — server messages that travel outside
+ *              world state (PvP round lifecycle, heist scoring)
+ *
+ * A server that dies mid-write leaves a truncated last record; readers stop
+ * at the last complete one.
+ *
+ * No Node or DOM dependencies — imported by both the server and the browser.
+ */
+
+import { ChatMessage, ServerMessage } from './types';
+
+export const REPLAY_MAGIC = 'BGR1';
+export const REPLAY_VERSION = 1;
+/** File extension used by the recorder and accepted by the viewer */
+export const REPLAY_FILE_EXTENSION = '.bgr';
+/** Ticks between keyframes (5 s at 20 ticks/sec) — bounds the decode work of a seek */
+export const REPLAY_KEYFRAME_INTERVAL = 100;
+
+export const REPLAY_RECORD_HEADER = 0;
+export const REPLAY_RECORD_FRAME = 1;
+export const REPLAY_RECORD_CHAT = 2;
+export const REPLAY_RECORD_MESSAGE = 3;
+
+export interface ReplayHeader {
+  version: number;
+  shardId: string;
+  worldSeed: number;
+  tickRate: number;
+  startedAt: number;
+  stateCodec: string;
+}
+
+export interface ReplayChatEntry {
+  tick: number;
+  chat: ChatMessage;
+}
+
+export interface ReplayMessageEntry {
+  tick: number;
+  message: ServerMessage;
+}
+
+export interface ReplayRecord {
+  kind: number;
+  payload: Uint8Array;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const RECORD_HEADER_BYTES = 5;
+
+export function encodeReplayMagic(): Uint8Array {
+  return textEncoder.encode(REPLAY_MAGIC);
+}
+
+export function encodeReplayRecord(kind: number, payload: Uint8Array): Uint8Array {
+  const record = new Uint8Array(RECORD_HEADER_BYTES + payload.length);
+  const view = new DataView(record.buffer);
+  view.setUint8(0, kind);
+  view.setUint32(1, payload.length);
+  record.set(payload, RECORD_HEADER_BYTES);
+  return record;
+}
+
+export function encodeReplayJson(kind: number, value: unknown): Uint8Array {
+  return encodeReplayRecord(kind, textEncoder.encode(JSON.stringify(value)));
+}
+
+export function decodeReplayJson<T>(payload: Uint8Array): T {
+  return JSON.parse(textDecoder.decode(payload)) as T;
+}
+
+/** Split a replay file into records. Throws if the file is not a replay. */
+export function readReplayRecords(bytes: Uint8Array): ReplayRecord[] {
+  const magic = textDecoder.decode(bytes.subarray(0, REPLAY_MAGIC.length));
+  if (magic !== REPLAY_MAGIC) {
+    throw new Error('Not a Bird Game replay file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const records: ReplayRecord[] = [];
+  let offset = REPLAY_MAGIC.length;
+  while (offset + RECORD_HEADER_BYTES <= bytes.length) {
+    const kind = view.getUint8(offset);
+    const length = view.getUint32(offset + 1);
+    const start = offset + RECORD_HEADER_BYTES;
+    if (start + length > bytes.length) break; // truncated tail
+    records.push({ kind, payload: bytes.subarray(start, start + length) });
+    offset = start + length;
+  }
+  return records;
+}
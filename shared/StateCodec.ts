@@ -0,0 +1,550 @@
+/**
+ * State Codec
+ * Binary, delta-compressed encoding of the per-tick FilteredWorldState.
+ *
+ * Each client gets its own StateEncoder. Players are given a stable uint16
+ * slot, fields are quantized, and every frame is a delta against the last
+ * tick the client acknowledged. Players that did not change are omitted.
+ * When no acknowledged baseline is available the encoder sends a keyframe.
+ *
+ * Frame layout (big-endian):
+ *   u8 version | u8 kind | u32 tick | f64 timestamp | u32 baselineTick | u8 flags
+ *   u16 entryCount, entries...
+ *     u16 slot | u8 entryKind
+ *     FULL:  u8+utf8 id | u8+utf8 username | i16 x,y,z | u16 yaw | i16 pitch | u8 heat | u8 status
+ *     DELTA: u8 fieldMask | [i16 x,y,z] [u16 yaw] [i16 pitch] [u8 heat] [u8 status]
+ *   u16 removedCount, u16 slots...
+ *   [u32+utf8 hotspots JSON]  when FLAG_HOTSPOTS
+ *   [u32+utf8 events JSON]    when FLAG_EVENTS
+ *   [u16 midCount, mid entries...] when FLAG_MID
+ *     u8+utf8 id | u8+utf8 username | i16 x,y,z | u16 yaw | u8 wanted
+ *   [u32 seq | f32 x,y,z | f32 yaw | f32 pitch | u8 locked] when FLAG_ACK
+ *
+ * Mid-tier players arrive only every few ticks, so they are sent whole rather
+ * than as deltas. The input ack is full precision: the client compares it
+ * against its own predicted positions.
+ *
+ * No Node or DOM dependencies — imported by both the server and the browser.
+ */
+
+import { FilteredWorldState, HotspotState, InputAck, MidPlayerState, PlayerState } from './types';
+
+/** Codec names exchanged during join/welcome */
+export const STATE_CODEC_BINARY = 'bin-delta-v1';
+export const STATE_CODEC_JSON = 'json';
+export type StateCodecName = typeof STATE_CODEC_BINARY | typeof STATE_CODEC_JSON;
+
+const CODEC_VERSION = 1;
+
+const FRAME_KEY = 0;
+const FRAME_DELTA = 1;
+
+const ENTRY_FULL = 0;
+const ENTRY_DELTA = 1;
+
+const FIELD_POSITION = 1;
+const FIELD_YAW = 2;
+const FIELD_PITCH = 4;
+const FIELD_HEAT = 8;
+const FIELD_STATUS = 16;
+
+const FLAG_HOTSPOTS = 1;
+const FLAG_EVENTS = 2;
+const FLAG_MID = 4;
+const FLAG_ACK = 8;
+
+const NO_BASELINE = 0xffffffff;
+
+/** Snapshots kept for delta baselines (~3 s at 20 ticks/sec) */
+const HISTORY_SIZE = 64;
+
+/** Positions are sent in 1/16 unit steps (±2048 units, map edge is 800) */
+const POSITION_SCALE = 16;
+/** Heat is 0–50, sent in 0.2 steps */
+const HEAT_SCALE = 5;
+
+const STATES: PlayerState['state'][] = [
+  'NORMAL', 'WANTED', 'GROUNDED', 'BANKING', 'SANCTUARY', 'SPAWN_SHIELD', 'STUNNED',
+];
+const STATUS_WANTED = 0x08;
+const STATUS_STUNNED = 0x10;
+
+const TWO_PI = Math.PI * 2;
+
+/**
+ * Pick the state codec for a client from the list it offered in `join`.
+ * Clients that offer nothing (older builds) keep the JSON snapshots.
+ */
+export function negotiateStateCodec(offered: unknown): StateCodecName {
+  if (Array.isArray(offered) && offered.includes(STATE_CODEC_BINARY)) {
+    return STATE_CODEC_BINARY;
+  }
+  return STATE_CODEC_JSON;
+}
+
+/** Tick, timestamp and kind of an encoded frame without decoding it (replay indexing) */
+export function readFrameHeader(data: Uint8Array): { tick: number; timestamp: number; keyframe: boolean } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    keyframe: view.getUint8(1) === FRAME_KEY,
+    tick: view.getUint32(2),
+    timestamp: view.getFloat64(6),
+  };
+}
+
+// --- Quantization ---
+
+interface QuantizedPlayer {
+  id: string;
+  username: string;
+  x: number;
+  y: number;
+  z: number;
+  yaw: number;
+  pitch: number;
+  heat: number;
+  status: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return value < min ? min : value > max ? max : value;
+}
+
+function quantizePosition(value: number): number {
+  return clamp(Math.round(value * POSITION_SCALE), -32768, 32767);
+}
+
+function quantizeYaw(yaw: number): number {
+  const wrapped = ((yaw % TWO_PI) + TWO_PI) % TWO_PI;
+  return Math.round((wrapped / TWO_PI) * 65536) & 0xffff;
+}
+
+function quantizePitch(pitch: number): number {
+  return clamp(Math.round((pitch / Math.PI) * 32767), -32767, 32767);
+}
+
+function quantize(player: PlayerState): QuantizedPlayer {
+  const stateIndex = Math.max(0, STATES.indexOf(player.state));
+  return {
+    id: player.id,
+    username: player.username,
+    x: quantizePosition(player.position.x),
+    y: quantizePosition(player.position.y),
+    z: quantizePosition(player.position.z),
+    yaw: quantizeYaw(player.yaw),
+    pitch: quantizePitch(player.pitch),
+    heat: clamp(Math.round(player.heat * HEAT_SCALE), 0, 255),
+    status: stateIndex
+      | (player.wantedFlag ? STATUS_WANTED : 0)
+      | (player.stunned ? STATUS_STUNNED : 0),
+  };
+}
+
+function dequantizeYaw(value: number): number {
+  const yaw = value / 65536 * TWO_PI;
+  return yaw > Math.PI ? yaw - TWO_PI : yaw;
+}
+
+function dequantize(q: QuantizedPlayer, lastUpdate: number): PlayerState {
+  return {
+    id: q.id,
+    username: q.username,
+    position: {
+      x: q.x / POSITION_SCALE,
+      y: q.y / POSITION_SCALE,
+      z: q.z / POSITION_SCALE,
+    },
+    yaw: dequantizeYaw(q.yaw),
+    pitch: q.pitch / 32767 * Math.PI,
+    heat: q.heat / HEAT_SCALE,
+    wantedFlag: (q.status & STATUS_WANTED) !== 0,
+    state: STATES[q.status & 0x07] ?? 'NORMAL',
+    stunned: (q.status & STATUS_STUNNED) !== 0,
+    lastUpdate,
+  };
+}
+
+function fieldMask(prev: QuantizedPlayer, next: QuantizedPlayer): number {
+  let mask = 0;
+  if (prev.x !== next.x || prev.y !== next.y || prev.z !== next.z) mask |= FIELD_POSITION;
+  if (prev.yaw !== next.yaw) mask |= FIELD_YAW;
+  if (prev.pitch !== next.pitch) mask |= FIELD_PITCH;
+  if (prev.heat !== next.heat) mask |= FIELD_HEAT;
+  if (prev.status !== next.status) mask |= FIELD_STATUS;
+  return mask;
+}
+
+// --- Byte buffer helpers ---
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private offset = 0;
+
+  private reserve(size: number): void {
+    if (this.offset + size <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.offset + size) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.bytes.subarray(0, this.offset));
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  u8(value: number): void { this.reserve(1); this.view.setUint8(this.offset, value); this.offset += 1; }
+  u16(value: number): void { this.reserve(2); this.view.setUint16(this.offset, value); this.offset += 2; }
+  i16(value: number): void { this.reserve(2); this.view.setInt16(this.offset, value); this.offset += 2; }
+  u32(value: number): void { this.reserve(4); this.view.setUint32(this.offset, value); this.offset += 4; }
+  f32(value: number): void { this.reserve(4); this.view.setFloat32(this.offset, value); this.offset += 4; }
+  f64(value: number): void { this.reserve(8); this.view.setFloat64(this.offset, value); this.offset += 8; }
+
+  /** Short string (ids, usernames) — truncated to 255 bytes */
+  shortString(value: string): void {
+    const encoded = textEncoder.encode(value).subarray(0, 255);
+    this.u8(encoded.length);
+    this.raw(encoded);
+  }
+
+  longString(value: string): void {
+    const encoded = textEncoder.encode(value);
+    this.u32(encoded.length);
+    this.raw(encoded);
+  }
+
+  raw(data: Uint8Array): void {
+    this.reserve(data.length);
+    this.bytes.set(data, this.offset);
+    this.offset += data.length;
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.offset);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number { const v = this.view.getUint8(this.offset); this.offset += 1; return v; }
+  u16(): number { const v = this.view.getUint16(this.offset); this.offset += 2; return v; }
+  i16(): number { const v = this.view.getInt16(this.offset); this.offset += 2; return v; }
+  u32(): number { const v = this.view.getUint32(this.offset); this.offset += 4; return v; }
+  f32(): number { const v = this.view.getFloat32(this.offset); this.offset += 4; return v; }
+  f64(): number { const v = this.view.getFloat64(this.offset); this.offset += 8; return v; }
+
+  shortString(): string {
+    const length = this.u8();
+    return this.string(length);
+  }
+
+  longString(): string {
+    const length = this.u32();
+    return this.string(length);
+  }
+
+  private string(length: number): string {
+    if (this.offset + length > this.bytes.length) throw new RangeError('String past end of frame');
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+// --- Encoder (server, one per client) ---
+
+interface EncodedFrame {
+  tick: number;
+  players: Map<number, QuantizedPlayer>;
+  hotspotsJson: string;
+}
+
+export class StateEncoder {
+  private slots: Map<string, number> = new Map();
+  private freeSlots: number[] = [];
+  private nextSlot = 0;
+  private history: EncodedFrame[] = [];
+  private ackedTick = -1;
+
+  /**
+   * Record the latest tick the client decoded. -1 (or a tick we no longer
+   * have) makes the next frame a keyframe.
+   */
+  ack(tick: number): void {
+    if (!Number.isInteger(tick) || tick < 0) {
+      this.ackedTick = -1;
+      return;
+    }
+    if (tick <= this.ackedTick) return;
+    this.ackedTick = tick;
+    // Baselines older than the ack will never be referenced again
+    this.history = this.history.filter((frame) => frame.tick >= tick);
+  }
+
+  encode(state: FilteredWorldState): Uint8Array {
+    const baseline = this.ackedTick >= 0
+      ? this.history.find((frame) => frame.tick === this.ackedTick) ?? null
+      : null;
+
+    const current: Map<number, QuantizedPlayer> = new Map();
+    const seen = new Set<string>();
+    for (const player of state.players) {
+      seen.add(player.id);
+      current.set(this.slotFor(player.id), quantize(player));
+    }
+    this.releaseSlots(seen);
+
+    const hotspotsJson = JSON.stringify(state.hotspots);
+    const sendHotspots = !baseline || baseline.hotspotsJson !== hotspotsJson;
+    const sendEvents = state.events.length > 0;
+    const sendMid = state.midPlayers !== undefined;
+    const sendAck = state.ack !== undefined;
+
+    const w = new ByteWriter();
+    w.u8(CODEC_VERSION);
+    w.u8(baseline ? FRAME_DELTA : FRAME_KEY);
+    w.u32(state.tick);
+    w.f64(state.timestamp);
+    w.u32(baseline ? baseline.tick : NO_BASELINE);
+    w.u8((sendHotspots ? FLAG_HOTSPOTS : 0) | (sendEvents ? FLAG_EVENTS : 0) | (sendMid ? FLAG_MID : 0) | (sendAck ? FLAG_ACK : 0));
+
+    const entries: [number, QuantizedPlayer, QuantizedPlayer | null][] = [];
+    for (const [slot, q] of current) {
+      const prev = baseline?.players.get(slot);
+      if (prev && prev.id === q.id) {
+        if (fieldMask(prev, q) !== 0) entries.push([slot, q, prev]);
+      } else {
+        entries.push([slot, q, null]);
+      }
+    }
+
+    w.u16(entries.length);
+    for (const [slot, q, prev] of entries) {
+      w.u16(slot);
+      if (!prev) {
+        w.u8(ENTRY_FULL);
+        w.shortString(q.id);
+        w.shortString(q.username);
+        w.i16(q.x); w.i16(q.y); w.i16(q.z);
+        w.u16(q.yaw);
+        w.i16(q.pitch);
+        w.u8(q.heat);
+        w.u8(q.status);
+        continue;
+      }
+      const mask = fieldMask(prev, q);
+      w.u8(ENTRY_DELTA);
+      w.u8(mask);
+      if (mask & FIELD_POSITION) { w.i16(q.x); w.i16(q.y); w.i16(q.z); }
+      if (mask & FIELD_YAW) w.u16(q.yaw);
+      if (mask & FIELD_PITCH) w.i16(q.pitch);
+      if (mask & FIELD_HEAT) w.u8(q.heat);
+      if (mask & FIELD_STATUS) w.u8(q.status);
+    }
+
+    const removed: number[] = [];
+    if (baseline) {
+      for (const slot of baseline.players.keys()) {
+        if (!current.has(slot)) removed.push(slot);
+      }
+    }
+    w.u16(removed.length);
+    for (const slot of removed) w.u16(slot);
+
+    if (sendHotspots) w.longString(hotspotsJson);
+    if (sendEvents) w.longString(JSON.stringify(state.events));
+    if (state.midPlayers) {
+      w.u16(state.midPlayers.length);
+      for (const mid of state.midPlayers) {
+        w.shortString(mid.id);
+        w.shortString(mid.username);
+        w.i16(quantizePosition(mid.position.x));
+        w.i16(quantizePosition(mid.position.y));
+        w.i16(quantizePosition(mid.position.z));
+        w.u16(quantizeYaw(mid.yaw));
+        w.u8(mid.wantedFlag ? 1 : 0);
+      }
+    }
+    if (state.ack) {
+      w.u32(state.ack.seq);
+      w.f32(state.ack.position.x);
+      w.f32(state.ack.position.y);
+      w.f32(state.ack.position.z);
+      w.f32(state.ack.yaw);
+      w.f32(state.ack.pitch);
+      w.u8(state.ack.locked ? 1 : 0);
+    }
+
+    this.history.push({ tick: state.tick, players: current, hotspotsJson });
+    if (this.history.length > HISTORY_SIZE) this.history.shift();
+
+    return w.finish();
+  }
+
+  private slotFor(id: string): number {
+    let slot = this.slots.get(id);
+    if (slot === undefined) {
+      slot = this.freeSlots.pop() ?? this.nextSlot++;
+      this.slots.set(id, slot);
+    }
+    return slot;
+  }
+
+  /**
+   * Free slots of players that left the client's view. A reused slot is safe:
+   * the id no longer matches the baseline, so it is sent as a full entry.
+   */
+  private releaseSlots(seen: Set<string>): void {
+    for (const [id, slot] of this.slots) {
+      if (seen.has(id)) continue;
+      this.slots.delete(id);
+      this.freeSlots.push(slot);
+    }
+  }
+}
+
+// --- Decoder (client) ---
+
+interface DecodedFrame {
+  tick: number;
+  players: Map<number, QuantizedPlayer>;
+  lastUpdates: Map<number, number>;
+  hotspots: HotspotState[];
+}
+
+export class StateDecoder {
+  private history: DecodedFrame[] = [];
+  /** Latest tick decoded, or -1 when the next frame must be a keyframe */
+  ackTick = -1;
+
+  /**
+   * Decode one frame. Returns null when the frame is a delta against a
+   * baseline we no longer have; ackTick is then -1 so the server resends a keyframe.
+   */
+  decode(data: ArrayBuffer | Uint8Array): FilteredWorldState | null {
+    const r = new ByteReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+
+    const version = r.u8();
+    if (version !== CODEC_VERSION) {
+      throw new Error(`Unsupported state codec version ${version}`);
+    }
+    const kind = r.u8();
+    const tick = r.u32();
+    const timestamp = r.f64();
+    const baselineTick = r.u32();
+    const flags = r.u8();
+
+    let baseline: DecodedFrame | null = null;
+    if (kind === FRAME_DELTA) {
+      baseline = this.history.find((frame) => frame.tick === baselineTick) ?? null;
+      if (!baseline) {
+        this.ackTick = -1;
+        return null;
+      }
+    }
+
+    const players: Map<number, QuantizedPlayer> = new Map(baseline?.players);
+    const lastUpdates: Map<number, number> = new Map(baseline?.lastUpdates);
+
+    const entryCount = r.u16();
+    for (let i = 0; i < entryCount; i++) {
+      const slot = r.u16();
+      const entryKind = r.u8();
+      if (entryKind === ENTRY_FULL) {
+        const id = r.shortString();
+        const username = r.shortString();
+        players.set(slot, {
+          id,
+          username,
+          x: r.i16(), y: r.i16(), z: r.i16(),
+          yaw: r.u16(),
+          pitch: r.i16(),
+          heat: r.u8(),
+          status: r.u8(),
+        });
+        lastUpdates.set(slot, timestamp);
+        continue;
+      }
+
+      const prev = players.get(slot);
+      if (!prev) throw new Error(`Delta for unknown slot ${slot}`);
+      const q = { ...prev };
+      const mask = r.u8();
+      if (mask & FIELD_POSITION) { q.x = r.i16(); q.y = r.i16(); q.z = r.i16(); }
+      if (mask & FIELD_YAW) q.yaw = r.u16();
+      if (mask & FIELD_PITCH) q.pitch = r.i16();
+      if (mask & FIELD_HEAT) q.heat = r.u8();
+      if (mask & FIELD_STATUS) q.status = r.u8();
+      players.set(slot, q);
+      // lastUpdate is not transmitted; it tracks when the player last moved
+      if (mask & FIELD_POSITION) lastUpdates.set(slot, timestamp);
+    }
+
+    const removedCount = r.u16();
+    for (let i = 0; i < removedCount; i++) {
+      const slot = r.u16();
+      players.delete(slot);
+      lastUpdates.delete(slot);
+    }
+
+    const hotspots: HotspotState[] = flags & FLAG_HOTSPOTS
+      ? JSON.parse(r.longString())
+      : baseline?.hotspots ?? [];
+    const events = flags & FLAG_EVENTS ? JSON.parse(r.longString()) : [];
+
+    let midPlayers: MidPlayerState[] | undefined;
+    if (flags & FLAG_MID) {
+      midPlayers = [];
+      const midCount = r.u16();
+      for (let i = 0; i < midCount; i++) {
+        const id = r.shortString();
+        const username = r.shortString();
+        const position = {
+          x: r.i16() / POSITION_SCALE,
+          y: r.i16() / POSITION_SCALE,
+          z: r.i16() / POSITION_SCALE,
+        };
+        midPlayers.push({ id, username, position, yaw: dequantizeYaw(r.u16()), wantedFlag: r.u8() !== 0 });
+      }
+    }
+
+    let ack: InputAck | undefined;
+    if (flags & FLAG_ACK) {
+      const seq = r.u32();
+      const position = { x: r.f32(), y: r.f32(), z: r.f32() };
+      ack = { seq, position, yaw: r.f32(), pitch: r.f32(), locked: r.u8() !== 0 };
+    }
+
+    this.history.push({ tick, players, lastUpdates, hotspots });
+    if (this.history.length > HISTORY_SIZE) this.history.shift();
+    this.ackTick = tick;
+
+    const playerStates: PlayerState[] = [];
+    for (const [slot, q] of players) {
+      playerStates.push(dequantize(q, lastUpdates.get(slot) ?? timestamp));
+    }
+
+    return {
+      tick,
+      timestamp,
+      players: playerStates,
+      ...(midPlayers ? { midPlayers } : {}),
+      hotspots: hotspots.map((h) => ({ ...h })),
+      events,
+      ...(ack ? { ack } : {}),
+    };
+  }
+
+  /** Forget all baselines (reconnect) */
+  reset(): void {
+    this.history = [];
+    this.ackTick = -1;
+  }
+}
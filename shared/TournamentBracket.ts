@@ -0,0 +1,230 @@
+/**
+ * Tournament Bracket — formats, seeding and pairing for community tournaments.
+ * Shared by the server TournamentManager (which runs the event) and the
+ * client bracket view (which draws the TournamentView it is sent), so both
+ * read rounds, byes and Swiss standings the same way.
+ */
+
+export type TournamentFormatId = 'single-elim' | 'swiss';
+/** PvP modes a tournament can be played in; heist is the 1v1 format */
+export type TournamentGame = 'poop-tag' | 'race' | 'poop-cover' | 'heist';
+export type TournamentSeeding = 'rating' | 'level';
+export type TournamentPhase = 'registration' | 'running' | 'complete' | 'cancelled';
+export type TournamentMatchStatus = 'pending' | 'live' | 'done';
+
+export const TOURNAMENT_FORMAT_NAMES: Record<TournamentFormatId, string> = {
+  'single-elim': 'Single Elimination',
+  'swiss': 'Swiss',
+};
+
+export const TOURNAMENT_GAME_NAMES: Record<TournamentGame, string> = {
+  'poop-tag': 'Poop Tag',
+  'race': 'Race',
+  'poop-cover': 'Poop Cover',
+  'heist': 'Heist',
+};
+
+export const TOURNAMENT_MIN_ENTRANTS = 2;
+export const TOURNAMENT_MAX_ENTRANTS = 64;
+
+export function isTournamentFormatId(id: string): id is TournamentFormatId {
+  return id in TOURNAMENT_FORMAT_NAMES;
+}
+
+export function isTournamentGame(id: string): id is TournamentGame {
+  return id in TOURNAMENT_GAME_NAMES;
+}
+
+export interface TournamentEntrant {
+  id: string;
+  username: string;
+  /** 1 is the top seed */
+  seed: number;
+  /** Swiss score: one point per win or bye */
+  points: number;
+  /** Left, disconnected or removed; loses any match still to play by forfeit */
+  withdrawn: boolean;
+}
+
+export interface TournamentMatch {
+  /** `r<round>m<slot>`, unique within the tournament */
+  id: string;
+  /** 1-based */
+  round: number;
+  /** Position within the round; single elimination feeds slot s into slot floor(s/2) of the next round */
+  slot: number;
+  /** null is a bye (round one) or a winner still to be decided */
+  playerIds: [string | null, string | null];
+  status: TournamentMatchStatus;
+  winnerId: string | null;
+  /** Won without playing: the opponent withdrew or was removed */
+  forfeit: boolean;
+}
+
+/** What clients are sent: everything needed to draw the bracket or standings */
+export interface TournamentView {
+  id: string;
+  name: string;
+  format: TournamentFormatId;
+  game: TournamentGame;
+  seeding: TournamentSeeding;
+  phase: TournamentPhase;
+  /** When registration closes by itself, ms since epoch */
+  registrationEndsAt: number;
+  /** Round being played; 0 during registration */
+  round: number;
+  totalRounds: number;
+  /** Seed order once running, sign-up order before */
+  entrants: TournamentEntrant[];
+  matches: TournamentMatch[];
+  winnerId: string | null;
+}
+
+/** Sent to both players when their match is about to start */
+export interface TournamentMatchNotice {
+  tournamentId: string;
+  matchId: string;
+  round: number;
+  opponent: string;
+  game: TournamentGame;
+}
+
+export function tournamentMatchId(round: number, slot: number): string {
+  return `r${round}m${slot}`;
+}
+
+function newMatch(round: number, slot: number, a: string | null, b: string | null): TournamentMatch {
+  return { id: tournamentMatchId(round, slot), round, slot, playerIds: [a, b], status: 'pending', winnerId: null, forfeit: false };
+}
+
+// ── Single elimination ──────────────────────────────────────────────────────
+
+/** Smallest power of two that fits `entrants`, at least 2 */
+export function bracketSize(entrants: number): number {
+  let size = 2;
+  while (size < entrants) size *= 2;
+  return size;
+}
+
+/**
+ * Seeds in bracket order, e.g. [1, 8, 4, 5, 2, 7, 3, 6] for 8: adjacent pairs
+ * meet in round one, and seeds 1 and 2 cannot meet before the final.
+ */
+export function bracketSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const mirror = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, mirror - seed]);
+  }
+  return order;
+}
+
+export function singleEliminationRounds(entrants: number): number {
+  return Math.log2(bracketSize(entrants));
+}
+
+/**
+ * Every match of the bracket for `seededIds` (top seed first). Seeds past the
+ * entrant count are byes, which go to the top seeds; round-one byes are
+ * already decided and their winners placed in round two.
+ */
+export function buildSingleElimination(seededIds: string[]): TournamentMatch[] {
+  const size = bracketSize(seededIds.length);
+  const order = bracketSeedOrder(size);
+  const matches: TournamentMatch[] = [];
+
+  for (let slot = 0; slot < size / 2; slot++) {
+    const a = seededIds[order[slot * 2] - 1] ?? null;
+    const b = seededIds[order[slot * 2 + 1] - 1] ?? null;
+    matches.push(newMatch(1, slot, a, b));
+  }
+  for (let round = 2, count = size / 4; count >= 1; round++, count /= 2) {
+    for (let slot = 0; slot < count; slot++) matches.push(newMatch(round, slot, null, null));
+  }
+
+  for (const match of matches.filter((m) => m.round === 1)) {
+    const [a, b] = match.playerIds;
+    if (a && b) continue;
+    match.status = 'done';
+    match.winnerId = a ?? b;
+    advanceWinner(matches, match);
+  }
+  return matches;
+}
+
+/** Put a decided match's winner into their next-round slot; a no-op after the final */
+export function advanceWinner(matches: TournamentMatch[], match: TournamentMatch): TournamentMatch | null {
+  const next = matches.find((m) => m.round === match.round + 1 && m.slot === Math.floor(match.slot / 2));
+  if (!next) return null;
+  next.playerIds[match.slot % 2] = match.winnerId;
+  return next;
+}
+
+// ── Swiss ───────────────────────────────────────────────────────────────────
+
+/** Enough rounds for one unbeaten player to remain */
+export function swissRounds(entrants: number): number {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(2, entrants))));
+}
+
+/** Opponents each entrant has already played (byes excluded) */
+function opponentsOf(matches: TournamentMatch[]): Map<string, Set<string>> {
+  const opponents = new Map<string, Set<string>>();
+  for (const { playerIds: [a, b] } of matches) {
+    if (!a || !b) continue;
+    if (!opponents.has(a)) opponents.set(a, new Set());
+    if (!opponents.has(b)) opponents.set(b, new Set());
+    opponents.get(a)!.add(b);
+    opponents.get(b)!.add(a);
+  }
+  return opponents;
+}
+
+/**
+ * Standings, best first: points, then Buchholz (the summed points of everyone
+ * they played, so wins over strong players count for more), then seed.
+ */
+export function swissStandings(entrants: TournamentEntrant[], matches: TournamentMatch[]): TournamentEntrant[] {
+  const opponents = opponentsOf(matches);
+  const points = new Map(entrants.map((e) => [e.id, e.points]));
+  const buchholz = (id: string): number =>
+    Array.from(opponents.get(id) ?? []).reduce((sum, opponent) => sum + (points.get(opponent) ?? 0), 0);
+
+  return [...entrants].sort((a, b) => b.points - a.points || buchholz(b.id) - buchholz(a.id) || a.seed - b.seed);
+}
+
+/**
+ * Pair the next Swiss round among the entrants still playing. With an odd
+ * count the lowest-ranked player without a bye yet sits out and scores the
+ * point; the rest are paired down the standings, each with the highest-placed
+ * opponent they have not met (a rematch only when nobody else is left).
+ */
+export function pairSwissRound(
+  entrants: TournamentEntrant[],
+  matches: TournamentMatch[],
+  round: number,
+): TournamentMatch[] {
+  const ranked = swissStandings(entrants.filter((e) => !e.withdrawn), matches).map((e) => e.id);
+  const opponents = opponentsOf(matches);
+  const paired: TournamentMatch[] = [];
+
+  if (ranked.length % 2 === 1) {
+    const hadBye = new Set(matches.filter((m) => m.playerIds[1] === null && m.winnerId).map((m) => m.winnerId));
+    const byeIndex = ranked.map((id, i) => ({ id, i })).reverse().find(({ id }) => !hadBye.has(id))?.i ?? ranked.length - 1;
+    const [byeId] = ranked.splice(byeIndex, 1);
+    const bye = newMatch(round, Math.floor(ranked.length / 2), byeId, null);
+    bye.status = 'done';
+    bye.winnerId = byeId;
+    paired.push(bye);
+  }
+
+  const pairs: TournamentMatch[] = [];
+  while (ranked.length > 1) {
+    const a = ranked.shift()!;
+    const met = opponents.get(a);
+    const index = Math.max(0, ranked.findIndex((b) => !met?.has(b)));
+    const [b] = ranked.splice(index, 1);
+    pairs.push(newMatch(round, pairs.length, a, b));
+  }
+  return [...pairs, ...paired];
+}
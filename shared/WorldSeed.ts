@@ -0,0 +1,53 @@
+/**
+ * World Seed
+ * Deterministic random numbers shared by the client and the server.
+ * Every procedural system (city layout, NPCs, collectibles, flight rings)
+ * draws from its own stream derived from the world seed, so adding a random
+ * call in one system never shifts the layout of another.
+ *
+ * No Node or DOM dependencies — imported by both the server and the browser.
+ */
+
+/** Seed used when the server does not provide one (offline play, old servers) */
+export const DEFAULT_WORLD_SEED = 0x5eaf00d;
+
+/** Returns a float in [0, 1), like Math.random */
+export type SeededRandom = () => number;
+
+/** Mulberry32 — small, fast, and good enough for level generation. */
+export function createSeededRandom(seed: number): SeededRandom {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** FNV-1a hash of a string to a 32-bit seed. */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Derive an independent sub-seed for one system, e.g. deriveSeed(seed, 'npcs'). */
+export function deriveSeed(seed: number, stream: string): number {
+  return hashSeed(`${seed >>> 0}:${stream}`);
+}
+
+/**
+ * Parse a seed from configuration. Numeric strings are used as-is,
+ * anything else is hashed so WORLD_SEED=harbor-night works too.
+ */
+export function parseWorldSeed(value: string | undefined): number {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return DEFAULT_WORLD_SEED;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  return hashSeed(trimmed);
+}
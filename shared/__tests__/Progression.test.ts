@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest';
+import { levelForXp } from '../Progression';
+
+describe('Progression', () => {
+  it('should level banked XP the way the client does', () => {
+    expect(levelForXp(0)).toBe(1);
+    expect(levelForXp(99)).toBe(1);
+    expect(levelForXp(100)).toBe(2);
+    expect(levelForXp(Number.MAX_SAFE_INTEGER)).toBe(50);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PVP_LOBBY_LIMITS,
+  applyPvPLobbySettings,
+  defaultPvPLobbySettings,
+  generatePvPLobbyCode,
+  normalizePvPLobbyCode,
+} from '../PvPLobbySettings';
+
+describe('PvPLobbySettings', () => {
+  it('should clamp a host\'s numbers and ignore what does not apply', () => {
+    const settings = applyPvPLobbySettings(defaultPvPLobbySettings(), {
+      roundSeconds: 5,
+      maxPlayers: 99,
+      routeIndex: 2,
+      abilities: { slams: 'no' },
+      modeId: 'darts',
+    });
+    expect(settings).toMatchObject({
+      modeId: 'poop-tag',
+      roundSeconds: PVP_LOBBY_LIMITS.MIN_ROUND_SECONDS,
+      maxPlayers: PVP_LOBBY_LIMITS.MAX_PLAYERS,
+      routeIndex: null,
+      abilities: { slams: true, passing: true },
+    });
+  });
+
+  it('should start from the new mode\'s defaults when the mode changes', () => {
+    const tag = applyPvPLobbySettings(defaultPvPLobbySettings(), { roundSeconds: 300 });
+    const heist = applyPvPLobbySettings(tag, { modeId: 'heist-2v2', maxPlayers: 10 });
+    expect(heist).toMatchObject({ modeId: 'heist-2v2', roundSeconds: 180, maxPlayers: 4 });
+  });
+
+  it('should read back generated codes however they are typed', () => {
+    const code = generatePvPLobbyCode(() => 0.5);
+    expect(code).toHaveLength(PVP_LOBBY_LIMITS.CODE_LENGTH);
+    expect(normalizePvPLobbyCode(` ${code.slice(0, 2)}-${code.slice(2).toLowerCase()} `)).toBe(code);
+    expect(normalizePvPLobbyCode('ABC0O')).toBeNull();
+    expect(normalizePvPLobbyCode(42)).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { RaceLeaderboard } from '../RaceLeaderboard';
+import { GhostTrack } from '../GhostTrack';
+
+const ghost = (routeId: string, playerName: string, time: number): GhostTrack => ({
+  version: 1,
+  routeId,
+  routeName: routeId,
+  playerName,
+  time,
+  splits: [],
+  intervalMs: 100,
+  samples: [],
+  recordedAt: 0,
+});
+
+describe('RaceLeaderboard', () => {
+  it('should keep each player\'s best run, fastest first', () => {
+    const board = new RaceLeaderboard(2);
+    expect(board.submit('a', ghost('r1', 'Alice', 40))).toBe(1);
+    expect(board.submit('b', ghost('r1', 'Bob', 35))).toBe(1);
+    expect(board.submit('a', ghost('r1', 'Alice', 45))).toBeNull();
+    expect(board.submit('c', ghost('r1', 'Carol', 50))).toBeNull();
+    expect(board.getEntries('r1').map((e) => [e.username, e.rank])).toEqual([['Bob', 1], ['Alice', 2]]);
+  });
+
+  it('should drop the least recently used route once too many have boards', () => {
+    const board = new RaceLeaderboard(10, 2);
+    board.submit('a', ghost('r1', 'Alice', 40));
+    board.submit('a', ghost('r2', 'Alice', 40));
+    // Looking at r1 keeps it, so r2 is the one dropped for r3
+    expect(board.getGhost('r1', 1)?.playerName).toBe('Alice');
+    board.submit('a', ghost('r3', 'Alice', 40));
+
+    expect(board.getEntries('r1')).toHaveLength(1);
+    expect(board.getEntries('r2')).toHaveLength(0);
+    expect(board.getEntries('r3')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { StateEncoder, StateDecoder, readFrameHeader } from '../StateCodec';
+import { FilteredWorldState, PlayerState } from '../types';
+
+const player = (id: string, overrides: Partial<PlayerState> = {}): PlayerState => ({
+  id,
+  username: id.toUpperCase(),
+  position: { x: 10, y: 50, z: -20 },
+  yaw: 0.5,
+  pitch: -0.25,
+  heat: 12.4,
+  wantedFlag: false,
+  state: 'NORMAL',
+  stunned: false,
+  lastUpdate: 0,
+  ...overrides,
+});
+
+const frame = (tick: number, players: PlayerState[], extra: Partial<FilteredWorldState> = {}): FilteredWorldState => ({
+  tick,
+  timestamp: 1_000 + tick * 50,
+  players,
+  hotspots: [{ id: 'plaza', position: { x: 0, y: 0, z: 0 }, radius: 30, active: true }],
+  events: [],
+  ...extra,
+});
+
+const ids = (state: FilteredWorldState | null) => state?.players.map((p) => p.id).sort();
+
+describe('StateCodec', () => {
+  it('should round-trip a keyframe with mid-tier players, events and the input ack', () => {
+    const encoder = new StateEncoder();
+    const decoder = new StateDecoder();
+    const sent = frame(1, [player('alice'), player('bob', { state: 'WANTED', wantedFlag: true, stunned: true })], {
+      midPlayers: [{ id: 'carol', username: 'CAROL', position: { x: 300, y: 80, z: 300 }, yaw: -1, wantedFlag: true }],
+      events: [{ type: 'pvp_hit', data: { shooterId: 'alice', victimId: 'bob' } }],
+      ack: { seq: 42, position: { x: 10.123, y: 50.5, z: -20.75 }, yaw: 0.5, pitch: -0.25, locked: true },
+    });
+
+    const data = encoder.encode(sent);
+    expect(readFrameHeader(data)).toEqual({ tick: 1, timestamp: sent.timestamp, keyframe: true });
+
+    const decoded = decoder.decode(data);
+    expect(decoder.ackTick).toBe(1);
+    expect(ids(decoded)).toEqual(['alice', 'bob']);
+    const bob = decoded?.players.find((p) => p.id === 'bob');
+    expect(bob).toMatchObject({ username: 'BOB', state: 'WANTED', wantedFlag: true, stunned: true, lastUpdate: sent.timestamp });
+    expect(bob?.position).toEqual({ x: 10, y: 50, z: -20 });
+    expect(bob?.yaw).toBeCloseTo(0.5, 3);
+    expect(bob?.pitch).toBeCloseTo(-0.25, 3);
+    expect(bob?.heat).toBeCloseTo(12.4, 5);
+    expect(decoded?.midPlayers?.[0]).toMatchObject({ id: 'carol', position: { x: 300, y: 80, z: 300 }, wantedFlag: true });
+    expect(decoded?.hotspots).toEqual(sent.hotspots);
+    expect(decoded?.events).toEqual(sent.events);
+    expect(decoded?.ack?.seq).toBe(42);
+    expect(decoded?.ack?.position.x).toBeCloseTo(10.123, 4);
+    expect(decoded?.ack?.locked).toBe(true);
+  });
+
+  it('should send only changed players against the acked tick', () => {
+    const encoder = new StateEncoder();
+    const decoder = new StateDecoder();
+    const keyframe = encoder.encode(frame(1, [player('alice'), player('bob')]));
+    decoder.decode(keyframe);
+    encoder.ack(decoder.ackTick);
+
+    const moved = frame(2, [player('alice'), player('bob', { position: { x: 12, y: 50, z: -20 }, heat: 20 })]);
+    const delta = encoder.encode(moved);
+    expect(readFrameHeader(delta).keyframe).toBe(false);
+    expect(delta.byteLength).toBeLessThan(keyframe.byteLength / 2);
+
+    const decoded = decoder.decode(delta);
+    const alice = decoded?.players.find((p) => p.id === 'alice');
+    const bob = decoded?.players.find((p) => p.id === 'bob');
+    expect(bob).toMatchObject({ position: { x: 12, y: 50, z: -20 }, heat: 20, lastUpdate: moved.timestamp });
+    // Unchanged players (and hotspots) carry over from the baseline, including when they last moved
+    expect(alice).toMatchObject({ position: { x: 10, y: 50, z: -20 }, lastUpdate: frame(1, []).timestamp });
+    expect(decoded?.hotspots).toEqual(moved.hotspots);
+
+    // Unacked frames are not baselines: the next delta is still against tick 1
+    const again = encoder.encode(frame(3, [player('alice'), player('bob', { position: { x: 14, y: 50, z: -20 } })]));
+    expect(decoder.decode(again)?.players.find((p) => p.id === 'bob')?.position.x).toBe(14);
+  });
+
+  it('should send a reused slot as a full entry for the new player', () => {
+    const encoder = new StateEncoder();
+    const decoder = new StateDecoder();
+    const step = (state: FilteredWorldState) => {
+      const decoded = decoder.decode(encoder.encode(state));
+      encoder.ack(decoder.ackTick);
+      return decoded;
+    };
+
+    step(frame(1, [player('alice'), player('bob')]));
+    expect(ids(step(frame(2, [player('alice')])))).toEqual(['alice']);
+
+    // Carol takes Bob's freed slot with the same quantized fields; she must not inherit his identity
+    const decoded = step(frame(3, [player('alice'), player('carol')]));
+    expect(ids(decoded)).toEqual(['alice', 'carol']);
+    expect(decoded?.players.find((p) => p.id === 'carol')?.username).toBe('CAROL');
+  });
+
+  it('should fall back to a keyframe when the ack is older than the history', () => {
+    const encoder = new StateEncoder();
+    const decoder = new StateDecoder();
+    decoder.decode(encoder.encode(frame(1, [player('alice')])));
+    for (let tick = 2; tick <= 70; tick++) {
+      encoder.encode(frame(tick, [player('alice', { position: { x: tick, y: 50, z: 0 } })]));
+    }
+
+    // The ack for tick 1 arrives after 64 newer frames pushed it out
+    encoder.ack(1);
+    const data = encoder.encode(frame(71, [player('alice', { position: { x: 71, y: 50, z: 0 } })]));
+    expect(readFrameHeader(data).keyframe).toBe(true);
+    expect(decoder.decode(data)?.players[0].position.x).toBe(71);
+
+    // A client missing the baseline asks for a keyframe instead of guessing
+    encoder.ack(71);
+    const delta = encoder.encode(frame(72, [player('alice', { position: { x: 72, y: 50, z: 0 } })]));
+    const fresh = new StateDecoder();
+    expect(fresh.decode(delta)).toBeNull();
+    expect(fresh.ackTick).toBe(-1);
+  });
+
+  it('should clamp and wrap fields that fall outside their quantized ranges', () => {
+    const encoder = new StateEncoder();
+    const decoder = new StateDecoder();
+    const decoded = decoder.decode(encoder.encode(frame(1, [
+      player('far', { position: { x: 5000, y: -5000, z: 0.03 }, yaw: 3 * Math.PI - 0.1, pitch: 4, heat: 90 }),
+      player('cold', { yaw: -0.1, pitch: -4, heat: -3 }),
+    ])));
+
+    const far = decoded?.players.find((p) => p.id === 'far');
+    const cold = decoded?.players.find((p) => p.id === 'cold');
+    expect(far?.position).toEqual({ x: 32767 / 16, y: -2048, z: 0 });
+    expect(far?.yaw).toBeCloseTo(Math.PI - 0.1, 3);
+    expect(far?.pitch).toBeCloseTo(Math.PI, 5);
+    expect(far?.heat).toBe(51);
+    expect(cold?.yaw).toBeCloseTo(-0.1, 3);
+    expect(cold?.pitch).toBeCloseTo(-Math.PI, 5);
+    expect(cold?.heat).toBe(0);
+  });
+});
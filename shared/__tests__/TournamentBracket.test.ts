@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bracketSeedOrder,
+  buildSingleElimination,
+  advanceWinner,
+  pairSwissRound,
+  type TournamentEntrant,
+} from '../TournamentBracket';
+
+function entrants(count: number): TournamentEntrant[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `p${i + 1}`,
+    username: `P${i + 1}`,
+    seed: i + 1,
+    points: 0,
+    withdrawn: false,
+  }));
+}
+
+describe('TournamentBracket', () => {
+  it('should keep the top seeds apart until the final', () => {
+    expect(bracketSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it('should give byes to the top seeds and advance them into round two', () => {
+    const matches = buildSingleElimination(['p1', 'p2', 'p3', 'p4', 'p5']);
+    const roundOne = matches.filter((m) => m.round === 1);
+    expect(roundOne.filter((m) => m.status === 'done').map((m) => m.winnerId).sort()).toEqual(['p1', 'p2', 'p3']);
+    expect(roundOne.find((m) => m.status === 'pending')?.playerIds).toEqual(['p4', 'p5']);
+    expect(matches.filter((m) => m.round === 2).map((m) => m.playerIds)).toEqual([['p1', null], ['p2', 'p3']]);
+
+    const decided = roundOne.find((m) => m.status === 'pending')!;
+    decided.winnerId = 'p5';
+    expect(advanceWinner(matches, decided)?.playerIds).toEqual(['p1', 'p5']);
+  });
+
+  it('should pair Swiss rounds without rematches and rotate the bye', () => {
+    const field = entrants(5);
+    const first = pairSwissRound(field, [], 1);
+    expect(first.map((m) => m.playerIds)).toEqual([['p1', 'p2'], ['p3', 'p4'], ['p5', null]]);
+
+    for (const match of first) {
+      match.status = 'done';
+      match.winnerId = match.playerIds[0];
+      field.find((e) => e.id === match.winnerId)!.points++;
+    }
+    const second = pairSwissRound(field, first, 2);
+    const bye = second.find((m) => m.playerIds[1] === null);
+    expect(bye?.winnerId).not.toBe('p5');
+    for (const { playerIds: [a, b] } of second) {
+      if (!a || !b) continue;
+      expect(first.some((m) => m.playerIds.includes(a) && m.playerIds.includes(b))).toBe(false);
+    }
+  });
+});
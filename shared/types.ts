@@ -0,0 +1,269 @@
+/**
+ * Shared types between server and client for multiplayer
+ */
+
+import type { ChatChannelId } from './ChatChannels';
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface PlayerState {
+  id: string;
+  username: string;
+  position: Vector3;
+  yaw: number;
+  pitch: number;
+  heat: number;
+  wantedFlag: boolean;
+  state: 'NORMAL' | 'WANTED' | 'GROUNDED' | 'BANKING' | 'SANCTUARY' | 'SPAWN_SHIELD' | 'STUNNED';
+  stunned: boolean;
+  lastUpdate: number;
+}
+
+export interface MidPlayerState {
+  id: string;
+  username: string;
+  position: Vector3;
+  yaw: number;
+  wantedFlag: boolean;
+}
+
+export interface NPCState {
+  id: string;
+  type: 'walker' | 'runner' | 'crowd';
+  position: Vector3;
+  frozen: boolean;
+}
+
+export interface HotspotState {
+  id: string;
+  position: Vector3;
+  radius: number;
+  active: boolean;
+}
+
+// Legacy full snapshot (used for welcome message)
+export interface WorldStateSnapshot {
+  tick: number;
+  timestamp: number;
+  players: PlayerState[];
+  npcs: NPCState[];
+  hotspots: HotspotState[];
+}
+
+// Interest-managed state sent per-client each tick (see WorldState.getFilteredSnapshot)
+export interface FilteredWorldState {
+  tick: number;
+  timestamp: number;
+  players: PlayerState[];
+  /** Medium-range players; only present on mid-tier ticks, absent means "unchanged" */
+  midPlayers?: MidPlayerState[];
+  hotspots: HotspotState[];
+  events: GameEvent[];
+  /** Present once the client has sent a sequenced update */
+  ack?: InputAck;
+}
+
+// Game events (PvP, races, etc.)
+export interface GameEvent {
+  type:
+    | 'pvp_hit'
+    | 'race_created'
+    | 'race_countdown'
+    | 'race_started'
+    | 'race_checkpoint'
+    | 'race_update'
+    | 'race_finished'
+    | 'lasso_attach'
+    | 'lasso_release'
+    | 'lasso_windup'
+    | 'lasso_feedback';
+  data: any;
+}
+
+// PvP hit result
+export interface PvPHitResult {
+  attackerId: string;
+  attackerName: string;
+  victimId: string;
+  victimName: string;
+  stolenCoins: number;
+  victimStunDuration: number;
+  /** How far back (ms) the victim was rewound to the shooter's view for this hit */
+  rewindMs: number;
+}
+
+// Race types
+export interface RaceCheckpoint {
+  position: Vector3;
+  radius: number;
+}
+
+export interface RaceParticipant {
+  playerId: string;
+  username: string;
+  currentCheckpoint: number;
+  finishTime: number | null;
+}
+
+export interface RaceState {
+  id: string;
+  creatorId: string;
+  type: 'short' | 'medium' | 'long';
+  participants: RaceParticipant[];
+  checkpoints: RaceCheckpoint[];
+  /** Set when racing a player-made route instead of generated checkpoints */
+  routeName?: string;
+  routeId?: string;
+  state: 'waiting' | 'countdown' | 'racing' | 'finished';
+  createdAt: number;
+  startTime: number;
+  results: { playerId: string; username: string; time: number; place: number }[];
+}
+
+// PvP mode round results (Poop Tag, Race, Poop Cover), scored by the server
+export interface PvPStandingData {
+  playerId: string;
+  username: string;
+  rank: number;
+  score: number;
+  reward: number;
+  label: string;
+}
+
+export interface PvPResultsData {
+  modeId: string;
+  modeName: string;
+  standings: PvPStandingData[];
+  duration: number; // seconds
+}
+
+// Spectating: watching a PvP round, heist or MvM match without joining the world
+export type SpectateKind = 'pvp' | 'heist' | 'mvm';
+
+export interface SpectateTarget {
+  kind: SpectateKind;
+  matchId: string;
+}
+
+/** A live match listed in the lobby for spectators */
+export interface SpectatableMatch extends SpectateTarget {
+  worldId: string;
+  mode: string;
+  phase: string;
+  participants: number;
+}
+
+export interface SpectatedParticipant {
+  id: string;
+  username: string;
+  /** Team index; null when everyone plays for themselves */
+  team: number | null;
+  score: number;
+  isBot: boolean;
+}
+
+export interface SpectatedTrophy {
+  id: number;
+  position: Vector3;
+  state: string;
+  carrierId: string | null;
+}
+
+/** Scoreboard and camera targets for a watched match, sent on join and a few times a second after */
+export interface SpectatedMatchState extends SpectateTarget {
+  mode: string;
+  phase: string;
+  timeRemaining: number;
+  participants: SpectatedParticipant[];
+  /** Per-team scores for team modes, null otherwise */
+  teamScores: number[] | null;
+  /** Heist only */
+  trophies?: SpectatedTrophy[];
+  /** Seats the server flies itself (heist bots); everyone else comes through world state */
+  botPositions?: Record<string, Vector3>;
+}
+
+// Chat message
+export interface ChatMessage {
+  playerId: string;
+  username: string;
+  message: string;
+  timestamp: number;
+  /** Absent means global, as in replays recorded before channels */
+  channel?: ChatChannelId;
+  /** Whisper recipient, so the sender's own copy can say who it went to */
+  toId?: string;
+  toName?: string;
+}
+
+export interface ClientMessage {
+  type: 'join' | 'update' | 'poop' | 'coins_earned' | 'bank' | 'bank_complete' | 'bank_cancel' | 'leave'
+    | 'race_create' | 'race_join' | 'race_ready' | 'race_leaderboard' | 'race_ghost' | 'chat'
+    | 'pvp-join' | 'pvp-leave' | 'pvp-tag-transfer' | 'pvp-checkpoint' | 'pvp-hit'
+    | 'pvp-lobby-create' | 'pvp-lobby-join' | 'pvp-lobby-settings' | 'pvp-lobby-ready' | 'pvp-lobby-kick'
+    | 'mvm_queue_join' | 'mvm_queue_leave' | 'murmuration_chat'
+    | 'heist-join' | 'heist-leave' | 'heist-grab' | 'heist-slam' | 'heist-score' | 'heist-pass'
+    | 'lasso-cast' | 'lasso-release' | 'lasso-breakout'
+    | 'spectate' | 'spectate_focus' | 'spectate_stop'
+    | 'tournament-register' | 'tournament-withdraw'
+    | 'shop_purchase';
+  data?: any;
+}
+
+export interface ServerMessage {
+  type: 'welcome' | 'state' | 'player_joined' | 'player_left' | 'poop' | 'player_banked' | 'error' | 'chat'
+    | 'pvp-mode-start' | 'pvp-mode-end' | 'pvp-state-update' | 'pvp-tag-transfer' | 'pvp-checkpoint' | 'pvp-hit'
+    | 'pvp-lobby'
+    | 'mvm_match_found' | 'mvm_round_update' | 'mvm_match_end' | 'murmuration_chat' | 'murmuration_notification'
+    | 'heist-match-start' | 'heist-round-start' | 'heist-trophy-grabbed' | 'heist-slam' | 'heist-pass'
+    | 'heist-score' | 'heist-trophy-settled' | 'heist-trophy-reset' | 'heist-overtime' | 'heist-match-end' | 'heist-state'
+    | 'admin_announce' | 'admin_kicked' | 'ledger_balance' | 'correction' | 'ratings' | 'rating_update'
+    | 'race_leaderboard' | 'race_ghost' | 'race_run_recorded'
+    | 'spectate_welcome' | 'spectate_state' | 'spectate_ended'
+    | 'tournament_update' | 'tournament_match'
+    | 'shop_purchase_result';
+  data?: any;
+}
+
+export interface PlayerInput {
+  position: Vector3;
+  yaw: number;
+  pitch: number;
+  speed: number;
+  timestamp: number;
+  /** Last binary state tick the client decoded, -1 to request a keyframe */
+  ackTick?: number;
+  /** Client input sequence number, echoed back in InputAck */
+  seq?: number;
+}
+
+/**
+ * The server's view of the receiving player, sent with each snapshot so the
+ * client can reconcile its predicted position (stuns, lasso drag, freeze, teleports).
+ */
+export interface InputAck {
+  /** Last input sequence the server processed (accepted or rejected) */
+  seq: number;
+  /** Authoritative position, including any server-applied movement since that input */
+  position: Vector3;
+  yaw: number;
+  pitch: number;
+  /** Stunned or frozen — the server ignores movement until this clears */
+  locked: boolean;
+}
+
+// Active poop tracked on server for PvP collision
+export interface ActivePoop {
+  id: string;
+  ownerId: string;
+  position: Vector3;
+  velocity: Vector3;
+  spawnAltitude: number;
+  spawnTime: number;
+  /** Lag compensation: victims are tested at their position this many ms ago */
+  rewindMs: number;
+}
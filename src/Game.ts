@@ -50,7 +50,9 @@ import { SpeedEffects } from './ui/SpeedEffects';
 import { SCORE, FLIGHT, WORLD, ALTITUDE_WARNING, NPC_CONFIG, ECONOMY } from './utils/Constants';
 import { BuildingData } from './world/City';
 import { SANCTUARY } from './world/Sanctuary';
-import { MultiplayerManager } from './multiplayer/MultiplayerManager';
+import { MultiplayerManager, LedgerBalance } from './multiplayer/MultiplayerManager';
+import { loadJoinAffinity, takeLobbyInvite } from './multiplayer/WorldBrowser';
+import type { RatingSummary } from '../shared/RatingBands';
 import { ChatUI } from './ui/ChatUI';
 // PostProcessing removed for performance — rendering directly now
 import { CloudSystem } from './world/Clouds';
@@ -61,6 +63,12 @@ import { PoopTagMode } from './pvp/modes/PoopTagMode';
 import { RaceMode } from './pvp/modes/RaceMode';
 import { PoopCoverMode } from './pvp/modes/PoopCoverMode';
 import { HeistMode } from './pvp/modes/HeistMode';
+import { RaceRouteLibrary } from './pvp/RaceRouteLibrary';
+import { RaceRouteEditor } from './pvp/ui/RaceRouteEditor';
+import { TournamentBracketView } from './pvp/ui/TournamentBracketView';
+import { TOURNAMENT_GAME_NAMES } from '../shared/TournamentBracket';
+import { isHeistModeId } from '../shared/HeistFormats';
+import type { ChatChannelId } from '../shared/ChatChannels';
 import { MurmurationSystem } from './systems/MurmurationSystem';
 import { MvMPvPManager } from './systems/MvMPvPManager';
 import { MurmurationPanel } from './ui/MurmurationPanel';
@@ -79,6 +87,8 @@ export class Game {
   private collisionSystem: CollisionSystem;
   private scoreSystem: ScoreSystem;
   private bankingSystem: BankingSystem;
+  /** Whether the server has been told we are channelling a bank */
+  private serverBanking = false;
   private playerState: PlayerStateMachine;
   private comboSystem: ComboSystem;
   private missionSystem!: MissionSystem;
@@ -114,6 +124,9 @@ export class Game {
   readonly keyboardHelper: KeyboardHelper;
   private multiplayer: MultiplayerManager | null = null;
   private pvpManager!: PvPManager;
+  private raceRoutes!: RaceRouteLibrary;
+  private raceRouteEditor!: RaceRouteEditor;
+  private tournamentView!: TournamentBracketView;
   private murmurationSystem!: MurmurationSystem;
   private mvmManager!: MvMPvPManager;
   private murmurationPanel!: MurmurationPanel;
@@ -230,6 +243,8 @@ export class Game {
     // Systems
     this.collisionSystem = new CollisionSystem();
     this.scoreSystem = new ScoreSystem();
+    // Online, the server keeps its own (capped) count of carried coins to bank
+    this.scoreSystem.onCoinsEarned = (amount) => this.multiplayer?.sendCoinsEarned(amount);
     this.bankingSystem = new BankingSystem();
     this.playerState = new PlayerStateMachine();
     this.comboSystem = new ComboSystem();
@@ -336,8 +351,8 @@ export class Game {
 
     // Global chat UI
     this.chatUI = new ChatUI();
-    this.chatUI.setOnSend((message) => {
-      this.handleChatInput(message);
+    this.chatUI.setOnSend((message, channel) => {
+      this.handleChatInput(message, channel);
     });
 
     // Share prompt for viral sharing moments
@@ -383,11 +398,14 @@ export class Game {
     // PvP system
     this.pvpManager = new PvPManager();
     this.pvpManager.registerMode(new PoopTagMode());
-    this.pvpManager.registerMode(new RaceMode());
+    this.raceRoutes = new RaceRouteLibrary();
+    this.pvpManager.registerMode(new RaceMode(this.raceRoutes));
     this.pvpManager.registerMode(new PoopCoverMode());
-    const heistMode = new HeistMode();
-    heistMode.setCamera(this.cameraController.camera);
-    this.pvpManager.registerMode(heistMode);
+    for (const format of ['1v1', '2v2', '3v3', 'ffa'] as const) {
+      const heistMode = new HeistMode(format);
+      heistMode.setCamera(this.cameraController.camera);
+      this.pvpManager.registerMode(heistMode);
+    }
     this.pvpManager.init({
       scene: this.scene,
       bird: this.bird,
@@ -396,6 +414,22 @@ export class Game {
       flightRings: this.flightRings,
       multiplayer: this.multiplayer,
     });
+    this.pvpManager.onLobbyInvite = (lobby) => {
+      const openInvite = (window as any).__openLobbyInvite;
+      if (typeof openInvite === 'function') openInvite(lobby.code, lobby.worldId);
+    };
+
+    // Race route editor (F2): validates against the same city the server collides against
+    this.raceRouteEditor = new RaceRouteEditor(this.scene, this.raceRoutes);
+    this.raceRouteEditor.setCitySeed(this.city.seed);
+    this.raceRouteEditor.onRaceOnline = (routeCode) => this.multiplayer?.sendRaceCreate('short', routeCode);
+    this.raceRouteEditor.onRequestLeaderboard = (routeId) => this.multiplayer?.requestRaceLeaderboard(routeId);
+    this.raceRouteEditor.onRequestGhost = (routeId, rank) => this.multiplayer?.requestRaceGhost(routeId, rank);
+
+    // Tournament bracket (F3): registration and the shard's running event
+    this.tournamentView = new TournamentBracketView();
+    this.tournamentView.onRegister = () => this.multiplayer?.sendTournamentRegister();
+    this.tournamentView.onWithdraw = () => this.multiplayer?.sendTournamentWithdraw();
 
     // Heist slam VFX/audio listener
     this.pvpManager.eventBus.on('score-update', (data: any) => {
@@ -483,15 +517,36 @@ export class Game {
           if (message === 'World mismatch') {
             this.chatUI.addMessage(
               'System',
-              'World mismatch: VITE_WORLD_ID (client) must exactly match WORLD_ID (server).',
+              'World not found on this server. Pick another world from the main menu.',
               true,
             );
             return;
           }
+          if (message === 'World full') {
+            this.chatUI.addMessage('System', 'That world is full. Pick another world or choose Auto.', true);
+            return;
+          }
           this.chatUI.addMessage('System', `Server error: ${message}`, true);
         },
+        onWorldSeed: (seed) => {
+          this.applyWorldSeed(seed);
+        },
+        onWorldJoined: (_worldId, worldName) => {
+          this.chatUI.addMessage('System', `Joined world ${worldName}`, true);
+        },
         onChatMessage: (data) => {
-          this.chatUI.addMessage(data.username, data.message);
+          this.chatUI.addChatMessage(data, data.playerId === this.multiplayer?.getPlayerId());
+        },
+        onPlayerBanked: (data) => {
+          if (data.playerId === this.multiplayer?.getPlayerId()) {
+            this.onServerBanked(data.coins, data.xp);
+          }
+        },
+        onLedgerBalance: (data) => {
+          this.onLedgerBalance(data.balance, data.reason);
+        },
+        onShopPurchaseResult: (data) => {
+          this.onShopPurchaseResult(data.itemId, data.ok, data.error);
         },
         onPvPModeStart: (data) => {
           this.pvpManager.onServerModeStart(data);
@@ -511,6 +566,70 @@ export class Game {
         onPvPStatueHit: (data) => {
           this.pvpManager.onServerStatueHit(data);
         },
+        onPvPLobby: (lobby) => {
+          this.pvpManager.onServerLobby(lobby);
+        },
+        onRatingUpdate: (data) => {
+          this.pvpManager.onServerRatingUpdate(data);
+        },
+        onHeistMatchStart: (data) => {
+          this.pvpManager.onServerHeistMatchStart(data);
+        },
+        onHeistRoundStart: (data) => this.pvpManager.onServerHeistEvent('heist-round-start', data),
+        onHeistState: (data) => this.pvpManager.onServerHeistEvent('heist-state', data),
+        onHeistTrophyGrabbed: (data) => this.pvpManager.onServerHeistEvent('heist-trophy-grabbed', data),
+        onHeistSlam: (data) => this.pvpManager.onServerHeistEvent('heist-slam', data),
+        onHeistPass: (data) => this.pvpManager.onServerHeistEvent('heist-pass', data),
+        onHeistScore: (data) => this.pvpManager.onServerHeistEvent('heist-score', data),
+        onHeistTrophySettled: (data) => this.pvpManager.onServerHeistEvent('heist-trophy-settled', data),
+        onHeistTrophyReset: (data) => this.pvpManager.onServerHeistEvent('heist-trophy-reset', data),
+        onHeistOvertime: (data) => this.pvpManager.onServerHeistEvent('heist-overtime', data),
+        onHeistMatchEnd: (data) => this.pvpManager.onServerHeistEvent('heist-match-end', data),
+        onRaceLeaderboard: (data) => {
+          this.raceRouteEditor.showLeaderboard(data.routeId, data.entries);
+        },
+        onRaceGhost: (data) => {
+          this.raceRouteEditor.chooseGhost(data.ghost);
+        },
+        onRaceRunRecorded: (data) => {
+          const { ghost, rank } = data;
+          const newBest = this.raceRoutes.recordTime(ghost.routeId, ghost.time, ghost);
+          if (rank) {
+            this.chatUI.addMessage('System', `${ghost.routeName}: #${rank} on the leaderboard (${ghost.time.toFixed(1)}s)`, true);
+          } else if (newBest) {
+            this.chatUI.addMessage('System', `${ghost.routeName}: new personal best (${ghost.time.toFixed(1)}s)`, true);
+          }
+        },
+        onTournamentUpdate: (tournament) => {
+          const previous = this.tournamentView.current;
+          this.tournamentView.setLocalPlayerId(this.multiplayer?.getPlayerId() ?? null);
+          this.tournamentView.setTournament(tournament);
+          if (!tournament || previous?.id === tournament.id && previous.phase === tournament.phase) return;
+          if (tournament.phase === 'registration') {
+            this.chatUI.addMessage('System', `Tournament "${tournament.name}" (${TOURNAMENT_GAME_NAMES[tournament.game]}) is open for registration. Press F3 to sign up.`, true);
+          } else if (tournament.phase === 'complete' && tournament.winnerId) {
+            const winner = tournament.entrants.find((e) => e.id === tournament.winnerId)?.username ?? 'Someone';
+            this.chatUI.addMessage('System', `${winner} won the tournament "${tournament.name}"!`, true);
+          } else if (tournament.phase === 'cancelled') {
+            this.chatUI.addMessage('System', `Tournament "${tournament.name}" was cancelled`, true);
+          }
+        },
+        onTournamentMatch: (data) => {
+          this.chatUI.addMessage('System', `Tournament round ${data.round}: you play ${data.opponent} in ${TOURNAMENT_GAME_NAMES[data.game]} now`, true);
+        },
+        onMvMMatchFound: (data) => {
+          this.mvmManager.handleMatchFound(data);
+        },
+        onMvMRoundUpdate: (data) => {
+          this.mvmManager.handleRoundUpdate(data);
+        },
+        onMvMMatchEnd: (data) => {
+          this.mvmManager.handleMatchEnd(data);
+          const mvp = data.mvp;
+          if (mvp) {
+            this.chatUI.addMessage('System', `MvM MVP: ${mvp.username} (${mvp.points} pts)`, true);
+          }
+        },
         onLassoAttach: (data) => {
           this.horseLasso.onServerAttach(data, this.multiplayer?.getPlayerId() ?? null);
         },
@@ -556,9 +675,15 @@ export class Game {
           : ('guest_' + Math.random().toString(36).substring(2, 11)));
       const playerId = `${baseId}_${sessionId}`;
 
+      // Murmuration hints let the server seat us in the same shard as our flock
+      this.multiplayer.setJoinAffinity(await loadJoinAffinity());
+      // An invite link also picks the world, so read it before joining
+      const lobbyInvite = takeLobbyInvite();
+
       await this.multiplayer.connect(playerId, safeUsername);
       const canonicalPlayerId = this.multiplayer.getPlayerId() || playerId;
       this.pvpManager.setLocalPlayer(canonicalPlayerId, safeUsername);
+      if (lobbyInvite) this.pvpManager.joinPrivateLobby(lobbyInvite);
       console.log('Multiplayer initialized as:', safeUsername);
     } catch (error) {
       console.error('Failed to initialize multiplayer:', error);
@@ -658,8 +783,21 @@ export class Game {
     if (this.pvpManager.isInRound() && this.pvpManager.getPhase() === 'active') {
       if (this.input.wasPressed('Digit5')) this.pvpManager.useLocalBurst();
       if (this.input.wasPressed('Digit6')) this.pvpManager.useLocalMine();
+
+      // Heist team modes: 7 = pass the trophy to the nearest teammate
+      const activeMode = this.pvpManager.getCurrentMode();
+      if (this.input.wasPressed('Digit7') && activeMode instanceof HeistMode) activeMode.passTrophy();
     }
 
+    // Race route editor: 8 = drop a checkpoint at the bird, 9 = undo, [ ] = ring radius
+    if (this.raceRouteEditor.isVisible) {
+      if (this.input.wasPressed('Digit8')) this.raceRouteEditor.dropCheckpoint(this.bird.controller.position);
+      if (this.input.wasPressed('Digit9')) this.raceRouteEditor.removeLastCheckpoint();
+      if (this.input.wasPressed('BracketLeft')) this.raceRouteEditor.adjustRadius(-1);
+      if (this.input.wasPressed('BracketRight')) this.raceRouteEditor.adjustRadius(1);
+    }
+    this.raceRouteEditor.update(dt, this.bird.controller.position);
+
     // State machine tick
     this.playerState.update(dt);
 
@@ -792,7 +930,7 @@ export class Game {
         this.coinPopups.spawn(this._tmpVec3A, scatterCoins, 1.0);
       }
 
-      this.scoreSystem.coins += scatterCoins;
+      this.scoreSystem.earn(scatterCoins);
 
       // Swoosh audio — quick ascending tone
       this.audio.playScatter(speed, count);
@@ -879,64 +1017,18 @@ export class Game {
       this.bankingSystem.update(dt, this.bird, this.sanctuary, this.scoreSystem, this.playerState);
 
       if (this.bankingSystem.isComplete && this.playerState.state === 'BANKING') {
-        const amount = this.scoreSystem.bank();
-        if (amount > 0) {
-          const xpGained = Math.floor(amount / 5);
-          const levelsGained = this.progression.addXP(xpGained);
-          this.progression.recordBank(amount);
-          this.missionSystem.recordBank(amount);
-          this.hud.showBankMessage(amount, xpGained);
-          this.audio.playBankingSuccess();
-          this.vfx.spawnBankingBurst(this.bird.controller.position, amount);
-          this.tutorial.hasBanked = true;
-
-          // Award feathers for big banks (500+)
-          if (amount >= ECONOMY.MEGA_BANK_THRESHOLD) {
-            this.progression.feathers += ECONOMY.FEATHERS_PER_MEGA_BANK;
-            this.progression.goldenEggs += ECONOMY.GOLDEN_EGGS_PER_MEGA_BANK;
-          } else if (amount >= ECONOMY.BIG_BANK_THRESHOLD) {
-            this.progression.feathers += ECONOMY.FEATHERS_PER_BIG_BANK;
-          }
-
-          // Murmuration Formation XP: 10% of banked coins
-          this.murmurationSystem.onCoinsBanked(amount);
-
-          if (levelsGained > 0) {
-            this.hud.showLevelUp(this.progression.level);
-            this.audio.playLevelUp();
-            if (this.progression.level >= 5) {
-              this.sharePrompt.prompt({ type: 'level', level: this.progression.level });
-            }
-
-            // Murmuration Formation XP: +200 per level-up
-            this.murmurationSystem.onLevelUp();
-          }
-
-          // Share prompt for significant banks (50+ coins)
-          if (amount >= 50) {
-            this.sharePrompt.prompt({ type: 'banking', amount });
-          }
-
-          // Check challenges
-          for (const c of [...this.progression.dailyChallenges, ...this.progression.weeklyChallenges]) {
-            if (c.completed) {
-              this.hud.showChallengeComplete(c.description);
-            }
-          }
-
-          // Achievement checks after banking
-          this.checkAchievements();
-
-          // Save game state and leaderbird run after every bank.
-          void (async () => {
-            await this.saveState();
-            this.saveLeaderBirdRun();
-          })();
+        if (this.serverBanking && this.multiplayer?.isConnected()) {
+          // The server banks its own count of our coins; player_banked and ledger_balance bring the result
+          this.multiplayer.sendBankComplete();
+          this.serverBanking = false;
+        } else {
+          this.bankLocally();
         }
         this.playerState.completeBanking();
         this.bankingSystem.reset();
       }
     }
+    this.syncServerBanking();
 
     // Grounding check (with altitude warning + grace period)
     this.checkGrounding(dt);
@@ -1039,10 +1131,10 @@ export class Game {
       }
 
       // Heist: feed flight speed and update minimap, manage player state
-      if (roundState.mode === 'heist' && roundState.phase === 'active') {
+      if (isHeistModeId(roundState.mode) && roundState.phase === 'active') {
         const activeMode = this.pvpManager.getCurrentMode();
-        if (activeMode && 'setLocalFlightSpeed' in activeMode) {
-          (activeMode as HeistMode).setLocalFlightSpeed(this.bird.controller.forwardSpeed);
+        if (activeMode instanceof HeistMode) {
+          activeMode.setLocalFlightSpeed(this.bird.controller.forwardSpeed);
         }
 
         // Enter HEIST player state (disables pooping, abilities, NPC interaction)
@@ -1054,10 +1146,7 @@ export class Game {
         const modeData = roundState.modeData;
         if (modeData) {
           this.minimap.setHeistActive(true, localPvPPlayerId);
-          this.minimap.setHeistTrophy(
-            modeData.trophyPosition ? { x: modeData.trophyPosition.x, z: modeData.trophyPosition.z } : null,
-            modeData.carrierId,
-          );
+          this.minimap.setHeistTrophies(modeData.trophies ?? []);
           if (modeData.pedestals) {
             this.minimap.setHeistPedestals(modeData.pedestals);
           }
@@ -1262,7 +1351,7 @@ export class Game {
     }
   }
 
-  private handleChatInput(message: string): void {
+  private handleChatInput(message: string, channel: ChatChannelId): void {
     const trimmed = message.trim();
     const normalized = trimmed.toLowerCase();
 
@@ -1272,7 +1361,7 @@ export class Game {
       return;
     }
 
-    this.multiplayer?.sendChat(message);
+    this.multiplayer?.sendChat(message, channel);
   }
 
   private readTypedLetters(): string[] {
@@ -1327,6 +1416,8 @@ export class Game {
       this.murmurationPanel.isVisible ? this.murmurationPanel.hide() : this.murmurationPanel.show();
     }
     if (this.input.wasPressed('F1')) this.keyboardHelper.toggle();
+    if (this.input.wasPressed('F2') && !this.paused && !this.settingsMenu.isVisible && !this.shopMenu.visible) this.raceRouteEditor.toggle();
+    if (this.input.wasPressed('F3') && !this.paused && !this.settingsMenu.isVisible && !this.shopMenu.visible) this.tournamentView.toggle();
 
     return this.paused || this.shopMenu.visible || this.chatUI.isActive() || this.murmurationPanel.isVisible;
   }
@@ -1522,7 +1613,7 @@ export class Game {
   private updateWorldSystems(dt: number): void {
     this.flightRings.update(dt);
     this.flightRings.checkCollision(this.bird.controller.position, (reward) => {
-      this.scoreSystem.coins += reward;
+      this.scoreSystem.earn(reward);
       this.scoreSystem.worms += ECONOMY.WORMS_PER_RING_CHAIN;
       this.coinPopups.spawn(this.bird.controller.position, reward, 1.0);
       this.audio.playHit();
@@ -1531,14 +1622,14 @@ export class Game {
 
     this.collectibles.update(dt, this.bird.controller.position);
     this.collectibles.checkFeatherCollection(this.bird.controller.position, (coins, feathers) => {
-      this.scoreSystem.coins += coins;
+      this.scoreSystem.earn(coins);
       this.progression.feathers += feathers;
       this.coinPopups.spawn(this.bird.controller.position, coins, 1.5);
       this.audio.playHit();
       console.log(`✨ Golden Feather! +${coins} coins, +${feathers} feathers`);
     });
     this.collectibles.checkBalloonCollection(this.bird.controller.position, (coins) => {
-      this.scoreSystem.coins += coins;
+      this.scoreSystem.earn(coins);
       this.scoreSystem.worms += ECONOMY.WORMS_PER_BALLOON;
       this.coinPopups.spawn(this.bird.controller.position, coins, 1.0);
       this.audio.playHit();
@@ -1822,6 +1913,24 @@ export class Game {
   }
 
   /** Collect building rooftops at city edges for safe respawn. */
+  /**
+   * Rebuild seeded world content when the server's world seed differs from
+   * the one we booted with, so buildings match what the server collides against.
+   */
+  private applyWorldSeed(seed: number): void {
+    if (seed === this.city.seed) return;
+
+    console.log(`World seed ${seed} from server — rebuilding city`);
+    this.city.rebuild(seed);
+    this.spawnPerches = [];
+    this.computeSpawnPerches(this.city.buildings);
+    this.npcManager.reseed(seed);
+    this.npcManager.setBuildings(this.city.buildings);
+    this.raceRouteEditor.setCitySeed(seed);
+    this.flightRings.regenerate(seed);
+    this.collectibles.regenerate(this.city.buildings, seed);
+  }
+
   private computeSpawnPerches(buildings: BuildingData[]): void {
     const edgeMargin = 30;
     const halfSize = WORLD.CITY_SIZE / 2;
@@ -2031,34 +2140,34 @@ export class Game {
     this.horseLasso.forceClearRemote();
   }
 
+  /** Skill ratings reported by the server this session (empty offline) */
+  getRatings(): RatingSummary[] {
+    return this.multiplayer?.getRatings() ?? [];
+  }
+
   private async handlePurchase(itemId: string): Promise<void> {
     const item = this.cosmetics.items.find(i => i.id === itemId);
     if (!item) return;
 
     // Import services dynamically
     const { getCurrentUser } = await import('./services/SupabaseClient');
-    const { purchaseWithCoins, purchaseWithFeathers, purchaseWithWorms, purchaseWithGoldenEggs } = await import('./services/ShopService');
+    const { purchaseWithWorms, purchaseWithGoldenEggs } = await import('./services/ShopService');
     const { addCosmeticToInventory } = await import('./services/PersistenceService');
 
     const user = await getCurrentUser();
 
-    if (user) {
-      // Authenticated: Use Supabase - dispatch to the correct purchase function
-      let result;
-      switch (item.currency) {
-        case 'coins':
-          result = await purchaseWithCoins(user.id, itemId, item.category, item.cost);
-          break;
-        case 'feathers':
-          result = await purchaseWithFeathers(user.id, itemId, item.category, item.cost);
-          break;
-        case 'worms':
-          result = await purchaseWithWorms(user.id, itemId, item.category, item.cost);
-          break;
-        case 'golden_eggs':
-          result = await purchaseWithGoldenEggs(user.id, itemId, item.category, item.cost);
-          break;
+    if (user && (item.currency === 'coins' || item.currency === 'feathers')) {
+      // Coins and feathers live in the server's ledger: it charges the
+      // catalogue price and answers via onShopPurchaseResult
+      if (!this.multiplayer?.sendShopPurchase(itemId)) {
+        console.error('Purchase failed: not connected to the game server');
+        this.hud.showBankMessage(0, 0); // Show error notification
       }
+    } else if (user) {
+      // Authenticated: Use Supabase - dispatch to the correct purchase function
+      const result = item.currency === 'worms'
+        ? await purchaseWithWorms(user.id, itemId, item.category, item.cost)
+        : await purchaseWithGoldenEggs(user.id, itemId, item.category, item.cost);
 
       if (result.success) {
         item.owned = true;
@@ -2066,11 +2175,7 @@ export class Game {
         this.shopMenu.refresh();
 
         // Update local currency displays
-        if (item.currency === 'coins' && result.updated_coins !== undefined) {
-          this.scoreSystem.bankedCoins = result.updated_coins;
-        } else if (item.currency === 'feathers' && result.updated_feathers !== undefined) {
-          this.progression.feathers = result.updated_feathers;
-        } else if (item.currency === 'worms' && result.updated_worms !== undefined) {
+        if (item.currency === 'worms' && result.updated_worms !== undefined) {
           this.progression.worms = result.updated_worms;
         } else if (item.currency === 'golden_eggs' && result.updated_golden_eggs !== undefined) {
           this.progression.goldenEggs = result.updated_golden_eggs;
@@ -2123,6 +2228,20 @@ export class Game {
     }
   }
 
+  /** The server charged (or refused) a coin/feather purchase sent by handlePurchase */
+  private onShopPurchaseResult(itemId: string, ok: boolean, error?: string): void {
+    if (!ok) {
+      console.error('Purchase failed:', error);
+      this.hud.showBankMessage(0, 0); // Show error notification
+      return;
+    }
+
+    const item = this.cosmetics.items.find(i => i.id === itemId);
+    if (item) item.owned = true;
+    this.audio.playBankingSuccess();
+    this.shopMenu.refresh();
+  }
+
   private async handleEquip(itemId: string): Promise<void> {
     const success = this.cosmetics.equip(itemId);
     if (success) {
@@ -2175,6 +2294,8 @@ export class Game {
 
     // Dispose PvP system
     this.pvpManager.dispose();
+    this.raceRouteEditor.dispose();
+    this.tournamentView.dispose();
 
     // Destroy chat UI
     this.chatUI.destroy();
@@ -2344,6 +2465,103 @@ export class Game {
   }
 
   /** Save a leaderbird run entry after banking */
+  /** Mirror the local BANKING state to the server, which checks the channel time */
+  private syncServerBanking(): void {
+    const banking = this.playerState.state === 'BANKING';
+    if (banking === this.serverBanking) return;
+    if (!this.multiplayer?.isConnected()) {
+      this.serverBanking = false;
+      return;
+    }
+    this.serverBanking = banking;
+    if (banking) {
+      this.multiplayer.sendBanking();
+    } else {
+      this.multiplayer.sendBankCancel();
+    }
+  }
+
+  /** Offline banking: nothing to persist to, so coins, XP and feathers are credited here */
+  private bankLocally(): void {
+    const amount = this.scoreSystem.bank();
+    if (amount <= 0) return;
+
+    const xpGained = Math.floor(amount / 5);
+    const levelsGained = this.progression.addXP(xpGained);
+
+    // Award feathers for big banks (500+)
+    if (amount >= ECONOMY.MEGA_BANK_THRESHOLD) {
+      this.progression.feathers += ECONOMY.FEATHERS_PER_MEGA_BANK;
+    } else if (amount >= ECONOMY.BIG_BANK_THRESHOLD) {
+      this.progression.feathers += ECONOMY.FEATHERS_PER_BIG_BANK;
+    }
+
+    this.celebrateBank(amount, xpGained);
+    if (levelsGained > 0) this.celebrateLevelUp();
+  }
+
+  /** The server banked our carried coins; the new balance follows in ledger_balance */
+  private onServerBanked(amount: number, xpGained: number): void {
+    this.scoreSystem.bank(false);
+    if (amount > 0) this.celebrateBank(amount, xpGained);
+  }
+
+  /** Banked coins, XP and feathers as recorded by the server's economy ledger */
+  private onLedgerBalance(balance: LedgerBalance, reason: string | null): void {
+    this.scoreSystem.bankedCoins = balance.coins;
+    const levelsGained = this.progression.applyLedgerBalance(balance.xp, balance.feathers);
+    // The balance sent on join is a load, not a level-up
+    if (reason !== null && levelsGained > 0) this.celebrateLevelUp();
+  }
+
+  private celebrateBank(amount: number, xpGained: number): void {
+    this.progression.recordBank(amount);
+    this.missionSystem.recordBank(amount);
+    this.hud.showBankMessage(amount, xpGained);
+    this.audio.playBankingSuccess();
+    this.vfx.spawnBankingBurst(this.bird.controller.position, amount);
+    this.tutorial.hasBanked = true;
+
+    if (amount >= ECONOMY.MEGA_BANK_THRESHOLD) {
+      this.progression.goldenEggs += ECONOMY.GOLDEN_EGGS_PER_MEGA_BANK;
+    }
+
+    // Murmuration Formation XP: 10% of banked coins
+    this.murmurationSystem.onCoinsBanked(amount);
+
+    // Share prompt for significant banks (50+ coins)
+    if (amount >= 50) {
+      this.sharePrompt.prompt({ type: 'banking', amount });
+    }
+
+    // Check challenges
+    for (const c of [...this.progression.dailyChallenges, ...this.progression.weeklyChallenges]) {
+      if (c.completed) {
+        this.hud.showChallengeComplete(c.description);
+      }
+    }
+
+    // Achievement checks after banking
+    this.checkAchievements();
+
+    // Save game state and leaderbird run after every bank.
+    void (async () => {
+      await this.saveState();
+      this.saveLeaderBirdRun();
+    })();
+  }
+
+  private celebrateLevelUp(): void {
+    this.hud.showLevelUp(this.progression.level);
+    this.audio.playLevelUp();
+    if (this.progression.level >= 5) {
+      this.sharePrompt.prompt({ type: 'level', level: this.progression.level });
+    }
+
+    // Murmuration Formation XP: +200 per level-up
+    this.murmurationSystem.onLevelUp();
+  }
+
   private saveLeaderBirdRun(): void {
     const getLeaderBird = (window as any).__getMenuLeaderBird;
     if (typeof getLeaderBird === 'function') {
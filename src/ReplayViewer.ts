@@ -0,0 +1,224 @@
+/**
+ * Replay Viewer
+ * Plays a recorded shard session (ReplayLog) without a server: every
+ * recorded bird is driven through MultiplayerManager/RemotePlayer exactly as
+ * live snapshots would be, and the viewer flies a free camera over the city
+ * built from the recorded world seed.
+ */
+
+import * as THREE from 'three';
+import { createRenderer, createScene, setupLighting, createSky } from './core/GameInitializer';
+import { GameLoop } from './core/GameLoop';
+import { InputManager } from './core/InputManager';
+import { FreeCamera } from './camera/FreeCamera';
+import { createGround } from './world/Ground';
+import { City } from './world/City';
+import { Ocean } from './world/Ocean';
+import { CloudSystem } from './world/Clouds';
+import { Bird } from './entities/Bird';
+import { MultiplayerManager } from './multiplayer/MultiplayerManager';
+import { ReplayLog } from './multiplayer/ReplayLog';
+import { ReplayControls } from './ui/ReplayControls';
+import type { FilteredWorldState, GameEvent, ServerMessage } from '../shared/types';
+
+export class ReplayViewer {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private input: InputManager;
+  private freeCamera: FreeCamera;
+  private ocean: Ocean;
+  private clouds: CloudSystem;
+  private multiplayer: MultiplayerManager;
+  private controls: ReplayControls;
+  private loop: GameLoop;
+
+  private log: ReplayLog;
+  /** Playback position as server time (ms since epoch) */
+  private playbackTime: number;
+  private frameIndex = -1;
+  private playing = true;
+  private speed = 1;
+  private elapsed = 0;
+  private framedPlayers = false;
+  private onExit: (() => void) | null = null;
+
+  constructor(log: ReplayLog) {
+    this.log = log;
+    this.playbackTime = log.startTime;
+
+    this.renderer = createRenderer();
+    this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    this.renderer.toneMappingExposure = 1.1;
+    this.scene = createScene();
+    setupLighting(this.scene);
+    createSky(this.scene);
+    this.scene.add(createGround());
+
+    const city = new City(log.header.worldSeed);
+    this.scene.add(city.group);
+    this.ocean = new Ocean();
+    this.scene.add(this.ocean.mesh);
+    this.clouds = new CloudSystem();
+    this.scene.add(this.clouds.group);
+
+    this.input = new InputManager();
+    this.freeCamera = new FreeCamera(window.innerWidth / window.innerHeight);
+
+    // MultiplayerManager needs a local bird; in replay mode it is never shown or driven
+    this.multiplayer = new MultiplayerManager(this.scene, new Bird(), '', this.freeCamera.camera);
+    this.multiplayer.startReplay();
+
+    this.controls = new ReplayControls();
+    this.controls.setTitle(
+      `REPLAY · ${log.header.shardId} · ${new Date(log.header.startedAt).toLocaleString()}`,
+    );
+    this.controls.setDuration(log.endTime - log.startTime);
+    this.controls.setCallbacks(
+      () => this.togglePlay(),
+      (offsetMs) => this.seek(log.startTime + offsetMs),
+      (speed) => { this.speed = speed; },
+      () => this.exit(),
+    );
+    this.controls.setPlaying(this.playing);
+
+    this.loop = new GameLoop(
+      (dt) => this.update(dt),
+      () => this.renderer.render(this.scene, this.freeCamera.camera),
+      () => this.input.endFrame(),
+    );
+    window.addEventListener('resize', this.onResize);
+  }
+
+  setOnExit(cb: () => void): void {
+    this.onExit = cb;
+  }
+
+  start(): void {
+    this.seek(this.log.startTime);
+    this.loop.start();
+  }
+
+  dispose(): void {
+    this.loop.stop();
+    window.removeEventListener('resize', this.onResize);
+    if (document.pointerLockElement) document.exitPointerLock();
+    this.multiplayer.resetReplay();
+    this.controls.dispose();
+    this.input.dispose();
+    this.renderer.dispose();
+    this.renderer.domElement.remove();
+  }
+
+  private update(dt: number): void {
+    this.elapsed += dt;
+
+    if (this.input.wasPressed('KeyP')) this.togglePlay();
+
+    if (this.playing) {
+      this.playbackTime = Math.min(this.playbackTime + dt * 1000 * this.speed, this.log.endTime);
+      this.advanceTo(this.log.frameIndexAt(this.playbackTime));
+      if (this.playbackTime >= this.log.endTime) {
+        this.playing = false;
+        this.controls.setPlaying(false);
+      }
+    }
+
+    this.freeCamera.update(dt, this.input);
+    this.multiplayer.update(dt);
+    this.ocean.update(this.elapsed);
+    this.clouds.update(dt, this.freeCamera.camera.position);
+    this.controls.setPosition(this.playbackTime - this.log.startTime);
+  }
+
+  /** Step forward frame by frame, surfacing chat, events and messages passed on the way */
+  private advanceTo(index: number): void {
+    while (this.frameIndex < index) {
+      const previousTick = this.frameIndex >= 0 ? this.log.frameTick(this.frameIndex) : -1;
+      this.frameIndex++;
+      const state = this.log.stateAt(this.frameIndex);
+      if (!state) continue;
+      this.applyState(state);
+      this.showEvents(state.events);
+      const tick = this.log.frameTick(this.frameIndex);
+      for (const entry of this.log.chatsBetween(previousTick, tick)) {
+        this.controls.addFeedLine(`${entry.chat.username}: ${entry.chat.message}`);
+      }
+      for (const entry of this.log.messagesBetween(previousTick, tick)) {
+        this.showMessage(entry.message);
+      }
+    }
+  }
+
+  /** Jump anywhere on the timeline: rebuild the birds from the decoded target frame */
+  private seek(time: number): void {
+    this.playbackTime = Math.max(this.log.startTime, Math.min(time, this.log.endTime));
+    this.frameIndex = this.log.frameIndexAt(this.playbackTime);
+    this.multiplayer.resetReplay();
+    this.controls.clearFeed();
+    const state = this.log.stateAt(this.frameIndex);
+    if (state) this.applyState(state);
+  }
+
+  private applyState(state: FilteredWorldState): void {
+    this.multiplayer.applyReplayState(state);
+    if (!this.framedPlayers && state.players.length > 0) {
+      // Start the camera looking at the first recorded bird
+      const { x, y, z } = state.players[0].position;
+      this.freeCamera.lookAt(new THREE.Vector3(x, y, z));
+      this.framedPlayers = true;
+    }
+  }
+
+  private togglePlay(): void {
+    if (!this.playing && this.playbackTime >= this.log.endTime) {
+      this.seek(this.log.startTime);
+    }
+    this.playing = !this.playing;
+    this.controls.setPlaying(this.playing);
+  }
+
+  private showEvents(events: GameEvent[]): void {
+    for (const event of events) {
+      if (event.type === 'pvp_hit') {
+        const { attackerName, victimName, stolenCoins } = event.data;
+        this.controls.addFeedLine(`${attackerName} hit ${victimName} (+${stolenCoins} coins)`, '#ffb347');
+      } else if (event.type === 'race_finished') {
+        this.controls.addFeedLine('Race finished', '#7fd7ff');
+      }
+    }
+  }
+
+  private showMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case 'pvp-mode-start':
+        this.controls.addFeedLine(`${message.data.mode} round started`, '#9cff9c');
+        break;
+      case 'pvp-mode-end': {
+        const winner = message.data.results?.standings?.[0];
+        this.controls.addFeedLine(
+          winner ? `${message.data.mode} round won by ${winner.username}` : `${message.data.mode} round ended`,
+          '#9cff9c',
+        );
+        break;
+      }
+      case 'heist-score':
+        this.controls.addFeedLine('Heist: trophy scored', '#ffd700');
+        break;
+      case 'heist-match-end':
+        this.controls.addFeedLine('Heist match ended', '#ffd700');
+        break;
+      default:
+        break;
+    }
+  }
+
+  private exit(): void {
+    this.dispose();
+    this.onExit?.();
+  }
+
+  private onResize = (): void => {
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.freeCamera.setAspect(window.innerWidth / window.innerHeight);
+  };
+}
@@ -0,0 +1,285 @@
+/**
+ * Spectator Viewer
+ * Watches a live PvP round, heist or MvM match without joining the world:
+ * the server streams the match's shard around whichever participant the
+ * camera follows, plus a scoreboard (and, for heists, trophies and bots that
+ * are not part of world state). There is no local bird; the chase camera
+ * cycles between participants or sticks to the trophy carrier.
+ */
+
+import * as THREE from 'three';
+import { createRenderer, createScene, setupLighting, createSky } from './core/GameInitializer';
+import { GameLoop } from './core/GameLoop';
+import { InputManager } from './core/InputManager';
+import { SpectatorCamera } from './camera/SpectatorCamera';
+import { createGround } from './world/Ground';
+import { City } from './world/City';
+import { Ocean } from './world/Ocean';
+import { CloudSystem } from './world/Clouds';
+import { Bird } from './entities/Bird';
+import { MultiplayerManager } from './multiplayer/MultiplayerManager';
+import { HeistTrophy } from './pvp/modes/heist/HeistTrophy';
+import { SpectatorHUD } from './ui/SpectatorHUD';
+import type { SpectateTarget, SpectatedMatchState, SpectatedTrophy } from '../shared/types';
+
+/** How quickly loose trophies glide to the server position between 4 Hz updates */
+const TROPHY_FOLLOW_SHARPNESS = 6;
+
+interface TrophyView {
+  trophy: HeistTrophy;
+  target: THREE.Vector3;
+  carrierId: string | null;
+}
+
+export class SpectatorViewer {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private input: InputManager;
+  private spectatorCamera: SpectatorCamera;
+  private ocean: Ocean;
+  private clouds: CloudSystem;
+  private city: City | null = null;
+  private multiplayer: MultiplayerManager;
+  private hud: SpectatorHUD;
+  private loop: GameLoop;
+
+  private target: SpectateTarget;
+  private match: SpectatedMatchState | null = null;
+  private trophies = new Map<number, TrophyView>();
+  /** Heist bots are not in world state; their yaw is derived from movement */
+  private botYaw = new Map<string, number>();
+  private followId: string | null = null;
+  /** Heist only: keep the camera on whoever holds a trophy */
+  private followCarrier = true;
+  private elapsed = 0;
+  private disposed = false;
+  private onExit: (() => void) | null = null;
+
+  private _focus = new THREE.Vector3();
+
+  constructor(wsUrl: string, target: SpectateTarget) {
+    this.target = target;
+
+    this.renderer = createRenderer();
+    this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    this.renderer.toneMappingExposure = 1.1;
+    this.scene = createScene();
+    setupLighting(this.scene);
+    createSky(this.scene);
+    this.scene.add(createGround());
+
+    this.ocean = new Ocean();
+    this.scene.add(this.ocean.mesh);
+    this.clouds = new CloudSystem();
+    this.scene.add(this.clouds.group);
+
+    this.input = new InputManager();
+    this.spectatorCamera = new SpectatorCamera(window.innerWidth / window.innerHeight);
+
+    // MultiplayerManager needs a local bird; a spectator never shows or drives it
+    this.multiplayer = new MultiplayerManager(this.scene, new Bird(), wsUrl, this.spectatorCamera.camera);
+    this.multiplayer.setEventCallbacks({
+      onWorldSeed: (seed) => this.buildCity(seed),
+      onWorldJoined: (_worldId, worldName) => this.hud.setTitle(`SPECTATING · ${target.kind.toUpperCase()} · ${worldName}`),
+      onSpectateStart: (match) => this.applyMatch(match),
+      onSpectateState: (match) => this.applyMatch(match),
+      onSpectateEnded: () => {
+        this.hud.addFeedLine('Match over', '#9cff9c');
+        this.multiplayer.disconnect();
+      },
+      onConnectionStatus: (status) => {
+        if (status === 'disconnected' && this.match) this.hud.addFeedLine('Disconnected from server', '#ff8080');
+      },
+      onPvPModeEnd: (data) => {
+        const winner = data.results?.standings?.[0];
+        this.hud.addFeedLine(winner ? `${data.mode} round won by ${winner.username}` : `${data.mode} round ended`, '#9cff9c');
+      },
+      onHeistScore: (data) => this.hud.addFeedLine(`${this.nameOf(data.playerId)} scored a trophy`, '#ffd700'),
+      onHeistSlam: (data) => this.hud.addFeedLine(`${this.nameOf(data.attackerId)} slammed ${this.nameOf(data.carrierId)}`, '#ffb347'),
+      onHeistMatchEnd: () => this.hud.addFeedLine('Heist match ended', '#ffd700'),
+    });
+
+    this.hud = new SpectatorHUD();
+    this.hud.setTitle(`SPECTATING · ${target.kind.toUpperCase()}`);
+    this.hud.setFollowing(null, false);
+    this.hud.setCallbacks(
+      (step) => this.cycle(step),
+      () => this.toggleFollowCarrier(),
+      () => this.exit(),
+    );
+
+    this.loop = new GameLoop(
+      (dt) => this.update(dt),
+      () => this.renderer.render(this.scene, this.spectatorCamera.camera),
+      () => this.input.endFrame(),
+    );
+    window.addEventListener('resize', this.onResize);
+  }
+
+  setOnExit(cb: () => void): void {
+    this.onExit = cb;
+  }
+
+  /** Connect and start rendering; rejects (after cleaning up) when the match cannot be watched */
+  async start(): Promise<void> {
+    try {
+      await this.multiplayer.spectate(this.target);
+    } catch (error) {
+      this.dispose();
+      throw error;
+    }
+    this.loop.start();
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.loop.stop();
+    window.removeEventListener('resize', this.onResize);
+    this.multiplayer.disconnect();
+    for (const view of this.trophies.values()) view.trophy.dispose();
+    this.trophies.clear();
+    this.hud.dispose();
+    this.input.dispose();
+    this.renderer.dispose();
+    this.renderer.domElement.remove();
+  }
+
+  private buildCity(seed: number): void {
+    if (this.city) return;
+    this.city = new City(seed);
+    this.scene.add(this.city.group);
+  }
+
+  private update(dt: number): void {
+    this.elapsed += dt;
+
+    if (this.input.wasPressed('Escape')) {
+      this.exit();
+      return;
+    }
+    if (this.input.wasPressed('ArrowRight')) this.cycle(1);
+    if (this.input.wasPressed('ArrowLeft')) this.cycle(-1);
+    if (this.input.wasPressed('KeyC')) this.toggleFollowCarrier();
+
+    this.multiplayer.update(dt);
+    this.updateTrophies(dt);
+
+    const focus = this.followId ? this.positionOf(this.followId) : null;
+    this.spectatorCamera.update(dt, focus, this.followId ? this.yawOf(this.followId) : 0);
+    this.ocean.update(this.elapsed);
+    this.clouds.update(dt, this.spectatorCamera.camera.position);
+  }
+
+  private applyMatch(match: SpectatedMatchState): void {
+    const previousBots = this.match?.botPositions ?? {};
+    for (const [id, position] of Object.entries(match.botPositions ?? {})) {
+      const before = previousBots[id];
+      if (before && (before.x !== position.x || before.z !== position.z)) {
+        this.botYaw.set(id, Math.atan2(-(position.x - before.x), -(position.z - before.z)));
+      }
+    }
+
+    this.match = match;
+    this.hud.update(match);
+    if (match.trophies) this.syncTrophies(match.trophies);
+    this.chooseFollow();
+  }
+
+  /** Stay on the carrier when carrier-cam is on, otherwise on the chosen bird while it is still playing */
+  private chooseFollow(): void {
+    if (!this.match) return;
+    const ids = this.match.participants.map((p) => p.id);
+    const carrierId = this.match.kind === 'heist'
+      ? this.match.trophies?.find((t) => t.carrierId)?.carrierId ?? null
+      : null;
+
+    let next = this.followId;
+    if (this.followCarrier && carrierId) next = carrierId;
+    else if (!next || !ids.includes(next)) next = ids[0] ?? null;
+    this.setFollow(next);
+  }
+
+  private cycle(step: number): void {
+    const ids = this.match?.participants.map((p) => p.id) ?? [];
+    if (ids.length === 0) return;
+    // Picking a bird by hand turns carrier-cam off
+    this.followCarrier = false;
+    const index = this.followId ? ids.indexOf(this.followId) : -1;
+    this.setFollow(ids[(index + step + ids.length) % ids.length]);
+  }
+
+  private toggleFollowCarrier(): void {
+    if (this.match?.kind !== 'heist') return;
+    this.followCarrier = !this.followCarrier;
+    this.chooseFollow();
+    this.hud.setFollowing(this.nameOf(this.followId), this.followCarrier);
+  }
+
+  private setFollow(id: string | null): void {
+    if (id !== this.followId) {
+      this.followId = id;
+      this.multiplayer.setSpectateFocus(id);
+    }
+    this.hud.setFollowing(id ? this.nameOf(id) : null, this.followCarrier && this.match?.kind === 'heist');
+  }
+
+  private nameOf(id: string | null): string {
+    if (!id) return 'Someone';
+    return this.match?.participants.find((p) => p.id === id)?.username ?? 'Someone';
+  }
+
+  private positionOf(id: string): THREE.Vector3 | null {
+    const remote = this.multiplayer.getRemotePlayerById(id);
+    if (remote) return this._focus.copy(remote.getPosition());
+    const bot = this.match?.botPositions?.[id];
+    return bot ? this._focus.set(bot.x, bot.y, bot.z) : null;
+  }
+
+  private yawOf(id: string): number {
+    return this.multiplayer.getRemotePlayerById(id)?.getYaw() ?? this.botYaw.get(id) ?? 0;
+  }
+
+  private syncTrophies(states: SpectatedTrophy[]): void {
+    for (const state of states) {
+      let view = this.trophies.get(state.id);
+      const position = new THREE.Vector3(state.position.x, state.position.y, state.position.z);
+      if (!view) {
+        view = { trophy: new HeistTrophy(this.scene, position), target: position.clone(), carrierId: null };
+        this.trophies.set(state.id, view);
+      }
+
+      if (state.carrierId) {
+        if (!view.carrierId) view.trophy.attachToCarrier();
+      } else if (view.carrierId) {
+        view.trophy.settleAt(position);
+      }
+      view.carrierId = state.carrierId;
+      view.target.copy(position);
+    }
+  }
+
+  private updateTrophies(dt: number): void {
+    const t = 1 - Math.exp(-TROPHY_FOLLOW_SHARPNESS * dt);
+    for (const view of this.trophies.values()) {
+      const carrier = view.carrierId ? this.positionOf(view.carrierId) : null;
+      if (view.carrierId && carrier) {
+        view.trophy.updateCarriedPosition(carrier, this.yawOf(view.carrierId));
+      } else {
+        view.trophy.position.lerp(view.target, t);
+        view.trophy.group.position.copy(view.trophy.position);
+      }
+      view.trophy.update(dt);
+    }
+  }
+
+  private exit(): void {
+    this.dispose();
+    this.onExit?.();
+  }
+
+  private onResize = (): void => {
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.spectatorCamera.setAspect(window.innerWidth / window.innerHeight);
+  };
+}
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import { CAMERA } from '../utils/Constants';
+import { clamp } from '../utils/MathUtils';
+import { InputManager } from '../core/InputManager';
+
+/**
+ * Detached fly-through camera (replay viewer).
+ * WASD/arrows move along the view, Space/Shift rise and sink, the mouse looks
+ * around while the pointer is locked, and the scroll wheel changes speed.
+ */
+export class FreeCamera {
+  readonly camera: THREE.PerspectiveCamera;
+  private yaw = 0;
+  private pitch = -0.35;
+  private speed = 60;
+
+  private readonly LOOK_SENSITIVITY = 0.003;
+  private readonly MAX_PITCH = Math.PI / 2 - 0.05;
+  private readonly MIN_SPEED = 10;
+  private readonly MAX_SPEED = 400;
+
+  private _forward = new THREE.Vector3();
+  private _right = new THREE.Vector3();
+  private _euler = new THREE.Euler(0, 0, 0, 'YXZ');
+
+  constructor(aspect: number) {
+    this.camera = new THREE.PerspectiveCamera(CAMERA.SPEED_FOV_MIN, aspect, 1, 1400);
+    this.camera.position.set(0, 90, 180);
+    this.applyRotation();
+  }
+
+  setAspect(aspect: number): void {
+    this.camera.aspect = aspect;
+    this.camera.updateProjectionMatrix();
+  }
+
+  update(dt: number, input: InputManager): void {
+    if (input.isPointerLocked) {
+      this.yaw -= input.mouseDx * this.LOOK_SENSITIVITY;
+      this.pitch = clamp(this.pitch - input.mouseDy * this.LOOK_SENSITIVITY, -this.MAX_PITCH, this.MAX_PITCH);
+      const scroll = input.getScrollDelta();
+      if (scroll !== 0) {
+        this.speed = clamp(this.speed * (scroll > 0 ? 0.8 : 1.25), this.MIN_SPEED, this.MAX_SPEED);
+      }
+    }
+    this.applyRotation();
+
+    const forwardAxis = input.getAxis('vertical');
+    const strafeAxis = input.getAxis('horizontal');
+    const rise = (input.isDown('Space') ? 1 : 0) - (input.isDown('ShiftLeft') || input.isDown('ShiftRight') ? 1 : 0);
+
+    this.camera.getWorldDirection(this._forward);
+    this._right.crossVectors(this._forward, this.camera.up).normalize();
+
+    const step = this.speed * dt;
+    this.camera.position.addScaledVector(this._forward, forwardAxis * step);
+    this.camera.position.addScaledVector(this._right, strafeAxis * step);
+    this.camera.position.y = Math.max(2, this.camera.position.y + rise * step);
+  }
+
+  /** Point the camera at a world position (e.g. a bird picked from the replay) */
+  lookAt(target: THREE.Vector3): void {
+    const dir = target.clone().sub(this.camera.position);
+    if (dir.lengthSq() < 1e-6) return;
+    dir.normalize();
+    this.yaw = Math.atan2(-dir.x, -dir.z);
+    this.pitch = clamp(Math.asin(dir.y), -this.MAX_PITCH, this.MAX_PITCH);
+    this.applyRotation();
+  }
+
+  private applyRotation(): void {
+    this._euler.set(this.pitch, this.yaw, 0);
+    this.camera.quaternion.setFromEuler(this._euler);
+  }
+}
@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+import { CAMERA } from '../utils/Constants';
+
+/**
+ * Chase camera for the spectator viewer.
+ * Trails behind and above whichever bird the viewer follows, easing across
+ * to the next one when the target changes instead of cutting.
+ */
+export class SpectatorCamera {
+  readonly camera: THREE.PerspectiveCamera;
+  private lookTarget = new THREE.Vector3();
+  private hasTarget = false;
+
+  private readonly DISTANCE = 22;
+  private readonly HEIGHT = 8;
+  /** Higher follows tighter; a new target is reached in roughly 1/FOLLOW_SHARPNESS seconds */
+  private readonly FOLLOW_SHARPNESS = 3;
+
+  private _desired = new THREE.Vector3();
+
+  constructor(aspect: number) {
+    this.camera = new THREE.PerspectiveCamera(CAMERA.SPEED_FOV_MIN, aspect, 1, 1400);
+    this.camera.position.set(0, 90, 180);
+    this.camera.lookAt(0, 40, 0);
+  }
+
+  setAspect(aspect: number): void {
+    this.camera.aspect = aspect;
+    this.camera.updateProjectionMatrix();
+  }
+
+  /** Ease toward the chase position behind `target` heading along `yaw`; without a target the camera holds */
+  update(dt: number, target: THREE.Vector3 | null, yaw: number): void {
+    if (!target) return;
+
+    // Forward is (-sin yaw, -cos yaw), so behind is the opposite
+    this._desired.set(
+      target.x + Math.sin(yaw) * this.DISTANCE,
+      Math.max(2, target.y + this.HEIGHT),
+      target.z + Math.cos(yaw) * this.DISTANCE,
+    );
+
+    const t = this.hasTarget ? 1 - Math.exp(-this.FOLLOW_SHARPNESS * dt) : 1;
+    this.camera.position.lerp(this._desired, t);
+    this.lookTarget.lerp(target, t);
+    this.camera.lookAt(this.lookTarget);
+    this.hasTarget = true;
+  }
+}
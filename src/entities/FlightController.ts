@@ -83,6 +83,9 @@ export class FlightController {
 
   totalDistanceFlown = 0;
 
+  // Set by multiplayer reconciliation while the server has us stunned or frozen
+  isServerLocked = false;
+
   // Building data for rooftop perching
   private buildings: BuildingData[] = [];
   private perchHeight = 0;
@@ -91,6 +94,21 @@ export class FlightController {
     this.buildings = buildings;
   }
 
+  /**
+   * Rubber-band to a server-authoritative position after the server rejected
+   * a move (e.g. clipping into a building). Drops any dive/boost momentum.
+   */
+  applyCorrection(position: { x: number; y: number; z: number }, yaw?: number, pitch?: number): void {
+    this.position.set(position.x, position.y, position.z);
+    if (typeof yaw === 'number') this.yawAngle = yaw;
+    if (typeof pitch === 'number') this.pitchAngle = pitch;
+    this.rollAngle = 0;
+    this.isDiving = false;
+    this.isDiveBombing = false;
+    this.isBoosting = false;
+    this.forwardSpeed = Math.min(this.forwardSpeed, FLIGHT.BASE_SPEED);
+  }
+
   toggleWalkMode(): boolean {
     this.isWalkMode = !this.isWalkMode;
 
@@ -120,6 +138,12 @@ export class FlightController {
   }
 
   update(dt: number, input: InputManager): void {
+    // Hold position until the server releases us
+    if (this.isServerLocked) {
+      this.forwardSpeed = 0;
+      return;
+    }
+
     const yawInput = input.getAxis('horizontal');
     const pitchInput = input.getAxis('vertical');
     const forwardInput = input.isMoveForwardHeld() ? 1 : 0;
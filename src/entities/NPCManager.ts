@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { NPC, NPCType } from './NPC';
 import { NPC_CONFIG } from '../utils/Constants';
 import type { BuildingData } from '../world/City';
+import { DEFAULT_WORLD_SEED, SeededRandom, createSeededRandom, deriveSeed } from '../../shared/WorldSeed';
 
 // Pond obstacle data (Park & Pond district)
 const POND_CENTER_X = 300;
@@ -71,10 +72,12 @@ export class NPCManager {
   private playerPosition = new THREE.Vector3();
   private buildings: BuildingData[] = [];
   private buildingGrid = new BuildingGrid();
+  private rng: SeededRandom;
 
-  constructor(scene: THREE.Scene, streetPaths: THREE.Vector3[][]) {
+  constructor(scene: THREE.Scene, streetPaths: THREE.Vector3[][], seed: number = DEFAULT_WORLD_SEED) {
     this.scene = scene;
     this.streetPaths = streetPaths;
+    this.rng = createSeededRandom(deriveSeed(seed, 'npcs'));
 
     if (streetPaths.length === 0) {
       console.warn('No street paths available — NPCs will not spawn.');
@@ -89,6 +92,11 @@ export class NPCManager {
     console.log(`NPCManager: spawned ${this.npcs.length} initial NPCs across ${streetPaths.length} paths`);
   }
 
+  /** Restart the spawn stream for a new world seed (existing NPCs keep walking) */
+  reseed(seed: number): void {
+    this.rng = createSeededRandom(deriveSeed(seed, 'npcs'));
+  }
+
   /** Provide building data for NPC collision avoidance */
   setBuildings(buildings: BuildingData[]): void {
     this.buildings = buildings;
@@ -130,16 +138,16 @@ export class NPCManager {
 
     // Spawn cluster of NPCs at each hotspot
     for (const hotspotPos of positions) {
-      const clusterSize = 15 + Math.floor(Math.random() * 15);
+      const clusterSize = 15 + Math.floor(this.rng() * 15);
       for (let i = 0; i < clusterSize; i++) {
-        const angle = Math.random() * Math.PI * 2;
-        const dist = Math.random() * radius * 0.8;
+        const angle = this.rng() * Math.PI * 2;
+        const dist = this.rng() * radius * 0.8;
         const pos = new THREE.Vector3(
           hotspotPos.x + Math.cos(angle) * dist,
           0,
           hotspotPos.z + Math.sin(angle) * dist
         );
-        const type = Math.random() < 0.3 ? 'performer' : this.pickType();
+        const type = this.rng() < 0.3 ? 'performer' : this.pickType();
         this.spawnNPCAt(pos, type);
       }
     }
@@ -159,7 +167,7 @@ export class NPCManager {
   }
 
   private pickType(): NPCType {
-    const roll = Math.random();
+    const roll = this.rng();
     let cumulative = 0;
 
     cumulative += NPC_CONFIG.TOURIST_RATIO;
@@ -201,7 +209,7 @@ export class NPCManager {
   private spawnNPC(): void {
     if (this.streetPaths.length === 0) return;
 
-    const pathTemplate = this.streetPaths[Math.floor(Math.random() * this.streetPaths.length)];
+    const pathTemplate = this.streetPaths[Math.floor(this.rng() * this.streetPaths.length)];
     const path = this.createSubPath(pathTemplate);
     const type = this.pickType();
     const speed = this.varySpeed(this.getSpeedForType(type));
@@ -213,7 +221,7 @@ export class NPCManager {
 
   /** Add ±25% random variation to a base speed so same-type NPCs don't walk in lockstep */
   private varySpeed(base: number): number {
-    return base * (0.75 + Math.random() * 0.5);
+    return base * (0.75 + this.rng() * 0.5);
   }
 
   /** Spawn an NPC on a street path near the player */
@@ -241,7 +249,7 @@ export class NPCManager {
       return;
     }
 
-    const pathTemplate = nearby[Math.floor(Math.random() * nearby.length)];
+    const pathTemplate = nearby[Math.floor(this.rng() * nearby.length)];
     const path = this.createSubPath(pathTemplate);
     const type = this.pickType();
     const speed = this.varySpeed(this.getSpeedForType(type));
@@ -254,7 +262,7 @@ export class NPCManager {
   /** Spawn NPCs scattered across the entire map for ambient population */
   private spawnGlobal(): void {
     if (this.streetPaths.length === 0) return;
-    const pathTemplate = this.streetPaths[Math.floor(Math.random() * this.streetPaths.length)];
+    const pathTemplate = this.streetPaths[Math.floor(this.rng() * this.streetPaths.length)];
     const path = this.createSubPath(pathTemplate);
     const type = this.pickType();
     const speed = this.varySpeed(this.getSpeedForType(type));
@@ -279,7 +287,7 @@ export class NPCManager {
 
     if (districtPaths.length === 0) return;
 
-    const pathTemplate = districtPaths[Math.floor(Math.random() * districtPaths.length)];
+    const pathTemplate = districtPaths[Math.floor(this.rng() * districtPaths.length)];
     const path = this.createSubPath(pathTemplate);
     const type = this.pickType();
     const speed = this.varySpeed(this.getSpeedForType(type));
@@ -295,13 +303,13 @@ export class NPCManager {
     const dir = new THREE.Vector3().subVectors(end, start);
     const length = dir.length();
 
-    const segmentLength = 15 + Math.random() * 30;
-    const segmentStart = Math.random() * Math.max(0, length - segmentLength);
+    const segmentLength = 15 + this.rng() * 30;
+    const segmentStart = this.rng() * Math.max(0, length - segmentLength);
 
     dir.normalize();
 
     // Add slight angular deviation (±15°) so NPCs don't all walk perfectly parallel
-    const angleDeviation = (Math.random() - 0.5) * 0.52; // ~±15 degrees in radians
+    const angleDeviation = (this.rng() - 0.5) * 0.52; // ~±15 degrees in radians
     const cosA = Math.cos(angleDeviation);
     const sinA = Math.sin(angleDeviation);
     const devDir = new THREE.Vector3(
@@ -313,7 +321,7 @@ export class NPCManager {
     const perp = new THREE.Vector3(-devDir.z, 0, devDir.x);
 
     // Much wider lateral spread (~24-unit band) to break single-file lines
-    let lateralOffset = (Math.random() - 0.5) * 24;
+    let lateralOffset = (this.rng() - 0.5) * 24;
 
     // Validate against buildings AND pond with more attempts
     let valid = false;
@@ -325,18 +333,18 @@ export class NPCManager {
         break;
       }
       // Try a new random offset, shrinking range each attempt
-      lateralOffset = (Math.random() - 0.5) * (24 - attempt * 2);
+      lateralOffset = (this.rng() - 0.5) * (24 - attempt * 2);
     }
     if (!valid) lateralOffset = 0;
 
     // Build a meandering multi-waypoint path with generous lateral wander
-    const waypointCount = 3 + Math.floor(Math.random() * 3); // 3-5 waypoints
+    const waypointCount = 3 + Math.floor(this.rng() * 3); // 3-5 waypoints
     const waypoints: THREE.Vector3[] = [];
     for (let i = 0; i < waypointCount; i++) {
       const t = i / (waypointCount - 1); // 0 to 1
       const along = segmentStart + t * segmentLength;
       // Each waypoint wanders more aggressively from the base offset
-      const wander = lateralOffset + (Math.random() - 0.5) * 10;
+      const wander = lateralOffset + (this.rng() - 0.5) * 10;
       const wp = start.clone()
         .addScaledVector(devDir, along)
         .addScaledVector(perp, wander);
@@ -375,11 +383,11 @@ export class NPCManager {
 
   /** Spawn a specific NPC at a position (for scripted tutorial moments) */
   spawnNPCAt(position: THREE.Vector3, type: NPCType = 'tourist'): void {
-    const halfSeg = 5 + Math.random() * 10;
+    const halfSeg = 5 + this.rng() * 10;
     const p1 = position.clone();
     p1.y = 0.1;
     // Random walk direction instead of always +X
-    const angle = Math.random() * Math.PI * 2;
+    const angle = this.rng() * Math.PI * 2;
     const p2 = p1.clone();
     p2.x += Math.cos(angle) * halfSeg;
     p2.z += Math.sin(angle) * halfSeg;
@@ -418,13 +426,13 @@ export class NPCManager {
       this.spawnTimer = 0;
       for (let b = 0; b < batchSize && this.npcs.length < NPC_CONFIG.MAX_PER_DISTRICT; b++) {
         // 60% near player, 25% global spread, 15% targeted district fill
-        const roll = Math.random();
+        const roll = this.rng();
         if (roll < 0.60) {
           this.spawnNearPlayer();
         } else if (roll < 0.85) {
           this.spawnGlobal();
         } else {
-          const district = DISTRICT_CENTERS[Math.floor(Math.random() * DISTRICT_CENTERS.length)];
+          const district = DISTRICT_CENTERS[Math.floor(this.rng() * DISTRICT_CENTERS.length)];
           this.spawnInDistrict(district);
         }
       }
@@ -435,9 +443,9 @@ export class NPCManager {
     if (this.ambientTimer >= 2.0 && this.npcs.length < NPC_CONFIG.MAX_PER_DISTRICT) {
       this.ambientTimer = 0;
       // Spawn 2-3 NPCs in random districts to keep the world feeling alive
-      const ambientCount = 2 + Math.floor(Math.random() * 2);
+      const ambientCount = 2 + Math.floor(this.rng() * 2);
       for (let i = 0; i < ambientCount && this.npcs.length < NPC_CONFIG.MAX_PER_DISTRICT; i++) {
-        const district = DISTRICT_CENTERS[Math.floor(Math.random() * DISTRICT_CENTERS.length)];
+        const district = DISTRICT_CENTERS[Math.floor(this.rng() * DISTRICT_CENTERS.length)];
         this.spawnInDistrict(district);
       }
     }
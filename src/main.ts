@@ -20,6 +20,12 @@ import { ScoreSystem } from './systems/ScoreSystem';
 import { loadGuestCoins, loadGuestFeathers, loadGuestWorms, loadGuestGoldenEggs, loadGuestInventory, loadGuestEquipped } from './services/LocalStorageService';
 import { assetLoader } from './systems/AssetLoader';
 import { ReferralService } from './sharing/ReferralService';
+import { fetchLiveMatches, fetchWorldListings, getPreferredWorldId, loadJoinAffinity, setPreferredWorldId } from './multiplayer/WorldBrowser';
+import { ReplayLog } from './multiplayer/ReplayLog';
+import { ReplayViewer } from './ReplayViewer';
+import { SpectatorViewer } from './SpectatorViewer';
+import { LiveMatchesPanel } from './ui/LiveMatchesPanel';
+import { REPLAY_FILE_EXTENSION } from '../shared/ReplayFormat';
 import { FullscreenPrompt } from './ui/FullscreenPrompt';
 import { ControlsMenu } from './ui/ControlsMenu';
 import { authStateManager, type AuthState } from './services/AuthStateManager';
@@ -78,6 +84,9 @@ let authScreen: AuthScreen | null = null;
 let accountPanel: AccountPanel | null = null;
 let game: Game | null = null;
 let loop: GameLoop | null = null;
+let replayViewer: ReplayViewer | null = null;
+let spectatorViewer: SpectatorViewer | null = null;
+let liveMatchesPanel: LiveMatchesPanel | null = null;
 
 // Standalone UI instances (accessible from main menu without game)
 let menuSettings: SettingsMenu | null = null;
@@ -180,14 +189,15 @@ function mergeStats(localStats?: SavedGameState['stats']): SavedGameState['stats
 }
 
 function getMergedStateForAuthenticatedUser(profile: Profile, localState: SavedGameState | null): SavedGameState {
+  // Level, XP, feathers and banked coins come from the server's economy ledger; never trust a local copy
   return {
     stats: mergeStats(localState?.stats),
-    level: Math.max(profile.level ?? 1, localState?.level ?? 1),
-    xp: Math.max(profile.xp ?? 0, localState?.xp ?? 0),
-    feathers: Math.max(profile.feathers ?? 0, localState?.feathers ?? 0),
+    level: profile.level ?? 1,
+    xp: profile.xp ?? 0,
+    feathers: profile.feathers ?? 0,
     worms: Math.max(profile.worms ?? 0, localState?.worms ?? 0),
     goldenEggs: Math.max(profile.golden_eggs ?? 0, localState?.goldenEggs ?? 0),
-    bankedCoins: Math.max(profile.coins ?? 0, localState?.bankedCoins ?? 0),
+    bankedCoins: profile.coins ?? 0,
   };
 }
 
@@ -207,10 +217,6 @@ function applySavedStateToSystems(
 
 function shouldSyncProfileFromState(profile: Profile, state: SavedGameState): boolean {
   return (
-    (profile.level ?? 1) !== state.level ||
-    (profile.xp ?? 0) !== state.xp ||
-    (profile.coins ?? 0) !== state.bankedCoins ||
-    (profile.feathers ?? 0) !== state.feathers ||
     (profile.worms ?? 0) !== state.worms ||
     (profile.golden_eggs ?? 0) !== state.goldenEggs
   );
@@ -226,11 +232,8 @@ function queueSupabaseStateSave(userId: string, state: SavedGameState): Promise<
     let lastError: unknown = null;
 
     for (let attempt = 0; attempt <= SUPABASE_SAVE_RETRIES; attempt++) {
+      // Level, XP, coins and feathers are written by the game server's ledger only
       const { error } = await supabase.from('profiles').update({
-        level: state.level,
-        xp: state.xp,
-        coins: state.bankedCoins,
-        feathers: state.feathers,
         worms: state.worms,
         golden_eggs: state.goldenEggs,
       }).eq('id', userId);
@@ -279,10 +282,6 @@ function trySendBeaconSave(state: SavedGameState): void {
   try {
     const payload = JSON.stringify({
       userId: authState.userId,
-      level: state.level,
-      xp: state.xp,
-      coins: state.bankedCoins,
-      feathers: state.feathers,
       worms: state.worms,
       golden_eggs: state.goldenEggs,
     });
@@ -301,7 +300,7 @@ function initMenuShop(): void {
   // Load persisted data into standalone systems
   const authState = authStateManager.getState();
   if (authState.isAuthenticated && authState.profile) {
-    // Authenticated: merge local fallback and Supabase profile, keeping best values.
+    // Authenticated: merge local fallback and Supabase profile (ledger-owned balances from the profile).
     const localState = loadGameState();
     const mergedState = getMergedStateForAuthenticatedUser(authState.profile, localState);
     applySavedStateToSystems(menuProgression, menuScore, mergedState);
@@ -406,6 +405,24 @@ function initMenuShop(): void {
   });
 }
 
+/** Live ratings from the game server when connected, otherwise the stored ones */
+async function refreshProfileRatings(): Promise<void> {
+  const profile = menuProfile;
+  if (!profile) return;
+  const live = game?.getRatings() ?? [];
+  if (live.length > 0) {
+    profile.setRatings(live);
+    return;
+  }
+  const auth = authStateManager.getState();
+  if (!auth.isAuthenticated || !auth.userId) {
+    profile.setRatings([]);
+    return;
+  }
+  const { getPlayerRatings } = await import('./services/RatingsService');
+  profile.setRatings(await getPlayerRatings(auth.userId));
+}
+
 /** Build standalone profile page from persisted standalone systems */
 function initMenuProfile(): void {
   if (!menuCosmetics || !menuProgression || !menuScore || !menuAchievements) return;
@@ -442,6 +459,98 @@ function initMenuProfile(): void {
   });
 }
 
+/** Fill the main menu world picker from the game server's lobby */
+async function refreshWorldList(): Promise<void> {
+  const wsUrl = (import.meta.env.VITE_WS_URL as string | undefined)?.trim();
+  if (!mainMenu || !wsUrl) return;
+  const affinity = await loadJoinAffinity();
+  const listings = await fetchWorldListings(wsUrl, affinity.murmurationId);
+  mainMenu?.setWorldListings(listings, getPreferredWorldId());
+}
+
+/** Pick a recorded session (REPLAY_DIR on the server) and play it in place of the menu */
+function openReplay(): void {
+  if (!mainMenu || replayViewer || spectatorViewer) return;
+  if (game) {
+    notificationManager.warning('Replays can only be watched before joining a world. Reload to watch one.', 6000);
+    return;
+  }
+
+  const fileInput = document.createElement('input');
+  fileInput.type = 'file';
+  fileInput.accept = REPLAY_FILE_EXTENSION;
+  fileInput.addEventListener('change', async () => {
+    const file = fileInput.files?.[0];
+    if (!file) return;
+    let log: ReplayLog;
+    try {
+      log = ReplayLog.parse(await file.arrayBuffer());
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      notificationManager.error(`Could not open replay: ${reason}`, 6000);
+      return;
+    }
+
+    mainMenu?.hide();
+    replayViewer = new ReplayViewer(log);
+    replayViewer.setOnExit(() => {
+      replayViewer = null;
+      mainMenu?.show();
+    });
+    replayViewer.start();
+  });
+  fileInput.click();
+}
+
+/** List live matches from the lobby and watch the chosen one as a spectator */
+function openSpectate(): void {
+  if (!mainMenu || replayViewer || spectatorViewer) return;
+  if (game) {
+    notificationManager.warning('Matches can only be spectated before joining a world. Reload to watch one.', 6000);
+    return;
+  }
+  const wsUrl = (import.meta.env.VITE_WS_URL as string | undefined)?.trim();
+  if (!wsUrl) {
+    notificationManager.error('Spectating needs a game server.', 6000);
+    return;
+  }
+
+  if (!liveMatchesPanel) {
+    const panel = new LiveMatchesPanel();
+    const refresh = async (): Promise<void> => {
+      panel.setLoading();
+      panel.setMatches(await fetchLiveMatches(wsUrl));
+    };
+    panel.setCallbacks(
+      async (match) => {
+        panel.hide();
+        const viewer = new SpectatorViewer(wsUrl, { kind: match.kind, matchId: match.matchId });
+        viewer.setOnExit(() => {
+          spectatorViewer = null;
+          mainMenu?.show();
+        });
+        spectatorViewer = viewer;
+        try {
+          await viewer.start();
+        } catch (error) {
+          spectatorViewer = null;
+          const reason = error instanceof Error ? error.message : String(error);
+          notificationManager.error(`Could not spectate: ${reason}`, 6000);
+          mainMenu?.show();
+        }
+      },
+      () => void refresh(),
+      () => mainMenu?.show(),
+    );
+    liveMatchesPanel = panel;
+  }
+
+  mainMenu.hide();
+  liveMatchesPanel.setLoading();
+  liveMatchesPanel.show();
+  void fetchLiveMatches(wsUrl).then((matches) => liveMatchesPanel?.setMatches(matches));
+}
+
 async function startGame(): Promise<void> {
   if (!mainMenu) return;
 
@@ -455,7 +564,7 @@ async function startGame(): Promise<void> {
     // Load persisted game state into game systems
     const authState = authStateManager.getState();
     if (authState.isAuthenticated && authState.profile) {
-      // Authenticated: merge local fallback and Supabase profile, keeping best values.
+      // Authenticated: merge local fallback and Supabase profile (ledger-owned balances from the profile).
       const localState = loadGameState();
       const mergedState = getMergedStateForAuthenticatedUser(authState.profile, localState);
       const scoreSystem = (game as any).scoreSystem as ScoreSystem;
@@ -632,6 +741,7 @@ async function initialize(): Promise<void> {
           }
           mainMenu?.hide();
           menuProfile.show();
+          refreshProfileRatings();
         }
       },
       // onCosmetics
@@ -749,6 +859,14 @@ async function initialize(): Promise<void> {
       },
     );
 
+    mainMenu.setWorldCallbacks(
+      (worldId) => setPreferredWorldId(worldId),
+      () => void refreshWorldList(),
+    );
+    void refreshWorldList();
+    mainMenu.setReplayCallback(openReplay);
+    mainMenu.setSpectateCallback(openSpectate);
+
     statsPanel.setOnClose(() => mainMenu?.show());
     howToPlay.setOnClose(() => mainMenu?.show());
     creditsPanel.setOnClose(() => mainMenu?.show());
@@ -809,6 +927,12 @@ async function initialize(): Promise<void> {
         inviteFriends.show();
       }
     };
+    (window as any).__openLobbyInvite = (code: string, worldId: string) => {
+      if (inviteFriends) {
+        inviteFriends.setLobbyInvite(code, worldId);
+        inviteFriends.show();
+      }
+    };
 
     loadingScreen.updateProgress(3, 4, 'Loading complete!');
 
@@ -0,0 +1,92 @@
+/**
+ * Input Reconciler
+ * Client-side prediction bookkeeping for the local bird.
+ * Every outgoing `update` carries a sequence number and the predicted position
+ * is kept until the server acknowledges it. When a snapshot's ack disagrees with
+ * what we predicted (lasso drag, admin teleport) the bird is moved by the
+ * difference, which keeps the movement made since that input on top of the
+ * server position. While the server says we are stunned or frozen the bird
+ * holds the server position instead.
+ */
+
+import type { FlightController } from '../entities/FlightController';
+
+interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Server's view of the local player, sent with each state snapshot */
+export interface InputAck {
+  seq: number;
+  position: Vector3;
+  yaw: number;
+  pitch: number;
+  locked: boolean;
+}
+
+interface PendingInput {
+  seq: number;
+  position: Vector3;
+}
+
+/** Disagreement below this is float noise, not a server correction (units) */
+const RECONCILE_EPSILON = 0.25;
+/** Unacked inputs kept at most (~3 s at 20 Hz) */
+const MAX_PENDING_INPUTS = 60;
+
+export class InputReconciler {
+  private nextSeq = 0;
+  private pending: PendingInput[] = [];
+  /** Last acknowledged input, re-checked until a newer one is acked */
+  private acked: PendingInput | null = null;
+
+  /** Record the position about to be sent and return its sequence number. */
+  record(position: Vector3): number {
+    const seq = this.nextSeq++;
+    this.pending.push({ seq, position: { x: position.x, y: position.y, z: position.z } });
+    if (this.pending.length > MAX_PENDING_INPUTS) this.pending.shift();
+    return seq;
+  }
+
+  reconcile(ack: InputAck, controller: FlightController): void {
+    // Stunned or frozen: the server ignores our moves, so there is nothing to replay
+    if (ack.locked) {
+      controller.applyCorrection(ack.position, ack.yaw, ack.pitch);
+      controller.isServerLocked = true;
+      this.pending = [];
+      this.acked = { seq: ack.seq, position: { ...ack.position } };
+      return;
+    }
+    controller.isServerLocked = false;
+
+    while (this.pending.length > 0 && this.pending[0].seq <= ack.seq) {
+      const input = this.pending.shift()!;
+      if (input.seq === ack.seq) this.acked = input;
+    }
+    if (!this.acked || this.acked.seq !== ack.seq) return;
+
+    const dx = ack.position.x - this.acked.position.x;
+    const dy = ack.position.y - this.acked.position.y;
+    const dz = ack.position.z - this.acked.position.z;
+    if (dx * dx + dy * dy + dz * dz <= RECONCILE_EPSILON * RECONCILE_EPSILON) return;
+
+    // Replay: shift the bird and every unacked prediction by the server's correction
+    controller.position.x += dx;
+    controller.position.y += dy;
+    controller.position.z += dz;
+    for (const input of this.pending) {
+      input.position.x += dx;
+      input.position.y += dy;
+      input.position.z += dz;
+    }
+    this.acked.position = { ...ack.position };
+  }
+
+  /** Forget predictions after a hard snap (correction message, reconnect). */
+  reset(): void {
+    this.pending = [];
+    this.acked = null;
+  }
+}
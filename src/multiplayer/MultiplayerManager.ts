@@ -5,8 +5,36 @@
  */
 
 import * as THREE from 'three';
-import { RemotePlayer } from './RemotePlayer';
+import { RemotePlayer, REMOTE_INTERP_DELAY_MS } from './RemotePlayer';
 import type { Bird } from '../entities/Bird';
+import { StateDecoder, STATE_CODEC_BINARY } from '../../shared/StateCodec';
+import { InputReconciler, type InputAck } from './InputReconciler';
+import { getPreferredWorldId, type JoinAffinity } from './WorldBrowser';
+import type { MvMMatchFoundMessage, MvMRoundUpdateMessage, MvMMatchEndData } from '../types/murmuration';
+import type { RatingSummary, RatingUpdateData } from '../../shared/RatingBands';
+import type { HeistFormatId } from '../../shared/HeistFormats';
+import type { GhostTrack } from '../../shared/GhostTrack';
+import type { RaceLeaderboardEntry } from '../../shared/RaceLeaderboard';
+import type { ChatMessage, SpectateTarget, SpectatedMatchState } from '../../shared/types';
+import type { ChatChannelId } from '../../shared/ChatChannels';
+import type { TournamentView, TournamentMatchNotice } from '../../shared/TournamentBracket';
+import type { PvPLobbySettings, PvPLobbyView } from '../../shared/PvPLobbySettings';
+
+/** Per-browser ID sent at join, kept apart from the guest ID so a new guest name does not dodge a ban */
+const DEVICE_ID_KEY = 'birdgame_device_id';
+
+function getDeviceId(): string | undefined {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = Array.from(crypto.getRandomValues(new Uint8Array(12)), (b) => b.toString(16).padStart(2, '0')).join('');
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    return undefined;
+  }
+}
 
 interface Vector3 {
   x: number;
@@ -43,8 +71,12 @@ interface FilteredWorldState {
   tick: number;
   timestamp: number;
   players: PlayerState[];
+  /** Present only on the server's mid-tier ticks */
+  midPlayers?: MidPlayerState[];
   hotspots: any[];
   events: GameEvent[];
+  /** Server's ack of our last processed input */
+  ack?: InputAck;
 }
 
 // Legacy format (from welcome message)
@@ -63,6 +95,8 @@ interface PvPHitResult {
   victimName: string;
   stolenCoins: number;
   victimStunDuration: number;
+  /** Lag-compensation rewind the server used for this hit (ms) */
+  rewindMs?: number;
 }
 
 interface RaceCheckpoint {
@@ -70,17 +104,20 @@ interface RaceCheckpoint {
   radius: number;
 }
 
-interface ChatMessage {
-  playerId: string;
-  username: string;
-  message: string;
-  timestamp: number;
+/** Banked balance as recorded by the server's economy ledger */
+export interface LedgerBalance {
+  coins: number;
+  xp: number;
+  feathers: number;
 }
 
 // Event callbacks
 export interface MultiplayerEventCallbacks {
   onConnectionStatus?: (status: 'connecting' | 'connected' | 'disconnected' | 'error', detail?: string) => void;
   onServerError?: (message: string) => void;
+  onWorldSeed?: (seed: number) => void;
+  /** Shard the server placed us in (may differ from the request when joining 'auto') */
+  onWorldJoined?: (worldId: string, worldName: string) => void;
   onAdminAnnounce?: (data: { message: string; timestamp: number }) => void;
   onAdminKicked?: (data: { reason: string }) => void;
   onAdminTeleport?: (data: { x: number; y: number; z: number }) => void;
@@ -93,7 +130,18 @@ export interface MultiplayerEventCallbacks {
   onRaceStarted?: (data: { raceId: string; checkpoints: RaceCheckpoint[] }) => void;
   onRaceCheckpoint?: (data: { raceId: string; playerId: string; checkpoint: number; total: number }) => void;
   onRaceFinished?: (data: { raceId: string; results: any[] }) => void;
+  onRaceLeaderboard?: (data: { routeId: string; entries: RaceLeaderboardEntry[] }) => void;
+  onRaceGhost?: (data: { routeId: string; rank: number; ghost: GhostTrack }) => void;
+  /** Our own finished server race, with its leaderboard rank when the route is a shared one */
+  onRaceRunRecorded?: (data: { rank: number | null; ghost: GhostTrack }) => void;
   onChatMessage?: (data: ChatMessage) => void;
+  onLedgerBalance?: (data: { balance: LedgerBalance; reason: string | null }) => void;
+  /** Outcome of sendShopPurchase; on success the new balance arrives via onLedgerBalance */
+  onShopPurchaseResult?: (data: { itemId: string; ok: boolean; error?: string }) => void;
+  /** A player (us included) banked; ours is what the server credited to the ledger */
+  onPlayerBanked?: (data: { playerId: string; coins: number; xp: number; feathers?: number }) => void;
+  /** Skill ratings after a rated PvP round, heist or MvM match */
+  onRatingUpdate?: (data: RatingUpdateData) => void;
   // PvP mode events
   onPvPModeStart?: (data: { mode: string; players: any[] }) => void;
   onPvPModeEnd?: (data: { mode: string; results: any }) => void;
@@ -101,15 +149,33 @@ export interface MultiplayerEventCallbacks {
   onPvPTagTransfer?: (data: { from: string; to: string }) => void;
   onPvPCheckpoint?: (data: { playerId: string; checkpoint: number }) => void;
   onPvPStatueHit?: (data: { playerId: string; points?: number; accuracy?: number; hitPosition?: any }) => void;
+  /** Private lobby we are in, after any change; null once we leave or are kicked */
+  onPvPLobby?: (lobby: PvPLobbyView | null) => void;
   // Heist mode events
   onHeistMatchStart?: (data: any) => void;
+  /** Countdown over: the match is live */
+  onHeistRoundStart?: (data: { matchId: string }) => void;
+  /** Clock, scores, trophies and bot seats, a few times a second while we play */
+  onHeistState?: (data: SpectatedMatchState) => void;
   onHeistTrophyGrabbed?: (data: any) => void;
   onHeistSlam?: (data: any) => void;
+  onHeistPass?: (data: any) => void;
   onHeistScore?: (data: any) => void;
   onHeistTrophySettled?: (data: any) => void;
   onHeistTrophyReset?: (data: any) => void;
   onHeistOvertime?: (data: any) => void;
   onHeistMatchEnd?: (data: any) => void;
+  // MvM (murmuration vs murmuration) events
+  onMvMMatchFound?: (data: MvMMatchFoundMessage['data']) => void;
+  onMvMRoundUpdate?: (data: MvMRoundUpdateMessage['data']) => void;
+  onMvMMatchEnd?: (data: MvMMatchEndData) => void;
+  // Spectating (see spectate())
+  onSpectateStart?: (match: SpectatedMatchState) => void;
+  onSpectateState?: (match: SpectatedMatchState) => void;
+  onSpectateEnded?: (target: SpectateTarget) => void;
+  // Tournaments: the shard's bracket (null when there is none) and our next match
+  onTournamentUpdate?: (tournament: TournamentView | null) => void;
+  onTournamentMatch?: (data: TournamentMatchNotice) => void;
   // Horse lasso events
   onLassoAttach?: (data: {
     attackerId: string;
@@ -138,12 +204,31 @@ export interface MultiplayerEventCallbacks {
 const MAX_CLIENT_BUFFER = 32 * 1024; // 32 KB
 /** Outgoing position update interval — true 20 Hz throttle */
 const SEND_INTERVAL_MS = 50;
+/** Smoothing for the server clock estimate (per snapshot) */
+const SERVER_CLOCK_SMOOTHING = 0.1;
 
 export class MultiplayerManager {
   private ws: WebSocket | null = null;
   private connected = false;
+  /** Driven by a recorded log (ReplayLog) instead of a live server */
+  private replayMode = false;
+  /** Match being watched instead of played; there is no local player while set */
+  private spectateTarget: SpectateTarget | null = null;
   private playerId: string | null = null;
   private _isAdmin = false;
+  /** Skill rating per mode, as last reported by the server */
+  private ratings = new Map<string, RatingSummary>();
+  private worldSeed: number | null = null;
+  /** Shard we were placed in; reconnects return to it instead of re-rolling auto-placement */
+  private worldId: string | null = null;
+  private joinAffinity: JoinAffinity = {};
+  /** Binary delta state decoder; only used when the server agreed to the binary codec */
+  private stateDecoder = new StateDecoder();
+  private binaryState = false;
+  /** Client-side prediction for the local bird */
+  private reconciler = new InputReconciler();
+  /** Server timestamp minus local receive time, averaged (clock skew + one-way latency) */
+  private serverClockOffset: number | null = null;
   private remotePlayers: Map<string, RemotePlayer>;
   private scene: THREE.Scene;
   private localBird: Bird;
@@ -151,8 +236,9 @@ export class MultiplayerManager {
   private camera: THREE.Camera | null = null;
   private eventCallbacks: MultiplayerEventCallbacks = {};
 
-  // Track which players are currently visible (in near or mid range)
-  private visiblePlayerIds = new Set<string>();
+  // Players currently shown at each LOD tier (server interest management)
+  private nearPlayerIds = new Set<string>();
+  private midPlayerIds = new Set<string>();
 
   // Outgoing update throttle
   private lastUpdateSentAt = 0;
@@ -180,12 +266,49 @@ export class MultiplayerManager {
     this.eventCallbacks = callbacks;
   }
 
+  /** Murmuration/friend hints sent with the next join for auto-placement */
+  setJoinAffinity(affinity: JoinAffinity): void {
+    this.joinAffinity = affinity;
+  }
+
   async connect(playerId: string, username: string): Promise<void> {
-    const CONNECT_TIMEOUT = 5000;
-    const worldId = (import.meta.env.VITE_WORLD_ID as string | undefined)?.trim() || 'global-1';
+    const worldId = this.worldId ?? getPreferredWorldId();
 
     // Store params for automatic reconnection
     this.lastConnectParams = { playerId, username };
+    this.spectateTarget = null;
+    this.playerId = playerId;
+
+    return this.open(
+      {
+        type: 'join',
+        data: { playerId, username, worldId, deviceId: getDeviceId(), stateCodecs: [STATE_CODEC_BINARY], ...this.joinAffinity },
+      },
+      'welcome',
+    );
+  }
+
+  /**
+   * Watch a PvP round, heist or MvM match without joining the world: every
+   * bird is remote and nothing is sent but the camera's focus. A dropped
+   * spectator connection is not retried.
+   */
+  async spectate(target: SpectateTarget): Promise<void> {
+    this.lastConnectParams = null;
+    this.spectateTarget = target;
+    this.playerId = null;
+    return this.open({ type: 'spectate', data: target }, 'spectate_welcome');
+  }
+
+  /** Tell the server which participant the spectator camera follows, so world state centres on them */
+  setSpectateFocus(playerId: string | null): void {
+    if (!this.connected || !this.spectateTarget) return;
+    this.send({ type: 'spectate_focus', data: { playerId } });
+  }
+
+  /** Open the socket, say hello, and resolve once the server answers with `readyType` */
+  private open(hello: { type: string; data: unknown }, readyType: 'welcome' | 'spectate_welcome'): Promise<void> {
+    const CONNECT_TIMEOUT = 5000;
     this.intentionalDisconnect = false;
 
     this.eventCallbacks.onConnectionStatus?.('connecting');
@@ -205,30 +328,36 @@ export class MultiplayerManager {
       }, CONNECT_TIMEOUT);
 
       try {
-        this.playerId = playerId;
         this.ws = new WebSocket(this.serverUrl);
+        this.ws.binaryType = 'arraybuffer';
 
         this.ws.onopen = () => {
           console.log('Connected to game server');
           this.connected = true;
 
-          this.send({
-            type: 'join',
-            data: { playerId, username, worldId },
-          });
+          this.send(hello);
         };
 
         this.ws.onmessage = (event) => {
           try {
+            // Binary frames are always delta-compressed world state
+            if (event.data instanceof ArrayBuffer) {
+              this.handleStateFrame(event.data);
+              return;
+            }
             const message = JSON.parse(event.data);
             this.handleServerMessage(message);
 
-            if (message.type === 'welcome') {
+            if (message.type === readyType) {
               clearTimeout(timeoutId);
               // Successful (re)connection — reset backoff counter
               this.reconnectAttempts = 0;
               this.eventCallbacks.onConnectionStatus?.('connected');
               resolve();
+            } else if (message.type === 'error' && readyType === 'spectate_welcome') {
+              // No such match (any more): fail now rather than at the timeout
+              clearTimeout(timeoutId);
+              reject(new Error(message.data?.message ?? 'Could not spectate'));
             }
           } catch (error) {
             console.error('Error parsing server message:', error);
@@ -254,7 +383,7 @@ export class MultiplayerManager {
           this.cleanup();
 
           // Automatic reconnection with exponential backoff
-          if (!this.intentionalDisconnect && this.reconnectAttempts < this.MAX_RECONNECT_ATTEMPTS) {
+          if (!this.intentionalDisconnect && !this.spectateTarget && this.reconnectAttempts < this.MAX_RECONNECT_ATTEMPTS) {
             const delayMs = Math.min(30_000, 1_000 * Math.pow(2, this.reconnectAttempts));
             this.reconnectAttempts++;
             console.log(`Reconnecting in ${delayMs / 1000}s (attempt ${this.reconnectAttempts}/${this.MAX_RECONNECT_ATTEMPTS})…`);
@@ -287,10 +416,20 @@ export class MultiplayerManager {
           this._isAdmin = true;
           console.log('[Admin] Joined as admin');
         }
-        // Welcome uses legacy full snapshot for initial load
-        if (message.data.worldState) {
-          this.handleLegacyWorldState(message.data.worldState);
-        }
+        this.applyWorldWelcome(message.data);
+        break;
+
+      case 'spectate_welcome':
+        this.applyWorldWelcome(message.data);
+        this.eventCallbacks.onSpectateStart?.(message.data.match);
+        break;
+
+      case 'spectate_state':
+        this.eventCallbacks.onSpectateState?.(message.data);
+        break;
+
+      case 'spectate_ended':
+        this.eventCallbacks.onSpectateEnded?.(message.data);
         break;
 
       case 'state':
@@ -337,16 +476,29 @@ export class MultiplayerManager {
         this.eventCallbacks.onPvPStatueHit?.(message.data);
         break;
 
+      case 'pvp-lobby':
+        this.eventCallbacks.onPvPLobby?.(message.data);
+        break;
+
       // Heist mode messages
       case 'heist-match-start':
         this.eventCallbacks.onHeistMatchStart?.(message.data);
         break;
+      case 'heist-round-start':
+        this.eventCallbacks.onHeistRoundStart?.(message.data);
+        break;
+      case 'heist-state':
+        this.eventCallbacks.onHeistState?.(message.data);
+        break;
       case 'heist-trophy-grabbed':
         this.eventCallbacks.onHeistTrophyGrabbed?.(message.data);
         break;
       case 'heist-slam':
         this.eventCallbacks.onHeistSlam?.(message.data);
         break;
+      case 'heist-pass':
+        this.eventCallbacks.onHeistPass?.(message.data);
+        break;
       case 'heist-score':
         this.eventCallbacks.onHeistScore?.(message.data);
         break;
@@ -363,6 +515,60 @@ export class MultiplayerManager {
         this.eventCallbacks.onHeistMatchEnd?.(message.data);
         break;
 
+      // MvM messages
+      case 'mvm_match_found':
+        this.eventCallbacks.onMvMMatchFound?.(message.data);
+        break;
+      case 'mvm_round_update':
+        this.eventCallbacks.onMvMRoundUpdate?.(message.data);
+        break;
+      case 'mvm_match_end':
+        this.eventCallbacks.onMvMMatchEnd?.(message.data);
+        break;
+
+      case 'race_leaderboard':
+        this.eventCallbacks.onRaceLeaderboard?.(message.data);
+        break;
+      case 'race_ghost':
+        this.eventCallbacks.onRaceGhost?.(message.data);
+        break;
+      case 'race_run_recorded':
+        this.eventCallbacks.onRaceRunRecorded?.(message.data);
+        break;
+
+      case 'tournament_update':
+        this.eventCallbacks.onTournamentUpdate?.(message.data);
+        break;
+      case 'tournament_match':
+        this.eventCallbacks.onTournamentMatch?.(message.data);
+        break;
+
+      case 'player_banked':
+        this.eventCallbacks.onPlayerBanked?.(message.data);
+        break;
+
+      case 'ledger_balance':
+        this.eventCallbacks.onLedgerBalance?.(message.data);
+        break;
+
+      case 'shop_purchase_result':
+        this.eventCallbacks.onShopPurchaseResult?.(message.data);
+        break;
+
+      case 'ratings':
+        this.ratings.clear();
+        for (const rating of message.data.ratings as RatingSummary[]) {
+          this.ratings.set(rating.mode, rating);
+        }
+        break;
+
+      case 'rating_update': {
+        const { delta: _delta, ...rating } = message.data as RatingUpdateData;
+        this.ratings.set(rating.mode, rating);
+        this.eventCallbacks.onRatingUpdate?.(message.data);
+        break;
+      }
+
       case 'admin_announce':
         this.eventCallbacks.onAdminAnnounce?.(message.data);
         break;
@@ -379,6 +585,14 @@ export class MultiplayerManager {
         this.eventCallbacks.onAdminWarn?.(message.data);
         break;
 
+      case 'correction':
+        // Server rejected our last move — snap back to its authoritative position
+        if (message.data?.position) {
+          this.localBird.controller.applyCorrection(message.data.position, message.data.yaw, message.data.pitch);
+          this.reconciler.reset();
+        }
+        break;
+
       case 'error':
         console.error('Server error:', message.data.message);
         this.eventCallbacks.onServerError?.(message.data.message);
@@ -390,6 +604,29 @@ export class MultiplayerManager {
     }
   }
 
+  /** World details shared by the player and spectator welcomes */
+  private applyWorldWelcome(data: any): void {
+    // Seeded city layout — everyone in this world must build the same one
+    if (typeof data?.worldSeed === 'number') {
+      this.worldSeed = data.worldSeed;
+      this.eventCallbacks.onWorldSeed?.(data.worldSeed);
+    }
+    // Old single-world servers don't report a shard
+    if (typeof data?.worldId === 'string') {
+      this.worldId = data.worldId;
+      this.eventCallbacks.onWorldJoined?.(data.worldId, data.worldName || data.worldId);
+    }
+    // Old servers omit stateCodec and keep sending JSON state
+    this.binaryState = data?.stateCodec === STATE_CODEC_BINARY;
+    this.stateDecoder.reset();
+    this.reconciler.reset();
+    this.localBird.controller.isServerLocked = false;
+    // Welcome uses legacy full snapshot for initial load
+    if (data?.worldState) {
+      this.handleLegacyWorldState(data.worldState);
+    }
+  }
+
   /**
    * Handle legacy full world state (used in welcome message).
    */
@@ -406,6 +643,7 @@ export class MultiplayerManager {
       }
       remotePlayer.updateFromServer(playerState);
       remotePlayer.setLOD('near');
+      this.nearPlayerIds.add(playerState.id);
     }
 
     // Remove unknown players
@@ -417,33 +655,75 @@ export class MultiplayerManager {
   }
 
   /**
-   * Handle global world state (all remote players every tick).
+   * Decode a binary state frame (negotiated codec) into a FilteredWorldState.
+   */
+  private handleStateFrame(frame: ArrayBuffer): void {
+    if (!this.binaryState) return;
+    const state = this.stateDecoder.decode(frame);
+    // Missing baseline — the next update acks -1 and the server sends a keyframe
+    if (!state) return;
+    this.handleFilteredWorldState(state);
+  }
+
+  /**
+   * Handle interest-managed world state: full state for near players every
+   * tick, position-only mid-tier players on the server's mid-tier ticks.
    */
   private handleFilteredWorldState(state: FilteredWorldState): void {
-    const activePlayerIds = new Set<string>();
+    const sample = state.timestamp - Date.now();
+    this.serverClockOffset = this.serverClockOffset === null
+      ? sample
+      : this.serverClockOffset + (sample - this.serverClockOffset) * SERVER_CLOCK_SMOOTHING;
 
+    const nearIds = new Set<string>();
+
+    // Near tier: full state every tick
     for (const playerState of state.players) {
       if (playerState.id === this.playerId) continue;
 
-      activePlayerIds.add(playerState.id);
+      nearIds.add(playerState.id);
       let remotePlayer = this.remotePlayers.get(playerState.id);
       if (!remotePlayer) {
         remotePlayer = this.getOrCreateRemotePlayer(playerState.id, playerState.username);
       }
       remotePlayer.updateFromServer(playerState);
       remotePlayer.setLOD('near');
-      this.visiblePlayerIds.add(playerState.id);
+      this.midPlayerIds.delete(playerState.id);
     }
 
-    // Hide any tracked players missing from this tick's global player list.
-    for (const visibleId of this.visiblePlayerIds) {
-      if (!activePlayerIds.has(visibleId)) {
-        const rp = this.remotePlayers.get(visibleId);
-        if (rp) {
-          rp.setLOD('hidden');
+    // Players that left the near tier drop to mid until the next mid-tier tick decides
+    for (const id of this.nearPlayerIds) {
+      if (nearIds.has(id)) continue;
+      this.remotePlayers.get(id)?.setLOD('mid');
+      this.midPlayerIds.add(id);
+    }
+    this.nearPlayerIds = nearIds;
+
+    // Mid tier: position-only updates at a reduced rate
+    if (state.midPlayers) {
+      const midIds = new Set<string>();
+      for (const midState of state.midPlayers) {
+        if (midState.id === this.playerId || nearIds.has(midState.id)) continue;
+
+        midIds.add(midState.id);
+        let remotePlayer = this.remotePlayers.get(midState.id);
+        if (!remotePlayer) {
+          remotePlayer = this.getOrCreateRemotePlayer(midState.id, midState.username);
         }
-        this.visiblePlayerIds.delete(visibleId);
+        remotePlayer.updatePositionOnly(midState);
+        remotePlayer.setLOD('mid');
       }
+
+      // Out of range and not always-relevant — hide
+      for (const id of this.midPlayerIds) {
+        if (!midIds.has(id)) this.remotePlayers.get(id)?.setLOD('hidden');
+      }
+      this.midPlayerIds = midIds;
+    }
+
+    // Reconcile our predicted position with the server's
+    if (state.ack) {
+      this.reconciler.reconcile(state.ack, this.localBird.controller);
     }
 
     // Process game events
@@ -520,7 +800,8 @@ export class MultiplayerManager {
   private recyclePlayer(playerId: string, remotePlayer: RemotePlayer): void {
     remotePlayer.destroy();
     this.remotePlayers.delete(playerId);
-    this.visiblePlayerIds.delete(playerId);
+    this.nearPlayerIds.delete(playerId);
+    this.midPlayerIds.delete(playerId);
   }
 
   // --- Outgoing Messages ---
@@ -541,11 +822,13 @@ export class MultiplayerManager {
     this.send({
       type: 'update',
       data: {
+        seq: this.reconciler.record(pos),
         position: { x: pos.x, y: pos.y, z: pos.z },
         yaw: this.localBird.controller.yawAngle,
         pitch: this.localBird.controller.pitchAngle,
         speed: this.localBird.controller.forwardSpeed,
         timestamp: now,
+        ...(this.binaryState ? { ackTick: this.stateDecoder.ackTick } : {}),
       },
     });
   }
@@ -558,10 +841,42 @@ export class MultiplayerManager {
       data: {
         position: { x: position.x, y: position.y, z: position.z },
         velocity: { x: velocity.x, y: velocity.y, z: velocity.z },
+        viewTime: this.getServerViewTime(),
       },
     });
   }
 
+  /**
+   * Server time of the world we are rendering right now — remote birds are
+   * drawn REMOTE_INTERP_DELAY_MS behind the snapshots as they arrive.
+   * The server rewinds poop hit tests to this moment.
+   */
+  private getServerViewTime(): number | undefined {
+    if (this.serverClockOffset === null) return undefined;
+    return Math.round(Date.now() + this.serverClockOffset - REMOTE_INTERP_DELAY_MS);
+  }
+
+  /** Report carried coins from NPC hits; the server caps them and banks its own count */
+  sendCoinsEarned(coins: number): void {
+    if (!this.connected || !this.ws) return;
+
+    this.send({
+      type: 'coins_earned',
+      data: { coins },
+    });
+  }
+
+  /** Buy a coin or feather cosmetic; the server charges its catalogue price */
+  sendShopPurchase(itemId: string): boolean {
+    if (!this.connected || !this.ws) return false;
+
+    this.send({
+      type: 'shop_purchase',
+      data: { itemId },
+    });
+    return true;
+  }
+
   sendBanking(): void {
     if (!this.connected || !this.ws) return;
 
@@ -571,12 +886,31 @@ export class MultiplayerManager {
     });
   }
 
-  sendRaceCreate(type: 'short' | 'medium' | 'long'): void {
+  sendBankComplete(): void {
+    if (!this.connected || !this.ws) return;
+
+    this.send({
+      type: 'bank_complete',
+      data: {},
+    });
+  }
+
+  sendBankCancel(): void {
+    if (!this.connected || !this.ws) return;
+
+    this.send({
+      type: 'bank_cancel',
+      data: {},
+    });
+  }
+
+  /** Open a race; with a route code (see RaceRouteEditor) it follows that route instead of generated checkpoints */
+  sendRaceCreate(type: 'short' | 'medium' | 'long', routeCode?: string): void {
     if (!this.connected || !this.ws) return;
 
     this.send({
       type: 'race_create',
-      data: { type },
+      data: { type, routeCode },
     });
   }
 
@@ -598,12 +932,31 @@ export class MultiplayerManager {
     });
   }
 
-  sendChat(message: string): void {
+  requestRaceLeaderboard(routeId: string): void {
+    if (!this.connected || !this.ws) return;
+
+    this.send({
+      type: 'race_leaderboard',
+      data: { routeId },
+    });
+  }
+
+  requestRaceGhost(routeId: string, rank: number): void {
+    if (!this.connected || !this.ws) return;
+
+    this.send({
+      type: 'race_ghost',
+      data: { routeId, rank },
+    });
+  }
+
+  /** Send a line on a channel; `/w` and `/r` lines whisper whatever the channel */
+  sendChat(message: string, channel: ChatChannelId = 'global'): void {
     if (!this.connected || !this.ws) return;
 
     this.send({
       type: 'chat',
-      data: { message },
+      data: { message, channel },
     });
   }
 
@@ -634,11 +987,42 @@ export class MultiplayerManager {
     this.send({ type: 'pvp-hit', data: { points, accuracy, hitPosition } });
   }
 
+  sendPvPLobbyCreate(settings: Partial<PvPLobbySettings> = {}): void {
+    if (!this.connected || !this.ws) return;
+    this.send({ type: 'pvp-lobby-create', data: { settings } });
+  }
+
+  sendPvPLobbyJoin(code: string): void {
+    if (!this.connected || !this.ws) return;
+    this.send({ type: 'pvp-lobby-join', data: { code } });
+  }
+
+  /** Host only; everyone's ready flag is cleared when the rules change */
+  sendPvPLobbySettings(settings: Partial<PvPLobbySettings>): void {
+    if (!this.connected || !this.ws) return;
+    this.send({ type: 'pvp-lobby-settings', data: { settings } });
+  }
+
+  sendPvPLobbyReady(ready: boolean): void {
+    if (!this.connected || !this.ws) return;
+    this.send({ type: 'pvp-lobby-ready', data: { ready } });
+  }
+
+  sendPvPLobbyKick(playerId: string): void {
+    if (!this.connected || !this.ws) return;
+    this.send({ type: 'pvp-lobby-kick', data: { playerId } });
+  }
+
   // --- Heist Messages ---
 
-  sendHeistJoin(): void {
+  sendHeistJoin(format: HeistFormatId = '1v1'): void {
     if (!this.connected || !this.ws) return;
-    this.send({ type: 'heist-join', data: {} });
+    this.send({ type: 'heist-join', data: { format } });
+  }
+
+  sendHeistLeave(): void {
+    if (!this.connected || !this.ws) return;
+    this.send({ type: 'heist-leave', data: {} });
   }
 
   sendHeistGrab(position: { x: number; y: number; z: number }): void {
@@ -656,6 +1040,23 @@ export class MultiplayerManager {
     this.send({ type: 'heist-score', data: { position } });
   }
 
+  sendHeistPass(targetId: string): void {
+    if (!this.connected || !this.ws) return;
+    this.send({ type: 'heist-pass', data: { targetId } });
+  }
+
+  // --- Tournaments ---
+
+  sendTournamentRegister(): void {
+    if (!this.connected || !this.ws) return;
+    this.send({ type: 'tournament-register', data: {} });
+  }
+
+  sendTournamentWithdraw(): void {
+    if (!this.connected || !this.ws) return;
+    this.send({ type: 'tournament-withdraw', data: {} });
+  }
+
   // --- Horse Lasso ---
 
   sendLassoCast(targetId: string): void {
@@ -676,7 +1077,7 @@ export class MultiplayerManager {
   // --- Update Loop ---
 
   update(dt: number): void {
-    if (!this.connected) return;
+    if (!this.connected && !this.replayMode) return;
 
     // Update all visible remote players (interpolation)
     for (const remotePlayer of this.remotePlayers.values()) {
@@ -684,6 +1085,29 @@ export class MultiplayerManager {
     }
   }
 
+  // --- Replay ---
+
+  /** Switch to replay mode: no socket, no local player, every recorded bird is remote. */
+  startReplay(): void {
+    this.replayMode = true;
+    this.playerId = null;
+  }
+
+  /** Feed one recorded whole-world frame. Birds missing from it have left. */
+  applyReplayState(state: FilteredWorldState): void {
+    if (!this.replayMode) return;
+    this.handleFilteredWorldState(state);
+    const present = new Set(state.players.map((player) => player.id));
+    for (const id of Array.from(this.remotePlayers.keys())) {
+      if (!present.has(id)) this.handlePlayerLeft(id);
+    }
+  }
+
+  /** Drop every remote bird before a seek so none glide over from the old time */
+  resetReplay(): void {
+    this.cleanup();
+  }
+
   // --- Helpers ---
 
   private send(message: any): void {
@@ -697,7 +1121,12 @@ export class MultiplayerManager {
       remotePlayer.destroy();
     }
     this.remotePlayers.clear();
-    this.visiblePlayerIds.clear();
+    this.nearPlayerIds.clear();
+    this.midPlayerIds.clear();
+    // Never leave the bird held by a server that is gone
+    this.localBird.controller.isServerLocked = false;
+    this.reconciler.reset();
+    this.serverClockOffset = null;
   }
 
   disconnect(): void {
@@ -712,6 +1141,8 @@ export class MultiplayerManager {
       this.ws = null;
     }
     this.connected = false;
+    // A deliberate leave forgets the shard so the next connect honours the menu choice
+    this.worldId = null;
     this.cleanup();
   }
 
@@ -734,4 +1165,18 @@ export class MultiplayerManager {
   isAdmin(): boolean {
     return this._isAdmin;
   }
+
+  /** Skill ratings for every mode played so far (empty until the server sends them) */
+  getRatings(): RatingSummary[] {
+    return Array.from(this.ratings.values());
+  }
+
+  /** World seed announced by the server (null until welcome) */
+  getWorldSeed(): number | null {
+    return this.worldSeed;
+  }
+
+  getWorldId(): string | null {
+    return this.worldId;
+  }
 }
@@ -42,6 +42,9 @@ interface MidPlayerState {
 
 type LODLevel = 'near' | 'mid' | 'hidden';
 
+/** Remote birds are rendered this far behind the latest snapshot for smooth interpolation */
+export const REMOTE_INTERP_DELAY_MS = 100;
+
 export class RemotePlayer {
   readonly id: string;
   readonly username: string;
@@ -61,7 +64,7 @@ export class RemotePlayer {
 
   // Snapshot interpolation buffer
   private snapshots: Snapshot[] = [];
-  private readonly INTERP_DELAY_MS = 100; // render 100ms behind server for smooth interp
+  private readonly INTERP_DELAY_MS = REMOTE_INTERP_DELAY_MS;
   private readonly MAX_SNAPSHOTS = 30;
 
   // Interpolated render state
@@ -443,4 +446,9 @@ export class RemotePlayer {
   getPosition(): THREE.Vector3 {
     return this.currentPosition.clone();
   }
+
+  /** Interpolated heading, for cameras that chase this bird */
+  getYaw(): number {
+    return this.currentYaw;
+  }
 }
@@ -0,0 +1,139 @@
+/**
+ * Replay Log
+ * A recorded session loaded in the browser (layout in shared/ReplayFormat).
+ * Frames are indexed up front and decoded on demand: stepping forward decodes
+ * one delta, and a seek decodes forward from the nearest keyframe, so any
+ * jump costs at most one keyframe interval of work.
+ */
+
+import { StateDecoder, readFrameHeader } from '../../shared/StateCodec';
+import {
+  REPLAY_RECORD_CHAT,
+  REPLAY_RECORD_FRAME,
+  REPLAY_RECORD_HEADER,
+  REPLAY_RECORD_MESSAGE,
+  REPLAY_VERSION,
+  decodeReplayJson,
+  readReplayRecords,
+  type ReplayChatEntry,
+  type ReplayHeader,
+  type ReplayMessageEntry,
+} from '../../shared/ReplayFormat';
+import type { FilteredWorldState } from '../../shared/types';
+
+interface IndexedFrame {
+  tick: number;
+  timestamp: number;
+  keyframe: boolean;
+  payload: Uint8Array;
+}
+
+export class ReplayLog {
+  readonly header: ReplayHeader;
+  readonly chats: ReplayChatEntry[];
+  readonly messages: ReplayMessageEntry[];
+  private frames: IndexedFrame[];
+  private decoder = new StateDecoder();
+  private decodedIndex = -1;
+
+  private constructor(header: ReplayHeader, frames: IndexedFrame[], chats: ReplayChatEntry[], messages: ReplayMessageEntry[]) {
+    this.header = header;
+    this.frames = frames;
+    this.chats = chats;
+    this.messages = messages;
+  }
+
+  /** Parse a replay file. Throws on files that are not replays or hold no frames. */
+  static parse(buffer: ArrayBuffer): ReplayLog {
+    let header: ReplayHeader | null = null;
+    const frames: IndexedFrame[] = [];
+    const chats: ReplayChatEntry[] = [];
+    const messages: ReplayMessageEntry[] = [];
+
+    for (const record of readReplayRecords(new Uint8Array(buffer))) {
+      switch (record.kind) {
+        case REPLAY_RECORD_HEADER:
+          header = decodeReplayJson<ReplayHeader>(record.payload);
+          break;
+        case REPLAY_RECORD_FRAME:
+          frames.push({ ...readFrameHeader(record.payload), payload: record.payload });
+          break;
+        case REPLAY_RECORD_CHAT:
+          chats.push(decodeReplayJson<ReplayChatEntry>(record.payload));
+          break;
+        case REPLAY_RECORD_MESSAGE:
+          messages.push(decodeReplayJson<ReplayMessageEntry>(record.payload));
+          break;
+        default:
+          // Newer record kinds are skipped so old viewers still play new files
+          break;
+      }
+    }
+
+    if (!header) throw new Error('Replay has no header');
+    if (header.version > REPLAY_VERSION) throw new Error(`Replay version ${header.version} is newer than this client`);
+    if (frames.length === 0 || !frames[0].keyframe) throw new Error('Replay has no frames');
+    return new ReplayLog(header, frames, chats, messages);
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  /** Server time of the first and last frame (ms since epoch) */
+  get startTime(): number {
+    return this.frames[0].timestamp;
+  }
+
+  get endTime(): number {
+    return this.frames[this.frames.length - 1].timestamp;
+  }
+
+  frameTick(index: number): number {
+    return this.frames[index].tick;
+  }
+
+  frameTime(index: number): number {
+    return this.frames[index].timestamp;
+  }
+
+  /** Index of the last frame recorded at or before `time` (binary search) */
+  frameIndexAt(time: number): number {
+    let lo = 0;
+    let hi = this.frames.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.frames[mid].timestamp <= time) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  }
+
+  /** Decode frame `index`, stepping from the previous frame or the nearest keyframe. */
+  stateAt(index: number): FilteredWorldState | null {
+    if (index < 0 || index >= this.frames.length) return null;
+
+    let start = index;
+    if (index !== this.decodedIndex + 1 || this.decodedIndex < 0) {
+      while (start > 0 && !this.frames[start].keyframe) start--;
+      this.decoder.reset();
+    }
+
+    let state: FilteredWorldState | null = null;
+    for (let i = start; i <= index; i++) {
+      state = this.decoder.decode(this.frames[i].payload);
+    }
+    this.decodedIndex = state ? index : -1;
+    return state;
+  }
+
+  /** Chat sent in (fromTick, toTick] */
+  chatsBetween(fromTick: number, toTick: number): ReplayChatEntry[] {
+    return this.chats.filter((entry) => entry.tick > fromTick && entry.tick <= toTick);
+  }
+
+  /** Out-of-band server messages (PvP rounds, heist scoring) in (fromTick, toTick] */
+  messagesBetween(fromTick: number, toTick: number): ReplayMessageEntry[] {
+    return this.messages.filter((entry) => entry.tick > fromTick && entry.tick <= toTick);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * World Browser
+ * Client side of the server's world shards: fetches the lobby listing
+ * (GET /lobby on the game server's port), measures ping from the request
+ * round trip, remembers the world the player picked, and gathers the
+ * murmuration/friend hints the server uses to auto-place players together.
+ * The same listing names the live matches spectators can watch.
+ */
+
+import { authStateManager } from '../services/AuthStateManager';
+import { murmurationService } from '../services/MurmurationService';
+import type { SpectatableMatch } from '../../shared/types';
+
+/** Let the server choose a shard (friends and murmuration first) */
+export const AUTO_WORLD_ID = 'auto';
+
+const WORLD_CHOICE_KEY = 'birdgame_world';
+const LOBBY_TIMEOUT_MS = 4000;
+
+export interface WorldListing {
+  id: string;
+  name: string;
+  population: number;
+  capacity: number;
+  full: boolean;
+  bots: number;
+  /** Online members of the local player's murmuration in this world */
+  murmurationMembers: number;
+  pingMs: number;
+}
+
+/** Sent with `join` so auto-placement can seat the player next to their people */
+export interface JoinAffinity {
+  murmurationId?: string;
+  murmurationTag?: string;
+  murmurationRole?: string;
+  /** User IDs of friends; the server matches them against player ID prefixes */
+  friendIds?: string[];
+}
+
+/** World to request at join: the menu choice, then VITE_WORLD_ID, then auto. */
+export function getPreferredWorldId(): string {
+  try {
+    const saved = localStorage.getItem(WORLD_CHOICE_KEY)?.trim();
+    if (saved) return saved;
+  } catch {
+    // Storage blocked (private mode) — fall through to the default
+  }
+  return (import.meta.env.VITE_WORLD_ID as string | undefined)?.trim() || AUTO_WORLD_ID;
+}
+
+export function setPreferredWorldId(worldId: string): void {
+  try {
+    localStorage.setItem(WORLD_CHOICE_KEY, worldId);
+  } catch {
+    // Non-fatal: the choice just won't survive a reload
+  }
+}
+
+/** ws://host:3001 → http://host:3001/lobby (wss → https) */
+export function lobbyUrlFromWsUrl(wsUrl: string): string {
+  const url = new URL(wsUrl);
+  url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+  url.pathname = '/lobby';
+  url.search = '';
+  return url.toString();
+}
+
+/** GET the lobby and time the round trip; null when the server is unreachable or too old to have a lobby */
+async function fetchLobby(wsUrl: string, murmurationId?: string): Promise<{ body: any; pingMs: number } | null> {
+  const url = new URL(lobbyUrlFromWsUrl(wsUrl));
+  if (murmurationId) url.searchParams.set('murmurationId', murmurationId);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), LOBBY_TIMEOUT_MS);
+  try {
+    const started = performance.now();
+    const response = await fetch(url.toString(), { cache: 'no-store', signal: controller.signal });
+    const pingMs = Math.round(performance.now() - started);
+    if (!response.ok) return null;
+    return { body: await response.json(), pingMs };
+  } catch (error) {
+    console.warn('[multiplayer] World list unavailable:', error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/** Fetch the world list. Returns null when the server is unreachable or too old to have a lobby. */
+export async function fetchWorldListings(wsUrl: string, murmurationId?: string): Promise<WorldListing[] | null> {
+  const lobby = await fetchLobby(wsUrl, murmurationId);
+  if (!Array.isArray(lobby?.body?.shards)) return null;
+  return lobby.body.shards.map((shard: Omit<WorldListing, 'pingMs'>) => ({ ...shard, pingMs: lobby.pingMs }));
+}
+
+/** PvP rounds, heists and MvM matches open to spectators. Null when the server is unreachable or predates spectating. */
+export async function fetchLiveMatches(wsUrl: string): Promise<SpectatableMatch[] | null> {
+  const lobby = await fetchLobby(wsUrl);
+  return Array.isArray(lobby?.body?.matches) ? lobby.body.matches : null;
+}
+
+/** Murmuration membership of the signed-in player; guests have none. */
+export async function loadJoinAffinity(): Promise<JoinAffinity> {
+  const authState = authStateManager.getState();
+  if (!authState.isAuthenticated || !authState.userId) return {};
+  try {
+    const murmuration = await murmurationService.getPlayerMurmuration(authState.userId);
+    if (!murmuration) return {};
+    return {
+      murmurationId: murmuration.id,
+      murmurationTag: murmuration.tag,
+      murmurationRole: murmuration.alpha_id === authState.userId ? 'alpha' : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * A private PvP lobby invite from the page URL (`?lobby=CODE&world=ID`, see
+ * InviteFriends): picks the lobby's world for the coming join, removes the
+ * parameters so a reload doesn't join again, and returns the code to join.
+ */
+export function takeLobbyInvite(): string | null {
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get('lobby');
+  if (!code) return null;
+
+  const worldId = url.searchParams.get('world');
+  if (worldId) setPreferredWorldId(worldId);
+  url.searchParams.delete('lobby');
+  url.searchParams.delete('world');
+  window.history.replaceState({}, '', url.toString());
+  return code;
+}
@@ -0,0 +1,51 @@
+/**
+ * BotDodge - The dodge flip shared by the offline bots (PvPBot, HeistBot).
+ * While something is bearing down on a bot it may barrel-roll sideways out
+ * of the way, as a player would with a flip; how often depends on its tier.
+ */
+
+import * as THREE from 'three';
+import { PVP } from '../utils/Constants';
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+export class BotDodge {
+  private timer = 0;
+  private side = 1;
+  private lateral = new THREE.Vector3();
+
+  get active(): boolean {
+    return this.timer > 0;
+  }
+
+  /**
+   * Roll for a dodge away from `threat` when it is within reach.
+   * `flipRate` is the bot's tier multiplier; 0 never dodges.
+   */
+  consider(dt: number, position: THREE.Vector3, forward: THREE.Vector3, threat: THREE.Vector3 | null, flipRate: number): void {
+    if (this.timer > 0 || !threat || flipRate <= 0) return;
+    if (position.distanceToSquared(threat) > PVP.BOT_THREAT_RADIUS * PVP.BOT_THREAT_RADIUS) return;
+    if (Math.random() >= PVP.BOT_DODGE_CHANCE * flipRate * dt) return;
+
+    // Break to whichever side puts more room between us and the threat
+    this.lateral.crossVectors(forward, UP).normalize();
+    const toThreat = new THREE.Vector3().subVectors(threat, position);
+    this.side = this.lateral.dot(toThreat) > 0 ? -1 : 1;
+    this.timer = PVP.BOT_DODGE_DURATION;
+  }
+
+  /** Sidestep the bot while a dodge is in progress */
+  update(dt: number, position: THREE.Vector3, forward: THREE.Vector3): void {
+    if (this.timer <= 0) return;
+    this.timer = Math.max(0, this.timer - dt);
+    this.lateral.crossVectors(forward, UP).normalize();
+    position.addScaledVector(this.lateral, this.side * PVP.BOT_DODGE_SPEED * dt);
+  }
+
+  /** Barrel-roll the mesh; call after it has been pointed along its heading */
+  applyRoll(mesh: THREE.Object3D): void {
+    if (this.timer <= 0) return;
+    const progress = 1 - this.timer / PVP.BOT_DODGE_DURATION;
+    mesh.rotateZ(progress * Math.PI * 2 * this.side);
+  }
+}
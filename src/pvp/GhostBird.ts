@@ -0,0 +1,96 @@
+/**
+ * GhostBird - Translucent bird replaying a recorded race run.
+ * Rendered like a RemotePlayer (procedural bird + name tag) but driven by a
+ * GhostTrack instead of server snapshots, and never collides with anything.
+ */
+
+import * as THREE from 'three';
+import { createBirdModel, animateWings } from '../entities/BirdModel';
+import { GhostTrack, sampleGhost } from '../../shared/GhostTrack';
+
+const GHOST_OPACITY = 0.35;
+const GHOST_COLOR = 0x88ccff;
+
+export class GhostBird {
+  readonly track: GhostTrack;
+  private scene: THREE.Scene;
+  private mesh: THREE.Group;
+  private nameTag: THREE.Sprite;
+  private animTime = 0;
+  private prevPosition = new THREE.Vector3();
+
+  constructor(track: GhostTrack, scene: THREE.Scene) {
+    this.track = track;
+    this.scene = scene;
+
+    this.mesh = createBirdModel();
+    // Own translucent copies, so the ghost never fades the real birds' shared materials
+    this.mesh.traverse((obj) => {
+      if (obj instanceof THREE.Mesh && obj.material instanceof THREE.Material) {
+        const material = obj.material.clone();
+        material.transparent = true;
+        material.opacity = GHOST_OPACITY;
+        material.depthWrite = false;
+        if ('color' in material && material.color instanceof THREE.Color) material.color.lerp(new THREE.Color(GHOST_COLOR), 0.5);
+        obj.material.dispose();
+        obj.material = material;
+      }
+    });
+
+    this.nameTag = this.createNameTag(`${track.playerName} ${track.time.toFixed(1)}s`);
+    this.mesh.add(this.nameTag);
+    this.mesh.visible = false;
+    this.scene.add(this.mesh);
+  }
+
+  /** Pose the ghost where it was `seconds` into its run */
+  update(dt: number, seconds: number): void {
+    const pose = sampleGhost(this.track, seconds);
+    if (!pose) return;
+
+    this.prevPosition.copy(this.mesh.position);
+    this.mesh.position.set(pose.position.x, pose.position.y, pose.position.z);
+    this.mesh.rotation.y = pose.yaw;
+
+    const speed = dt > 0 && this.mesh.visible ? this.mesh.position.distanceTo(this.prevPosition) / dt : 0;
+    this.animTime += dt;
+    animateWings(this.mesh, this.animTime, speed);
+    this.mesh.visible = true;
+  }
+
+  private createNameTag(text: string): THREE.Sprite {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 64;
+    const ctx = canvas.getContext('2d')!;
+
+    ctx.fillStyle = 'rgba(40, 80, 140, 0.5)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 24px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    const material = new THREE.SpriteMaterial({ map: texture, transparent: true, opacity: 0.7 });
+    const sprite = new THREE.Sprite(material);
+    sprite.scale.set(4, 1, 1);
+    sprite.position.y = 3;
+
+    return sprite;
+  }
+
+  dispose(): void {
+    this.scene.remove(this.mesh);
+    this.mesh.traverse((obj) => {
+      if (obj instanceof THREE.Mesh) {
+        obj.geometry?.dispose();
+        if (obj.material instanceof THREE.Material) obj.material.dispose();
+      }
+    });
+    this.nameTag.material.map?.dispose();
+    this.nameTag.material.dispose();
+  }
+}
@@ -3,15 +3,24 @@
  * Flies around the city following waypoints with mode-specific behavior.
  * Uses an event callback to relay game events (checkpoints, hits, tag transfers)
  * back to PvPManager so they're properly tracked by the active mode.
+ * Its difficulty tier scales reactions, aim, target leading and dodge flips.
  */
 
 import * as THREE from 'three';
 import { PvPPlayer } from './PvPMode';
+import { BotDodge } from './BotDodge';
 import { PVP, FLIGHT, WORLD } from '../utils/Constants';
+import {
+  BOT_DIFFICULTY_PROFILES,
+  DEFAULT_BOT_DIFFICULTY,
+  type BotDifficulty,
+  type BotDifficultyProfile,
+} from '../../shared/BotDifficulty';
 
 const BOT_BIRD_GEO = new THREE.ConeGeometry(0.6, 1.8, 6);
 const WAYPOINT_REACH_DIST_SQ = 25; // 5 units squared
 const TAG_TRANSFER_DIST_SQ = 25;   // ~5 units — proximity to tag another player
+const MAX_LEAD_SECONDS = 1.5;
 
 export type BotEventCallback = (type: string, data: any) => void;
 
@@ -25,6 +34,12 @@ export class PvPBot {
   private forward = new THREE.Vector3(0, 0, -1);
   private speed = FLIGHT.BASE_SPEED * PVP.BOT_SPEED_FACTOR;
   private reactionTimer = 0;
+  private difficulty: BotDifficultyProfile = BOT_DIFFICULTY_PROFILES[DEFAULT_BOT_DIFFICULTY];
+  private dodge = new BotDodge();
+
+  // Other players' velocities, estimated from frame-to-frame movement
+  private lastPositions = new Map<string, THREE.Vector3>();
+  private velocities = new Map<string, THREE.Vector3>();
 
   // Mode-specific
   private modeId = '';
@@ -74,6 +89,10 @@ export class PvPBot {
     this.pickRandomWaypoint();
   }
 
+  setDifficulty(difficulty: BotDifficulty): void {
+    this.difficulty = BOT_DIFFICULTY_PROFILES[difficulty];
+  }
+
   /** Set callback for relaying game events to PvPManager. */
   setEventCallback(cb: BotEventCallback): void {
     this.eventCallback = cb;
@@ -108,6 +127,7 @@ export class PvPBot {
   update(dt: number): void {
     this.reactionTimer -= dt;
     this.poopCooldown -= dt;
+    this.trackVelocities(dt);
 
     switch (this.modeId) {
       case 'poop-tag':
@@ -123,10 +143,12 @@ export class PvPBot {
         this.updateDefaultBehavior(dt);
         break;
     }
+    this.dodge.update(dt, this.player.position, this.forward);
 
     // Apply movement
     this.mesh.position.copy(this.player.position);
     this.mesh.lookAt(this.player.position.clone().add(this.forward));
+    this.dodge.applyRoll(this.mesh);
 
     // Wing flap animation
     const wings = this.mesh.children[1];
@@ -149,7 +171,7 @@ export class PvPBot {
     if (isTagged) {
       // Chase nearest non-tagged player
       if (this.reactionTimer <= 0) {
-        this.reactionTimer = PVP.BOT_REACTION_TIME;
+        this.reactionTimer = PVP.BOT_REACTION_TIME * this.difficulty.reactionScale;
         const target = this.findNearestPlayer();
         if (target) {
           this.waypoint.copy(target);
@@ -168,17 +190,19 @@ export class PvPBot {
               targetId: this.chaseTargetId,
             });
             this.chaseTargetId = '';
-            this.reactionTimer = PVP.BOT_REACTION_TIME * 2; // Pause after tagging
+            this.reactionTimer = PVP.BOT_REACTION_TIME * this.difficulty.reactionScale * 2; // Pause after tagging
           }
         }
       }
     } else {
-      // Flee from tagged player
+      // Flee from tagged player, flipping aside when they get close
       if (this.reactionTimer <= 0) {
-        this.reactionTimer = PVP.BOT_REACTION_TIME * 1.5;
+        this.reactionTimer = PVP.BOT_REACTION_TIME * this.difficulty.reactionScale * 1.5;
         this.pickFleeWaypoint();
       }
       this.speed = FLIGHT.BASE_SPEED * PVP.BOT_SPEED_FACTOR;
+      const tagged = this.otherPlayers.find(p => p.id === this.modeData.taggedPlayerId);
+      this.dodge.consider(dt, this.player.position, this.forward, tagged?.position ?? null, this.difficulty.flipRate);
     }
 
     this.flyToward(this.waypoint, dt);
@@ -205,7 +229,7 @@ export class PvPBot {
       (Math.random() - 0.5) * 3,
       (Math.random() - 0.5) * 2,
       (Math.random() - 0.5) * 3,
-    );
+    ).multiplyScalar(this.difficulty.aimError);
     this.waypoint.copy(target).add(offset);
     this.speed = FLIGHT.BASE_SPEED * PVP.BOT_SPEED_FACTOR * (0.9 + Math.random() * 0.2);
 
@@ -245,7 +269,8 @@ export class PvPBot {
     if (this.poopCooldown <= 0) {
       this.poopCooldown = 1.5 + Math.random() * 2;
       const dist = this.player.position.distanceTo(this.statuePosition);
-      if (dist < PVP.COVER_HIT_RADIUS * 2 && Math.random() < PVP.BOT_ACCURACY) {
+      const hitChance = Math.min(0.95, PVP.BOT_ACCURACY / this.difficulty.aimError);
+      if (dist < PVP.COVER_HIT_RADIUS * 2 && Math.random() < hitChance) {
         if (this.eventCallback) {
           const accuracy = 1 - (dist / (PVP.COVER_HIT_RADIUS * 2));
           this.eventCallback('statue-hit', {
@@ -323,11 +348,36 @@ export class PvPBot {
     }
     if (closest) {
       this.chaseTargetId = closest.id;
-      return closest.position.clone();
+      return this.leadPosition(closest);
     }
     return null;
   }
 
+  /** Where a player will be by the time we reach them, as far as our tier can tell */
+  private leadPosition(target: PvPPlayer): THREE.Vector3 {
+    const aim = target.position.clone();
+    const velocity = this.velocities.get(target.id);
+    if (!velocity || this.difficulty.aimPrediction <= 0) return aim;
+    const seconds = Math.min(MAX_LEAD_SECONDS, this.player.position.distanceTo(target.position) / Math.max(1, this.speed));
+    return aim.addScaledVector(velocity, seconds * this.difficulty.aimPrediction);
+  }
+
+  private trackVelocities(dt: number): void {
+    if (dt <= 0) return;
+    for (const p of this.otherPlayers) {
+      const last = this.lastPositions.get(p.id);
+      if (last) {
+        const velocity = this.velocities.get(p.id) ?? new THREE.Vector3();
+        velocity.subVectors(p.position, last).divideScalar(dt);
+        if (velocity.lengthSq() > FLIGHT.MAX_SPEED * FLIGHT.MAX_SPEED * 4) velocity.set(0, 0, 0); // Respawn, not flight
+        this.velocities.set(p.id, velocity);
+        last.copy(p.position);
+      } else {
+        this.lastPositions.set(p.id, p.position.clone());
+      }
+    }
+  }
+
   getRaceCheckpoint(): number {
     return this.currentCheckpoint;
   }
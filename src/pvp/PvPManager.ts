@@ -1,6 +1,7 @@
 /**
  * PvPManager - Central coordinator for all PvP modes.
  * Handles round lifecycle, player opt-in, bot spawning, and mode registry.
+ * Practice rounds run locally against bots only, even while connected.
  */
 
 import * as THREE from 'three';
@@ -17,6 +18,11 @@ import type { CollisionSystem } from '../systems/CollisionSystem';
 import type { PoopManager } from '../entities/PoopManager';
 import type { FlightRingSystem } from '../systems/FlightRingSystem';
 import type { MultiplayerManager } from '../multiplayer/MultiplayerManager';
+import type { PvPResultsData } from '../../shared/types';
+import type { RatingUpdateData } from '../../shared/RatingBands';
+import type { PvPLobbyModeId, PvPLobbySettings, PvPLobbyView } from '../../shared/PvPLobbySettings';
+import { DEFAULT_BOT_DIFFICULTY, parseBotDifficulty, type BotDifficulty } from '../../shared/BotDifficulty';
+import { HEIST_FORMATS, getHeistFormatByMode, isHeistFormatId } from '../../shared/HeistFormats';
 
 export type PvPPhase = 'idle' | 'lobby' | 'countdown' | 'active' | 'ending' | 'results';
 
@@ -51,6 +57,16 @@ interface PvPMine {
   armedDelay: number;
 }
 
+const PRACTICE_DIFFICULTY_KEY = 'birdgame_bot_difficulty';
+
+function loadBotDifficulty(): BotDifficulty {
+  try {
+    return parseBotDifficulty(localStorage.getItem(PRACTICE_DIFFICULTY_KEY) ?? undefined);
+  } catch {
+    return DEFAULT_BOT_DIFFICULTY;
+  }
+}
+
 // Player colors for PvP identification
 const PLAYER_COLORS = [
   0xff4444, 0x4488ff, 0x44ff44, 0xffcc00,
@@ -73,9 +89,22 @@ export class PvPManager {
   private nextColorIndex = 0;
   private serverAuthoritative = false;
   private serverModeStarted = false;
+  /** Server heist match we are playing; heist events for other matches are ignored */
+  private heistMatchId: string | null = null;
+  /** Waiting in the server's heist queue */
+  private heistQueued = false;
   private combatTime = 0;
   private combatState = new Map<string, PvPCombatState>();
   private mines: PvPMine[] = [];
+  /** Private lobby we are in, as the server last described it */
+  private privateLobby: PvPLobbyView | null = null;
+  /** Current round is a bots-only practice round, kept local even when connected */
+  private practice = false;
+  /** Tier for local bots, remembered between sessions */
+  private botDifficulty: BotDifficulty = loadBotDifficulty();
+
+  /** Opens the invite panel for the private lobby we are in */
+  onLobbyInvite: ((lobby: PvPLobbyView) => void) | null = null;
 
   // Dependencies
   private deps!: PvPManagerDeps;
@@ -185,8 +214,10 @@ export class PvPManager {
       scene: this.deps.scene,
       eventBus: this.eventBus,
       localPlayerId: this.localPlayerId,
+      botDifficulty: this.botDifficulty,
     };
     mode.setContext(context);
+    mode.setServerSetup(null);
 
     // Add local player
     this.players = [];
@@ -194,7 +225,8 @@ export class PvPManager {
 
     // Add currently visible remote multiplayer players first (friends > bots)
     const maxPlayers = mode.getMaxPlayers();
-    for (const rp of this.getVisibleRemotePlayers()) {
+    const remotes = this.practice ? [] : this.getVisibleRemotePlayers();
+    for (const rp of remotes) {
       if (this.players.length >= maxPlayers) break;
       if (!this.players.find(p => p.id === rp.id)) {
         const added = this.addPlayer(rp.id, rp.username, false, false);
@@ -218,11 +250,51 @@ export class PvPManager {
     }, PVP.LOBBY_DURATION * 1000);
   }
 
+  /**
+   * Start a bots-only round of the given mode. Runs locally with the same mode
+   * classes as a server round, leaving any server session first.
+   */
+  startPractice(modeId: string): void {
+    if (!this.modes.has(modeId)) return;
+    if (this.deps.multiplayer?.isConnected() && (this.serverAuthoritative || this.privateLobby)) {
+      this.deps.multiplayer.sendPvPLeave();
+    }
+    this.leaveHeist();
+    if (this.phase !== 'idle') this.cleanup();
+
+    this.practice = true;
+    this.startMode(modeId);
+  }
+
+  isPractice(): boolean {
+    return this.practice;
+  }
+
+  getBotDifficulty(): BotDifficulty {
+    return this.botDifficulty;
+  }
+
+  /** Tier for local bots from now on; bots already in a round keep theirs */
+  setBotDifficulty(difficulty: BotDifficulty): void {
+    this.botDifficulty = difficulty;
+    try {
+      localStorage.setItem(PRACTICE_DIFFICULTY_KEY, difficulty);
+    } catch {
+      // Private browsing: the choice lasts for this session only
+    }
+  }
+
   /** Player opts in to the current round (during lobby phase). */
   joinMode(modeId: string): void {
-    // Multiplayer path: server-authoritative PvP sessions.
+    // Multiplayer path: server-authoritative PvP sessions, or the heist queue.
     if (this.deps.multiplayer?.isConnected()) {
-      this.deps.multiplayer.sendPvPJoin(modeId);
+      const heistFormat = getHeistFormatByMode(modeId);
+      if (heistFormat) {
+        this.deps.multiplayer.sendHeistJoin(heistFormat.id);
+        this.heistQueued = true;
+      } else {
+        this.deps.multiplayer.sendPvPJoin(modeId);
+      }
       return;
     }
 
@@ -244,8 +316,9 @@ export class PvPManager {
 
   /** Player leaves the current round. */
   leaveMode(): void {
-    if (this.deps.multiplayer?.isConnected()) {
+    if (this.deps.multiplayer?.isConnected() && !this.practice) {
       this.deps.multiplayer.sendPvPLeave();
+      this.leaveHeist();
       if (this.serverAuthoritative) {
         this.cleanup();
       }
@@ -299,6 +372,40 @@ export class PvPManager {
     };
   }
 
+  // --- Private lobbies (online only; leaving is leaveMode) ---
+
+  canUsePrivateLobbies(): boolean {
+    return !!this.deps.multiplayer?.isConnected();
+  }
+
+  getPrivateLobby(): PvPLobbyView | null {
+    return this.privateLobby;
+  }
+
+  createPrivateLobby(modeId: PvPLobbyModeId): void {
+    this.deps.multiplayer?.sendPvPLobbyCreate({ modeId });
+  }
+
+  joinPrivateLobby(code: string): void {
+    this.deps.multiplayer?.sendPvPLobbyJoin(code);
+  }
+
+  updatePrivateLobbySettings(settings: Partial<PvPLobbySettings>): void {
+    this.deps.multiplayer?.sendPvPLobbySettings(settings);
+  }
+
+  setPrivateLobbyReady(ready: boolean): void {
+    this.deps.multiplayer?.sendPvPLobbyReady(ready);
+  }
+
+  kickFromPrivateLobby(playerId: string): void {
+    this.deps.multiplayer?.sendPvPLobbyKick(playerId);
+  }
+
+  inviteToPrivateLobby(): void {
+    if (this.privateLobby) this.onLobbyInvite?.(this.privateLobby);
+  }
+
   getAvailableEvents() {
     return this.availableEvents;
   }
@@ -386,7 +493,7 @@ export class PvPManager {
       }
     }
 
-    if (this.serverAuthoritative) {
+    if (this.serverAuthoritative || this.practice) {
       return;
     }
 
@@ -473,13 +580,14 @@ export class PvPManager {
 
   /** Server-authoritative mode start payload handler. */
   onServerModeStart(data: any): void {
+    if (this.heistMatchId) return; // A heist match runs on heist events only
     const modeId = typeof data?.mode === 'string' ? data.mode : '';
     const phase = (data?.phase as PvPPhase) || 'active';
     const players = Array.isArray(data?.players) ? data.players : [];
     if (!modeId) return;
 
     this.serverAuthoritative = true;
-    this.startModeFromServer(modeId, players, phase, Number(data?.timeRemaining) || 0);
+    this.startModeFromServer(modeId, players, phase, Number(data?.timeRemaining) || 0, data?.modeData);
   }
 
   /** Server-authoritative state sync payload handler. */
@@ -488,6 +596,7 @@ export class PvPManager {
     const phase = data?.phase as PvPPhase | undefined;
     const players = Array.isArray(data?.players) ? data.players : [];
     const timeRemaining = Number(data?.timeRemaining) || 0;
+    if (this.heistMatchId) return;
 
     // No active server round.
     if (!modeId || phase === 'idle') {
@@ -498,14 +607,109 @@ export class PvPManager {
     }
 
     this.serverAuthoritative = true;
-    this.startModeFromServer(modeId, players, phase || 'lobby', timeRemaining);
+    this.startModeFromServer(modeId, players, phase || 'lobby', timeRemaining, data?.modeData);
   }
 
-  /** Server-authoritative mode end payload handler. */
-  onServerModeEnd(_data: any): void {
-    if (!this.serverAuthoritative) return;
+  /** Server-authoritative mode end payload handler: shows the server's standings, not a local tally. */
+  onServerModeEnd(data: any): void {
+    if (!this.serverAuthoritative || this.heistMatchId) return;
     this.setPhase('results');
     this.resultsTimer = PVP.RESULTS_DISPLAY_DURATION;
+
+    const results = this.toLocalResults(data?.results);
+    if (!results) return; // Heist and admin-ended rounds carry no standings
+    this.lastResults = results;
+    this.resultsPanel.showResults(results);
+    this.eventBus.emit('round-results', results);
+  }
+
+  /** A server heist match we are seated in: queued, private or tournament. */
+  onServerHeistMatchStart(data: any): void {
+    const formatId = typeof data?.format === 'string' ? data.format : '';
+    const format = isHeistFormatId(formatId) ? HEIST_FORMATS[formatId] : null;
+    const mode = format ? this.modes.get(format.modeId) : undefined;
+    const participants: Array<{ id: string; username: string; isBot: boolean }> =
+      Array.isArray(data?.participants) ? data.participants : [];
+    if (!mode || typeof data?.matchId !== 'string') return;
+
+    this.cleanup();
+    this.serverAuthoritative = true;
+    this.heistMatchId = data.matchId;
+    this.activeMode = mode;
+
+    const multiplayer = this.deps.multiplayer;
+    const context: PvPModeContext = {
+      scene: this.deps.scene,
+      eventBus: this.eventBus,
+      localPlayerId: this.localPlayerId,
+      reportHeist: multiplayer ? {
+        grab: (position) => multiplayer.sendHeistGrab(position),
+        slam: (position, speed) => multiplayer.sendHeistSlam(position, speed),
+        score: (position) => multiplayer.sendHeistScore(position),
+        pass: (targetId) => multiplayer.sendHeistPass(targetId),
+      } : undefined,
+    };
+    mode.setContext(context);
+    mode.setServerSetup(data);
+
+    for (const p of participants) {
+      this.addPlayer(p.id, p.username, p.isBot, p.id === this.localPlayerId);
+    }
+    this.setPhase('countdown');
+    this.countdownTimer = Number(data.countdown) || 0;
+  }
+
+  /** Heist match events and snapshots; the match end shows the mode's final standings. */
+  onServerHeistEvent(type: string, data: any): void {
+    if (!this.heistMatchId || data?.matchId !== this.heistMatchId || !this.activeMode) return;
+
+    switch (type) {
+      case 'heist-round-start':
+        this.setPhase('active');
+        this.activeMode.onStart(this.players);
+        this.serverModeStarted = true;
+        break;
+
+      case 'heist-state':
+        if (this.phase === 'countdown') {
+          this.countdownTimer = data.timeRemaining;
+          this.eventBus.emit('countdown-tick', { timeRemaining: Math.ceil(this.countdownTimer) });
+        } else if (this.serverModeStarted) {
+          this.roundTimer = data.timeRemaining;
+          this.activeMode.onServerEvent(type, data);
+        }
+        break;
+
+      case 'heist-match-end':
+        if (!this.serverModeStarted) break;
+        this.activeMode.onServerEvent(type, data);
+        this.endRound();
+        break;
+
+      default:
+        if (this.serverModeStarted) this.activeMode.onServerEvent(type, data);
+    }
+  }
+
+  private leaveHeist(): void {
+    if (!this.heistQueued && !this.heistMatchId) return;
+    this.deps.multiplayer?.sendHeistLeave();
+    this.heistQueued = false;
+  }
+
+  /** Private lobby update; null when we left, were kicked or it closed. */
+  onServerLobby(lobby: PvPLobbyView | null): void {
+    const left = this.privateLobby !== null && lobby === null;
+    this.privateLobby = lobby;
+    if (left && this.serverAuthoritative && (this.phase === 'lobby' || this.phase === 'countdown')) {
+      this.cleanup();
+    }
+    this.hub.setPrivateLobby(lobby);
+  }
+
+  /** Rating change after a rated round; shown on the results panel if it is still up. */
+  onServerRatingUpdate(data: RatingUpdateData): void {
+    this.resultsPanel.showRatingChange(data);
   }
 
   /** Apply server-relayed Poop Tag transfer. */
@@ -532,13 +736,42 @@ export class PvPManager {
     const playerId = typeof data?.playerId === 'string' ? data.playerId : '';
     if (!playerId) return;
     const accuracy = Number(data?.accuracy);
+    const points = Number(data?.points);
+    const hit = data?.hitPosition;
     this.eventBus.emit('statue-hit', {
       playerId,
       accuracy: Number.isFinite(accuracy) ? accuracy : 0.5,
-      hitPosition: data?.hitPosition,
+      hitPosition: hit ? new THREE.Vector3(Number(hit.x) || 0, Number(hit.y) || 0, Number(hit.z) || 0) : undefined,
+      points: Number.isFinite(points) ? points : undefined,
     });
   }
 
+  /** Map the server's standings onto round players (or stand-ins for players who have since left). */
+  private toLocalResults(data: PvPResultsData | undefined): PvPResults | null {
+    if (!data || !Array.isArray(data.standings)) return null;
+
+    return {
+      modeId: data.modeId,
+      modeName: data.modeName,
+      duration: data.duration,
+      standings: data.standings.map((standing) => ({
+        player: this.players.find(p => p.id === standing.playerId) ?? {
+          id: standing.playerId,
+          name: standing.username,
+          isBot: false,
+          score: standing.score,
+          isLocal: standing.playerId === this.localPlayerId,
+          color: 0xffffff,
+          position: new THREE.Vector3(),
+        },
+        rank: standing.rank,
+        score: standing.score,
+        reward: standing.reward,
+        label: standing.label,
+      })),
+    };
+  }
+
   // --- Private Methods ---
 
   private getCombatState(playerId: string): PvPCombatState {
@@ -637,11 +870,13 @@ export class PvPManager {
     participants: Array<{ id: string; username?: string; name?: string }>,
     phase: PvPPhase,
     timeRemaining: number,
+    modeData: any,
   ): void {
     const mode = this.modes.get(modeId);
     if (!mode) return;
 
-    const isSameMode = this.activeMode?.getModeId() === modeId;
+    // A server round we are part of takes over from a practice round
+    const isSameMode = this.activeMode?.getModeId() === modeId && !this.practice;
     if (!isSameMode) {
       // Fresh server round or mode switch.
       this.cleanup();
@@ -653,6 +888,7 @@ export class PvPManager {
         scene: this.deps.scene,
         eventBus: this.eventBus,
         localPlayerId: this.localPlayerId,
+        reportCheckpoint: (checkpointIndex) => this.onCheckpointReached(this.localPlayerId, checkpointIndex),
       };
       mode.setContext(context);
     }
@@ -672,6 +908,7 @@ export class PvPManager {
       this.roundTimer = timeRemaining;
       // Ensure mode initialization happened exactly once for this session.
       if (!this.serverModeStarted) {
+        this.activeMode?.setServerSetup(modeData ?? null);
         this.activeMode?.onStart(this.players);
         this.serverModeStarted = true;
       }
@@ -744,19 +981,21 @@ export class PvPManager {
     for (let i = 0; i < count; i++) {
       const name = botNames[i % botNames.length];
       const player = this.addPlayer(`bot_${i}`, name, true, false);
+      // Set initial position near city center
+      player.position.set(
+        (Math.random() - 0.5) * 200,
+        40 + Math.random() * 60,
+        (Math.random() - 0.5) * 200,
+      );
+      if (this.activeMode?.drivesOwnBots()) continue;
 
       const bot = new PvPBot(player, this.deps.scene);
+      bot.setDifficulty(this.botDifficulty);
       bot.setEventCallback((type, data) => {
         if (type === 'poop-hit-player') this.onPoopHitPlayer(data.shooterId, data.targetId);
         if (type === 'checkpoint') this.onCheckpointReached(data.playerId, data.checkpointIndex);
         if (type === 'statue-hit') this.onPoopHitStatue(data.playerId, data.accuracy, data.hitPosition);
       });
-      // Set initial position near city center
-      player.position.set(
-        (Math.random() - 0.5) * 200,
-        40 + Math.random() * 60,
-        (Math.random() - 0.5) * 200,
-      );
       this.bots.push(bot);
     }
   }
@@ -843,6 +1082,9 @@ export class PvPManager {
     this.nextColorIndex = 0;
     this.serverAuthoritative = false;
     this.serverModeStarted = false;
+    this.heistMatchId = null;
+    this.heistQueued = false;
+    this.practice = false;
     this.mines = [];
     this.combatState.clear();
     this.combatTime = 0;
@@ -5,6 +5,8 @@
 
 import * as THREE from 'three';
 import type { PvPEventBus } from './PvPEventBus';
+import type { BotDifficulty } from '../../shared/BotDifficulty';
+import type { Vector3 } from '../../shared/types';
 
 export interface PvPPlayer {
   id: string;
@@ -31,16 +33,32 @@ export interface PvPStanding {
   label: string;
 }
 
+/** Claims a server-run heist checks; none of them happen until the server's heist event comes back */
+export interface HeistClaims {
+  grab(position: Vector3): void;
+  slam(position: Vector3, speed: number): void;
+  score(position: Vector3): void;
+  pass(targetId: string): void;
+}
+
 export interface PvPModeContext {
   scene: THREE.Scene;
   eventBus: PvPEventBus;
   localPlayerId: string;
+  /** Set when the server runs the round: the local player's checkpoints are claimed here and only count once echoed back */
+  reportCheckpoint?: (checkpointIndex: number) => void;
+  /** Set when the round is a server heist match: the local player's plays are claimed here */
+  reportHeist?: HeistClaims;
+  /** Tier for any bots the mode drives itself; local rounds only */
+  botDifficulty?: BotDifficulty;
 }
 
 export abstract class PvPMode {
   protected players: PvPPlayer[] = [];
   protected context!: PvPModeContext;
   protected elapsed = 0;
+  /** Round setup chosen by the server (route, statue, who starts as "it"); null for local rounds */
+  protected serverSetup: any = null;
 
   abstract getModeId(): string;
   abstract getModeName(): string;
@@ -54,6 +72,10 @@ export abstract class PvPMode {
     this.context = context;
   }
 
+  setServerSetup(setup: any): void {
+    this.serverSetup = setup;
+  }
+
   onStart(players: PvPPlayer[]): void {
     this.players = [...players];
     this.elapsed = 0;
@@ -83,6 +105,16 @@ export abstract class PvPMode {
 
   abstract getModeData(): any;
 
+  /** Event from a match the server runs with its own messages (heist-*); local rounds never get one */
+  onServerEvent(_type: string, _data: any): void {
+    // Modes without a server match of their own ignore these
+  }
+
+  /** True when the mode creates AI for its bot seats, so PvPManager must not add PvPBots too */
+  drivesOwnBots(): boolean {
+    return false;
+  }
+
   dispose(): void {
     // Override in subclasses to clean up Three.js objects
   }
@@ -0,0 +1,178 @@
+/**
+ * RaceRouteLibrary - The player's own race routes, best times and best-run ghosts, kept in localStorage.
+ * Routes are stored in the versioned route file format (shared/RaceRouteFormat.ts)
+ * so a saved route, an exported file and a share code all describe the same course.
+ */
+
+import type { RaceRouteData } from '../../shared/PvPCourses';
+import {
+  RaceRouteFile,
+  decodeRaceRouteCode,
+  getRaceRouteId,
+  parseRaceRoute,
+  toRaceRouteFile,
+} from '../../shared/RaceRouteFormat';
+import { GhostTrack, parseGhostTrack } from '../../shared/GhostTrack';
+
+const STORAGE_KEYS = {
+  ROUTES: 'birdgame_race_routes',
+  BEST_TIMES: 'birdgame_race_best_times',
+  SELECTED: 'birdgame_race_selected_route',
+  GHOSTS: 'birdgame_race_ghosts',
+};
+
+export interface SavedRaceRoute {
+  id: string;
+  route: RaceRouteData;
+}
+
+export class RaceRouteLibrary {
+  private routes: SavedRaceRoute[] = [];
+  /** Route id → best finish time in seconds */
+  private bestTimes: Record<string, number> = {};
+  /** Route id → ghost of the best run */
+  private bestGhosts: Record<string, GhostTrack> = {};
+  /** Ghost picked from a file or the leaderboard, raced instead of your own best on its route */
+  private chosenGhost: GhostTrack | null = null;
+  /** Ghost of the most recent finished run, best or not, until the page reloads */
+  private lastRun: GhostTrack | null = null;
+  private selectedId: string | null = null;
+  /** Stored files this build can't read (e.g. a newer version), kept so saving doesn't drop them */
+  private unreadable: unknown[] = [];
+
+  constructor() {
+    this.load();
+  }
+
+  getRoutes(): SavedRaceRoute[] {
+    return this.routes;
+  }
+
+  getRoute(id: string): RaceRouteData | null {
+    return this.routes.find(r => r.id === id)?.route ?? null;
+  }
+
+  /** Save (or overwrite) a route; returns its id */
+  saveRoute(route: RaceRouteData): string {
+    const id = getRaceRouteId(route);
+    const existing = this.routes.find(r => r.id === id);
+    if (existing) {
+      existing.route = route;
+    } else {
+      this.routes.push({ id, route });
+    }
+    this.persistRoutes();
+    return id;
+  }
+
+  deleteRoute(id: string): void {
+    this.routes = this.routes.filter(r => r.id !== id);
+    if (this.selectedId === id) this.selectRoute(null);
+    this.persistRoutes();
+  }
+
+  /** The route local races use instead of a random built-in one, if any */
+  getSelectedRoute(): RaceRouteData | null {
+    return this.selectedId ? this.getRoute(this.selectedId) : null;
+  }
+
+  getSelectedId(): string | null {
+    return this.selectedId;
+  }
+
+  selectRoute(id: string | null): void {
+    this.selectedId = id;
+    try {
+      if (id) localStorage.setItem(STORAGE_KEYS.SELECTED, id);
+      else localStorage.removeItem(STORAGE_KEYS.SELECTED);
+    } catch (error) {
+      console.error('Failed to save selected race route:', error);
+    }
+  }
+
+  getBestTime(routeId: string): number | null {
+    return this.bestTimes[routeId] ?? null;
+  }
+
+  /** Record a finish, keeping its ghost if it is a new best; returns true if it is */
+  recordTime(routeId: string, seconds: number, ghost: GhostTrack | null = null): boolean {
+    if (ghost) this.lastRun = ghost;
+    const best = this.bestTimes[routeId];
+    if (best !== undefined && best <= seconds) return false;
+    this.bestTimes[routeId] = seconds;
+    if (ghost) this.bestGhosts[routeId] = ghost;
+    else delete this.bestGhosts[routeId];
+    try {
+      localStorage.setItem(STORAGE_KEYS.BEST_TIMES, JSON.stringify(this.bestTimes));
+      localStorage.setItem(STORAGE_KEYS.GHOSTS, JSON.stringify(this.bestGhosts));
+    } catch (error) {
+      console.error('Failed to save race best times:', error);
+    }
+    return true;
+  }
+
+  getLastRun(): GhostTrack | null {
+    return this.lastRun;
+  }
+
+  getBestGhost(routeId: string): GhostTrack | null {
+    return this.bestGhosts[routeId] ?? null;
+  }
+
+  chooseGhost(ghost: GhostTrack | null): void {
+    this.chosenGhost = ghost;
+  }
+
+  getChosenGhost(): GhostTrack | null {
+    return this.chosenGhost;
+  }
+
+  /** The ghost to race on a route: a chosen one for that route, else your own best */
+  getGhostFor(routeId: string): GhostTrack | null {
+    if (this.chosenGhost?.routeId === routeId) return this.chosenGhost;
+    return this.getBestGhost(routeId);
+  }
+
+  /** Read a pasted share code or route file; null if it is neither */
+  static importRoute(text: string): RaceRouteData | null {
+    const shared = decodeRaceRouteCode(text);
+    if (shared) return shared;
+    try {
+      return parseRaceRoute(JSON.parse(text));
+    } catch {
+      return null;
+    }
+  }
+
+  private load(): void {
+    try {
+      const routes = JSON.parse(localStorage.getItem(STORAGE_KEYS.ROUTES) || '[]');
+      if (Array.isArray(routes)) {
+        for (const file of routes) {
+          const route = parseRaceRoute(file);
+          if (route) this.routes.push({ id: getRaceRouteId(route), route });
+          else this.unreadable.push(file);
+        }
+      }
+      this.bestTimes = JSON.parse(localStorage.getItem(STORAGE_KEYS.BEST_TIMES) || '{}');
+      const ghosts = JSON.parse(localStorage.getItem(STORAGE_KEYS.GHOSTS) || '{}');
+      for (const [routeId, file] of Object.entries(ghosts ?? {})) {
+        const ghost = parseGhostTrack(file);
+        if (ghost) this.bestGhosts[routeId] = ghost;
+      }
+      const selected = localStorage.getItem(STORAGE_KEYS.SELECTED);
+      this.selectedId = selected && this.getRoute(selected) ? selected : null;
+    } catch (error) {
+      console.error('Failed to load race routes:', error);
+    }
+  }
+
+  private persistRoutes(): void {
+    try {
+      const files: RaceRouteFile[] = this.routes.map(r => toRaceRouteFile(r.route));
+      localStorage.setItem(STORAGE_KEYS.ROUTES, JSON.stringify([...files, ...this.unreadable]));
+    } catch (error) {
+      console.error('Failed to save race routes:', error);
+    }
+  }
+}
@@ -1,7 +1,9 @@
 /**
- * HeistMode - 1v1 Aerial Keep-Away PvP Mode.
+ * HeistMode - Aerial Keep-Away PvP Mode: 1v1, 2v2, 3v3 or a free-for-all.
  * Extends PvPMode to integrate with PvPManager lifecycle.
- * Orchestrates trophy, pedestals, slam system, HUD, bot, and match state.
+ * Orchestrates trophies, team pedestals, passing, slam system, HUD, bots, and match state.
+ * In a server heist match (context.reportHeist) the local player's grabs, slams,
+ * passes and deliveries are only claimed; the server's heist events apply them.
  */
 
 import * as THREE from 'three';
@@ -12,12 +14,28 @@ import { HeistSlamSystem, SlamResult } from './heist/HeistSlamSystem';
 import { HeistHUD, TrophyStatusLabel } from './heist/HeistHUD';
 import { HeistBot } from './heist/HeistBot';
 import { HEIST, FLIGHT } from '../../utils/Constants';
+import {
+  HeistFormat,
+  HeistFormatId,
+  HEIST_FORMATS,
+  assignHeistTeams,
+  getHeistPedestalPosition,
+  getHeistSpawnPosition,
+  getHeistTeamCount,
+  getHeistTrophyCount,
+  getHeistTrophySpawn,
+  isFreeForAll,
+} from '../../../shared/HeistFormats';
+import type { SpectatedMatchState } from '../../../shared/types';
 
 export type HeistPhase = 'waiting' | 'countdown' | 'active' | 'overtime' | 'score_pause' | 'complete';
 
 interface HeistPlayerData {
   player: PvPPlayer;
+  team: number;
   score: number;
+  assists: number;
+  passes: number;
   slamCount: number;
   carryTime: number;
   longestCarry: number;
@@ -25,27 +43,65 @@ interface HeistPlayerData {
   isCarrying: boolean;
 }
 
+interface HeistTeamData {
+  index: number;
+  color: number;
+  playerIds: string[];
+  score: number;
+  pedestal: HeistPedestal;
+}
+
+interface HeistTrophySlot {
+  trophy: HeistTrophy;
+  carrierId: string | null;
+  /** Teammate who passed it to the carrier; credited with an assist on delivery */
+  passedBy: string | null;
+}
+
+/** Rules a server match was started with; private lobbies set their own */
+interface HeistRules {
+  timeLimit: number;
+  slams: boolean;
+  passing: boolean;
+}
+
+const DEFAULT_RULES: HeistRules = {
+  timeLimit: HEIST.MATCH_TIME_LIMIT,
+  slams: true,
+  passing: true,
+};
+
+/** Seconds between repeated grab or delivery claims while the server has not answered */
+const CLAIM_INTERVAL = 0.25;
+
+const colorHex = (color: number): string => `#${color.toString(16).padStart(6, '0')}`;
+const toVector3 = (v: { x: number; y: number; z: number }): THREE.Vector3 => new THREE.Vector3(v.x, v.y, v.z);
+
 export class HeistMode extends PvPMode {
+  private readonly format: HeistFormat;
+
   // --- Match state ---
   private heistPhase: HeistPhase = 'waiting';
+  private rules: HeistRules = DEFAULT_RULES;
   private matchTimer = HEIST.MATCH_TIME_LIMIT;
   private scorePauseTimer = 0;
   private overtimeActive = false;
+  /** Trophy slot hidden after a delivery, respawned when the score pause ends */
+  private scoredSlot: HeistTrophySlot | null = null;
 
   // --- Entities ---
-  private trophy: HeistTrophy | null = null;
-  private pedestals: HeistPedestal[] = [];
+  private trophies: HeistTrophySlot[] = [];
+  private teams: HeistTeamData[] = [];
   private slamSystem = new HeistSlamSystem();
   private hud: HeistHUD | null = null;
 
   // --- Player data ---
   private playerData = new Map<string, HeistPlayerData>();
-  private carrierId: string | null = null;
 
-  // --- Bot ---
-  private bot: HeistBot | null = null;
+  // --- Bots (one per bot seat) ---
+  private bots: HeistBot[] = [];
 
-  // --- Carrier trail VFX ---
+  // --- Carrier trail VFX (follows the local team's carrier, else the first carrier) ---
   private carrierTrail: THREE.Line | null = null;
   private trailPoints: THREE.Vector3[] = [];
   private carrierGlow: THREE.PointLight | null = null;
@@ -55,15 +111,34 @@ export class HeistMode extends PvPMode {
 
   // --- Local player references ---
   private localFlightSpeed = 0;
+  /** Until the next grab or delivery claim may be sent (server matches) */
+  private claimCooldown = 0;
+
+  constructor(format: HeistFormatId = '1v1') {
+    super();
+    this.format = HEIST_FORMATS[format];
+  }
 
   // PvPMode interface
-  getModeId(): string { return 'heist'; }
-  getModeName(): string { return 'Heist'; }
-  getModeDescription(): string { return '1v1 aerial keep-away! Grab the trophy and deliver it to your pedestal. Body-slam the carrier to steal it!'; }
+  getModeId(): string { return this.format.modeId; }
+  getModeName(): string { return this.format.name; }
+  getModeDescription(): string {
+    switch (this.format.id) {
+      case '1v1': return '1v1 aerial keep-away! Grab the trophy and deliver it to your pedestal. Body-slam the carrier to steal it!';
+      case 'ffa': return 'Every bird for themselves! Several trophies, one pedestal each. Slam carriers and deliver more than anyone else!';
+      default: return `${this.format.id} team keep-away! Pass the trophy to teammates and slam together to steal it back.`;
+    }
+  }
   getModeIcon(): string { return '\uD83C\uDFC6'; } // trophy emoji
   getRoundDuration(): number { return HEIST.MATCH_TIME_LIMIT; }
-  getMinPlayers(): number { return 2; }
-  getMaxPlayers(): number { return 2; }
+  // Team formats want every seat taken, so bots fill whatever the lobby leaves empty
+  getMinPlayers(): number { return this.format.minPlayers; }
+  getMaxPlayers(): number { return this.format.maxPlayers; }
+  drivesOwnBots(): boolean { return true; }
+
+  getFormat(): HeistFormat {
+    return this.format;
+  }
 
   /** Set camera reference for directional arrows */
   setCamera(camera: THREE.Camera): void {
@@ -78,97 +153,120 @@ export class HeistMode extends PvPMode {
   onStart(players: PvPPlayer[]): void {
     super.onStart(players);
 
+    const serverRules: Partial<HeistRules> | undefined = this.serverSetup?.rules;
+    this.rules = {
+      timeLimit: serverRules?.timeLimit ?? DEFAULT_RULES.timeLimit,
+      slams: serverRules?.slams ?? DEFAULT_RULES.slams,
+      passing: serverRules?.passing ?? DEFAULT_RULES.passing,
+    };
     this.heistPhase = 'active';
-    this.matchTimer = HEIST.MATCH_TIME_LIMIT;
+    this.matchTimer = this.rules.timeLimit;
     this.overtimeActive = false;
-    this.carrierId = null;
+    this.scoredSlot = null;
+    this.claimCooldown = 0;
 
-    // Initialize player data
-    this.playerData.clear();
-    for (const p of this.players) {
-      this.playerData.set(p.id, {
-        player: p,
-        score: 0,
-        slamCount: 0,
-        carryTime: 0,
-        longestCarry: 0,
-        currentCarryStart: 0,
-        isCarrying: false,
-      });
-    }
+    // A server match seats its own teams (serverSetup is its heist-match-start);
+    // local rounds deal them in roster order
+    const serverTeams: Array<{ playerIds: string[] }> | undefined = this.serverSetup?.teams;
+    const rosters = serverTeams
+      ? serverTeams.map(t => t.playerIds.filter(id => this.players.some(p => p.id === id)))
+      : assignHeistTeams(this.players.map(p => p.id), getHeistTeamCount(this.format, this.players.length));
+    const teamCount = rosters.length;
 
-    // Determine player colors (Player 1 = local = blue, Player 2 = opponent = red)
-    const localPlayer = this.players.find(p => p.isLocal);
-    const opponentPlayer = this.players.find(p => !p.isLocal);
-    if (localPlayer) localPlayer.color = HEIST.PLAYER_1_COLOR;
-    if (opponentPlayer) opponentPlayer.color = HEIST.PLAYER_2_COLOR;
+    this.playerData.clear();
+    this.teams = rosters.map((playerIds, index) => {
+      const color = HEIST.TEAM_COLORS[index % HEIST.TEAM_COLORS.length];
+      const pedestalPos = getHeistPedestalPosition(
+        index, teamCount, HEIST.PEDESTAL_DISTANCE_FROM_CENTER, HEIST.PEDESTAL_HEIGHT,
+      );
 
-    // Spawn trophy at city center
-    const centerPos = new THREE.Vector3(0, HEIST.TROPHY_HOVER_HEIGHT, 0);
-    this.trophy = new HeistTrophy(this.context.scene, centerPos);
+      playerIds.forEach((id, slot) => {
+        const player = this.players.find(p => p.id === id)!;
+        player.color = color;
+        const spawn = getHeistSpawnPosition(
+          index, teamCount, slot, this.format.teamSize, HEIST.PLAYER_SPAWN_DISTANCE, HEIST.PLAYER_SPAWN_HEIGHT,
+        );
+        player.position.set(spawn.x, spawn.y, spawn.z);
+
+        this.playerData.set(id, {
+          player,
+          team: index,
+          score: 0,
+          assists: 0,
+          passes: 0,
+          slamCount: 0,
+          carryTime: 0,
+          longestCarry: 0,
+          currentCarryStart: 0,
+          isCarrying: false,
+        });
+      });
 
-    // Spawn pedestals
-    if (localPlayer) {
-      const localPedestalPos = new THREE.Vector3(
-        -HEIST.PEDESTAL_DISTANCE_FROM_CENTER, HEIST.PEDESTAL_HEIGHT, 0,
-      );
-      this.pedestals.push(new HeistPedestal(
-        this.context.scene, localPlayer.id, localPlayer.color, localPedestalPos,
-      ));
-    }
-    if (opponentPlayer) {
-      const opponentPedestalPos = new THREE.Vector3(
-        HEIST.PEDESTAL_DISTANCE_FROM_CENTER, HEIST.PEDESTAL_HEIGHT, 0,
-      );
-      this.pedestals.push(new HeistPedestal(
-        this.context.scene, opponentPlayer.id, opponentPlayer.color, opponentPedestalPos,
-      ));
-    }
+      return {
+        index,
+        color,
+        playerIds,
+        score: 0,
+        pedestal: new HeistPedestal(
+          this.context.scene, index, color, new THREE.Vector3(pedestalPos.x, pedestalPos.y, pedestalPos.z),
+        ),
+      };
+    });
 
-    // Teleport players to spawn positions
-    if (localPlayer) {
-      localPlayer.position.set(
-        -HEIST.PLAYER_SPAWN_DISTANCE, HEIST.PLAYER_SPAWN_HEIGHT, 0,
-      );
-    }
-    if (opponentPlayer) {
-      opponentPlayer.position.set(
-        HEIST.PLAYER_SPAWN_DISTANCE, HEIST.PLAYER_SPAWN_HEIGHT, 0,
-      );
+    // Spawn trophies around city center, one slot per server trophy ID
+    const trophyCount = this.serverSetup?.trophies?.length ?? getHeistTrophyCount(this.format, this.players.length);
+    for (let i = 0; i < trophyCount; i++) {
+      const spawn = getHeistTrophySpawn(i, trophyCount, HEIST.TROPHY_HOVER_HEIGHT);
+      this.trophies.push({
+        trophy: new HeistTrophy(this.context.scene, new THREE.Vector3(spawn.x, spawn.y, spawn.z)),
+        carrierId: null,
+        passedBy: null,
+      });
     }
 
     // Create HUD
-    this.hud = new HeistHUD();
+    this.hud = new HeistHUD(this.format.name);
     this.hud.show();
 
     // Create carrier trail
     this.initCarrierTrail();
 
-    // Create bot if opponent is a bot
-    if (opponentPlayer?.isBot) {
-      this.bot = new HeistBot(opponentPlayer, this.context.scene);
-      this.bot.setEventCallback((type, data) => this.handleBotEvent(type, data));
+    // Every bot seat gets its own AI; the server flies a server match's bots
+    for (const player of this.players) {
+      if (!player.isBot || this.isServerMatch()) continue;
+      const bot = new HeistBot(player, this.context.scene);
+      if (this.context.botDifficulty) bot.setDifficulty(this.context.botDifficulty);
+      bot.setEventCallback((type, data) => this.handleBotEvent(type, data));
+      this.bots.push(bot);
     }
 
     // Emit start event
     this.context.eventBus.emit('round-phase-change', {
       phase: 'active',
-      modeId: 'heist',
-      modeName: 'Heist',
+      modeId: this.format.modeId,
+      modeName: this.format.name,
     });
   }
 
+  /** Playing a match the server runs, rather than a local round */
+  private isServerMatch(): boolean {
+    return !!this.context?.reportHeist;
+  }
+
   onUpdate(dt: number): void {
     this.elapsed += dt;
+    this.claimCooldown = Math.max(0, this.claimCooldown - dt);
 
-    if (!this.trophy) return;
+    if (this.trophies.length === 0) return;
 
-    // Update trophy
-    this.trophy.update(dt);
+    // Update trophies
+    for (const slot of this.trophies) {
+      slot.trophy.update(dt);
+    }
 
     // Update pedestals
-    for (const pedestal of this.pedestals) {
-      pedestal.update(dt);
+    for (const team of this.teams) {
+      team.pedestal.update(dt);
     }
 
     // Update slam system
@@ -187,10 +285,10 @@ export class HeistMode extends PvPMode {
         break;
     }
 
-    // Update bot
-    if (this.bot) {
-      this.updateBotData();
-      this.bot.update(dt);
+    // Update bots
+    for (const bot of this.bots) {
+      this.updateBotData(bot);
+      bot.update(dt);
     }
 
     // Update HUD
@@ -201,22 +299,22 @@ export class HeistMode extends PvPMode {
   }
 
   private updateActivePhase(dt: number): void {
-    if (!this.trophy) return;
-
     // Timer countdown (not during overtime)
     if (this.heistPhase === 'active') {
       this.matchTimer -= dt;
 
       if (this.matchTimer <= 0) {
         this.matchTimer = 0;
+        // A server match's clock is the server's; heist-overtime or the match end follows
+        if (this.isServerMatch()) return;
         this.handleTimeExpired();
         return;
       }
     }
 
     // Track carry time
-    if (this.carrierId) {
-      const data = this.playerData.get(this.carrierId);
+    for (const slot of this.trophies) {
+      const data = slot.carrierId ? this.playerData.get(slot.carrierId) : null;
       if (data) {
         data.carryTime += dt;
         const currentCarryDuration = (performance.now() - data.currentCarryStart) / 1000;
@@ -226,60 +324,84 @@ export class HeistMode extends PvPMode {
       }
     }
 
-    // Check local player trophy grab
-    if (!this.carrierId && this.trophy.canBeGrabbed) {
-      const localPlayer = this.players.find(p => p.isLocal);
-      if (localPlayer) {
-        const distSq = localPlayer.position.distanceToSquared(this.trophy.getWorldPosition());
-        if (distSq < 36) { // ~6 unit grab radius
-          this.grabTrophy(localPlayer.id);
+    const localPlayer = this.players.find(p => p.isLocal);
+    if (localPlayer) {
+      // Check local player trophy grab
+      if (!this.getCarriedSlot(localPlayer.id)) {
+        for (const slot of this.trophies) {
+          if (slot.carrierId || !slot.trophy.canBeGrabbed) continue;
+          if (localPlayer.position.distanceToSquared(slot.trophy.getWorldPosition()) < 36) { // ~6 unit grab radius
+            if (this.context.reportHeist) {
+              if (this.claimCooldown <= 0) {
+                this.context.reportHeist.grab(localPlayer.position);
+                this.claimCooldown = CLAIM_INTERVAL;
+              }
+            } else {
+              this.grabTrophy(slot, localPlayer.id);
+            }
+            break;
+          }
         }
       }
-    }
 
-    // Check slam (local player attacking carrier)
-    if (this.carrierId) {
-      const localPlayer = this.players.find(p => p.isLocal);
-      const carrier = this.players.find(p => p.id === this.carrierId);
-
-      if (localPlayer && carrier && localPlayer.id !== this.carrierId) {
-        // Local player is the attacker
-        const result = this.slamSystem.checkSlam(localPlayer, carrier, this.localFlightSpeed);
-        if (result) {
-          this.handleSlam(result);
-        }
-      }
+      // Check slam (local player attacking an opposing carrier)
+      this.trySlam(localPlayer, this.localFlightSpeed);
     }
 
-    // Update carried trophy position
-    if (this.carrierId && this.trophy.state === 'carried') {
-      const carrier = this.players.find(p => p.id === this.carrierId);
-      if (carrier) {
-        this.trophy.updateCarriedPosition(carrier.position, 0);
-
-        // Check scoring: carrier enters their own pedestal
-        const carrierPedestal = this.pedestals.find(p => p.playerId === this.carrierId);
-        if (carrierPedestal?.isInTriggerZone(carrier.position)) {
-          this.handleScore(this.carrierId);
+    // Update carried trophy positions and check scoring
+    for (const slot of this.trophies) {
+      if (!slot.carrierId || slot.trophy.state !== 'carried') continue;
+      const carrier = this.players.find(p => p.id === slot.carrierId);
+      if (!carrier) continue;
+      slot.trophy.updateCarriedPosition(carrier.position, 0);
+
+      // Check scoring: carrier enters their team's pedestal
+      const team = this.getTeam(carrier.id);
+      if (!team?.pedestal.isInTriggerZone(carrier.position)) continue;
+      if (this.context.reportHeist) {
+        // Only our own delivery is ours to claim; the server scores everyone's
+        if (carrier.isLocal && this.claimCooldown <= 0) {
+          this.context.reportHeist.score(carrier.position);
+          this.claimCooldown = CLAIM_INTERVAL;
         }
+        continue;
       }
+      this.handleScore(slot, carrier.id);
+      return; // Score pause (or match end) freezes the rest of this frame
     }
   }
 
   private updateScorePause(dt: number): void {
+    if (this.isServerMatch()) return; // heist-trophy-reset ends the server's pause
     this.scorePauseTimer -= dt;
     if (this.scorePauseTimer <= 0) {
-      // Respawn trophy at center
-      this.trophy?.resetToCenter();
+      // Respawn the delivered trophy at its spawn point
+      this.scoredSlot?.trophy.resetToCenter();
+      this.scoredSlot = null;
       this.heistPhase = this.overtimeActive ? 'overtime' : 'active';
     }
   }
 
-  private grabTrophy(playerId: string): void {
-    if (!this.trophy || this.carrierId) return;
+  private getTeam(playerId: string): HeistTeamData | undefined {
+    const data = this.playerData.get(playerId);
+    return data ? this.teams[data.team] : undefined;
+  }
+
+  private areTeammates(a: string, b: string): boolean {
+    const teamA = this.playerData.get(a)?.team;
+    return teamA !== undefined && teamA === this.playerData.get(b)?.team;
+  }
+
+  private getCarriedSlot(playerId: string): HeistTrophySlot | undefined {
+    return this.trophies.find(s => s.carrierId === playerId);
+  }
 
-    this.carrierId = playerId;
-    this.trophy.attachToCarrier();
+  private grabTrophy(slot: HeistTrophySlot, playerId: string): void {
+    if (slot.carrierId) return;
+
+    slot.carrierId = playerId;
+    slot.passedBy = null;
+    slot.trophy.attachToCarrier();
 
     const data = this.playerData.get(playerId);
     if (data) {
@@ -293,33 +415,123 @@ export class HeistMode extends PvPMode {
     });
   }
 
-  private dropTrophy(carrierVelocity: THREE.Vector3): void {
-    if (!this.trophy || !this.carrierId) return;
+  private dropTrophy(slot: HeistTrophySlot, carrierVelocity: THREE.Vector3): void {
+    if (!slot.carrierId) return;
 
-    const data = this.playerData.get(this.carrierId);
+    const data = this.playerData.get(slot.carrierId);
     if (data) {
       data.isCarrying = false;
     }
 
-    this.trophy.drop(carrierVelocity);
-    this.carrierId = null;
+    slot.trophy.drop(carrierVelocity);
+    slot.carrierId = null;
+    slot.passedBy = null;
+  }
+
+  /** Nearest teammate within passing range of a carrier, or null */
+  private findPassTarget(carrier: PvPPlayer): PvPPlayer | null {
+    let best: PvPPlayer | null = null;
+    let bestDistSq = HEIST.PASS_RANGE * HEIST.PASS_RANGE;
+    for (const id of this.getTeam(carrier.id)?.playerIds ?? []) {
+      if (id === carrier.id || this.getCarriedSlot(id)) continue;
+      const mate = this.players.find(p => p.id === id);
+      if (!mate) continue;
+      const distSq = mate.position.distanceToSquared(carrier.position);
+      if (distSq <= bestDistSq) {
+        best = mate;
+        bestDistSq = distSq;
+      }
+    }
+    return best;
+  }
+
+  /** Local player hands their trophy to the nearest teammate in range (Game.ts binds this to a key) */
+  passTrophy(): boolean {
+    if (this.heistPhase !== 'active' && this.heistPhase !== 'overtime') return false;
+    if (!this.rules.passing) return false;
+    const localPlayer = this.players.find(p => p.isLocal);
+    if (!localPlayer) return false;
+    const target = this.findPassTarget(localPlayer);
+    if (!target) return false;
+    if (this.context.reportHeist) {
+      if (!this.getCarriedSlot(localPlayer.id)) return false;
+      this.context.reportHeist.pass(target.id);
+      return true;
+    }
+    return this.passTrophyTo(localPlayer.id, target.id);
   }
 
-  private handleSlam(result: SlamResult): void {
-    if (!this.trophy) return;
+  private passTrophyTo(fromId: string, toId: string): boolean {
+    const slot = this.getCarriedSlot(fromId);
+    if (!slot || !this.areTeammates(fromId, toId) || this.getCarriedSlot(toId)) return false;
+
+    const from = this.playerData.get(fromId)!;
+    const to = this.playerData.get(toId)!;
+    from.isCarrying = false;
+    from.passes++;
+    to.isCarrying = true;
+    to.currentCarryStart = performance.now();
+    slot.carrierId = toId;
+    slot.passedBy = fromId;
 
+    this.context.eventBus.emit('score-update', {
+      type: 'heist-pass',
+      fromId,
+      toId,
+    });
+    return true;
+  }
+
+  /** A teammate of the attacker close enough to the carrier to assist the slam */
+  private findSlamAssist(attacker: PvPPlayer, carrier: PvPPlayer): PvPPlayer | null {
+    const radiusSq = HEIST.SLAM_ASSIST_RADIUS * HEIST.SLAM_ASSIST_RADIUS;
+    for (const id of this.getTeam(attacker.id)?.playerIds ?? []) {
+      if (id === attacker.id) continue;
+      const mate = this.players.find(p => p.id === id);
+      if (mate && mate.position.distanceToSquared(carrier.position) <= radiusSq) return mate;
+    }
+    return null;
+  }
+
+  /** Check an attacker against every opposing carrier; a nearby teammate lowers the speed needed */
+  private trySlam(attacker: PvPPlayer, speed: number): void {
+    if (!this.rules.slams) return;
+    for (const slot of this.trophies) {
+      if (!slot.carrierId || slot.carrierId === attacker.id || this.areTeammates(slot.carrierId, attacker.id)) continue;
+      const carrier = this.players.find(p => p.id === slot.carrierId);
+      if (!carrier) continue;
+
+      const assist = this.findSlamAssist(attacker, carrier);
+      const threshold = assist ? HEIST.ASSISTED_SLAM_SPEED_THRESHOLD : HEIST.SLAM_SPEED_THRESHOLD;
+      const result = this.slamSystem.checkSlam(attacker, carrier, speed, threshold);
+      if (result && this.context.reportHeist) {
+        this.context.reportHeist.slam(attacker.position, speed);
+        return;
+      }
+      if (result) {
+        this.handleSlam(slot, result, assist?.id ?? null);
+        return;
+      }
+    }
+  }
+
+  private handleSlam(slot: HeistTrophySlot, result: SlamResult, assistId: string | null): void {
     // Track slam stats
     const attackerData = this.playerData.get(result.attackerId);
     if (attackerData) {
       attackerData.slamCount++;
     }
+    const assistData = assistId ? this.playerData.get(assistId) : null;
+    if (assistData) {
+      assistData.assists++;
+    }
 
     // Drop the trophy
     const carrier = this.players.find(p => p.id === result.carrierId);
     const carrierVelocity = carrier
       ? new THREE.Vector3(0, 0, -1).multiplyScalar(FLIGHT.BASE_SPEED)
       : new THREE.Vector3();
-    this.dropTrophy(carrierVelocity);
+    this.dropTrophy(slot, carrierVelocity);
 
     // Apply knockback to carrier position
     if (carrier) {
@@ -338,134 +550,291 @@ export class HeistMode extends PvPMode {
       type: 'heist-slam',
       attackerId: result.attackerId,
       carrierId: result.carrierId,
+      assistId,
       impactPoint: result.impactPoint,
     });
   }
 
-  private handleScore(playerId: string): void {
-    if (!this.trophy) return;
-
+  private handleScore(slot: HeistTrophySlot, playerId: string): void {
     const data = this.playerData.get(playerId);
     if (!data) return;
+    const team = this.teams[data.team];
 
+    team.score++;
     data.score++;
     data.isCarrying = false;
-    this.carrierId = null;
+    const assistData = slot.passedBy ? this.playerData.get(slot.passedBy) : null;
+    if (assistData) {
+      assistData.assists++;
+    }
+    slot.carrierId = null;
+    slot.passedBy = null;
 
-    // Update PvPPlayer score
-    const player = this.players.find(p => p.id === playerId);
-    if (player) {
-      player.score = data.score;
+    // Update PvPPlayer scores: everyone shows their team's score
+    for (const id of team.playerIds) {
+      const player = this.players.find(p => p.id === id);
+      if (player) player.score = team.score;
     }
 
     // Celebration VFX
-    const pedestal = this.pedestals.find(p => p.playerId === playerId);
-    if (pedestal) {
-      pedestal.playCelebration(this.context.scene);
-    }
+    team.pedestal.playCelebration(this.context.scene);
 
     // Hide trophy and pause
-    this.trophy.hideForScore();
+    slot.trophy.hideForScore();
+    this.scoredSlot = slot;
     this.scorePauseTimer = HEIST.SCORE_PAUSE_DURATION;
     this.heistPhase = 'score_pause';
 
     // Check win condition
-    if (data.score >= HEIST.POINTS_TO_WIN) {
+    if (team.score >= HEIST.POINTS_TO_WIN) {
       this.heistPhase = 'complete';
     }
 
     this.context.eventBus.emit('score-update', {
       type: 'heist-score',
       playerId,
-      score: data.score,
+      assistId: assistData?.player.id ?? null,
+      team: team.index,
+      score: team.score,
     });
   }
 
   private handleTimeExpired(): void {
-    // Find scores
-    const scores = Array.from(this.playerData.values()).map(d => ({
-      id: d.player.id,
-      score: d.score,
-    }));
-
-    scores.sort((a, b) => b.score - a.score);
-
-    if (scores.length >= 2 && scores[0].score === scores[1].score) {
-      // Tied — enter overtime
-      this.overtimeActive = true;
-      this.heistPhase = 'overtime';
-      // Drop trophy if carried and reset to center
-      if (this.carrierId) {
-        this.dropTrophy(new THREE.Vector3());
-      }
-      this.trophy?.resetToCenter();
+    const scores = this.teams.map(t => t.score).sort((a, b) => b - a);
+
+    if (scores.length >= 2 && scores[0] === scores[1]) {
+      this.startOvertime();
     } else {
       // Higher score wins
       this.heistPhase = 'complete';
     }
   }
 
+  /** Tied at the clock: next delivery wins, from freshly reset trophies */
+  private startOvertime(): void {
+    this.overtimeActive = true;
+    this.heistPhase = 'overtime';
+    this.matchTimer = 0;
+    for (const slot of this.trophies) {
+      if (slot.carrierId) {
+        this.dropTrophy(slot, new THREE.Vector3());
+      }
+      slot.trophy.resetToCenter();
+    }
+  }
+
+  /** Apply the server's heist events and snapshots to a server match */
+  onServerEvent(type: string, data: any): void {
+    if (this.trophies.length === 0) return; // Not started yet (countdown snapshots)
+    const slot = typeof data?.trophyId === 'number' ? this.trophies[data.trophyId] : undefined;
+
+    switch (type) {
+      case 'heist-trophy-grabbed':
+        if (!slot) break;
+        if (slot.carrierId) this.dropTrophy(slot, new THREE.Vector3());
+        this.grabTrophy(slot, data.playerId);
+        break;
+
+      case 'heist-pass':
+        this.passTrophyTo(data.fromId, data.toId);
+        break;
+
+      case 'heist-slam': {
+        if (!slot) break;
+        const attackerData = this.playerData.get(data.attackerId);
+        if (attackerData) attackerData.slamCount++;
+        const assistData = data.assistId ? this.playerData.get(data.assistId) : null;
+        if (assistData) assistData.assists++;
+
+        const carrierData = slot.carrierId ? this.playerData.get(slot.carrierId) : null;
+        if (carrierData) carrierData.isCarrying = false;
+        slot.carrierId = null;
+        slot.passedBy = null;
+        const impactPoint = toVector3(data.trophyPosition);
+        slot.trophy.dropFrom(impactPoint, toVector3(data.trophyVelocity));
+
+        this.context.eventBus.emit('score-update', {
+          type: 'heist-slam',
+          attackerId: data.attackerId,
+          carrierId: data.carrierId,
+          assistId: data.assistId ?? null,
+          impactPoint,
+        });
+        break;
+      }
+
+      case 'heist-score':
+        if (!slot) break;
+        // The server's carrier is the one credited, even if a pass never reached us
+        slot.carrierId = data.playerId;
+        slot.passedBy = data.assistId ?? null;
+        this.handleScore(slot, data.playerId);
+        this.syncTeamScores(data.scores);
+        break;
+
+      case 'heist-trophy-settled':
+        slot?.trophy.settleAt(toVector3(data.position));
+        break;
+
+      case 'heist-trophy-reset':
+        if (!slot) break;
+        slot.trophy.resetToCenter();
+        if (this.scoredSlot === slot) this.scoredSlot = null;
+        if (this.heistPhase === 'score_pause') this.heistPhase = this.overtimeActive ? 'overtime' : 'active';
+        break;
+
+      case 'heist-overtime':
+        this.startOvertime();
+        break;
+
+      case 'heist-state': {
+        const state = data as SpectatedMatchState;
+        if (!this.overtimeActive) this.matchTimer = state.timeRemaining;
+        for (const [id, position] of Object.entries(state.botPositions ?? {})) {
+          this.players.find(p => p.id === id)?.position.set(position.x, position.y, position.z);
+        }
+        this.syncTeamScores(state.teamScores);
+        break;
+      }
+
+      case 'heist-match-end':
+        // The server's tally is final: it saw every claim, including any we missed
+        for (const [id, stats] of Object.entries(data.stats ?? {}) as Array<[string, any]>) {
+          const playerData = this.playerData.get(id);
+          if (!playerData) continue;
+          playerData.score = stats.score;
+          playerData.slamCount = stats.slams;
+          playerData.assists = stats.assists;
+          playerData.passes = stats.passes;
+        }
+        this.syncTeamScores(data.scores);
+        this.heistPhase = 'complete';
+        break;
+    }
+  }
+
+  private syncTeamScores(scores: number[] | null | undefined): void {
+    if (!Array.isArray(scores)) return;
+    for (const team of this.teams) {
+      if (typeof scores[team.index] !== 'number') continue;
+      team.score = scores[team.index];
+      for (const id of team.playerIds) {
+        const player = this.players.find(p => p.id === id);
+        if (player) player.score = team.score;
+      }
+    }
+  }
+
   private handleBotEvent(type: string, data: any): void {
+    if (this.heistPhase !== 'active' && this.heistPhase !== 'overtime') return;
+
     switch (type) {
-      case 'heist-grab':
-        if (this.trophy?.canBeGrabbed && !this.carrierId) {
-          this.grabTrophy(data.playerId);
+      case 'heist-grab': {
+        if (this.getCarriedSlot(data.playerId)) break;
+        const bot = this.players.find(p => p.id === data.playerId);
+        const slot = bot && this.trophies.find(s =>
+          !s.carrierId && s.trophy.canBeGrabbed
+          && s.trophy.getWorldPosition().distanceToSquared(bot.position) < 36,
+        );
+        if (slot) {
+          this.grabTrophy(slot, data.playerId);
         }
         break;
+      }
       case 'heist-score': {
         // Bot reached their pedestal while carrying
-        if (this.carrierId === data.playerId) {
-          this.handleScore(data.playerId);
+        const slot = this.getCarriedSlot(data.playerId);
+        const bot = this.players.find(p => p.id === data.playerId);
+        if (slot && bot && this.getTeam(bot.id)?.pedestal.isInTriggerZone(bot.position)) {
+          this.handleScore(slot, data.playerId);
         }
         break;
       }
+      case 'heist-pass':
+        this.passTrophyTo(data.playerId, data.targetId);
+        break;
       case 'heist-slam': {
-        // Bot attempting a slam on the carrier
-        if (this.carrierId && this.carrierId !== data.attackerId) {
-          const attacker = this.players.find(p => p.id === data.attackerId);
-          const carrier = this.players.find(p => p.id === this.carrierId);
-          if (attacker && carrier) {
-            const result = this.slamSystem.checkSlam(attacker, carrier, data.speed);
-            if (result) {
-              this.handleSlam(result);
-            }
-          }
+        // Bot attempting a slam on a carrier
+        const attacker = this.players.find(p => p.id === data.attackerId);
+        if (attacker) {
+          this.trySlam(attacker, data.speed);
         }
         break;
       }
     }
   }
 
-  private updateBotData(): void {
-    if (!this.bot || !this.trophy) return;
+  /**
+   * Point a bot at a trophy: the one it carries, else the nearest one not held
+   * by a teammate (a teammate's is the fallback, so the bot escorts them).
+   */
+  private updateBotData(bot: HeistBot): void {
+    const self = bot.player;
+    const team = this.getTeam(self.id);
+    const carried = this.getCarriedSlot(self.id);
+
+    let target = carried ?? null;
+    if (!target) {
+      let bestDistSq = Infinity;
+      for (const slot of this.trophies) {
+        const teammateHasIt = slot.carrierId !== null && this.areTeammates(slot.carrierId, self.id);
+        const distSq = slot.trophy.getWorldPosition().distanceToSquared(self.position) + (teammateHasIt ? 1e9 : 0);
+        if (distSq < bestDistSq) {
+          target = slot;
+          bestDistSq = distSq;
+        }
+      }
+    }
 
-    const localPlayer = this.players.find(p => p.isLocal);
-    const botPedestal = this.pedestals.find(p => p.playerId === this.bot!.player.id);
-
-    this.bot.updateModeData({
-      trophyPosition: this.trophy.getWorldPosition(),
-      trophyCarrierId: this.carrierId,
-      pedestalPosition: botPedestal?.position ?? new THREE.Vector3(),
-      opponentPosition: localPlayer?.position ?? new THREE.Vector3(),
-      botCarryingTrophy: this.carrierId === this.bot.player.id,
+    const carrier = target?.carrierId ? this.players.find(p => p.id === target!.carrierId) : null;
+
+    // Nearest opponent: the carrier to chase, or the threat to pass away from
+    let nearestOpponent: PvPPlayer | null = null;
+    let opponentDistSq = Infinity;
+    for (const p of this.players) {
+      if (p.id === self.id || this.areTeammates(p.id, self.id)) continue;
+      const distSq = p.position.distanceToSquared(self.position);
+      if (distSq < opponentDistSq) {
+        nearestOpponent = p;
+        opponentDistSq = distSq;
+      }
+    }
+
+    // Pass when pressed, to a teammate nearer the pedestal
+    let passTargetId: string | null = null;
+    if (carried && team && opponentDistSq < HEIST.SLAM_ASSIST_RADIUS * HEIST.SLAM_ASSIST_RADIUS) {
+      const mate = this.findPassTarget(self);
+      const pedestalPos = team.pedestal.position;
+      if (mate && mate.position.distanceToSquared(pedestalPos) < self.position.distanceToSquared(pedestalPos)) {
+        passTargetId = mate.id;
+      }
+    }
+
+    bot.updateModeData({
+      trophyPosition: target?.trophy.getWorldPosition() ?? new THREE.Vector3(0, HEIST.TROPHY_HOVER_HEIGHT, 0),
+      trophyCarrierId: target?.carrierId ?? null,
+      carrierIsTeammate: !!carrier && this.areTeammates(carrier.id, self.id),
+      pedestalPosition: team?.pedestal.position ?? new THREE.Vector3(),
+      opponentPosition: (carrier && !this.areTeammates(carrier.id, self.id) ? carrier : nearestOpponent)?.position
+        ?? new THREE.Vector3(),
+      botCarryingTrophy: !!carried,
+      passTargetId,
     });
   }
 
   private updateHUD(_dt: number): void {
-    if (!this.hud || !this.trophy) return;
+    if (!this.hud) return;
 
     const localPlayer = this.players.find(p => p.isLocal);
-    const opponentPlayer = this.players.find(p => !p.isLocal);
-    const localData = localPlayer ? this.playerData.get(localPlayer.id) : null;
-    const opponentData = opponentPlayer ? this.playerData.get(opponentPlayer.id) : null;
-
-    // Score
-    this.hud.updateScore(
-      localData?.score ?? 0,
-      opponentData?.score ?? 0,
-      `#${(localPlayer?.color ?? 0x4488ff).toString(16).padStart(6, '0')}`,
-      `#${(opponentPlayer?.color ?? 0xff4444).toString(16).padStart(6, '0')}`,
-    );
+    const localTeam = localPlayer ? this.getTeam(localPlayer.id) : undefined;
+
+    // Scores, local team first
+    const ordered = localTeam ? [localTeam, ...this.teams.filter(t => t !== localTeam)] : this.teams;
+    this.hud.updateScores(ordered.map(t => ({
+      score: t.score,
+      color: colorHex(t.color),
+      isLocal: t === localTeam,
+    })));
 
     // Timer
     if (this.overtimeActive) {
@@ -474,39 +843,49 @@ export class HeistMode extends PvPMode {
       this.hud.updateTimer(this.matchTimer);
     }
 
-    // Trophy status
+    // Trophy status: the most pressing of all trophies
+    const localCarried = localPlayer ? this.getCarriedSlot(localPlayer.id) : undefined;
     let trophyStatus: TrophyStatusLabel;
-    if (this.trophy.state === 'carried') {
-      if (this.carrierId === localPlayer?.id) {
-        trophyStatus = 'YOU HAVE IT';
-      } else {
-        trophyStatus = 'OPPONENT HAS IT';
-      }
-    } else if (this.trophy.state === 'falling' || (this.trophy.state === 'settling' || (this.trophy.state === 'idle' && this.trophy.getWorldPosition().distanceTo(new THREE.Vector3(0, HEIST.TROPHY_HOVER_HEIGHT, 0)) > 10))) {
+    if (localCarried) {
+      trophyStatus = 'YOU HAVE IT';
+    } else if (localPlayer && this.trophies.some(s => s.carrierId && !this.areTeammates(s.carrierId, localPlayer.id))) {
+      trophyStatus = 'OPPONENT HAS IT';
+    } else if (this.trophies.some(s => s.carrierId)) {
+      trophyStatus = 'TEAMMATE HAS IT';
+    } else if (this.trophies.some(s => s.trophy.state === 'falling' || s.trophy.state === 'settling'
+      || s.trophy.getWorldPosition().distanceTo(new THREE.Vector3(0, HEIST.TROPHY_HOVER_HEIGHT, 0)) > 50)) {
       trophyStatus = 'LOOSE';
     } else {
       trophyStatus = 'CENTER';
     }
     this.hud.updateTrophyStatus(trophyStatus);
+    this.hud.showPassHint(this.rules.passing && !!localCarried && !!localPlayer && this.findPassTarget(localPlayer) !== null);
 
     // Slam cooldown
-    if (localPlayer) {
+    if (localPlayer && this.rules.slams) {
       const cooldown = this.slamSystem.getCooldown(localPlayer.id);
       this.hud.updateSlamCooldown(cooldown, HEIST.SLAM_COOLDOWN);
     }
 
     // Directional arrows
-    if (this.camera) {
-      // Trophy arrow (always show when not looking at it)
-      this.hud.updateTrophyArrow(this.trophy.getWorldPosition(), this.camera);
+    if (this.camera && localPlayer) {
+      // Trophy arrow: nearest trophy the local team doesn't hold
+      let nearest: THREE.Vector3 | null = null;
+      let nearestDistSq = Infinity;
+      for (const slot of this.trophies) {
+        if (slot.carrierId && this.areTeammates(slot.carrierId, localPlayer.id)) continue;
+        const pos = slot.trophy.getWorldPosition();
+        const distSq = pos.distanceToSquared(localPlayer.position);
+        if (distSq < nearestDistSq) {
+          nearest = pos;
+          nearestDistSq = distSq;
+        }
+      }
+      if (nearest) this.hud.updateTrophyArrow(nearest, this.camera);
 
       // Pedestal arrow (show when carrying)
-      if (this.carrierId === localPlayer?.id) {
-        const myPedestal = this.pedestals.find(p => p.playerId === localPlayer?.id);
-        if (myPedestal) {
-          const colorHex = `#${(localPlayer?.color ?? 0x4488ff).toString(16).padStart(6, '0')}`;
-          this.hud.updatePedestalArrow(myPedestal.position, this.camera, colorHex);
-        }
+      if (localCarried && localTeam) {
+        this.hud.updatePedestalArrow(localTeam.pedestal.position, this.camera, colorHex(localTeam.color));
       } else {
         this.hud.hidePedestalArrow();
       }
@@ -541,7 +920,10 @@ export class HeistMode extends PvPMode {
   private updateCarrierTrail(): void {
     if (!this.carrierTrail) return;
 
-    const carrier = this.carrierId ? this.players.find(p => p.id === this.carrierId) : null;
+    const localPlayer = this.players.find(p => p.isLocal);
+    const carriers = this.trophies.filter(s => s.carrierId).map(s => s.carrierId!);
+    const carrierId = carriers.find(id => localPlayer && this.areTeammates(id, localPlayer.id)) ?? carriers[0];
+    const carrier = carrierId ? this.players.find(p => p.id === carrierId) : null;
 
     if (carrier) {
       // Update trail color to carrier's color
@@ -582,19 +964,26 @@ export class HeistMode extends PvPMode {
   // --- PvPMode interface ---
 
   onEnd(): PvPResults {
-    // Build standings
+    // Build standings: by team score, then deliveries and assists within a team
     const standings: PvPStanding[] = [];
     const dataList = Array.from(this.playerData.values());
-    dataList.sort((a, b) => b.score - a.score);
-
-    for (let i = 0; i < dataList.length; i++) {
-      const d = dataList[i];
+    const teamScore = (d: HeistPlayerData) => this.teams[d.team].score;
+    dataList.sort((a, b) => teamScore(b) - teamScore(a) || b.score - a.score || b.assists - a.assists);
+    const topScore = dataList.length > 0 ? teamScore(dataList[0]) : 0;
+    const teamPlay = !isFreeForAll(this.format) && this.format.teamSize > 1;
+
+    for (const d of dataList) {
+      // Teammates share their team's rank
+      const rank = 1 + new Set(dataList.filter(o => teamScore(o) > teamScore(d)).map(o => o.team)).size;
+      const won = teamScore(d) === topScore;
       standings.push({
         player: d.player,
-        rank: i + 1,
-        score: d.score,
+        rank,
+        score: teamPlay ? teamScore(d) : d.score,
         reward: 0, // Heist has no sandbox rewards
-        label: i === 0 ? 'Winner!' : `${d.score} points`,
+        label: teamPlay
+          ? `${won ? 'Team win! ' : ''}${d.score} delivered, ${d.assists} assists`
+          : (won ? 'Winner!' : `${d.score} points`),
       });
     }
 
@@ -602,35 +991,53 @@ export class HeistMode extends PvPMode {
     this.hud?.hide();
 
     return {
-      modeId: 'heist',
-      modeName: 'Heist',
+      modeId: this.format.modeId,
+      modeName: this.format.name,
       standings,
       duration: this.elapsed,
     };
   }
 
   getModeData(): any {
+    const localPlayer = this.players.find(p => p.isLocal);
+    const localTeam = localPlayer ? this.getTeam(localPlayer.id) : undefined;
+    const otherScores = this.teams.filter(t => t !== localTeam).map(t => t.score);
+
     return {
+      format: this.format.id,
       heistPhase: this.heistPhase,
-      carrierId: this.carrierId,
-      trophyPosition: this.trophy?.getWorldPosition() ?? new THREE.Vector3(),
-      trophyState: this.trophy?.state ?? 'idle',
+      carrierId: this.trophies[0]?.carrierId ?? null,
+      trophyPosition: this.trophies[0]?.trophy.getWorldPosition() ?? new THREE.Vector3(),
+      trophyState: this.trophies[0]?.trophy.state ?? 'idle',
+      trophies: this.trophies.map(s => ({
+        position: s.trophy.getWorldPosition(),
+        state: s.trophy.state,
+        carrierId: s.carrierId,
+      })),
       matchTimer: this.matchTimer,
       overtimeActive: this.overtimeActive,
+      localTeam: localTeam?.index ?? null,
+      // Local team against the best other team, for the PvP HUD
+      scoreA: localTeam?.score ?? 0,
+      scoreB: otherScores.length > 0 ? Math.max(...otherScores) : 0,
+      teamScores: this.teams.map(t => t.score),
       scores: Object.fromEntries(
         Array.from(this.playerData.entries()).map(([id, d]) => [id, d.score]),
       ),
       stats: Object.fromEntries(
         Array.from(this.playerData.entries()).map(([id, d]) => [id, {
+          team: d.team,
           slamCount: d.slamCount,
+          assists: d.assists,
+          passes: d.passes,
           carryTime: d.carryTime,
           longestCarry: d.longestCarry,
         }]),
       ),
-      pedestals: this.pedestals.map(p => ({
-        playerId: p.playerId,
-        position: p.position,
-        color: p.playerColor,
+      pedestals: this.teams.map(t => ({
+        team: t.index,
+        position: t.pedestal.position,
+        color: t.color,
       })),
     };
   }
@@ -641,23 +1048,28 @@ export class HeistMode extends PvPMode {
   }
 
   dispose(): void {
-    // Trophy
-    this.trophy?.dispose();
-    this.trophy = null;
+    // Trophies
+    for (const slot of this.trophies) {
+      slot.trophy.dispose();
+    }
+    this.trophies = [];
+    this.scoredSlot = null;
 
     // Pedestals
-    for (const pedestal of this.pedestals) {
-      pedestal.dispose();
+    for (const team of this.teams) {
+      team.pedestal.dispose();
     }
-    this.pedestals = [];
+    this.teams = [];
 
     // HUD
     this.hud?.dispose();
     this.hud = null;
 
-    // Bot
-    this.bot?.dispose();
-    this.bot = null;
+    // Bots
+    for (const bot of this.bots) {
+      bot.dispose();
+    }
+    this.bots = [];
 
     // Trail
     if (this.carrierTrail) {
@@ -678,6 +1090,5 @@ export class HeistMode extends PvPMode {
 
     // Clear data
     this.playerData.clear();
-    this.carrierId = null;
   }
 }
@@ -6,6 +6,7 @@
 import * as THREE from 'three';
 import { PvPMode, PvPPlayer, PvPResults, PvPStanding } from '../PvPMode';
 import { PVP } from '../../utils/Constants';
+import { STATUE_PREFAB_HEIGHTS, STATUE_SITES } from '../../../shared/PvPCourses';
 
 // Statue prefabs: simple geometric shapes
 const STATUE_PREFABS = [
@@ -37,7 +38,7 @@ const STATUE_PREFABS = [
       group.add(top);
       return group;
     },
-    height: 15,
+    height: STATUE_PREFAB_HEIGHTS[0],
   },
   // Human figure: stylized geometric person
   {
@@ -63,7 +64,7 @@ const STATUE_PREFABS = [
       group.add(arm);
       return group;
     },
-    height: 9,
+    height: STATUE_PREFAB_HEIGHTS[1],
   },
   // Horse and rider: simplified
   {
@@ -104,18 +105,12 @@ const STATUE_PREFABS = [
       group.add(rHead);
       return group;
     },
-    height: 8,
+    height: STATUE_PREFAB_HEIGHTS[2],
   },
 ];
 
-// Spawn locations for statues (prominent intersections / open areas)
-const STATUE_SPAWN_POSITIONS = [
-  new THREE.Vector3(0, 0, 0),        // City center
-  new THREE.Vector3(100, 0, 50),     // East district
-  new THREE.Vector3(-80, 0, -60),    // West district
-  new THREE.Vector3(50, 0, -120),    // South intersection
-  new THREE.Vector3(-60, 0, 100),    // North park area
-];
+// Spawn locations for statues (prominent intersections / open areas), shared with the server
+const STATUE_SPAWN_POSITIONS = STATUE_SITES.map(({ x, y, z }) => new THREE.Vector3(x, y, z));
 
 export class PoopCoverMode extends PvPMode {
   private hitCounts = new Map<string, number>();
@@ -238,15 +233,15 @@ export class PoopCoverMode extends PvPMode {
     return this.statuePosition.clone();
   }
 
-  /** Register a poop hit on the statue for a specific player. */
-  registerHit(playerId: string, hitPosition: THREE.Vector3): void {
+  /** Register a poop hit on the statue for a specific player (points come from the server when it runs the round). */
+  registerHit(playerId: string, hitPosition: THREE.Vector3, awardedPoints?: number): void {
     const current = this.hitCounts.get(playerId) || 0;
 
     // Accuracy bonus: closer to center = more points
     const dist = hitPosition.distanceTo(this.statuePosition);
-    const points = dist < PVP.COVER_HIT_RADIUS * 0.3
+    const points = awardedPoints ?? (dist < PVP.COVER_HIT_RADIUS * 0.3
       ? PVP.COVER_CENTER_BONUS
-      : PVP.COVER_EDGE_POINTS;
+      : PVP.COVER_EDGE_POINTS);
 
     this.hitCounts.set(playerId, current + points);
 
@@ -254,15 +249,19 @@ export class PoopCoverMode extends PvPMode {
     this.addSplatToStatue(playerId, hitPosition);
   }
 
-  private handleStatueHit = (data: { playerId: string; accuracy: number; hitPosition?: THREE.Vector3 }): void => {
+  private handleStatueHit = (data: { playerId: string; accuracy: number; hitPosition?: THREE.Vector3; points?: number }): void => {
     const pos = data.hitPosition || this.statuePosition;
-    this.registerHit(data.playerId, pos);
+    this.registerHit(data.playerId, pos, data.points);
   };
 
   private spawnStatue(): void {
-    // Pick random prefab and position
-    const prefab = STATUE_PREFABS[Math.floor(Math.random() * STATUE_PREFABS.length)];
-    const spawnPos = STATUE_SPAWN_POSITIONS[Math.floor(Math.random() * STATUE_SPAWN_POSITIONS.length)];
+    // Use the server's statue and site, or pick randomly for local rounds
+    const pick = (serverIndex: unknown, length: number): number =>
+      Number.isInteger(serverIndex) && (serverIndex as number) >= 0 && (serverIndex as number) < length
+        ? serverIndex as number
+        : Math.floor(Math.random() * length);
+    const prefab = STATUE_PREFABS[pick(this.serverSetup?.statuePrefab, STATUE_PREFABS.length)];
+    const spawnPos = STATUE_SPAWN_POSITIONS[pick(this.serverSetup?.statueSite, STATUE_SPAWN_POSITIONS.length)];
 
     this.statuePosition.copy(spawnPos);
     this.statuePosition.y = prefab.height / 2;
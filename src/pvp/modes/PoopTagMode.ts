@@ -34,9 +34,14 @@ export class PoopTagMode extends PvPMode {
       this.tagHoldTimes.set(p.id, 0);
     }
 
-    // Random player is "it"
-    const randomIndex = Math.floor(Math.random() * players.length);
-    this.taggedPlayerId = players[randomIndex].id;
+    // Server picks who is "it"; local rounds pick a random player
+    const serverTagged = this.serverSetup?.taggedPlayerId;
+    if (typeof serverTagged === 'string' && serverTagged) {
+      this.taggedPlayerId = serverTagged;
+    } else {
+      const randomIndex = Math.floor(Math.random() * players.length);
+      this.taggedPlayerId = players[randomIndex].id;
+    }
 
     // Create visual aura for tagged player
     this.createAuraVisuals();
@@ -6,7 +6,11 @@
 import * as THREE from 'three';
 import { PvPMode, PvPPlayer, PvPResults, PvPStanding } from '../PvPMode';
 import { PVP } from '../../utils/Constants';
-import { RACE_ROUTES, RaceCheckpointDef } from './RaceRoutes';
+import { RACE_ROUTES, RaceCheckpointDef, RaceRouteDef, toRaceRouteDef } from './RaceRoutes';
+import type { RaceRouteLibrary } from '../RaceRouteLibrary';
+import { decodeRaceRouteCode, getRaceRouteId } from '../../../shared/RaceRouteFormat';
+import { GhostRecorder, GhostTrack, getGhostSplitDelta } from '../../../shared/GhostTrack';
+import { GhostBird } from '../GhostBird';
 
 interface PlayerRaceState {
   currentCheckpoint: number;
@@ -16,6 +20,20 @@ interface PlayerRaceState {
 export class RaceMode extends PvPMode {
   private checkpoints: RaceCheckpointDef[] = [];
   private routeName = '';
+  private routeId = '';
+  private library: RaceRouteLibrary | null;
+  /** Best time on this route before the round started, and whether the local finish beat it */
+  private bestTime: number | null = null;
+  private newBest = false;
+
+  // Ghost racing: the local run is recorded, and a previous run (own best or a chosen one) flies alongside
+  private recorder: GhostRecorder | null = null;
+  private lastLocalPosition = new THREE.Vector3();
+  private localYaw = 0;
+  private ghostTrack: GhostTrack | null = null;
+  private ghostBird: GhostBird | null = null;
+  /** Seconds ahead (negative) or behind the ghost at the last checkpoint */
+  private splitDelta: number | null = null;
   private playerStates = new Map<string, PlayerRaceState>();
   private raceFinished = false;
 
@@ -27,6 +45,15 @@ export class RaceMode extends PvPMode {
 
   // Per-player ring visibility (local only — each player sees rings they haven't passed)
   private localCheckpoint = 0;
+  // Last checkpoint claim sent to the server, so a ring is claimed once per CLAIM_RETRY_S
+  private lastClaim = { checkpoint: -1, at: 0 };
+
+  private static readonly CLAIM_RETRY_S = 0.5;
+
+  constructor(library: RaceRouteLibrary | null = null) {
+    super();
+    this.library = library;
+  }
 
   getModeId(): string { return 'race'; }
   getModeName(): string { return 'Race'; }
@@ -39,12 +66,32 @@ export class RaceMode extends PvPMode {
   onStart(players: PvPPlayer[]): void {
     super.onStart(players);
 
-    // Pick a random route
-    const route = RACE_ROUTES[Math.floor(Math.random() * RACE_ROUTES.length)];
+    // Race the server's route (a private lobby may pick a shared route code);
+    // local rounds race the player's selected route, or a random one
+    const serverRoute = this.serverSetup?.routeIndex;
+    const serverCustomRoute = typeof this.serverSetup?.routeCode === 'string'
+      ? decodeRaceRouteCode(this.serverSetup.routeCode)
+      : null;
+    const selectedRoute = this.library?.getSelectedRoute();
+    let route: RaceRouteDef;
+    if (serverCustomRoute) {
+      route = toRaceRouteDef(serverCustomRoute);
+    } else if (Number.isInteger(serverRoute) && RACE_ROUTES[serverRoute]) {
+      route = RACE_ROUTES[serverRoute];
+    } else if (selectedRoute) {
+      route = toRaceRouteDef(selectedRoute);
+    } else {
+      route = RACE_ROUTES[Math.floor(Math.random() * RACE_ROUTES.length)];
+    }
     this.checkpoints = route.checkpoints;
     this.routeName = route.name;
+    this.routeId = getRaceRouteId(route);
+    this.bestTime = this.library?.getBestTime(this.routeId) ?? null;
+    this.newBest = false;
+    this.setupGhost();
     this.raceFinished = false;
     this.localCheckpoint = 0;
+    this.lastClaim = { checkpoint: -1, at: 0 };
 
     // Init player states
     this.playerStates.clear();
@@ -69,11 +116,17 @@ export class RaceMode extends PvPMode {
 
     // Check local player checkpoint collisions
     const localPlayer = this.players.find(p => p.isLocal);
+    if (localPlayer) this.recordLocalPose(localPlayer);
+    this.ghostBird?.update(dt, this.elapsed);
     if (localPlayer && this.localCheckpoint < this.checkpoints.length) {
       const cp = this.checkpoints[this.localCheckpoint];
       const dist = localPlayer.position.distanceTo(cp.position);
       if (dist < cp.radius) {
-        this.advanceCheckpoint(localPlayer.id);
+        if (this.context.reportCheckpoint) {
+          this.claimCheckpoint(this.localCheckpoint);
+        } else {
+          this.advanceCheckpoint(localPlayer.id);
+        }
       }
     }
 
@@ -117,6 +170,7 @@ export class RaceMode extends PvPMode {
 
   onEnd(): PvPResults {
     this.context.eventBus.off('checkpoint-reached', this.handleCheckpoint);
+    this.disposeGhost();
 
     // Sort: finished players first (by time), then by checkpoint count
     const sorted = [...this.players].sort((a, b) => {
@@ -182,6 +236,11 @@ export class RaceMode extends PvPMode {
       localCheckpoint: localState?.currentCheckpoint || 0,
       localRank: ordinal,
       routeName: this.routeName,
+      routeId: this.routeId,
+      bestTime: this.bestTime,
+      newBest: this.newBest,
+      ghostName: this.ghostTrack?.playerName ?? null,
+      splitDelta: this.splitDelta,
     };
   }
 
@@ -200,6 +259,20 @@ export class RaceMode extends PvPMode {
     const localPlayer = this.players.find(p => p.isLocal);
     if (localPlayer && playerId === localPlayer.id) {
       this.localCheckpoint = state.currentCheckpoint;
+      this.recorder?.split(this.elapsed);
+      if (this.ghostTrack) {
+        this.splitDelta = getGhostSplitDelta(this.ghostTrack, state.currentCheckpoint - 1, this.elapsed);
+      }
+      if (state.completedAt >= 0) {
+        const ghost = this.recorder?.finish({
+          routeId: this.routeId,
+          routeName: this.routeName,
+          playerName: localPlayer.name,
+          time: state.completedAt,
+        }) ?? null;
+        this.recorder = null;
+        this.newBest = this.library?.recordTime(this.routeId, state.completedAt, ghost) ?? false;
+      }
     }
 
     this.context.eventBus.emit('score-update', {
@@ -210,6 +283,39 @@ export class RaceMode extends PvPMode {
     });
   }
 
+  private setupGhost(): void {
+    this.disposeGhost();
+    this.recorder = new GhostRecorder();
+    this.splitDelta = null;
+    const localPlayer = this.players.find(p => p.isLocal);
+    if (localPlayer) this.lastLocalPosition.copy(localPlayer.position);
+    this.ghostTrack = this.library?.getGhostFor(this.routeId) ?? null;
+    if (this.ghostTrack) this.ghostBird = new GhostBird(this.ghostTrack, this.context.scene);
+  }
+
+  /** PvP players carry no rotation, so the recorded yaw follows the direction of travel */
+  private recordLocalPose(localPlayer: PvPPlayer): void {
+    if (!this.recorder) return;
+    const dx = localPlayer.position.x - this.lastLocalPosition.x;
+    const dz = localPlayer.position.z - this.lastLocalPosition.z;
+    if (dx * dx + dz * dz > 0.01) this.localYaw = Math.atan2(-dx, -dz);
+    this.lastLocalPosition.copy(localPlayer.position);
+    this.recorder.record(this.elapsed, localPlayer.position, this.localYaw);
+  }
+
+  private disposeGhost(): void {
+    this.ghostBird?.dispose();
+    this.ghostBird = null;
+  }
+
+  /** Ask the server to count a checkpoint; it advances when the server echoes it back */
+  private claimCheckpoint(checkpointIndex: number): void {
+    const { checkpoint, at } = this.lastClaim;
+    if (checkpoint === checkpointIndex && this.elapsed - at < RaceMode.CLAIM_RETRY_S) return;
+    this.lastClaim = { checkpoint: checkpointIndex, at: this.elapsed };
+    this.context.reportCheckpoint?.(checkpointIndex);
+  }
+
   private handleCheckpoint = (data: { playerId: string; checkpointIndex: number }): void => {
     // External checkpoint events (from bots or multiplayer)
     const state = this.playerStates.get(data.playerId);
@@ -219,14 +325,15 @@ export class RaceMode extends PvPMode {
   };
 
   private createRings(): void {
-    const ringGeo = new THREE.TorusGeometry(PVP.RACE_RING_RADIUS, 0.5, 8, 24);
-
     for (let i = 0; i < this.checkpoints.length; i++) {
       const cp = this.checkpoints[i];
       const isLast = i === this.checkpoints.length - 1;
 
       const group = new THREE.Group();
 
+      // Rings match the checkpoint's own radius, which player-made routes vary
+      const ringGeo = new THREE.TorusGeometry(cp.radius, 0.5, 8, 24);
+
       // Main ring
       const mat = new THREE.MeshStandardMaterial({
         color: isLast ? 0xffd700 : 0x00ff88,
@@ -239,7 +346,7 @@ export class RaceMode extends PvPMode {
       group.add(mesh);
 
       // Inner glow
-      const glowGeo = new THREE.SphereGeometry(PVP.RACE_RING_RADIUS * 0.4, 8, 8);
+      const glowGeo = new THREE.SphereGeometry(cp.radius * 0.4, 8, 8);
       const glowMat = new THREE.MeshBasicMaterial({
         color: isLast ? 0xffd700 : 0x00ff88,
         transparent: true,
@@ -249,7 +356,7 @@ export class RaceMode extends PvPMode {
 
       // Checkpoint number
       // (Number displayed via sprite would be complex; using point light color instead)
-      const light = new THREE.PointLight(isLast ? 0xffd700 : 0x00ff88, 0.8, PVP.RACE_RING_RADIUS * 3);
+      const light = new THREE.PointLight(isLast ? 0xffd700 : 0x00ff88, 0.8, cp.radius * 3);
       group.add(light);
 
       group.position.copy(cp.position);
@@ -314,6 +421,7 @@ export class RaceMode extends PvPMode {
 
   dispose(): void {
     this.cleanupVisuals();
+    this.disposeGhost();
     this.context?.eventBus.off('checkpoint-reached', this.handleCheckpoint);
   }
 }
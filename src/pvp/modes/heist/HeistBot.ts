@@ -1,11 +1,19 @@
 /**
- * HeistBot - AI opponent for Heist mode solo play.
- * State machine: CHASE_TROPHY -> DELIVER -> ATTACK_CARRIER
+ * HeistBot - AI bird for Heist mode; fills the seats no player took when the lobby closed.
+ * State machine: CHASE_TROPHY -> DELIVER (passing ahead when pressed) -> ATTACK_CARRIER
+ * Carriers flip aside from a slam; the tier decides how often, and how well bots aim.
  */
 
 import * as THREE from 'three';
 import { HEIST, FLIGHT, WORLD } from '../../../utils/Constants';
 import type { PvPPlayer } from '../../PvPMode';
+import { BotDodge } from '../../BotDodge';
+import {
+  BOT_DIFFICULTY_PROFILES,
+  DEFAULT_BOT_DIFFICULTY,
+  type BotDifficulty,
+  type BotDifficultyProfile,
+} from '../../../../shared/BotDifficulty';
 
 type BotState = 'chase_trophy' | 'deliver' | 'attack_carrier' | 'idle';
 
@@ -20,15 +28,21 @@ export class HeistBot {
   private forward = new THREE.Vector3(0, 0, -1);
   private speed: number;
   private reactionTimer = 0;
+  private difficulty: BotDifficultyProfile = BOT_DIFFICULTY_PROFILES[DEFAULT_BOT_DIFFICULTY];
+  private dodge = new BotDodge();
 
   private eventCallback: HeistBotEventCallback | null = null;
 
   // Mode data references (refreshed each frame)
   private trophyPosition = new THREE.Vector3();
   private trophyCarrierId: string | null = null;
+  private carrierIsTeammate = false;
   private pedestalPosition = new THREE.Vector3();
   private opponentPosition = new THREE.Vector3();
+  private opponentVelocity = new THREE.Vector3();
+  private lastOpponentPosition: THREE.Vector3 | null = null;
   private isCarryingTrophy = false;
+  private passTargetId: string | null = null;
 
   constructor(player: PvPPlayer, scene: THREE.Scene) {
     this.player = player;
@@ -57,31 +71,41 @@ export class HeistBot {
     scene.add(this.mesh);
   }
 
+  setDifficulty(difficulty: BotDifficulty): void {
+    this.difficulty = BOT_DIFFICULTY_PROFILES[difficulty];
+  }
+
   setEventCallback(cb: HeistBotEventCallback): void {
     this.eventCallback = cb;
   }
 
-  /** Update mode data each frame from HeistMode */
+  /** Update mode data each frame from HeistMode; the trophy is the one this bot is after */
   updateModeData(data: {
     trophyPosition: THREE.Vector3;
     trophyCarrierId: string | null;
+    carrierIsTeammate: boolean;
     pedestalPosition: THREE.Vector3;
     opponentPosition: THREE.Vector3;
     botCarryingTrophy: boolean;
+    /** Teammate to hand the trophy to, set when an opponent is closing in */
+    passTargetId: string | null;
   }): void {
     this.trophyPosition.copy(data.trophyPosition);
     this.trophyCarrierId = data.trophyCarrierId;
+    this.carrierIsTeammate = data.carrierIsTeammate;
     this.pedestalPosition.copy(data.pedestalPosition);
     this.opponentPosition.copy(data.opponentPosition);
     this.isCarryingTrophy = data.botCarryingTrophy;
+    this.passTargetId = data.passTargetId;
   }
 
   update(dt: number): void {
     this.reactionTimer -= dt;
+    this.trackOpponent(dt);
 
     // Decide state
     if (this.reactionTimer <= 0) {
-      this.reactionTimer = HEIST.BOT_REACTION_DELAY;
+      this.reactionTimer = HEIST.BOT_REACTION_DELAY * this.difficulty.reactionScale;
       this.decideState();
     }
 
@@ -101,9 +125,15 @@ export class HeistBot {
         break;
     }
 
+    // A carrier with a slammer closing in may flip out of the way
+    const threat = this.isCarryingTrophy ? this.opponentPosition : null;
+    this.dodge.consider(dt, this.player.position, this.forward, threat, this.difficulty.flipRate);
+    this.dodge.update(dt, this.player.position, this.forward);
+
     // Update visual mesh
     this.mesh.position.copy(this.player.position);
     this.mesh.lookAt(this.player.position.clone().add(this.forward));
+    this.dodge.applyRoll(this.mesh);
 
     // Wing flap
     const wings = this.mesh.children[1];
@@ -116,23 +146,23 @@ export class HeistBot {
     if (this.isCarryingTrophy) {
       // We have the trophy — deliver it
       this.botState = 'deliver';
-    } else if (this.trophyCarrierId && this.trophyCarrierId !== this.player.id) {
+    } else if (this.trophyCarrierId && this.trophyCarrierId !== this.player.id && !this.carrierIsTeammate) {
       // Opponent has the trophy — attack them
-      if (Math.random() < HEIST.BOT_SLAM_ACCURACY) {
+      if (Math.random() < Math.min(0.95, HEIST.BOT_SLAM_ACCURACY / this.difficulty.aimError)) {
         this.botState = 'attack_carrier';
       } else {
         // Sometimes fly indirect to be less predictable
         this.botState = 'chase_trophy';
       }
     } else {
-      // Trophy is idle — chase it
+      // Trophy is idle (or a teammate has it) — chase it
       this.botState = 'chase_trophy';
     }
   }
 
   private executeChaseTrophy(dt: number): void {
     // Add imprecision based on BOT_FLIGHT_PRECISION
-    const imprecision = (1 - HEIST.BOT_FLIGHT_PRECISION) * 10;
+    const imprecision = (1 - HEIST.BOT_FLIGHT_PRECISION) * 10 * this.difficulty.aimError;
     this.waypoint.copy(this.trophyPosition);
     this.waypoint.x += (Math.random() - 0.5) * imprecision;
     this.waypoint.z += (Math.random() - 0.5) * imprecision;
@@ -148,6 +178,10 @@ export class HeistBot {
   }
 
   private executeDeliver(dt: number): void {
+    if (this.passTargetId) {
+      this.eventCallback?.('heist-pass', { playerId: this.player.id, targetId: this.passTargetId });
+    }
+
     this.waypoint.copy(this.pedestalPosition);
     this.speed = FLIGHT.BASE_SPEED * HEIST.BOT_SPEED_UTILIZATION * 1.05; // Slightly faster when delivering
     this.flyToward(this.waypoint, dt);
@@ -166,10 +200,14 @@ export class HeistBot {
     // Predict where opponent will be (lead the target slightly)
     const leadFactor = 0.5;
     const toOpponent = new THREE.Vector3().subVectors(this.opponentPosition, this.player.position);
-    if (toOpponent.length() > 20) {
+    const distance = toOpponent.length();
+    if (distance > 20) {
       // Add lead offset when far away
       this.waypoint.addScaledVector(toOpponent.normalize(), leadFactor * 10);
     }
+    // Sharper bots also aim where the carrier is heading
+    const seconds = Math.min(1.5, distance / FLIGHT.MAX_SPEED);
+    this.waypoint.addScaledVector(this.opponentVelocity, seconds * this.difficulty.aimPrediction);
 
     // Fly fast for slam (need to be above speed threshold)
     this.speed = FLIGHT.MAX_SPEED * 0.9;
@@ -185,6 +223,18 @@ export class HeistBot {
     }
   }
 
+  private trackOpponent(dt: number): void {
+    if (dt <= 0) return;
+    if (this.lastOpponentPosition) {
+      this.opponentVelocity.subVectors(this.opponentPosition, this.lastOpponentPosition).divideScalar(dt);
+      // A different opponent or a respawn, not flight
+      if (this.opponentVelocity.lengthSq() > FLIGHT.MAX_SPEED * FLIGHT.MAX_SPEED * 4) this.opponentVelocity.set(0, 0, 0);
+      this.lastOpponentPosition.copy(this.opponentPosition);
+    } else {
+      this.lastOpponentPosition = this.opponentPosition.clone();
+    }
+  }
+
   private executeIdle(dt: number): void {
     // Drift toward center
     this.waypoint.set(0, HEIST.TROPHY_HOVER_HEIGHT, 0);
@@ -1,19 +1,28 @@
 /**
  * HeistHUD - In-game HUD for Heist mode.
- * Score, timer, trophy status, slam cooldown, directional indicators.
+ * Team scores, timer, trophy status, slam cooldown, pass hint, directional indicators.
  * Pure imperative DOM, no framework.
  */
 
 import * as THREE from 'three';
 import { HEIST } from '../../../utils/Constants';
 
-export type TrophyStatusLabel = 'CENTER' | 'YOU HAVE IT' | 'OPPONENT HAS IT' | 'LOOSE';
+/** CARRIED is the spectator's view, who is on no team */
+export type TrophyStatusLabel = 'CENTER' | 'YOU HAVE IT' | 'TEAMMATE HAS IT' | 'OPPONENT HAS IT' | 'CARRIED' | 'LOOSE';
+
+export interface HeistTeamScore {
+  score: number;
+  /** CSS color */
+  color: string;
+  isLocal: boolean;
+}
 
 export class HeistHUD {
   private container: HTMLElement;
   private scoreEl: HTMLElement;
   private timerEl: HTMLElement;
   private trophyStatusEl: HTMLElement;
+  private passHintEl: HTMLElement;
   private slamCooldownEl: HTMLElement;
   private trophyArrowEl: HTMLElement;
   private pedestalArrowEl: HTMLElement;
@@ -22,7 +31,7 @@ export class HeistHUD {
 
   private visible = false;
 
-  constructor() {
+  constructor(modeName: string = 'Heist') {
     // Main container - top center bar
     this.container = document.createElement('div');
     this.container.style.cssText = `
@@ -62,7 +71,7 @@ export class HeistHUD {
       text-transform: uppercase;
       letter-spacing: 1px;
     `;
-    modeLabel.textContent = 'HEIST';
+    modeLabel.textContent = modeName.toUpperCase();
     scoreBar.appendChild(modeLabel);
 
     // Separator
@@ -116,6 +125,21 @@ export class HeistHUD {
     this.trophyStatusEl.textContent = 'CENTER';
     this.container.appendChild(this.trophyStatusEl);
 
+    // Pass hint (team modes, while carrying with a teammate in range)
+    this.passHintEl = document.createElement('div');
+    this.passHintEl.style.cssText = `
+      display: none;
+      background: rgba(0, 0, 0, 0.6);
+      border-radius: 12px;
+      padding: 4px 14px;
+      font-size: 11px;
+      font-weight: bold;
+      letter-spacing: 1px;
+      color: #88ddff;
+    `;
+    this.passHintEl.textContent = '[7] PASS TO TEAMMATE';
+    this.container.appendChild(this.passHintEl);
+
     // Slam cooldown indicator (bottom center)
     this.slamCooldownEl = document.createElement('div');
     this.slamCooldownEl.style.cssText = `
@@ -197,7 +221,7 @@ export class HeistHUD {
       text-shadow: 0 2px 8px rgba(0,0,0,0.6);
       margin-bottom: 8px;
     `;
-    countdownLabel.textContent = 'HEIST';
+    countdownLabel.textContent = modeName.toUpperCase();
     this.countdownOverlay.appendChild(countdownLabel);
 
     this.countdownNumber = document.createElement('div');
@@ -226,6 +250,7 @@ export class HeistHUD {
     this.visible = false;
     this.container.style.display = 'none';
     this.slamCooldownEl.style.display = 'none';
+    this.passHintEl.style.display = 'none';
     this.trophyArrowEl.style.display = 'none';
     this.pedestalArrowEl.style.display = 'none';
     this.countdownOverlay.style.display = 'none';
@@ -240,8 +265,11 @@ export class HeistHUD {
     this.countdownOverlay.style.display = 'none';
   }
 
-  updateScore(localScore: number, opponentScore: number, localColor: string, opponentColor: string): void {
-    this.scoreEl.innerHTML = `<span style="color:${localColor}">${localScore}</span> <span style="color:rgba(255,255,255,0.5)">—</span> <span style="color:${opponentColor}">${opponentScore}</span>`;
+  /** One score per team, local team first; the local team's score is underlined */
+  updateScores(teams: HeistTeamScore[]): void {
+    this.scoreEl.innerHTML = teams
+      .map(t => `<span style="color:${t.color}${t.isLocal ? ';text-decoration:underline' : ''}">${t.score}</span>`)
+      .join(' <span style="color:rgba(255,255,255,0.5)">—</span> ');
   }
 
   updateTimer(secondsRemaining: number): void {
@@ -268,10 +296,18 @@ export class HeistHUD {
         this.trophyStatusEl.style.color = '#44ff44';
         this.trophyStatusEl.style.borderColor = 'rgba(68, 255, 68, 0.3)';
         break;
+      case 'TEAMMATE HAS IT':
+        this.trophyStatusEl.style.color = '#88ddff';
+        this.trophyStatusEl.style.borderColor = 'rgba(136, 221, 255, 0.3)';
+        break;
       case 'OPPONENT HAS IT':
         this.trophyStatusEl.style.color = '#ff4444';
         this.trophyStatusEl.style.borderColor = 'rgba(255, 68, 68, 0.3)';
         break;
+      case 'CARRIED':
+        this.trophyStatusEl.style.color = '#ffffff';
+        this.trophyStatusEl.style.borderColor = 'rgba(255, 255, 255, 0.3)';
+        break;
       case 'LOOSE':
         this.trophyStatusEl.style.color = '#ffaa00';
         this.trophyStatusEl.style.borderColor = 'rgba(255, 170, 0, 0.3)';
@@ -279,6 +315,10 @@ export class HeistHUD {
     }
   }
 
+  showPassHint(visible: boolean): void {
+    this.passHintEl.style.display = visible ? 'block' : 'none';
+  }
+
   updateSlamCooldown(remaining: number, total: number): void {
     if (remaining <= 0) {
       this.slamCooldownEl.style.display = 'none';
@@ -1,5 +1,5 @@
 /**
- * HeistPedestal - Scoring pedestal for a player in Heist mode.
+ * HeistPedestal - Scoring pedestal for a team in Heist mode (a 1v1 team is one player).
  * Elevated platform with player-colored glow and trigger zone.
  */
 
@@ -8,8 +8,8 @@ import { HEIST } from '../../../utils/Constants';
 
 export class HeistPedestal {
   readonly group: THREE.Group;
-  readonly playerId: string;
-  readonly playerColor: number;
+  readonly team: number;
+  readonly teamColor: number;
   readonly position: THREE.Vector3;
   private glowLight: THREE.PointLight;
   private ringMesh: THREE.Mesh;
@@ -20,12 +20,12 @@ export class HeistPedestal {
 
   constructor(
     scene: THREE.Scene,
-    playerId: string,
-    playerColor: number,
+    team: number,
+    teamColor: number,
     worldPosition: THREE.Vector3,
   ) {
-    this.playerId = playerId;
-    this.playerColor = playerColor;
+    this.team = team;
+    this.teamColor = teamColor;
     this.position = worldPosition.clone();
 
     this.group = new THREE.Group();
@@ -34,8 +34,8 @@ export class HeistPedestal {
     // Platform base (cylinder)
     const platformGeo = new THREE.CylinderGeometry(4, 5, 1.5, 12);
     const platformMat = new THREE.MeshStandardMaterial({
-      color: playerColor,
-      emissive: playerColor,
+      color: teamColor,
+      emissive: teamColor,
       emissiveIntensity: 0.3,
       metalness: 0.5,
       roughness: 0.4,
@@ -46,7 +46,7 @@ export class HeistPedestal {
     // Glowing ring on top
     const ringGeo = new THREE.TorusGeometry(3.5, 0.3, 8, 24);
     const ringMat = new THREE.MeshBasicMaterial({
-      color: playerColor,
+      color: teamColor,
       transparent: true,
       opacity: 0.6,
     });
@@ -58,8 +58,8 @@ export class HeistPedestal {
     // Vertical accent pillars (4 corners)
     const pillarGeo = new THREE.CylinderGeometry(0.2, 0.2, 4, 6);
     const pillarMat = new THREE.MeshStandardMaterial({
-      color: playerColor,
-      emissive: playerColor,
+      color: teamColor,
+      emissive: teamColor,
       emissiveIntensity: 0.2,
     });
     for (let i = 0; i < 4; i++) {
@@ -70,7 +70,7 @@ export class HeistPedestal {
     }
 
     // Point light for glow
-    this.glowLight = new THREE.PointLight(playerColor, 1.5, 30);
+    this.glowLight = new THREE.PointLight(teamColor, 1.5, 30);
     this.glowLight.position.y = 3;
     this.group.add(this.glowLight);
 
@@ -94,7 +94,7 @@ export class HeistPedestal {
     const particleCount = 20;
     for (let i = 0; i < particleCount; i++) {
       const geo = new THREE.SphereGeometry(0.3, 4, 3);
-      const color = i % 2 === 0 ? 0xffd700 : this.playerColor;
+      const color = i % 2 === 0 ? 0xffd700 : this.teamColor;
       const mat = new THREE.MeshBasicMaterial({
         color,
         transparent: true,
@@ -1,6 +1,6 @@
 /**
  * HeistSlamSystem - Body-slam detection, knockback physics, cooldown tracking.
- * Only activates when one player is carrying the trophy and the other hits them at speed.
+ * Only activates when a player is carrying a trophy and an opponent hits them at speed.
  */
 
 import * as THREE from 'three';
@@ -23,17 +23,21 @@ export class HeistSlamSystem {
   // Knockback state per player (playerId -> { velocity, timer })
   private knockbackStates = new Map<string, { velocity: THREE.Vector3; timer: number }>();
 
-  /** Check for a valid slam between two players */
+  /**
+   * Check for a valid slam between two players. `thresholdFraction` is the
+   * share of max flight speed needed; assisted slams pass a lower one.
+   */
   checkSlam(
     attacker: PvPPlayer,
     carrier: PvPPlayer,
     attackerSpeed: number,
+    thresholdFraction: number = HEIST.SLAM_SPEED_THRESHOLD,
   ): SlamResult | null {
     // Attacker must not be on cooldown
     if ((this.cooldowns.get(attacker.id) ?? 0) > 0) return null;
 
     // Check speed threshold
-    const speedThreshold = FLIGHT.MAX_SPEED * HEIST.SLAM_SPEED_THRESHOLD;
+    const speedThreshold = FLIGHT.MAX_SPEED * thresholdFraction;
     if (attackerSpeed < speedThreshold) return null;
 
     // Check collision radius
@@ -137,6 +137,16 @@ export class HeistTrophy {
     this.setBeamVisible(false);
   }
 
+  /** Fall from where the server dropped it, with the server's velocity (server matches) */
+  dropFrom(pos: THREE.Vector3, velocity: THREE.Vector3): void {
+    this.position.copy(pos);
+    this.group.position.copy(this.position);
+    this.velocity.copy(velocity);
+    this.state = 'falling';
+    this.fallTimer = 0;
+    this.setBeamVisible(false);
+  }
+
   /** Settle into idle hover at the server-authoritative position */
   settleAt(pos: THREE.Vector3): void {
     this.position.copy(pos);
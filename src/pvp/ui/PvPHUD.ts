@@ -136,9 +136,13 @@ export class PvPHUD {
         const cp = data?.localCheckpoint || 0;
         const total = data?.totalCheckpoints || 0;
         const rank = data?.localRank || '?';
+        const best = data?.newBest ? ' - NEW BEST!' : (data?.bestTime != null ? ` - Best ${data.bestTime.toFixed(1)}s` : '');
+        // Split against the ghost at the last checkpoint: green when ahead, red when behind
+        const delta: number | null = data?.splitDelta ?? null;
+        const split = delta !== null ? ` - ${delta > 0 ? '+' : ''}${delta.toFixed(1)}s vs ${data?.ghostName ?? 'ghost'}` : '';
         this.statusText.textContent = `RACE${combatHint}`;
-        this.standingText.textContent = rooted ? 'Rooted!' : `CP ${cp}/${total} - ${rank}${slowed ? ' - Slowed' : ''}`;
-        this.standingText.style.color = '#aaccff';
+        this.standingText.textContent = rooted ? 'Rooted!' : `CP ${cp}/${total} - ${rank}${split}${best}${slowed ? ' - Slowed' : ''}`;
+        this.standingText.style.color = delta === null ? '#aaccff' : (delta <= 0 ? '#44ff88' : '#ff6644');
         break;
       }
       case 'poop-cover': {
@@ -149,10 +153,13 @@ export class PvPHUD {
         this.standingText.style.color = '#ffcc44';
         break;
       }
-      case 'heist': {
+      case 'heist':
+      case 'heist-2v2':
+      case 'heist-3v3':
+      case 'heist-ffa': {
         const scoreA = data?.scoreA ?? 0;
         const scoreB = data?.scoreB ?? 0;
-        this.statusText.textContent = `HEIST${combatHint}`;
+        this.statusText.textContent = `HEIST${data?.format && data.format !== '1v1' ? ` ${data.format.toUpperCase()}` : ''}${combatHint}`;
         this.standingText.textContent = rooted ? 'Rooted!' : `${scoreA} - ${scoreB}${slowed ? ' - Slowed' : ''}`;
         this.standingText.style.color = '#aaccff';
         break;
@@ -1,16 +1,42 @@
 /**
  * PvPHub - Collapsible sidebar showing available/active PvP events.
  * Non-intrusive: collapsed by default, expands on click.
+ * Online, it also hosts private lobbies: create or join by code, then the
+ * host's settings, everyone's ready marks and the invite link.
+ * The bot tier applies to every local round; online, PRACTICE starts one.
  */
 
 import type { PvPEventBus } from '../PvPEventBus';
 import type { PvPManager } from '../PvPManager';
+import { RACE_ROUTE_DATA } from '../../../shared/PvPCourses';
+import {
+  PVP_LOBBY_LIMITS,
+  PVP_LOBBY_MODE_NAMES,
+  getPvPLobbyPlayerRange,
+  type PvPLobbyModeId,
+  type PvPLobbySettings,
+  type PvPLobbyView,
+} from '../../../shared/PvPLobbySettings';
+import { BOT_DIFFICULTIES, BOT_DIFFICULTY_NAMES, type BotDifficulty } from '../../../shared/BotDifficulty';
+
+const LOBBY_PHASE_LABELS: Record<PvPLobbyView['phase'], string> = {
+  lobby: 'Waiting for everyone to ready up',
+  countdown: 'Starting...',
+  active: 'Round in progress',
+  results: 'Round over',
+};
 
 export class PvPHub {
   private container: HTMLElement;
   private tab: HTMLElement;
   private panel: HTMLElement;
   private eventList: HTMLElement;
+  /** Rebuilt only when the lobby changes, so typing a code survives the per-frame event refresh */
+  private lobbySection: HTMLElement;
+  /** Bot tier picker; built once so an open dropdown survives the refresh too */
+  private practiceSection: HTMLElement;
+  private lobbyCreateMode: PvPLobbyModeId = 'poop-tag';
+  private shownLobbyCode: string | null = null;
   private expanded = false;
   private eventBus: PvPEventBus;
   private manager: PvPManager;
@@ -82,11 +108,12 @@ export class PvPHub {
     this.panel = document.createElement('div');
     this.panel.style.cssText = `
       width: 0;
-      max-height: 400px;
+      max-height: 80vh;
+      overflow-y: auto;
       background: rgba(0, 0, 0, 0.8);
       backdrop-filter: blur(8px);
       border-radius: 8px 0 0 8px;
-      overflow: hidden;
+      overflow-x: hidden;
       transition: width 0.3s ease;
       color: white;
     `;
@@ -116,12 +143,37 @@ export class PvPHub {
     header.appendChild(closeBtn);
     this.panel.appendChild(header);
 
+    // Private lobby
+    this.lobbySection = document.createElement('div');
+    this.lobbySection.style.cssText = `
+      padding: 8px;
+      min-width: 260px;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+      font-size: 12px;
+    `;
+    this.panel.appendChild(this.lobbySection);
+
+    // Bot practice
+    this.practiceSection = document.createElement('div');
+    this.practiceSection.style.cssText = `
+      padding: 8px;
+      min-width: 260px;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+      font-size: 12px;
+    `;
+    this.practiceSection.appendChild(this.sectionTitle('BOT PRACTICE'));
+    const difficulty = document.createElement('select');
+    this.styleField(difficulty);
+    for (const id of BOT_DIFFICULTIES) difficulty.add(new Option(BOT_DIFFICULTY_NAMES[id], id));
+    difficulty.value = this.manager.getBotDifficulty();
+    difficulty.addEventListener('change', () => this.manager.setBotDifficulty(difficulty.value as BotDifficulty));
+    this.practiceSection.appendChild(this.labeled('Bot skill', difficulty));
+    this.panel.appendChild(this.practiceSection);
+
     // Event list
     this.eventList = document.createElement('div');
     this.eventList.style.cssText = `
       padding: 8px;
-      overflow-y: auto;
-      max-height: 330px;
       min-width: 260px;
     `;
     this.panel.appendChild(this.eventList);
@@ -141,9 +193,19 @@ export class PvPHub {
     this.expanded = true;
     this.panel.style.width = '280px';
     this.tab.style.display = 'none';
+    this.renderLobby();
     this.renderEvents();
   }
 
+  /** Latest private lobby state from the server; null once we are out of it */
+  setPrivateLobby(lobby: PvPLobbyView | null): void {
+    const joined = lobby !== null && lobby.code !== this.shownLobbyCode;
+    this.shownLobbyCode = lobby?.code ?? null;
+    // Open the panel once on joining; later updates leave it as the player left it
+    if (joined && !this.expanded) this.expand();
+    else this.renderLobby();
+  }
+
   collapse(): void {
     this.expanded = false;
     this.panel.style.width = '0';
@@ -208,7 +270,7 @@ export class PvPHub {
       const status = document.createElement('div');
       status.style.cssText = 'font-size: 11px; color: #aaa; margin-bottom: 6px;';
       if (isActive) {
-        status.textContent = `In progress - ${phase}`;
+        status.textContent = `${this.manager.isPractice() ? 'Practice' : 'In progress'} - ${phase}`;
         status.style.color = '#4488ff';
       } else {
         status.textContent = 'Ready to play';
@@ -252,10 +314,253 @@ export class PvPHub {
       btn.addEventListener('mouseleave', () => { btn.style.opacity = '1'; });
       card.appendChild(btn);
 
+      // Offline, PLAY is already a bots-only round
+      if (!isActive && this.manager.canUsePrivateLobbies()) {
+        const practice = this.smallButton('PRACTICE VS BOTS', 'rgba(255, 255, 255, 0.15)', () => {
+          this.manager.startPractice(event.modeId);
+          this.renderEvents();
+        });
+        practice.style.width = '100%';
+        practice.style.marginTop = '4px';
+        card.appendChild(practice);
+      }
+
       this.eventList.appendChild(card);
     }
   }
 
+  private renderLobby(): void {
+    this.lobbySection.replaceChildren();
+    if (!this.manager.canUsePrivateLobbies()) {
+      this.lobbySection.style.display = 'none';
+      return;
+    }
+    this.lobbySection.style.display = 'block';
+    this.lobbySection.appendChild(this.sectionTitle('PRIVATE LOBBY'));
+
+    const lobby = this.manager.getPrivateLobby();
+    if (lobby) this.renderLobbyDetails(lobby);
+    else this.renderLobbyEntry();
+  }
+
+  /** Not in a lobby: host one or join a friend's by code */
+  private renderLobbyEntry(): void {
+    const createRow = this.row();
+    const modeSelect = this.modeSelect(this.lobbyCreateMode, (modeId) => { this.lobbyCreateMode = modeId; });
+    createRow.appendChild(modeSelect);
+    createRow.appendChild(this.smallButton('CREATE', '#44cc44', () => this.manager.createPrivateLobby(this.lobbyCreateMode)));
+    this.lobbySection.appendChild(createRow);
+
+    const joinRow = this.row();
+    const codeInput = this.input('text', '');
+    codeInput.placeholder = 'Lobby code';
+    codeInput.maxLength = PVP_LOBBY_LIMITS.CODE_LENGTH + 1;
+    codeInput.style.textTransform = 'uppercase';
+    const join = (): void => {
+      const code = codeInput.value.trim();
+      if (code) this.manager.joinPrivateLobby(code);
+    };
+    codeInput.addEventListener('keydown', (e) => {
+      e.stopPropagation();
+      if (e.key === 'Enter') join();
+    });
+    joinRow.appendChild(codeInput);
+    joinRow.appendChild(this.smallButton('JOIN', '#4488ff', join));
+    this.lobbySection.appendChild(joinRow);
+  }
+
+  private renderLobbyDetails(lobby: PvPLobbyView): void {
+    const localId = this.manager.getLocalPlayerId();
+    const isHost = lobby.hostId === localId;
+    const { settings } = lobby;
+
+    const codeLine = document.createElement('div');
+    codeLine.style.cssText = 'font-size: 18px; font-weight: bold; letter-spacing: 3px; margin-bottom: 2px;';
+    codeLine.textContent = lobby.code;
+    this.lobbySection.appendChild(codeLine);
+    const status = document.createElement('div');
+    status.style.cssText = 'color: #aaa; margin-bottom: 6px;';
+    status.textContent = `${PVP_LOBBY_MODE_NAMES[settings.modeId]} · ${LOBBY_PHASE_LABELS[lobby.phase]}`;
+    this.lobbySection.appendChild(status);
+
+    for (const member of lobby.members) {
+      const line = this.row();
+      const name = document.createElement('span');
+      name.style.cssText = `flex: 1; color: ${member.id === localId ? '#ffd700' : 'white'};`;
+      name.textContent = `${member.ready ? '\u2713' : '\u00b7'} ${member.username}${member.id === lobby.hostId ? ' (host)' : ''}`;
+      if (member.ready) name.style.fontWeight = 'bold';
+      line.appendChild(name);
+      if (isHost && member.id !== localId) {
+        line.appendChild(this.smallButton('\u00d7', '#ff4444', () => this.manager.kickFromPrivateLobby(member.id)));
+      }
+      this.lobbySection.appendChild(line);
+    }
+
+    if (isHost) this.renderLobbySettings(settings);
+    else this.lobbySection.appendChild(this.settingsSummary(settings));
+
+    const me = lobby.members.find((m) => m.id === localId);
+    const actions = this.row();
+    actions.style.marginTop = '6px';
+    if (lobby.phase === 'lobby' || lobby.phase === 'countdown') {
+      actions.appendChild(me?.ready
+        ? this.smallButton('UNREADY', '#888', () => this.manager.setPrivateLobbyReady(false))
+        : this.smallButton('READY', '#44cc44', () => this.manager.setPrivateLobbyReady(true)));
+    }
+    actions.appendChild(this.smallButton('INVITE', '#4488ff', () => this.manager.inviteToPrivateLobby()));
+    actions.appendChild(this.smallButton('LEAVE', '#ff4444', () => this.manager.leaveMode()));
+    this.lobbySection.appendChild(actions);
+  }
+
+  /** Host controls; each change goes straight to the server, which clears everyone's ready mark */
+  private renderLobbySettings(settings: PvPLobbySettings): void {
+    const send = (update: Partial<PvPLobbySettings>): void => this.manager.updatePrivateLobbySettings(update);
+    const isHeist = settings.modeId.startsWith('heist');
+
+    this.lobbySection.appendChild(this.labeled('Mode', this.modeSelect(settings.modeId, (modeId) => send({ modeId }))));
+
+    const seconds = this.input('number', String(settings.roundSeconds));
+    seconds.min = String(PVP_LOBBY_LIMITS.MIN_ROUND_SECONDS);
+    seconds.max = String(PVP_LOBBY_LIMITS.MAX_ROUND_SECONDS);
+    seconds.step = '15';
+    seconds.addEventListener('change', () => send({ roundSeconds: Number(seconds.value) }));
+    this.lobbySection.appendChild(this.labeled('Round (s)', seconds));
+
+    const range = getPvPLobbyPlayerRange(settings.modeId);
+    if (range.max > range.min) {
+      const players = this.input('number', String(settings.maxPlayers));
+      players.min = String(range.min);
+      players.max = String(range.max);
+      players.addEventListener('change', () => send({ maxPlayers: Number(players.value) }));
+      this.lobbySection.appendChild(this.labeled('Max players', players));
+    }
+
+    if (isHeist) {
+      this.lobbySection.appendChild(this.checkbox('Fill empty seats with bots', settings.botFill, (botFill) => send({ botFill })));
+      this.lobbySection.appendChild(this.checkbox('Slams', settings.abilities.slams,
+        (slams) => send({ abilities: { ...settings.abilities, slams } })));
+      this.lobbySection.appendChild(this.checkbox('Passing', settings.abilities.passing,
+        (passing) => send({ abilities: { ...settings.abilities, passing } })));
+    }
+
+    if (settings.modeId === 'race') {
+      const route = document.createElement('select');
+      this.styleField(route);
+      route.add(new Option('Random each round', ''));
+      RACE_ROUTE_DATA.forEach((data, index) => route.add(new Option(data.name, String(index))));
+      route.value = settings.routeIndex === null ? '' : String(settings.routeIndex);
+      route.disabled = settings.routeCode !== null;
+      route.addEventListener('change', () => send({ routeIndex: route.value === '' ? null : Number(route.value) }));
+      this.lobbySection.appendChild(this.labeled('Route', route));
+
+      const code = this.input('text', settings.routeCode ?? '');
+      code.placeholder = 'Shared route code (optional)';
+      code.addEventListener('keydown', (e) => e.stopPropagation());
+      code.addEventListener('change', () => send({ routeCode: code.value.trim() || null }));
+      this.lobbySection.appendChild(code);
+    }
+  }
+
+  private settingsSummary(settings: PvPLobbySettings): HTMLElement {
+    const parts = [`${settings.roundSeconds}s rounds`, `up to ${settings.maxPlayers} players`];
+    if (settings.modeId.startsWith('heist')) {
+      if (settings.botFill) parts.push('bots fill seats');
+      if (!settings.abilities.slams) parts.push('no slams');
+      if (!settings.abilities.passing) parts.push('no passing');
+    }
+    if (settings.modeId === 'race') {
+      parts.push(settings.routeCode ? 'custom route'
+        : settings.routeIndex === null ? 'random route' : RACE_ROUTE_DATA[settings.routeIndex]?.name ?? 'random route');
+    }
+    const summary = document.createElement('div');
+    summary.style.cssText = 'color: #aaa; margin-top: 4px;';
+    summary.textContent = parts.join(' · ');
+    return summary;
+  }
+
+  private modeSelect(selected: PvPLobbyModeId, onChange: (modeId: PvPLobbyModeId) => void): HTMLSelectElement {
+    const select = document.createElement('select');
+    this.styleField(select);
+    for (const [modeId, name] of Object.entries(PVP_LOBBY_MODE_NAMES)) select.add(new Option(name, modeId));
+    select.value = selected;
+    select.addEventListener('change', () => onChange(select.value as PvPLobbyModeId));
+    return select;
+  }
+
+  private input(type: string, value: string): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = type;
+    input.value = value;
+    this.styleField(input);
+    return input;
+  }
+
+  private checkbox(label: string, checked: boolean, onChange: (checked: boolean) => void): HTMLElement {
+    const wrapper = document.createElement('label');
+    wrapper.style.cssText = 'display: flex; align-items: center; gap: 6px; margin: 3px 0; cursor: pointer;';
+    const box = document.createElement('input');
+    box.type = 'checkbox';
+    box.checked = checked;
+    box.addEventListener('change', () => onChange(box.checked));
+    wrapper.append(box, label);
+    return wrapper;
+  }
+
+  private labeled(label: string, field: HTMLElement): HTMLElement {
+    const line = this.row();
+    const text = document.createElement('span');
+    text.style.cssText = 'width: 80px; color: #ccc;';
+    text.textContent = label;
+    line.append(text, field);
+    return line;
+  }
+
+  private row(): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = 'display: flex; align-items: center; gap: 6px; margin: 4px 0;';
+    return row;
+  }
+
+  private sectionTitle(text: string): HTMLElement {
+    const title = document.createElement('div');
+    title.style.cssText = 'font-weight: bold; letter-spacing: 1px; color: #ccc; margin-bottom: 4px;';
+    title.textContent = text;
+    return title;
+  }
+
+  private styleField(field: HTMLInputElement | HTMLSelectElement): void {
+    field.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      padding: 4px 6px;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 4px;
+      background: rgba(255, 255, 255, 0.08);
+      color: white;
+      font-size: 12px;
+    `;
+  }
+
+  private smallButton(text: string, color: string, onClick: () => void): HTMLButtonElement {
+    const btn = document.createElement('button');
+    btn.textContent = text;
+    btn.style.cssText = `
+      padding: 4px 8px;
+      border: none;
+      border-radius: 4px;
+      background: ${color};
+      color: white;
+      font-size: 11px;
+      font-weight: bold;
+      cursor: pointer;
+    `;
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+    });
+    return btn;
+  }
+
   dispose(): void {
     this.container.remove();
   }
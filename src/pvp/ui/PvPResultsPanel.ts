@@ -1,16 +1,21 @@
 /**
  * PvPResultsPanel - End-of-round results screen.
- * Centered overlay showing standings, scores, rewards. Auto-closes after 10s.
+ * Centered overlay showing standings, scores, rewards and the local player's
+ * rating change. Auto-closes after 10s.
  */
 
 import type { PvPEventBus } from '../PvPEventBus';
 import type { PvPResults } from '../PvPMode';
+import { getRankBand, type RatingUpdateData } from '../../../shared/RatingBands';
 
 export class PvPResultsPanel {
   private overlay: HTMLElement;
   private panel: HTMLElement;
   private visible = false;
   private autoCloseTimer = 0;
+  private modeId: string | null = null;
+  /** Where the rating line goes; rating updates arrive shortly after the standings */
+  private ratingSlot: HTMLElement | null = null;
 
   constructor(_eventBus: PvPEventBus) {
     // Full-screen semi-transparent overlay
@@ -59,6 +64,7 @@ export class PvPResultsPanel {
   showResults(results: PvPResults): void {
     this.visible = true;
     this.autoCloseTimer = 10;
+    this.modeId = results.modeId;
 
     this.panel.innerHTML = '';
 
@@ -137,6 +143,9 @@ export class PvPResultsPanel {
       this.panel.appendChild(row);
     }
 
+    this.ratingSlot = document.createElement('div');
+    this.panel.appendChild(this.ratingSlot);
+
     // Close button
     const closeBtn = document.createElement('button');
     closeBtn.style.cssText = `
@@ -168,6 +177,35 @@ export class PvPResultsPanel {
     });
   }
 
+  /** Show the local player's new rating under the standings of the round it came from */
+  showRatingChange(update: RatingUpdateData): void {
+    if (!this.visible || !this.ratingSlot || update.mode !== this.modeId) return;
+
+    const band = getRankBand(update.rating, update.rd);
+    const sign = update.delta >= 0 ? '+' : '';
+    const deltaColor = update.delta >= 0 ? '#44ff88' : '#ff6666';
+
+    this.ratingSlot.style.cssText = `
+      margin-top: 12px;
+      padding: 8px 12px;
+      border-radius: 6px;
+      background: rgba(255, 255, 255, 0.05);
+      font-size: 13px;
+    `;
+    this.ratingSlot.innerHTML = '';
+
+    const ratingEl = document.createElement('span');
+    ratingEl.textContent = `Rating ${update.rating} `;
+    const deltaEl = document.createElement('span');
+    deltaEl.style.cssText = `color: ${deltaColor}; font-weight: bold;`;
+    deltaEl.textContent = `(${sign}${update.delta})`;
+    const bandEl = document.createElement('span');
+    bandEl.style.cssText = `margin-left: 8px; color: ${band.color}; font-weight: bold;`;
+    bandEl.textContent = band.name;
+
+    this.ratingSlot.append(ratingEl, deltaEl, bandEl);
+  }
+
   private hide(): void {
     this.visible = false;
     this.overlay.style.opacity = '0';
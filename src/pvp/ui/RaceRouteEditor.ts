@@ -0,0 +1,511 @@
+/**
+ * RaceRouteEditor - Build race routes in flight.
+ * Fly somewhere and drop a checkpoint where the bird is; the route is checked
+ * against building footprints as it grows, and can be saved, shared as a
+ * code or JSON file, and picked for local races or an online race.
+ * Also where ghosts are managed: export your best run, import a ghost file,
+ * or pick a leaderboard run to race against.
+ * The panel is non-modal so the bird keeps flying while it is open.
+ */
+
+import * as THREE from 'three';
+import type { RaceCheckpointData, RaceRouteData } from '../../../shared/PvPCourses';
+import { CityFootprints } from '../../../shared/CityLayout';
+import {
+  RACE_ROUTE_LIMITS,
+  RaceRouteProblem,
+  encodeRaceRouteCode,
+  serializeRaceRoute,
+  validateRaceRoute,
+} from '../../../shared/RaceRouteFormat';
+import { RaceRouteLibrary } from '../RaceRouteLibrary';
+import { GhostTrack, parseGhostTrack, serializeGhostTrack } from '../../../shared/GhostTrack';
+import type { RaceLeaderboardEntry } from '../../../shared/RaceLeaderboard';
+
+const OK_COLOR = 0x00ff88;
+const PROBLEM_COLOR = 0xff4444;
+const CURSOR_COLOR = 0xffffff;
+const DEFAULT_RADIUS = 8;
+
+export class RaceRouteEditor {
+  private container: HTMLElement;
+  private nameInput: HTMLInputElement;
+  private statusEl: HTMLElement;
+  private problemsEl: HTMLElement;
+  private codeInput: HTMLTextAreaElement;
+  private routeList: HTMLElement;
+  private ghostStatus: HTMLElement;
+  private leaderboardEl: HTMLElement;
+  private visible = false;
+
+  private scene: THREE.Scene;
+  private library: RaceRouteLibrary;
+  private city: CityFootprints | null = null;
+
+  private checkpoints: RaceCheckpointData[] = [];
+  private radius = DEFAULT_RADIUS;
+  private altitude = 0;
+  private problems: RaceRouteProblem[] = [];
+
+  // Preview of the route being built, plus a ring at the bird showing the next drop
+  private previewGroup = new THREE.Group();
+  private cursor: THREE.Mesh;
+
+  onRaceOnline: ((routeCode: string) => void) | null = null;
+  onRequestLeaderboard: ((routeId: string) => void) | null = null;
+  onRequestGhost: ((routeId: string, rank: number) => void) | null = null;
+
+  constructor(scene: THREE.Scene, library: RaceRouteLibrary) {
+    this.scene = scene;
+    this.library = library;
+
+    this.cursor = new THREE.Mesh(
+      new THREE.TorusGeometry(1, 0.3, 6, 24),
+      new THREE.MeshBasicMaterial({ color: CURSOR_COLOR, transparent: true, opacity: 0.4 }),
+    );
+
+    this.container = document.createElement('div');
+    this.container.style.cssText = `
+      position: fixed;
+      top: 80px;
+      left: 10px;
+      width: 280px;
+      max-height: calc(100vh - 120px);
+      overflow-y: auto;
+      background: rgba(0, 0, 0, 0.8);
+      backdrop-filter: blur(8px);
+      border-radius: 8px;
+      padding: 12px 14px;
+      z-index: 900;
+      display: none;
+      font-family: 'Arial', sans-serif;
+      font-size: 12px;
+      color: white;
+    `;
+
+    const title = document.createElement('div');
+    title.style.cssText = 'font-size: 14px; font-weight: bold; letter-spacing: 1px; margin-bottom: 6px;';
+    title.textContent = 'ROUTE EDITOR';
+    this.container.appendChild(title);
+
+    const hint = document.createElement('div');
+    hint.style.cssText = 'color: #aaa; margin-bottom: 8px; line-height: 1.5;';
+    hint.textContent = '[8] Drop checkpoint  [9] Undo  [ / ] Radius  [F2] Close';
+    this.container.appendChild(hint);
+
+    this.nameInput = document.createElement('input');
+    this.nameInput.placeholder = 'Route name';
+    this.nameInput.maxLength = RACE_ROUTE_LIMITS.MAX_NAME_LENGTH;
+    this.nameInput.style.cssText = this.fieldStyle();
+    this.nameInput.addEventListener('keydown', (e) => e.stopPropagation()); // Prevent game input while typing
+    this.nameInput.addEventListener('input', () => this.validate());
+    this.container.appendChild(this.nameInput);
+
+    this.statusEl = document.createElement('div');
+    this.statusEl.style.cssText = 'margin: 8px 0 4px; font-variant-numeric: tabular-nums;';
+    this.container.appendChild(this.statusEl);
+
+    this.problemsEl = document.createElement('div');
+    this.problemsEl.style.cssText = 'margin-bottom: 8px; line-height: 1.4;';
+    this.container.appendChild(this.problemsEl);
+
+    const actions = document.createElement('div');
+    actions.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr; gap: 4px; margin-bottom: 8px;';
+    actions.appendChild(this.button('NEW', () => this.load(null)));
+    actions.appendChild(this.button('SAVE', () => this.save()));
+    actions.appendChild(this.button('COPY CODE', () => this.copyCode()));
+    actions.appendChild(this.button('EXPORT JSON', () => this.exportJson()));
+    actions.appendChild(this.button('RACE LOCAL', () => this.raceLocal()));
+    actions.appendChild(this.button('RACE ONLINE', () => this.raceOnline()));
+    this.container.appendChild(actions);
+
+    this.codeInput = document.createElement('textarea');
+    this.codeInput.placeholder = 'Paste a route code or JSON to import';
+    this.codeInput.rows = 3;
+    this.codeInput.style.cssText = this.fieldStyle() + 'resize: vertical; font-family: monospace; font-size: 11px;';
+    this.codeInput.addEventListener('keydown', (e) => e.stopPropagation());
+    this.container.appendChild(this.codeInput);
+    const importBtn = this.button('IMPORT', () => this.importRoute());
+    importBtn.style.width = '100%';
+    importBtn.style.marginTop = '4px';
+    this.container.appendChild(importBtn);
+
+    const listTitle = document.createElement('div');
+    listTitle.style.cssText = 'font-weight: bold; margin: 12px 0 4px; letter-spacing: 1px;';
+    listTitle.textContent = 'MY ROUTES';
+    this.container.appendChild(listTitle);
+
+    this.routeList = document.createElement('div');
+    this.container.appendChild(this.routeList);
+
+    const ghostTitle = document.createElement('div');
+    ghostTitle.style.cssText = listTitle.style.cssText;
+    ghostTitle.textContent = 'GHOSTS';
+    this.container.appendChild(ghostTitle);
+
+    this.ghostStatus = document.createElement('div');
+    this.ghostStatus.style.cssText = 'color: #aaccff; margin-bottom: 4px;';
+    this.container.appendChild(this.ghostStatus);
+
+    const ghostFile = document.createElement('input');
+    ghostFile.type = 'file';
+    ghostFile.accept = '.json,application/json';
+    ghostFile.style.display = 'none';
+    ghostFile.addEventListener('change', () => {
+      const file = ghostFile.files?.[0];
+      if (file) file.text().then(text => this.importGhost(text));
+      ghostFile.value = '';
+    });
+    this.container.appendChild(ghostFile);
+
+    const ghostActions = document.createElement('div');
+    ghostActions.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 4px;';
+    ghostActions.appendChild(this.button('IMPORT', () => ghostFile.click()));
+    ghostActions.appendChild(this.button('EXPORT LAST', () => {
+      const lastRun = this.library.getLastRun();
+      if (lastRun) this.exportGhost(lastRun);
+    }));
+    ghostActions.appendChild(this.button('OWN BEST', () => {
+      this.library.chooseGhost(null);
+      this.renderGhostStatus();
+    }));
+    this.container.appendChild(ghostActions);
+
+    this.leaderboardEl = document.createElement('div');
+    this.leaderboardEl.style.cssText = 'margin-top: 6px;';
+    this.container.appendChild(this.leaderboardEl);
+
+    document.body.appendChild(this.container);
+  }
+
+  get isVisible(): boolean {
+    return this.visible;
+  }
+
+  /** Validate against the city the world was generated from */
+  setCitySeed(seed: number): void {
+    if (this.city?.seed !== seed) this.city = new CityFootprints(seed);
+    this.validate();
+  }
+
+  toggle(): void {
+    this.visible ? this.hide() : this.show();
+  }
+
+  show(): void {
+    this.visible = true;
+    this.container.style.display = 'block';
+    this.scene.add(this.previewGroup);
+    this.scene.add(this.cursor);
+    this.renderRoutes();
+    this.renderGhostStatus();
+    this.validate();
+  }
+
+  hide(): void {
+    this.visible = false;
+    this.container.style.display = 'none';
+    this.scene.remove(this.previewGroup);
+    this.scene.remove(this.cursor);
+  }
+
+  /** Follow the bird with the drop cursor */
+  update(dt: number, birdPosition: THREE.Vector3): void {
+    if (!this.visible) return;
+    this.altitude = birdPosition.y;
+    this.cursor.position.copy(birdPosition);
+    this.cursor.scale.setScalar(this.radius);
+    this.cursor.rotation.y += dt;
+    this.renderStatus();
+  }
+
+  dropCheckpoint(position: THREE.Vector3): void {
+    if (this.checkpoints.length >= RACE_ROUTE_LIMITS.MAX_CHECKPOINTS) return;
+    this.checkpoints.push({
+      position: { x: Math.round(position.x), y: Math.round(position.y), z: Math.round(position.z) },
+      radius: this.radius,
+    });
+    this.validate();
+  }
+
+  removeLastCheckpoint(): void {
+    this.checkpoints.pop();
+    this.validate();
+  }
+
+  adjustRadius(delta: number): void {
+    this.radius = THREE.MathUtils.clamp(this.radius + delta, RACE_ROUTE_LIMITS.MIN_RADIUS, RACE_ROUTE_LIMITS.MAX_RADIUS);
+  }
+
+  private currentRoute(): RaceRouteData {
+    return { name: this.nameInput.value.trim(), checkpoints: this.checkpoints };
+  }
+
+  private load(route: RaceRouteData | null): void {
+    this.nameInput.value = route?.name ?? '';
+    this.checkpoints = route ? route.checkpoints.map(cp => ({ position: { ...cp.position }, radius: cp.radius })) : [];
+    this.validate();
+  }
+
+  private validate(): void {
+    this.problems = validateRaceRoute(this.currentRoute(), this.city);
+    this.renderPreview();
+    this.renderStatus();
+
+    this.problemsEl.innerHTML = '';
+    if (this.problems.length === 0) {
+      this.problemsEl.style.color = '#44ff88';
+      this.problemsEl.textContent = 'Route OK';
+      return;
+    }
+    this.problemsEl.style.color = '#ff6644';
+    for (const problem of this.problems.slice(0, 5)) {
+      const line = document.createElement('div');
+      line.textContent = problem.reason;
+      this.problemsEl.appendChild(line);
+    }
+    if (this.problems.length > 5) {
+      const more = document.createElement('div');
+      more.textContent = `+${this.problems.length - 5} more`;
+      this.problemsEl.appendChild(more);
+    }
+  }
+
+  private renderStatus(): void {
+    this.statusEl.textContent =
+      `Checkpoints ${this.checkpoints.length}/${RACE_ROUTE_LIMITS.MAX_CHECKPOINTS}` +
+      ` | Radius ${this.radius} | Alt ${Math.round(this.altitude)}`;
+  }
+
+  private renderPreview(): void {
+    this.disposePreview();
+    const badCheckpoints = new Set(this.problems.map(p => p.checkpoint));
+    const points: THREE.Vector3[] = [];
+
+    this.checkpoints.forEach((cp, i) => {
+      const color = badCheckpoints.has(i) ? PROBLEM_COLOR : OK_COLOR;
+      const ring = new THREE.Mesh(
+        new THREE.TorusGeometry(cp.radius, 0.5, 8, 24),
+        new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.7 }),
+      );
+      ring.position.set(cp.position.x, cp.position.y, cp.position.z);
+      this.previewGroup.add(ring);
+      points.push(ring.position.clone());
+    });
+
+    if (points.length > 1) {
+      const line = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints(points),
+        new THREE.LineBasicMaterial({ color: OK_COLOR, transparent: true, opacity: 0.4 }),
+      );
+      this.previewGroup.add(line);
+    }
+  }
+
+  private renderRoutes(): void {
+    this.routeList.innerHTML = '';
+    const routes = this.library.getRoutes();
+    if (routes.length === 0) {
+      const empty = document.createElement('div');
+      empty.style.cssText = 'color: #888;';
+      empty.textContent = 'No saved routes';
+      this.routeList.appendChild(empty);
+      return;
+    }
+
+    const selectedId = this.library.getSelectedId();
+    for (const { id, route } of routes) {
+      const row = document.createElement('div');
+      row.style.cssText = `
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        padding: 4px 6px;
+        margin-bottom: 3px;
+        border-radius: 4px;
+        background: ${id === selectedId ? 'rgba(68, 136, 255, 0.25)' : 'rgba(255, 255, 255, 0.05)'};
+      `;
+
+      const label = document.createElement('div');
+      label.style.cssText = 'flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+      const best = this.library.getBestTime(id);
+      label.textContent = `${route.name} (${route.checkpoints.length})${best !== null ? ` - ${best.toFixed(1)}s` : ''}`;
+      label.title = id === selectedId ? 'Selected for local races' : '';
+      row.appendChild(label);
+
+      row.appendChild(this.button('EDIT', () => this.load(route)));
+      row.appendChild(this.button('TOP', () => this.onRequestLeaderboard?.(id)));
+      const bestGhost = this.library.getBestGhost(id);
+      if (bestGhost) row.appendChild(this.button('\u2913', () => this.exportGhost(bestGhost)));
+      row.appendChild(this.button('\u00d7', () => {
+        this.library.deleteRoute(id);
+        this.renderRoutes();
+      }));
+      this.routeList.appendChild(row);
+    }
+  }
+
+  /** Show a route's leaderboard, each run with a button to race its ghost */
+  showLeaderboard(routeId: string, entries: RaceLeaderboardEntry[]): void {
+    this.leaderboardEl.innerHTML = '';
+    const routeName = this.library.getRoute(routeId)?.name ?? 'Route';
+    const heading = document.createElement('div');
+    heading.style.cssText = 'color: #aaa; margin-bottom: 3px;';
+    heading.textContent = entries.length > 0 ? `${routeName} - top runs` : `${routeName} - no runs yet`;
+    this.leaderboardEl.appendChild(heading);
+
+    for (const entry of entries) {
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; align-items: center; gap: 4px; margin-bottom: 3px;';
+      const label = document.createElement('div');
+      label.style.cssText = 'flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+      label.textContent = `${entry.rank}. ${entry.username} - ${entry.time.toFixed(1)}s`;
+      row.appendChild(label);
+      row.appendChild(this.button('RACE', () => this.onRequestGhost?.(routeId, entry.rank)));
+      this.leaderboardEl.appendChild(row);
+    }
+  }
+
+  /** Race a ghost next time its route comes up; a saved route is also picked for local races */
+  chooseGhost(ghost: GhostTrack): void {
+    this.library.chooseGhost(ghost);
+    if (this.library.getRoute(ghost.routeId)) this.library.selectRoute(ghost.routeId);
+    this.renderRoutes();
+    this.renderGhostStatus();
+  }
+
+  private renderGhostStatus(): void {
+    const ghost = this.library.getChosenGhost();
+    this.ghostStatus.textContent = ghost
+      ? `Racing ${ghost.playerName} (${ghost.time.toFixed(1)}s) on ${ghost.routeName}`
+      : 'Racing your own best run';
+  }
+
+  private importGhost(text: string): void {
+    let ghost: GhostTrack | null = null;
+    try {
+      ghost = parseGhostTrack(JSON.parse(text));
+    } catch {
+      // Not JSON; reported below
+    }
+    if (!ghost) {
+      this.ghostStatus.textContent = 'Not a ghost file';
+      return;
+    }
+    this.chooseGhost(ghost);
+  }
+
+  private exportGhost(ghost: GhostTrack): void {
+    this.download(serializeGhostTrack(ghost), `${this.fileName(ghost.routeName)}-${ghost.time.toFixed(1)}s.ghost.json`);
+  }
+
+  /** Saves the current route if it is valid; returns its id */
+  private save(): string | null {
+    this.validate();
+    if (this.problems.length > 0) return null;
+    const id = this.library.saveRoute({ ...this.currentRoute(), checkpoints: [...this.checkpoints] });
+    this.renderRoutes();
+    return id;
+  }
+
+  private copyCode(): void {
+    this.codeInput.value = encodeRaceRouteCode(this.currentRoute());
+    navigator.clipboard.writeText(this.codeInput.value).catch(() => {
+      this.codeInput.select();
+      document.execCommand('copy');
+    });
+  }
+
+  private exportJson(): void {
+    const route = this.currentRoute();
+    this.download(serializeRaceRoute(route), `${this.fileName(route.name)}.json`);
+  }
+
+  private download(contents: string, fileName: string): void {
+    const blob = new Blob([contents], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  private fileName(name: string): string {
+    return name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'race-route';
+  }
+
+  private importRoute(): void {
+    const route = RaceRouteLibrary.importRoute(this.codeInput.value);
+    if (!route) {
+      this.problemsEl.style.color = '#ff6644';
+      this.problemsEl.textContent = 'Not a route code or route file';
+      return;
+    }
+    this.codeInput.value = '';
+    this.load(route);
+  }
+
+  /** Save and pick the route for local races */
+  private raceLocal(): void {
+    const id = this.save();
+    if (!id) return;
+    this.library.selectRoute(id);
+    this.renderRoutes();
+  }
+
+  private raceOnline(): void {
+    if (!this.save()) return;
+    this.onRaceOnline?.(encodeRaceRouteCode(this.currentRoute()));
+  }
+
+  private button(text: string, onClick: () => void): HTMLButtonElement {
+    const btn = document.createElement('button');
+    btn.textContent = text;
+    btn.style.cssText = `
+      padding: 5px 6px;
+      border: none;
+      border-radius: 4px;
+      background: rgba(255, 255, 255, 0.12);
+      color: white;
+      font-size: 11px;
+      font-weight: bold;
+      cursor: pointer;
+    `;
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+    });
+    return btn;
+  }
+
+  private fieldStyle(): string {
+    return `
+      width: 100%;
+      box-sizing: border-box;
+      padding: 6px 8px;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 4px;
+      background: rgba(255, 255, 255, 0.08);
+      color: white;
+      font-size: 12px;
+    `;
+  }
+
+  private disposePreview(): void {
+    this.previewGroup.traverse((obj) => {
+      if (obj instanceof THREE.Mesh || obj instanceof THREE.Line) {
+        obj.geometry.dispose();
+        if (obj.material instanceof THREE.Material) obj.material.dispose();
+      }
+    });
+    this.previewGroup.clear();
+  }
+
+  dispose(): void {
+    this.hide();
+    this.disposePreview();
+    this.cursor.geometry.dispose();
+    (this.cursor.material as THREE.Material).dispose();
+    this.container.remove();
+  }
+}
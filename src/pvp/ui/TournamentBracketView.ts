@@ -0,0 +1,306 @@
+/**
+ * TournamentBracketView - The shard's tournament at a glance (F3).
+ * Draws whatever TournamentView the server last sent: single elimination as
+ * one column per round, Swiss as the pairings of each round plus standings.
+ * Registration is a button while sign-ups are open; once the event runs it
+ * becomes WITHDRAW. Non-modal, like the route editor, so the bird keeps flying.
+ */
+
+import {
+  TOURNAMENT_FORMAT_NAMES,
+  TOURNAMENT_GAME_NAMES,
+  swissStandings,
+  type TournamentMatch,
+  type TournamentView,
+} from '../../../shared/TournamentBracket';
+
+const WINNER_COLOR = '#7dff9c';
+const LOCAL_COLOR = '#ffd700';
+const MUTED_COLOR = '#888';
+
+export class TournamentBracketView {
+  private container: HTMLElement;
+  private titleEl: HTMLElement;
+  private statusEl: HTMLElement;
+  private actionBtn: HTMLButtonElement;
+  private body: HTMLElement;
+  private visible = false;
+
+  private tournament: TournamentView | null = null;
+  private localPlayerId: string | null = null;
+  /** Registration countdown refresh while the panel is open */
+  private clockTimer: ReturnType<typeof setInterval> | null = null;
+
+  onRegister: (() => void) | null = null;
+  onWithdraw: (() => void) | null = null;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.style.cssText = `
+      position: fixed;
+      top: 80px;
+      right: 10px;
+      max-width: min(720px, calc(100vw - 320px));
+      max-height: calc(100vh - 120px);
+      overflow: auto;
+      background: rgba(0, 0, 0, 0.8);
+      backdrop-filter: blur(8px);
+      border-radius: 8px;
+      padding: 12px 14px;
+      z-index: 900;
+      display: none;
+      font-family: 'Arial', sans-serif;
+      font-size: 12px;
+      color: white;
+    `;
+
+    const header = document.createElement('div');
+    header.style.cssText = 'display: flex; align-items: center; gap: 10px; margin-bottom: 6px;';
+    this.titleEl = document.createElement('div');
+    this.titleEl.style.cssText = 'flex: 1; font-size: 14px; font-weight: bold; letter-spacing: 1px;';
+    header.appendChild(this.titleEl);
+    this.actionBtn = this.button('REGISTER', () => this.onAction());
+    header.appendChild(this.actionBtn);
+    this.container.appendChild(header);
+
+    this.statusEl = document.createElement('div');
+    this.statusEl.style.cssText = 'color: #aaa; margin-bottom: 10px;';
+    this.container.appendChild(this.statusEl);
+
+    this.body = document.createElement('div');
+    this.container.appendChild(this.body);
+
+    document.body.appendChild(this.container);
+    this.render();
+  }
+
+  get isVisible(): boolean {
+    return this.visible;
+  }
+
+  /** Last state the server sent, if any */
+  get current(): TournamentView | null {
+    return this.tournament;
+  }
+
+  /** Highlight our own name and decide between REGISTER and WITHDRAW */
+  setLocalPlayerId(playerId: string | null): void {
+    this.localPlayerId = playerId;
+    this.render();
+  }
+
+  /** Latest state from the server; null when the shard has no tournament */
+  setTournament(tournament: TournamentView | null): void {
+    this.tournament = tournament;
+    this.render();
+  }
+
+  toggle(): void {
+    this.visible ? this.hide() : this.show();
+  }
+
+  show(): void {
+    this.visible = true;
+    this.container.style.display = 'block';
+    this.render();
+    this.clockTimer ??= setInterval(() => this.renderStatus(), 1000);
+  }
+
+  hide(): void {
+    this.visible = false;
+    this.container.style.display = 'none';
+    if (this.clockTimer) {
+      clearInterval(this.clockTimer);
+      this.clockTimer = null;
+    }
+  }
+
+  private get isEntered(): boolean {
+    return !!this.tournament?.entrants.some((e) => e.id === this.localPlayerId && !e.withdrawn);
+  }
+
+  private onAction(): void {
+    if (this.isEntered) this.onWithdraw?.();
+    else this.onRegister?.();
+  }
+
+  private render(): void {
+    if (!this.visible) return;
+    const t = this.tournament;
+    this.body.replaceChildren();
+
+    if (!t) {
+      this.titleEl.textContent = 'TOURNAMENT';
+      this.actionBtn.style.display = 'none';
+      this.renderStatus();
+      return;
+    }
+
+    this.titleEl.textContent = `${t.name.toUpperCase()} · ${TOURNAMENT_FORMAT_NAMES[t.format]} · ${TOURNAMENT_GAME_NAMES[t.game]}`;
+    const canRegister = t.phase === 'registration' && !this.isEntered;
+    const canWithdraw = (t.phase === 'registration' || t.phase === 'running') && this.isEntered;
+    this.actionBtn.style.display = canRegister || canWithdraw ? '' : 'none';
+    this.actionBtn.textContent = canWithdraw ? 'WITHDRAW' : 'REGISTER';
+    this.renderStatus();
+
+    if (t.phase === 'registration' || t.matches.length === 0) {
+      this.body.appendChild(this.sectionTitle(`ENTRANTS (${t.entrants.length})`));
+      for (const entrant of t.entrants) this.body.appendChild(this.nameLine(entrant.id));
+      return;
+    }
+
+    if (t.format === 'single-elim') this.renderBracket(t);
+    else this.renderSwiss(t);
+  }
+
+  private renderStatus(): void {
+    const t = this.tournament;
+    if (!t) {
+      this.statusEl.textContent = 'No tournament in this world right now.';
+      return;
+    }
+    switch (t.phase) {
+      case 'registration': {
+        const seconds = Math.max(0, Math.ceil((t.registrationEndsAt - Date.now()) / 1000));
+        const clock = `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+        this.statusEl.textContent = `Registration open · starts in ${clock} · seeded by ${t.seeding}`;
+        break;
+      }
+      case 'running':
+        this.statusEl.textContent = `Round ${t.round} of ${t.totalRounds}`;
+        break;
+      case 'complete':
+        this.statusEl.textContent = t.winnerId ? `Won by ${this.nameOf(t.winnerId)}` : 'Complete';
+        break;
+      case 'cancelled':
+        this.statusEl.textContent = 'Cancelled';
+        break;
+    }
+  }
+
+  private renderBracket(t: TournamentView): void {
+    const columns = document.createElement('div');
+    columns.style.cssText = 'display: flex; gap: 12px; align-items: stretch;';
+
+    for (let round = 1; round <= t.totalRounds; round++) {
+      const column = document.createElement('div');
+      column.style.cssText = 'display: flex; flex-direction: column; justify-content: space-around; gap: 6px; min-width: 130px;';
+      column.appendChild(this.sectionTitle(round === t.totalRounds ? 'FINAL' : `ROUND ${round}`));
+      for (const match of t.matches.filter((m) => m.round === round)) column.appendChild(this.matchBox(match));
+      columns.appendChild(column);
+    }
+    this.body.appendChild(columns);
+  }
+
+  private renderSwiss(t: TournamentView): void {
+    const layout = document.createElement('div');
+    layout.style.cssText = 'display: flex; gap: 16px; align-items: flex-start;';
+
+    const rounds = document.createElement('div');
+    rounds.style.cssText = 'display: flex; flex-direction: column; gap: 6px; min-width: 150px;';
+    for (let round = t.round; round >= 1; round--) {
+      rounds.appendChild(this.sectionTitle(`ROUND ${round}`));
+      for (const match of t.matches.filter((m) => m.round === round)) rounds.appendChild(this.matchBox(match));
+    }
+    layout.appendChild(rounds);
+
+    const standings = document.createElement('div');
+    standings.style.cssText = 'min-width: 150px;';
+    standings.appendChild(this.sectionTitle('STANDINGS'));
+    swissStandings(t.entrants, t.matches).forEach((entrant, index) => {
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; justify-content: space-between; gap: 12px; padding: 2px 0;';
+      const name = this.nameLine(entrant.id);
+      name.textContent = `${index + 1}. ${name.textContent}`;
+      const points = document.createElement('span');
+      points.textContent = String(entrant.points);
+      row.append(name, points);
+      standings.appendChild(row);
+    });
+    layout.appendChild(standings);
+
+    this.body.appendChild(layout);
+  }
+
+  private matchBox(match: TournamentMatch): HTMLElement {
+    const box = document.createElement('div');
+    box.style.cssText = `
+      padding: 4px 6px;
+      border-radius: 4px;
+      background: rgba(255, 255, 255, ${match.status === 'live' ? 0.16 : 0.07});
+      border-left: 3px solid ${match.status === 'live' ? LOCAL_COLOR : 'transparent'};
+    `;
+    const [a, b] = match.playerIds;
+    box.appendChild(this.slotLine(a, match, 'TBD'));
+    box.appendChild(this.slotLine(b, match, match.round === 1 || match.status === 'done' ? 'BYE' : 'TBD'));
+    if (match.forfeit) {
+      const note = document.createElement('div');
+      note.style.cssText = `color: ${MUTED_COLOR}; font-size: 10px;`;
+      note.textContent = 'forfeit';
+      box.appendChild(note);
+    }
+    return box;
+  }
+
+  private slotLine(playerId: string | null, match: TournamentMatch, empty: string): HTMLElement {
+    if (!playerId) {
+      const line = document.createElement('div');
+      line.style.color = MUTED_COLOR;
+      line.textContent = empty;
+      return line;
+    }
+    const line = this.nameLine(playerId);
+    if (match.winnerId === playerId) {
+      line.style.color = WINNER_COLOR;
+      line.style.fontWeight = 'bold';
+    } else if (match.winnerId) {
+      line.style.opacity = '0.5';
+    }
+    return line;
+  }
+
+  private nameLine(playerId: string): HTMLElement {
+    const line = document.createElement('div');
+    const entrant = this.tournament?.entrants.find((e) => e.id === playerId);
+    line.textContent = this.nameOf(playerId) + (entrant ? ` (${entrant.seed || '–'})` : '');
+    if (entrant?.withdrawn) line.style.textDecoration = 'line-through';
+    if (playerId === this.localPlayerId) line.style.color = LOCAL_COLOR;
+    return line;
+  }
+
+  private nameOf(playerId: string): string {
+    return this.tournament?.entrants.find((e) => e.id === playerId)?.username ?? 'Unknown';
+  }
+
+  private sectionTitle(text: string): HTMLElement {
+    const title = document.createElement('div');
+    title.style.cssText = 'font-weight: bold; letter-spacing: 1px; color: #ccc; margin-top: 4px;';
+    title.textContent = text;
+    return title;
+  }
+
+  private button(text: string, onClick: () => void): HTMLButtonElement {
+    const btn = document.createElement('button');
+    btn.textContent = text;
+    btn.style.cssText = `
+      padding: 5px 10px;
+      border: none;
+      border-radius: 4px;
+      background: rgba(255, 255, 255, 0.12);
+      color: white;
+      font-size: 11px;
+      font-weight: bold;
+      cursor: pointer;
+    `;
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+    });
+    return btn;
+  }
+
+  dispose(): void {
+    this.hide();
+    this.container.remove();
+  }
+}
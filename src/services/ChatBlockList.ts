@@ -0,0 +1,86 @@
+/**
+ * Chat Block List
+ * Players this browser has chosen not to hear from. Kept in localStorage and
+ * applied by every chat view (global ChatUI and MurmurationChat), so blocking
+ * someone hides their lines everywhere, including ones already on screen.
+ * Blocking is private: the blocked player is never told.
+ */
+
+const BLOCKED_KEY = 'birdgame_chat_blocked';
+const MAX_BLOCKED = 200;
+
+export interface BlockedPlayer {
+  id: string;
+  username: string;
+}
+
+class ChatBlockList {
+  private blocked = new Map<string, string>(); // playerId → username when blocked
+  private changeCallbacks: Array<() => void> = [];
+
+  constructor() {
+    try {
+      const data = localStorage.getItem(BLOCKED_KEY);
+      const entries: BlockedPlayer[] = data ? JSON.parse(data) : [];
+      for (const entry of entries) {
+        if (typeof entry?.id === 'string' && typeof entry.username === 'string') {
+          this.blocked.set(entry.id, entry.username);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load chat block list:', error);
+    }
+  }
+
+  isBlocked(playerId: string): boolean {
+    return this.blocked.has(playerId);
+  }
+
+  list(): BlockedPlayer[] {
+    return Array.from(this.blocked, ([id, username]) => ({ id, username }));
+  }
+
+  /** Returns false when the list is full */
+  block(playerId: string, username: string): boolean {
+    if (!this.blocked.has(playerId) && this.blocked.size >= MAX_BLOCKED) return false;
+    this.blocked.set(playerId, username);
+    this.save();
+    return true;
+  }
+
+  /** Unblock by player ID or by the name they had when blocked; returns who was unblocked */
+  unblock(idOrName: string): BlockedPlayer | null {
+    const lower = idOrName.toLowerCase();
+    for (const [id, username] of this.blocked) {
+      if (id === idOrName || username.toLowerCase() === lower) {
+        this.blocked.delete(id);
+        this.save();
+        return { id, username };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Register a callback for whenever the list changes.
+   * Returns an unsubscribe function.
+   */
+  onChange(callback: () => void): () => void {
+    this.changeCallbacks.push(callback);
+    return () => {
+      this.changeCallbacks = this.changeCallbacks.filter((cb) => cb !== callback);
+    };
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(BLOCKED_KEY, JSON.stringify(this.list()));
+    } catch (error) {
+      console.error('Failed to save chat block list:', error);
+    }
+    for (const cb of this.changeCallbacks) cb();
+  }
+}
+
+// Singleton instance
+export const chatBlockList = new ChatBlockList();
@@ -12,6 +12,10 @@
  * - Coins become permanent when banked
  * - Worms, Feathers, Golden Eggs are never lost
  * - NO conversion between any currencies
+ *
+ * Earned currency is credited by the game server's economy ledger only, and
+ * coin/feather shop purchases are charged there too ('shop_purchase').
+ * This service reads balances and spends worms and golden eggs; it never mints.
  */
 
 import { supabase } from './SupabaseClient';
@@ -53,104 +57,10 @@ export async function getCurrencyBalance(userId: string): Promise<CurrencyBalanc
   }
 }
 
-// ============================================================================
-// Coins
-// ============================================================================
-
-/**
- * Add coins to user's account (server-side only)
- * Used after successful banking
- */
-export async function addCoins(userId: string, amount: number): Promise<boolean> {
-  if (amount <= 0) {
-    console.error('Cannot add negative or zero coins');
-    return false;
-  }
-
-  try {
-    const { error } = await supabase.rpc('add_coins', {
-      user_id: userId,
-      amount: amount,
-    });
-
-    if (error) {
-      console.error('Failed to add coins:', error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Error adding coins:', error);
-    return false;
-  }
-}
-
-/**
- * Deduct coins from user's account
- * Used for shop purchases
- */
-export async function deductCoins(userId: string, amount: number): Promise<boolean> {
-  if (amount <= 0) {
-    console.error('Cannot deduct negative or zero coins');
-    return false;
-  }
-
-  try {
-    const balance = await getCurrencyBalance(userId);
-    if (!balance || balance.coins < amount) {
-      console.error('Insufficient coins');
-      return false;
-    }
-
-    const { error } = await supabase.rpc('deduct_coins', {
-      user_id: userId,
-      amount: amount,
-    });
-
-    if (error) {
-      console.error('Failed to deduct coins:', error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Error deducting coins:', error);
-    return false;
-  }
-}
-
 // ============================================================================
 // Worms
 // ============================================================================
 
-/**
- * Add worms to user's account
- * Earned from skill-based activities (scatter strikes, ring chains, etc.)
- */
-export async function addWorms(userId: string, amount: number): Promise<boolean> {
-  if (amount <= 0) {
-    console.error('Cannot add negative or zero worms');
-    return false;
-  }
-
-  try {
-    const { error } = await supabase.rpc('add_worms', {
-      user_id: userId,
-      amount: amount,
-    });
-
-    if (error) {
-      console.error('Failed to add worms:', error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Error adding worms:', error);
-    return false;
-  }
-}
-
 /**
  * Deduct worms from user's account
  * Used for uncommon shop purchases
@@ -185,104 +95,10 @@ export async function deductWorms(userId: string, amount: number): Promise<boole
   }
 }
 
-// ============================================================================
-// Feathers
-// ============================================================================
-
-/**
- * Add feathers to user's account
- * Earned from challenges, level-ups, big banks
- */
-export async function addFeathers(userId: string, amount: number): Promise<boolean> {
-  if (amount <= 0) {
-    console.error('Cannot add negative or zero feathers');
-    return false;
-  }
-
-  try {
-    const { error } = await supabase.rpc('add_feathers', {
-      user_id: userId,
-      amount: amount,
-    });
-
-    if (error) {
-      console.error('Failed to add feathers:', error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Error adding feathers:', error);
-    return false;
-  }
-}
-
-/**
- * Deduct feathers from user's account
- * Used for rare shop purchases
- */
-export async function deductFeathers(userId: string, amount: number): Promise<boolean> {
-  if (amount <= 0) {
-    console.error('Cannot deduct negative or zero feathers');
-    return false;
-  }
-
-  try {
-    const balance = await getCurrencyBalance(userId);
-    if (!balance || balance.feathers < amount) {
-      console.error('Insufficient feathers');
-      return false;
-    }
-
-    const { error } = await supabase.rpc('deduct_feathers', {
-      user_id: userId,
-      amount: amount,
-    });
-
-    if (error) {
-      console.error('Failed to deduct feathers:', error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Error deducting feathers:', error);
-    return false;
-  }
-}
-
 // ============================================================================
 // Golden Eggs
 // ============================================================================
 
-/**
- * Add golden eggs to user's account
- * Earned from achievements, mega banks, level milestones
- */
-export async function addGoldenEggs(userId: string, amount: number): Promise<boolean> {
-  if (amount <= 0) {
-    console.error('Cannot add negative or zero golden eggs');
-    return false;
-  }
-
-  try {
-    const { error } = await supabase.rpc('add_golden_eggs', {
-      user_id: userId,
-      amount: amount,
-    });
-
-    if (error) {
-      console.error('Failed to add golden eggs:', error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Error adding golden eggs:', error);
-    return false;
-  }
-}
-
 /**
  * Deduct golden eggs from user's account
  * Used for legendary shop purchases
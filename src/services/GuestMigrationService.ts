@@ -1,6 +1,7 @@
 /**
  * GuestMigrationService
  * Migrates guest localStorage data into Supabase when a guest creates an account.
+ * Cosmetics carry over; currency and progression belong to the server ledger.
  * Only clears guest data after successful migration.
  */
 
@@ -11,8 +12,6 @@ import { Profile } from '../types/database';
 export interface MigrationResult {
   migrated: boolean;
   itemsMigrated: number;
-  coinsMigrated: number;
-  feathersMigrated: number;
 }
 
 export async function migrateGuestDataToAccount(profile: Profile): Promise<MigrationResult> {
@@ -48,33 +47,9 @@ export async function migrateGuestDataToAccount(profile: Profile): Promise<Migra
     await setEquipped(profile.id, `splat_${equipped.splat}`, 'splat');
   }
 
-  // Migrate coins, feathers, level, and xp from saved game state
-  const coinsMigrated = guestData.coins;
-  const feathersMigrated = guestData.feathers;
-
-  const updateData: Record<string, number> = {};
-  if (coinsMigrated > 0) updateData.coins = (profile.coins || 0) + coinsMigrated;
-  if (feathersMigrated > 0) updateData.feathers = (profile.feathers || 0) + feathersMigrated;
-
-  // Check for saved game state (level, xp, stats)
-  try {
-    const savedStateRaw = localStorage.getItem('birdgame_gamestate');
-    if (savedStateRaw) {
-      const savedState = JSON.parse(savedStateRaw);
-      if (savedState.level > 1) updateData.level = savedState.level;
-      if (savedState.xp > 0) updateData.xp = savedState.xp;
-      if (savedState.bankedCoins > 0 && !updateData.coins) {
-        updateData.coins = (profile.coins || 0) + savedState.bankedCoins;
-      }
-    }
-  } catch (e) {
-    console.warn('Failed to parse saved game state for migration:', e);
-  }
-
-  // Apply profile updates
-  if (Object.keys(updateData).length > 0) {
-    await supabase.from('profiles').update(updateData).eq('id', profile.id);
-  }
+  // Coins, feathers, level and XP are not migrated: the account's balance is
+  // whatever the game server's economy ledger has recorded, and guest progress
+  // in localStorage was never seen by the server.
 
   // Clear guest data after successful migration
   clearGuestData();
@@ -83,8 +58,6 @@ export async function migrateGuestDataToAccount(profile: Profile): Promise<Migra
   return {
     migrated: true,
     itemsMigrated,
-    coinsMigrated,
-    feathersMigrated,
   };
 }
 
@@ -71,8 +71,8 @@ class MurmurationService {
    * Create a new murmuration.
    * - Validates name length (NAME_MIN..NAME_MAX) and tag length (TAG_MIN..TAG_MAX)
    * - Requires player level >= MIN_LEVEL
-   * - Deducts CREATE_COST banked coins
-   * - Inserts murmuration row and creator as alpha member
+   * - Charges CREATE_COST banked coins through the ledger (create_murmuration RPC)
+   *   and inserts the murmuration row and creator as alpha member atomically
    */
   async createMurmuration(
     name: string,
@@ -137,58 +137,17 @@ class MurmurationService {
       throw new Error('You are on a join cooldown. Please wait before creating or joining a murmuration');
     }
 
-    // Deduct coins
-    const { error: deductError } = await supabase.rpc('deduct_coins', {
-      user_id: userId,
-      amount: MURMURATION.CREATE_COST,
+    // Charge the creation cost and insert the murmuration with its alpha in
+    // one transaction; the server side re-checks level and coins
+    const { data: murmuration, error: createError } = await supabase.rpc('create_murmuration', {
+      p_name: name,
+      p_tag: tag,
+      p_description: description ?? null,
+      p_privacy: privacy,
     });
 
-    if (deductError) {
-      throw new Error('Failed to deduct creation cost');
-    }
-
-    // Insert murmuration
-    const { data: murmuration, error: insertError } = await supabase
-      .from('murmurations')
-      .insert({
-        name,
-        tag: tag.toUpperCase(),
-        description,
-        privacy,
-        alpha_id: userId,
-        formation_level: 1,
-        formation_xp: 0,
-        member_count: 1,
-        total_coins_banked: 0,
-        season_coins_banked: 0,
-        mvm_wins: 0,
-        mvm_losses: 0,
-      })
-      .select()
-      .single();
-
-    if (insertError || !murmuration) {
-      // Attempt to refund coins on failure
-      await supabase.rpc('add_coins', { user_id: userId, amount: MURMURATION.CREATE_COST });
-      throw new Error(`Failed to create murmuration: ${insertError?.message}`);
-    }
-
-    // Insert creator as alpha member
-    const { error: memberError } = await supabase
-      .from('murmuration_members')
-      .insert({
-        murmuration_id: murmuration.id,
-        user_id: userId,
-        role: 'alpha' as MurmurationRole,
-        coins_contributed: 0,
-        formation_xp_contributed: 0,
-      });
-
-    if (memberError) {
-      // Rollback: delete murmuration and refund
-      await supabase.from('murmurations').delete().eq('id', murmuration.id);
-      await supabase.rpc('add_coins', { user_id: userId, amount: MURMURATION.CREATE_COST });
-      throw new Error(`Failed to add creator as member: ${memberError.message}`);
+    if (createError || !murmuration) {
+      throw new Error(`Failed to create murmuration: ${createError?.message}`);
     }
 
     return murmuration as Murmuration;
@@ -1367,6 +1326,25 @@ class MurmurationService {
       console.error('Failed to update member coins contribution:', memberError);
     }
   }
+
+  // --------------------------------------------------------------------------
+  // 23. Record MvM Result
+  // --------------------------------------------------------------------------
+
+  /**
+   * Record an MvM match win or loss on the murmuration's season record.
+   * The server picks one member per team to report, so each match counts once.
+   */
+  async recordMvMResult(murmurationId: string, isWin: boolean): Promise<void> {
+    const { error } = await supabase.rpc('increment_mvm_result', {
+      mur_id: murmurationId,
+      is_win: isWin,
+    });
+
+    if (error) {
+      throw new Error(`Failed to record MvM result: ${error.message}`);
+    }
+  }
 }
 
 // ============================================================================
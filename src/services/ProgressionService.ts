@@ -3,7 +3,8 @@
  * Implements PLAYER_PROGRESSION.md specification
  *
  * Rules:
- * - XP is awarded only when banking succeeds
+ * - XP is awarded only when banking succeeds, by the game server's economy ledger
+ * - This service only reads progress; it never writes XP or level
  * - xpEarned = floor(bankedCoins / 5)
  * - Level curve: nextLevelXpReq = round(prevLevelXpReq * 1.15)
  * - Level cap: 50
@@ -13,12 +14,6 @@
 import { supabase } from './SupabaseClient';
 import { PROGRESSION, ECONOMY } from '../utils/Constants';
 
-export interface LevelUpResult {
-  levelsGained: number;
-  newLevel: number;
-  unlockedCosmetics: string[];
-}
-
 /**
  * Calculate XP earned from banked coins
  * Per spec: xpEarned = floor(bankedCoins / 5)
@@ -74,67 +69,6 @@ export function calculateLevelFromXP(totalXP: number): number {
   return level;
 }
 
-/**
- * Add XP to user's profile and level them up if needed
- * Returns the number of levels gained and any unlocked cosmetics
- */
-export async function addXP(userId: string, xpAmount: number): Promise<LevelUpResult | null> {
-  try {
-    // Get current profile
-    const { data: profile, error: fetchError } = await supabase
-      .from('profiles')
-      .select('level, xp')
-      .eq('id', userId)
-      .single();
-
-    if (fetchError || !profile) {
-      console.error('Failed to fetch profile:', fetchError);
-      return null;
-    }
-
-    const oldLevel = profile.level;
-    const oldXP = profile.xp;
-    const newXP = oldXP + xpAmount;
-    const newLevel = calculateLevelFromXP(newXP);
-
-    // Update profile with new XP and level
-    const { error: updateError } = await supabase
-      .from('profiles')
-      .update({
-        xp: newXP,
-        level: newLevel,
-      })
-      .eq('id', userId);
-
-    if (updateError) {
-      console.error('Failed to update XP/level:', updateError);
-      return null;
-    }
-
-    const levelsGained = newLevel - oldLevel;
-
-    // Get unlocked cosmetics for the new levels
-    const unlockedCosmetics: string[] = [];
-    if (levelsGained > 0) {
-      // Query cosmetics unlocked by reaching these levels
-      // This would integrate with the cosmetics system
-      for (let lvl = oldLevel + 1; lvl <= newLevel; lvl++) {
-        // Placeholder: Add cosmetic IDs that unlock at this level
-        // In a full implementation, this would query a cosmetics database
-      }
-    }
-
-    return {
-      levelsGained,
-      newLevel,
-      unlockedCosmetics,
-    };
-  } catch (error) {
-    console.error('Error adding XP:', error);
-    return null;
-  }
-}
-
 /**
  * Get user's current level progress
  * Returns current level, XP, XP for next level, and progress percentage
@@ -0,0 +1,36 @@
+/**
+ * Ratings Service
+ * Reads skill ratings from Supabase. Only the game server writes them (after
+ * rated PvP rounds, heists and MvM matches), so this side is read-only.
+ */
+
+import { supabase } from './SupabaseClient';
+import { getRankBand, type RatingSummary } from '../../shared/RatingBands';
+
+/**
+ * Get a player's rating in every mode they have played
+ */
+export async function getPlayerRatings(userId: string): Promise<RatingSummary[]> {
+  try {
+    const { data, error } = await supabase
+      .from('skill_ratings')
+      .select('mode, rating, rd, games')
+      .eq('subject_id', userId);
+
+    if (error) {
+      console.error('Failed to fetch ratings:', error);
+      return [];
+    }
+
+    return (data ?? []).map((row) => ({
+      mode: row.mode,
+      rating: Math.round(row.rating),
+      rd: Math.round(row.rd),
+      games: row.games,
+      band: getRankBand(row.rating, row.rd).id,
+    }));
+  } catch (error) {
+    console.error('Error getting ratings:', error);
+    return [];
+  }
+}
@@ -5,14 +5,15 @@
  * Features:
  * - Coin Shop (common cosmetics)
  * - Feather Shop (premium cosmetics)
- * - Server authoritative purchases
+ * - Worm and golden egg purchases (coin and feather items are bought through
+ *   the game server's ledger, see MultiplayerManager.sendShopPurchase)
  * - Idempotent operations
  * - Purchase history tracking
  */
 
 import { supabase } from './SupabaseClient';
 import { CosmeticItem, PurchaseResponse } from '../types/database';
-import { deductCoins, deductFeathers, deductWorms, deductGoldenEggs } from './CurrencyService';
+import { deductWorms, deductGoldenEggs } from './CurrencyService';
 
 export interface ShopItem extends CosmeticItem {
   owned: boolean;
@@ -58,198 +59,6 @@ export async function getFeatherShopItems(userId: string): Promise<ShopItem[]> {
   }
 }
 
-/**
- * Purchase an item with coins
- * Server-authoritative and idempotent
- */
-export async function purchaseWithCoins(
-  userId: string,
-  itemId: string,
-  itemType: string,
-  price: number
-): Promise<PurchaseResponse> {
-  try {
-    // Check if already purchased (idempotency)
-    const { data: existingPurchase } = await supabase
-      .from('purchases')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('item_id', itemId)
-      .eq('item_type', itemType)
-      .single();
-
-    if (existingPurchase) {
-      return {
-        success: false,
-        error: 'Item already purchased',
-      };
-    }
-
-    // Check balance and deduct coins
-    const deductSuccess = await deductCoins(userId, price);
-    if (!deductSuccess) {
-      return {
-        success: false,
-        error: 'Insufficient coins',
-      };
-    }
-
-    // Create purchase record
-    const { error: purchaseError } = await supabase.from('purchases').insert({
-      user_id: userId,
-      item_id: itemId,
-      item_type: itemType,
-      currency_type: 'coins',
-      amount: price,
-    });
-
-    if (purchaseError) {
-      console.error('Failed to create purchase record:', purchaseError);
-      // Attempt to refund coins
-      await supabase.rpc('add_coins', { user_id: userId, amount: price });
-      return {
-        success: false,
-        error: 'Purchase failed',
-      };
-    }
-
-    // Add to inventory
-    const { data: inventoryItem, error: inventoryError } = await supabase
-      .from('inventory')
-      .insert({
-        user_id: userId,
-        item_id: itemId,
-        item_type: itemType,
-        equipped: false, // Auto-equip logic can be added here
-      })
-      .select()
-      .single();
-
-    if (inventoryError) {
-      console.error('Failed to add to inventory:', inventoryError);
-      return {
-        success: false,
-        error: 'Failed to add item to inventory',
-      };
-    }
-
-    // Get updated balance
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('coins')
-      .eq('id', userId)
-      .single();
-
-    return {
-      success: true,
-      item: inventoryItem,
-      updated_coins: profile?.coins || 0,
-    };
-  } catch (error) {
-    console.error('Error purchasing with coins:', error);
-    return {
-      success: false,
-      error: String(error),
-    };
-  }
-}
-
-/**
- * Purchase an item with feathers
- * Server-authoritative and idempotent
- */
-export async function purchaseWithFeathers(
-  userId: string,
-  itemId: string,
-  itemType: string,
-  price: number
-): Promise<PurchaseResponse> {
-  try {
-    // Check if already purchased (idempotency)
-    const { data: existingPurchase } = await supabase
-      .from('purchases')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('item_id', itemId)
-      .eq('item_type', itemType)
-      .single();
-
-    if (existingPurchase) {
-      return {
-        success: false,
-        error: 'Item already purchased',
-      };
-    }
-
-    // Check balance and deduct feathers
-    const deductSuccess = await deductFeathers(userId, price);
-    if (!deductSuccess) {
-      return {
-        success: false,
-        error: 'Insufficient feathers',
-      };
-    }
-
-    // Create purchase record
-    const { error: purchaseError } = await supabase.from('purchases').insert({
-      user_id: userId,
-      item_id: itemId,
-      item_type: itemType,
-      currency_type: 'feathers',
-      amount: price,
-    });
-
-    if (purchaseError) {
-      console.error('Failed to create purchase record:', purchaseError);
-      // Attempt to refund feathers
-      await supabase.rpc('add_feathers', { user_id: userId, amount: price });
-      return {
-        success: false,
-        error: 'Purchase failed',
-      };
-    }
-
-    // Add to inventory
-    const { data: inventoryItem, error: inventoryError } = await supabase
-      .from('inventory')
-      .insert({
-        user_id: userId,
-        item_id: itemId,
-        item_type: itemType,
-        equipped: false,
-      })
-      .select()
-      .single();
-
-    if (inventoryError) {
-      console.error('Failed to add to inventory:', inventoryError);
-      return {
-        success: false,
-        error: 'Failed to add item to inventory',
-      };
-    }
-
-    // Get updated balance
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('feathers')
-      .eq('id', userId)
-      .single();
-
-    return {
-      success: true,
-      item: inventoryItem,
-      updated_feathers: profile?.feathers || 0,
-    };
-  } catch (error) {
-    console.error('Error purchasing with feathers:', error);
-    return {
-      success: false,
-      error: String(error),
-    };
-  }
-}
-
 /**
  * Purchase an item with worms
  * Server-authoritative and idempotent
@@ -15,6 +15,7 @@ export * from './BankingService';
 // Stats & Achievements
 export * from './StatsService';
 export * from './AchievementService';
+export * from './RatingsService';
 
 // Shop & Inventory
 export * from './ShopService';
@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { createToonMaterial } from '../rendering/ToonUtils';
 import { COLLECTIBLES } from '../utils/Constants';
 import { BuildingData } from '../world/City';
+import { DEFAULT_WORLD_SEED, SeededRandom, createSeededRandom, deriveSeed } from '../../shared/WorldSeed';
 
 export interface GoldenFeather {
   position: THREE.Vector3;
@@ -32,7 +33,9 @@ export interface Balloon {
 
 /**
  * Collectible System
- * Manages golden feathers hidden on rooftops and thermal updrafts
+ * Manages golden feathers hidden on rooftops and thermal updrafts.
+ * Placement is seeded from the world seed so every client sees the same spots;
+ * balloons spawn around the local player and stay unseeded.
  */
 export class CollectibleSystem {
   private static readonly THERMAL_PARTICLE_COUNT = 40;
@@ -43,17 +46,47 @@ export class CollectibleSystem {
   private balloons: Balloon[] = [];
   private balloonSpawnTimer = 0;
   readonly group = new THREE.Group();
+  private cityBounds: { minX: number; maxX: number; minZ: number; maxZ: number };
+  private rng: SeededRandom;
 
   // Callbacks for collectible tracking
   onGoldenFeatherCollected: (() => void) | null = null;
   onThermalUpdraftUsed: (() => void) | null = null;
   onBalloonCollected: (() => void) | null = null;
 
-  constructor(buildings: BuildingData[], cityBounds: { minX: number; maxX: number; minZ: number; maxZ: number }) {
+  constructor(
+    buildings: BuildingData[],
+    cityBounds: { minX: number; maxX: number; minZ: number; maxZ: number },
+    seed: number = DEFAULT_WORLD_SEED,
+  ) {
+    this.cityBounds = cityBounds;
+    this.rng = createSeededRandom(deriveSeed(seed, 'collectibles'));
     this.placeGoldenFeathers(buildings);
     this.createThermalUpdrafts(cityBounds);
   }
 
+  /** Re-place feathers and updrafts after the city was rebuilt for a new world seed */
+  regenerate(buildings: BuildingData[], seed: number): void {
+    for (const feather of this.goldenFeathers) this.disposeObject(feather.mesh);
+    for (const updraft of this.thermalUpdrafts) this.disposeObject(updraft.particles);
+    this.goldenFeathers = [];
+    this.thermalUpdrafts = [];
+
+    this.rng = createSeededRandom(deriveSeed(seed, 'collectibles'));
+    this.placeGoldenFeathers(buildings);
+    this.createThermalUpdrafts(this.cityBounds);
+  }
+
+  private disposeObject(root: THREE.Object3D): void {
+    this.group.remove(root);
+    root.traverse((obj) => {
+      if (obj instanceof THREE.Mesh || obj instanceof THREE.Points) {
+        obj.geometry.dispose();
+        (obj.material as THREE.Material).dispose();
+      }
+    });
+  }
+
   private placeGoldenFeathers(buildings: BuildingData[]): void {
     // Sort buildings by height, place feathers on tallest rooftops
     const tallBuildings = buildings
@@ -111,15 +144,15 @@ export class CollectibleSystem {
         mesh: featherGroup,
         collected: false,
         respawnTime: 0,
-        pulsePhase: Math.random() * Math.PI * 2,
+        pulsePhase: this.rng() * Math.PI * 2,
       });
     }
   }
 
   private createThermalUpdrafts(bounds: { minX: number; maxX: number; minZ: number; maxZ: number }): void {
     for (let i = 0; i < COLLECTIBLES.THERMAL_UPDRAFTS.COUNT; i++) {
-      const x = bounds.minX + Math.random() * (bounds.maxX - bounds.minX);
-      const z = bounds.minZ + Math.random() * (bounds.maxZ - bounds.minZ);
+      const x = bounds.minX + this.rng() * (bounds.maxX - bounds.minX);
+      const z = bounds.minZ + this.rng() * (bounds.maxZ - bounds.minZ);
 
       // Create rising particle effect
       const particleCount = CollectibleSystem.THERMAL_PARTICLE_COUNT;
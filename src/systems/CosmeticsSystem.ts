@@ -1,60 +1,19 @@
 import * as THREE from 'three';
 import { COSMETICS } from '../utils/Constants';
+import { COSMETIC_CATALOG, CosmeticCatalogItem, CosmeticCurrency } from '../../shared/CosmeticCatalog';
 
 export type SkinId = 'default' | 'pigeon' | 'parrot' | 'crow' | 'golden' | 'flamingo' | 'phoenix';
 export type TrailId = 'none' | 'sparkle' | 'smoke' | 'rainbow' | 'fire' | 'lightning';
 export type SplatId = 'default' | 'star' | 'splatter' | 'confetti' | 'paint' | 'explosion';
 
-export type CosmeticCurrency = 'coins' | 'feathers' | 'worms' | 'golden_eggs';
+export type { CosmeticCurrency };
 
-export interface CosmeticItem {
-  id: string;
-  name: string;
-  category: 'skin' | 'trail' | 'splat' | 'title';
-  cost: number;
-  currency: CosmeticCurrency;
-  unlockLevel: number;
+export interface CosmeticItem extends CosmeticCatalogItem {
   owned: boolean;
 }
 
-const ALL_COSMETICS: CosmeticItem[] = [
-  // === Skins ===
-  // Coins (common)
-  { id: 'skin_default', name: 'Seagull', category: 'skin', cost: 0, currency: 'coins', unlockLevel: 1, owned: true },
-  { id: 'skin_pigeon', name: 'Pigeon', category: 'skin', cost: 500, currency: 'coins', unlockLevel: 5, owned: false },
-  { id: 'skin_parrot', name: 'Parrot', category: 'skin', cost: 1500, currency: 'coins', unlockLevel: 10, owned: false },
-  { id: 'skin_crow', name: 'Crow', category: 'skin', cost: 3000, currency: 'coins', unlockLevel: 20, owned: false },
-  // Worms (uncommon)
-  { id: 'skin_flamingo', name: 'Flamingo', category: 'skin', cost: 150, currency: 'worms', unlockLevel: 12, owned: false },
-  // Feathers (rare)
-  { id: 'skin_golden', name: 'Golden Eagle', category: 'skin', cost: 50, currency: 'feathers', unlockLevel: 30, owned: false },
-  // Golden Eggs (legendary)
-  { id: 'skin_phoenix', name: 'Phoenix', category: 'skin', cost: 5, currency: 'golden_eggs', unlockLevel: 35, owned: false },
-
-  // === Trails ===
-  // Coins (common)
-  { id: 'trail_none', name: 'None', category: 'trail', cost: 0, currency: 'coins', unlockLevel: 1, owned: true },
-  { id: 'trail_sparkle', name: 'Sparkle', category: 'trail', cost: 800, currency: 'coins', unlockLevel: 8, owned: false },
-  { id: 'trail_smoke', name: 'Smoke', category: 'trail', cost: 1200, currency: 'coins', unlockLevel: 15, owned: false },
-  // Worms (uncommon)
-  { id: 'trail_fire', name: 'Fire', category: 'trail', cost: 100, currency: 'worms', unlockLevel: 10, owned: false },
-  // Feathers (rare)
-  { id: 'trail_rainbow', name: 'Rainbow', category: 'trail', cost: 30, currency: 'feathers', unlockLevel: 25, owned: false },
-  // Golden Eggs (legendary)
-  { id: 'trail_lightning', name: 'Lightning', category: 'trail', cost: 3, currency: 'golden_eggs', unlockLevel: 30, owned: false },
-
-  // === Splats ===
-  // Coins (common)
-  { id: 'splat_default', name: 'Standard', category: 'splat', cost: 0, currency: 'coins', unlockLevel: 1, owned: true },
-  { id: 'splat_star', name: 'Star Burst', category: 'splat', cost: 600, currency: 'coins', unlockLevel: 7, owned: false },
-  { id: 'splat_splatter', name: 'Big Splat', category: 'splat', cost: 1000, currency: 'coins', unlockLevel: 12, owned: false },
-  // Worms (uncommon)
-  { id: 'splat_paint', name: 'Paint Splash', category: 'splat', cost: 80, currency: 'worms', unlockLevel: 9, owned: false },
-  // Feathers (rare)
-  { id: 'splat_confetti', name: 'Confetti', category: 'splat', cost: 25, currency: 'feathers', unlockLevel: 18, owned: false },
-  // Golden Eggs (legendary)
-  { id: 'splat_explosion', name: 'Explosion', category: 'splat', cost: 2, currency: 'golden_eggs', unlockLevel: 25, owned: false },
-];
+/** Free items are owned from the start */
+const ALL_COSMETICS: CosmeticItem[] = COSMETIC_CATALOG.map((item) => ({ ...item, owned: item.cost === 0 }));
 
 export class CosmeticsSystem {
   readonly items: CosmeticItem[] = ALL_COSMETICS.map(c => ({ ...c }));
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { createToonMaterial } from '../rendering/ToonUtils';
 import { FLIGHT_RINGS } from '../utils/Constants';
+import { DEFAULT_WORLD_SEED, SeededRandom, createSeededRandom, deriveSeed } from '../../shared/WorldSeed';
 
 export interface FlightRing {
   position: THREE.Vector3;
@@ -14,18 +15,39 @@ export interface FlightRing {
  * Flight Ring Checkpoint System
  * Creates glowing rings scattered around the city for players to fly through
  * Rewards coins and encourages exploration
+ * Ring placement is seeded from the world seed so all clients share the course
  */
 export class FlightRingSystem {
   private rings: FlightRing[] = [];
   readonly group = new THREE.Group();
+  private cityBounds: { minX: number; maxX: number; minZ: number; maxZ: number };
+  private rng: SeededRandom;
 
   // Callback for ring collection tracking
   onRingCollected: (() => void) | null = null;
 
-  constructor(cityBounds: { minX: number; maxX: number; minZ: number; maxZ: number }) {
+  constructor(cityBounds: { minX: number; maxX: number; minZ: number; maxZ: number }, seed: number = DEFAULT_WORLD_SEED) {
+    this.cityBounds = cityBounds;
+    this.rng = createSeededRandom(deriveSeed(seed, 'flight-rings'));
     this.generateRings(cityBounds);
   }
 
+  /** Regenerate the ring course for a new world seed */
+  regenerate(seed: number): void {
+    for (const ring of this.rings) {
+      this.group.remove(ring.mesh);
+      ring.mesh.traverse((obj) => {
+        if (!(obj instanceof THREE.Mesh)) return;
+        obj.geometry.dispose();
+        obj.material.dispose();
+      });
+    }
+    this.rings = [];
+
+    this.rng = createSeededRandom(deriveSeed(seed, 'flight-rings'));
+    this.generateRings(this.cityBounds);
+  }
+
   private generateRings(bounds: { minX: number; maxX: number; minZ: number; maxZ: number }): void {
     const ringGeo = new THREE.TorusGeometry(
       FLIGHT_RINGS.RADIUS,
@@ -35,9 +57,9 @@ export class FlightRingSystem {
     );
 
     for (let i = 0; i < FLIGHT_RINGS.COUNT; i++) {
-      const x = bounds.minX + Math.random() * (bounds.maxX - bounds.minX);
-      const z = bounds.minZ + Math.random() * (bounds.maxZ - bounds.minZ);
-      const y = 30 + Math.random() * 120; // Between 30 and 150 altitude
+      const x = bounds.minX + this.rng() * (bounds.maxX - bounds.minX);
+      const z = bounds.minZ + this.rng() * (bounds.maxZ - bounds.minZ);
+      const y = 30 + this.rng() * 120; // Between 30 and 150 altitude
 
       const ringGroup = new THREE.Group();
 
@@ -67,9 +89,9 @@ export class FlightRingSystem {
 
       // Random rotation for variety
       ringGroup.rotation.set(
-        (Math.random() - 0.5) * Math.PI,
-        Math.random() * Math.PI * 2,
-        (Math.random() - 0.5) * Math.PI
+        (this.rng() - 0.5) * Math.PI,
+        this.rng() * Math.PI * 2,
+        (this.rng() - 0.5) * Math.PI
       );
 
       this.group.add(ringGroup);
@@ -79,7 +101,7 @@ export class FlightRingSystem {
         mesh: ringGroup,
         collected: false,
         respawnTime: 0,
-        rotationSpeed: 0.3 + Math.random() * 0.5,
+        rotationSpeed: 0.3 + this.rng() * 0.5,
       });
     }
   }
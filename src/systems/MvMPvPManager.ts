@@ -6,12 +6,15 @@
  */
 
 import { MVM } from '@/utils/Constants';
+import { murmurationService } from '@/services/MurmurationService';
 import type {
   MvMMode,
   MvMTeamSize,
   MvMMatch,
   MvMTeam,
   MvMRewards,
+  MvMMvp,
+  MvMMatchEndData,
   TerritoryZone,
   MvMQueueEntry,
 } from '@/types/murmuration';
@@ -28,6 +31,8 @@ export class MvMPvPManager {
   private countdownTimer = 0;
   private resultsTimer = 0;
   private lastRewards: MvMRewards | null = null;
+  private lastMvp: MvMMvp | null = null;
+  private lastContributions: Record<string, number> = {};
   private queueMode: MvMMode | null = null;
   private queueTeamSize: MvMTeamSize | null = null;
 
@@ -159,7 +164,7 @@ export class MvMPvPManager {
    * Handle the match-end message from the server.
    * Transitions to the ending phase, stores rewards, and prepares results display.
    */
-  handleMatchEnd(data: { winner: 'a' | 'b' | 'draw'; rewards: MvMRewards; stats: { a: number; b: number } }): void {
+  handleMatchEnd(data: MvMMatchEndData): void {
     if (!this.currentMatch) {
       console.warn('[MvMPvP] Received match end but no active match');
       return;
@@ -170,8 +175,18 @@ export class MvMPvPManager {
     this.queueState = 'in_match'; // stays in_match until results clear
 
     this.lastRewards = data.rewards;
+    this.lastMvp = data.mvp ?? null;
+    this.lastContributions = data.contributions ?? {};
     this.resultsTimer = MVM.RESULTS_DISPLAY_S;
 
+    // One member per team reports, so the murmuration's record counts each match once
+    const murmurationId = this.getLocalMurmurationId();
+    if (data.reportResult && data.winner !== 'draw' && murmurationId) {
+      murmurationService
+        .recordMvMResult(murmurationId, data.winner === this.localTeam)
+        .catch((err) => console.error('[MvMPvP] Failed to record match result:', err));
+    }
+
     const localWon =
       data.winner === this.localTeam
         ? 'WON'
@@ -180,7 +195,8 @@ export class MvMPvPManager {
           : 'LOST';
 
     console.log(
-      `[MvMPvP] Match ended: ${localWon} | Winner: ${data.winner} | Coins: ${data.rewards.coins} | Feathers: ${data.rewards.feathers}`,
+      `[MvMPvP] Match ended: ${localWon} | Winner: ${data.winner} | Coins: ${data.rewards.coins} | Feathers: ${data.rewards.feathers}` +
+      (data.mvp ? ` | MVP: ${data.mvp.username} (${data.mvp.points})` : ''),
     );
   }
 
@@ -213,10 +229,7 @@ export class MvMPvPManager {
 
     if (elapsed >= MVM.MATCHMAKING_TIMEOUT_MS) {
       console.log('[MvMPvP] Matchmaking timed out after', MVM.MATCHMAKING_TIMEOUT_MS, 'ms');
-      this.queueState = 'idle';
-      this.queueStartTime = 0;
-      this.queueMode = null;
-      this.queueTeamSize = null;
+      this.leaveQueue();
     }
     // Otherwise: "searching..." state continues — UI reads queueState + getQueueTimeElapsed()
   }
@@ -304,6 +317,29 @@ export class MvMPvPManager {
     return this.lastRewards;
   }
 
+  /**
+   * Get the MVP of the last completed match, or null if nobody scored.
+   */
+  getMvp(): MvMMvp | null {
+    return this.lastMvp;
+  }
+
+  /**
+   * Get the points a player earned for their team in the last completed match.
+   */
+  getContribution(playerId: string): number {
+    return this.lastContributions[playerId] ?? 0;
+  }
+
+  /**
+   * Get the local player's murmuration ID in the current match, or null if none.
+   */
+  getLocalMurmurationId(): string | null {
+    if (!this.currentMatch || !this.localTeam) return null;
+    const team = this.localTeam === 'a' ? this.currentMatch.team_a : this.currentMatch.team_b;
+    return team.murmuration_id;
+  }
+
   /**
    * Get the current match scores, or null if no active match.
    */
@@ -327,6 +363,8 @@ export class MvMPvPManager {
     this.countdownTimer = 0;
     this.resultsTimer = 0;
     this.lastRewards = null;
+    this.lastMvp = null;
+    this.lastContributions = {};
     this.queueMode = null;
     this.queueTeamSize = null;
 
@@ -114,6 +114,33 @@ export class ProgressionSystem {
     return levelsGained;
   }
 
+  /**
+   * Take banked XP and feathers from the game server's economy ledger, which
+   * awards level-up feathers itself. Golden egg milestones stay local.
+   * Returns the levels gained since the previous balance.
+   */
+  applyLedgerBalance(xp: number, feathers: number): number {
+    const previousLevel = this.level;
+    this.xp = xp;
+    this.feathers = feathers;
+
+    let level = 1;
+    let totalXPNeeded = this.getXPForLevel(1);
+    while (level < PROGRESSION.MAX_LEVEL && this.xp >= totalXPNeeded) {
+      level++;
+      totalXPNeeded += this.getXPForLevel(level);
+    }
+    this.level = level;
+
+    for (let lvl = previousLevel + 1; lvl <= level; lvl++) {
+      if (ECONOMY.GOLDEN_EGGS_LEVEL_MILESTONES.includes(lvl) && !this.claimedMilestones.has(lvl)) {
+        this.goldenEggs += ECONOMY.GOLDEN_EGGS_PER_MILESTONE;
+        this.claimedMilestones.add(lvl);
+      }
+    }
+    return Math.max(0, level - previousLevel);
+  }
+
   recordHit(npcType?: NPCType): void {
     this.stats.totalNPCHits++;
     this.updateChallengeProgress('hits', this.stats.totalNPCHits);
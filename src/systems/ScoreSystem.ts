@@ -24,6 +24,15 @@ export class ScoreSystem {
   // Combo bonus (set by ComboSystem)
   comboBonus = 0;
 
+  /** Called for every carried coin earned, so the server can track what is banked */
+  onCoinsEarned: ((amount: number) => void) | null = null;
+
+  /** Add carried coins */
+  earn(amount: number): void {
+    this.coins += amount;
+    if (amount > 0) this.onCoinsEarned?.(amount);
+  }
+
   onHitWithValues(coinValue: number, _heatValue: number, npcType?: NPCType): void {
     this.streak++;
     this.multiplier = Math.min(
@@ -35,7 +44,7 @@ export class ScoreSystem {
     // Apply combo bonus on top of multiplier
     const totalMultiplier = this.multiplier * (1 + this.comboBonus);
     const points = Math.floor(coinValue * totalMultiplier);
-    this.coins += points;
+    this.earn(points);
 
     this.lastHitPoints = points;
     this.lastHitMultiplier = totalMultiplier;
@@ -57,11 +66,17 @@ export class ScoreSystem {
     }
   }
 
-  bank(): number {
+  /**
+   * Empty carried coins (and session worms) into the bank. Online, the server
+   * ledger sets the banked total, so pass `creditBanked` false.
+   */
+  bank(creditBanked = true): number {
     const amount = this.coins;
     if (amount > 0) {
-      this.bankedCoins += amount;
-      this.xp += Math.floor(amount / 5);
+      if (creditBanked) {
+        this.bankedCoins += amount;
+        this.xp += Math.floor(amount / 5);
+      }
       this.coins = 0;
       this.streak = 0;
       this.multiplier = 1;
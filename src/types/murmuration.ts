@@ -170,6 +170,14 @@ export interface MvMRewards {
   is_mvp: boolean;
 }
 
+/** Top contributor of an MvM match (most points earned for their team) */
+export interface MvMMvp {
+  playerId: string;
+  username: string;
+  team: 'a' | 'b';
+  points: number;
+}
+
 // ============================================================================
 // Leaderboard
 // ============================================================================
@@ -234,7 +242,7 @@ export interface MvMQueueLeaveMessage {
 
 export interface MvMMatchFoundMessage {
   type: 'mvm_match_found';
-  data: { matchId: string; opponent: MvMTeam; mode: MvMMode };
+  data: { matchId: string; opponent: MvMTeam; mode: MvMMode; localTeam: MvMTeam; teamSide: 'a' | 'b' };
 }
 
 export interface MvMRoundUpdateMessage {
@@ -244,7 +252,18 @@ export interface MvMRoundUpdateMessage {
 
 export interface MvMMatchEndMessage {
   type: 'mvm_match_end';
-  data: { winner: 'a' | 'b' | 'draw'; rewards: MvMRewards; stats: { a: number; b: number } };
+  data: MvMMatchEndData;
+}
+
+export interface MvMMatchEndData {
+  winner: 'a' | 'b' | 'draw';
+  rewards: MvMRewards;
+  stats: { a: number; b: number };
+  mvp: MvMMvp | null;
+  /** Points each player earned for their team, by player ID */
+  contributions: Record<string, number>;
+  /** Set for one member per murmuration: that client records the win/loss */
+  reportResult: boolean;
 }
 
 export interface MurmurationChatWsMessage {
@@ -1,28 +1,60 @@
 /**
- * Global Chat UI
- * Semi-transparent chat overlay with message history and text input.
- * Press Enter to open, Enter to send, Escape to close.
+ * Chat UI
+ * Semi-transparent chat overlay with a tab per channel, message history and
+ * text input. Press Enter to open, Enter to send, Tab to switch channel,
+ * Escape to close. Lines go out on the open tab's channel; tabs in the
+ * background count unread lines. System lines show in every tab.
+ * `/block <name>`, `/unblock <name>` and `/blocked` manage the block list
+ * locally; they are never sent to the server.
  */
 
+import { chatBlockList } from '@/services/ChatBlockList';
+import { CHAT_CHANNELS, CHAT_CHANNEL_NAMES, type ChatChannelId } from '../../shared/ChatChannels';
+import type { ChatMessage } from '../../shared/types';
+
 interface ChatMessageEntry {
+  /** Sender's player ID; absent for system lines, which cannot be blocked */
+  senderId?: string;
+  /** Null for system lines */
+  channel: ChatChannelId | null;
   username: string;
   message: string;
   timestamp: number;
   color: string;
 }
 
-const MAX_MESSAGES = 50;
+const MAX_MESSAGES = 50; // per channel
+const CHANNEL_COLORS: Record<ChatChannelId, string> = {
+  global: '#fff',
+  proximity: '#9f9',
+  whisper: '#f9f',
+  session: '#fc6',
+  party: '#6cf',
+};
+const INPUT_PLACEHOLDERS: Record<ChatChannelId, string> = {
+  global: 'Message everyone in this world...',
+  proximity: 'Message birds near you...',
+  whisper: 'Answer the last whisper, or /w <name> <message>',
+  session: 'Message your match...',
+  party: 'Message your party (/party invite <name>)...',
+};
 const MESSAGE_FADE_TIME = 12000; // ms before messages start fading
 const MESSAGE_GONE_TIME = 18000; // ms before messages fully disappear
 
 export class ChatUI {
   private container: HTMLDivElement;
+  private tabBar: HTMLDivElement;
+  private tabs = new Map<ChatChannelId, { button: HTMLButtonElement; badge: HTMLSpanElement }>();
   private messagesDiv: HTMLDivElement;
   private inputContainer: HTMLDivElement;
   private inputField: HTMLInputElement;
   private messages: ChatMessageEntry[] = [];
   private isOpen = false;
-  private onSend: ((message: string) => void) | null = null;
+  private activeChannel: ChatChannelId = 'global';
+  private unread = new Map<ChatChannelId, number>();
+  private onSend: ((message: string, channel: ChatChannelId) => void) | null = null;
+  /** Recent senders by lower-cased name, so /block can find them */
+  private knownSenders = new Map<string, { id: string; username: string }>();
 
   // Rate limiting
   private lastSendTime = 0;
@@ -44,6 +76,47 @@ export class ChatUI {
       fontSize: '13px',
     });
 
+    // Channel tabs
+    this.tabBar = document.createElement('div');
+    Object.assign(this.tabBar.style, {
+      display: 'flex',
+      gap: '4px',
+      padding: '0 10px 2px',
+    });
+    for (const channel of CHAT_CHANNELS) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = CHAT_CHANNEL_NAMES[channel];
+      Object.assign(button.style, {
+        background: 'rgba(0, 0, 0, 0.5)',
+        border: 'none',
+        borderRadius: '4px 4px 0 0',
+        color: CHANNEL_COLORS[channel],
+        padding: '2px 8px',
+        fontSize: '11px',
+        fontWeight: 'bold',
+        cursor: 'pointer',
+        textShadow: '1px 1px 2px rgba(0,0,0,0.8)',
+      });
+      const badge = document.createElement('span');
+      Object.assign(badge.style, {
+        display: 'none',
+        marginLeft: '4px',
+        background: '#e44',
+        color: '#fff',
+        borderRadius: '8px',
+        padding: '0 5px',
+        fontSize: '10px',
+      });
+      button.appendChild(badge);
+      // Keep focus in the input so Enter still sends after a click
+      button.addEventListener('mousedown', (e) => e.preventDefault());
+      button.addEventListener('click', () => this.setChannel(channel));
+      this.tabBar.appendChild(button);
+      this.tabs.set(channel, { button, badge });
+    }
+    this.container.appendChild(this.tabBar);
+
     // Messages area
     this.messagesDiv = document.createElement('div');
     Object.assign(this.messagesDiv.style, {
@@ -95,6 +168,10 @@ export class ChatUI {
         this.sendMessage();
       } else if (e.key === 'Escape') {
         this.close();
+      } else if (e.key === 'Tab') {
+        e.preventDefault();
+        const step = e.shiftKey ? CHAT_CHANNELS.length - 1 : 1;
+        this.setChannel(CHAT_CHANNELS[(CHAT_CHANNELS.indexOf(this.activeChannel) + step) % CHAT_CHANNELS.length]);
       }
     });
 
@@ -116,35 +193,94 @@ export class ChatUI {
       }
     });
 
+    // Blocking hides lines already on screen too
+    chatBlockList.onChange(() => this.renderMessages());
+
+    this.setChannel('global');
+
     // Start fade update loop
     this.startFadeLoop();
   }
 
   /** Set the callback for when a message is sent */
-  setOnSend(callback: (message: string) => void): void {
+  setOnSend(callback: (message: string, channel: ChatChannelId) => void): void {
     this.onSend = callback;
   }
 
-  /** Add an incoming chat message */
+  /** Add a line shown in every tab */
   addMessage(username: string, message: string, isSystem = false): void {
-    const color = isSystem ? '#aaa' : this.getUserColor(username);
-
-    this.messages.push({
+    this.pushEntry({
+      channel: null,
       username,
       message,
       timestamp: Date.now(),
-      color,
+      color: isSystem ? '#aaa' : this.getUserColor(username),
     });
+  }
+
+  /**
+   * Add a line from the server's `chat` message. Lines from blocked players
+   * are dropped; server notices show in every tab.
+   */
+  addChatMessage(data: ChatMessage, isOwn: boolean): void {
+    if (data.playerId === 'server') {
+      this.addMessage(data.username, data.message, true);
+      return;
+    }
+    if (chatBlockList.isBlocked(data.playerId)) return;
+    if (!isOwn) this.knownSenders.set(data.username.toLowerCase(), { id: data.playerId, username: data.username });
+
+    const channel = data.channel ?? 'global';
+    let username = data.username;
+    if (channel === 'whisper') username = isOwn ? `To ${data.toName ?? '?'}` : `From ${data.username}`;
+
+    this.pushEntry({
+      senderId: data.playerId,
+      channel,
+      username,
+      message: data.message,
+      timestamp: Date.now(),
+      color: this.getUserColor(data.username),
+    });
+    if (channel !== this.activeChannel && !isOwn) {
+      this.unread.set(channel, (this.unread.get(channel) ?? 0) + 1);
+      this.updateBadges();
+    }
+  }
+
+  /** Switch the tab shown and the channel typed lines go to */
+  setChannel(channel: ChatChannelId): void {
+    this.activeChannel = channel;
+    this.unread.delete(channel);
+    for (const [id, tab] of this.tabs) {
+      tab.button.style.background = id === channel ? 'rgba(255, 255, 255, 0.25)' : 'rgba(0, 0, 0, 0.5)';
+    }
+    this.inputField.placeholder = INPUT_PLACEHOLDERS[channel];
+    this.updateBadges();
+    this.renderMessages();
+    this.scrollToBottom();
+  }
+
+  private pushEntry(entry: ChatMessageEntry): void {
+    this.messages.push(entry);
 
-    // Trim old messages
-    if (this.messages.length > MAX_MESSAGES) {
-      this.messages.shift();
+    // Trim the channel's oldest line, so a busy channel cannot push out a quiet one
+    if (this.messages.filter((m) => m.channel === entry.channel).length > MAX_MESSAGES) {
+      this.messages.splice(this.messages.findIndex((m) => m.channel === entry.channel), 1);
     }
 
     this.renderMessages();
     this.scrollToBottom();
   }
 
+  private updateBadges(): void {
+    for (const [channel, tab] of this.tabs) {
+      const count = this.unread.get(channel) ?? 0;
+      tab.badge.style.display = count > 0 ? 'inline' : 'none';
+      tab.badge.textContent = count > 99 ? '99+' : String(count);
+    }
+  }
+
   /** Open the chat input */
   open(): void {
     if (this.isOpen) return;
@@ -191,6 +327,12 @@ export class ChatUI {
       return;
     }
 
+    if (this.handleBlockCommand(text)) {
+      this.inputField.value = '';
+      this.close();
+      return;
+    }
+
     // Rate limit
     const now = Date.now();
     if (now - this.lastSendTime < this.sendCooldown) {
@@ -199,16 +341,49 @@ export class ChatUI {
     this.lastSendTime = now;
 
     // Send
-    this.onSend?.(text);
+    this.onSend?.(text, this.activeChannel);
     this.inputField.value = '';
     this.close();
   }
 
+  /** Handle /block, /unblock and /blocked; returns false for anything else */
+  private handleBlockCommand(text: string): boolean {
+    const [command, ...rest] = text.split(/\s+/);
+    const name = rest.join(' ');
+
+    switch (command.toLowerCase()) {
+      case '/block': {
+        const sender = this.knownSenders.get(name.toLowerCase());
+        if (!name) this.addMessage('System', 'Usage: /block <name>', true);
+        else if (!sender) this.addMessage('System', `No recent messages from ${name}`, true);
+        else if (!chatBlockList.block(sender.id, sender.username)) this.addMessage('System', 'Your block list is full', true);
+        else this.addMessage('System', `Blocked ${sender.username}. /unblock ${sender.username} to undo.`, true);
+        return true;
+      }
+      case '/unblock': {
+        const unblocked = name ? chatBlockList.unblock(name) : null;
+        if (!name) this.addMessage('System', 'Usage: /unblock <name>', true);
+        else if (!unblocked) this.addMessage('System', `${name} is not blocked`, true);
+        else this.addMessage('System', `Unblocked ${unblocked.username}`, true);
+        return true;
+      }
+      case '/blocked': {
+        const names = chatBlockList.list().map((p) => p.username);
+        this.addMessage('System', names.length > 0 ? `Blocked: ${names.join(', ')}` : 'Nobody is blocked', true);
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
   private renderMessages(): void {
     const now = Date.now();
     this.messagesDiv.innerHTML = '';
 
     for (const msg of this.messages) {
+      if (msg.channel !== null && msg.channel !== this.activeChannel) continue;
+      if (msg.senderId && chatBlockList.isBlocked(msg.senderId)) continue;
       const age = now - msg.timestamp;
       let opacity = 1;
 
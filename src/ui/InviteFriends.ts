@@ -7,6 +7,7 @@ export class InviteFriends {
   private gameUrl: string;
   private shareText: string;
   private linkInput: HTMLInputElement;
+  private qrImg: HTMLImageElement;
   private referralService: ReferralService;
 
   constructor(referralService: ReferralService) {
@@ -252,7 +253,8 @@ export class InviteFriends {
     qrSection.appendChild(qrLabel);
 
     const qrImg = document.createElement('img');
-    qrImg.src = `https://api.qrserver.com/v1/create-qr-code/?size=150x150&data=${encodeURIComponent(this.gameUrl)}&bgcolor=1a2a3a&color=ffffff`;
+    this.qrImg = qrImg;
+    qrImg.src = this.getQrCodeUrl();
     qrImg.alt = 'QR Code - Scan to play';
     qrImg.style.cssText = `
       width: 150px;
@@ -504,5 +506,20 @@ export class InviteFriends {
     if (this.linkInput) {
       this.linkInput.value = this.gameUrl;
     }
+    if (this.qrImg) {
+      this.qrImg.src = this.getQrCodeUrl();
+    }
+  }
+
+  /** Share a private PvP lobby: the link opens the game in the lobby's world and joins it */
+  setLobbyInvite(code: string, worldId: string): void {
+    const url = new URL(this.referralService.getShareUrl(), window.location.href);
+    url.searchParams.set('lobby', code);
+    url.searchParams.set('world', worldId);
+    this.setShareData(`Join my Bird Game 3D lobby! Code: ${code}`, url.toString());
+  }
+
+  private getQrCodeUrl(): string {
+    return `https://api.qrserver.com/v1/create-qr-code/?size=150x150&data=${encodeURIComponent(this.gameUrl)}&bgcolor=1a2a3a&color=ffffff`;
   }
 }
@@ -117,6 +117,8 @@ export class KeyboardHelper {
       { key: 'H', action: 'Achievements' },
       { key: 'M', action: 'Walk Mode Toggle' },
       { key: 'O', action: 'Minimap' },
+      { key: 'F2', action: 'Race Route Editor' },
+      { key: 'F3', action: 'Tournament Bracket' },
       { key: 'Esc', action: 'Pause' },
       { key: 'F1', action: 'Hide Controls' },
     ];
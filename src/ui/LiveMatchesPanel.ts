@@ -0,0 +1,171 @@
+import type { SpectatableMatch } from '../../shared/types';
+
+const KIND_LABELS: Record<SpectatableMatch['kind'], string> = {
+  pvp: 'PvP',
+  heist: 'Heist',
+  mvm: 'MvM',
+};
+
+/**
+ * Lists the matches being played right now (from the server lobby) with a
+ * WATCH button for each, so anyone can drop in as a spectator mid-round.
+ */
+export class LiveMatchesPanel {
+  private container: HTMLElement;
+  private list: HTMLElement;
+  private visible = false;
+  private onWatch: ((match: SpectatableMatch) => void) | null = null;
+  private onRefresh: (() => void) | null = null;
+  private onClose: (() => void) | null = null;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      display: none;
+      align-items: center;
+      justify-content: center;
+      background: rgba(0, 0, 0, 0.8);
+      z-index: 2000;
+      font-family: 'Segoe UI', system-ui, sans-serif;
+    `;
+
+    const panel = document.createElement('div');
+    panel.style.cssText = `
+      background: linear-gradient(180deg, #1a2a3a 0%, #2a4a6a 100%);
+      border: 2px solid rgba(255, 255, 255, 0.3);
+      border-radius: 12px;
+      padding: 30px;
+      max-width: 560px;
+      width: 90%;
+      max-height: 80vh;
+      overflow-y: auto;
+      box-shadow: 0 8px 32px rgba(0, 0, 0, 0.5);
+      color: #fff;
+    `;
+
+    const title = document.createElement('div');
+    title.style.cssText = `
+      font-size: 32px;
+      font-weight: bold;
+      text-align: center;
+      margin-bottom: 20px;
+      text-shadow: 2px 2px 4px rgba(0, 0, 0, 0.5);
+    `;
+    title.textContent = 'LIVE MATCHES';
+    panel.appendChild(title);
+
+    this.list = document.createElement('div');
+    this.list.style.cssText = 'display: flex; flex-direction: column; gap: 8px;';
+    panel.appendChild(this.list);
+
+    const footer = document.createElement('div');
+    footer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px;';
+    footer.appendChild(this.createButton('REFRESH', () => this.onRefresh?.()));
+    footer.appendChild(this.createButton('CLOSE', () => {
+      this.hide();
+      this.onClose?.();
+    }));
+    panel.appendChild(footer);
+
+    this.container.appendChild(panel);
+    document.body.appendChild(this.container);
+  }
+
+  setCallbacks(onWatch: (match: SpectatableMatch) => void, onRefresh: () => void, onClose: () => void): void {
+    this.onWatch = onWatch;
+    this.onRefresh = onRefresh;
+    this.onClose = onClose;
+  }
+
+  setLoading(): void {
+    this.setMessage('Looking for matches…');
+  }
+
+  /** Fill the list; null means the server could not be reached */
+  setMatches(matches: SpectatableMatch[] | null): void {
+    if (!matches || matches.length === 0) {
+      this.setMessage(matches ? 'No matches in progress right now.' : 'Could not reach the server.');
+      return;
+    }
+
+    this.list.replaceChildren();
+
+    for (const match of matches) {
+      const row = document.createElement('div');
+      row.style.cssText = `
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 10px 12px;
+        background: rgba(255, 255, 255, 0.06);
+        border-radius: 6px;
+      `;
+
+      const info = document.createElement('div');
+      info.style.cssText = 'flex: 1;';
+      const name = document.createElement('div');
+      name.style.cssText = 'font-weight: bold;';
+      name.textContent = `${KIND_LABELS[match.kind]} · ${match.mode}`;
+      const detail = document.createElement('div');
+      detail.style.cssText = 'font-size: 12px; color: rgba(255, 255, 255, 0.6);';
+      detail.textContent = `${match.worldId} · ${match.phase} · ${match.participants} playing`;
+      info.append(name, detail);
+      row.appendChild(info);
+
+      const watch = this.createButton('WATCH', () => this.onWatch?.(match));
+      watch.style.width = 'auto';
+      watch.style.padding = '8px 16px';
+      row.appendChild(watch);
+
+      this.list.appendChild(row);
+    }
+  }
+
+  show(): void {
+    this.visible = true;
+    this.container.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.visible = false;
+    this.container.style.display = 'none';
+  }
+
+  get isVisible(): boolean {
+    return this.visible;
+  }
+
+  private setMessage(text: string): void {
+    const message = document.createElement('div');
+    message.style.cssText = 'text-align: center; color: rgba(255, 255, 255, 0.6); padding: 20px 0;';
+    message.textContent = text;
+    this.list.replaceChildren(message);
+  }
+
+  private createButton(label: string, action: () => void): HTMLButtonElement {
+    const btn = document.createElement('button');
+    btn.setAttribute('type', 'button');
+    btn.style.cssText = `
+      flex: 1;
+      padding: 12px;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 6px;
+      color: #fff;
+      font-size: 16px;
+      font-weight: bold;
+      cursor: pointer;
+      transition: all 0.2s;
+    `;
+    btn.textContent = label;
+    btn.addEventListener('mouseenter', () => { btn.style.background = 'rgba(255, 255, 255, 0.2)'; });
+    btn.addEventListener('mouseleave', () => { btn.style.background = 'rgba(255, 255, 255, 0.1)'; });
+    btn.addEventListener('click', action);
+    return btn;
+  }
+}
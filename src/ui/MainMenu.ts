@@ -1,5 +1,6 @@
 import { makeKeyboardAccessible } from '../utils/AccessibilityHelper';
 import { AuthState } from '../services/AuthStateManager';
+import { AUTO_WORLD_ID, type WorldListing } from '../multiplayer/WorldBrowser';
 export class MainMenu {
   private container: HTMLElement;
   private visible = true;
@@ -15,8 +16,14 @@ export class MainMenu {
   private onInviteFriend: (() => void) | null = null;
   private onMurmurations: (() => void) | null = null;
   private onAccount: (() => void) | null = null;
+  private onWorldSelected: ((worldId: string) => void) | null = null;
+  private onRefreshWorlds: (() => void) | null = null;
+  private onReplays: (() => void) | null = null;
+  private onSpectate: (() => void) | null = null;
   private usernameLabel: HTMLElement;
   private accountBtn: HTMLButtonElement;
+  private worldPicker: HTMLElement;
+  private worldSelect: HTMLSelectElement;
 
   constructor() {
     this.container = document.createElement('div');
@@ -76,6 +83,40 @@ export class MainMenu {
     subtitle.textContent = 'Poop on everything.';
     this.container.appendChild(subtitle);
 
+    // World picker (hidden until the server's lobby answers)
+    this.worldPicker = document.createElement('div');
+    this.worldPicker.style.cssText =
+      'display:none;align-items:center;gap:8px;margin:-40px 0 20px;' +
+      'font-size:13px;font-weight:bold;letter-spacing:2px;color:rgba(255,255,255,0.8);';
+
+    const worldLabel = document.createElement('label');
+    worldLabel.textContent = 'WORLD';
+    worldLabel.htmlFor = 'main-menu-world';
+    this.worldPicker.appendChild(worldLabel);
+
+    this.worldSelect = document.createElement('select');
+    this.worldSelect.id = 'main-menu-world';
+    this.worldSelect.setAttribute('aria-label', 'Choose a world to join');
+    this.worldSelect.style.cssText =
+      'min-width:260px;padding:6px 8px;background:rgba(0,0,0,0.35);' +
+      'border:1px solid rgba(255,255,255,0.3);border-radius:4px;' +
+      'color:#fff;font-size:13px;cursor:pointer;pointer-events:auto;';
+    this.worldSelect.addEventListener('change', () => this.onWorldSelected?.(this.worldSelect.value));
+    this.worldPicker.appendChild(this.worldSelect);
+
+    const refreshBtn = document.createElement('button');
+    refreshBtn.setAttribute('type', 'button');
+    refreshBtn.setAttribute('aria-label', 'Refresh world list');
+    refreshBtn.style.cssText =
+      'padding:5px 10px;background:rgba(255,255,255,0.1);' +
+      'border:1px solid rgba(255,255,255,0.3);border-radius:4px;' +
+      'color:#fff;font-size:13px;cursor:pointer;pointer-events:auto;';
+    refreshBtn.textContent = '\u21bb';
+    refreshBtn.addEventListener('click', () => this.onRefreshWorlds?.());
+    this.worldPicker.appendChild(refreshBtn);
+
+    this.container.appendChild(this.worldPicker);
+
     // Buttons
     const buttons = [
       { label: 'PLAY', ariaLabel: 'Start game', action: () => this.onPlay?.() },
@@ -85,6 +126,8 @@ export class MainMenu {
       { label: 'ACHIEVEMENTS', ariaLabel: 'View achievements', action: () => this.onAchievements?.() },
       { label: 'COSMETICS', ariaLabel: 'Customize bird appearance', action: () => this.onCosmetics?.() },
       { label: 'MURMURATIONS', ariaLabel: 'Open Murmurations (clans)', action: () => this.onMurmurations?.() },
+      { label: 'SPECTATE', ariaLabel: 'Watch a live match', action: () => this.onSpectate?.() },
+      { label: 'REPLAYS', ariaLabel: 'Watch a recorded session', action: () => this.onReplays?.() },
       { label: 'INVITE A FRIEND', ariaLabel: 'Share game with friends', action: () => this.onInviteFriend?.() },
       { label: 'SETTINGS', ariaLabel: 'Open settings menu', action: () => this.onSettings?.() },
       { label: 'CREDITS', ariaLabel: 'View credits', action: () => this.onCredits?.() },
@@ -161,6 +204,51 @@ export class MainMenu {
     this.onMurmurations = onMurmurations ?? null;
   }
 
+  setWorldCallbacks(onWorldSelected: (worldId: string) => void, onRefreshWorlds: () => void): void {
+    this.onWorldSelected = onWorldSelected;
+    this.onRefreshWorlds = onRefreshWorlds;
+  }
+
+  setReplayCallback(onReplays: () => void): void {
+    this.onReplays = onReplays;
+  }
+
+  setSpectateCallback(onSpectate: () => void): void {
+    this.onSpectate = onSpectate;
+  }
+
+  /** Fill the world picker from the lobby; null hides it (no server or an old one) */
+  setWorldListings(listings: WorldListing[] | null, selectedId: string): void {
+    if (!listings) {
+      this.worldPicker.style.display = 'none';
+      return;
+    }
+
+    this.worldSelect.innerHTML = '';
+    const addOption = (value: string, text: string, disabled = false): void => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = text;
+      option.disabled = disabled;
+      option.style.background = '#1a2a3a';
+      this.worldSelect.appendChild(option);
+    };
+
+    addOption(AUTO_WORLD_ID, 'Auto — join your flock');
+    for (const world of listings) {
+      const parts = [world.name, `${world.population}/${world.capacity}`, `${world.pingMs} ms`];
+      if (world.murmurationMembers > 0) parts.push(`${world.murmurationMembers} flockmate${world.murmurationMembers === 1 ? '' : 's'}`);
+      if (world.full) parts.push('FULL');
+      addOption(world.id, parts.join(' · '), world.full && world.id !== selectedId);
+    }
+
+    // A remembered world that no longer exists falls back to auto
+    const known = selectedId === AUTO_WORLD_ID || listings.some((world) => world.id === selectedId);
+    this.worldSelect.value = known ? selectedId : AUTO_WORLD_ID;
+    if (!known) this.onWorldSelected?.(AUTO_WORLD_ID);
+    this.worldPicker.style.display = 'flex';
+  }
+
   /** Update the user strip display based on auth state */
   updateAuthDisplay(state: AuthState): void {
     if (state.isAuthenticated) {
@@ -31,9 +31,8 @@ export class Minimap {
 
   // Heist state
   private heistActive = false;
-  private heistTrophyPos: THREE.Vector2 | null = null;
-  private heistTrophyCarrierId: string | null = null;
-  private heistPedestals: Array<{ pos: THREE.Vector2; color: string; playerId: string }> = [];
+  private heistTrophies: Array<{ pos: THREE.Vector2; carrierId: string | null }> = [];
+  private heistPedestals: Array<{ pos: THREE.Vector2; color: string; team: number }> = [];
   private heistLocalPlayerId: string | null = null;
 
   constructor(options: MinimapOptions = {}) {
@@ -112,22 +111,23 @@ export class Minimap {
     this.heistActive = active;
     this.heistLocalPlayerId = localPlayerId ?? null;
     if (!active) {
-      this.heistTrophyPos = null;
-      this.heistTrophyCarrierId = null;
+      this.heistTrophies = [];
       this.heistPedestals = [];
     }
   }
 
-  setHeistTrophy(pos: { x: number; z: number } | null, carrierId: string | null): void {
-    this.heistTrophyPos = pos ? new THREE.Vector2(pos.x, pos.z) : null;
-    this.heistTrophyCarrierId = carrierId;
+  setHeistTrophies(trophies: Array<{ position: { x: number; z: number }; carrierId: string | null }>): void {
+    this.heistTrophies = trophies.map(t => ({
+      pos: new THREE.Vector2(t.position.x, t.position.z),
+      carrierId: t.carrierId,
+    }));
   }
 
-  setHeistPedestals(pedestals: Array<{ position: { x: number; z: number }; color: number; playerId: string }>): void {
+  setHeistPedestals(pedestals: Array<{ position: { x: number; z: number }; color: number; team: number }>): void {
     this.heistPedestals = pedestals.map(p => ({
       pos: new THREE.Vector2(p.position.x, p.position.z),
       color: `#${p.color.toString(16).padStart(6, '0')}`,
-      playerId: p.playerId,
+      team: p.team,
     }));
   }
 
@@ -258,8 +258,8 @@ export class Minimap {
         ctx.restore();
       }
 
-      if (this.heistTrophyPos) {
-        const tp = this.worldToMap(this.heistTrophyPos.x, this.heistTrophyPos.y);
+      for (const trophy of this.heistTrophies) {
+        const tp = this.worldToMap(trophy.pos.x, trophy.pos.y);
         const trophyPulse = 3 + Math.sin(this.animTime * 5) * 1;
         ctx.strokeStyle = 'rgba(255, 215, 0, 0.5)';
         ctx.lineWidth = 1;
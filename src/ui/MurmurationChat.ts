@@ -6,6 +6,7 @@
 
 import { MURMURATION } from '@/utils/Constants';
 import type { MurmurationChatMessage } from '@/types/murmuration';
+import { chatBlockList } from '@/services/ChatBlockList';
 
 export class MurmurationChat {
   private container: HTMLElement;
@@ -83,6 +84,9 @@ export class MurmurationChat {
     inputRow.appendChild(this.inputEl);
     inputRow.appendChild(sendBtn);
     this.container.appendChild(inputRow);
+
+    // Blocking or unblocking anywhere re-filters the whole history
+    chatBlockList.onChange(() => this.renderAll());
   }
 
   getElement(): HTMLElement {
@@ -98,17 +102,14 @@ export class MurmurationChat {
     if (this.messages.length > 200) {
       this.messages.shift();
     }
+    if (chatBlockList.isBlocked(msg.sender_id)) return;
     this.appendMessageElement(msg);
     this.scrollToBottom();
   }
 
   loadHistory(messages: MurmurationChatMessage[]): void {
     this.messages = messages;
-    this.messagesContainer.innerHTML = '';
-    for (const msg of messages) {
-      this.appendMessageElement(msg);
-    }
-    this.scrollToBottom();
+    this.renderAll();
   }
 
   clear(): void {
@@ -123,6 +124,14 @@ export class MurmurationChat {
     this.onSend?.(text);
   }
 
+  private renderAll(): void {
+    this.messagesContainer.innerHTML = '';
+    for (const msg of this.messages) {
+      if (!chatBlockList.isBlocked(msg.sender_id)) this.appendMessageElement(msg);
+    }
+    this.scrollToBottom();
+  }
+
   private appendMessageElement(msg: MurmurationChatMessage): void {
     const row = document.createElement('div');
     row.style.cssText = 'font-size:13px;line-height:1.4;word-break:break-word;';
@@ -137,6 +146,13 @@ export class MurmurationChat {
     const nameSpan = document.createElement('span');
     nameSpan.style.cssText = 'color:#88aaff;font-weight:bold;margin-right:6px;';
     nameSpan.textContent = msg.sender_username;
+    nameSpan.style.cursor = 'pointer';
+    nameSpan.title = 'Click to block';
+    nameSpan.addEventListener('click', () => {
+      if (confirm(`Block ${msg.sender_username}? You will no longer see their messages. Unblock with /unblock in chat.`)) {
+        chatBlockList.block(msg.sender_id, msg.sender_username);
+      }
+    });
 
     const msgSpan = document.createElement('span');
     msgSpan.style.cssText = 'color:rgba(255,255,255,0.85);';
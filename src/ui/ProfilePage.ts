@@ -3,6 +3,7 @@ import { ProgressionSystem } from '../systems/ProgressionSystem';
 import { ScoreSystem } from '../systems/ScoreSystem';
 import { AchievementsPanel } from './AchievementsPanel';
 import { authStateManager } from '../services/AuthStateManager';
+import { getRankBand, RATED_MODES, type RatingSummary } from '../../shared/RatingBands';
 
 type TabId = 'overview' | 'stats' | 'cosmetics';
 
@@ -16,6 +17,7 @@ export class ProfilePage {
   private currentTab: TabId = 'overview';
 
   private murmurationInfo: { name: string; tag: string; role: string; formationLevel: number } | null = null;
+  private ratings: RatingSummary[] = [];
   private onClose: (() => void) | null = null;
   private onOpenShop: (() => void) | null = null;
   private onEquip: ((itemId: string) => void) | null = null;
@@ -105,6 +107,11 @@ export class ProfilePage {
     this.murmurationInfo = info;
   }
 
+  setRatings(ratings: RatingSummary[]): void {
+    this.ratings = ratings;
+    if (this.visible && this.currentTab === 'overview') this.renderContent();
+  }
+
   get isVisible(): boolean { return this.visible; }
 
   destroy(): void {
@@ -295,6 +302,25 @@ export class ProfilePage {
       this.contentArea.appendChild(murmSection);
     }
 
+    // Skill ratings
+    const ratingsSection = this.createSection('RATINGS');
+    if (this.ratings.length > 0) {
+      const ratingsGrid = document.createElement('div');
+      ratingsGrid.style.cssText = 'display:grid;grid-template-columns:1fr 1fr 1fr;gap:12px;';
+      for (const rating of this.ratings) {
+        const band = getRankBand(rating.rating, rating.rd);
+        const modeName = (RATED_MODES[rating.mode] ?? rating.mode).toUpperCase();
+        ratingsGrid.appendChild(this.createEquippedCard(modeName, `${rating.rating} · ${band.name}`, band.color));
+      }
+      ratingsSection.appendChild(ratingsGrid);
+    } else {
+      const empty = document.createElement('div');
+      empty.style.cssText = 'padding:12px 16px;background:rgba(0,0,0,0.3);border-radius:8px;font-size:13px;color:rgba(255,255,255,0.5);';
+      empty.textContent = 'Play rated PvP, Heist or MvM matches to earn a rating.';
+      ratingsSection.appendChild(empty);
+    }
+    this.contentArea.appendChild(ratingsSection);
+
     // Highlights
     const stats = this.progression.stats;
     const highlightsSection = this.createSection('HIGHLIGHTS');
@@ -0,0 +1,171 @@
+/**
+ * Replay Controls
+ * Bottom bar for the replay viewer: play/pause, a timeline slider for
+ * scrubbing, playback speed and exit, plus a feed of the chat, PvP hits and
+ * match messages reached on the timeline.
+ */
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+const MAX_FEED_LINES = 8;
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export class ReplayControls {
+  private container: HTMLDivElement;
+  private titleLabel: HTMLDivElement;
+  private playBtn: HTMLButtonElement;
+  private slider: HTMLInputElement;
+  private timeLabel: HTMLSpanElement;
+  private speedSelect: HTMLSelectElement;
+  private feed: HTMLDivElement;
+  private duration = 0;
+  private scrubbing = false;
+
+  private onTogglePlay: (() => void) | null = null;
+  private onSeek: ((offsetMs: number) => void) | null = null;
+  private onSpeedChange: ((speed: number) => void) | null = null;
+  private onExit: (() => void) | null = null;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.id = 'replay-controls';
+    this.container.style.cssText =
+      'position:fixed;left:0;right:0;bottom:0;z-index:9000;' +
+      'display:flex;flex-direction:column;gap:6px;padding:10px 16px 14px;' +
+      'background:linear-gradient(transparent,rgba(0,0,0,0.75));' +
+      "font-family:'Segoe UI',Arial,sans-serif;color:#fff;font-size:13px;";
+
+    this.feed = document.createElement('div');
+    this.feed.style.cssText =
+      'display:flex;flex-direction:column;gap:2px;max-width:460px;' +
+      'text-shadow:0 1px 2px rgba(0,0,0,0.8);pointer-events:none;';
+    this.container.appendChild(this.feed);
+
+    this.titleLabel = document.createElement('div');
+    this.titleLabel.style.cssText = 'font-size:12px;color:rgba(255,255,255,0.6);letter-spacing:1px;';
+    this.container.appendChild(this.titleLabel);
+
+    const bar = document.createElement('div');
+    bar.style.cssText = 'display:flex;align-items:center;gap:10px;';
+
+    const buttonStyle =
+      'padding:6px 12px;background:rgba(255,255,255,0.1);' +
+      'border:1px solid rgba(255,255,255,0.3);border-radius:4px;' +
+      'color:#fff;font-size:13px;font-weight:bold;cursor:pointer;';
+
+    this.playBtn = document.createElement('button');
+    this.playBtn.setAttribute('type', 'button');
+    this.playBtn.setAttribute('aria-label', 'Play or pause replay');
+    this.playBtn.style.cssText = buttonStyle + 'min-width:72px;';
+    this.playBtn.addEventListener('click', () => this.onTogglePlay?.());
+    bar.appendChild(this.playBtn);
+
+    this.slider = document.createElement('input');
+    this.slider.type = 'range';
+    this.slider.min = '0';
+    this.slider.max = '0';
+    this.slider.step = '50';
+    this.slider.value = '0';
+    this.slider.setAttribute('aria-label', 'Replay timeline');
+    this.slider.style.cssText = 'flex:1;cursor:pointer;';
+    this.slider.addEventListener('pointerdown', () => { this.scrubbing = true; });
+    this.slider.addEventListener('input', () => this.onSeek?.(Number(this.slider.value)));
+    this.slider.addEventListener('change', () => {
+      this.scrubbing = false;
+      this.onSeek?.(Number(this.slider.value));
+    });
+    bar.appendChild(this.slider);
+
+    this.timeLabel = document.createElement('span');
+    this.timeLabel.style.cssText = 'min-width:90px;text-align:right;font-variant-numeric:tabular-nums;';
+    bar.appendChild(this.timeLabel);
+
+    this.speedSelect = document.createElement('select');
+    this.speedSelect.setAttribute('aria-label', 'Playback speed');
+    this.speedSelect.style.cssText = buttonStyle;
+    for (const speed of PLAYBACK_SPEEDS) {
+      const option = document.createElement('option');
+      option.value = String(speed);
+      option.textContent = `${speed}x`;
+      option.style.background = '#1a2a3a';
+      this.speedSelect.appendChild(option);
+    }
+    this.speedSelect.value = '1';
+    this.speedSelect.addEventListener('change', () => this.onSpeedChange?.(Number(this.speedSelect.value)));
+    bar.appendChild(this.speedSelect);
+
+    const exitBtn = document.createElement('button');
+    exitBtn.setAttribute('type', 'button');
+    exitBtn.setAttribute('aria-label', 'Exit replay');
+    exitBtn.style.cssText = buttonStyle;
+    exitBtn.textContent = 'EXIT';
+    exitBtn.addEventListener('click', () => this.onExit?.());
+    bar.appendChild(exitBtn);
+
+    this.container.appendChild(bar);
+
+    const hint = document.createElement('div');
+    hint.style.cssText = 'font-size:11px;color:rgba(255,255,255,0.5);';
+    hint.textContent = 'Click the view to look around · WASD — Move · SPACE / SHIFT — Up / Down · Scroll — Camera speed';
+    this.container.appendChild(hint);
+
+    this.setPlaying(false);
+    document.body.appendChild(this.container);
+  }
+
+  setCallbacks(
+    onTogglePlay: () => void,
+    onSeek: (offsetMs: number) => void,
+    onSpeedChange: (speed: number) => void,
+    onExit: () => void,
+  ): void {
+    this.onTogglePlay = onTogglePlay;
+    this.onSeek = onSeek;
+    this.onSpeedChange = onSpeedChange;
+    this.onExit = onExit;
+  }
+
+  setTitle(title: string): void {
+    this.titleLabel.textContent = title;
+  }
+
+  setDuration(durationMs: number): void {
+    this.duration = durationMs;
+    this.slider.max = String(Math.max(0, Math.round(durationMs)));
+  }
+
+  setPlaying(playing: boolean): void {
+    this.playBtn.textContent = playing ? 'PAUSE' : 'PLAY';
+  }
+
+  /** Move the timeline to `offsetMs`; ignored while the user is dragging it */
+  setPosition(offsetMs: number): void {
+    if (!this.scrubbing) {
+      this.slider.value = String(Math.round(offsetMs));
+    }
+    this.timeLabel.textContent = `${formatClock(offsetMs)} / ${formatClock(this.duration)}`;
+  }
+
+  addFeedLine(text: string, color = '#fff'): void {
+    const line = document.createElement('div');
+    line.style.color = color;
+    line.textContent = text;
+    this.feed.appendChild(line);
+    while (this.feed.childElementCount > MAX_FEED_LINES) {
+      this.feed.firstElementChild?.remove();
+    }
+  }
+
+  clearFeed(): void {
+    this.feed.innerHTML = '';
+  }
+
+  dispose(): void {
+    this.container.remove();
+  }
+}
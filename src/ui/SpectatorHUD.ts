@@ -0,0 +1,201 @@
+/**
+ * Spectator HUD
+ * Overlay for the spectator viewer: a scoreboard of the watched match, the
+ * Heist HUD's team scores, clock and trophy status for heists, and a bottom
+ * bar naming the bird the camera follows with controls to switch birds,
+ * follow the trophy carrier or leave, plus a feed of match messages.
+ */
+
+import { HeistHUD, type TrophyStatusLabel } from '../pvp/modes/heist/HeistHUD';
+import { HEIST } from '../utils/Constants';
+import type { SpectatedMatchState } from '../../shared/types';
+
+const MAX_FEED_LINES = 6;
+/** Loose trophies this far from the centre spawn read as LOOSE rather than CENTER */
+const TROPHY_CENTER_RADIUS = 50;
+
+function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+function colorHex(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
+
+/** Team colour, or a colour per player when everyone plays alone */
+function participantColor(team: number | null, index: number): string {
+  const colors = HEIST.TEAM_COLORS;
+  return colorHex(colors[(team ?? index) % colors.length]);
+}
+
+export class SpectatorHUD {
+  private container: HTMLDivElement;
+  private scoreboard: HTMLDivElement;
+  private titleLabel: HTMLDivElement;
+  private followLabel: HTMLSpanElement;
+  private carrierBtn: HTMLButtonElement;
+  private feed: HTMLDivElement;
+  /** Created for the first heist state; other modes only use the scoreboard */
+  private heistHUD: HeistHUD | null = null;
+
+  private onCycle: ((step: number) => void) | null = null;
+  private onToggleCarrier: (() => void) | null = null;
+  private onExit: (() => void) | null = null;
+
+  constructor() {
+    this.scoreboard = document.createElement('div');
+    this.scoreboard.style.cssText =
+      'position:fixed;top:70px;right:16px;z-index:9000;min-width:200px;' +
+      'padding:10px 14px;background:rgba(0,0,0,0.55);border-radius:6px;' +
+      "font-family:'Segoe UI',Arial,sans-serif;color:#fff;font-size:13px;pointer-events:none;";
+    document.body.appendChild(this.scoreboard);
+
+    this.container = document.createElement('div');
+    this.container.id = 'spectator-hud';
+    this.container.style.cssText =
+      'position:fixed;left:0;right:0;bottom:0;z-index:9000;' +
+      'display:flex;flex-direction:column;gap:6px;padding:10px 16px 14px;' +
+      'background:linear-gradient(transparent,rgba(0,0,0,0.75));' +
+      "font-family:'Segoe UI',Arial,sans-serif;color:#fff;font-size:13px;";
+
+    this.feed = document.createElement('div');
+    this.feed.style.cssText =
+      'display:flex;flex-direction:column;gap:2px;max-width:460px;' +
+      'text-shadow:0 1px 2px rgba(0,0,0,0.8);pointer-events:none;';
+    this.container.appendChild(this.feed);
+
+    this.titleLabel = document.createElement('div');
+    this.titleLabel.style.cssText = 'font-size:12px;color:rgba(255,255,255,0.6);letter-spacing:1px;';
+    this.container.appendChild(this.titleLabel);
+
+    const bar = document.createElement('div');
+    bar.style.cssText = 'display:flex;align-items:center;gap:10px;';
+
+    const buttonStyle =
+      'padding:6px 12px;background:rgba(255,255,255,0.1);' +
+      'border:1px solid rgba(255,255,255,0.3);border-radius:4px;' +
+      'color:#fff;font-size:13px;font-weight:bold;cursor:pointer;';
+    const addButton = (label: string, ariaLabel: string, action: () => void): HTMLButtonElement => {
+      const btn = document.createElement('button');
+      btn.setAttribute('type', 'button');
+      btn.setAttribute('aria-label', ariaLabel);
+      btn.style.cssText = buttonStyle;
+      btn.textContent = label;
+      btn.addEventListener('click', action);
+      bar.appendChild(btn);
+      return btn;
+    };
+
+    addButton('◀', 'Follow the previous bird', () => this.onCycle?.(-1));
+    this.followLabel = document.createElement('span');
+    this.followLabel.style.cssText = 'min-width:200px;text-align:center;font-weight:bold;';
+    bar.appendChild(this.followLabel);
+    addButton('▶', 'Follow the next bird', () => this.onCycle?.(1));
+    this.carrierBtn = addButton('FOLLOW CARRIER', 'Follow whoever carries the trophy', () => this.onToggleCarrier?.());
+    this.carrierBtn.style.display = 'none';
+
+    const spacer = document.createElement('span');
+    spacer.style.flex = '1';
+    bar.appendChild(spacer);
+    addButton('EXIT', 'Stop spectating', () => this.onExit?.());
+    this.container.appendChild(bar);
+
+    const hint = document.createElement('div');
+    hint.style.cssText = 'font-size:11px;color:rgba(255,255,255,0.5);';
+    hint.textContent = '← / → — Switch bird · C — Follow trophy carrier · ESC — Leave';
+    this.container.appendChild(hint);
+
+    document.body.appendChild(this.container);
+  }
+
+  setCallbacks(onCycle: (step: number) => void, onToggleCarrier: () => void, onExit: () => void): void {
+    this.onCycle = onCycle;
+    this.onToggleCarrier = onToggleCarrier;
+    this.onExit = onExit;
+  }
+
+  setTitle(title: string): void {
+    this.titleLabel.textContent = title;
+  }
+
+  /** Name the followed bird; `followingCarrier` marks the carrier-cam as on */
+  setFollowing(name: string | null, followingCarrier: boolean): void {
+    this.followLabel.textContent = name ? `Following ${name}` : 'Waiting for players…';
+    this.carrierBtn.style.background = followingCarrier ? 'rgba(255,215,0,0.35)' : 'rgba(255,255,255,0.1)';
+  }
+
+  /** Redraw from the server's scoreboard for the match */
+  update(match: SpectatedMatchState): void {
+    const ranked = match.participants
+      .map((p, index) => ({ ...p, color: participantColor(p.team, index) }))
+      .sort((a, b) => b.score - a.score);
+
+    const rows: string[] = [
+      `<div style="display:flex;justify-content:space-between;gap:12px;font-weight:bold;margin-bottom:6px;">` +
+        `<span>${match.phase.toUpperCase()}</span><span>${formatClock(match.timeRemaining)}</span></div>`,
+    ];
+    if (match.teamScores) {
+      rows.push(
+        `<div style="font-size:18px;font-weight:bold;margin-bottom:6px;">` +
+          match.teamScores
+            .map((score, team) => `<span style="color:${participantColor(team, team)}">${score}</span>`)
+            .join(' <span style="color:rgba(255,255,255,0.5)">—</span> ') +
+          '</div>',
+      );
+    }
+    for (const p of ranked) {
+      const name = p.username.replace(/[<>&]/g, '');
+      rows.push(
+        `<div style="display:flex;justify-content:space-between;gap:12px;">` +
+          `<span style="color:${p.color}">${name}${p.isBot ? ' (bot)' : ''}</span><span>${p.score}</span></div>`,
+      );
+    }
+    this.scoreboard.innerHTML = rows.join('');
+
+    if (match.kind === 'heist') this.updateHeist(match);
+    this.carrierBtn.style.display = match.kind === 'heist' ? '' : 'none';
+  }
+
+  private updateHeist(match: SpectatedMatchState): void {
+    if (!this.heistHUD) {
+      this.heistHUD = new HeistHUD(`Heist ${match.mode.toUpperCase()}`);
+      this.heistHUD.show();
+    }
+    const hud = this.heistHUD;
+
+    hud.updateScores((match.teamScores ?? []).map((score, team) => ({
+      score,
+      color: participantColor(team, team),
+      isLocal: false,
+    })));
+    hud.updateTimer(match.phase === 'overtime' ? 0 : match.timeRemaining);
+    if (match.phase === 'countdown') hud.showCountdown(match.timeRemaining);
+    else hud.hideCountdown();
+
+    const trophies = match.trophies ?? [];
+    let status: TrophyStatusLabel = 'CENTER';
+    if (trophies.some(t => t.carrierId)) {
+      status = 'CARRIED';
+    } else if (trophies.some(t => t.state === 'falling' || Math.hypot(t.position.x, t.position.z) > TROPHY_CENTER_RADIUS)) {
+      status = 'LOOSE';
+    }
+    hud.updateTrophyStatus(status);
+  }
+
+  addFeedLine(text: string, color = '#fff'): void {
+    const line = document.createElement('div');
+    line.style.color = color;
+    line.textContent = text;
+    this.feed.appendChild(line);
+    while (this.feed.childElementCount > MAX_FEED_LINES) {
+      this.feed.firstElementChild?.remove();
+    }
+  }
+
+  dispose(): void {
+    this.heistHUD?.dispose();
+    this.scoreboard.remove();
+    this.container.remove();
+  }
+}
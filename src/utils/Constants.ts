@@ -598,10 +598,14 @@ export const PVP = {
   MIN_PLAYERS: 2,
   MAX_PLAYERS: 8,
 
-  // Bot difficulty (0-1 scale: 0 = easy, 1 = hard)
+  // Bot skill at Normal; other tiers scale these (see shared/BotDifficulty)
   BOT_REACTION_TIME: 0.5,      // Seconds of delay before bots react
   BOT_ACCURACY: 0.6,           // 0-1 poop accuracy
   BOT_SPEED_FACTOR: 0.8,       // Fraction of max speed bots use
+  BOT_DODGE_CHANCE: 0.6,       // Chance per second of a dodge flip while threatened
+  BOT_DODGE_DURATION: 0.6,     // Seconds a dodge flip lasts
+  BOT_DODGE_SPEED: 20,         // Sideways units/second during a dodge
+  BOT_THREAT_RADIUS: 18,       // A chaser this close makes a bot consider dodging
 
   // --- Poop Tag ---
   TAG_ROUND_DURATION: 120,     // 2 minutes
@@ -687,13 +691,17 @@ export const HEIST = {
   SLAM_KNOCKBACK_DURATION: 0.5,       // seconds of reduced control for carrier
   SLAM_ATTACKER_RECOIL: 20,           // impulse applied to attacker (bounce off)
   SLAM_COOLDOWN: 1.5,                 // seconds before attacker can slam again
+  ASSISTED_SLAM_SPEED_THRESHOLD: 0.5, // speed fraction needed with a teammate closing in
+  SLAM_ASSIST_RADIUS: 20,             // teammate this close to the carrier assists the slam
 
-  // Bot AI
+  // Teams
+  PASS_RANGE: 40,                     // max distance to hand the trophy to a teammate
+
+  // Bot AI (Normal tier)
   BOT_REACTION_DELAY: 0.3,            // seconds before bot reacts to state changes
   BOT_FLIGHT_PRECISION: 0.75,         // 0-1, how directly bot flies to targets
   BOT_SLAM_ACCURACY: 0.6,             // 0-1, probability bot lines up a good slam approach
   BOT_SPEED_UTILIZATION: 0.8,         // fraction of max speed bot typically flies at
-  BOT_DIFFICULTY: 'medium' as const,  // 'easy' | 'medium' | 'hard' preset
 
   // Spawn positions
   PLAYER_SPAWN_DISTANCE: 200,         // distance from center for starting positions
@@ -702,6 +710,9 @@ export const HEIST = {
   // Player colors (1v1)
   PLAYER_1_COLOR: 0x4488ff,           // blue
   PLAYER_2_COLOR: 0xff4444,           // red
+
+  // Team colors, by team index (free-for-all uses one per bird)
+  TEAM_COLORS: [0x4488ff, 0xff4444, 0x44dd66, 0xffcc33, 0xaa66ff, 0xff8833, 0x33dddd, 0xff66cc],
 };
 
 // ============================================================================
@@ -764,8 +775,7 @@ export const MURMURATION = {
 
 export const MVM = {
   // Matchmaking
-  MATCHMAKING_TIMEOUT_MS: 60_000,     // 60s before fallback/bot fill
-  FORMATION_RANGE: 2,                 // ±2 Formation level matchmaking range
+  MATCHMAKING_TIMEOUT_MS: 120_000,    // Give up after 2 min (the server's rating window is fully open after ~70s)
 
   // Team sizes
   TEAM_SIZES: [2, 3, 5] as readonly number[],
@@ -167,11 +167,12 @@ export class BuildingLOD {
     width: number,
     height: number,
     depth: number,
-    color: number
+    color: number,
+    rng: () => number = Math.random,
   ): THREE.LOD {
     const lod = new THREE.LOD();
     const pool = getTexturePool();
-    const texPair = pool[Math.floor(Math.random() * pool.length)];
+    const texPair = pool[Math.floor(rng() * pool.length)];
 
     // Only add windows to buildings taller than 8 units (skip tiny structures)
     const hasWindows = height > 8;
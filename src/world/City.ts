@@ -2,6 +2,8 @@ import * as THREE from 'three';
 import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 import { BuildingLOD } from './BuildingLOD';
 import { createToonMaterial } from '../rendering/ToonUtils';
+import { BuildingFootprint, BuildingPalette, generateBuildingFootprints } from '../../shared/CityLayout';
+import { DEFAULT_WORLD_SEED, SeededRandom, createSeededRandom, deriveSeed } from '../../shared/WorldSeed';
 
 export interface BuildingData {
   position: THREE.Vector3;
@@ -13,6 +15,27 @@ export interface BuildingData {
   cullRadius: number;     // Pre-computed bounding sphere radius for frustum culling
 }
 
+/** Building colors per footprint palette (layout lives in shared/CityLayout) */
+const PALETTES: Record<BuildingPalette, number[]> = {
+  downtown: [0xE8846B, 0x5FB3B3, 0xF5C842, 0x98D4A6, 0xE88FAB],
+  financial: [0x7FBBDC, 0xB088D4, 0x5FB3B3, 0xF5C842],
+  parkFacility: [0xF5DEB3, 0xDEB887, 0xFFD700],
+  campus: [0xE08870, 0xD4765A, 0xCC8866],
+  suburb: [0xFFB347, 0xFF6B6B, 0x77DD77, 0x85C1E9, 0xC39BD3],
+  marketStall: [0xFF6B6B, 0x77DD77, 0x85C1E9, 0xFFD700, 0xFF69B4, 0xDDA0DD],
+  marketBackground: [0xDEB887, 0xF5DEB3, 0xD2B48C],
+  mall: [0xFFB6C1, 0xFFDAB9, 0xFFA07A],
+  stadium: [0xB0C4DE, 0xA9C4D7, 0xC0D8E8],
+  boardwalk: [0xFFD700, 0xFFA500, 0xFFB347],
+  harbor: [0xCD853F, 0xD2956A, 0xC4885A],
+  industrial: [0xF0A050, 0xE87040, 0xD4A050, 0xC0A060],
+  warehouse: [0xD4A76A, 0xC49660, 0xE0B87A],
+  mausoleum: [0x666666],
+  terminal: [0xE0E0E0, 0xD0D0D0],
+  hangar: [0x888888],
+  neon: [0xFF69B4, 0x87CEEB, 0xFFD700, 0xDDA0DD, 0x98FB98],
+};
+
 export interface DistrictData {
   name: string;
   minX: number;
@@ -49,8 +72,49 @@ export class City {
   private buildingLights: THREE.PointLight[] = [];
   private windowMeshes: THREE.Mesh[] = [];
 
-  constructor() {
+  /** World seed the current layout was generated from */
+  seed: number;
+  /** Decoration randomness (colors, trees, props) — buildings come from the layout */
+  private rng: SeededRandom;
+
+  constructor(seed: number = DEFAULT_WORLD_SEED) {
+    this.seed = seed;
+    this.rng = createSeededRandom(deriveSeed(seed, 'city-decor'));
     this.defineDistricts();
+    this.build();
+  }
+
+  /**
+   * Regenerate the city for a different world seed (e.g. the server's).
+   * Arrays are cleared in place so systems holding `buildings` keep a valid reference.
+   */
+  rebuild(seed: number): void {
+    if (seed === this.seed) return;
+
+    for (const child of [...this.group.children]) {
+      this.group.remove(child);
+      child.traverse((obj) => {
+        if (!(obj instanceof THREE.Mesh)) return;
+        obj.geometry.dispose();
+        const materials = Array.isArray(obj.material) ? obj.material : [obj.material];
+        for (const mat of materials) mat.dispose(); // shared window textures stay alive
+      });
+    }
+    this.buildings.length = 0;
+    this.streetPaths.length = 0;
+    this.buildingLights.length = 0;
+    this.windowMeshes.length = 0;
+
+    this.seed = seed;
+    this.rng = createSeededRandom(deriveSeed(seed, 'city-decor'));
+    this.build();
+  }
+
+  private build(): void {
+    // Seeded building footprints shared with the server
+    for (const footprint of generateBuildingFootprints(this.seed)) {
+      this.addBuilding(footprint);
+    }
 
     // Build all districts
     this.buildDowntownCore();
@@ -126,22 +190,6 @@ export class City {
   /* ── DOWNTOWN CORE (tall skyscrapers, dense grid) ────────── */
 
   private buildDowntownCore(): void {
-    const colors = [0xE8846B, 0x5FB3B3, 0xF5C842, 0x98D4A6, 0xE88FAB];
-    const centerX = -50;
-    const centerZ = 350;
-
-    // Dense grid of skyscrapers - reduced density for performance
-    for (let x = -220; x <= 120; x += 50) {  // Increased spacing from 35 to 50
-      for (let z = 230; z <= 470; z += 55) {  // Increased spacing from 40 to 55
-        if (Math.random() < 0.25) continue; // More gaps for streets (was 0.15)
-
-        const h = 40 + Math.random() * 80;  // Very tall buildings
-        const w = 15 + Math.random() * 12;
-        const d = 15 + Math.random() * 12;
-        this.addBuilding(x, z, w, h, d, colors, 'Downtown Core');
-      }
-    }
-
     // Major streets
     for (let z = 240; z <= 460; z += 60) {
       this.streetPaths.push([
@@ -160,19 +208,6 @@ export class City {
   /* ── FINANCIAL DISTRICT (glass towers, plazas) ──────────── */
 
   private buildFinancialDistrict(): void {
-    const colors = [0x7FBBDC, 0xB088D4, 0x5FB3B3, 0xF5C842];
-
-    for (let x = -280; x <= -20; x += 60) {  // Increased spacing from 45 to 60
-      for (let z = -80; z <= 180; z += 65) {  // Increased spacing from 50 to 65
-        if (Math.random() < 0.3) continue;  // More gaps (was 0.2)
-
-        const h = 50 + Math.random() * 90;  // Extra tall, modern towers
-        const w = 18 + Math.random() * 10;
-        const d = 18 + Math.random() * 10;
-        this.addBuilding(x, z, w, h, d, colors, 'Financial District');
-      }
-    }
-
     // Wide boulevards
     this.streetPaths.push(
       [new THREE.Vector3(-290, 0.1, 0), new THREE.Vector3(-10, 0.1, 0)],
@@ -205,23 +240,13 @@ export class City {
 
     // Reduced tree count for better performance (was 80)
     for (let i = 0; i < 30; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const dist = 60 + Math.random() * 80;
+      const angle = this.rng() * Math.PI * 2;
+      const dist = 60 + this.rng() * 80;
       const tx = 300 + Math.cos(angle) * dist;
       const tz = 350 + Math.sin(angle) * dist;
       this.addTree(tx, tz);
     }
 
-    // Park buildings (cafes, pavilions)
-    const facColors = [0xF5DEB3, 0xDEB887, 0xFFD700];
-    for (let i = 0; i < 12; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const dist = 110 + Math.random() * 25;
-      const bx = 300 + Math.cos(angle) * dist;
-      const bz = 350 + Math.sin(angle) * dist;
-      this.addBuilding(bx, bz, 8, 4 + Math.random() * 4, 8, facColors, 'Park & Pond');
-    }
-
     // Walking paths — start from pond edge (radius 45 + 5 margin), NOT the center
     const pondCX = 300, pondCZ = 350, pondEdge = 52;
     for (let i = 0; i < 6; i++) {
@@ -236,25 +261,6 @@ export class City {
   /* ── UNIVERSITY CAMPUS (academic buildings, quads) ─────── */
 
   private buildUniversityCampus(): void {
-    const brickColors = [0xE08870, 0xD4765A, 0xCC8866];
-
-    // Academic buildings in organized layout
-    const buildingPositions: [number, number, number, number][] = [
-      [500, 250, 40, 25],  // Library
-      [580, 250, 35, 20],  // Science Hall
-      [650, 250, 30, 18],  // Arts Building
-      [500, 350, 32, 22],  // Student Center
-      [580, 350, 28, 16],  // Admin Building
-      [650, 350, 35, 24],  // Engineering
-      [500, 450, 30, 20],  // Dorms
-      [580, 450, 30, 20],  // Dorms
-      [650, 450, 25, 15],  // Gym
-    ];
-
-    for (const [x, z, h, w] of buildingPositions) {
-      this.addBuilding(x, z, w, h, w, brickColors, 'University Campus');
-    }
-
     // Quad paths
     this.streetPaths.push(
       [new THREE.Vector3(480, 0.1, 230), new THREE.Vector3(670, 0.1, 230)],
@@ -267,20 +273,6 @@ export class City {
   /* ── SUBURBS (residential houses, low density) ──────────── */
 
   private buildSuburbs(): void {
-    const houseColors = [0xFFB347, 0xFF6B6B, 0x77DD77, 0x85C1E9, 0xC39BD3];
-
-    // Grid of small houses - reduced density for performance
-    for (let x = -720; x <= -280; x += 40) {  // Increased spacing from 25 to 40
-      for (let z = 220; z <= 480; z += 40) {  // Increased spacing from 25 to 40
-        if (Math.random() < 0.4) continue; // More yards/gaps (was 0.3)
-
-        const h = 5 + Math.random() * 4;  // Small houses
-        const w = 8 + Math.random() * 4;
-        const d = 8 + Math.random() * 4;
-        this.addBuilding(x, z, w, h, d, houseColors, 'Suburbs West');
-      }
-    }
-
     // Residential streets
     for (let z = 230; z <= 470; z += 50) {
       this.streetPaths.push([
@@ -293,23 +285,6 @@ export class City {
   /* ── MARKET STREET (colorful stalls, busy) ──────────────── */
 
   private buildMarketStreet(): void {
-    const stallColors = [0xFF6B6B, 0x77DD77, 0x85C1E9, 0xFFD700, 0xFF69B4, 0xDDA0DD];
-    const bgColors = [0xDEB887, 0xF5DEB3, 0xD2B48C];
-
-    // Market stalls in rows - reduced density for performance
-    for (let x = -720; x <= -340; x += 25) {  // Increased spacing from 15 to 25
-      for (let z = -80; z <= 180; z += 35) {  // Increased spacing from 20 to 35
-        if (Math.random() < 0.3) continue;  // Skip some stalls
-        this.addBuilding(x, z, 6, 3 + Math.random() * 3, 6, stallColors, 'Market Street');
-      }
-    }
-
-    // Background buildings
-    for (let z = -70; z <= 170; z += 40) {
-      this.addBuilding(-730, z, 12, 12 + Math.random() * 8, 12, bgColors, 'Market Street');
-      this.addBuilding(-320, z, 12, 10 + Math.random() * 8, 12, bgColors, 'Market Street');
-    }
-
     // Market streets
     for (let z = -70; z <= 170; z += 50) {
       this.streetPaths.push([
@@ -322,20 +297,6 @@ export class City {
   /* ── SHOPPING PLAZA (malls, stores) ─────────────────────── */
 
   private buildShoppingPlaza(): void {
-    const mallColors = [0xFFB6C1, 0xFFDAB9, 0xFFA07A];
-
-    // Large mall complex
-    this.addBuilding(100, 50, 80, 15, 120, mallColors, 'Shopping Plaza');
-    this.addBuilding(220, 50, 70, 12, 100, mallColors, 'Shopping Plaza');
-
-    // Smaller stores - reduced density for performance
-    for (let x = 20; x <= 320; x += 50) {  // Increased spacing from 35 to 50
-      for (let z = -80; z <= -20; z += 45) {  // Increased spacing from 30 to 45
-        if (Math.random() < 0.2) continue;
-        this.addBuilding(x, z, 20, 8 + Math.random() * 5, 20, mallColors, 'Shopping Plaza');
-      }
-    }
-
     // Parking lot paths
     this.streetPaths.push(
       [new THREE.Vector3(10, 0.1, 0), new THREE.Vector3(330, 0.1, 0)],
@@ -346,16 +307,6 @@ export class City {
   /* ── STADIUM DISTRICT (arena, sports complex) ───────────── */
 
   private buildStadiumDistrict(): void {
-    const concreteColors = [0xB0C4DE, 0xA9C4D7, 0xC0D8E8];
-
-    // Surrounding buildings - reduced density for performance
-    for (let x = 370; x <= 720; x += 70) {  // Increased spacing from 50 to 70
-      for (let z = -80; z <= 180; z += 70) {  // Increased spacing from 50 to 70
-        if (x > 450 && x < 650 && z > -20 && z < 120) continue; // Leave space for stadium
-        this.addBuilding(x, z, 25, 15 + Math.random() * 12, 25, concreteColors, 'Stadium District');
-      }
-    }
-
     // Stadium streets
     this.streetPaths.push(
       [new THREE.Vector3(360, 0.1, -60), new THREE.Vector3(730, 0.1, -60)],
@@ -370,8 +321,6 @@ export class City {
   /* ── BOARDWALK & BEACH (seaside, tourism) ───────────────── */
 
   private buildBoardwalkAndBeach(): void {
-    const boardwalkColors = [0xFFD700, 0xFFA500, 0xFFB347];
-
     // Boardwalk platform
     const plank = new THREE.Mesh(
       new THREE.BoxGeometry(700, 2, 80),
@@ -391,13 +340,6 @@ export class City {
     sand.receiveShadow = true;
     this.group.add(sand);
 
-    // Boardwalk shops - reduced density for performance
-    for (let x = -700; x <= -50; x += 60) {  // Increased spacing from 40 to 60
-      if (Math.random() < 0.3) continue;
-      this.addBuilding(x, 590, 12, 8 + Math.random() * 6, 15, boardwalkColors, 'Boardwalk & Beach');
-      this.addBuilding(x, 650, 10, 6 + Math.random() * 5, 12, boardwalkColors, 'Boardwalk & Beach');
-    }
-
     // Boardwalk path
     this.streetPaths.push([
       new THREE.Vector3(-710, 0.1, 620),
@@ -408,16 +350,6 @@ export class City {
   /* ── HARBOR (docks, ships, cranes) ──────────────────────── */
 
   private buildHarborDistrict(): void {
-    const warehouseColors = [0xCD853F, 0xD2956A, 0xC4885A];
-
-    // Warehouses along docks - reduced density for performance
-    for (let x = 50; x <= 700; x += 120) {  // Increased spacing from 80 to 120
-      for (let z = 520; z <= 680; z += 100) {  // Increased spacing from 70 to 100
-        if (Math.random() < 0.2) continue;
-        this.addBuilding(x, z, 30, 15 + Math.random() * 10, 40, warehouseColors, 'Harbor');
-      }
-    }
-
     // Dock platforms
     for (let x = 100; x <= 650; x += 120) {
       const dock = new THREE.Mesh(
@@ -442,23 +374,10 @@ export class City {
   /* ── INDUSTRIAL ZONE (factories, smokestacks) ───────────── */
 
   private buildIndustrialZone(): void {
-    const industrialColors = [0xF0A050, 0xE87040, 0xD4A050, 0xC0A060];
-
-    // Large factory buildings - reduced density for performance
-    for (let x = -720; x <= -240; x += 80) {  // Increased spacing from 60 to 80
-      for (let z = -380; z <= -120; z += 80) {  // Increased spacing from 60 to 80
-        if (Math.random() < 0.2) continue;
-        const h = 20 + Math.random() * 25;
-        const w = 35 + Math.random() * 15;
-        const d = 35 + Math.random() * 15;
-        this.addBuilding(x, z, w, h, d, industrialColors, 'Industrial Zone');
-      }
-    }
-
     // Smokestacks
     for (let i = 0; i < 15; i++) {
-      const x = -700 + Math.random() * 440;
-      const z = -370 + Math.random() * 240;
+      const x = -700 + this.rng() * 440;
+      const z = -370 + this.rng() * 240;
       const smokestack = new THREE.Mesh(
         new THREE.CylinderGeometry(3, 4, 60, 8),
         createToonMaterial(0x8B7355),
@@ -481,18 +400,6 @@ export class City {
   /* ── WAREHOUSE DISTRICT (storage, shipping) ─────────────── */
 
   private buildWarehouseDistrict(): void {
-    const colors = [0xD4A76A, 0xC49660, 0xE0B87A];
-
-    for (let x = -180; x <= 280; x += 75) {  // Increased spacing from 55 to 75
-      for (let z = -380; z <= -120; z += 70) {  // Increased spacing from 50 to 70
-        if (Math.random() < 0.2) continue;
-        const h = 12 + Math.random() * 12;
-        const w = 30 + Math.random() * 15;
-        const d = 30 + Math.random() * 15;
-        this.addBuilding(x, z, w, h, d, colors, 'Warehouse District');
-      }
-    }
-
     // Warehouse roads
     this.streetPaths.push(
       [new THREE.Vector3(-190, 0.1, -250), new THREE.Vector3(290, 0.1, -250)],
@@ -520,27 +427,20 @@ export class City {
 
     // Small tombstones scattered - reduced for performance (was 150)
     for (let i = 0; i < 50; i++) {
-      const x = 330 + Math.random() * 390;
-      const z = -380 + Math.random() * 260;
+      const x = 330 + this.rng() * 390;
+      const z = -380 + this.rng() * 260;
       const tomb = new THREE.Mesh(
         new THREE.BoxGeometry(1, 2, 0.3),
-        createToonMaterial(tombColors[Math.floor(Math.random() * tombColors.length)]),
+        createToonMaterial(tombColors[Math.floor(this.rng() * tombColors.length)]),
       );
       tomb.position.set(x, 1, z);
       this.group.add(tomb);
     }
 
-    // Mausoleums
-    for (let i = 0; i < 8; i++) {
-      const x = 350 + Math.random() * 350;
-      const z = -360 + Math.random() * 220;
-      this.addBuilding(x, z, 8, 6, 8, [0x666666], 'Cemetery');
-    }
-
     // Trees - reduced for performance (was 40)
     for (let i = 0; i < 15; i++) {
-      const x = 330 + Math.random() * 390;
-      const z = -380 + Math.random() * 260;
+      const x = 330 + this.rng() * 390;
+      const z = -380 + this.rng() * 260;
       this.addTree(x, z);
     }
 
@@ -574,15 +474,6 @@ export class City {
     runway2.position.set(-450, 0.05, -500);
     this.group.add(runway2);
 
-    // Terminal
-    const terminalColors = [0xE0E0E0, 0xD0D0D0];
-    this.addBuilding(0, -550, 120, 18, 80, terminalColors, 'Airport');
-
-    // Hangars
-    for (let x = -600; x <= -300; x += 80) {
-      this.addBuilding(x, -650, 40, 15, 50, [0x888888], 'Airport');
-    }
-
     // Airport roads and walkways
     this.streetPaths.push(
       [new THREE.Vector3(-730, 0.1, -500), new THREE.Vector3(280, 0.1, -500)],
@@ -597,18 +488,6 @@ export class City {
   /* ── ENTERTAINMENT DISTRICT (theaters, clubs) ───────────── */
 
   private buildEntertainmentDistrict(): void {
-    const neonColors = [0xFF69B4, 0x87CEEB, 0xFFD700, 0xDDA0DD, 0x98FB98];
-
-    for (let x = 330; x <= 720; x += 70) {  // Increased spacing from 50 to 70
-      for (let z = -680; z <= -420; z += 70) {  // Increased spacing from 50 to 70
-        if (Math.random() < 0.25) continue;
-        const h = 15 + Math.random() * 20;
-        const w = 20 + Math.random() * 12;
-        const d = 20 + Math.random() * 12;
-        this.addBuilding(x, z, w, h, d, neonColors, 'Entertainment');
-      }
-    }
-
     // Entertainment streets
     this.streetPaths.push(
       [new THREE.Vector3(320, 0.1, -500), new THREE.Vector3(730, 0.1, -500)],
@@ -1116,15 +995,13 @@ export class City {
 
   /* ── Helpers ────────────────────────────────────────────── */
 
-  private addBuilding(
-    x: number, z: number,
-    w: number, h: number, d: number,
-    colors: number[], district: string,
-  ): void {
-    const color = colors[Math.floor(Math.random() * colors.length)];
+  private addBuilding(footprint: BuildingFootprint): void {
+    const { x, z, width: w, height: h, depth: d, district } = footprint;
+    const colors = PALETTES[footprint.palette];
+    const color = colors[Math.floor(this.rng() * colors.length)];
 
     // PHASE 2: Use LOD system for buildings (reduces polygon count 60-80% for distant buildings)
-    const lod = BuildingLOD.create(w, h, d, color);
+    const lod = BuildingLOD.create(w, h, d, color, this.rng);
     lod.position.set(x, h / 2, z);
     this.group.add(lod);
 
@@ -1155,7 +1032,7 @@ export class City {
       const y = floor * windowSpacing;
 
       // Random chance for this floor to be lit
-      const isLit = Math.random() > 0.3;
+      const isLit = this.rng() > 0.3;
 
       // Front and back faces
       for (let wx = -w / 2 + 1; wx < w / 2; wx += windowSpacing) {
@@ -1200,12 +1077,12 @@ export class City {
   }
 
   private addTree(x: number, z: number): void {
-    const treeType = Math.random();
-    const height = 4 + Math.random() * 4;
-    const lean = (Math.random() - 0.5) * 0.08;
+    const treeType = this.rng();
+    const height = 4 + this.rng() * 4;
+    const lean = (this.rng() - 0.5) * 0.08;
 
     // Varied bark color
-    const barkColor = new THREE.Color().setHSL(0.08, 0.45, 0.18 + Math.random() * 0.1);
+    const barkColor = new THREE.Color().setHSL(0.08, 0.45, 0.18 + this.rng() * 0.1);
     const trunk = new THREE.Mesh(
       new THREE.CylinderGeometry(0.3, 0.5, height, 5),
       createToonMaterial(barkColor),
@@ -1216,15 +1093,15 @@ export class City {
     this.group.add(trunk);
 
     // Varied canopy color (greens with occasional warm tones)
-    const canopyHue = 0.25 + Math.random() * 0.15;
-    const canopySat = 0.4 + Math.random() * 0.3;
-    const canopyLight = 0.22 + Math.random() * 0.15;
+    const canopyHue = 0.25 + this.rng() * 0.15;
+    const canopySat = 0.4 + this.rng() * 0.3;
+    const canopyLight = 0.22 + this.rng() * 0.15;
     const canopyColor = new THREE.Color().setHSL(canopyHue, canopySat, canopyLight);
     const canopyMat = createToonMaterial(canopyColor);
 
     if (treeType < 0.35) {
       // Evergreen (cone shape)
-      const r = 2 + Math.random() * 1.5;
+      const r = 2 + this.rng() * 1.5;
       const coneH = height * 0.8;
       const canopy = new THREE.Mesh(new THREE.ConeGeometry(r, coneH, 6), canopyMat);
       canopy.position.set(x, height + coneH * 0.3, z);
@@ -1232,21 +1109,21 @@ export class City {
       this.group.add(canopy);
     } else if (treeType < 0.7) {
       // Full deciduous (2-3 overlapping spheres)
-      const count = 2 + Math.floor(Math.random() * 2);
+      const count = 2 + Math.floor(this.rng() * 2);
       for (let s = 0; s < count; s++) {
-        const r = 2 + Math.random() * 1.5;
+        const r = 2 + this.rng() * 1.5;
         const canopy = new THREE.Mesh(new THREE.SphereGeometry(r, 6, 5), canopyMat);
         canopy.position.set(
-          x + (Math.random() - 0.5) * 1.5,
+          x + (this.rng() - 0.5) * 1.5,
           height + r * 0.3 + s * 0.5,
-          z + (Math.random() - 0.5) * 1.5,
+          z + (this.rng() - 0.5) * 1.5,
         );
         canopy.castShadow = true;
         this.group.add(canopy);
       }
     } else {
       // Bushy irregular (icosahedron)
-      const r = 2.5 + Math.random() * 2;
+      const r = 2.5 + this.rng() * 2;
       const canopy = new THREE.Mesh(new THREE.IcosahedronGeometry(r, 1), canopyMat);
       canopy.position.set(x, height + r * 0.4, z);
       canopy.castShadow = true;
@@ -0,0 +1,250 @@
+-- ============================================================================
+-- Server-authoritative Economy Ledger
+-- The game server (service key) is now the only writer of banked coins, XP
+-- and feathers. Every change is recorded in economy_ledger and applied to
+-- profiles atomically by apply_ledger_entry().
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS economy_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('bank', 'pvp_steal', 'pvp_stolen', 'heist_reward', 'mvm_reward', 'admin', 'shop', 'murmuration')),
+  coins INTEGER NOT NULL DEFAULT 0,
+  xp INTEGER NOT NULL DEFAULT 0,
+  feathers INTEGER NOT NULL DEFAULT 0,
+  carried INTEGER NOT NULL DEFAULT 0,
+  ref TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS economy_ledger_user_idx ON economy_ledger (user_id, created_at DESC);
+
+ALTER TABLE economy_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Players may read their own history; nobody but the service role may write.
+CREATE POLICY "Users can view their own ledger entries"
+  ON economy_ledger FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Record a ledger entry and apply it to the profile balance in one transaction.
+-- Level is recomputed from total XP using the client curve
+-- (base 100 XP, x1.15 per level, cap 50).
+CREATE OR REPLACE FUNCTION apply_ledger_entry(
+  p_user_id UUID,
+  p_reason TEXT,
+  p_coins INTEGER,
+  p_xp INTEGER,
+  p_feathers INTEGER,
+  p_carried INTEGER,
+  p_ref TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  new_xp INTEGER;
+  new_level INTEGER := 1;
+  level_req INTEGER := 100;
+  level_total INTEGER := 100;
+BEGIN
+  INSERT INTO economy_ledger (user_id, reason, coins, xp, feathers, carried, ref)
+  VALUES (p_user_id, p_reason, p_coins, p_xp, p_feathers, p_carried, p_ref);
+
+  IF p_coins = 0 AND p_xp = 0 AND p_feathers = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE profiles
+  SET coins = GREATEST(coins + p_coins, 0),
+      xp = GREATEST(xp + p_xp, 0),
+      feathers = GREATEST(feathers + p_feathers, 0),
+      updated_at = NOW()
+  WHERE id = p_user_id
+  RETURNING xp INTO new_xp;
+
+  IF p_xp <> 0 AND new_xp IS NOT NULL THEN
+    WHILE new_level < 50 AND new_xp >= level_total LOOP
+      new_level := new_level + 1;
+      level_req := ROUND(level_req * 1.15);
+      level_total := level_total + level_req;
+    END LOOP;
+    UPDATE profiles SET level = new_level WHERE id = p_user_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_ledger_entry(UUID, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_ledger_entry(UUID, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, TEXT) TO service_role;
+
+-- The browser used these with the anon key to mint currency. Close them off.
+REVOKE EXECUTE ON FUNCTION add_coins(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_feathers(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_coins(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION add_feathers(UUID, INTEGER) TO service_role;
+
+-- deduct_coins/deduct_feathers (002_currency_functions) took any amount from
+-- any caller, so a negative amount minted currency. Shop purchases now go
+-- through the server (purchase_cosmetic below); keep the functions for the
+-- service role only and refuse non-positive amounts and foreign accounts.
+CREATE OR REPLACE FUNCTION deduct_coins(user_id UUID, amount INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  IF amount IS NULL OR amount <= 0 THEN
+    RAISE EXCEPTION 'amount must be positive';
+  END IF;
+  IF auth.uid() IS NOT NULL AND auth.uid() <> user_id THEN
+    RAISE EXCEPTION 'cannot deduct from another account'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  UPDATE profiles
+  SET coins = GREATEST(coins - amount, 0)
+  WHERE id = user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION deduct_feathers(user_id UUID, amount INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  IF amount IS NULL OR amount <= 0 THEN
+    RAISE EXCEPTION 'amount must be positive';
+  END IF;
+  IF auth.uid() IS NOT NULL AND auth.uid() <> user_id THEN
+    RAISE EXCEPTION 'cannot deduct from another account'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  UPDATE profiles
+  SET feathers = GREATEST(feathers - amount, 0)
+  WHERE id = user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION deduct_coins(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION deduct_feathers(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION deduct_coins(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION deduct_feathers(UUID, INTEGER) TO service_role;
+
+-- Charge a shop purchase: the ledger entry, the purchase record and the
+-- inventory row are written in one transaction. The server passes the
+-- catalogue price; returns 'ok', 'owned' or 'insufficient'.
+CREATE OR REPLACE FUNCTION purchase_cosmetic(
+  p_user_id UUID,
+  p_item_id TEXT,
+  p_item_type TEXT,
+  p_coins INTEGER,
+  p_feathers INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+  cur_coins INTEGER;
+  cur_feathers INTEGER;
+BEGIN
+  IF p_coins < 0 OR p_feathers < 0 OR (p_coins = 0) = (p_feathers = 0) THEN
+    RAISE EXCEPTION 'purchase must cost coins or feathers';
+  END IF;
+
+  SELECT coins, feathers INTO cur_coins, cur_feathers
+  FROM profiles WHERE id = p_user_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM inventory
+    WHERE user_id = p_user_id AND item_id = p_item_id AND item_type = p_item_type::cosmetic_type
+  ) THEN
+    RETURN 'owned';
+  END IF;
+
+  IF cur_coins IS NULL OR cur_coins < p_coins OR cur_feathers < p_feathers THEN
+    RETURN 'insufficient';
+  END IF;
+
+  PERFORM apply_ledger_entry(p_user_id, 'shop', -p_coins, 0, -p_feathers, 0, p_item_id);
+
+  INSERT INTO purchases (user_id, item_id, item_type, currency_type, amount)
+  VALUES (
+    p_user_id, p_item_id, p_item_type::cosmetic_type,
+    CASE WHEN p_coins > 0 THEN 'coins'::currency_type ELSE 'feathers'::currency_type END,
+    GREATEST(p_coins, p_feathers)
+  );
+
+  INSERT INTO inventory (user_id, item_id, item_type)
+  VALUES (p_user_id, p_item_id, p_item_type::cosmetic_type);
+
+  RETURN 'ok';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION purchase_cosmetic(UUID, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purchase_cosmetic(UUID, TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+-- Found a murmuration for the calling player: charge the creation cost
+-- (MURMURATION.CREATE_COST / MIN_LEVEL in src/utils/Constants.ts) through the
+-- ledger and insert the murmuration with its alpha in one transaction, so the
+-- browser no longer needs deduct_coins or an add_coins refund.
+CREATE OR REPLACE FUNCTION create_murmuration(
+  p_name TEXT,
+  p_tag TEXT,
+  p_description TEXT,
+  p_privacy TEXT
+)
+RETURNS murmurations AS $$
+DECLARE
+  create_cost CONSTANT INTEGER := 500;
+  min_level CONSTANT INTEGER := 5;
+  caller UUID := auth.uid();
+  cur_coins INTEGER;
+  cur_level INTEGER;
+  created murmurations;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'authentication required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT coins, level INTO cur_coins, cur_level
+  FROM profiles WHERE id = caller FOR UPDATE;
+
+  IF cur_level IS NULL OR cur_level < min_level THEN
+    RAISE EXCEPTION 'You must be at least level % to create a murmuration', min_level;
+  END IF;
+  IF cur_coins < create_cost THEN
+    RAISE EXCEPTION 'Creating a murmuration costs % coins. You have %', create_cost, cur_coins;
+  END IF;
+
+  INSERT INTO murmurations (name, tag, description, privacy, alpha_id)
+  VALUES (p_name, UPPER(p_tag), p_description, p_privacy, caller)
+  RETURNING * INTO created;
+
+  INSERT INTO murmuration_members (murmuration_id, user_id, role)
+  VALUES (created.id, caller, 'alpha');
+
+  PERFORM apply_ledger_entry(caller, 'murmuration', -create_cost, 0, 0, 0, created.id::TEXT);
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_murmuration(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_murmuration(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- "Users can update their own profile" (001_initial_schema) still lets the
+-- browser UPDATE every profile column with the anon key. Players keep that for
+-- everything else, but the economy columns belong to the ledger: reject any
+-- change to them unless it comes from the server (service role) or a
+-- SECURITY DEFINER function such as apply_ledger_entry().
+CREATE OR REPLACE FUNCTION reject_client_economy_writes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND (
+    NEW.coins IS DISTINCT FROM OLD.coins OR
+    NEW.xp IS DISTINCT FROM OLD.xp OR
+    NEW.feathers IS DISTINCT FROM OLD.feathers OR
+    NEW.level IS DISTINCT FROM OLD.level
+  ) THEN
+    RAISE EXCEPTION 'coins, xp, feathers and level are written by the game server'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reject_client_economy_writes ON profiles;
+CREATE TRIGGER reject_client_economy_writes
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_client_economy_writes();
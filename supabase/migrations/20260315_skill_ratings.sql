@@ -0,0 +1,26 @@
+-- ============================================================================
+-- Skill Ratings
+-- Glicko-2 ratings per player per mode, and per murmuration for MvM team
+-- modes (subject_id 'mur:<murmuration id>'). Written only by the game server
+-- (service key); matchmaking reads them to pair even opponents.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS skill_ratings (
+  subject_id TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  rating DOUBLE PRECISION NOT NULL DEFAULT 1500,
+  rd DOUBLE PRECISION NOT NULL DEFAULT 350,
+  volatility DOUBLE PRECISION NOT NULL DEFAULT 0.06,
+  games INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (subject_id, mode)
+);
+
+CREATE INDEX IF NOT EXISTS skill_ratings_mode_idx ON skill_ratings (mode, rating DESC);
+
+ALTER TABLE skill_ratings ENABLE ROW LEVEL SECURITY;
+
+-- Ratings are public (profiles, leaderboards); nobody but the service role may write.
+CREATE POLICY "Anyone can view skill ratings"
+  ON skill_ratings FOR SELECT
+  USING (true);
@@ -5,6 +5,7 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'jsdom', // Simulates browser environment for DOM testing
+    environmentMatchGlobs: [['server/**', 'node'], ['shared/**', 'node']], // Server tests run real sockets
     setupFiles: [], // Add setup files here if needed
     coverage: {
       provider: 'v8',
@@ -13,13 +14,15 @@ export default defineConfig({
         'node_modules/',
         'dist/',
         'src/__tests__/',
+        'server/__tests__/',
+        'shared/__tests__/',
         '**/*.d.ts',
         '**/*.config.*',
         '**/mockData',
         'src/types/',
       ],
     },
-    include: ['src/**/*.{test,spec}.{js,ts}'],
+    include: ['src/**/*.{test,spec}.{js,ts}', 'server/**/*.{test,spec}.{js,ts}', 'shared/**/*.{test,spec}.{js,ts}'],
     exclude: ['node_modules', 'dist', '.idea', '.git', '.cache'],
   },
   resolve: {